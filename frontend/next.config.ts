@@ -20,6 +20,14 @@ const nextConfig: NextConfig = {
   // so the worker file is resolved from node_modules at runtime
   serverExternalPackages: ["pdf-parse"],
 
+  // The Engpass-Check runs on the generic scorecard engine; DOI mails sent before
+  // the move link to its old confirm page. The query (?token=) is passed through.
+  async redirects() {
+    return [
+      { source: "/engpass-check/bestaetigen", destination: "/api/scorecard/confirm", permanent: true },
+    ];
+  },
+
   async headers() {
     return [
       {
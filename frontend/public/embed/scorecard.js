@@ -0,0 +1,64 @@
+/**
+ * Scorecard embed loader for partner pages.
+ *
+ *   <div data-dk-scorecard="dsgvo-check" data-partner="kanzlei-x"></div>
+ *   <script src="https://<our domain>/embed/scorecard.js" async></script>
+ *
+ * Replaces every [data-dk-scorecard] element's content with an iframe of
+ * /embed/<slug>?partner=<id> (forwarding a trackmysales ?tid of the host page),
+ * sizes it to the reported content height and re-dispatches the scorecard's
+ * events on the element:
+ *
+ *   el.addEventListener("dk-scorecard:complete", (e) => e.detail.outcome);
+ *
+ * Events: dk-scorecard:start, dk-scorecard:complete ({ outcome }),
+ * dk-scorecard:submitted. No answers or email ever reach the host page.
+ */
+(function () {
+  "use strict";
+
+  var SOURCE = "dk-scorecard"; // = EMBED_MESSAGE_SOURCE in lib/scorecard/embed.ts
+  var script = document.currentScript;
+  if (!script || !script.src) return;
+  var origin = new URL(script.src).origin;
+  var frames = [];
+
+  function mount(el) {
+    if (el.getAttribute("data-dk-mounted")) return;
+    el.setAttribute("data-dk-mounted", "1");
+    var url = new URL("/embed/" + encodeURIComponent(el.getAttribute("data-dk-scorecard")), origin);
+    var partner = el.getAttribute("data-partner");
+    if (partner) url.searchParams.set("partner", partner);
+    var tid = new URLSearchParams(window.location.search).get("tid");
+    if (tid) url.searchParams.set("tid", tid);
+
+    var iframe = document.createElement("iframe");
+    iframe.src = url.toString();
+    iframe.title = el.getAttribute("data-title") || "Check";
+    iframe.loading = "lazy";
+    iframe.style.cssText = "display:block;width:100%;height:640px;border:0;";
+    el.replaceChildren(iframe);
+    frames.push({ el: el, iframe: iframe });
+  }
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.origin !== origin || !data || data.source !== SOURCE) return;
+    var frame = frames.find(function (f) {
+      return f.iframe.contentWindow === event.source;
+    });
+    if (!frame) return;
+    if (data.type === "resize") {
+      if (typeof data.height === "number" && data.height > 0) frame.iframe.style.height = data.height + "px";
+      return;
+    }
+    frame.el.dispatchEvent(new CustomEvent("dk-scorecard:" + data.type, { bubbles: true, detail: data }));
+  });
+
+  function mountAll() {
+    document.querySelectorAll("[data-dk-scorecard]").forEach(mount);
+  }
+
+  if (document.readyState === "loading") document.addEventListener("DOMContentLoaded", mountAll);
+  else mountAll();
+})();
@@ -0,0 +1,18 @@
+/**
+ * npm run scorecards:check — prints the static validator report
+ * (lib/scorecard/validate.ts) for every registered scorecard; exits 1 when
+ * any registration is invalid.
+ */
+
+// Scorecard views import their CSS (bundled by Next); plain Node just skips it.
+require.extensions[".css"] = () => undefined;
+
+async function checkScorecards(): Promise<void> {
+  const { REGISTRATIONS } = await import("@/scorecards");
+  const { formatReport, validateRegistrations } = await import("@/lib/scorecard/validate");
+  const reports = validateRegistrations(REGISTRATIONS);
+  console.log(formatReport(reports));
+  process.exitCode = reports.some((r) => r.problems.length > 0) ? 1 : 0;
+}
+
+void checkScorecards();
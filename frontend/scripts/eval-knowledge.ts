@@ -0,0 +1,30 @@
+/**
+ * npm run knowledge:eval [budget…] — runs the chat retrieval fixture questions
+ * (lib/retrieval/__fixtures__/questions.ts) against the current knowledge base
+ * and prints recall + tokens per budget (default: CHAT_CONTEXT_TOKEN_BUDGET or
+ * 3000). Uses embeddings too when KNOWLEDGE_EMBEDDINGS is set; exits 1 when
+ * any expected section is missed.
+ */
+
+async function evalKnowledge(): Promise<void> {
+  const { loadAndCompileKnowledge } = await import("@/lib/knowledge-loader");
+  const { buildKnowledgeIndex, embeddingProviderFromEnv, evaluateRetrieval, formatRetrievalReport } =
+    await import("@/lib/retrieval");
+  const { RETRIEVAL_CASES } = await import("@/lib/retrieval/__fixtures__/questions");
+
+  const budgets = process.argv.slice(2).map(Number).filter((n) => n > 0);
+  if (budgets.length === 0) budgets.push(Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET) || 3000);
+
+  const index = buildKnowledgeIndex((await loadAndCompileKnowledge()).contextSections);
+  const embeddings = embeddingProviderFromEnv();
+  let missed = false;
+  for (const tokenBudget of budgets) {
+    const report = await evaluateRetrieval(index, RETRIEVAL_CASES, { tokenBudget, embeddings });
+    console.log(`\nBudget ${tokenBudget} tok${embeddings ? ` + ${embeddings.id}` : ""}\n`);
+    console.log(formatRetrievalReport(report));
+    missed ||= report.recall < 1;
+  }
+  process.exitCode = missed ? 1 : 0;
+}
+
+void evalKnowledge();
@@ -0,0 +1,45 @@
+/**
+ * npm run scorecards:recompute -- <slug> [--version <n>]
+ *
+ * Re-scores the stored submissions of a scorecard under its current
+ * definition and prints the diff (lib/scorecard/recompute.ts). Read-only —
+ * nothing is written back. Needs DATABASE_URL.
+ */
+
+// Scorecard views import their CSS (bundled by Next); plain Node just skips it.
+require.extensions[".css"] = () => undefined;
+
+async function recomputeScorecard(): Promise<void> {
+  const [slug, flag, value] = process.argv.slice(2);
+  const onlyVersion = flag === "--version" ? Number(value) : undefined;
+  if (!slug || (flag !== undefined && !Number.isInteger(onlyVersion))) {
+    console.error("Usage: npm run scorecards:recompute -- <slug> [--version <n>]");
+    process.exitCode = 2;
+    return;
+  }
+
+  const { getScorecard } = await import("@/lib/scorecard/registry");
+  const { formatRecompute, recompute } = await import("@/lib/scorecard/recompute");
+  const { getScorecardSubmissionsForRecompute } = await import("@/db/scorecard-submissions");
+  const { closeDb, isDatabaseConfigured } = await import("@/db/client");
+
+  const reg = getScorecard(slug);
+  if (!reg) {
+    console.error(`Unknown scorecard: ${slug}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (!isDatabaseConfigured()) {
+    console.error("DATABASE_URL is not set");
+    process.exitCode = 2;
+    return;
+  }
+  try {
+    const rows = await getScorecardSubmissionsForRecompute(slug);
+    console.log(formatRecompute(recompute(reg, rows, onlyVersion)));
+  } finally {
+    await closeDb();
+  }
+}
+
+void recomputeScorecard();
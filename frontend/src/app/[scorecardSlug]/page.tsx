@@ -1,7 +1,10 @@
 import { notFound } from "next/navigation";
+import { cookies } from "next/headers";
 import type { Metadata } from "next";
 import { Anton } from "next/font/google";
 import { getScorecard } from "@/lib/scorecard/registry";
+import { experimentCookieName, pickVariant, variantFromCookie } from "@/lib/scorecard/experiments";
+import { supportedLocales } from "@/lib/scorecard/locale";
 import { REGISTRATIONS } from "@/scorecards";
 import { ScorecardAppBySlug } from "@/components/scorecard/ScorecardAppBySlug";
 import "@/components/scorecard/sc.css";
@@ -22,7 +25,16 @@ export async function generateMetadata({
 }): Promise<Metadata> {
   const { scorecardSlug } = await params;
   const reg = getScorecard(scorecardSlug);
-  return reg ? { title: reg.meta.title, description: reg.meta.description } : {};
+  if (!reg) return {};
+  // Translated scorecards point search engines to their /<locale>/<slug> versions.
+  const languages = Object.fromEntries(
+    supportedLocales(reg).map((l) => [l, l === "de" ? `/${scorecardSlug}` : `/${l}/${scorecardSlug}`]),
+  );
+  return {
+    title: reg.meta.title,
+    description: reg.meta.description,
+    ...(Object.keys(languages).length > 1 ? { alternates: { languages } } : {}),
+  };
 }
 
 export default async function ScorecardPage({
@@ -33,9 +45,21 @@ export default async function ScorecardPage({
   const { scorecardSlug } = await params;
   const reg = getScorecard(scorecardSlug);
   if (!reg) notFound();
+
+  // A running experiment makes the page per-visitor: keep the cookie's variant, else draw one.
+  // The cookie only exists once the visitor agreed to it (see lib/scorecard/experiments.ts).
+  let variantId: string | undefined;
+  let variantStored = false;
+  if (reg.experiment) {
+    const cookie = (await cookies()).get(experimentCookieName(scorecardSlug))?.value;
+    const stored = variantFromCookie(reg.experiment, cookie);
+    variantId = (stored ?? pickVariant(reg.experiment)).id;
+    variantStored = Boolean(stored);
+  }
+
   return (
     <div className={anton.variable}>
-      <ScorecardAppBySlug slug={scorecardSlug} />
+      <ScorecardAppBySlug slug={scorecardSlug} variantId={variantId} variantStored={variantStored} />
     </div>
   );
 }
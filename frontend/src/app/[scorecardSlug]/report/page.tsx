@@ -1,19 +1,27 @@
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
 import Link from "next/link";
-import { getScorecard } from "@/lib/scorecard/registry";
+import { getScorecard, registrationAt } from "@/lib/scorecard/registry";
+import { localizedRegistration, resolveLocale, type Locale } from "@/lib/scorecard/locale";
 import { buildScorecardReport, type ScorecardReport } from "@/lib/scorecard/report-model";
 import { ScorecardReportDoc } from "@/components/scorecard/ScorecardReportDoc";
-import { DEFAULT_REPORT_LABELS } from "@/components/scorecard/ScorecardReportView";
+import { REPORT_LABELS } from "@/components/scorecard/ScorecardReportView";
 import { PrintButton } from "@/components/scorecard/PrintButton";
 import { findScorecardByReportToken } from "@/db/scorecard-submissions";
 import { isDatabaseConfigured } from "@/db/client";
+import { isPdfConfigured } from "@/lib/scorecard/pdf";
 import "@/components/scorecard/sc-report-doc.css";
 
 /** Token-gated personal report — never indexed, always rendered per-request. */
 export const metadata: Metadata = { robots: { index: false, follow: false } };
 export const dynamic = "force-dynamic";
 
+/** Header chrome per locale. */
+const CHROME: Record<Locale, { home: string; print: string }> = {
+  de: { home: "Zur Startseite von", print: "Als PDF speichern" },
+  en: { home: "Go to the homepage of", print: "Save as PDF" },
+};
+
 export default async function ScorecardReportPage({
   params,
   searchParams,
@@ -28,8 +36,16 @@ export default async function ScorecardReportPage({
   const submission = await findScorecardByReportToken(token);
   if (!submission || submission.scorecard !== scorecardSlug) notFound();
 
-  const reg = getScorecard(scorecardSlug);
-  if (!reg) notFound();
+  const current = getScorecard(scorecardSlug);
+  if (!current) notFound();
+  // Render with the definition + content the result was scored against, in the lead's language.
+  const locale = resolveLocale(current, submission.locale);
+  const reg = localizedRegistration(registrationAt(current, submission.definitionVersion), locale);
+  const chrome = CHROME[locale];
+  // Server-rendered PDF when this deployment ships Chromium; browser print otherwise.
+  const pdfHref = isPdfConfigured()
+    ? `/${scorecardSlug}/report/pdf?token=${encodeURIComponent(token)}`
+    : undefined;
 
   if (reg.ReportDoc) {
     const ReportDoc = reg.ReportDoc;
@@ -37,14 +53,14 @@ export default async function ScorecardReportPage({
       <div className="sc-doc">
         <header className="scd-header">
           <div className="scd-header-inner">
-            <Link href="/" className="scd-brand" aria-label={`Zur Startseite von ${reg.branding.brandAuthor}`}>
+            <Link href="/" className="scd-brand" aria-label={`${chrome.home} ${reg.branding.brandAuthor}`}>
               <span className="scd-brand-name">{reg.branding.brandName}</span>
               <span className="scd-brand-sub">{reg.branding.brandAuthor} · Report</span>
             </Link>
-            <PrintButton label="Als PDF speichern" />
+            <PrintButton label={chrome.print} pdfHref={pdfHref} />
           </div>
         </header>
-        <ReportDoc result={submission.result} answers={submission.answers} />
+        <ReportDoc result={submission.result} answers={submission.answers} locale={locale} />
       </div>
     );
   }
@@ -62,20 +78,21 @@ export default async function ScorecardReportPage({
     <div className="sc-doc">
       <header className="scd-header">
         <div className="scd-header-inner">
-          <Link href="/" className="scd-brand" aria-label={`Zur Startseite von ${reg.branding.brandAuthor}`}>
+          <Link href="/" className="scd-brand" aria-label={`${chrome.home} ${reg.branding.brandAuthor}`}>
             <span className="scd-brand-name">{reg.branding.brandName}</span>
             <span className="scd-brand-sub">{reg.branding.brandAuthor} · Report</span>
           </Link>
-          <PrintButton label="Als PDF speichern" />
+          <PrintButton label={chrome.print} pdfHref={pdfHref} />
         </div>
       </header>
 
       <ScorecardReportDoc
         model={model}
-        labels={DEFAULT_REPORT_LABELS}
+        labels={REPORT_LABELS[locale]}
         eyebrow={reg.content.resultHeading}
         tipps={reg.content.tipps}
         weakestCategory={submission.result.nextLever}
+        locale={locale}
       />
     </div>
   );
@@ -0,0 +1,91 @@
+/**
+ * GET /<slug>/report/pdf — token-gated server-rendered report PDF.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => true }));
+
+const mockFind = jest.fn();
+jest.mock("@/db/scorecard-submissions", () => ({
+  findScorecardByReportToken: (...a: unknown[]) => mockFind(...a),
+}));
+
+const mockRender = jest.fn();
+let pdfConfigured = true;
+jest.mock("@/lib/scorecard/pdf", () => ({
+  renderScorecardReportPdf: (...a: unknown[]) => mockRender(...a),
+  isPdfConfigured: () => pdfConfigured,
+  reportPdfFilename: (slug: string) => `${slug}-report.pdf`,
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {
+    public nextUrl: URL;
+    constructor(url: string) {
+      this.nextUrl = new URL(url);
+    }
+  },
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), { status: init?.status ?? 200 }),
+  },
+}));
+
+import { GET } from "./route";
+
+function get(slug: string, qs: string): Promise<Response> {
+  const req = new (jest.requireMock("next/server").NextRequest)(`http://localhost/${slug}/report/pdf${qs}`);
+  return GET(req as never, { params: Promise.resolve({ scorecardSlug: slug }) });
+}
+
+beforeEach(() => {
+  mockFind.mockReset().mockResolvedValue({ scorecard: "ki-check", reportToken: "rep_abc" });
+  mockRender.mockReset().mockResolvedValue(Buffer.from("%PDF-1.4"));
+  pdfConfigured = true;
+});
+
+describe("GET /[scorecardSlug]/report/pdf", () => {
+  it("returns the rendered report as a non-cacheable attachment", async () => {
+    const res = await get("ki-check", "?token=rep_abc");
+    expect(res.status).toBe(200);
+    expect(mockRender).toHaveBeenCalledWith("ki-check", "rep_abc");
+    expect(res.headers.get("content-type")).toBe("application/pdf");
+    expect(res.headers.get("content-disposition")).toBe('attachment; filename="ki-check-report.pdf"');
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(Buffer.from(await res.arrayBuffer()).toString()).toBe("%PDF-1.4");
+  });
+
+  it("404s without a token, for an unknown token and for a foreign slug — before Chromium starts", async () => {
+    expect((await get("ki-check", "")).status).toBe(404);
+    mockFind.mockResolvedValueOnce(undefined);
+    expect((await get("ki-check", "?token=nope")).status).toBe(404);
+    expect((await get("dsgvo-check", "?token=rep_abc")).status).toBe(404);
+    expect(mockRender).not.toHaveBeenCalled();
+  });
+
+  it("503s when this deployment has no Chromium", async () => {
+    pdfConfigured = false;
+    const res = await get("ki-check", "?token=rep_abc");
+    expect(res.status).toBe(503);
+    expect((await res.json()).code).toBe("PDF_NOT_CONFIGURED");
+  });
+
+  it("500s when the render fails", async () => {
+    mockRender.mockRejectedValueOnce(new Error("chromium crashed"));
+    const res = await get("ki-check", "?token=rep_abc");
+    expect(res.status).toBe(500);
+    expect((await res.json()).code).toBe("INTERNAL_ERROR");
+  });
+
+  it("rate-limits repeated downloads of the same report", async () => {
+    mockFind.mockResolvedValue({ scorecard: "ki-check", reportToken: "rep_loop" });
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) statuses.push((await get("ki-check", "?token=rep_loop")).status);
+    expect(statuses.slice(0, 10).every((s) => s === 200)).toBe(true);
+    expect(statuses[10]).toBe(429);
+  });
+});
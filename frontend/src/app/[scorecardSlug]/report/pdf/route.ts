@@ -0,0 +1,56 @@
+/**
+ * GET /<slug>/report/pdf?token=
+ *
+ * The gated report as a server-rendered PDF download. The token is checked here
+ * before Chromium starts, so guessing costs a DB lookup, not a browser launch.
+ * Unknown token or a foreign slug → 404; no Chromium in this deployment → 503.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { isDatabaseConfigured } from "@/db/client";
+import { findScorecardByReportToken } from "@/db/scorecard-submissions";
+import { createRateLimiter } from "@/lib/scorecard/rate-limit";
+import { isPdfConfigured, renderScorecardReportPdf, reportPdfFilename } from "@/lib/scorecard/pdf";
+
+const log = createLogger("ScorecardReportPdfAPI");
+// Per report token: a lead re-downloading is fine, a loop hammering Chromium is not.
+const limiter = createRateLimiter({ max: 10, windowMs: 10 * 60 * 1000 });
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scorecardSlug: string }> },
+): Promise<Response> {
+  const { scorecardSlug } = await params;
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token || !isDatabaseConfigured()) {
+    return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+  }
+  if (!isPdfConfigured()) {
+    return NextResponse.json({ ok: false, code: "PDF_NOT_CONFIGURED" }, { status: 503 });
+  }
+
+  try {
+    const submission = await findScorecardByReportToken(token);
+    if (!submission || submission.scorecard !== scorecardSlug) {
+      return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+    }
+    if (!limiter.check(token)) {
+      return NextResponse.json({ ok: false, code: "RATE_LIMITED" }, { status: 429 });
+    }
+
+    const pdf = await renderScorecardReportPdf(scorecardSlug, token);
+    return new Response(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${reportPdfFilename(scorecardSlug)}"`,
+        "Cache-Control": "no-store",
+        "X-Robots-Tag": "noindex, nofollow",
+      },
+    });
+  } catch (error) {
+    log.error("Scorecard report PDF failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { render, screen } from '@testing-library/react';
+import FunnelsAdminPage from './page';
+import { loadFunnelDashboard } from '@/lib/funnels/dashboard';
+import { aggregateExperiment, aggregateFunnel } from '@/lib/funnels/analytics';
+
+jest.mock('@/lib/funnels/dashboard', () => ({ loadFunnelDashboard: jest.fn() }));
+
+const mockNotFound = jest.fn(() => {
+  throw new Error('NEXT_NOT_FOUND');
+});
+jest.mock('next/navigation', () => ({
+  ...jest.requireActual('next/navigation'),
+  notFound: () => mockNotFound(),
+}));
+
+const RANGE = {
+  from: new Date('2026-10-01T00:00:00Z'),
+  to: new Date('2026-10-08T00:00:00Z'),
+  fromDay: '2026-10-01',
+  toDay: '2026-10-07',
+};
+
+const FUNNEL = aggregateFunnel(
+  {
+    slug: 'test-check',
+    title: 'Test-Check',
+    questions: [{ id: 'Q1', prompt: 'Was ist Deine Rolle?', options: [{ id: 'gf', label: 'Geschäftsführung' }] }],
+    outcomeLabel: (k) => (k === 'gut' ? 'Gut aufgestellt' : k),
+    leverLabel: (k) => k,
+  },
+  [
+    { answers: { Q1: 'gf' }, doiStatus: 'confirmed', qualified: true, outcome: 'gut', nextLever: null, tid: 'v1' },
+    { answers: { Q1: 'gf' }, doiStatus: 'pending', qualified: false, outcome: 'gut', nextLever: null, tid: null },
+  ],
+);
+
+describe('FunnelsAdminPage (/admin/funnels)', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('404s on an unknown token', async () => {
+    (loadFunnelDashboard as jest.Mock).mockResolvedValue(null);
+    await expect(FunnelsAdminPage({ searchParams: Promise.resolve({ token: 'wrong' }) })).rejects.toThrow(
+      'NEXT_NOT_FOUND',
+    );
+  });
+
+  it('passes the token and date range through', async () => {
+    (loadFunnelDashboard as jest.Mock).mockResolvedValue({ range: RANGE, databaseConfigured: true, funnels: [] });
+    await FunnelsAdminPage({ searchParams: Promise.resolve({ token: 'tok', from: '2026-10-01', to: '2026-10-07' }) });
+    expect(loadFunnelDashboard).toHaveBeenCalledWith('tok', { from: '2026-10-01', to: '2026-10-07' });
+  });
+
+  it('shows the KPIs, outcome, answer and source breakdown of each funnel', async () => {
+    (loadFunnelDashboard as jest.Mock).mockResolvedValue({ range: RANGE, databaseConfigured: true, funnels: [FUNNEL] });
+    render(await FunnelsAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(screen.getByRole('heading', { level: 2, name: 'Test-Check' })).toBeInTheDocument();
+    expect(screen.getAllByText('1 (50 %)', { selector: 'dd' })).toHaveLength(2);
+    expect(screen.getByText('Gut aufgestellt')).toBeInTheDocument();
+    expect(screen.getByText('Geschäftsführung')).toBeInTheDocument();
+    expect(screen.getByText('trackmysales-Link (tid)')).toBeInTheDocument();
+    expect(screen.getByText('Dieser Check hat keinen Hebel.')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Partner-Embeds' })).not.toBeInTheDocument();
+  });
+
+  it('charts the drop-off per question once steps were counted', async () => {
+    const withSteps = aggregateFunnel(
+      {
+        slug: 'steps-check',
+        title: 'Steps-Check',
+        questions: [{ id: 'Q1', prompt: 'Rolle?', options: [] }],
+        outcomeLabel: (k) => k,
+        leverLabel: (k) => k,
+      },
+      [],
+      [
+        { experiment: '', variant: '', step: 'view', question: -1, count: 4 },
+        { experiment: '', variant: '', step: 'question', question: 0, count: 2 },
+      ],
+    );
+    (loadFunnelDashboard as jest.Mock).mockResolvedValue({
+      range: RANGE,
+      databaseConfigured: true,
+      funnels: [withSteps, FUNNEL],
+    });
+    render(await FunnelsAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(screen.getByText('Frage 1 · Q1')).toBeInTheDocument();
+    expect(screen.getByText('2 · 50 %')).toBeInTheDocument();
+    expect(screen.getByText('Keine Schritt-Daten im Zeitraum.')).toBeInTheDocument();
+  });
+
+  it('shows the A/B table per variant with conversion from start and p-values', async () => {
+    const experiment = aggregateExperiment(
+      { id: 'optin-copy', variants: ['control', 'kurz'] },
+      [{ answers: {}, doiStatus: 'confirmed', qualified: true, outcome: 'gut', nextLever: null, tid: null, experiment: 'optin-copy', variant: 'kurz' }],
+      [
+        { experiment: 'optin-copy', variant: 'control', step: 'start', question: -1, count: 10 },
+        { experiment: 'optin-copy', variant: 'kurz', step: 'start', question: -1, count: 10 },
+      ],
+    );
+    (loadFunnelDashboard as jest.Mock).mockResolvedValue({
+      range: RANGE,
+      databaseConfigured: true,
+      funnels: [{ ...FUNNEL, experiment }],
+    });
+    render(await FunnelsAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(screen.getByRole('heading', { name: 'Experiment optin-copy' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'control (Kontrolle)' })).toBeInTheDocument();
+    expect(screen.getAllByRole('cell', { name: /^1 · 10 %/ })).toHaveLength(2);
+    expect(screen.getAllByText('p = 0,305')).toHaveLength(2);
+  });
+
+  it('keeps the token in the range form and the preset links', async () => {
+    (loadFunnelDashboard as jest.Mock).mockResolvedValue({ range: RANGE, databaseConfigured: true, funnels: [] });
+    const { container } = render(await FunnelsAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(container.querySelector('input[name="token"]')).toHaveValue('tok');
+    expect(container.querySelector('input[name="from"]')).toHaveValue('2026-10-01');
+    expect(screen.getByRole('link', { name: '7 Tage' })).toHaveAttribute(
+      'href',
+      '/admin/funnels?token=tok&from=2026-10-01&to=2026-10-07',
+    );
+  });
+});
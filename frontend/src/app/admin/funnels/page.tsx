@@ -0,0 +1,257 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Layout } from "@/components/Layout";
+import type { DistributionEntry, ExperimentStats, FunnelStats, FunnelStep } from "@/lib/funnels/analytics";
+import { loadFunnelDashboard } from "@/lib/funnels/dashboard";
+import { RETENTION_DAYS } from "@/lib/retention";
+
+// Reads live submissions behind a token — never prerender or cache it.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Funnel-Auswertung | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+  referrer: "no-referrer",
+};
+
+const PRESET_DAYS = [7, 30, 90, 365];
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)} %`;
+}
+
+function Bars({ entries, empty = "Keine Daten im Zeitraum." }: { entries: DistributionEntry[]; empty?: string }) {
+  if (entries.every((e) => e.count === 0)) {
+    return <p className="text-sm text-[var(--foreground-muted)]">{empty}</p>;
+  }
+  return (
+    <ul className="space-y-1 text-sm">
+      {entries.map((e) => (
+        <li key={e.key} className="grid grid-cols-[minmax(0,14rem)_1fr_5.5rem] items-center gap-3">
+          <span className="truncate text-[var(--foreground)]" title={e.label}>
+            {e.label}
+          </span>
+          <span className="h-2 rounded bg-[var(--border)]">
+            <span
+              className="block h-2 rounded bg-[var(--primary-500)]"
+              style={{ width: `${Math.min(100, Math.round(e.share * 100))}%` }}
+            />
+          </span>
+          <span className="text-right tabular-nums text-[var(--foreground-muted)]">
+            {e.count} · {percent(e.share)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const STEP_LABEL: Record<FunnelStep, string> = {
+  start: "Start",
+  finish: "Quiz beendet",
+  submit: "E-Mail",
+  confirm: "DOI bestätigt",
+};
+
+function pValue(p: number | null): string {
+  if (p === null) return "";
+  return p < 0.001 ? "p < 0,001" : `p = ${p.toFixed(3).replace(".", ",")}`;
+}
+
+/** Conversion from start per step and variant; p-values test each variant against the control. */
+function ExperimentTable({ experiment }: { experiment: ExperimentStats }) {
+  return (
+    <>
+      <table className="text-sm text-[var(--foreground-muted)]">
+        <thead>
+          <tr>
+            {["Variante", ...Object.values(STEP_LABEL)].map((h) => (
+              <th key={h} scope="col" className="pr-6 text-left font-semibold text-[var(--foreground)]">
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {experiment.variants.map((v) => (
+            <tr key={v.variant}>
+              <td className="pr-6">
+                {v.variant}
+                {v.control && " (Kontrolle)"}
+              </td>
+              {v.steps.map((s) => (
+                <td key={s.step} className="pr-6 tabular-nums">
+                  {s.count}
+                  {s.step !== "start" && ` · ${percent(s.rate)}`}
+                  {s.pValue !== null && <span className="block text-xs">{pValue(s.pValue)}</span>}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-[var(--foreground-muted)]">
+        Quoten ab Start; p-Wert: zweiseitiger Zwei-Stichproben-z-Test gegen die Kontrolle.
+      </p>
+    </>
+  );
+}
+
+function FunnelSection({ funnel }: { funnel: FunnelStats }) {
+  const kpis = [
+    { label: "Quiz gestartet", value: String(funnel.started) },
+    { label: "Quiz beendet", value: String(funnel.finished) },
+    { label: "Submits", value: String(funnel.submits) },
+    { label: "DOI bestätigt", value: `${funnel.confirmed} (${percent(funnel.confirmationRate)})` },
+    { label: "qualifiziert", value: `${funnel.qualified} (${percent(funnel.qualifiedShare)})` },
+    { label: "trackmysales-Besucher", value: String(funnel.trackedVisitors) },
+  ];
+  const headingClass = "mb-2 mt-6 text-sm font-semibold uppercase tracking-wide text-[var(--foreground)]";
+
+  return (
+    <section aria-label={funnel.title} className="border-t border-[var(--border)] py-8">
+      <h2 className="brand-display mb-1 text-xl text-[var(--foreground)]">{funnel.title}</h2>
+      <p className="mb-4 text-xs text-[var(--foreground-muted)]">/{funnel.slug}</p>
+      <dl className="grid grid-cols-2 gap-3 md:grid-cols-3">
+        {kpis.map((k) => (
+          <div key={k.label} className="rounded-lg border border-[var(--border)] px-3 py-2">
+            <dt className="text-xs text-[var(--foreground-muted)]">{k.label}</dt>
+            <dd className="text-lg font-semibold tabular-nums text-[var(--foreground)]">{k.value}</dd>
+          </div>
+        ))}
+      </dl>
+      <h3 className={headingClass}>Drop-off</h3>
+      {funnel.viewed + funnel.started === 0 ? (
+        <p className="text-sm text-[var(--foreground-muted)]">Keine Schritt-Daten im Zeitraum.</p>
+      ) : (
+        <Bars entries={funnel.dropOff} />
+      )}
+      {funnel.experiment && (
+        <>
+          <h3 className={headingClass}>Experiment {funnel.experiment.id}</h3>
+          <ExperimentTable experiment={funnel.experiment} />
+        </>
+      )}
+      {funnel.submits === 0 ? (
+        <p className="mt-6 text-[var(--foreground-muted)]">Keine Submits im Zeitraum.</p>
+      ) : (
+        <>
+          <h3 className={headingClass}>Ergebnis</h3>
+          <Bars entries={funnel.outcomes} />
+          <h3 className={headingClass}>Nächster Hebel</h3>
+          <Bars entries={funnel.nextLevers} empty="Dieser Check hat keinen Hebel." />
+          {funnel.extras.map((x) => (
+            <div key={x.heading}>
+              <h3 className={headingClass}>{x.heading}</h3>
+              <Bars entries={x.entries} />
+            </div>
+          ))}
+          <h3 className={headingClass}>Quelle</h3>
+          <table className="text-sm text-[var(--foreground-muted)]">
+            <thead>
+              <tr>
+                {["Quelle", "Submits", "bestätigt", "qualifiziert"].map((h) => (
+                  <th key={h} scope="col" className="pr-6 text-left font-semibold text-[var(--foreground)]">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {funnel.sources.map((s) => (
+                <tr key={s.source}>
+                  <td className="pr-6">{s.source === "trackmysales" ? "trackmysales-Link (tid)" : "direkt / ohne tid"}</td>
+                  <td className="pr-6 tabular-nums">{s.submits}</td>
+                  <td className="pr-6 tabular-nums">{s.confirmed}</td>
+                  <td className="pr-6 tabular-nums">{s.qualified}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {funnel.partners.length > 0 && (
+            <>
+              <h3 className={headingClass}>Partner-Embeds</h3>
+              <Bars entries={funnel.partners} />
+            </>
+          )}
+          <h3 className={headingClass}>Antworten</h3>
+          <div className="space-y-5">
+            {funnel.questions.map((q) => (
+              <div key={q.id}>
+                <p className="mb-1 text-sm text-[var(--foreground)]">
+                  <span className="font-semibold">{q.id}</span> · {q.prompt}{" "}
+                  <span className="text-[var(--foreground-muted)]">({q.answered} Antworten)</span>
+                </p>
+                <Bars entries={q.entries} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+/**
+ * /admin/funnels?token=&from=&to= — quiz starts, the per-question drop-off,
+ * submits, DOI rate, qualified share, the result / answer / source
+ * distributions and running A/B experiments of every scorecard funnel for a
+ * date range (lib/funnels). Unknown token → 404.
+ */
+export default async function FunnelsAdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; from?: string; to?: string }>;
+}) {
+  const { token, from, to } = await searchParams;
+  const dashboard = await loadFunnelDashboard(token, { from, to });
+  if (!dashboard) notFound();
+
+  const { range, funnels, databaseConfigured } = dashboard;
+  const presetHref = (days: number) => {
+    const first = new Date(new Date(`${range.toDay}T00:00:00Z`).getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({ token: token!, from: first.toISOString().slice(0, 10), to: range.toDay });
+    return `/admin/funnels?${params}`;
+  };
+
+  return (
+    <Layout>
+      <section aria-label="Funnel-Auswertung" className="py-10 md:py-12">
+        <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+          Funnels · Daniel only
+        </p>
+        <h1 className="brand-display text-2xl md:text-3xl text-[var(--foreground)] mb-4">Funnel-Auswertung</h1>
+
+        <form method="GET" action="/admin/funnels" className="mb-3 flex flex-wrap items-end gap-3 text-sm">
+          <input type="hidden" name="token" value={token} />
+          <label className="flex flex-col text-[var(--foreground-muted)]">
+            Von
+            <input type="date" name="from" defaultValue={range.fromDay} className="rounded border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-[var(--foreground)]" />
+          </label>
+          <label className="flex flex-col text-[var(--foreground-muted)]">
+            Bis
+            <input type="date" name="to" defaultValue={range.toDay} className="rounded border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-[var(--foreground)]" />
+          </label>
+          <button type="submit" className="rounded-lg border border-[var(--primary-500)] px-4 py-1.5 font-semibold text-[var(--primary-400)]">
+            Anzeigen
+          </button>
+          {PRESET_DAYS.map((days) => (
+            <a key={days} href={presetHref(days)} className="text-[var(--primary-400)]">
+              {days} Tage
+            </a>
+          ))}
+        </form>
+        <p className="mb-6 text-xs text-[var(--foreground-muted)]">
+          Zeitraum {range.fromDay} bis {range.toDay} (UTC, nach Submit- bzw. Quiz-Datum). Unbestätigte Submits werden nach{" "}
+          {RETENTION_DAYS} Tagen gelöscht — für ältere Zeiträume ist die DOI-Quote daher zu hoch.
+        </p>
+
+        {!databaseConfigured ? (
+          <p className="text-[var(--foreground-muted)]">Keine Datenbank konfiguriert.</p>
+        ) : (
+          funnels.map((funnel) => <FunnelSection key={funnel.slug} funnel={funnel} />)
+        )}
+      </section>
+    </Layout>
+  );
+}
@@ -9,9 +9,9 @@
  */
 
 import { NextRequest } from 'next/server';
-import { buildAnalysisPrompt } from '@/lib/fit-analysis-prompt';
-import { parseAnalysisResponse } from '@/lib/fit-analysis-parser';
-import { streamChatCompletion, LLMError, LLMErrorType } from '@/lib/llm-client';
+import { runFitAnalysis } from '@/lib/fit-analysis-runner';
+import { LLMError, LLMErrorType } from '@/lib/llm-client';
+import { findLLMProvider } from '@/lib/llm';
 import { createLogger } from '@/lib/logger';
 import type { AnalyzeRequest, AnalysisPhase } from '@/types/fit-analysis';
 import {
@@ -27,11 +27,6 @@ const log = createLogger('AnalyzeAPI');
 // Constants
 // =============================================================================
 
-/**
- * Timeout for analysis requests in milliseconds (60 seconds)
- */
-const ANALYSIS_TIMEOUT_MS = 60000;
-
 /**
  * Error codes for API responses
  */
@@ -186,9 +181,9 @@ export async function POST(request: NextRequest): Promise<Response> {
   }
 
   // Validate input against guardrails
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (apiKey) {
-    const guardrailsService = new GuardrailsService(apiKey, 'fit_analysis');
+  const guardrailsLlm = findLLMProvider('guardrails');
+  if (guardrailsLlm) {
+    const guardrailsService = new GuardrailsService(guardrailsLlm, 'fit_analysis');
     const anonymizedRequestId = createAnonymizedRequestId(request);
     
     const validationResult = await guardrailsService.validateInput(
@@ -217,7 +212,6 @@ export async function POST(request: NextRequest): Promise<Response> {
     async start(controller) {
       const encoder = new TextEncoder();
       let currentPhase: AnalysisPhase = 'preparing';
-      let accumulatedContent = '';
 
       const sendProgress = (phase: AnalysisPhase) => {
         const phaseConfig: Record<AnalysisPhase, { message: string; percent: number }> = {
@@ -239,43 +233,27 @@ export async function POST(request: NextRequest): Promise<Response> {
         // Send initial progress
         sendProgress('preparing');
 
-        // Build the analysis prompt
-        const endPromptTiming = log.time('Prompt building');
-        const prompt = await buildAnalysisPrompt(jobDescription);
-        endPromptTiming();
-
         log.info('Calling LLM for streaming analysis', { requestId });
 
-        // Stream the LLM response and detect phases
-        const messages = [{ 
-          role: 'user' as const, 
-          content: 'Please analyze this job description and provide your assessment in the JSON format specified.' 
-        }];
-
-        for await (const chunk of streamChatCompletion(prompt, messages, { timeout: ANALYSIS_TIMEOUT_MS, responseFormat: 'json_object' })) {
-          accumulatedContent += chunk;
-          
-          // Detect phase changes
+        // Stream the LLM response, detecting phases, and parse it
+        const parseResult = await runFitAnalysis(jobDescription, (accumulatedContent) => {
           const newPhase = detectPhase(accumulatedContent, currentPhase);
           if (newPhase !== currentPhase) {
             currentPhase = newPhase;
             sendProgress(currentPhase);
             log.debug('Phase changed', { requestId, phase: currentPhase });
           }
-        }
+        });
 
         // Send finalizing progress
         sendProgress('finalizing');
 
-        log.info('LLM response complete, parsing', { requestId, responseLength: accumulatedContent.length });
-
-        // Parse the complete response
-        const parseResult = parseAnalysisResponse(accumulatedContent, { jobDescription });
+        log.info('LLM response complete', { requestId, responseLength: parseResult.raw.length });
 
         if (!parseResult.success) {
           log.error('Parse error', new Error(parseResult.error), { 
             requestId,
-            responsePreview: accumulatedContent.substring(0, 200) 
+            responsePreview: parseResult.raw.substring(0, 200) 
           });
           controller.enqueue(encoder.encode(
             createSSEMessage({ type: 'error', code: ERROR_CODES.PARSE_ERROR, message: 'Received an unexpected response. Please try again.' })
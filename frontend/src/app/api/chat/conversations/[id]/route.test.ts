@@ -0,0 +1,132 @@
+/**
+ * GET/PUT /api/chat/conversations/[id] — owner-token access to a shared conversation
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockConfigured = jest.fn();
+const mockLoad = jest.fn();
+const mockUpdate = jest.fn();
+jest.mock("@/lib/chat-share/conversations", () => ({
+  isChatSharingConfigured: () => mockConfigured(),
+  loadOwnConversation: (...a: unknown[]) => mockLoad(...a),
+  updateSharedConversation: (...a: unknown[]) => mockUpdate(...a),
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {},
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(body), { status: init?.status ?? 200, headers: { "content-type": "application/json" } }),
+  },
+}));
+
+import { signAnswer } from "@/lib/chat-share/signature";
+import { GET, PUT } from "./route";
+
+const ENV = { ...process.env };
+const ID = "6f1c2b7e-8a4d-4c3b-9e2f-0a1b2c3d4e5f";
+const TS = "2026-10-18T09:30:00.000Z";
+const OWNER = { "x-conversation-token": "owner" };
+
+function conversation() {
+  return [
+    { role: "user", content: "What is Chat3D?", timestamp: TS },
+    {
+      role: "assistant",
+      content: "A CAD generator.",
+      timestamp: TS,
+      signature: signAnswer("What is Chat3D?", "A CAD generator."),
+    },
+  ];
+}
+
+function request(body?: unknown, headers: Record<string, string> = {}) {
+  return {
+    json: async () => (body === undefined ? Promise.reject(new SyntaxError("bad json")) : body),
+    headers: new Headers({ "x-forwarded-for": "203.0.113.8", ...headers }),
+  } as never;
+}
+
+const ctx = (id = ID) => ({ params: Promise.resolve({ id }) });
+
+beforeEach(() => {
+  process.env = { ...ENV, CHAT_SHARE_SECRET: "test-share-secret" };
+  mockConfigured.mockReset().mockReturnValue(true);
+  mockLoad.mockReset();
+  mockUpdate.mockReset();
+});
+
+afterAll(() => {
+  process.env = ENV;
+});
+
+describe("GET /api/chat/conversations/[id]", () => {
+  it("loads the owner's conversation with the token header", async () => {
+    mockLoad.mockResolvedValueOnce(conversation());
+
+    const res = await GET(request(undefined, OWNER), ctx());
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).messages).toHaveLength(2);
+    expect(mockLoad).toHaveBeenCalledWith(ID, "owner");
+  });
+
+  it("is not found without token, with a malformed id or a wrong token", async () => {
+    expect((await GET(request(), ctx())).status).toBe(404);
+    expect((await GET(request(undefined, OWNER), ctx("1 or 1=1"))).status).toBe(404);
+    expect(mockLoad).not.toHaveBeenCalled();
+
+    mockLoad.mockResolvedValueOnce(null);
+    expect((await GET(request(undefined, { "x-conversation-token": "wrong" }), ctx())).status).toBe(404);
+  });
+
+  it("is off without database or secret", async () => {
+    mockConfigured.mockReturnValue(false);
+    const res = await GET(request(undefined, OWNER), ctx());
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ ok: false, code: "DISABLED" });
+  });
+
+  it("answers 500 when loading fails", async () => {
+    mockLoad.mockRejectedValueOnce(new Error("db down"));
+    expect((await GET(request(undefined, OWNER), ctx())).status).toBe(500);
+  });
+});
+
+describe("PUT /api/chat/conversations/[id]", () => {
+  it("replaces the messages, and is not found once the conversation is gone", async () => {
+    mockUpdate.mockResolvedValueOnce(true);
+    const res = await PUT(request({ messages: conversation() }, OWNER), ctx());
+    expect(res.status).toBe(200);
+    expect(mockUpdate).toHaveBeenCalledWith(ID, "owner", [
+      { role: "user", content: "What is Chat3D?", timestamp: TS },
+      expect.objectContaining({ role: "assistant", content: "A CAD generator." }),
+    ]);
+
+    mockUpdate.mockResolvedValueOnce(false);
+    const gone = await PUT(request({ messages: conversation() }, OWNER), ctx());
+    expect(gone.status).toBe(404);
+  });
+
+  it("needs the owner token", async () => {
+    expect((await PUT(request({ messages: conversation() }), ctx())).status).toBe(404);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("rejects forged answers and bad JSON", async () => {
+    const forged = conversation();
+    forged[1].content = "Something the assistant never said.";
+    expect((await PUT(request({ messages: forged }, OWNER), ctx())).status).toBe(400);
+    expect((await PUT(request(undefined, OWNER), ctx())).status).toBe(400);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("answers 500 when storing fails", async () => {
+    mockUpdate.mockRejectedValueOnce(new Error("db down"));
+    expect((await PUT(request({ messages: conversation() }, OWNER), ctx())).status).toBe(500);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * GET /api/chat/conversations/[id]            — the owner's saved messages
+ * PUT /api/chat/conversations/[id] { messages } — replace them
+ *
+ * Both need the owner token from POST /api/chat/conversations in the
+ * X-Conversation-Token header (not the URL, so it stays out of access logs).
+ * The chat panel loads its shared conversation back in a new session and
+ * keeps the server copy in sync as the conversation goes on.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { clientIp } from "@/lib/api-security";
+import { createRateLimiter } from "@/lib/scorecard/rate-limit";
+import { parseTranscript } from "@/lib/chat-share/transcript";
+import {
+  isChatSharingConfigured,
+  loadOwnConversation,
+  updateSharedConversation,
+} from "@/lib/chat-share/conversations";
+
+const log = createLogger("ChatShareAPI");
+
+// One sync per answer; generous for a long conversation, tight for a loop.
+const limiter = createRateLimiter({ max: 60, windowMs: 10 * 60 * 1000 });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Params = { params: Promise<{ id: string }> };
+
+/** The id and owner token of the request, or the error response. */
+async function authorize(request: NextRequest, ctx: Params): Promise<{ id: string; token: string } | Response> {
+  if (!isChatSharingConfigured()) {
+    return NextResponse.json({ ok: false, code: "DISABLED" }, { status: 404 });
+  }
+  if (!limiter.check(clientIp(request) || "unknown")) {
+    return NextResponse.json({ ok: false, code: "RATE_LIMITED" }, { status: 429 });
+  }
+  const { id } = await ctx.params;
+  const token = request.headers.get("x-conversation-token");
+  if (!UUID_PATTERN.test(id) || !token) {
+    return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+  }
+  return { id, token };
+}
+
+export async function GET(request: NextRequest, ctx: Params): Promise<Response> {
+  const auth = await authorize(request, ctx);
+  if (auth instanceof Response) return auth;
+
+  try {
+    const messages = await loadOwnConversation(auth.id, auth.token);
+    if (!messages) return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+    return NextResponse.json({ ok: true, messages });
+  } catch (error) {
+    log.error("Loading a shared conversation failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, ctx: Params): Promise<Response> {
+  const auth = await authorize(request, ctx);
+  if (auth instanceof Response) return auth;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+  const transcript = parseTranscript((body as { messages?: unknown } | null)?.messages);
+  if (!transcript.ok) {
+    log.warn("Rejected shared conversation update", { reason: transcript.error });
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  try {
+    const updated = await updateSharedConversation(auth.id, auth.token, transcript.messages);
+    if (!updated) return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    log.error("Updating a shared conversation failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
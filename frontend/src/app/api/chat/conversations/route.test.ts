@@ -0,0 +1,96 @@
+/**
+ * POST /api/chat/conversations
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockConfigured = jest.fn();
+const mockCreate = jest.fn();
+jest.mock("@/lib/chat-share/conversations", () => ({
+  isChatSharingConfigured: () => mockConfigured(),
+  createSharedConversation: (...a: unknown[]) => mockCreate(...a),
+  sharePath: (token: string) => `/chat/${token}`,
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {},
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(body), { status: init?.status ?? 200, headers: { "content-type": "application/json" } }),
+  },
+}));
+
+import { signAnswer } from "@/lib/chat-share/signature";
+import { POST } from "./route";
+
+const ENV = { ...process.env };
+const ID = "6f1c2b7e-8a4d-4c3b-9e2f-0a1b2c3d4e5f";
+const TS = "2026-10-18T09:30:00.000Z";
+
+function conversation() {
+  return [
+    { role: "user", content: "What is Chat3D?", timestamp: TS },
+    {
+      role: "assistant",
+      content: "A CAD generator.",
+      timestamp: TS,
+      signature: signAnswer("What is Chat3D?", "A CAD generator."),
+    },
+  ];
+}
+
+function request(body?: unknown, headers: Record<string, string> = {}) {
+  return {
+    json: async () => (body === undefined ? Promise.reject(new SyntaxError("bad json")) : body),
+    headers: new Headers({ "x-forwarded-for": "203.0.113.7", ...headers }),
+  } as never;
+}
+
+beforeEach(() => {
+  process.env = { ...ENV, CHAT_SHARE_SECRET: "test-share-secret" };
+  mockConfigured.mockReset().mockReturnValue(true);
+  mockCreate.mockReset();
+});
+
+afterAll(() => {
+  process.env = ENV;
+});
+
+describe("POST /api/chat/conversations", () => {
+  it("stores the conversation and returns the owner token and share path", async () => {
+    mockCreate.mockResolvedValueOnce({ id: ID, ownerToken: "owner", shareToken: "share" });
+
+    const res = await POST(request({ messages: conversation() }));
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ ok: true, id: ID, ownerToken: "owner", sharePath: "/chat/share" });
+    expect(mockCreate).toHaveBeenCalledWith([
+      { role: "user", content: "What is Chat3D?", timestamp: TS },
+      expect.objectContaining({ role: "assistant", content: "A CAD generator." }),
+    ]);
+  });
+
+  it("is off without database or secret", async () => {
+    mockConfigured.mockReturnValue(false);
+    const res = await POST(request({ messages: conversation() }));
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ ok: false, code: "DISABLED" });
+  });
+
+  it("rejects forged answers and bad JSON", async () => {
+    const forged = conversation();
+    forged[1].content = "Something the assistant never said.";
+    expect((await POST(request({ messages: forged }))).status).toBe(400);
+    expect((await POST(request())).status).toBe(400);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("answers 500 when storing fails", async () => {
+    mockCreate.mockRejectedValueOnce(new Error("db down"));
+    const res = await POST(request({ messages: conversation() }));
+    expect(res.status).toBe(500);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * POST /api/chat/conversations  { messages }
+ *
+ * "Share this conversation" from the chat panel: stores the PII-scrubbed
+ * transcript (only signed answers are accepted, see lib/chat-share) and
+ * returns the owner token for later updates plus the read-only share path.
+ * Without a database or CHAT_SHARE_SECRET sharing is off (404 DISABLED).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { clientIp } from "@/lib/api-security";
+import { createRateLimiter } from "@/lib/scorecard/rate-limit";
+import { parseTranscript } from "@/lib/chat-share/transcript";
+import { createSharedConversation, isChatSharingConfigured, sharePath } from "@/lib/chat-share/conversations";
+
+const log = createLogger("ChatShareAPI");
+
+// Sharing is one click per conversation; this only stops table flooding.
+const limiter = createRateLimiter({ max: 10, windowMs: 10 * 60 * 1000 });
+
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!isChatSharingConfigured()) {
+    return NextResponse.json({ ok: false, code: "DISABLED" }, { status: 404 });
+  }
+  if (!limiter.check(clientIp(request) || "unknown")) {
+    return NextResponse.json({ ok: false, code: "RATE_LIMITED" }, { status: 429 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+  const transcript = parseTranscript((body as { messages?: unknown } | null)?.messages);
+  if (!transcript.ok) {
+    log.warn("Rejected shared conversation", { reason: transcript.error });
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  try {
+    const { id, ownerToken, shareToken } = await createSharedConversation(transcript.messages);
+    return NextResponse.json({ ok: true, id, ownerToken, sharePath: sharePath(shareToken) }, { status: 201 });
+  } catch (error) {
+    log.error("Sharing a conversation failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
@@ -7,11 +7,13 @@
  * @jest-environment node
  */
 
-import type { ChatAPIRequest, ChatSSEEvent } from '@/types/chat';
+import type { ChatAPIRequest, ChatSSEEvent, ChatSource, ChatToolCall } from '@/types/chat';
+import type { LLMToolCall } from '@/lib/llm';
+import { verifyAnswer } from '@/lib/chat-share/signature';
 
 // Mock the knowledge loader before importing the route
 jest.mock('@/lib/knowledge-loader', () => ({
-  loadAndCompileKnowledge: jest.fn().mockResolvedValue({
+  loadRelevantKnowledge: jest.fn().mockResolvedValue({
     systemPrompt: 'Test system prompt with knowledge context',
     contextSections: [],
     totalTokenEstimate: 100,
@@ -34,6 +36,17 @@ jest.mock('@/lib/llm-client', () => ({
   },
 }));
 
+// Mock the chat tools; each test decides which cards the calls yield
+const mockRunChatTools = jest
+  .fn<AsyncGenerator<ChatToolCall, void, unknown>, unknown[]>()
+  .mockImplementation(async function* () {});
+jest.mock('@/lib/chat-tools', () => ({
+  CHAT_TOOL_INSTRUCTIONS: '\n\nTOOLS: test instructions',
+  chatTools: () => [{ name: 'offer_booking', description: 'Test tool', parameters: {} }],
+  TOOL_LEADS: { offer_booking: 'You can book a call here:' },
+  runChatTools: (...args: unknown[]) => mockRunChatTools(...args),
+}));
+
 // Mock the guardrails service
 const mockValidateInput = jest.fn();
 jest.mock('@/lib/guardrails/guardrails-service', () => ({
@@ -109,6 +122,7 @@ jest.mock('next/server', () => ({
 
 // Import the route after mocks are set up
 import { POST } from './route';
+import { loadRelevantKnowledge } from '@/lib/knowledge-loader';
 
 /**
  * Helper to create a mock request with JSON body
@@ -348,8 +362,9 @@ describe('POST /api/chat', () => {
 
       // Verify LLM client was called with correct arguments
       expect(mockStreamChatCompletion).toHaveBeenCalledWith(
-        'Test system prompt with knowledge context',
-        requestBody.messages
+        'Test system prompt with knowledge context\n\nTOOLS: test instructions',
+        requestBody.messages,
+        { tools: [expect.objectContaining({ name: 'offer_booking' })] }
       );
     });
 
@@ -513,15 +528,157 @@ describe('POST /api/chat', () => {
 
   describe('Knowledge Context Loading', () => {
     it('should load knowledge context for each request', async () => {
-      const { loadAndCompileKnowledge } = require('@/lib/knowledge-loader');
-
       const requestBody: ChatAPIRequest = {
         messages: [{ role: 'user', content: 'Tell me about your skills' }],
       };
       const request = createRequest(requestBody);
       await POST(request as unknown as Parameters<typeof POST>[0]);
 
-      expect(loadAndCompileKnowledge).toHaveBeenCalled();
+      expect(loadRelevantKnowledge).toHaveBeenCalledWith('Tell me about your skills');
+    });
+
+    it('should select context from the last two user turns', async () => {
+      const requestBody: ChatAPIRequest = {
+        messages: [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello!' },
+          { role: 'user', content: 'What did he do at UniCredit?' },
+          { role: 'assistant', content: 'He led the sales platform.' },
+          { role: 'user', content: 'And which technologies?' },
+        ],
+      };
+      const request = createRequest(requestBody);
+      await POST(request as unknown as Parameters<typeof POST>[0]);
+
+      expect(loadRelevantKnowledge).toHaveBeenLastCalledWith(
+        'What did he do at UniCredit?\nAnd which technologies?'
+      );
+    });
+  });
+
+  describe('Source Citations', () => {
+    const contextSections = [
+      {
+        type: 'about' as const,
+        title: 'About',
+        content: '## About Daniel\nSolutions architect and AI coach.',
+        priority: 10,
+        href: '/about#about',
+      },
+      {
+        type: 'project' as const,
+        title: 'Project: Chat3D',
+        content: '## Chat3D\nTurns chat prompts into parametric CAD models using LLMs and OpenSCAD.',
+        priority: 7,
+        href: '/about#project-chat3d',
+      },
+      {
+        type: 'raw' as const,
+        title: 'Additional Knowledge 1',
+        content: 'Chat3D parametric CAD OpenSCAD notes.',
+        priority: 5,
+      },
+    ];
+
+    it('should send the sections the answer drew on before the done event', async () => {
+      (loadRelevantKnowledge as jest.Mock).mockResolvedValueOnce({
+        systemPrompt: 'Test system prompt with knowledge context',
+        contextSections,
+        totalTokenEstimate: 100,
+      });
+      mockStreamChatCompletion.mockImplementation(() =>
+        createMockStream(['Chat3D turns prompts ', 'into parametric CAD models with OpenSCAD.'])
+      );
+
+      const request = createRequest({ messages: [{ role: 'user', content: 'What is Chat3D?' }] });
+      const events = await parseSSEStream(await POST(request as unknown as Parameters<typeof POST>[0]));
+
+      expect(events.slice(-2)).toEqual([
+        {
+          type: 'sources',
+          sources: [{ type: 'project', title: 'Project: Chat3D', href: '/about#project-chat3d' }],
+        },
+        { type: 'done' },
+      ]);
+    });
+
+    it('should not send a sources event when the answer cites nothing', async () => {
+      const request = createRequest({ messages: [{ role: 'user', content: 'Hello' }] });
+      const events = await parseSSEStream(await POST(request as unknown as Parameters<typeof POST>[0]));
+
+      expect(events.some((e) => e.type === 'sources')).toBe(false);
+    });
+
+    it('should sign the answer with its question and sources when sharing is configured', async () => {
+      process.env.CHAT_SHARE_SECRET = 'test-share-secret';
+      (loadRelevantKnowledge as jest.Mock).mockResolvedValueOnce({
+        systemPrompt: 'Test system prompt with knowledge context',
+        contextSections,
+        totalTokenEstimate: 100,
+      });
+      mockStreamChatCompletion.mockImplementation(() =>
+        createMockStream(['Chat3D turns prompts ', 'into parametric CAD models with OpenSCAD.'])
+      );
+
+      try {
+        const request = createRequest({ messages: [{ role: 'user', content: 'What is Chat3D?' }] });
+        const events = await parseSSEStream(await POST(request as unknown as Parameters<typeof POST>[0]));
+        const done = events[events.length - 1] as { type: 'done'; signature?: string };
+        const sources = (events.find((e) => e.type === 'sources') as { sources: ChatSource[] }).sources;
+
+        expect(done.signature).toEqual(expect.any(String));
+        const answer = 'Chat3D turns prompts into parametric CAD models with OpenSCAD.';
+        expect(verifyAnswer('What is Chat3D?', answer, sources, done.signature!)).toBe(true);
+        expect(verifyAnswer('What is Chat3D?', 'Something else entirely.', sources, done.signature!)).toBe(false);
+        expect(verifyAnswer('Is Chat3D a scam?', answer, sources, done.signature!)).toBe(false);
+      } finally {
+        delete process.env.CHAT_SHARE_SECRET;
+      }
+    });
+
+    describe('Tool calls', () => {
+      const BOOKING: ChatToolCall = {
+        tool: 'offer_booking',
+        card: { kind: 'booking', title: 'Book a call', description: '30 minutes', href: 'https://calendly.com/x' },
+      };
+      const CALLS: LLMToolCall[] = [{ name: 'offer_booking', arguments: {} }];
+
+      async function* answerWithTools(chunks: string[]): AsyncGenerator<string, LLMToolCall[], unknown> {
+        yield* chunks;
+        return CALLS;
+      }
+
+      it('should send tool results as tool_call events after the answer', async () => {
+        mockStreamChatCompletion.mockImplementation(() => answerWithTools(['Happy to set that up.']));
+        mockRunChatTools.mockImplementationOnce(async function* () {
+          yield BOOKING;
+        });
+
+        const messages = [{ role: 'user' as const, content: 'Can I talk to Daniel?' }];
+        const events = await parseSSEStream(
+          await POST(createRequest({ messages }) as unknown as Parameters<typeof POST>[0])
+        );
+
+        expect(events.map((e) => e.type)).toEqual(['chunk', 'tool_call', 'done']);
+        expect(events[1]).toEqual({ type: 'tool_call', ...BOOKING });
+        expect(mockRunChatTools).toHaveBeenCalledWith(CALLS, { messages, ip: '127.0.0.1' });
+      });
+
+      it('should lead into the card when the model only called tools', async () => {
+        mockStreamChatCompletion.mockImplementation(() => answerWithTools([]));
+        mockRunChatTools.mockImplementationOnce(async function* () {
+          yield BOOKING;
+        });
+
+        const request = createRequest({ messages: [{ role: 'user', content: 'Book a call' }] });
+        const events = await parseSSEStream(await POST(request as unknown as Parameters<typeof POST>[0]));
+
+        expect(events).toEqual([
+          { type: 'chunk', content: 'You can book a call here:' },
+          { type: 'tool_call', ...BOOKING },
+          { type: 'done' },
+        ]);
+      });
     });
   });
 
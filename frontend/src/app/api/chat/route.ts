@@ -2,20 +2,26 @@
  * Chat API Route
  *
  * This API route handles chat messages from the frontend and returns
- * AI-generated responses using the knowledge base context.
+ * AI-generated responses using the knowledge base context. The model can call
+ * site features as tools (lib/chat-tools); their results follow the answer as
+ * `tool_call` events and render as cards under it.
  *
  * @see Requirements 3.1, 3.2, 3.3, 3.5, 4.1, 4.3, 6.1, 6.2, 6.3, 10.4
  */
 
 import { NextRequest } from 'next/server';
-import { loadAndCompileKnowledge } from '@/lib/knowledge-loader';
+import { loadRelevantKnowledge } from '@/lib/knowledge-loader';
+import { citeSources } from '@/lib/retrieval';
 import { streamChatCompletion, LLMError, LLMErrorType } from '@/lib/llm-client';
-import type { ChatAPIRequest, ConversationMessage } from '@/types/chat';
+import { findLLMProvider } from '@/lib/llm';
+import type { ChatAPIRequest, ChatSSEEvent, ChatSource, ConversationMessage } from '@/types/chat';
 import {
   GuardrailsService,
   CHAT_GUARDRAIL_CONFIG,
 } from '@/lib/guardrails/guardrails-service';
 import { createAnonymizedRequestId } from '@/lib/guardrails/security-logger';
+import { signAnswer } from '@/lib/chat-share/signature';
+import { CHAT_TOOL_INSTRUCTIONS, chatTools, runChatTools, TOOL_LEADS } from '@/lib/chat-tools';
 import { clientIp, chatLimiter, validateMessageBounds } from '@/lib/api-security';
 
 /**
@@ -74,6 +80,14 @@ function createSSEMessage(data: object): string {
   return `data: ${JSON.stringify(data)}\n\n`;
 }
 
+/**
+ * Completion event, signed together with the question so the pair can later be shared
+ */
+function doneEvent(question: string, answer: string, sources: ChatSource[] = []): ChatSSEEvent {
+  const signature = signAnswer(question, answer, sources);
+  return signature ? { type: 'done', signature } : { type: 'done' };
+}
+
 /**
  * POST /api/chat
  *
@@ -135,12 +149,14 @@ export async function POST(request: NextRequest) {
     // just the latest. A client can otherwise smuggle injection text through
     // earlier history while keeping the final message benign.
     const userMessages = messages.filter((m: ConversationMessage) => m.role === 'user');
+    // The question this request answers; the answer's signature is bound to it
+    const question = userMessages.length > 0 ? userMessages[userMessages.length - 1].content : '';
     
     if (userMessages.length > 0) {
-      // Initialize guardrails service
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (apiKey) {
-        const guardrailsService = new GuardrailsService(apiKey, 'chat');
+      // Initialize guardrails service (skipped while no guardrails provider is configured)
+      const guardrailsLlm = findLLMProvider('guardrails');
+      if (guardrailsLlm) {
+        const guardrailsService = new GuardrailsService(guardrailsLlm, 'chat');
         const requestId = createAnonymizedRequestId(request);
         const combinedUserContent = userMessages.map((m: ConversationMessage) => m.content).join('\n\n');
         
@@ -165,7 +181,7 @@ export async function POST(request: NextRequest) {
               );
               controller.enqueue(
                 new TextEncoder().encode(
-                  createSSEMessage({ type: 'done' })
+                  createSSEMessage(doneEvent(question, validationResult.userMessage))
                 )
               );
               controller.close();
@@ -183,9 +199,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Load and compile knowledge context
-    const compiledKnowledge = await loadAndCompileKnowledge();
-    const systemPrompt = compiledKnowledge.systemPrompt;
+    // Load the knowledge relevant to this question. The previous user turn is
+    // included so follow-ups ("and before that?") keep their subject.
+    const retrievalQuery = userMessages.slice(-2).map((m: ConversationMessage) => m.content).join('\n');
+    const compiledKnowledge = await loadRelevantKnowledge(retrievalQuery);
+    const systemPrompt = compiledKnowledge.systemPrompt + CHAT_TOOL_INSTRUCTIONS;
 
     // Create a streaming response using SSE format
     // Stream LLM responses directly to the client
@@ -194,10 +212,43 @@ export async function POST(request: NextRequest) {
         try {
           // Stream the LLM response
           // @see Requirements 3.2 (streaming), 3.3 (conversation context), 3.5 (peer tone)
-          for await (const chunk of streamChatCompletion(systemPrompt, messages)) {
+          let answer = '';
+          const completion = streamChatCompletion(systemPrompt, messages, { tools: chatTools() });
+          let next = await completion.next();
+          for (; !next.done; next = await completion.next()) {
+            answer += next.value;
+            controller.enqueue(
+              new TextEncoder().encode(
+                createSSEMessage({ type: 'chunk', content: next.value })
+              )
+            );
+          }
+
+          // Run the tools the model called; each result becomes a card under the answer
+          const toolContext = { messages, ip: clientIp(request) || 'unknown' };
+          for await (const call of runChatTools(next.value ?? [], toolContext)) {
+            if (!answer.trim()) {
+              // The model only called tools: lead into the card so the answer isn't empty
+              answer = TOOL_LEADS[call.tool];
+              controller.enqueue(
+                new TextEncoder().encode(
+                  createSSEMessage({ type: 'chunk', content: answer })
+                )
+              );
+            }
+            controller.enqueue(
+              new TextEncoder().encode(
+                createSSEMessage({ type: 'tool_call', ...call })
+              )
+            );
+          }
+
+          // Cite the sections the answer drew on, linked to their public pages
+          const sources = citeSources(compiledKnowledge.contextSections, answer);
+          if (sources.length > 0) {
             controller.enqueue(
               new TextEncoder().encode(
-                createSSEMessage({ type: 'chunk', content: chunk })
+                createSSEMessage({ type: 'sources', sources })
               )
             );
           }
@@ -205,7 +256,7 @@ export async function POST(request: NextRequest) {
           // Send completion event
           controller.enqueue(
             new TextEncoder().encode(
-              createSSEMessage({ type: 'done' })
+              createSSEMessage(doneEvent(question, answer, sources))
             )
           );
 
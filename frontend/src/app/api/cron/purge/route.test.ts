@@ -1,5 +1,6 @@
 /**
- * Retention purge — covers both submissions tables.
+ * Retention purge — covers the scorecard submissions and the Warteliste, run
+ * through the job runner (lock + interval) like the in-app scheduler.
  * @jest-environment node
  */
 
@@ -7,14 +8,26 @@ jest.mock("@/lib/logger", () => ({
   createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
 }));
 
-const mockPurgeEngpass = jest.fn();
-jest.mock("@/db/submissions", () => ({ purgePendingOlderThan: (...a: unknown[]) => mockPurgeEngpass(...a) }));
-
 const mockPurgeScorecard = jest.fn();
 jest.mock("@/db/scorecard-submissions", () => ({
   purgeScorecardPendingOlderThan: (...a: unknown[]) => mockPurgeScorecard(...a),
 }));
 
+const mockPurgeWaitlist = jest.fn();
+jest.mock("@/db/workshop-waitlist", () => ({
+  purgeWaitlistPendingOlderThan: (...a: unknown[]) => mockPurgeWaitlist(...a),
+}));
+
+let mockLockFree = true;
+const mockFindRun = jest.fn();
+jest.mock("@/db/job-runs", () => ({
+  withJobLock: async (_name: string, fn: () => Promise<unknown>) =>
+    mockLockFree ? { acquired: true, value: await fn() } : { acquired: false },
+  findJobRun: (...a: unknown[]) => mockFindRun(...a),
+  markJobStarted: jest.fn(),
+  markJobFinished: jest.fn(),
+}));
+
 jest.mock("next/server", () => ({
   NextRequest: class {
     public headers: Map<string, string>;
@@ -32,8 +45,10 @@ jest.mock("next/server", () => ({
 
 const OLD = process.env.CRON_SECRET;
 beforeEach(() => {
-  mockPurgeEngpass.mockReset().mockResolvedValue(2);
   mockPurgeScorecard.mockReset().mockResolvedValue(3);
+  mockPurgeWaitlist.mockReset().mockResolvedValue(1);
+  mockLockFree = true;
+  mockFindRun.mockReset().mockResolvedValue(null);
   process.env.CRON_SECRET = "s3cret";
 });
 afterAll(() => {
@@ -59,8 +74,24 @@ describe("GET /api/cron/purge", () => {
     const res = await get("s3cret");
     expect(res.status).toBe(200);
     const data = await res.json();
-    expect(mockPurgeEngpass).toHaveBeenCalledTimes(1);
     expect(mockPurgeScorecard).toHaveBeenCalledTimes(1);
-    expect(data.deleted).toBe(5);
+    expect(mockPurgeWaitlist).toHaveBeenCalledTimes(1);
+    expect(data).toMatchObject({ ok: true, status: "ran", deleted: 4 });
+    expect(mockFindRun).toHaveBeenCalledWith("retention-purge");
+  });
+
+  it("skips the purge when it already ran today (e.g. via the in-app scheduler)", async () => {
+    mockFindRun.mockResolvedValue({ name: "retention-purge", lastStartedAt: new Date(Date.now() - 60 * 60 * 1000) });
+    const res = await get("s3cret");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, status: "not_due" });
+    expect(mockPurgeScorecard).not.toHaveBeenCalled();
+  });
+
+  it("skips the purge while another process holds the job lock", async () => {
+    mockLockFree = false;
+    const res = await get("s3cret");
+    expect(await res.json()).toEqual({ ok: true, status: "locked" });
+    expect(mockPurgeScorecard).not.toHaveBeenCalled();
   });
 });
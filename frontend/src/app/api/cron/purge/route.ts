@@ -1,48 +1,36 @@
 /**
  * Retention job — GET/POST /api/cron/purge
  *
- * Deletes unconfirmed (no Double-Opt-in = no consent) submissions older than
- * RETENTION_DAYS. Trigger it from an external scheduler (cron-job.org, a server
- * crontab, …) with the shared secret. Protected by CRON_SECRET; returns 401
- * without it. DSGVO: confirmed submissions are kept (consent given) and managed
- * via the newsletter/deletion-on-request process.
+ * Deletes unconfirmed (no Double-Opt-in = no consent) submissions and
+ * Warteliste entries older than RETENTION_DAYS (lib/retention.ts). The in-app
+ * scheduler runs the same purge daily when SCHEDULER_ENABLED is set; this
+ * endpoint stays for an external trigger (cron-job.org, a server crontab, …)
+ * and manual runs. It runs the `retention-purge` job through the job runner,
+ * so it never overlaps the scheduler and is skipped (`not_due` / `locked`)
+ * when the purge already ran within the day. Protected by CRON_SECRET;
+ * returns 401 without it. DSGVO:
+ * confirmed submissions are kept (consent given) until the person deletes
+ * them via the self-service at /meine-daten (lib/dsgvo).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createLogger } from "@/lib/logger";
-import { purgePendingOlderThan } from "@/db/submissions";
-import { purgeScorecardPendingOlderThan } from "@/db/scorecard-submissions";
+import { isCronAuthorized } from "@/lib/cron-auth";
+import { RETENTION_DAYS } from "@/lib/retention";
+import { getJob } from "@/lib/jobs/registry";
+import { runJob } from "@/lib/jobs/runner";
 
 const log = createLogger("CronPurge");
 
-const RETENTION_DAYS = 7;
-
-function authorized(request: NextRequest): boolean {
-  const secret = process.env.CRON_SECRET;
-  if (!secret) return false; // disabled until configured
-  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
-  const provided = bearer ?? request.nextUrl.searchParams.get("secret") ?? "";
-  return provided === secret;
-}
-
 async function handle(request: NextRequest): Promise<Response> {
-  if (!authorized(request)) {
+  if (!isCronAuthorized(request)) {
     return NextResponse.json({ ok: false, code: "UNAUTHORIZED" }, { status: 401 });
   }
   try {
-    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
-    const [engpass, scorecard] = await Promise.all([
-      purgePendingOlderThan(cutoff),
-      purgeScorecardPendingOlderThan(cutoff),
-    ]);
-    const deleted = engpass + scorecard;
-    log.info("Purged unconfirmed submissions", {
-      engpass,
-      scorecard,
-      deleted,
-      retentionDays: RETENTION_DAYS,
-    });
-    return NextResponse.json({ ok: true, deleted, retentionDays: RETENTION_DAYS });
+    const outcome = await runJob(getJob("retention-purge"));
+    if (outcome.status !== "ran") return NextResponse.json({ ok: true, status: outcome.status });
+    if (!outcome.ok) return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+    return NextResponse.json({ ok: true, status: outcome.status, ...outcome.result, retentionDays: RETENTION_DAYS });
   } catch (error) {
     log.error("Retention purge failed", error);
     return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
@@ -0,0 +1,88 @@
+/**
+ * Reservations job — auth and delegation to processUnpaidReservations through
+ * the job runner (lock + interval).
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockProcess = jest.fn();
+jest.mock("@/lib/workshop/expiry", () => ({
+  processUnpaidReservations: (...a: unknown[]) => mockProcess(...a),
+}));
+
+let mockLockFree = true;
+const mockFindRun = jest.fn();
+jest.mock("@/db/job-runs", () => ({
+  withJobLock: async (_name: string, fn: () => Promise<unknown>) =>
+    mockLockFree ? { acquired: true, value: await fn() } : { acquired: false },
+  findJobRun: (...a: unknown[]) => mockFindRun(...a),
+  markJobStarted: jest.fn(),
+  markJobFinished: jest.fn(),
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {
+    public headers: Map<string, string>;
+    public nextUrl: URL;
+    constructor(url: string, init?: { headers?: Record<string, string> }) {
+      this.headers = new Map(Object.entries(init?.headers ?? {}));
+      this.nextUrl = new URL(url);
+    }
+  },
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), { status: init?.status ?? 200 }),
+  },
+}));
+
+const OLD = process.env.CRON_SECRET;
+beforeEach(() => {
+  mockProcess.mockReset().mockResolvedValue({ reminded: 2, expired: 1 });
+  mockLockFree = true;
+  mockFindRun.mockReset().mockResolvedValue(null);
+  process.env.CRON_SECRET = "s3cret";
+});
+afterAll(() => {
+  process.env.CRON_SECRET = OLD;
+});
+
+import { GET } from "./route";
+
+function get(headers: Record<string, string> = {}, secret?: string): Promise<Response> {
+  const url = `http://localhost/api/cron/reservations${secret ? `?secret=${secret}` : ""}`;
+  const req = new (jest.requireMock("next/server").NextRequest)(url, { headers });
+  return GET(req as never);
+}
+
+describe("GET /api/cron/reservations", () => {
+  it("401s without the secret", async () => {
+    const res = await get();
+    expect(res.status).toBe(401);
+    expect(mockProcess).not.toHaveBeenCalled();
+  });
+
+  it("accepts the secret as bearer token and reports reminders and expiries", async () => {
+    const res = await get({ authorization: "Bearer s3cret" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, status: "ran", reminded: 2, expired: 1 });
+    expect(mockFindRun).toHaveBeenCalledWith("workshop-reservations");
+  });
+
+  it("skips the run when the job ran within the hour or another process holds its lock", async () => {
+    mockFindRun.mockResolvedValue({ name: "workshop-reservations", lastStartedAt: new Date(Date.now() - 10 * 60 * 1000) });
+    expect(await (await get({}, "s3cret")).json()).toEqual({ ok: true, status: "not_due" });
+    mockLockFree = false;
+    expect(await (await get({}, "s3cret")).json()).toEqual({ ok: true, status: "locked" });
+    expect(mockProcess).not.toHaveBeenCalled();
+  });
+
+  it("500s when processing fails", async () => {
+    mockProcess.mockRejectedValue(new Error("db down"));
+    const res = await get({}, "s3cret");
+    expect(res.status).toBe(500);
+    expect((await res.json()).code).toBe("INTERNAL_ERROR");
+  });
+});
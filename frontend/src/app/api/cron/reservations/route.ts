@@ -0,0 +1,37 @@
+/**
+ * Reservations job — GET/POST /api/cron/reservations
+ *
+ * Settles unpaid workshop reservations: sends the Zahlungserinnerung and,
+ * after the payment deadline, cancels the reservation so the slot is free
+ * again (details: lib/workshop/expiry.ts). Trigger it from the same external
+ * scheduler as the purge job, e.g. hourly. Runs the `workshop-reservations`
+ * job through the job runner, so it never overlaps the in-app scheduler and
+ * is skipped (`not_due` / `locked`) when it already ran within the hour.
+ * Protected by CRON_SECRET; returns 401 without it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { isCronAuthorized } from "@/lib/cron-auth";
+import { getJob } from "@/lib/jobs/registry";
+import { runJob } from "@/lib/jobs/runner";
+
+const log = createLogger("CronReservations");
+
+async function handle(request: NextRequest): Promise<Response> {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ ok: false, code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  try {
+    const outcome = await runJob(getJob("workshop-reservations"));
+    if (outcome.status !== "ran") return NextResponse.json({ ok: true, status: outcome.status });
+    if (!outcome.ok) return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+    return NextResponse.json({ ok: true, status: outcome.status, ...outcome.result });
+  } catch (error) {
+    log.error("Reservations job failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,70 @@
+/**
+ * Scheduler status — GET /api/cron/status behind CRON_SECRET.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+jest.mock("@/lib/jobs/registry", () => ({ JOBS: [{ name: "retention-purge" }] }));
+
+const mockStatuses = jest.fn();
+jest.mock("@/lib/jobs/runner", () => ({ getJobStatuses: (...a: unknown[]) => mockStatuses(...a) }));
+jest.mock("@/lib/jobs/scheduler", () => ({ isSchedulerEnabled: () => true }));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {
+    public headers: Map<string, string>;
+    public nextUrl: URL;
+    constructor(url: string, init?: { headers?: Record<string, string> }) {
+      this.headers = new Map(Object.entries(init?.headers ?? {}));
+      this.nextUrl = new URL(url);
+    }
+  },
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), { status: init?.status ?? 200 }),
+  },
+}));
+
+const OLD = process.env.CRON_SECRET;
+beforeEach(() => {
+  mockStatuses.mockReset().mockResolvedValue([{ name: "retention-purge", lastStatus: "ok", runCount: 4 }]);
+  process.env.CRON_SECRET = "s3cret";
+});
+afterAll(() => {
+  process.env.CRON_SECRET = OLD;
+});
+
+import { GET } from "./route";
+
+function req(url: string, headers?: Record<string, string>) {
+  const { NextRequest } = jest.requireMock("next/server");
+  return new NextRequest(url, { headers });
+}
+
+describe("GET /api/cron/status", () => {
+  it("401s without the secret", async () => {
+    const res = await GET(req("http://x/api/cron/status"));
+    expect(res.status).toBe(401);
+    expect(mockStatuses).not.toHaveBeenCalled();
+  });
+
+  it("returns the last run of every registered job", async () => {
+    const res = await GET(req("http://x/api/cron/status", { authorization: "Bearer s3cret" }));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      ok: true,
+      schedulerEnabled: true,
+      jobs: [{ name: "retention-purge", lastStatus: "ok", runCount: 4 }],
+    });
+    expect(mockStatuses).toHaveBeenCalledWith([{ name: "retention-purge" }]);
+  });
+
+  it("500s when the status table can't be read", async () => {
+    mockStatuses.mockRejectedValue(new Error("db down"));
+    const res = await GET(req("http://x/api/cron/status?secret=s3cret"));
+    expect(res.status).toBe(500);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Scheduler status — GET /api/cron/status
+ *
+ * Last run of every in-app job (lib/jobs): status, timestamps, duration, the
+ * counts it reported and the last error, plus when it is due next. Read-only.
+ * Protected by CRON_SECRET like the job endpoints; returns 401 without it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { isCronAuthorized } from "@/lib/cron-auth";
+import { JOBS } from "@/lib/jobs/registry";
+import { getJobStatuses } from "@/lib/jobs/runner";
+import { isSchedulerEnabled } from "@/lib/jobs/scheduler";
+
+const log = createLogger("CronStatus");
+
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ ok: false, code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  try {
+    const jobs = await getJobStatuses(JOBS);
+    return NextResponse.json({ ok: true, schedulerEnabled: isSchedulerEnabled(), jobs });
+  } catch (error) {
+    log.error("Reading the job status failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
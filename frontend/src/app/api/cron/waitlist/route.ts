@@ -0,0 +1,38 @@
+/**
+ * Warteliste job — GET/POST /api/cron/waitlist
+ *
+ * Works the Warteliste of every upcoming workshop: lapsed reservation offers
+ * expire and pass on to the next person, and a Termin that was set on a
+ * workshop without one (or a slot freed outside the admin actions) reaches
+ * the queue. Trigger it from the same external scheduler as the purge job,
+ * e.g. hourly. Runs the `workshop-waitlist` job through the job runner, so it
+ * never overlaps the in-app scheduler and is skipped (`not_due` / `locked`)
+ * when it already ran within the hour. Protected by CRON_SECRET; returns 401
+ * without it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { isCronAuthorized } from "@/lib/cron-auth";
+import { getJob } from "@/lib/jobs/registry";
+import { runJob } from "@/lib/jobs/runner";
+
+const log = createLogger("CronWaitlist");
+
+async function handle(request: NextRequest): Promise<Response> {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ ok: false, code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  try {
+    const outcome = await runJob(getJob("workshop-waitlist"));
+    if (outcome.status !== "ran") return NextResponse.json({ ok: true, status: outcome.status });
+    if (!outcome.ok) return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+    return NextResponse.json({ ok: true, status: outcome.status, ...outcome.result });
+  } catch (error) {
+    log.error("Waitlist processing failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,57 @@
+/**
+ * POST /api/dsgvo/erase — run the erasure + redirect to the outcome page.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockErase = jest.fn();
+jest.mock("@/lib/dsgvo/self-service", () => ({ erasePersonalData: (...a: unknown[]) => mockErase(...a) }));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {},
+  NextResponse: {
+    redirect: (url: string | URL, status = 307) =>
+      new Response(null, { status, headers: { location: String(url) } }),
+  },
+}));
+
+import { POST } from "./route";
+
+function post(fields: Record<string, string>): Promise<Response> {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) form.set(key, value);
+  return POST({ formData: async () => form } as never);
+}
+
+beforeEach(() => mockErase.mockReset());
+
+describe("POST /api/dsgvo/erase", () => {
+  it("redirects an erasure to the erased page (303, the form POST becomes a GET)", async () => {
+    mockErase.mockResolvedValueOnce({ status: "erased", counts: {}, cleverreach: "deleted" });
+    const res = await post({ token: "tok", confirm: "on" });
+    expect(mockErase).toHaveBeenCalledWith("tok");
+    expect(res.status).toBe(303);
+    expect(res.headers.get("location")).toMatch(/\/meine-daten\/erledigt\?result=erased$/);
+  });
+
+  it.each(["used", "invalid"])("redirects a %s link to its page", async (status) => {
+    mockErase.mockResolvedValueOnce({ status });
+    const res = await post({ token: "tok" });
+    expect(res.headers.get("location")).toMatch(new RegExp(`result=${status}$`));
+  });
+
+  it("treats a missing token as invalid", async () => {
+    const res = await post({});
+    expect(res.headers.get("location")).toMatch(/result=invalid$/);
+    expect(mockErase).not.toHaveBeenCalled();
+  });
+
+  it("redirects to the error page when the erasure throws", async () => {
+    mockErase.mockRejectedValueOnce(new Error("db down"));
+    const res = await post({ token: "tok" });
+    expect(res.headers.get("location")).toMatch(/result=error$/);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * POST /api/dsgvo/erase (form field `token`)
+ *
+ * Art. 17 deletion from the /meine-daten/verwalten page: removes everything
+ * stored for the link's address across the funnel tables plus the CleverReach
+ * receiver (lib/dsgvo/self-service.ts). Always redirects to the
+ * /meine-daten/erledigt page with the outcome.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { baseUrl } from "@/lib/scorecard/tokens";
+import { erasePersonalData } from "@/lib/dsgvo/self-service";
+
+const log = createLogger("DsgvoEraseAPI");
+
+function resultUrl(result: string): string {
+  return `${baseUrl()}/meine-daten/erledigt?result=${result}`;
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  let token: string | null = null;
+  try {
+    const value = (await request.formData()).get("token");
+    token = typeof value === "string" ? value : null;
+  } catch {
+    token = null;
+  }
+  if (!token) return NextResponse.redirect(resultUrl("invalid"), 303);
+
+  try {
+    const outcome = await erasePersonalData(token);
+    return NextResponse.redirect(resultUrl(outcome.status), 303);
+  } catch (error) {
+    log.error("DSGVO erasure failed", error);
+    return NextResponse.redirect(resultUrl("error"), 303);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * POST /api/dsgvo/export — JSON attachment or redirect to the outcome page.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockExport = jest.fn();
+jest.mock("@/lib/dsgvo/self-service", () => ({ exportPersonalData: (...a: unknown[]) => mockExport(...a) }));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {},
+  NextResponse: {
+    redirect: (url: string | URL, status = 307) =>
+      new Response(null, { status, headers: { location: String(url) } }),
+  },
+}));
+
+import { POST } from "./route";
+
+function post(fields: Record<string, string>): Promise<Response> {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) form.set(key, value);
+  return POST({ formData: async () => form } as never);
+}
+
+beforeEach(() => mockExport.mockReset());
+
+describe("POST /api/dsgvo/export", () => {
+  it("returns the document as a JSON attachment", async () => {
+    mockExport.mockResolvedValueOnce({
+      status: "ok",
+      filename: "meine-daten-2026-10-01.json",
+      document: { email: "erika@firma.de" },
+    });
+    const res = await post({ token: "tok" });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-disposition")).toBe('attachment; filename="meine-daten-2026-10-01.json"');
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(await res.json()).toEqual({ email: "erika@firma.de" });
+  });
+
+  it("redirects a used link to its page", async () => {
+    mockExport.mockResolvedValueOnce({ status: "used" });
+    const res = await post({ token: "tok" });
+    expect(res.status).toBe(303);
+    expect(res.headers.get("location")).toMatch(/\/meine-daten\/erledigt\?result=used$/);
+  });
+
+  it("treats a missing token as invalid", async () => {
+    const res = await post({});
+    expect(res.headers.get("location")).toMatch(/result=invalid$/);
+    expect(mockExport).not.toHaveBeenCalled();
+  });
+
+  it("redirects to the error page when the export throws", async () => {
+    mockExport.mockRejectedValueOnce(new Error("db down"));
+    const res = await post({ token: "tok" });
+    expect(res.headers.get("location")).toMatch(/result=error$/);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * POST /api/dsgvo/export (form field `token`)
+ *
+ * Art. 15 download from the /meine-daten/verwalten page: everything stored
+ * for the link's address as a JSON attachment. A POST, not a link target, so
+ * mail scanners that prefetch links cannot use up the single export. An
+ * invalid, expired or already used link redirects to /meine-daten/erledigt.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { baseUrl } from "@/lib/scorecard/tokens";
+import { exportPersonalData } from "@/lib/dsgvo/self-service";
+
+const log = createLogger("DsgvoExportAPI");
+
+function resultUrl(result: string): string {
+  return `${baseUrl()}/meine-daten/erledigt?result=${result}`;
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  let token: string | null = null;
+  try {
+    const value = (await request.formData()).get("token");
+    token = typeof value === "string" ? value : null;
+  } catch {
+    token = null;
+  }
+  if (!token) return NextResponse.redirect(resultUrl("invalid"), 303);
+
+  try {
+    const outcome = await exportPersonalData(token);
+    if (outcome.status !== "ok") return NextResponse.redirect(resultUrl(outcome.status), 303);
+    return new Response(JSON.stringify(outcome.document, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${outcome.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    log.error("DSGVO export failed", error);
+    return NextResponse.redirect(resultUrl("error"), 303);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * POST /api/dsgvo/request — validation, configuration, no enumeration.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockRequestLink = jest.fn();
+jest.mock("@/lib/dsgvo/self-service", () => ({ requestDsgvoLink: (...a: unknown[]) => mockRequestLink(...a) }));
+
+let dbConfigured = true;
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
+
+let emailConfigured = true;
+jest.mock("@/lib/email/transporter", () => ({ isEmailConfigured: () => emailConfigured }));
+
+let linkConfigured = true;
+jest.mock("@/lib/dsgvo/links", () => ({ isDsgvoLinkConfigured: () => linkConfigured }));
+
+class MockNextRequest {
+  private body: string;
+  public headers: Map<string, string>;
+  constructor(_url: string, init?: { headers?: Record<string, string>; body?: string }) {
+    this.body = init?.body ?? "";
+    this.headers = new Map(Object.entries(init?.headers ?? {}));
+  }
+  async json() {
+    return JSON.parse(this.body);
+  }
+}
+jest.mock("next/server", () => ({
+  NextRequest: MockNextRequest,
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), {
+        status: init?.status ?? 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+  },
+}));
+
+import { POST } from "./route";
+
+let testIpCounter = 0;
+
+function post(body: unknown, ip?: string): Promise<Response> {
+  testIpCounter += 1;
+  const req = new MockNextRequest("http://localhost/api/dsgvo/request", {
+    headers: { "x-forwarded-for": ip ?? `10.2.0.${testIpCounter}` },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  return POST(req as never);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  dbConfigured = true;
+  emailConfigured = true;
+  linkConfigured = true;
+  mockRequestLink.mockResolvedValue({ status: "sent" });
+});
+
+describe("POST /api/dsgvo/request", () => {
+  it("400s on an invalid email", async () => {
+    const res = await post({ email: "nope" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).errors.email).toBeDefined();
+    expect(mockRequestLink).not.toHaveBeenCalled();
+  });
+
+  it("400s on a body that is not JSON", async () => {
+    const res = await post("{");
+    expect(res.status).toBe(400);
+  });
+
+  it("answers the same whether or not data is stored", async () => {
+    const sent = await post({ email: "erika@firma.de" });
+    mockRequestLink.mockResolvedValue({ status: "no_data" });
+    const none = await post({ email: "nobody@firma.de" });
+    expect(sent.status).toBe(200);
+    expect(none.status).toBe(200);
+    expect(await sent.json()).toEqual(await none.json());
+  });
+
+  it.each([
+    ["DB", () => (dbConfigured = false)],
+    ["SMTP", () => (emailConfigured = false)],
+    ["link secret", () => (linkConfigured = false)],
+  ])("503s without %s", async (_label, unset) => {
+    unset();
+    const res = await post({ email: "erika@firma.de" });
+    expect(res.status).toBe(503);
+    expect(mockRequestLink).not.toHaveBeenCalled();
+  });
+
+  it("500s when sending fails", async () => {
+    mockRequestLink.mockRejectedValue(new Error("smtp down"));
+    const res = await post({ email: "erika@firma.de" });
+    expect(res.status).toBe(500);
+  });
+
+  it("rate-limits per IP", async () => {
+    for (let i = 0; i < 3; i++) await post({ email: "erika@firma.de" }, "10.2.9.9");
+    const res = await post({ email: "erika@firma.de" }, "10.2.9.9");
+    expect(res.status).toBe(429);
+  });
+});
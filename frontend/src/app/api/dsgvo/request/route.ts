@@ -0,0 +1,68 @@
+/**
+ * POST /api/dsgvo/request
+ *
+ * First step of the DSGVO self-service (lib/dsgvo): mails the signed
+ * Auskunft/Löschung link to the given address. Answers 200 whether or not
+ * anything is stored for it — the form must not reveal who is in the DB.
+ *
+ * Response codes: { ok: true } or { ok: false, code: ... }
+ *   200 — link mailed, or nothing stored
+ *   400 — INVALID_REQUEST (Zod validation failed)
+ *   429 — RATE_LIMITED
+ *   503 — NOT_CONFIGURED (DB, SMTP or DSGVO_LINK_SECRET missing)
+ *   500 — INTERNAL_ERROR
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { isDatabaseConfigured } from "@/db/client";
+import { isEmailConfigured } from "@/lib/email/transporter";
+import { createRateLimiter } from "@/lib/scorecard/rate-limit";
+import { isDsgvoLinkConfigured } from "@/lib/dsgvo/links";
+import { requestDsgvoLink } from "@/lib/dsgvo/self-service";
+import { validateDsgvoRequest } from "@/lib/dsgvo/validation";
+
+const log = createLogger("DsgvoRequestAPI");
+
+// Every request may send a mail: 3 per IP per 10 minutes.
+const limiter = createRateLimiter({ max: 3, windowMs: 10 * 60 * 1000 });
+
+function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0]!.trim();
+  return request.headers.get("x-real-ip") ?? "";
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!limiter.check(clientIp(request) || "unknown")) {
+    return NextResponse.json({ ok: false, code: "RATE_LIMITED" }, { status: 429 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  const validation = validateDsgvoRequest(body);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { ok: false, code: "INVALID_REQUEST", errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  if (!isDatabaseConfigured() || !isEmailConfigured() || !isDsgvoLinkConfigured()) {
+    log.warn("DSGVO request received but DB, SMTP or DSGVO_LINK_SECRET is not configured");
+    return NextResponse.json({ ok: false, code: "NOT_CONFIGURED" }, { status: 503 });
+  }
+
+  try {
+    await requestDsgvoLink(validation.data.email);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    log.error("DSGVO request failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
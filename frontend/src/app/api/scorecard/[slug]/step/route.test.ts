@@ -0,0 +1,112 @@
+/**
+ * POST /api/scorecard/[slug]/step — validation, variant check, counter upsert.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const sampleReg = {
+  definition: { slug: "sample", questions: [{ id: "K1" }, { id: "S1" }] },
+  experiment: { id: "optin-copy", variants: [{ id: "control" }, { id: "kurz" }] },
+};
+jest.mock("@/lib/scorecard/registry", () => ({
+  getScorecard: (slug: string) => (slug === "sample" ? sampleReg : undefined),
+}));
+
+const mockIncrement = jest.fn();
+jest.mock("@/db/scorecard-steps", () => ({
+  incrementScorecardStep: (...a: unknown[]) => mockIncrement(...a),
+}));
+
+let dbConfigured = true;
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
+
+class MockNextRequest {
+  private body: string;
+  public headers: Map<string, string>;
+  constructor(_url: string, init?: { headers?: Record<string, string>; body?: string }) {
+    this.body = init?.body ?? "";
+    this.headers = new Map(Object.entries(init?.headers ?? {}));
+  }
+  async json() {
+    return JSON.parse(this.body);
+  }
+}
+jest.mock("next/server", () => ({
+  NextRequest: MockNextRequest,
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), {
+        status: init?.status ?? 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+  },
+}));
+
+import { POST } from "./route";
+
+function post(slug: string, body: unknown, ip = "9.9.9.9"): Promise<Response> {
+  const req = new MockNextRequest(`http://localhost/api/scorecard/${slug}/step`, {
+    headers: { "x-forwarded-for": ip },
+    body: JSON.stringify(body),
+  });
+  return POST(req as never, { params: Promise.resolve({ slug }) } as never);
+}
+
+beforeEach(() => {
+  mockIncrement.mockReset().mockResolvedValue(undefined);
+  dbConfigured = true;
+});
+
+describe("POST /api/scorecard/[slug]/step", () => {
+  it("404s an unknown scorecard slug", async () => {
+    expect((await post("nope", { step: "start" })).status).toBe(404);
+  });
+
+  it("400s an unknown step", async () => {
+    expect((await post("sample", { step: "submit" })).status).toBe(400);
+    expect(mockIncrement).not.toHaveBeenCalled();
+  });
+
+  it("counts the step for the variant of the running experiment", async () => {
+    const res = await post("sample", { step: "finish", variant: "kurz" });
+    expect(res.status).toBe(204);
+    expect(mockIncrement).toHaveBeenCalledWith({
+      scorecard: "sample",
+      experiment: "optin-copy",
+      variant: "kurz",
+      step: "finish",
+      question: -1,
+    });
+  });
+
+  it("counts a reached question by its index", async () => {
+    expect((await post("sample", { step: "question", question: 1 })).status).toBe(204);
+    expect(mockIncrement.mock.calls[0][0]).toMatchObject({ step: "question", question: 1 });
+  });
+
+  it("400s a question step without a valid question index", async () => {
+    for (const question of [undefined, -1, 2, 0.5, "0"]) {
+      expect((await post("sample", { step: "question", question })).status).toBe(400);
+    }
+    expect(mockIncrement).not.toHaveBeenCalled();
+  });
+
+  it("ignores a question index on other steps", async () => {
+    await post("sample", { step: "view", question: 1 });
+    expect(mockIncrement.mock.calls[0][0]).toMatchObject({ step: "view", question: -1 });
+  });
+
+  it("counts an unknown variant outside the experiment", async () => {
+    await post("sample", { step: "start", variant: "alt" });
+    expect(mockIncrement.mock.calls[0][0]).toMatchObject({ experiment: "", variant: "" });
+  });
+
+  it("drops the ping without a database", async () => {
+    dbConfigured = false;
+    expect((await post("sample", { step: "start" })).status).toBe(204);
+    expect(mockIncrement).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * POST /api/scorecard/[slug]/step
+ *
+ * Anonymous funnel ping ({ step, question?, variant? }) from the quiz — see
+ * lib/scorecard/steps. Bumps today's counter in scorecard_step_counts; no IP,
+ * no cookie, no answers are stored. Best-effort: without a database the ping
+ * is dropped.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { getScorecard } from "@/lib/scorecard/registry";
+import { createRateLimiter } from "@/lib/scorecard/rate-limit";
+import { findVariant } from "@/lib/scorecard/experiments";
+import { isScorecardStep } from "@/lib/scorecard/steps";
+import { incrementScorecardStep } from "@/db/scorecard-steps";
+import { isDatabaseConfigured } from "@/db/client";
+
+const log = createLogger("ScorecardStepAPI");
+
+// A real visitor pings once per step and question; this only stops counter flooding.
+const limiter = createRateLimiter({ max: 120, windowMs: 10 * 60 * 1000 });
+
+function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0]!.trim();
+  return request.headers.get("x-real-ip") ?? "";
+}
+
+function isQuestionIndex(value: unknown, questionCount: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < questionCount;
+}
+
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ slug: string }> },
+): Promise<Response> {
+  const { slug } = await ctx.params;
+  const registration = getScorecard(slug);
+  if (!registration) {
+    return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+  }
+
+  if (!limiter.check(clientIp(request) || "unknown")) {
+    return NextResponse.json({ ok: false, code: "RATE_LIMITED" }, { status: 429 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+  const { step, question, variant: variantId } = (body ?? {}) as Record<string, unknown>;
+  if (!isScorecardStep(step)) {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+  if (step === "question" && !isQuestionIndex(question, registration.definition.questions.length)) {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  if (!isDatabaseConfigured()) return new Response(null, { status: 204 });
+
+  const variant = findVariant(registration.experiment, variantId);
+  try {
+    await incrementScorecardStep({
+      scorecard: slug,
+      experiment: variant ? registration.experiment!.id : "",
+      variant: variant?.id ?? "",
+      step,
+      question: step === "question" ? (question as number) : -1,
+    });
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    log.error("Scorecard step ping failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
@@ -15,6 +15,16 @@ const sampleReg = {
   deliverySubject: "Dein Ergebnis ist da",
   content: { intro: { eyebrow: "Sample" }, outcomeLabel: {} },
   branding: { brandAuthor: "Daniel Kreuzhofer", accent: "#e89244", accentInk: "#1a1206" },
+  experiment: { id: "optin-copy", variants: [{ id: "control" }, { id: "kurz" }] },
+  translations: {
+    en: {
+      meta: { title: "Sample Check", description: "" },
+      doiSubject: "Confirm your sign-up",
+      deliverySubject: "Your result is ready",
+      content: { intro: { eyebrow: "Sample EN" }, outcomeLabel: {} },
+      questions: {},
+    },
+  },
 };
 let known = true;
 jest.mock("@/lib/scorecard/registry", () => ({
@@ -110,6 +120,7 @@ describe("POST /api/scorecard/[slug]/submit", () => {
     expect(row.email).toBe("lead@firma.de");
     expect(row.result.outcome).toBe("verwalter");
     expect(row.result.qualified).toBe(true);
+    expect(row.definitionVersion).toBe(1);
     expect(row.doiToken).not.toBe(row.reportToken);
 
     const mail = mockSendDoi.mock.calls[0][0];
@@ -118,6 +129,41 @@ describe("POST /api/scorecard/[slug]/submit", () => {
     expect(mail.confirmUrl).toContain(`/api/scorecard/confirm?token=${row.doiToken}`);
   });
 
+  it("stores only answers to questions the lead was shown", async () => {
+    await post("sample", { email: "a@b.de", answers: { ...answers, X9: "injected" } });
+    expect(mockInsert.mock.calls[0][0].answers).toEqual(answers);
+  });
+
+  it("stores the A/B variant of the running experiment, ignores unknown variants", async () => {
+    await post("sample", { email: "a@b.de", answers, variant: "kurz" }, "6.6.6.6");
+    expect(mockInsert.mock.calls[0][0]).toMatchObject({ experiment: "optin-copy", variant: "kurz" });
+
+    await post("sample", { email: "a@b.de", answers, variant: "alt" }, "6.6.6.6");
+    expect(mockInsert.mock.calls[1][0]).toMatchObject({ experiment: null, variant: null });
+  });
+
+  it("stores the lead's locale and sends the DOI mail in it; unsupported locales fall back to German", async () => {
+    await post("sample", { email: "a@b.de", answers, locale: "en" }, "4.4.4.4");
+    expect(mockInsert.mock.calls[0][0].locale).toBe("en");
+    expect(mockSendDoi.mock.calls[0][0]).toMatchObject({
+      locale: "en",
+      subject: "Confirm your sign-up",
+      scorecardName: "Sample EN",
+    });
+
+    await post("sample", { email: "a@b.de", answers, locale: "fr" }, "4.4.4.4");
+    expect(mockInsert.mock.calls[1][0].locale).toBe("de");
+    expect(mockSendDoi.mock.calls[1][0]).toMatchObject({ locale: "de", subject: "Bestätige Deine Anmeldung" });
+  });
+
+  it("stores the embedding partner, drops a malformed one", async () => {
+    await post("sample", { email: "a@b.de", answers, partner: "kanzlei-x", tid: "t1" }, "5.5.5.5");
+    expect(mockInsert.mock.calls[0][0]).toMatchObject({ partner: "kanzlei-x", tid: "t1" });
+
+    await post("sample", { email: "a@b.de", answers, partner: "<script>" }, "5.5.5.5");
+    expect(mockInsert.mock.calls[1][0].partner).toBeNull();
+  });
+
   it("400s when an answer value is not a string", async () => {
     const res = await post("sample", { email: "a@b.de", answers: { K1: 42 } }, "8.8.8.8");
     expect(res.status).toBe(400);
@@ -3,13 +3,17 @@
  *
  * Generic opt-in submit. Looks up the scorecard by slug, recomputes the result
  * server-side (the client's answers are untrusted), persists a `pending` row, and
- * sends our own Double-Opt-in email. CleverReach + delivery happen after confirm.
+ * sends our own Double-Opt-in email in the lead's language. CleverReach + delivery happen after confirm.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createLogger } from "@/lib/logger";
 import { getScorecard } from "@/lib/scorecard/registry";
 import { resolveResult } from "@/lib/scorecard/result";
+import { visibleAnswers } from "@/lib/scorecard/visibility";
+import { findVariant } from "@/lib/scorecard/experiments";
+import { isPartnerId } from "@/lib/scorecard/embed";
+import { localizedRegistration, resolveLocale } from "@/lib/scorecard/locale";
 import { newToken, baseUrl } from "@/lib/scorecard/tokens";
 import { createRateLimiter } from "@/lib/scorecard/rate-limit";
 import { sendScorecardDoi } from "@/lib/scorecard/email";
@@ -29,6 +33,12 @@ interface SubmitBody {
   email: string;
   answers: Record<string, string | string[]>;
   tid?: string;
+  /** A/B variant the lead was shown (only stored when it belongs to the running experiment). */
+  variant?: string;
+  /** Embedding partner (`/embed/<slug>?partner=`). */
+  partner?: string;
+  /** Language the lead used (`/en/<slug>`); unsupported values fall back to German. */
+  locale?: string;
 }
 
 // Bound the stored jsonb: no real scorecard has anywhere near this many questions.
@@ -40,6 +50,9 @@ export function isValidBody(body: unknown): body is SubmitBody {
   const b = body as Record<string, unknown>;
   if (typeof b.email !== "string") return false;
   if (b.tid !== undefined && typeof b.tid !== "string") return false;
+  if (b.variant !== undefined && typeof b.variant !== "string") return false;
+  if (b.partner !== undefined && typeof b.partner !== "string") return false;
+  if (b.locale !== undefined && typeof b.locale !== "string") return false;
   const answers = b.answers;
   if (typeof answers !== "object" || answers === null || Array.isArray(answers)) return false;
   const entries = Object.entries(answers as Record<string, unknown>);
@@ -97,29 +110,41 @@ export async function POST(
     );
   }
 
-  const result = resolveResult(registration, body.answers);
+  // Answers to questions the lead never saw (`showIf`) are neither scored nor stored.
+  const answers = visibleAnswers(registration.definition, body.answers);
+  const locale = resolveLocale(registration, body.locale);
+  const localized = localizedRegistration(registration, locale);
+  const result = resolveResult(registration, answers, locale);
   const doiToken = newToken();
   const reportToken = newToken();
   const tid = typeof body.tid === "string" && TID_RE.test(body.tid) ? body.tid : null;
+  const variant = findVariant(registration.experiment, body.variant);
+  const partner = isPartnerId(body.partner) ? body.partner : null;
 
   try {
     await insertScorecardSubmission({
       scorecard: slug,
       email,
-      answers: body.answers,
+      answers,
       result,
+      definitionVersion: registration.definition.version,
       doiToken,
       reportToken,
       ipAtSubmit: ip,
       userAgent: request.headers.get("user-agent") ?? "",
       tid,
+      partner,
+      locale,
+      experiment: variant ? registration.experiment!.id : null,
+      variant: variant?.id ?? null,
     });
 
     await sendScorecardDoi({
       to: email,
-      subject: registration.doiSubject,
+      subject: localized.doiSubject,
       confirmUrl: `${baseUrl()}/api/scorecard/confirm?token=${doiToken}`,
-      scorecardName: registration.content.intro.eyebrow ?? "Check",
+      scorecardName: localized.content.intro.eyebrow ?? "Check",
+      locale,
       brandAuthor: registration.branding.brandAuthor,
       accent: registration.branding.accent,
       accentInk: registration.branding.accentInk,
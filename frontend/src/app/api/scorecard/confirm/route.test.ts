@@ -8,11 +8,16 @@ jest.mock("@/lib/logger", () => ({
 }));
 
 const mockConfirm = jest.fn();
+const mockDeliver = jest.fn();
 jest.mock("@/lib/scorecard/confirm", () => ({
   confirmScorecardByToken: (...a: unknown[]) => mockConfirm(...a),
+  deliverConfirmedScorecard: (...a: unknown[]) => mockDeliver(...a),
 }));
 
+const mockAfter = jest.fn();
+
 jest.mock("next/server", () => ({
+  after: (...a: unknown[]) => mockAfter(...a),
   NextRequest: class {
     public nextUrl: URL;
     constructor(url: string) {
@@ -37,7 +42,11 @@ function get(token?: string): Promise<Response> {
   return GET(req as never);
 }
 
-beforeEach(() => mockConfirm.mockReset());
+beforeEach(() => {
+  mockConfirm.mockReset();
+  mockDeliver.mockReset().mockResolvedValue(undefined);
+  mockAfter.mockReset();
+});
 
 describe("GET /api/scorecard/confirm", () => {
   it("400s without a token", async () => {
@@ -46,17 +55,25 @@ describe("GET /api/scorecard/confirm", () => {
     expect(mockConfirm).not.toHaveBeenCalled();
   });
 
-  it("redirects to the report on confirm", async () => {
-    mockConfirm.mockResolvedValueOnce({ status: "confirmed", reportUrl: "http://x/sample/report?token=r" });
+  it("redirects to the report on confirm and delivers after the response", async () => {
+    const submission = { id: "row-1" };
+    mockConfirm.mockResolvedValueOnce({ status: "confirmed", reportUrl: "http://x/sample/report?token=r", submission });
     const res = await get("doi_abc");
     expect(res.status).toBe(307);
     expect(res.headers.get("location")).toBe("http://x/sample/report?token=r");
+
+    // Nothing is delivered inside the request — only scheduled
+    expect(mockDeliver).not.toHaveBeenCalled();
+    expect(mockAfter).toHaveBeenCalledTimes(1);
+    await mockAfter.mock.calls[0][0]();
+    expect(mockDeliver).toHaveBeenCalledWith(submission);
   });
 
-  it("also redirects when already confirmed", async () => {
+  it("also redirects when already confirmed, without a second delivery", async () => {
     mockConfirm.mockResolvedValueOnce({ status: "already", reportUrl: "http://x/sample/report?token=r" });
     const res = await get("doi_abc");
     expect(res.status).toBe(307);
+    expect(mockAfter).not.toHaveBeenCalled();
   });
 
   it("404s an unknown token", async () => {
@@ -2,12 +2,13 @@
  * GET /api/scorecard/confirm?token=
  *
  * Completes the Double-Opt-in and redirects the lead straight to their report.
- * Idempotent (a second click also redirects). Unknown token → 404.
+ * The delivery mail (PDF render) and the CRM pushes run after the redirect is
+ * sent. Idempotent (a second click also redirects). Unknown token → 404.
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { createLogger } from "@/lib/logger";
-import { confirmScorecardByToken } from "@/lib/scorecard/confirm";
+import { confirmScorecardByToken, deliverConfirmedScorecard } from "@/lib/scorecard/confirm";
 
 const log = createLogger("ScorecardConfirmAPI");
 
@@ -22,6 +23,10 @@ export async function GET(request: NextRequest): Promise<Response> {
     if (result.status === "notfound") {
       return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
     }
+    if (result.status === "confirmed") {
+      const { submission } = result;
+      after(() => deliverConfirmedScorecard(submission));
+    }
     return NextResponse.redirect(result.reportUrl);
   } catch (error) {
     log.error("Scorecard confirm failed", error);
@@ -7,6 +7,7 @@
 
 import { NextRequest } from 'next/server';
 import { getChatCompletion } from '@/lib/llm-client';
+import { findLLMProvider } from '@/lib/llm';
 import type { ConversationMessage } from '@/types/chat';
 import { PORTFOLIO_OWNER } from '@/lib/portfolio-owner';
 import { createLogger } from '@/lib/logger';
@@ -78,9 +79,9 @@ export async function POST(request: NextRequest) {
     // empty suggestions without calling the LLM.
     const latestUserMessage = messages.filter(m => m.role === 'user').pop();
     if (latestUserMessage) {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (apiKey) {
-        const guardrailsService = new GuardrailsService(apiKey, 'chat');
+      const guardrailsLlm = findLLMProvider('guardrails');
+      if (guardrailsLlm) {
+        const guardrailsService = new GuardrailsService(guardrailsLlm, 'chat');
         const requestId = createAnonymizedRequestId(request);
         const validationResult = await guardrailsService.validateInput(
           latestUserMessage.content,
@@ -103,7 +104,7 @@ export async function POST(request: NextRequest) {
       SUGGESTIONS_PROMPT,
       messages,
       {
-        model: 'gpt-4o-mini',
+        endpoint: 'suggestions',
         temperature: 0.9,
         maxTokens: 256,
         responseFormat: 'json_object',
@@ -1,5 +1,6 @@
 /**
- * POST /api/workshop/[slug]/submit — validation, slot logic, rate-limit, single-reservation, TrackMySales lead.
+ * POST /api/workshop/[slug]/submit — validation, reservation outcomes, rate-limit, TrackMySales lead.
+ * The atomic slot logic itself is covered against Postgres in slots.integration.test.ts.
  * @jest-environment node
  */
 
@@ -12,21 +13,30 @@ jest.mock("@/lib/workshop/queries", () => ({
   getWorkshopBySlug: (...a: unknown[]) => mockGetWorkshop(...a),
 }));
 
-const mockInsert = jest.fn();
 const mockMarkLeadReported = jest.fn();
 jest.mock("@/db/workshop-submissions", () => ({
-  insertWorkshopSubmission: (...a: unknown[]) => mockInsert(...a),
   markLeadReported: (...a: unknown[]) => mockMarkLeadReported(...a),
 }));
 
 let dbConfigured = true;
 jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
 
-const mockFreeSlots = jest.fn();
-const mockOpenReservations = jest.fn();
+let emailConfigured = true;
+jest.mock("@/lib/email/transporter", () => ({ isEmailConfigured: () => emailConfigured }));
+
+const mockSendReservationMails = jest.fn();
+jest.mock("@/lib/workshop/notifications", () => ({
+  sendReservationMails: (...a: unknown[]) => mockSendReservationMails(...a),
+}));
+
+const mockReserve = jest.fn();
 jest.mock("@/lib/workshop/slots", () => ({
-  getFreeSlots: (...a: unknown[]) => mockFreeSlots(...a),
-  countOpenReservationsByEmail: (...a: unknown[]) => mockOpenReservations(...a),
+  reserveSlot: (...a: unknown[]) => mockReserve(...a),
+}));
+
+const mockFindOffer = jest.fn();
+jest.mock("@/lib/workshop/waitlist", () => ({
+  findWaitlistOffer: (...a: unknown[]) => mockFindOffer(...a),
 }));
 
 const mockReportLead = jest.fn();
@@ -59,6 +69,7 @@ jest.mock("next/server", () => ({
 }));
 
 import { POST } from "./route";
+import { hashToken } from "@/lib/workshop/tokens";
 
 let testIpCounter = 0;
 function nextIp(): string {
@@ -118,13 +129,18 @@ function validPayload(overrides: Record<string, unknown> = {}): Record<string, u
 beforeEach(() => {
   jest.clearAllMocks();
   dbConfigured = true;
+  emailConfigured = true;
   tmsConfigured = true;
   mockGetWorkshop.mockResolvedValue(WORKSHOP);
-  mockInsert.mockResolvedValue({ id: "sub-1" });
-  mockFreeSlots.mockResolvedValue(5);
-  mockOpenReservations.mockResolvedValue(0);
+  mockReserve.mockImplementation(async ({ data }) => ({
+    status: "reserved",
+    submission: { ...data, id: "sub-1" },
+    freeSlots: 4,
+  }));
+  mockFindOffer.mockResolvedValue(null);
   mockReportLead.mockResolvedValue({ attributed: true });
   mockMarkLeadReported.mockResolvedValue(undefined);
+  mockSendReservationMails.mockResolvedValue(undefined);
 });
 
 describe("POST /api/workshop/[slug]/submit", () => {
@@ -161,14 +177,28 @@ describe("POST /api/workshop/[slug]/submit", () => {
   });
 
   it("409s when no free slots (SOLD_OUT)", async () => {
-    mockFreeSlots.mockResolvedValue(0);
+    mockReserve.mockResolvedValue({ status: "sold_out" });
     const res = await post("ki-souveraenitaet", validPayload());
     expect(res.status).toBe(409);
     expect((await res.json()).code).toBe("SOLD_OUT");
+    expect(mockSendReservationMails).not.toHaveBeenCalled();
+  });
+
+  it("passes a valid Warteliste offer to the reservation so its held slot is used", async () => {
+    mockFindOffer.mockResolvedValue({ id: "wl-1" });
+    const res = await post("ki-souveraenitaet", validPayload({ waitlistToken: "offer-token" }));
+    expect(res.status).toBe(200);
+    expect(mockFindOffer).toHaveBeenCalledWith(expect.objectContaining({ id: "ws-1" }), "offer-token");
+    expect(mockReserve.mock.calls[0][0].waitlistOfferId).toBe("wl-1");
+  });
+
+  it("treats an unknown or lapsed Warteliste token like no token", async () => {
+    await post("ki-souveraenitaet", validPayload({ waitlistToken: "stale" }));
+    expect(mockReserve.mock.calls[0][0].waitlistOfferId).toBeUndefined();
   });
 
   it("409s on duplicate reservation (same email already reserved)", async () => {
-    mockOpenReservations.mockResolvedValue(1);
+    mockReserve.mockResolvedValue({ status: "duplicate" });
     const res = await post("ki-souveraenitaet", validPayload());
     expect(res.status).toBe(409);
     expect((await res.json()).code).toBe("DUPLICATE_RESERVATION");
@@ -181,12 +211,20 @@ describe("POST /api/workshop/[slug]/submit", () => {
     expect((await res.json()).code).toBe("NOT_CONFIGURED");
   });
 
+  it("503s when SMTP is not configured (nobody could confirm or cancel the reservation)", async () => {
+    emailConfigured = false;
+    const res = await post("ki-souveraenitaet", validPayload());
+    expect(res.status).toBe(503);
+    expect((await res.json()).code).toBe("NOT_CONFIGURED");
+    expect(mockReserve).not.toHaveBeenCalled();
+  });
+
   it("inserts a reserved submission with hashed action tokens on happy path", async () => {
     const res = await post("ki-souveraenitaet", validPayload({ tid: "abc123" }));
     expect(res.status).toBe(200);
     expect((await res.json()).ok).toBe(true);
 
-    const row = mockInsert.mock.calls[0][0];
+    const row = mockReserve.mock.calls[0][0].data;
     expect(row.status).toBe("reserved");
     expect(row.workshopId).toBe("ws-1");
     expect(row.email).toBe("max@firma.de");
@@ -213,4 +251,26 @@ describe("POST /api/workshop/[slug]/submit", () => {
     expect(res.status).toBe(200);
     expect((await res.json()).ok).toBe(true);
   });
+
+  it("sends the reservation mails with the plaintext tokens whose hashes were stored", async () => {
+    await post("ki-souveraenitaet", validPayload());
+    const row = mockReserve.mock.calls[0][0].data;
+    const { tokens, freeSlots, workshop } = mockSendReservationMails.mock.calls[0][0];
+    expect(workshop.id).toBe("ws-1");
+    expect(freeSlots).toBe(4);
+    expect(tokens.confirmPaymentToken).not.toBe(row.confirmPaymentToken);
+    expect(hashToken(tokens.confirmPaymentToken)).toBe(row.confirmPaymentToken);
+    expect(hashToken(tokens.cancelToken)).toBe(row.cancelToken);
+  });
+
+  it("mints a hashed newsletter DOI token only with newsletter opt-in", async () => {
+    await post("ki-souveraenitaet", validPayload());
+    expect(mockReserve.mock.calls[0][0].data.newsletterDoiToken).toBeNull();
+    expect(mockSendReservationMails.mock.calls[0][0].tokens.newsletterDoiToken).toBeNull();
+
+    await post("ki-souveraenitaet", validPayload({ newsletterOptIn: true }));
+    const row = mockReserve.mock.calls[1][0].data;
+    const plain = mockSendReservationMails.mock.calls[1][0].tokens.newsletterDoiToken;
+    expect(row.newsletterDoiToken).toBe(hashToken(plain));
+  });
 });
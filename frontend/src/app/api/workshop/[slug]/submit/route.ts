@@ -1,9 +1,12 @@
 /**
  * POST /api/workshop/[slug]/submit
  *
- * Validates the workshop signup form (Zod), enforces rate-limit + single-open-
- * reservation-per-email, checks slot availability, inserts a 'reserved' row,
- * and fires the TrackMySales lead conversion. Mails + DOI are ticket #8.
+ * Validates the workshop signup form (Zod), enforces rate-limit, then reserves
+ * atomically (slots.ts `reserveSlot`: capacity check incl. slots held by open
+ * Warteliste offers, single-open-reservation-per-email and the insert under
+ * one workshop row lock; the last slot flips the workshop to sold_out),
+ * fires the TrackMySales lead conversion and sends the reservation mails
+ * (confirmation, newsletter DOI, Admin-Notification-Mail with magic links).
  *
  * Response codes: { ok: true } or { ok: false, code: ... }
  *   200 — reserved
@@ -19,12 +22,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { createLogger } from "@/lib/logger";
 import { getWorkshopBySlug } from "@/lib/workshop/queries";
 import { validateWorkshopSignup } from "@/lib/workshop/validation";
-import { getFreeSlots, countOpenReservationsByEmail } from "@/lib/workshop/slots";
-import { insertWorkshopSubmission, markLeadReported } from "@/db/workshop-submissions";
+import { reserveSlot } from "@/lib/workshop/slots";
+import { markLeadReported } from "@/db/workshop-submissions";
 import { isDatabaseConfigured } from "@/db/client";
+import { isEmailConfigured } from "@/lib/email/transporter";
 import { newWorkshopToken, hashToken } from "@/lib/workshop/tokens";
 import { createRateLimiter } from "@/lib/scorecard/rate-limit";
 import { reportLeadConversion, isTrackmysalesConfigured } from "@/lib/scorecard/trackmysales";
+import { sendReservationMails } from "@/lib/workshop/notifications";
+import { findWaitlistOffer } from "@/lib/workshop/waitlist";
 
 const log = createLogger("WorkshopSubmitAPI");
 
@@ -79,53 +85,64 @@ export async function POST(
     return NextResponse.json({ ok: false, code: "NOT_CONFIGURED" }, { status: 503 });
   }
 
-  // Slot check
-  const freeSlots = await getFreeSlots(workshop);
-  if (freeSlots <= 0) {
-    return NextResponse.json({ ok: false, code: "SOLD_OUT" }, { status: 409 });
-  }
-
-  // Single open reservation per email
-  const openReservations = await countOpenReservationsByEmail(
-    workshop.id,
-    validation.data.email.toLowerCase(),
-  );
-  if (openReservations > 0) {
-    return NextResponse.json({ ok: false, code: "DUPLICATE_RESERVATION" }, { status: 409 });
+  // Without SMTP the Admin-Notification-Mail (the only way to confirm/cancel)
+  // can't go out — refuse instead of blocking a slot nobody can manage.
+  if (!isEmailConfigured()) {
+    log.warn("Submit received but SMTP is not configured", { slug });
+    return NextResponse.json({ ok: false, code: "NOT_CONFIGURED" }, { status: 503 });
   }
 
-  // Generate action tokens (hashes for DB, plaintext for mail links — mail is ticket #8)
+  // Generate action tokens + newsletter DOI token (hashes for DB, plaintext only in mail links)
   const confirmPaymentTokenPlain = newWorkshopToken();
   const cancelTokenPlain = newWorkshopToken();
+  const newsletterDoiTokenPlain = validation.data.newsletterOptIn ? newWorkshopToken() : null;
 
   try {
-    const submission = await insertWorkshopSubmission({
+    // An open Warteliste offer holds its slot for the holder of the link
+    const offer = validation.data.waitlistToken
+      ? await findWaitlistOffer(workshop, validation.data.waitlistToken)
+      : null;
+
+    // Slot check + single open reservation per email + insert, atomically
+    const reservation = await reserveSlot({
       workshopId: workshop.id,
-      firstName: validation.data.firstName,
-      lastName: validation.data.lastName,
-      email: validation.data.email.toLowerCase(),
-      company: validation.data.company,
-      role: validation.data.role ?? null,
-      secondPersonName: validation.data.secondPersonName ?? null,
-      secondPersonEmail: validation.data.secondPersonEmail ?? null,
-      invoiceCompany: validation.data.invoiceCompany,
-      invoiceContactName: validation.data.invoiceContactName,
-      invoiceEmail: validation.data.invoiceEmail.toLowerCase(),
-      invoiceStreet: validation.data.invoiceStreet,
-      invoiceZip: validation.data.invoiceZip,
-      invoiceCity: validation.data.invoiceCity,
-      invoiceCountry: validation.data.invoiceCountry,
-      invoiceUstId: validation.data.invoiceUstId ?? null,
-      isSmallBusiness: validation.data.isSmallBusiness,
-      paymentPreference: validation.data.paymentPreference,
-      newsletterOptIn: validation.data.newsletterOptIn,
-      status: "reserved",
-      trackingId: validation.data.tid ?? null,
-      confirmPaymentToken: hashToken(confirmPaymentTokenPlain),
-      cancelToken: hashToken(cancelTokenPlain),
-      ipAtSubmit: ip,
-      userAgent: request.headers.get("user-agent") ?? "",
+      waitlistOfferId: offer?.id,
+      data: {
+        workshopId: workshop.id,
+        firstName: validation.data.firstName,
+        lastName: validation.data.lastName,
+        email: validation.data.email.toLowerCase(),
+        company: validation.data.company,
+        role: validation.data.role ?? null,
+        secondPersonName: validation.data.secondPersonName ?? null,
+        secondPersonEmail: validation.data.secondPersonEmail ?? null,
+        invoiceCompany: validation.data.invoiceCompany,
+        invoiceContactName: validation.data.invoiceContactName,
+        invoiceEmail: validation.data.invoiceEmail.toLowerCase(),
+        invoiceStreet: validation.data.invoiceStreet,
+        invoiceZip: validation.data.invoiceZip,
+        invoiceCity: validation.data.invoiceCity,
+        invoiceCountry: validation.data.invoiceCountry,
+        invoiceUstId: validation.data.invoiceUstId ?? null,
+        isSmallBusiness: validation.data.isSmallBusiness,
+        paymentPreference: validation.data.paymentPreference,
+        newsletterOptIn: validation.data.newsletterOptIn,
+        newsletterDoiToken: newsletterDoiTokenPlain ? hashToken(newsletterDoiTokenPlain) : null,
+        status: "reserved",
+        trackingId: validation.data.tid ?? null,
+        confirmPaymentToken: hashToken(confirmPaymentTokenPlain),
+        cancelToken: hashToken(cancelTokenPlain),
+        ipAtSubmit: ip,
+        userAgent: request.headers.get("user-agent") ?? "",
+      },
     });
+    if (reservation.status === "sold_out") {
+      return NextResponse.json({ ok: false, code: "SOLD_OUT" }, { status: 409 });
+    }
+    if (reservation.status === "duplicate") {
+      return NextResponse.json({ ok: false, code: "DUPLICATE_RESERVATION" }, { status: 409 });
+    }
+    const { submission } = reservation;
 
     // TrackMySales lead conversion (best-effort, non-fatal)
     if (validation.data.tid && isTrackmysalesConfigured()) {
@@ -137,8 +154,16 @@ export async function POST(
       }
     }
 
-    // Mails (ticket #8) — TODO: send reservation + DOI + admin-notification here.
-    // For now the tokens are available for the next ticket to wire into mail links.
+    await sendReservationMails({
+      workshop,
+      submission,
+      tokens: {
+        confirmPaymentToken: confirmPaymentTokenPlain,
+        cancelToken: cancelTokenPlain,
+        newsletterDoiToken: newsletterDoiTokenPlain,
+      },
+      freeSlots: reservation.freeSlots,
+    });
 
     return NextResponse.json({ ok: true });
   } catch (error) {
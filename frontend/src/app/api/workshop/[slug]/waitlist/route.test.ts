@@ -0,0 +1,119 @@
+/**
+ * POST /api/workshop/[slug]/waitlist — validation, configuration, bookable guard.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockGetWorkshop = jest.fn();
+jest.mock("@/lib/workshop/queries", () => ({
+  getWorkshopBySlug: (...a: unknown[]) => mockGetWorkshop(...a),
+}));
+
+const mockJoin = jest.fn();
+jest.mock("@/lib/workshop/waitlist", () => ({ joinWaitlist: (...a: unknown[]) => mockJoin(...a) }));
+
+let dbConfigured = true;
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
+
+let emailConfigured = true;
+jest.mock("@/lib/email/transporter", () => ({ isEmailConfigured: () => emailConfigured }));
+
+class MockNextRequest {
+  private body: string;
+  public headers: Map<string, string>;
+  constructor(_url: string, init?: { headers?: Record<string, string>; body?: string }) {
+    this.body = init?.body ?? "";
+    this.headers = new Map(Object.entries(init?.headers ?? {}));
+  }
+  async json() {
+    return JSON.parse(this.body);
+  }
+}
+jest.mock("next/server", () => ({
+  NextRequest: MockNextRequest,
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), {
+        status: init?.status ?? 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+  },
+}));
+
+import { POST } from "./route";
+
+let testIpCounter = 0;
+
+function post(slug: string, body: unknown): Promise<Response> {
+  testIpCounter += 1;
+  const req = new MockNextRequest(`http://localhost/api/workshop/${slug}/waitlist`, {
+    headers: { "x-forwarded-for": `10.1.0.${testIpCounter}`, "user-agent": "jest" },
+    body: JSON.stringify(body),
+  });
+  return POST(req as never, { params: Promise.resolve({ slug }) } as never);
+}
+
+const WORKSHOP = { id: "ws-1", slug: "ki-souveraenitaet", termin: null };
+const PAYLOAD = { firstName: "Max", email: "Max@Firma.de", company: "Mustermann GmbH" };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  dbConfigured = true;
+  emailConfigured = true;
+  mockGetWorkshop.mockResolvedValue(WORKSHOP);
+  mockJoin.mockResolvedValue({ status: "added", entry: { id: "wl-1" } });
+});
+
+describe("POST /api/workshop/[slug]/waitlist", () => {
+  it("404s an unknown workshop slug", async () => {
+    mockGetWorkshop.mockResolvedValue(null);
+    const res = await post("unknown", PAYLOAD);
+    expect(res.status).toBe(404);
+  });
+
+  it("400s on invalid form data", async () => {
+    const res = await post("ki-souveraenitaet", { firstName: "", email: "nope" });
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.code).toBe("INVALID_REQUEST");
+    expect(Object.keys(json.errors)).toEqual(expect.arrayContaining(["firstName", "email"]));
+  });
+
+  it("503s without SMTP (the DOI mail is the only way onto the list)", async () => {
+    emailConfigured = false;
+    const res = await post("ki-souveraenitaet", PAYLOAD);
+    expect(res.status).toBe(503);
+    expect(mockJoin).not.toHaveBeenCalled();
+  });
+
+  it("puts the person on the list with IP and user agent", async () => {
+    const res = await post("ki-souveraenitaet", PAYLOAD);
+    expect(res.status).toBe(200);
+    expect(mockJoin).toHaveBeenCalledWith(
+      expect.objectContaining({ workshop: WORKSHOP, data: PAYLOAD, userAgent: "jest" }),
+    );
+  });
+
+  it("answers a duplicate signup exactly like a new one", async () => {
+    mockJoin.mockResolvedValue({ status: "duplicate" });
+    const res = await post("ki-souveraenitaet", PAYLOAD);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true });
+  });
+
+  it("409s BOOKABLE when a slot is free", async () => {
+    mockJoin.mockResolvedValue({ status: "bookable" });
+    const res = await post("ki-souveraenitaet", PAYLOAD);
+    expect(res.status).toBe(409);
+    expect((await res.json()).code).toBe("BOOKABLE");
+  });
+
+  it("500s when the signup throws", async () => {
+    mockJoin.mockRejectedValue(new Error("smtp down"));
+    const res = await post("ki-souveraenitaet", PAYLOAD);
+    expect(res.status).toBe(500);
+  });
+});
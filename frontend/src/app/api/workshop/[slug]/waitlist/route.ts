@@ -0,0 +1,91 @@
+/**
+ * POST /api/workshop/[slug]/waitlist
+ *
+ * Warteliste signup for a workshop that cannot be reserved directly — no
+ * Termin yet, or sold out. Validates the short form (Zod), rate-limits,
+ * inserts a 'pending' entry and sends the Double-Opt-in mail. An existing open
+ * entry for the same email answers 200 as well (no signup enumeration).
+ *
+ * Response codes: { ok: true } or { ok: false, code: ... }
+ *   200 — on the list (DOI mail sent) or already on it
+ *   400 — INVALID_REQUEST (Zod validation failed)
+ *   404 — NOT_FOUND (slug unknown)
+ *   409 — BOOKABLE (a slot is free — reserve directly instead)
+ *   429 — RATE_LIMITED
+ *   503 — NOT_CONFIGURED (DB or email not configured)
+ *   500 — INTERNAL_ERROR
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { getWorkshopBySlug } from "@/lib/workshop/queries";
+import { validateWaitlistSignup } from "@/lib/workshop/validation";
+import { joinWaitlist } from "@/lib/workshop/waitlist";
+import { isDatabaseConfigured } from "@/db/client";
+import { isEmailConfigured } from "@/lib/email/transporter";
+import { createRateLimiter } from "@/lib/scorecard/rate-limit";
+
+const log = createLogger("WorkshopWaitlistAPI");
+
+// Same budget as the workshop submit: 3 per IP per 10 minutes.
+const limiter = createRateLimiter({ max: 3, windowMs: 10 * 60 * 1000 });
+
+function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0]!.trim();
+  return request.headers.get("x-real-ip") ?? "";
+}
+
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ slug: string }> },
+): Promise<Response> {
+  const { slug } = await ctx.params;
+
+  const workshop = await getWorkshopBySlug(slug);
+  if (!workshop) {
+    return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const ip = clientIp(request);
+  if (!limiter.check(ip || "unknown")) {
+    return NextResponse.json({ ok: false, code: "RATE_LIMITED" }, { status: 429 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  const validation = validateWaitlistSignup(body);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { ok: false, code: "INVALID_REQUEST", errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  // The DOI mail is the only way onto the list — no SMTP, no signup.
+  if (!isDatabaseConfigured() || !isEmailConfigured()) {
+    log.warn("Waitlist signup received but DB or SMTP is not configured", { slug });
+    return NextResponse.json({ ok: false, code: "NOT_CONFIGURED" }, { status: 503 });
+  }
+
+  try {
+    const result = await joinWaitlist({
+      workshop,
+      data: validation.data,
+      ip,
+      userAgent: request.headers.get("user-agent") ?? "",
+    });
+    if (result.status === "bookable") {
+      return NextResponse.json({ ok: false, code: "BOOKABLE" }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    log.error("Waitlist signup failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
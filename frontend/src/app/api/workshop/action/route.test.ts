@@ -0,0 +1,77 @@
+/**
+ * GET /api/workshop/action?token= — run the admin action + redirect to the confirmation page.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockRun = jest.fn();
+jest.mock("@/lib/workshop/actions", () => ({
+  runWorkshopAction: (...a: unknown[]) => mockRun(...a),
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {
+    public nextUrl: URL;
+    constructor(url: string) {
+      this.nextUrl = new URL(url);
+    }
+  },
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), { status: init?.status ?? 200 }),
+    redirect: (url: string | URL, status = 307) =>
+      new Response(null, { status, headers: { location: String(url) } }),
+  },
+}));
+
+import { GET } from "./route";
+
+function get(token?: string): Promise<Response> {
+  const qs = token === undefined ? "" : `?token=${token}`;
+  const req = new (jest.requireMock("next/server").NextRequest)(`http://localhost/api/workshop/action${qs}`);
+  return GET(req as never);
+}
+
+beforeEach(() => mockRun.mockReset());
+
+describe("GET /api/workshop/action", () => {
+  it("400s without a token", async () => {
+    const res = await get();
+    expect(res.status).toBe(400);
+    expect(mockRun).not.toHaveBeenCalled();
+  });
+
+  it("redirects to the booked confirmation page", async () => {
+    mockRun.mockResolvedValueOnce({ status: "booked", submission: {}, workshop: null });
+    const res = await get("tok");
+    expect(res.status).toBe(307);
+    expect(res.headers.get("location")).toMatch(/\/workshop\/aktion\?result=booked$/);
+  });
+
+  it("redirects to the cancelled confirmation page", async () => {
+    mockRun.mockResolvedValueOnce({ status: "cancelled", submission: {}, workshop: null });
+    const res = await get("tok");
+    expect(res.headers.get("location")).toMatch(/result=cancelled$/);
+  });
+
+  it("reports a repeat click with the current status", async () => {
+    mockRun.mockResolvedValueOnce({ status: "already", action: "confirm_payment", current: "booked" });
+    const res = await get("tok");
+    expect(res.headers.get("location")).toMatch(/result=already_booked$/);
+  });
+
+  it("redirects an unknown token to the invalid page", async () => {
+    mockRun.mockResolvedValueOnce({ status: "notfound" });
+    const res = await get("tok");
+    expect(res.headers.get("location")).toMatch(/result=invalid$/);
+  });
+
+  it("redirects to the error page when the action throws", async () => {
+    mockRun.mockRejectedValueOnce(new Error("db down"));
+    const res = await get("tok");
+    expect(res.headers.get("location")).toMatch(/result=error$/);
+  });
+});
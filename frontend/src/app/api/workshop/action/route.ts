@@ -0,0 +1,44 @@
+/**
+ * GET /api/workshop/action?token=
+ *
+ * Magic-link target for the admin actions in the Admin-Notification-Mail
+ * (ADR-0001): confirm payment (reserved → booked) or cancel (→ cancelled).
+ * The token decides the action. Single-use and idempotent — a repeat click
+ * lands on "already done", never runs the transition twice. Always redirects
+ * to the /workshop/aktion confirmation page, never answers with raw JSON
+ * except for a missing token.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { runWorkshopAction } from "@/lib/workshop/actions";
+import { baseUrl } from "@/lib/scorecard/tokens";
+
+const log = createLogger("WorkshopActionAPI");
+
+function resultUrl(result: string): string {
+  return `${baseUrl()}/workshop/aktion?result=${result}`;
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token) {
+    return NextResponse.json({ ok: false, code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  try {
+    const outcome = await runWorkshopAction(token);
+    switch (outcome.status) {
+      case "booked":
+      case "cancelled":
+        return NextResponse.redirect(resultUrl(outcome.status));
+      case "already":
+        return NextResponse.redirect(resultUrl(`already_${outcome.current}`));
+      case "notfound":
+        return NextResponse.redirect(resultUrl("invalid"));
+    }
+  } catch (error) {
+    log.error("Workshop action failed", error);
+    return NextResponse.redirect(resultUrl("error"));
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * GET /api/workshop/admin/export?token= — CSV export behind the Übersichts-Token.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockLoad = jest.fn();
+jest.mock("@/lib/workshop/admin", () => ({
+  loadWorkshopOverview: (...a: unknown[]) => mockLoad(...a),
+  toOverviewCsv: () => "\uFEFFStatus;Firma\r\n",
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {
+    public nextUrl: URL;
+    constructor(url: string) {
+      this.nextUrl = new URL(url);
+    }
+  },
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), { status: init?.status ?? 200 }),
+  },
+}));
+
+import { GET } from "./route";
+
+function get(token?: string): Promise<Response> {
+  const qs = token === undefined ? "" : `?token=${token}`;
+  const req = new (jest.requireMock("next/server").NextRequest)(`http://localhost/api/workshop/admin/export${qs}`);
+  return GET(req as never);
+}
+
+beforeEach(() => mockLoad.mockReset());
+
+describe("GET /api/workshop/admin/export", () => {
+  it("404s on an unknown token", async () => {
+    mockLoad.mockResolvedValueOnce(null);
+    const res = await get("wrong");
+    expect(res.status).toBe(404);
+    expect((await res.json()).code).toBe("NOT_FOUND");
+  });
+
+  it("404s without a token (same answer as a wrong one)", async () => {
+    mockLoad.mockResolvedValueOnce(null);
+    const res = await get();
+    expect(res.status).toBe(404);
+    expect(mockLoad).toHaveBeenCalledWith(undefined);
+  });
+
+  it("returns the CSV as a non-cacheable attachment", async () => {
+    mockLoad.mockResolvedValueOnce({ workshop: { slug: "ki-souveraenitaet" }, submissions: [], freeSlots: 5 });
+    const res = await get("ok");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toMatch(/^text\/csv/);
+    expect(res.headers.get("content-disposition")).toMatch(/attachment; filename="ki-souveraenitaet-anmeldungen-/);
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(await res.text()).toContain("Status;Firma");
+  });
+
+  it("500s when loading fails", async () => {
+    mockLoad.mockRejectedValueOnce(new Error("db down"));
+    const res = await get("ok");
+    expect(res.status).toBe(500);
+  });
+});
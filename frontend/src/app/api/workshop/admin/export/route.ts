@@ -0,0 +1,36 @@
+/**
+ * GET /api/workshop/admin/export?token=
+ *
+ * CSV export of the workshop overview (same rows + columns as /workshop/admin).
+ * Guarded by the Übersichts-Token; an unknown token is a bare 404 that does
+ * not reveal whether the workshop exists.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { loadWorkshopOverview, toOverviewCsv } from "@/lib/workshop/admin";
+
+const log = createLogger("WorkshopAdminExportAPI");
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const token = request.nextUrl.searchParams.get("token") ?? undefined;
+
+  try {
+    const overview = await loadWorkshopOverview(token);
+    if (!overview) {
+      return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+    }
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(toOverviewCsv(overview.submissions), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${overview.workshop.slug}-anmeldungen-${date}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    log.error("Workshop CSV export failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
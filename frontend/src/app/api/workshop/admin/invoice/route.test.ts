@@ -0,0 +1,62 @@
+/**
+ * GET /api/workshop/admin/invoice — PDF download behind the Übersichts-Token.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockLoad = jest.fn();
+jest.mock("@/lib/workshop/admin", () => ({
+  loadWorkshopInvoice: (...a: unknown[]) => mockLoad(...a),
+}));
+
+jest.mock("next/server", () => ({
+  NextRequest: class {
+    public nextUrl: URL;
+    constructor(url: string) {
+      this.nextUrl = new URL(url);
+    }
+  },
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) =>
+      new Response(JSON.stringify(data), { status: init?.status ?? 200 }),
+  },
+}));
+
+import { GET } from "./route";
+import { sampleInvoice } from "@/lib/workshop/__fixtures__/sample-submission";
+
+function get(qs: string): Promise<Response> {
+  const req = new (jest.requireMock("next/server").NextRequest)(`http://localhost/api/workshop/admin/invoice${qs}`);
+  return GET(req as never);
+}
+
+beforeEach(() => mockLoad.mockReset());
+
+describe("GET /api/workshop/admin/invoice", () => {
+  it("404s when the token does not unlock an invoice", async () => {
+    mockLoad.mockResolvedValueOnce(null);
+    const res = await get("?token=wrong&submission=sub-1");
+    expect(res.status).toBe(404);
+    expect(mockLoad).toHaveBeenCalledWith("wrong", "sub-1");
+  });
+
+  it("returns the PDF as a non-cacheable attachment", async () => {
+    mockLoad.mockResolvedValueOnce(sampleInvoice());
+    const res = await get("?token=ok&submission=sub-1");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/pdf");
+    expect(res.headers.get("content-disposition")).toBe('attachment; filename="Rechnung-WS-2026-0001.pdf"');
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(Buffer.from(await res.arrayBuffer()).subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("500s when the lookup throws", async () => {
+    mockLoad.mockRejectedValueOnce(new Error("db down"));
+    const res = await get("?token=ok&submission=sub-1");
+    expect(res.status).toBe(500);
+    expect((await res.json()).code).toBe("INTERNAL_ERROR");
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * GET /api/workshop/admin/invoice?token=&submission=
+ *
+ * PDF download of one Workshop-Rechnung from the overview. Guarded by the
+ * Übersichts-Token of the invoice's own workshop; an unknown token, a foreign
+ * submission or a submission without invoice is the same bare 404.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { loadWorkshopInvoice } from "@/lib/workshop/admin";
+import { invoiceFilename, renderInvoicePdf } from "@/lib/workshop/invoice-pdf";
+
+const log = createLogger("WorkshopAdminInvoiceAPI");
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const invoice = await loadWorkshopInvoice(
+      params.get("token") ?? undefined,
+      params.get("submission") ?? undefined,
+    );
+    if (!invoice) {
+      return NextResponse.json({ ok: false, code: "NOT_FOUND" }, { status: 404 });
+    }
+    return new Response(new Uint8Array(renderInvoicePdf(invoice)), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${invoiceFilename(invoice)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    log.error("Workshop invoice download failed", error);
+    return NextResponse.json({ ok: false, code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
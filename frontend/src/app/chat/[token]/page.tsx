@@ -0,0 +1,83 @@
+/**
+ * Shared Chat Transcript Page
+ *
+ * Read-only view of a conversation a visitor shared from the chat panel
+ * (lib/chat-share). Token-gated: never indexed, always rendered per request,
+ * 404 once the conversation expired or sharing is not configured.
+ */
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { BlogLayout } from '@/components/blog/BlogLayout';
+import { ChatMessage } from '@/components/chat/ChatMessage';
+import { findSharedTranscript, isChatSharingConfigured } from '@/lib/chat-share/conversations';
+
+export const metadata: Metadata = {
+  title: 'Shared Conversation | Daniel Kreuzhofer',
+  robots: { index: false, follow: false },
+};
+export const dynamic = 'force-dynamic';
+
+const DATE_FORMAT = new Intl.DateTimeFormat('en-GB', { dateStyle: 'long', timeZone: 'UTC' });
+
+export default async function SharedConversationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  if (!isChatSharingConfigured()) notFound();
+
+  const transcript = await findSharedTranscript(token);
+  if (!transcript) notFound();
+
+  return (
+    <BlogLayout currentSection="chat">
+      <div className="max-w-3xl mx-auto">
+        <header className="mb-8" data-testid="transcript-header">
+          <h1 className="text-3xl md:text-4xl font-bold text-[var(--foreground)] mb-4">
+            Shared Conversation
+          </h1>
+          <p className="text-[var(--foreground-muted)] mb-2">
+            A visitor&apos;s conversation with the AI assistant on this site, answering questions
+            about Daniel&apos;s experience. Answers are AI-generated from the site&apos;s content.
+          </p>
+          <p className="text-sm text-[var(--foreground-subtle)]">
+            Last updated {DATE_FORMAT.format(transcript.updatedAt)} · available until{' '}
+            {DATE_FORMAT.format(transcript.expiresAt)}
+          </p>
+        </header>
+
+        <section aria-label="Conversation" data-testid="transcript-messages">
+          {transcript.messages.map((message, index) => (
+            <ChatMessage
+              key={index}
+              message={{
+                id: `transcript-${index}`,
+                role: message.role,
+                content: message.content,
+                timestamp: new Date(message.timestamp),
+                status: 'complete',
+                sources: message.sources,
+              }}
+              hideTimestamp
+            />
+          ))}
+        </section>
+
+        <footer className="mt-8 pt-6 border-t border-[var(--border)]">
+          <p className="text-[var(--foreground-muted)] mb-4">
+            Have a question of your own? Open the chat on any page.
+          </p>
+          <Link
+            href="/"
+            className="inline-block px-4 py-2 rounded-lg bg-[var(--primary-600)] text-[var(--foreground)] hover:bg-[var(--primary-500)] transition-colors duration-150"
+          >
+            Go to the homepage
+          </Link>
+        </footer>
+      </div>
+    </BlogLayout>
+  );
+}
@@ -0,0 +1,44 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { Anton } from "next/font/google";
+import { getScorecard } from "@/lib/scorecard/registry";
+import { isPartnerId } from "@/lib/scorecard/embed";
+import { ScorecardAppBySlug } from "@/components/scorecard/ScorecardAppBySlug";
+import "@/components/scorecard/sc.css";
+
+const anton = Anton({ weight: "400", subsets: ["latin"], display: "swap", variable: "--font-anton" });
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ scorecardSlug: string }>;
+}): Promise<Metadata> {
+  const { scorecardSlug } = await params;
+  const reg = getScorecard(scorecardSlug);
+  // The canonical page is /<slug>; the embed copy stays out of the index.
+  return reg ? { title: reg.meta.title, robots: { index: false, follow: false } } : {};
+}
+
+/**
+ * /embed/<slug>?partner=&tid= — the scorecard for an iframe on a partner page
+ * (loader: public/embed/scorecard.js). Same app and branding as /<slug>, minus
+ * the site chrome; framing is allowed by middleware.ts for this path only.
+ * Runs without the A/B experiment: a third-party iframe cannot keep the
+ * assignment cookie, so embeds would blur the comparison.
+ */
+export default async function ScorecardEmbedPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ scorecardSlug: string }>;
+  searchParams: Promise<{ partner?: string }>;
+}) {
+  const { scorecardSlug } = await params;
+  const { partner } = await searchParams;
+  if (!getScorecard(scorecardSlug)) notFound();
+  return (
+    <div className={anton.variable}>
+      <ScorecardAppBySlug slug={scorecardSlug} embed={{ partner: isPartnerId(partner) ? partner : null }} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { render, screen } from "@testing-library/react";
+import EnglishScorecardPage, { generateMetadata, generateStaticParams } from "./page";
+
+jest.mock("next/font/google", () => ({
+  Anton: () => ({ variable: "font-anton" }),
+}));
+// The `@/` alias wins over the `.css` stub in moduleNameMapper.
+jest.mock("@/components/scorecard/sc.css", () => ({}));
+
+const params = (scorecardSlug: string) => ({ params: Promise.resolve({ scorecardSlug }) });
+
+beforeEach(() => {
+  // The app pings its step counter on mount.
+  global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ ok: true }) }) as never;
+});
+
+describe("/en/<slug> against the real registrations", () => {
+  it("generates an /en route for the translated scorecards", () => {
+    const slugs = generateStaticParams().map((p) => p.scorecardSlug);
+    expect(slugs).toEqual(expect.arrayContaining(["dsgvo-check", "engpass-check"]));
+  });
+
+  it("uses the English meta with the de/en alternates", async () => {
+    const meta = await generateMetadata(params("engpass-check"));
+    expect(meta.title).toMatch(/Bottleneck Check/);
+    expect(meta.alternates?.languages).toEqual({ de: "/engpass-check", en: "/en/engpass-check" });
+  });
+
+  it.each([
+    ["engpass-check", "The Bottleneck Check", "Start the check"],
+    ["dsgvo-check", "Can you use your AI tools in a GDPR-compliant way?", "Start the check"],
+  ])("renders the English intro of %s", async (slug, heading, start) => {
+    render(await EnglishScorecardPage(params(slug)));
+    expect(screen.getByRole("heading", { name: heading })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: start })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,54 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { Anton } from "next/font/google";
+import { getScorecard } from "@/lib/scorecard/registry";
+import { localizedRegistration, supportedLocales } from "@/lib/scorecard/locale";
+import { REGISTRATIONS } from "@/scorecards";
+import { ScorecardAppBySlug } from "@/components/scorecard/ScorecardAppBySlug";
+import "@/components/scorecard/sc.css";
+
+const anton = Anton({ weight: "400", subsets: ["latin"], display: "swap", variable: "--font-anton" });
+
+/** Only scorecards with an English translation get an /en route. */
+export function generateStaticParams() {
+  return REGISTRATIONS.filter((r) => supportedLocales(r).includes("en")).map((r) => ({
+    scorecardSlug: r.definition.slug,
+  }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ scorecardSlug: string }>;
+}): Promise<Metadata> {
+  const { scorecardSlug } = await params;
+  const reg = getScorecard(scorecardSlug);
+  if (!reg || !supportedLocales(reg).includes("en")) return {};
+  const { meta } = localizedRegistration(reg, "en");
+  return {
+    title: meta.title,
+    description: meta.description,
+    alternates: { languages: { de: `/${scorecardSlug}`, en: `/en/${scorecardSlug}` } },
+  };
+}
+
+/**
+ * /en/<slug> — the English translation of a scorecard (registration
+ * `translations.en`). Same app as /<slug>; the submission stores the locale so
+ * the DOI mail, delivery mail and report follow in English. Runs without the
+ * A/B experiment, which is authored on the German copy.
+ */
+export default async function EnglishScorecardPage({
+  params,
+}: {
+  params: Promise<{ scorecardSlug: string }>;
+}) {
+  const { scorecardSlug } = await params;
+  const reg = getScorecard(scorecardSlug);
+  if (!reg || !supportedLocales(reg).includes("en")) notFound();
+  return (
+    <div className={anton.variable} lang="en">
+      <ScorecardAppBySlug slug={scorecardSlug} locale="en" />
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import "./globals.css";
 import { ChatProvider } from "@/context/ChatContext";
 import { ChatWrapper } from "@/components/chat/ChatWrapper";
 import { Footer } from "@/components/Footer";
+import { SiteChrome } from "@/components/SiteChrome";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -49,8 +50,10 @@ export default function RootLayout({
       >
         <ChatProvider>
           {children}
-          <Footer />
-          <ChatWrapper />
+          <SiteChrome>
+            <Footer />
+            <ChatWrapper />
+          </SiteChrome>
         </ChatProvider>
       </body>
     </html>
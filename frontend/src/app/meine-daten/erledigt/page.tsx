@@ -0,0 +1,62 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Layout } from "@/components/Layout";
+
+export const metadata: Metadata = {
+  title: "Meine Daten | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+};
+
+/** Copy per outcome — keys match the `result` set by /api/dsgvo/export and /api/dsgvo/erase. */
+const MESSAGES: Record<string, { eyebrow: string; heading: string; body: string }> = {
+  erased: {
+    eyebrow: "Gelöscht",
+    heading: "Deine Daten sind gelöscht.",
+    body: "Alle Einträge zu Deiner Adresse sind entfernt, und Du bist aus dem Newsletter ausgetragen. Ausgestellte Rechnungen bleiben wegen der gesetzlichen Aufbewahrungspflicht erhalten.",
+  },
+  used: {
+    eyebrow: "Schon erledigt",
+    heading: "Dieser Link wurde bereits verwendet.",
+    body: "Download und Löschung gehen je einmal pro Link. Fordere bei Bedarf einfach einen neuen an.",
+  },
+  invalid: {
+    eyebrow: "Link ungültig",
+    heading: "Dieser Link ist ungültig oder abgelaufen.",
+    body: "Links gelten eine Stunde. Fordere einfach einen neuen an.",
+  },
+  error: {
+    eyebrow: "Fehler",
+    heading: "Das hat nicht geklappt.",
+    body: "Es wurde nichts geändert. Versuch es in ein paar Minuten noch einmal oder schreib mir an daniel@kreuzhofer.de.",
+  },
+};
+
+/**
+ * /meine-daten/erledigt — outcome page of the DSGVO self-service. Purely
+ * presentational: the action already ran in the API route that redirects here.
+ */
+export default async function MeineDatenErledigtPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ result?: string }>;
+}) {
+  const { result } = await searchParams;
+  const message = MESSAGES[result ?? ""] ?? MESSAGES.invalid!;
+
+  return (
+    <Layout>
+      <section aria-label="Meine Daten" className="py-16 md:py-24">
+        <div className="max-w-xl mx-auto text-center">
+          <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+            {message.eyebrow}
+          </p>
+          <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">{message.heading}</h1>
+          <p className="text-base md:text-lg text-[var(--foreground-muted)]">{message.body}</p>
+          <Link href="/meine-daten" className="mt-8 inline-block font-semibold text-[var(--primary-400)]">
+            → Meine Daten
+          </Link>
+        </div>
+      </section>
+    </Layout>
+  );
+}
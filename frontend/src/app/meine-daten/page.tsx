@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Layout } from "@/components/Layout";
+import { DsgvoRequestForm } from "@/components/dsgvo/DsgvoRequestForm";
+
+export const metadata: Metadata = {
+  title: "Meine Daten | Daniel Kreuzhofer",
+  description: "Auskunft über Deine gespeicherten Daten und Löschung (Art. 15 und 17 DSGVO).",
+  robots: { index: false, follow: false },
+};
+
+/** /meine-daten — entry of the DSGVO self-service (lib/dsgvo). */
+export default function MeineDatenPage() {
+  return (
+    <Layout>
+      <section aria-label="Meine Daten" className="py-16 md:py-24">
+        <div className="max-w-xl mx-auto">
+          <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+            Datenschutz
+          </p>
+          <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">Deine gespeicherten Daten</h1>
+          <p className="text-base md:text-lg text-[var(--foreground-muted)] mb-8">
+            Gib die E-Mail-Adresse ein, mit der Du einen Check gemacht, Dich für einen Workshop angemeldet oder auf
+            eine Warteliste gesetzt hast. Du bekommst einen Link, über den Du alle Daten als Datei herunterladen
+            (Art. 15 DSGVO) oder löschen lassen kannst (Art. 17 DSGVO).
+          </p>
+          <DsgvoRequestForm />
+          <p className="mt-8 text-sm text-[var(--foreground-muted)]">
+            Mehr dazu in der{" "}
+            <Link href="/datenschutz" className="font-semibold text-[var(--primary-400)]">
+              Datenschutzerklärung
+            </Link>
+            .
+          </p>
+        </div>
+      </section>
+    </Layout>
+  );
+}
@@ -0,0 +1,117 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Layout } from "@/components/Layout";
+import { describeDsgvoLink, type DataCounts } from "@/lib/dsgvo/self-service";
+import { formatDateTime } from "@/lib/workshop/admin";
+
+// Reads the DB per link — never prerender it.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Meine Daten | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+};
+
+const COUNT_LABELS: Record<keyof DataCounts, string> = {
+  scorecard: "Scorecards",
+  workshop: "Workshop-Anmeldungen",
+  secondPerson: "Workshop-Anmeldungen mit Dir als Zweit-Person",
+  waitlist: "Workshop-Wartelisten",
+  invoices: "Workshop-Rechnungen",
+};
+
+const buttonClass =
+  "inline-flex items-center justify-center font-medium rounded-lg px-6 py-3 min-h-[48px] transition-all duration-200";
+
+/**
+ * /meine-daten/verwalten?token= — target of the DSGVO link mail. Shows what is
+ * stored and offers the export and the deletion as form POSTs
+ * (/api/dsgvo/export, /api/dsgvo/erase). Opening the page uses up nothing.
+ */
+export default async function MeineDatenVerwaltenPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const link = token ? await describeDsgvoLink(token).catch(() => ({ status: "invalid" as const })) : null;
+
+  if (!token || !link || link.status !== "ok") {
+    return (
+      <Layout>
+        <section aria-label="Meine Daten" className="py-16 md:py-24">
+          <div className="max-w-xl mx-auto text-center">
+            <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">Meine Daten</p>
+            <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">Link ungültig</h1>
+            <p className="text-base md:text-lg text-[var(--foreground-muted)]">
+              Dieser Link ist ungültig oder abgelaufen. Fordere einfach einen neuen an.
+            </p>
+            <Link href="/meine-daten" className="mt-8 inline-block font-semibold text-[var(--primary-400)]">
+              → Neuen Link anfordern
+            </Link>
+          </div>
+        </section>
+      </Layout>
+    );
+  }
+
+  const stored = (Object.keys(COUNT_LABELS) as (keyof DataCounts)[]).filter((key) => link.counts[key] > 0);
+
+  return (
+    <Layout>
+      <section aria-label="Meine Daten" className="py-16 md:py-24">
+        <div className="max-w-xl mx-auto">
+          <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">Meine Daten</p>
+          <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">{link.email}</h1>
+          {stored.length > 0 || link.newsletter ? (
+            <ul className="mb-6 space-y-1 text-[var(--foreground-muted)]">
+              {stored.map((key) => (
+                <li key={key}>
+                  {COUNT_LABELS[key]}: <strong className="text-[var(--foreground)]">{link.counts[key]}</strong>
+                </li>
+              ))}
+              {link.newsletter && <li>Newsletter-Empfänger (CleverReach)</li>}
+            </ul>
+          ) : (
+            <p className="mb-6 text-[var(--foreground-muted)]">Zu dieser Adresse ist nichts (mehr) gespeichert.</p>
+          )}
+          <p className="mb-8 text-sm text-[var(--foreground-muted)]">
+            Der Link gilt bis {formatDateTime(link.expiresAt)} Uhr. Download und Löschung gehen je einmal.
+          </p>
+
+          <h2 className="heading-section text-xl text-[var(--foreground)] mb-2">Auskunft (Art. 15 DSGVO)</h2>
+          <p className="mb-4 text-[var(--foreground-muted)]">Alle gespeicherten Daten als JSON-Datei.</p>
+          <form method="POST" action="/api/dsgvo/export" className="mb-10">
+            <input type="hidden" name="token" value={token} />
+            <button
+              type="submit"
+              className={`${buttonClass} bg-[var(--primary-500)] text-[var(--accent-ink)] hover:bg-[var(--primary-400)]`}
+            >
+              Daten herunterladen
+            </button>
+          </form>
+
+          <h2 className="heading-section text-xl text-[var(--foreground)] mb-2">Löschung (Art. 17 DSGVO)</h2>
+          <p className="mb-4 text-[var(--foreground-muted)]">
+            Löscht alle Einträge zu dieser Adresse und trägt sie aus dem Newsletter aus. Ausgestellte
+            Workshop-Rechnungen muss ich zehn Jahre aufbewahren (§ 147 AO) — die zugehörige Anmeldung wird
+            anonymisiert, die Rechnung bleibt.
+          </p>
+          <form method="POST" action="/api/dsgvo/erase">
+            <input type="hidden" name="token" value={token} />
+            <label className="mb-4 flex items-start gap-2 text-[var(--foreground)]">
+              <input type="checkbox" name="confirm" required className="mt-1" />
+              <span>Ja, alle meine Daten endgültig löschen.</span>
+            </label>
+            <button
+              type="submit"
+              className={`${buttonClass} border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--surface)]`}
+            >
+              Daten löschen
+            </button>
+          </form>
+        </div>
+      </section>
+    </Layout>
+  );
+}
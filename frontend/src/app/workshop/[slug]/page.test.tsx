@@ -39,7 +39,7 @@ describe('WorkshopPage (/workshop/ki-souveraenitaet)', () => {
     expect(screen.getByText(/DSK-Kriterien/)).toBeInTheDocument();
   });
 
-  it('shows the not-bookable placeholder when termin is null', async () => {
+  it('shows the not-bookable notice with the Warteliste signup when termin is null', async () => {
     (getWorkshopBySlug as jest.Mock).mockResolvedValue({
       id: '00000000-0000-0000-0000-000000000001',
       slug: 'ki-souveraenitaet',
@@ -61,6 +61,38 @@ describe('WorkshopPage (/workshop/ki-souveraenitaet)', () => {
     const html = await WorkshopPage({ params });
     render(html);
     expect(screen.getByText(/Anmeldung aktuell nicht möglich/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Auf die Warteliste/ })).toBeInTheDocument();
+  });
+
+  it('shows the Warteliste instead of the form when sold out — unless an offer link was opened', async () => {
+    const soldOut = {
+      id: '00000000-0000-0000-0000-000000000001',
+      slug: 'ki-souveraenitaet',
+      title: 'KI-Souveränität im Mittelstand',
+      termin: new Date('2026-10-23T10:00:00Z'),
+      durationMin: 90,
+      priceNetEur: 99,
+      capacity: 5,
+      minBookedToRun: 3,
+      status: 'sold_out',
+      format: 'live_online',
+      locationLabel: 'live online',
+      recordingHint: true,
+      adminToken: 'hashed',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    (getWorkshopBySlug as jest.Mock).mockResolvedValue(soldOut);
+    const params = Promise.resolve({ slug: 'ki-souveraenitaet' });
+    const { unmount } = render(await WorkshopPage({ params }));
+    expect(screen.getByText(/Alle Plätze sind belegt/)).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: /Platz reservieren/ })).not.toBeInTheDocument();
+    unmount();
+
+    const searchParams = Promise.resolve({ warteliste: 'offer-token' });
+    render(await WorkshopPage({ params: Promise.resolve({ slug: 'ki-souveraenitaet' }), searchParams }));
+    expect(screen.getByRole('heading', { name: /Platz reservieren/ })).toBeInTheDocument();
+    expect(screen.getByText(/für Dich geblockt/)).toBeInTheDocument();
   });
 
   it('shows the form section when termin is set', async () => {
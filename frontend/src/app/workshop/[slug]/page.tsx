@@ -13,6 +13,7 @@ import {
   WorkshopFormPlaceholder,
 } from "@/components/workshop/WorkshopSections";
 import { WorkshopForm } from "@/components/workshop/WorkshopForm";
+import { WorkshopWaitlistForm } from "@/components/workshop/WorkshopWaitlistForm";
 import { workshopContent, KI_SOUVERAENITAET_SLUG } from "@/components/workshop/content";
 import { getWorkshopBySlug } from "@/lib/workshop/queries";
 
@@ -40,18 +41,29 @@ export async function generateMetadata({
  * Section order follows the buyer's questions, not the workshop's structure:
  * hook → facts at a glance → what do I get → how does it run → why trust you
  * → fine print → signup. The form is active only when the workshop has a
- * termin set (termin NULL = not bookable).
+ * termin set (termin NULL = not bookable); without a termin, or once sold
+ * out, the Warteliste signup takes its place. `?warteliste=` carries the
+ * offer token of a Warteliste reservation link into the form.
  */
 export default async function WorkshopPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ slug: string }>;
+  searchParams?: Promise<{ warteliste?: string }>;
 }) {
   const { slug } = await params;
   if (slug !== KI_SOUVERAENITAET_SLUG) notFound();
 
+  const { warteliste } = (await searchParams) ?? {};
   const workshop = await getWorkshopBySlug(slug);
-  const bookable = Boolean(workshop?.termin);
+  const waitlistReason = !workshop
+    ? null
+    : !workshop.termin
+      ? "no_termin"
+      : workshop.status === "sold_out" && !warteliste
+        ? "sold_out"
+        : null;
 
   return (
     <Layout>
@@ -62,7 +74,13 @@ export default async function WorkshopPage({
       <WorkshopDemarcation />
       <WorkshopAuthority />
       <WorkshopFramework />
-      {bookable ? <WorkshopForm slug={slug} /> : <WorkshopFormPlaceholder />}
+      {waitlistReason ? (
+        <WorkshopWaitlistForm slug={slug} reason={waitlistReason} />
+      ) : workshop?.termin ? (
+        <WorkshopForm slug={slug} waitlistToken={warteliste} />
+      ) : (
+        <WorkshopFormPlaceholder />
+      )}
       <WorkshopLegal />
     </Layout>
   );
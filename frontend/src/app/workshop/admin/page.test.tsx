@@ -0,0 +1,111 @@
+import { render, screen } from '@testing-library/react';
+import WorkshopAdminPage from './page';
+import { loadWorkshopOverview } from '@/lib/workshop/admin';
+
+jest.mock('@/lib/workshop/admin', () => ({
+  ...jest.requireActual('@/lib/workshop/admin'),
+  loadWorkshopOverview: jest.fn(),
+}));
+
+const mockNotFound = jest.fn(() => {
+  throw new Error('NEXT_NOT_FOUND');
+});
+jest.mock('next/navigation', () => ({
+  ...jest.requireActual('next/navigation'),
+  notFound: () => mockNotFound(),
+}));
+
+const WORKSHOP = {
+  id: '00000000-0000-0000-0000-000000000001',
+  slug: 'ki-souveraenitaet',
+  title: 'KI-Souveränität im Mittelstand',
+  termin: new Date('2026-10-23T10:00:00Z'),
+  durationMin: 90,
+  priceNetEur: 99,
+  capacity: 5,
+  minBookedToRun: 3,
+  status: 'scheduled',
+  format: 'live_online',
+  locationLabel: 'live online',
+  recordingHint: true,
+  adminToken: 'hashed',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const SUBMISSION = {
+  id: 'sub-1',
+  firstName: 'Max',
+  lastName: 'Mustermann',
+  email: 'max@firma.de',
+  company: 'Mustermann GmbH',
+  role: null,
+  secondPersonName: 'Anna Beispiel',
+  secondPersonEmail: 'anna@firma.de',
+  invoiceCompany: 'Mustermann GmbH',
+  invoiceContactName: 'Max Mustermann',
+  invoiceEmail: 'rechnung@firma.de',
+  invoiceStreet: 'Hauptstr. 1',
+  invoiceZip: '10115',
+  invoiceCity: 'Berlin',
+  invoiceCountry: 'Deutschland',
+  invoiceUstId: 'DE123456789',
+  isSmallBusiness: false,
+  paymentPreference: 'payment_link',
+  newsletterOptIn: true,
+  status: 'booked',
+  reservedAt: new Date('2026-09-01T08:30:00Z'),
+  bookedAt: new Date('2026-09-02T10:00:00Z'),
+  cancelledAt: null,
+};
+
+describe('WorkshopAdminPage (/workshop/admin)', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('404s on an unknown token', async () => {
+    (loadWorkshopOverview as jest.Mock).mockResolvedValue(null);
+    await expect(WorkshopAdminPage({ searchParams: Promise.resolve({ token: 'wrong' }) })).rejects.toThrow(
+      'NEXT_NOT_FOUND',
+    );
+  });
+
+  it('lists every submission with its status, invoice data and second person', async () => {
+    (loadWorkshopOverview as jest.Mock).mockResolvedValue({
+      workshop: WORKSHOP,
+      submissions: [SUBMISSION],
+      invoices: [],
+      freeSlots: 4,
+    });
+    render(await WorkshopAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(screen.getByRole('heading', { level: 1, name: /KI-Souveränität/ })).toBeInTheDocument();
+    expect(screen.getByText(/4 frei von 5/)).toBeInTheDocument();
+    expect(screen.getByText('gebucht')).toBeInTheDocument();
+    expect(screen.getByText('Anna Beispiel')).toBeInTheDocument();
+    expect(screen.getByText('rechnung@firma.de')).toBeInTheDocument();
+    expect(screen.getByText('Zahlung-Link')).toBeInTheDocument();
+  });
+
+  it('links the CSV export with the same token', async () => {
+    (loadWorkshopOverview as jest.Mock).mockResolvedValue({ workshop: WORKSHOP, submissions: [], invoices: [], freeSlots: 5 });
+    render(await WorkshopAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(screen.getByRole('link', { name: /CSV exportieren/ })).toHaveAttribute(
+      'href',
+      '/api/workshop/admin/export?token=tok',
+    );
+    expect(screen.getByText(/Noch keine Anmeldungen/)).toBeInTheDocument();
+  });
+
+  it('links the invoice PDF of a booked submission', async () => {
+    (loadWorkshopOverview as jest.Mock).mockResolvedValue({
+      workshop: WORKSHOP,
+      submissions: [SUBMISSION],
+      invoices: [{ submissionId: 'sub-1', invoiceNumber: 'WS-2026-0001' }],
+      freeSlots: 4,
+    });
+    render(await WorkshopAdminPage({ searchParams: Promise.resolve({ token: 'tok' }) }));
+    expect(screen.getByRole('link', { name: 'WS-2026-0001 (PDF)' })).toHaveAttribute(
+      'href',
+      '/api/workshop/admin/invoice?token=tok&submission=sub-1',
+    );
+  });
+});
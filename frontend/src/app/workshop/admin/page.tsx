@@ -0,0 +1,112 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Layout } from "@/components/Layout";
+import { formatTermin } from "@/components/workshop/WorkshopSections";
+import { OVERVIEW_COLUMNS, loadWorkshopOverview } from "@/lib/workshop/admin";
+
+// Reads live reservations behind a token — never prerender or cache it.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Workshop-Übersicht | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+  referrer: "no-referrer",
+};
+
+/**
+ * /workshop/admin?token= — the Übersichts-Seite (ADR-0001): every submission
+ * of one Workshop-Termin, plus free slots, a CSV export of the same rows and
+ * the PDF download of every issued Rechnung.
+ * Unknown token → 404, indistinguishable from a missing workshop.
+ */
+export default async function WorkshopAdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const overview = await loadWorkshopOverview(token);
+  if (!overview) notFound();
+
+  const { workshop, submissions, invoices, freeSlots } = overview;
+  const invoiceBySubmission = new Map(invoices.map((i) => [i.submissionId, i]));
+  const active = submissions.filter((s) => s.status !== "cancelled").length;
+  const booked = submissions.filter((s) => s.status === "booked").length;
+  const csvHref = `/api/workshop/admin/export?token=${encodeURIComponent(token!)}`;
+  const invoiceHref = (submissionId: string) =>
+    `/api/workshop/admin/invoice?token=${encodeURIComponent(token!)}&submission=${submissionId}`;
+
+  return (
+    <Layout>
+      <section aria-label="Workshop-Übersicht" className="py-10 md:py-12">
+        <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+          Übersicht · Daniel only
+        </p>
+        <h1 className="brand-display text-2xl md:text-3xl text-[var(--foreground)] mb-4">{workshop.title}</h1>
+        <ul className="mb-6 space-y-1 text-[var(--foreground-muted)]">
+          <li>Termin: {formatTermin(workshop)}</li>
+          <li>
+            Slots: {freeSlots} frei von {workshop.capacity} · {active} aktiv · {booked} gebucht (mind.{" "}
+            {workshop.minBookedToRun} zur Durchführung)
+          </li>
+          <li>Status: {workshop.status}</li>
+        </ul>
+        <a
+          href={csvHref}
+          className="inline-block rounded-lg border border-[var(--primary-500)] px-4 py-2 text-sm font-semibold text-[var(--primary-400)]"
+        >
+          CSV exportieren
+        </a>
+
+        {submissions.length === 0 ? (
+          <p className="mt-8 text-[var(--foreground-muted)]">Noch keine Anmeldungen.</p>
+        ) : (
+          <div className="mt-8 overflow-x-auto">
+            <table className="min-w-full border-collapse text-sm text-[var(--foreground-muted)]">
+              <thead>
+                <tr>
+                  {OVERVIEW_COLUMNS.map((c) => (
+                    <th
+                      key={c.label}
+                      scope="col"
+                      className="whitespace-nowrap border-b border-[var(--border)] px-3 py-2 text-left font-semibold text-[var(--foreground)]"
+                    >
+                      {c.label}
+                    </th>
+                  ))}
+                  <th
+                    scope="col"
+                    className="whitespace-nowrap border-b border-[var(--border)] px-3 py-2 text-left font-semibold text-[var(--foreground)]"
+                  >
+                    Rechnung
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {submissions.map((s) => {
+                  const invoice = invoiceBySubmission.get(s.id);
+                  return (
+                    <tr key={s.id}>
+                      {OVERVIEW_COLUMNS.map((c) => (
+                        <td key={c.label} className="whitespace-nowrap border-b border-[var(--border)] px-3 py-2">
+                          {c.value(s)}
+                        </td>
+                      ))}
+                      <td className="whitespace-nowrap border-b border-[var(--border)] px-3 py-2">
+                        {invoice && (
+                          <a href={invoiceHref(s.id)} className="font-semibold text-[var(--primary-400)]">
+                            {invoice.invoiceNumber} (PDF)
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </Layout>
+  );
+}
@@ -0,0 +1,69 @@
+import type { Metadata } from "next";
+import { Layout } from "@/components/Layout";
+
+export const metadata: Metadata = {
+  title: "Workshop-Aktion | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+};
+
+/** Copy per action outcome — keys match the `result` set by /api/workshop/action. */
+const MESSAGES: Record<string, { eyebrow: string; heading: string; body: string }> = {
+  booked: {
+    eyebrow: "Zahlung bestätigt",
+    heading: "Anmeldung ist gebucht.",
+    body: "Der Platz ist jetzt fix. Die Buchungs-Bestätigung mit Termin und Pre-Work ist raus, die Revenue-Konversion an TrackMySales gemeldet (falls die Anmeldung eine Tracking-ID hatte).",
+  },
+  cancelled: {
+    eyebrow: "Storniert",
+    heading: "Anmeldung ist storniert.",
+    body: "Der Slot ist wieder frei und kann neu reserviert werden. Die Anmeldende Person hat eine Storno-Bestätigung bekommen.",
+  },
+  already_booked: {
+    eyebrow: "Keine Änderung",
+    heading: "Diese Anmeldung ist bereits gebucht.",
+    body: "Der Link wurde schon verwendet. Es wurde nichts erneut ausgelöst.",
+  },
+  already_cancelled: {
+    eyebrow: "Keine Änderung",
+    heading: "Diese Anmeldung ist bereits storniert.",
+    body: "Der Link wurde schon verwendet. Es wurde nichts erneut ausgelöst.",
+  },
+  invalid: {
+    eyebrow: "Link ungültig",
+    heading: "Dieser Aktions-Link ist unbekannt.",
+    body: "Prüf, ob der Link vollständig aus der Admin-Mail kopiert wurde.",
+  },
+  error: {
+    eyebrow: "Fehler",
+    heading: "Die Aktion ist fehlgeschlagen.",
+    body: "Es wurde nichts geändert. Versuch es in ein paar Minuten noch einmal — die Details stehen im Server-Log.",
+  },
+};
+
+/**
+ * /workshop/aktion — confirmation page after a magic-link admin action
+ * (ADR-0001). Purely presentational: the transition already happened in
+ * GET /api/workshop/action, which redirects here with the outcome.
+ */
+export default async function WorkshopActionPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ result?: string }>;
+}) {
+  const { result } = await searchParams;
+  const message = MESSAGES[result ?? ""] ?? MESSAGES.invalid!;
+
+  return (
+    <Layout>
+      <section aria-label="Workshop-Aktion" className="py-16 md:py-24">
+        <div className="max-w-xl mx-auto text-center">
+          <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+            {message.eyebrow}
+          </p>
+          <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">{message.heading}</h1>
+          <p className="text-base md:text-lg text-[var(--foreground-muted)]">{message.body}</p>
+        </div>
+      </section>
+    </Layout>
+  );
+}
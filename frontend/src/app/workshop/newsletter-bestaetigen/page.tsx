@@ -0,0 +1,54 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Layout } from "@/components/Layout";
+import { confirmWorkshopNewsletter } from "@/lib/workshop/newsletter";
+
+// Confirmation mutates state — never prerender/prefetch-execute it.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Newsletter-Bestätigung | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+};
+
+/** /workshop/newsletter-bestaetigen?token= — target of the workshop newsletter DOI mail. */
+export default async function WorkshopNewsletterConfirmPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  let confirmed = false;
+  if (token) {
+    try {
+      const outcome = await confirmWorkshopNewsletter(token);
+      confirmed = outcome.status === "confirmed" || outcome.status === "already";
+    } catch {
+      confirmed = false;
+    }
+  }
+
+  return (
+    <Layout>
+      <section aria-label="Newsletter-Bestätigung" className="py-16 md:py-24">
+        <div className="max-w-xl mx-auto text-center">
+          <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+            {confirmed ? "Bestätigt" : "Bestätigung"}
+          </p>
+          <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">
+            {confirmed ? "Du bist dabei." : "Link ungültig"}
+          </h1>
+          <p className="text-base md:text-lg text-[var(--foreground-muted)]">
+            {confirmed
+              ? "Dein Newsletter-Abo ist bestätigt. Deine Workshop-Reservierung läuft davon unabhängig weiter."
+              : "Dieser Bestätigungslink ist ungültig. Deine Workshop-Reservierung ist davon nicht betroffen."}
+          </p>
+          <Link href="/" className="mt-8 inline-block font-semibold text-[var(--primary-400)]">
+            → Zur Startseite
+          </Link>
+        </div>
+      </section>
+    </Layout>
+  );
+}
@@ -0,0 +1,54 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Layout } from "@/components/Layout";
+import { confirmWaitlist } from "@/lib/workshop/waitlist";
+
+// Confirmation mutates state (and may send an offer) — never prerender it.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Warteliste-Bestätigung | Daniel Kreuzhofer",
+  robots: { index: false, follow: false },
+};
+
+/** /workshop/warteliste-bestaetigen?token= — target of the Warteliste DOI mail. */
+export default async function WorkshopWaitlistConfirmPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  let confirmed = false;
+  if (token) {
+    try {
+      const outcome = await confirmWaitlist(token);
+      confirmed = outcome.status === "confirmed" || outcome.status === "already";
+    } catch {
+      confirmed = false;
+    }
+  }
+
+  return (
+    <Layout>
+      <section aria-label="Warteliste-Bestätigung" className="py-16 md:py-24">
+        <div className="max-w-xl mx-auto text-center">
+          <p className="text-[var(--secondary-400)] text-xs font-bold tracking-[0.18em] uppercase mb-3">
+            {confirmed ? "Bestätigt" : "Bestätigung"}
+          </p>
+          <h1 className="brand-display text-3xl md:text-4xl text-[var(--foreground)] mb-5">
+            {confirmed ? "Du stehst auf der Warteliste." : "Link ungültig"}
+          </h1>
+          <p className="text-base md:text-lg text-[var(--foreground-muted)]">
+            {confirmed
+              ? "Sobald ein Platz frei wird oder der Termin feststeht, bekommst Du der Reihe nach einen Reservierungs-Link per Mail."
+              : "Dieser Bestätigungslink ist ungültig oder abgelaufen. Trag Dich auf der Workshop-Seite einfach noch einmal ein."}
+          </p>
+          <Link href="/" className="mt-8 inline-block font-semibold text-[var(--primary-400)]">
+            → Zur Startseite
+          </Link>
+        </div>
+      </section>
+    </Layout>
+  );
+}
@@ -294,6 +294,17 @@ describe('ProjectCard', () => {
     expect(button).toHaveAttribute('aria-label', 'Project: Semantic Search Engine');
   });
 
+  it('is addressable by a project anchor', () => {
+    const { container } = render(
+      <ProjectCard
+        project={sampleProject}
+        isExpanded={false}
+        onToggle={jest.fn()}
+      />
+    );
+    expect(container.querySelector('#project-proj-1')).toBeInTheDocument();
+  });
+
   it('has aria-expanded false when collapsed', () => {
     const onToggle = jest.fn();
     render(
@@ -360,20 +360,22 @@ export interface ProjectCardProps {
  */
 export function ProjectCard({ project, isExpanded, onToggle }: ProjectCardProps) {
   return (
-    <Expandable
-      id={project.id}
-      isExpanded={isExpanded}
-      onToggle={onToggle}
-      summaryContent={
-        <ProjectSummary project={project} isExpanded={isExpanded} />
-      }
-      depthContent={
-        <ProjectDepth depth={project.depth} />
-      }
-      ariaLabel={`Project: ${project.title}`}
-      className="border border-[var(--border)] bg-[var(--surface)] rounded-lg overflow-hidden mb-4 last:mb-0 hover:shadow-lg hover:-translate-y-0.5 transition-all duration-200"
-      buttonClassName="hover:bg-[var(--surface-elevated)]"
-    />
+    <div id={`project-${project.id}`}>
+      <Expandable
+        id={project.id}
+        isExpanded={isExpanded}
+        onToggle={onToggle}
+        summaryContent={
+          <ProjectSummary project={project} isExpanded={isExpanded} />
+        }
+        depthContent={
+          <ProjectDepth depth={project.depth} />
+        }
+        ariaLabel={`Project: ${project.title}`}
+        className="border border-[var(--border)] bg-[var(--surface)] rounded-lg overflow-hidden mb-4 last:mb-0 hover:shadow-lg hover:-translate-y-0.5 transition-all duration-200"
+        buttonClassName="hover:bg-[var(--surface-elevated)]"
+      />
+    </div>
   );
 }
 
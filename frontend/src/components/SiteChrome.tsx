@@ -0,0 +1,12 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { isEmbedPath } from "@/lib/scorecard/embed";
+
+/**
+ * Site-wide chrome (footer, chat) from the root layout — left out of the
+ * scorecard embeds, which live inside a partner's page.
+ */
+export function SiteChrome({ children }: { children: React.ReactNode }) {
+  return isEmbedPath(usePathname()) ? null : <>{children}</>;
+}
@@ -1,7 +1,7 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { ChatMessage } from './ChatMessage';
-import type { ChatMessage as ChatMessageType } from '@/types/chat';
+import type { ChatMessage as ChatMessageType, ChatToolCall } from '@/types/chat';
 
 /**
  * Unit tests for ChatMessage component
@@ -152,6 +152,95 @@ describe('ChatMessage', () => {
     });
   });
 
+  describe('Sources', () => {
+    const sources = [
+      { type: 'experience' as const, title: 'Experience: Architect at Example Corp', href: '/about#experience-example' },
+      { type: 'blog' as const, title: 'Blog: Shipping RAG', href: '/blog/shipping-rag' },
+    ];
+
+    it('links each source of a completed answer to its page', () => {
+      render(<ChatMessage message={createMessage({ role: 'assistant', sources })} />);
+
+      const nav = screen.getByRole('navigation', { name: 'Sources' });
+      expect(nav).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: 'Experience: Architect at Example Corp' })).toHaveAttribute(
+        'href',
+        '/about#experience-example'
+      );
+      expect(screen.getByRole('link', { name: 'Blog: Shipping RAG' })).toHaveAttribute('href', '/blog/shipping-rag');
+    });
+
+    it('waits until the answer has finished streaming', () => {
+      render(<ChatMessage message={createMessage({ role: 'assistant', status: 'streaming', sources })} />);
+      expect(screen.queryByTestId('message-sources')).not.toBeInTheDocument();
+    });
+
+    it('shows nothing without sources', () => {
+      render(<ChatMessage message={createMessage({ role: 'assistant', sources: [] })} />);
+      expect(screen.queryByTestId('message-sources')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Tool Cards', () => {
+    const toolCalls: ChatToolCall[] = [
+      {
+        tool: 'analyze_fit',
+        card: {
+          kind: 'fit_analysis',
+          confidence: 'strong_match',
+          summary: 'A strong fit for the role.',
+          alignments: ['AWS architecture'],
+          gaps: ['Kubernetes'],
+          href: '/fit-analysis',
+        },
+      },
+      {
+        tool: 'get_skill',
+        card: {
+          kind: 'skill',
+          name: 'Amazon Bedrock',
+          tier: 'core_strength',
+          category: 'AI & GenAI',
+          context: 'Primary AI platform',
+          yearsOfExperience: 3,
+          evidence: ['AWS Senior AI Solutions Architect'],
+          href: '/transparency',
+        },
+      },
+      {
+        tool: 'recommend_scorecard',
+        card: { kind: 'scorecard', title: 'DSGVO-Check', description: '8 Fragen', href: '/dsgvo-check' },
+      },
+      {
+        tool: 'offer_booking',
+        card: { kind: 'booking', title: 'Book a call', description: '30 minutes', href: 'https://calendly.com/x/30min' },
+      },
+      {
+        tool: 'get_skill',
+        card: { kind: 'notice', message: "\"COBOL\" isn't rated.", href: '/transparency', linkLabel: 'See all skills' },
+      },
+    ];
+
+    it('renders a card for each tool the answer called', () => {
+      render(<ChatMessage message={createMessage({ role: 'assistant', status: 'streaming', toolCalls })} />);
+
+      const fit = screen.getByTestId('tool-card-fit_analysis');
+      expect(fit).toHaveTextContent('Strong Match');
+      expect(fit).toHaveTextContent('AWS architecture');
+      expect(fit).toHaveTextContent('Kubernetes');
+      expect(screen.getByTestId('tool-card-skill')).toHaveTextContent('Core strength');
+      expect(screen.getByTestId('tool-card-skill')).toHaveTextContent('3 years');
+      expect(screen.getByRole('link', { name: 'Start the check' })).toHaveAttribute('href', '/dsgvo-check');
+      expect(screen.getByRole('link', { name: 'Pick a time' })).toHaveAttribute('target', '_blank');
+      expect(screen.getByRole('link', { name: 'See all skills' })).toHaveAttribute('href', '/transparency');
+    });
+
+    it('shows nothing for user messages', () => {
+      render(<ChatMessage message={createMessage({ toolCalls })} />);
+      expect(screen.queryByTestId('message-tool-cards')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Error State', () => {
     it('shows error section when status is error and onRetry provided', () => {
       const message = createMessage({ status: 'error' });
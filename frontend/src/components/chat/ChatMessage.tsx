@@ -1,8 +1,10 @@
 'use client';
 
 import React from 'react';
+import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
 import type { ChatMessage as ChatMessageType, MessageRole } from '@/types/chat';
+import { ChatToolCard } from './ChatToolCard';
 
 /**
  * Props for the ChatMessage component
@@ -12,6 +14,8 @@ export interface ChatMessageProps {
   message: ChatMessageType;
   /** Callback to retry sending a failed message */
   onRetry?: () => void;
+  /** Hide the time (server-rendered transcripts: it would be the server's time zone) */
+  hideTimestamp?: boolean;
 }
 
 /**
@@ -69,6 +73,8 @@ const formatTimestamp = (date: Date): string => {
  * - Displays message content with role-based styling (user/assistant/system)
  * - Shows timestamp for each message
  * - Handles streaming state with cursor animation for partial content
+ * - Shows the site features an answer called (fit analysis, checks, skills, booking) as cards
+ * - Lists the knowledge sections an answer drew on as links to their pages
  * - Handles error state with retry button
  *
  * **Validates: Requirements 3.4, 6.4**
@@ -89,10 +95,12 @@ const formatTimestamp = (date: Date): string => {
  * />
  * ```
  */
-export function ChatMessage({ message, onRetry }: ChatMessageProps) {
+export function ChatMessage({ message, onRetry, hideTimestamp = false }: ChatMessageProps) {
   const styles = getMessageStyles(message.role);
   const isError = message.status === 'error';
   const isStreaming = message.status === 'streaming';
+  const sources = message.role === 'assistant' && !isStreaming ? message.sources ?? [] : [];
+  const toolCalls = message.role === 'assistant' ? message.toolCalls ?? [] : [];
 
   return (
     <div
@@ -170,13 +178,47 @@ export function ChatMessage({ message, onRetry }: ChatMessageProps) {
           )}
         </div>
 
+        {/* Cards for the tools the answer called */}
+        {toolCalls.length > 0 && (
+          <div data-testid="message-tool-cards">
+            {toolCalls.map((call, index) => (
+              <ChatToolCard key={`${call.tool}-${index}`} card={call.card} />
+            ))}
+          </div>
+        )}
+
+        {/* Sources the answer drew on */}
+        {sources.length > 0 && (
+          <nav
+            aria-label="Sources"
+            className="mt-2 pt-2 border-t border-[var(--border)]"
+            data-testid="message-sources"
+          >
+            <p className="text-xs text-[var(--foreground-subtle)] mb-1">Sources</p>
+            <ul className="flex flex-wrap gap-1.5 m-0 p-0 list-none">
+              {sources.map((source) => (
+                <li key={source.href}>
+                  <Link
+                    href={source.href}
+                    className="inline-block px-2 py-0.5 text-xs rounded-full border border-[var(--border)] text-[var(--primary-400)] hover:bg-[var(--surface)] transition-colors duration-150"
+                  >
+                    {source.title}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+
         {/* Timestamp */}
-        <p
-          className={`${styles.timestamp} text-xs mt-1`}
-          data-testid="message-timestamp"
-        >
-          {formatTimestamp(message.timestamp)}
-        </p>
+        {!hideTimestamp && (
+          <p
+            className={`${styles.timestamp} text-xs mt-1`}
+            data-testid="message-timestamp"
+          >
+            {formatTimestamp(message.timestamp)}
+          </p>
+        )}
 
         {/* Error state with retry button */}
         {isError && onRetry && (
@@ -0,0 +1,131 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import type { ChatToolCard as ChatToolCardType } from '@/types/chat';
+import { CONFIDENCE_DISPLAY } from '@/types/fit-analysis';
+import type { SkillTier } from '@/types/transparency-dashboard';
+
+/**
+ * Props for the ChatToolCard component
+ */
+export interface ChatToolCardProps {
+  /** Result of a tool the model called */
+  card: ChatToolCardType;
+}
+
+const TIER_LABELS: Record<SkillTier, string> = {
+  core_strength: 'Core strength',
+  working_knowledge: 'Working knowledge',
+  explicit_gap: 'Explicit gap',
+};
+
+const CARD_CLASS = 'mt-2 p-3 rounded-xl border border-[var(--border)] bg-[var(--surface)] text-sm';
+const LINK_CLASS = 'inline-block mt-2 text-xs font-medium text-[var(--primary-400)] hover:underline';
+const BADGE_CLASS = 'inline-block px-2 py-0.5 text-xs rounded-full border border-[var(--border)] text-[var(--foreground-muted)]';
+
+/**
+ * Titled list of short items (alignments, gaps, evidence)
+ */
+function CardList({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="mt-2">
+      <p className="text-xs text-[var(--foreground-subtle)] m-0 mb-1">{label}</p>
+      <ul className="m-0 pl-4 list-disc">
+        {items.map((item, index) => (
+          <li key={index} className="m-0">{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * ChatToolCard component - renders the result of a chat tool call under the
+ * answer: a condensed fit analysis, a recommended scorecard, a skill from the
+ * transparency dashboard, the booking link, or a notice when the tool could
+ * not deliver. Each card links to the full feature.
+ */
+export function ChatToolCard({ card }: ChatToolCardProps) {
+  switch (card.kind) {
+    case 'fit_analysis':
+      return (
+        <section className={CARD_CLASS} aria-label="Fit analysis" data-testid="tool-card-fit_analysis">
+          <p className="text-xs text-[var(--foreground-subtle)] m-0">Fit analysis</p>
+          <h4 className="text-sm font-semibold m-0 mt-1">{CONFIDENCE_DISPLAY[card.confidence].label}</h4>
+          <p className="m-0 mt-1 text-[var(--foreground-muted)]">{card.summary}</p>
+          <CardList label="Strongest alignments" items={card.alignments} />
+          <CardList label="Gaps" items={card.gaps} />
+          <Link href={card.href} className={LINK_CLASS}>
+            Run the detailed analysis
+          </Link>
+        </section>
+      );
+
+    case 'scorecard':
+      return (
+        <section className={CARD_CLASS} aria-label="Recommended check" data-testid="tool-card-scorecard">
+          <p className="text-xs text-[var(--foreground-subtle)] m-0">Recommended check</p>
+          <h4 className="text-sm font-semibold m-0 mt-1">{card.title}</h4>
+          <p className="m-0 mt-1 text-[var(--foreground-muted)]">{card.description}</p>
+          <Link href={card.href} className={LINK_CLASS}>
+            Start the check
+          </Link>
+        </section>
+      );
+
+    case 'skill':
+      return (
+        <section className={CARD_CLASS} aria-label={`Skill: ${card.name}`} data-testid="tool-card-skill">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="text-sm font-semibold m-0">{card.name}</h4>
+            <span className={BADGE_CLASS}>{TIER_LABELS[card.tier]}</span>
+            {card.yearsOfExperience !== undefined && (
+              <span className={BADGE_CLASS}>
+                {card.yearsOfExperience} {card.yearsOfExperience === 1 ? 'year' : 'years'}
+              </span>
+            )}
+          </div>
+          {card.category && (
+            <p className="text-xs text-[var(--foreground-subtle)] m-0 mt-1">{card.category}</p>
+          )}
+          <p className="m-0 mt-1 text-[var(--foreground-muted)]">{card.context}</p>
+          <CardList label="Evidence" items={card.evidence} />
+          <Link href={card.href} className={LINK_CLASS}>
+            See the transparency dashboard
+          </Link>
+        </section>
+      );
+
+    case 'booking':
+      return (
+        <section className={CARD_CLASS} aria-label="Book a call" data-testid="tool-card-booking">
+          <h4 className="text-sm font-semibold m-0">{card.title}</h4>
+          <p className="m-0 mt-1 text-[var(--foreground-muted)]">{card.description}</p>
+          <a
+            href={card.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block mt-2 px-3 py-1.5 rounded-lg bg-[var(--primary-600)] text-[var(--foreground)] text-xs font-medium hover:bg-[var(--primary-500)] transition-colors duration-150"
+          >
+            Pick a time
+          </a>
+        </section>
+      );
+
+    case 'notice':
+      return (
+        <section className={CARD_CLASS} role="note" data-testid="tool-card-notice">
+          <p className="m-0 text-[var(--foreground-muted)]">{card.message}</p>
+          {card.href && (
+            <Link href={card.href} className={LINK_CLASS}>
+              {card.linkLabel ?? 'Learn more'}
+            </Link>
+          )}
+        </section>
+      );
+  }
+}
+
+export default ChatToolCard;
@@ -8,6 +8,7 @@
  * - ChatTriggerButton for opening the chat
  * - ChatPanel with full chat interface
  * - Suggestion chips for conversation starters and follow-ups
+ * - Share action that copies a read-only link to the conversation
  *
  * **Validates: Requirements 1.1**
  * - 1.1: Chat trigger button visible and accessible on portfolio page
@@ -34,6 +35,7 @@ function ChatUI() {
     sendMessage,
     clearConversation,
     retryLastMessage,
+    shareConversation,
   } = useChat();
 
   // Track if panel should be rendered (stays true during exit animation)
@@ -93,6 +95,7 @@ function ChatUI() {
           onSendMessage={sendMessage}
           onClearConversation={clearConversation}
           onRetry={retryLastMessage}
+          onShare={shareConversation}
         />
       )}
     </>
@@ -118,6 +121,7 @@ interface ChatPanelWithContentProps {
   onSendMessage: (content: string) => Promise<void>;
   onClearConversation: () => void;
   onRetry: () => Promise<void>;
+  onShare: () => Promise<string | null>;
 }
 
 /**
@@ -142,12 +146,17 @@ function ChatPanelWithContent({
   onSendMessage,
   onClearConversation,
   onRetry,
+  onShare,
 }: ChatPanelWithContentProps) {
   const panelRef = React.useRef<HTMLDivElement>(null);
   const closeButtonRef = React.useRef<HTMLButtonElement>(null);
   const previousActiveElement = React.useRef<HTMLElement | null>(null);
   const [isMobile, setIsMobile] = React.useState(false);
   const [followUpSuggestions, setFollowUpSuggestions] = React.useState<string[]>([]);
+  const [shareState, setShareState] = React.useState<
+    { status: 'idle' | 'sharing' | 'failed' } | { status: 'shared'; url: string; copied: boolean }
+  >({ status: 'idle' });
+  const hasQuestion = messages.some((m) => m.role === 'user' && m.status === 'complete');
 
   // Detect mobile viewport
   React.useEffect(() => {
@@ -190,6 +199,33 @@ function ChatPanelWithContent({
     [onSendMessage]
   );
 
+  /**
+   * Share the conversation and copy its link (shown for manual copying when
+   * the clipboard is unavailable)
+   */
+  const handleShare = React.useCallback(async () => {
+    setShareState({ status: 'sharing' });
+    const url = await onShare();
+    if (!url) {
+      setShareState({ status: 'failed' });
+      return;
+    }
+    let copied = false;
+    try {
+      await navigator.clipboard.writeText(url);
+      copied = true;
+    } catch {
+      // No clipboard access (permissions, insecure context)
+    }
+    setShareState({ status: 'shared', url, copied });
+  }, [onShare]);
+
+  // A new conversation has its own link
+  const handleClearConversation = React.useCallback(() => {
+    setShareState({ status: 'idle' });
+    onClearConversation();
+  }, [onClearConversation]);
+
   /**
    * Handle Escape key to close the panel
    */
@@ -297,10 +333,41 @@ function ChatPanelWithContent({
           </h2>
 
           <div className="flex items-center gap-2">
+            {/* Share Button */}
+            <button
+              type="button"
+              onClick={handleShare}
+              disabled={!hasQuestion || isLoading || shareState.status === 'sharing'}
+              className={`
+                p-2 rounded-md
+                text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface-elevated)]
+                focus:outline-none focus:ring-2 focus:ring-[var(--primary-500)] focus:ring-offset-1 focus:ring-offset-[var(--surface)]
+                disabled:opacity-40 disabled:cursor-not-allowed
+                transition-colors duration-150
+              `}
+              aria-label="Share this conversation"
+              data-testid="chat-share-button"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                />
+              </svg>
+            </button>
+
             {/* New Chat Button */}
             <button
               type="button"
-              onClick={onClearConversation}
+              onClick={handleClearConversation}
               className={`
                 p-2 rounded-md
                 text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface-elevated)]
@@ -358,6 +425,41 @@ function ChatPanelWithContent({
           </div>
         </header>
 
+        {/* Share status */}
+        {shareState.status === 'failed' && (
+          <p
+            className="m-0 px-4 py-2 border-b border-[var(--border)] text-xs text-[var(--foreground-muted)] flex-shrink-0"
+            role="status"
+            data-testid="chat-share-status"
+          >
+            Sharing isn&apos;t available right now.
+          </p>
+        )}
+        {shareState.status === 'shared' && (
+          <div
+            className="px-4 py-2 border-b border-[var(--border)] text-xs text-[var(--foreground-muted)] flex-shrink-0"
+            role="status"
+            data-testid="chat-share-status"
+          >
+            <p className="m-0 mb-1">
+              {shareState.copied ? 'Link copied.' : 'Copy this link:'} Anyone with it can read
+              this conversation; it stays in sync as you continue and is deleted after 30 days
+              without activity.
+            </p>
+            {!shareState.copied && (
+              <input
+                type="text"
+                readOnly
+                value={shareState.url}
+                onFocus={(event) => event.currentTarget.select()}
+                className="w-full px-2 py-1 rounded border border-[var(--border)] bg-[var(--surface-elevated)] text-[var(--foreground)]"
+                aria-label="Share link"
+                data-testid="chat-share-link"
+              />
+            )}
+          </div>
+        )}
+
         {/* Message List */}
         <MessageList
           messages={messages.filter(m => m.role !== 'system')}
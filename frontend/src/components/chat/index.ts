@@ -8,6 +8,7 @@ export { ChatTriggerButton } from './ChatTriggerButton';
 export { ChatPanel } from './ChatPanel';
 export { MessageList } from './MessageList';
 export { ChatMessage } from './ChatMessage';
+export { ChatToolCard } from './ChatToolCard';
 export { ChatInput } from './ChatInput';
 export { ChatWrapper } from './ChatWrapper';
 export { SuggestionChips } from './SuggestionChips';
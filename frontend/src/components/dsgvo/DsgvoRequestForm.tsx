@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+import { validateDsgvoRequest } from '@/lib/dsgvo/validation';
+
+/**
+ * /meine-daten request form — one email field. The success state is the same
+ * whether or not anything is stored for the address (lib/dsgvo).
+ */
+export function DsgvoRequestForm() {
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const validation = validateDsgvoRequest({ email });
+    if (!validation.ok) {
+      setError(validation.errors.email ?? 'Ungültige E-Mail-Adresse');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/dsgvo/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validation.data),
+      });
+      const data = await res.json();
+      if (data.ok) {
+        setSubmitted(true);
+      } else {
+        const codeMessages: Record<string, string> = {
+          RATE_LIMITED: 'Zu viele Anfragen. Bitte versuche es später erneut.',
+          NOT_CONFIGURED: 'Die Selbstauskunft ist noch nicht aktiviert. Schreib mir an daniel@kreuzhofer.de.',
+          INTERNAL_ERROR: 'Ein Fehler ist aufgetreten. Bitte versuche es erneut.',
+        };
+        setError(codeMessages[data.code] ?? 'Ein Fehler ist aufgetreten.');
+      }
+    } catch {
+      setError('Netzwerkfehler. Bitte versuche es erneut.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (submitted) {
+    return (
+      <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] px-5 py-4">
+        <p className="font-semibold text-[var(--foreground)] mb-1">Schau in Dein Postfach.</p>
+        <p className="text-[var(--foreground-muted)]">
+          Wenn zu dieser Adresse Daten gespeichert sind, bekommst Du in wenigen Minuten einen Link. Er gilt eine Stunde.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-lg border border-[var(--primary-500)] bg-[var(--primary-500)]/10 px-4 py-3 text-[var(--foreground)]">
+          {error}
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-semibold text-[var(--foreground)] mb-1" htmlFor="dsgvoEmail">
+          E-Mail-Adresse
+        </label>
+        <input
+          id="dsgvoEmail"
+          type="email"
+          className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary-500)]"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={submitting}
+        className="inline-flex items-center justify-center font-medium rounded-lg bg-[var(--primary-500)] text-[var(--accent-ink)] hover:bg-[var(--primary-400)] px-6 py-3 min-h-[48px] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+      >
+        {submitting ? 'Wird gesendet…' : 'Link anfordern'}
+      </button>
+    </form>
+  );
+}
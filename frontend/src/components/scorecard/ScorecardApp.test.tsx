@@ -2,14 +2,29 @@ import { render, screen, fireEvent, within } from "@testing-library/react";
 import type { ComponentType } from "react";
 import { ScorecardApp } from "./ScorecardApp";
 import { SAMPLE_REGISTRATION } from "@/lib/scorecard/__fixtures__/sample-registration";
+import { SAMPLE_TRANSLATION_EN } from "@/lib/scorecard/__fixtures__/sample-translation-en";
 import type { ScorecardRegistration } from "@/lib/scorecard/registry";
 import type { ScorecardResultViewProps } from "@/lib/scorecard/registry";
+import { postToHost } from "@/lib/scorecard/embed";
+
+jest.mock("@/lib/scorecard/embed", () => ({ postToHost: jest.fn() }));
+
+let fetchMock: jest.Mock;
 
 beforeEach(() => {
   sessionStorage.clear();
+  document.cookie = "sc_exp_sample=; Max-Age=0; Path=/";
+  jest.mocked(postToHost).mockClear();
   window.history.replaceState({}, "", "/sample");
+  fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ ok: true }) });
+  global.fetch = fetchMock as never;
 });
 
+/** Parsed JSON bodies of the POSTs to `url`. */
+function postedTo(url: string): Record<string, unknown>[] {
+  return fetchMock.mock.calls.filter(([u]) => u === url).map(([, init]) => JSON.parse(init.body));
+}
+
 /** Click "start", then take the first option of each question. */
 function completeQuiz() {
   fireEvent.click(screen.getByRole("button", { name: "Check starten" }));
@@ -67,6 +82,22 @@ const MULTI_REGISTRATION: ScorecardRegistration = {
   },
 };
 
+/** SAMPLE with S2 only asked of GFs (K1 = "gf"). */
+const BRANCHING_REGISTRATION: ScorecardRegistration = {
+  ...SAMPLE_REGISTRATION,
+  definition: {
+    ...SAMPLE_REGISTRATION.definition,
+    slug: "branching-test",
+    questions: SAMPLE_REGISTRATION.definition.questions.map((q) =>
+      q.id === "S2" ? { ...q, showIf: [{ answer: "K1", in: ["gf"] }] } : q,
+    ),
+  },
+};
+
+function pick(label: string) {
+  fireEvent.click(within(screen.getByRole("radiogroup")).getByRole("radio", { name: label }));
+}
+
 describe("ScorecardApp", () => {
   it("runs intro → quiz → result and shows the outcome + opt-in", () => {
     render(<ScorecardApp registration={SAMPLE_REGISTRATION} />);
@@ -78,11 +109,6 @@ describe("ScorecardApp", () => {
   });
 
   it("submits the opt-in to /api/scorecard/<slug>/submit and shows success", async () => {
-    const fetchMock = jest
-      .fn()
-      .mockResolvedValue({ ok: true, json: async () => ({ ok: true }) });
-    global.fetch = fetchMock as never;
-
     render(<ScorecardApp registration={SAMPLE_REGISTRATION} />);
     completeQuiz();
     fireEvent.change(screen.getByLabelText("E-Mail-Adresse"), { target: { value: "a@b.de" } });
@@ -93,9 +119,108 @@ describe("ScorecardApp", () => {
       "/api/scorecard/sample/submit",
       expect.objectContaining({ method: "POST" }),
     );
-    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
-    expect(body.email).toBe("a@b.de");
-    expect(body.answers.S1).toBe("daily");
+    const [body] = postedTo("/api/scorecard/sample/submit");
+    expect(body!.email).toBe("a@b.de");
+    expect((body!.answers as Record<string, string>).S1).toBe("daily");
+  });
+
+  it("pings every funnel step once per session, questions by index", () => {
+    render(<ScorecardApp registration={SAMPLE_REGISTRATION} />);
+    completeQuiz();
+    fireEvent.click(screen.getByRole("button", { name: "Neu starten" }));
+    completeQuiz();
+    expect(postedTo("/api/scorecard/sample/step")).toEqual([
+      { step: "view" },
+      { step: "start" },
+      ...SAMPLE_REGISTRATION.definition.questions.map((_, question) => ({ step: "question", question })),
+      { step: "finish" },
+    ]);
+  });
+
+  it("pings only the questions that were shown", () => {
+    render(<ScorecardApp registration={BRANCHING_REGISTRATION} />);
+    fireEvent.click(screen.getByRole("button", { name: "Check starten" }));
+    pick("Team");
+    pick("50–250");
+    pick("Täglich");
+    const reached = postedTo("/api/scorecard/branching-test/step").flatMap((b) =>
+      b.step === "question" ? [b.question] : [],
+    );
+    expect(reached).toEqual([0, 1, 2]);
+  });
+
+  const experimentRegistration: ScorecardRegistration = {
+    ...SAMPLE_REGISTRATION,
+    experiment: {
+      id: "optin-copy",
+      variants: [{ id: "control" }, { id: "kurz", content: { optin: { button: "Jetzt holen" } } }],
+    },
+  };
+
+  it("shows the assigned A/B variant's copy, keeps it in a cookie once agreed and sends it along", async () => {
+    render(<ScorecardApp registration={experimentRegistration} variantId="kurz" />);
+    expect(document.cookie).toBe("");
+    fireEvent.click(screen.getByRole("button", { name: "Ja, merken" }));
+    expect(document.cookie).toContain("sc_exp_sample=optin-copy.kurz");
+    expect(screen.queryByRole("button", { name: "Ja, merken" })).not.toBeInTheDocument();
+    completeQuiz();
+    fireEvent.change(screen.getByLabelText("E-Mail-Adresse"), { target: { value: "a@b.de" } });
+    fireEvent.click(screen.getByRole("button", { name: "Jetzt holen" }));
+
+    await screen.findByText(/schau in Dein Postfach/);
+    expect(postedTo("/api/scorecard/sample/submit")[0]).toMatchObject({ variant: "kurz" });
+    expect(postedTo("/api/scorecard/sample/step")).toContainEqual({ step: "finish", variant: "kurz" });
+  });
+
+  it("sets no assignment cookie when the visitor declines, and does not ask again once stored", () => {
+    const { unmount } = render(<ScorecardApp registration={experimentRegistration} variantId="kurz" />);
+    fireEvent.click(screen.getByRole("button", { name: "Nein, danke" }));
+    expect(document.cookie).toBe("");
+    expect(screen.queryByRole("button", { name: "Ja, merken" })).not.toBeInTheDocument();
+    unmount();
+
+    render(<ScorecardApp registration={experimentRegistration} variantId="kurz" variantStored />);
+    expect(screen.queryByRole("button", { name: "Ja, merken" })).not.toBeInTheDocument();
+  });
+
+  it("embedded: reports size and milestones to the host page and sends the partner", async () => {
+    render(<ScorecardApp registration={SAMPLE_REGISTRATION} embed={{ partner: "kanzlei-x" }} />);
+    expect(postToHost).toHaveBeenCalledWith("sample", expect.objectContaining({ type: "resize" }));
+    expect(screen.getByRole("link", { name: "Datenschutz" })).toHaveAttribute("target", "_blank");
+
+    completeQuiz();
+    expect(postToHost).toHaveBeenCalledWith("sample", { type: "start" });
+    expect(postToHost).toHaveBeenCalledWith("sample", { type: "complete", outcome: "vorbild" });
+
+    fireEvent.change(screen.getByLabelText("E-Mail-Adresse"), { target: { value: "a@b.de" } });
+    fireEvent.click(screen.getByRole("button", { name: "Toolkit anfordern" }));
+    await screen.findByText(/schau in Dein Postfach/);
+    expect(postedTo("/api/scorecard/sample/submit")[0]).toMatchObject({ partner: "kanzlei-x" });
+    expect(postToHost).toHaveBeenCalledWith("sample", { type: "submitted" });
+  });
+
+  it("in English: shows the translation and the English UI, and sends the locale", async () => {
+    const registration = { ...SAMPLE_REGISTRATION, translations: { en: SAMPLE_TRANSLATION_EN } };
+    render(<ScorecardApp registration={registration} locale="en" />);
+    fireEvent.click(screen.getByRole("button", { name: "Start the check" }));
+    expect(screen.getByRole("heading", { name: "Role?" })).toBeInTheDocument();
+    expect(screen.getByText(/Question 1/)).toBeInTheDocument();
+    for (let i = 0; i < registration.definition.questions.length; i++) {
+      fireEvent.click(within(screen.getByRole("radiogroup")).getAllByRole("radio")[0]);
+    }
+    expect(screen.getByRole("heading", { name: /Role model/ })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Start over" })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Email address"), { target: { value: "a@b.de" } });
+    fireEvent.click(screen.getByRole("button", { name: "Get the toolkit" }));
+    await screen.findByText(/check your inbox/);
+    expect(postedTo("/api/scorecard/sample/submit")[0]).toMatchObject({ locale: "en" });
+  });
+
+  it("does not talk to a host page outside embed mode", () => {
+    render(<ScorecardApp registration={SAMPLE_REGISTRATION} />);
+    completeQuiz();
+    expect(postToHost).not.toHaveBeenCalled();
   });
 
   it("multi-select toggles options and advances only via Weiter", () => {
@@ -142,6 +267,33 @@ describe("ScorecardApp", () => {
     expect(screen.queryByText(/Mehrfachauswahl möglich/i)).not.toBeInTheDocument();
   });
 
+  it("skips questions hidden by showIf and counts progress over the shown ones", () => {
+    render(<ScorecardApp registration={BRANCHING_REGISTRATION} />);
+    fireEvent.click(screen.getByRole("button", { name: "Check starten" }));
+    expect(screen.getByText(/Frage 1/).textContent).toBe("Frage 1 / 4");
+
+    pick("Team");
+    expect(screen.getByText(/Frage 2/).textContent).toBe("Frage 2 / 3");
+    pick("50–250");
+    pick("Täglich");
+    // S2 hidden → straight to the result: 3 of 3 attainable points → vorbild
+    expect(screen.getByRole("heading", { name: /Vorbild/ })).toBeInTheDocument();
+
+    // Back from the result lands on the last SHOWN question
+    fireEvent.click(screen.getByRole("button", { name: "← Antworten ändern" }));
+    expect(screen.getByText("Eigennutzung?")).toBeInTheDocument();
+  });
+
+  it("asks a showIf question once its condition holds", () => {
+    render(<ScorecardApp registration={BRANCHING_REGISTRATION} />);
+    fireEvent.click(screen.getByRole("button", { name: "Check starten" }));
+    pick("GF");
+    pick("50–250");
+    pick("Täglich");
+    expect(screen.getByText("Sichtbarkeit?")).toBeInTheDocument();
+    expect(screen.getByText(/Frage 4/).textContent).toBe("Frage 4 / 4");
+  });
+
   it("renders registration.ResultView at result phase", () => {
     const CustomResultView: ComponentType<ScorecardResultViewProps> = () => (
       <div data-testid="custom-result" />
@@ -1,11 +1,16 @@
 "use client";
 
-import { useEffect, useMemo, useReducer, useState } from "react";
+import { useEffect, useMemo, useReducer, useRef, useState } from "react";
 import Link from "next/link";
 import { resolveResult } from "@/lib/scorecard/result";
 import { buildScorecardReport } from "@/lib/scorecard/report-model";
 import { brandStyle } from "@/lib/scorecard/branding";
-import { ScorecardReportView, DEFAULT_REPORT_LABELS } from "./ScorecardReportView";
+import { expectedQuestions, visibleAnswers, visibleQuestions } from "@/lib/scorecard/visibility";
+import { applyVariant, findVariant, variantCookie } from "@/lib/scorecard/experiments";
+import { pingStep } from "@/lib/scorecard/steps";
+import { postToHost } from "@/lib/scorecard/embed";
+import { DEFAULT_LOCALE, localizedRegistration, type Locale } from "@/lib/scorecard/locale";
+import { ScorecardReportView, REPORT_LABELS } from "./ScorecardReportView";
 import type { ScorecardRegistration } from "@/lib/scorecard/registry";
 import type { ScorecardContent } from "@/lib/scorecard/content";
 import type { Answers, Question } from "@/lib/scorecard/types";
@@ -18,6 +23,7 @@ type Phase = "intro" | "quiz" | "result";
 
 interface State {
   phase: Phase;
+  /** Index into `definition.questions` — always a question that is shown. */
   index: number;
   answers: Answers;
 }
@@ -33,19 +39,30 @@ type Action =
 
 const INITIAL_STATE: State = { phase: "intro", index: 0, answers: {} };
 
-/** The reducer depends on the question count, which is per-scorecard. */
-function makeReducer(total: number) {
+/**
+ * The reducer depends on the questions, which are per-scorecard. Navigation
+ * steps over questions hidden by `showIf` for the current answers; answers to
+ * them stay in state (a changed answer can bring them back) but never count.
+ */
+function makeReducer(questions: Question[]) {
+  const shownIndexes = (answers: Answers) => {
+    const shown = new Set(visibleQuestions(questions, answers));
+    return questions.flatMap((q, i) => (shown.has(q) ? [i] : []));
+  };
+  /** The next shown question after `index`, or the result when there is none. */
+  const advance = (index: number, answers: Answers): State => {
+    const next = shownIndexes(answers).find((i) => i > index);
+    return next === undefined
+      ? { phase: "result", index, answers }
+      : { phase: "quiz", index: next, answers };
+  };
+
   return function reducer(state: State, action: Action): State {
     switch (action.type) {
       case "start":
-        return { ...state, phase: "quiz", index: 0 };
-      case "answer": {
-        const answers = { ...state.answers, [action.questionId]: action.optionId };
-        const isLast = state.index >= total - 1;
-        return isLast
-          ? { phase: "result", index: state.index, answers }
-          : { phase: "quiz", index: state.index + 1, answers };
-      }
+        return { ...state, phase: "quiz", index: shownIndexes(state.answers)[0] ?? 0 };
+      case "answer":
+        return advance(state.index, { ...state.answers, [action.questionId]: action.optionId });
       case "toggle": {
         const cur = state.answers[action.questionId];
         const arr = Array.isArray(cur) ? cur : [];
@@ -54,16 +71,17 @@ function makeReducer(total: number) {
           : [...arr, action.optionId];
         return { ...state, answers: { ...state.answers, [action.questionId]: next } };
       }
-      case "next": {
-        const isLast = state.index >= total - 1;
-        return isLast
-          ? { phase: "result", index: state.index, answers: state.answers }
-          : { phase: "quiz", index: state.index + 1, answers: state.answers };
-      }
-      case "back":
-        if (state.phase === "result") return { ...state, phase: "quiz", index: total - 1 };
-        if (state.index > 0) return { ...state, index: state.index - 1 };
+      case "next":
+        return advance(state.index, state.answers);
+      case "back": {
+        const shown = shownIndexes(state.answers);
+        if (state.phase === "result") {
+          return { ...state, phase: "quiz", index: shown[shown.length - 1] ?? 0 };
+        }
+        const prev = shown.filter((i) => i < state.index).pop();
+        if (prev !== undefined) return { ...state, index: prev };
         return { ...state, phase: "intro" };
+      }
       case "restart":
         return INITIAL_STATE;
       case "hydrate":
@@ -87,25 +105,139 @@ function captureTid(slug: string): string | null {
   }
 }
 
+/** Embed mode (/embed/<slug>): framed by a partner page, reports to it via postMessage. */
+export interface EmbedOptions {
+  /** Partner id from `?partner=`, stored with the submission. */
+  partner: string | null;
+}
+
+/** The app's own UI strings; everything scorecard-specific comes from the (localized) registration. */
+const APP_COPY = {
+  de: {
+    home: "Zur Startseite von",
+    question: "Frage",
+    multiHint: "Mehrfachauswahl möglich",
+    back: "← Zurück",
+    next: "Weiter →",
+    tapHint: "Tippe eine Antwort an — es geht sofort weiter.",
+    changeAnswers: "← Antworten ändern",
+    restart: "Neu starten",
+    submitting: "Wird gesendet …",
+    privacyMore: "Mehr in der Datenschutzerklärung",
+    embedBy: "Ein Check von",
+    imprint: "Impressum",
+    privacy: "Datenschutz",
+    variantCookieAsk:
+      "Wir testen gerade zwei Textfassungen dieses Checks. Darf ein Cookie (90 Tage) speichern, welche Du siehst, damit sie bei Deinem nächsten Besuch gleich bleibt?",
+    variantCookieAccept: "Ja, merken",
+    variantCookieDecline: "Nein, danke",
+  },
+  en: {
+    home: "Go to the homepage of",
+    question: "Question",
+    multiHint: "Select all that apply",
+    back: "← Back",
+    next: "Next →",
+    tapHint: "Tap an answer — you move on right away.",
+    changeAnswers: "← Change answers",
+    restart: "Start over",
+    submitting: "Sending …",
+    privacyMore: "More in the privacy policy",
+    embedBy: "A check by",
+    imprint: "Imprint",
+    privacy: "Privacy",
+    variantCookieAsk:
+      "We are testing two versions of this check's copy. May a cookie (90 days) remember which one you see, so it stays the same on your next visit?",
+    variantCookieAccept: "Yes, remember",
+    variantCookieDecline: "No, thanks",
+  },
+} satisfies Record<Locale, Record<string, string>>;
+
+type AppCopy = (typeof APP_COPY)[Locale];
+
+/** Links that would navigate the partner's iframe open a new tab instead. */
+function newTab(embed: EmbedOptions | undefined) {
+  return embed ? { target: "_blank", rel: "noopener noreferrer" } : {};
+}
+
 // =============================================================================
 // Component
 // =============================================================================
 
-export function ScorecardApp({ registration }: { registration: ScorecardRegistration }) {
+export function ScorecardApp({
+  registration: registered,
+  variantId,
+  variantStored = false,
+  embed,
+  locale = DEFAULT_LOCALE,
+}: {
+  registration: ScorecardRegistration;
+  /** A/B variant assigned by the page; its copy overrides the registered content. */
+  variantId?: string;
+  /** The variant came from the assignment cookie — no need to ask for it again. */
+  variantStored?: boolean;
+  embed?: EmbedOptions;
+  /** Language of /<locale>/<slug>; the registration must carry that translation. */
+  locale?: Locale;
+}) {
+  const localized = useMemo(() => localizedRegistration(registered, locale), [registered, locale]);
+  const variant = findVariant(localized.experiment, variantId);
+  const registration = useMemo(
+    () => (variant ? { ...localized, content: applyVariant(localized.content, variant) } : localized),
+    [localized, variant],
+  );
+  const copy = APP_COPY[locale];
   const { definition, content, branding } = registration;
   const slug = definition.slug;
   const questions = definition.questions;
-  const total = questions.length;
   const storageKey = `scorecard:${slug}:state`;
 
-  const reducer = useMemo(() => makeReducer(total), [total]);
+  const reducer = useMemo(() => makeReducer(questions), [questions]);
   const [state, dispatch] = useReducer(reducer, INITIAL_STATE);
+  // Progress counts the questions shown for the current answers (+ those still undecided).
+  const expected = useMemo(() => expectedQuestions(questions, state.answers), [questions, state.answers]);
+  const shownAnswers = useMemo(() => visibleAnswers(definition, state.answers), [definition, state.answers]);
 
   // Capture ?tid on landing (side-effect only).
   useEffect(() => {
     captureTid(slug);
   }, [slug]);
 
+  // Make the assigned variant sticky for the next visit — only with the visitor's consent
+  // (§25 TDDDG). Embeds never ask: the cookie would be third-party in the partner's page.
+  const experiment = localized.experiment;
+  const [askVariantCookie, setAskVariantCookie] = useState(
+    Boolean(experiment && variant && !variantStored && !embed),
+  );
+  const keepVariant = () => {
+    if (experiment && variant) document.cookie = variantCookie(slug, experiment, variant);
+    setAskVariantCookie(false);
+  };
+
+  // Embedded: keep the host's iframe as tall as the content.
+  const shellRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const shell = shellRef.current;
+    if (!embed || !shell) return;
+    const report = () => postToHost(slug, { type: "resize", height: Math.ceil(shell.scrollHeight) });
+    report();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(report);
+    observer.observe(shell);
+    return () => observer.disconnect();
+  }, [embed, slug]);
+
+  // Anonymous funnel steps before the opt-in: intro → start → each question reached → result.
+  useEffect(() => {
+    const opts = { variant: variant?.id };
+    if (state.phase === "intro") pingStep(slug, "view", opts);
+    if (state.phase === "quiz") {
+      pingStep(slug, "start", opts);
+      pingStep(slug, "question", { ...opts, question: state.index });
+    }
+    if (state.phase === "result") pingStep(slug, "finish", opts);
+  }, [slug, state.phase, state.index, variant]);
+
   // Restore in-progress answers after mount (client-only). sessionStorage keeps
   // answers in the browser only — nothing leaves the device before the opt-in.
   useEffect(() => {
@@ -134,10 +266,15 @@ export function ScorecardApp({ registration }: { registration: ScorecardRegistra
   }, [state, storageKey]);
 
   return (
-    <div className="sc-shell" style={brandStyle(branding)}>
+    <div ref={shellRef} className={embed ? "sc-shell is-embed" : "sc-shell"} style={brandStyle(branding)}>
       <div className="sc-page">
         <header className="sc-topbar">
-          <Link href="/" className="sc-brand" aria-label={`Zur Startseite von ${branding.brandAuthor}`}>
+          <Link
+            href="/"
+            className="sc-brand"
+            aria-label={`${copy.home} ${branding.brandAuthor}`}
+            {...newTab(embed)}
+          >
             <span className="sc-brand-name">{branding.brandName}</span>
             <span className="sc-brand-author">{branding.brandAuthor}</span>
           </Link>
@@ -145,14 +282,24 @@ export function ScorecardApp({ registration }: { registration: ScorecardRegistra
 
         <main className="sc-main">
         {state.phase === "intro" && (
-          <Intro content={content} onStart={() => dispatch({ type: "start" })} />
+          <Intro
+            content={content}
+            onStart={() => {
+              if (embed) postToHost(slug, { type: "start" });
+              dispatch({ type: "start" });
+            }}
+          />
+        )}
+        {state.phase === "intro" && askVariantCookie && (
+          <VariantCookieNotice copy={copy} onAccept={keepVariant} onDecline={() => setAskVariantCookie(false)} />
         )}
         {state.phase === "quiz" && (
           <Quiz
             question={questions[state.index]}
-            index={state.index}
-            total={total}
+            index={expected.indexOf(questions[state.index])}
+            total={expected.length}
             answers={state.answers}
+            copy={copy}
             onAnswer={(optionId) =>
               dispatch({ type: "answer", questionId: questions[state.index].id, optionId })
             }
@@ -166,7 +313,10 @@ export function ScorecardApp({ registration }: { registration: ScorecardRegistra
         {state.phase === "result" && (
           <Result
             registration={registration}
-            answers={state.answers}
+            answers={shownAnswers}
+            variantId={variant?.id}
+            embed={embed}
+            locale={locale}
             onBack={() => dispatch({ type: "back" })}
             onRestart={() => {
               try {
@@ -179,6 +329,18 @@ export function ScorecardApp({ registration }: { registration: ScorecardRegistra
           />
         )}
         </main>
+        {embed && (
+          <p className="sc-embed-legal">
+            {copy.embedBy} {branding.brandAuthor} ·{" "}
+            <Link href="/impressum" {...newTab(embed)}>
+              {copy.imprint}
+            </Link>{" "}
+            ·{" "}
+            <Link href="/datenschutz" {...newTab(embed)}>
+              {copy.privacy}
+            </Link>
+          </p>
+        )}
       </div>
     </div>
   );
@@ -204,6 +366,31 @@ function Intro({ content, onStart }: { content: ScorecardContent; onStart: () =>
   );
 }
 
+/** Asks before the A/B assignment cookie is set; declining keeps the variant for this view only. */
+function VariantCookieNotice({
+  copy,
+  onAccept,
+  onDecline,
+}: {
+  copy: AppCopy;
+  onAccept: () => void;
+  onDecline: () => void;
+}) {
+  return (
+    <aside className="sc-variant-cookie">
+      <p className="sc-consent">{copy.variantCookieAsk}</p>
+      <div className="sc-variant-cookie-actions">
+        <button type="button" className="sc-btn sc-btn-ghost" onClick={onAccept}>
+          {copy.variantCookieAccept}
+        </button>
+        <button type="button" className="sc-btn sc-btn-ghost" onClick={onDecline}>
+          {copy.variantCookieDecline}
+        </button>
+      </div>
+    </aside>
+  );
+}
+
 // =============================================================================
 // Quiz — one question at a time
 // =============================================================================
@@ -213,6 +400,7 @@ function Quiz({
   index,
   total,
   answers,
+  copy,
   onAnswer,
   onToggle,
   onNext,
@@ -222,6 +410,7 @@ function Quiz({
   index: number;
   total: number;
   answers: Answers;
+  copy: AppCopy;
   onAnswer: (optionId: string) => void;
   onToggle: (optionId: string) => void;
   onNext: () => void;
@@ -240,12 +429,12 @@ function Quiz({
           <span className="sc-progress-fill" style={{ width: `${progress}%` }} />
         </div>
         <p className="sc-progress-label">
-          Frage {index + 1} <span aria-hidden="true">/</span> {total}
+          {copy.question} {index + 1} <span aria-hidden="true">/</span> {total}
         </p>
       </div>
 
       <h2 id="sc-question" className="sc-question">{question.prompt}</h2>
-      {isMulti && <p className="sc-question-hint">Mehrfachauswahl möglich</p>}
+      {isMulti && <p className="sc-question-hint">{copy.multiHint}</p>}
 
       <div
         className="sc-options"
@@ -274,7 +463,7 @@ function Quiz({
 
       <div className="sc-quiz-nav">
         <button type="button" className="sc-btn sc-btn-ghost" onClick={onBack}>
-          ← Zurück
+          {copy.back}
         </button>
         {isMulti ? (
           <button
@@ -283,10 +472,10 @@ function Quiz({
             onClick={onNext}
             disabled={multiSelected.length === 0}
           >
-            Weiter →
+            {copy.next}
           </button>
         ) : (
-          <p className="sc-quiz-hint">Tippe eine Antwort an — es geht sofort weiter.</p>
+          <p className="sc-quiz-hint">{copy.tapHint}</p>
         )}
       </div>
     </section>
@@ -300,42 +489,60 @@ function Quiz({
 function Result({
   registration,
   answers,
+  variantId,
+  embed,
+  locale,
   onBack,
   onRestart,
 }: {
   registration: ScorecardRegistration;
   answers: Answers;
+  variantId?: string;
+  embed?: EmbedOptions;
+  locale: Locale;
   onBack: () => void;
   onRestart: () => void;
 }) {
   const { definition, content } = registration;
-  const result = useMemo(() => resolveResult(registration, answers), [registration, answers]);
+  const copy = APP_COPY[locale];
+  const result = useMemo(() => resolveResult(registration, answers, locale), [registration, answers, locale]);
   const ResultView = registration.ResultView;
   const model = useMemo(
     () => (ResultView ? null : buildScorecardReport(registration, result, answers)),
     [ResultView, registration, result, answers],
   );
 
+  useEffect(() => {
+    if (embed) postToHost(definition.slug, { type: "complete", outcome: result.outcome });
+  }, [embed, definition.slug, result.outcome]);
+
   return (
     <section className="sc-result" aria-label={content.resultHeading}>
       <div className="sc-card sc-report-card">
         <p className="sc-eyebrow">{content.resultHeading}</p>
         {ResultView ? (
-          <ResultView registration={registration} answers={answers} result={result} />
+          <ResultView registration={registration} answers={answers} result={result} locale={locale} />
         ) : (
-          <ScorecardReportView model={model!} labels={DEFAULT_REPORT_LABELS} />
+          <ScorecardReportView model={model!} labels={REPORT_LABELS[locale]} />
         )}
         <div className="sc-result-nav">
           <button type="button" className="sc-btn sc-btn-ghost" onClick={onBack}>
-            ← Antworten ändern
+            {copy.changeAnswers}
           </button>
           <button type="button" className="sc-btn sc-btn-ghost" onClick={onRestart}>
-            Neu starten
+            {copy.restart}
           </button>
         </div>
       </div>
 
-      <OptIn slug={definition.slug} answers={answers} content={content} />
+      <OptIn
+        slug={definition.slug}
+        answers={answers}
+        content={content}
+        variantId={variantId}
+        embed={embed}
+        locale={locale}
+      />
 
       {content.video && <VideoVerweis video={content.video} />}
     </section>
@@ -369,14 +576,21 @@ function OptIn({
   slug,
   answers,
   content,
+  variantId,
+  embed,
+  locale,
 }: {
   slug: string;
   answers: Answers;
   content: ScorecardContent;
+  variantId?: string;
+  embed?: EmbedOptions;
+  locale: Locale;
 }) {
   const [email, setEmail] = useState("");
   const [status, setStatus] = useState<SubmitStatus>("idle");
   const c = content.optin;
+  const copy = APP_COPY[locale];
 
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -387,11 +601,19 @@ function OptIn({
       const response = await fetch(`/api/scorecard/${slug}/submit`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: email.trim(), answers, ...(tid ? { tid } : {}) }),
+        body: JSON.stringify({
+          email: email.trim(),
+          answers,
+          ...(tid ? { tid } : {}),
+          ...(variantId ? { variant: variantId } : {}),
+          ...(embed?.partner ? { partner: embed.partner } : {}),
+          ...(locale !== DEFAULT_LOCALE ? { locale } : {}),
+        }),
       });
       const data = (await response.json().catch(() => null)) as { ok?: boolean } | null;
       if (!response.ok || !data?.ok) throw new Error("submit failed");
       setStatus("success");
+      if (embed) postToHost(slug, { type: "submitted" });
     } catch {
       setStatus("error");
     }
@@ -431,7 +653,7 @@ function OptIn({
             aria-invalid={status === "error"}
           />
           <button type="submit" className="sc-btn sc-btn-primary" disabled={status === "submitting"}>
-            {status === "submitting" ? "Wird gesendet …" : c.button}
+            {status === "submitting" ? copy.submitting : c.button}
           </button>
         </div>
 
@@ -443,8 +665,8 @@ function OptIn({
 
         <p className="sc-consent">
           {c.consent}{" "}
-          <a className="sc-consent-link" href={c.datenschutzHref}>
-            Mehr in der Datenschutzerklärung
+          <a className="sc-consent-link" href={c.datenschutzHref} {...newTab(embed)}>
+            {copy.privacyMore}
           </a>
         </p>
         {c.datenschutzHinweis && <p className="sc-datenschutz">{c.datenschutzHinweis}</p>}
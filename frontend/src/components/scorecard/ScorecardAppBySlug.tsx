@@ -1,16 +1,41 @@
 "use client";
 
 import { getScorecard } from "@/lib/scorecard/registry";
-import { ScorecardApp } from "./ScorecardApp";
+import type { Locale } from "@/lib/scorecard/locale";
+import { ScorecardApp, type EmbedOptions } from "./ScorecardApp";
 
 /**
  * Client boundary for the scorecard page. The page is a Server Component and
  * cannot pass a registration (it carries functions: `resolve`, `cleverreachTags`)
  * to the client. So the server passes only the serializable `slug` and this
  * client wrapper resolves the registration from the registry on the client side.
+ * `variantId` is the A/B variant the server assigned (only with a running experiment),
+ * `variantStored` whether it came from the visitor's assignment cookie,
+ * `embed` switches on the iframe mode of /embed/<slug>, `locale` the translation
+ * of /<locale>/<slug>.
  */
-export function ScorecardAppBySlug({ slug }: { slug: string }) {
+export function ScorecardAppBySlug({
+  slug,
+  variantId,
+  variantStored,
+  embed,
+  locale,
+}: {
+  slug: string;
+  variantId?: string;
+  variantStored?: boolean;
+  embed?: EmbedOptions;
+  locale?: Locale;
+}) {
   const registration = getScorecard(slug);
   if (!registration) return null;
-  return <ScorecardApp registration={registration} />;
+  return (
+    <ScorecardApp
+      registration={registration}
+      variantId={variantId}
+      variantStored={variantStored}
+      embed={embed}
+      locale={locale}
+    />
+  );
 }
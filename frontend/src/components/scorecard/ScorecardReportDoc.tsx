@@ -1,6 +1,7 @@
 import type { ScorecardReport } from "@/lib/scorecard/report-model";
 import type { ReportLabels } from "./ScorecardReportView";
 import type { TippHebel } from "@/lib/scorecard/content";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/scorecard/locale";
 
 /** Split a `\n\n`-separated block into <p> elements. */
 function Paras({ text }: { text: string }) {
@@ -17,6 +18,22 @@ function Paras({ text }: { text: string }) {
 
 const EVIDENCE_MARK = { data: "📊", practice: "✅" } as const;
 
+/** The tips block's own chrome per locale. */
+const TIPPS_COPY: Record<Locale, { heading: string; flag: string; data: string; practice: string }> = {
+  de: {
+    heading: "Deine Tipps",
+    flag: "Fang hier an: Dein schwächster Hebel",
+    data: "datenbelegte Empfehlung",
+    practice: "Best-Practice-Empfehlung",
+  },
+  en: {
+    heading: "Your tips",
+    flag: "Start here: your weakest lever",
+    data: "data-backed recommendation",
+    practice: "best-practice recommendation",
+  },
+};
+
 /** Weakest lever first (highlighted); the rest keep their original order. */
 function orderHebel(hebel: TippHebel[], weakest?: string): { items: TippHebel[]; highlightFirst: boolean } {
   if (!weakest) return { items: hebel, highlightFirst: false };
@@ -25,16 +42,25 @@ function orderHebel(hebel: TippHebel[], weakest?: string): { items: TippHebel[];
   return { items: [hebel[idx], ...hebel.filter((_, i) => i !== idx)], highlightFirst: true };
 }
 
-function TippsSection({ hebel, weakestCategory }: { hebel: TippHebel[]; weakestCategory?: string }) {
+function TippsSection({
+  hebel,
+  weakestCategory,
+  locale,
+}: {
+  hebel: TippHebel[];
+  weakestCategory?: string;
+  locale: Locale;
+}) {
   const { items, highlightFirst } = orderHebel(hebel, weakestCategory);
+  const copy = TIPPS_COPY[locale];
   return (
     <section className="scd-section scd-tipps">
-      <h2 className="scd-h2">Deine Tipps</h2>
+      <h2 className="scd-h2">{copy.heading}</h2>
       {items.map((h, hi) => {
         const isHighlight = highlightFirst && hi === 0;
         return (
           <div key={h.title} className={`scd-hebel${isHighlight ? " scd-hebel-highlight" : ""}`}>
-            {isHighlight && <p className="scd-hebel-flag">Fang hier an: Dein schwächster Hebel</p>}
+            {isHighlight && <p className="scd-hebel-flag">{copy.flag}</p>}
             <h3 className="scd-hebel-title">{h.title}</h3>
             {h.subtitle && <p className="scd-hebel-sub">{h.subtitle}</p>}
             <ul className="scd-tip-list">
@@ -42,7 +68,7 @@ function TippsSection({ hebel, weakestCategory }: { hebel: TippHebel[]; weakestC
                 <li key={i} className="scd-tip">
                   <span
                     className="scd-tip-mark"
-                    title={t.evidence === "data" ? "datenbelegte Empfehlung" : "Best-Practice-Empfehlung"}
+                    title={t.evidence === "data" ? copy.data : copy.practice}
                   >
                     {EVIDENCE_MARK[t.evidence]}
                   </span>
@@ -61,7 +87,7 @@ function TippsSection({ hebel, weakestCategory }: { hebel: TippHebel[]; weakestC
 
 /**
  * The personal report as a light, print-optimized document — the scorecard
- * analogue of the Engpass `ReportDocument`. Same `ScorecardReport` model as the
+ * analogue of the Engpass `EngpassReportDoc`. Same `ScorecardReport` model as the
  * dark inline view; only the theme (sc-report-doc.css) differs. The rich tips
  * block is rendered ONLY here (gated report = opt-in reward), never in the free
  * inline view; the user's weakest lever (`weakestCategory`) is surfaced first.
@@ -72,12 +98,14 @@ export function ScorecardReportDoc({
   eyebrow,
   tipps,
   weakestCategory,
+  locale = DEFAULT_LOCALE,
 }: {
   model: ScorecardReport;
   labels: ReportLabels;
   eyebrow: string;
   tipps?: TippHebel[];
   weakestCategory?: string;
+  locale?: Locale;
 }) {
   return (
     <div className="scd-container">
@@ -134,7 +162,9 @@ export function ScorecardReportDoc({
         </section>
       )}
 
-      {tipps && tipps.length > 0 && <TippsSection hebel={tipps} weakestCategory={weakestCategory} />}
+      {tipps && tipps.length > 0 && (
+        <TippsSection hebel={tipps} weakestCategory={weakestCategory} locale={locale} />
+      )}
 
       <section className="scd-section">
         <h3 className="scd-h3">{labels.quellen}</h3>
@@ -1,4 +1,5 @@
 import type { ScorecardReport } from "@/lib/scorecard/report-model";
+import type { Locale } from "@/lib/scorecard/locale";
 
 export interface ReportLabels {
   bedeutung: string;
@@ -7,14 +8,25 @@ export interface ReportLabels {
   quellen: string;
 }
 
-/** Default German section headings (scorecard-agnostic UI chrome). */
-export const DEFAULT_REPORT_LABELS: ReportLabels = {
-  bedeutung: "Was das für Dich bedeutet",
-  schritte: "Deine nächsten Schritte",
-  antiPattern: "Was Du jetzt vermeiden solltest",
-  quellen: "Quellen & Belege",
+/** Section headings per locale (scorecard-agnostic UI chrome). */
+export const REPORT_LABELS: Record<Locale, ReportLabels> = {
+  de: {
+    bedeutung: "Was das für Dich bedeutet",
+    schritte: "Deine nächsten Schritte",
+    antiPattern: "Was Du jetzt vermeiden solltest",
+    quellen: "Quellen & Belege",
+  },
+  en: {
+    bedeutung: "What this means for you",
+    schritte: "Your next steps",
+    antiPattern: "What to avoid now",
+    quellen: "Sources & evidence",
+  },
 };
 
+/** Default German section headings. */
+export const DEFAULT_REPORT_LABELS: ReportLabels = REPORT_LABELS.de;
+
 /** Split a `\n\n`-separated block into <p> elements. */
 function Paragraphs({ text, className }: { text: string; className?: string }) {
   return (
@@ -30,7 +42,7 @@ function Paragraphs({ text, className }: { text: string; className?: string }) {
 
 /**
  * Generic scorecard report renderer — the free, fully-visible result (analogue
- * of the Engpass `Report.tsx`). Driven entirely by a `ScorecardReport` model;
+ * of the Engpass `EngpassResultView`). Driven entirely by a `ScorecardReport` model;
  * section headings come from the caller's `labels` (kept content-agnostic).
  */
 export function ScorecardReportView({
@@ -80,5 +80,30 @@ describe('WorkshopForm', () => {
     await waitFor(() => {
       expect(screen.getByText(/Alle Plätze sind belegt/)).toBeInTheDocument();
     });
+    // Swapped for the Warteliste signup, contact data carried over
+    expect(screen.getByRole('button', { name: /Auf die Warteliste/ })).toBeInTheDocument();
+    expect(screen.getByLabelText(/^E-Mail \*/)).toHaveValue('max@firma.de');
+  });
+
+  it('sends the Warteliste offer token along with the signup', async () => {
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ ok: true }) });
+    render(<WorkshopForm slug="ki-souveraenitaet" waitlistToken="offer-token" />);
+    expect(screen.getByText(/für Dich geblockt/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/Vorname/), { target: { value: 'Max' } });
+    fireEvent.change(screen.getByLabelText(/Nachname/), { target: { value: 'Mustermann' } });
+    fireEvent.change(screen.getByLabelText(/^E-Mail \*/), { target: { value: 'max@firma.de' } });
+    fireEvent.change(screen.getByLabelText(/^Firma \*/), { target: { value: 'Mustermann GmbH' } });
+    fireEvent.change(screen.getByLabelText(/Firmenname/), { target: { value: 'Mustermann GmbH' } });
+    fireEvent.change(screen.getByLabelText(/Ansprechpartner/), { target: { value: 'Max Mustermann' } });
+    fireEvent.change(screen.getByLabelText(/E-Mail für Rechnung/), { target: { value: 'max@firma.de' } });
+    fireEvent.change(screen.getByLabelText(/Straße/), { target: { value: 'Hauptstr. 1' } });
+    fireEvent.change(screen.getByLabelText(/PLZ/), { target: { value: '10115' } });
+    fireEvent.change(screen.getByLabelText(/Ort/), { target: { value: 'Berlin' } });
+    fireEvent.change(screen.getByLabelText(/USt-IdNr.*Format/), { target: { value: 'DE123456789' } });
+    fireEvent.click(screen.getByRole('button', { name: /Platz reservieren/ }));
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).waitlistToken).toBe('offer-token');
   });
 });
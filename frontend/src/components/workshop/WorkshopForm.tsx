@@ -2,6 +2,8 @@
 
 import React, { useState } from 'react';
 import { validateWorkshopSignup } from '@/lib/workshop/validation';
+import { workshopContent } from './content';
+import { WorkshopWaitlistForm } from './WorkshopWaitlistForm';
 
 /**
  * Workshop signup form (ticket #7). Client-side validation via the same Zod
@@ -11,17 +13,24 @@ import { validateWorkshopSignup } from '@/lib/workshop/validation';
  * The Rechnungsempfänger block is pre-filled from the Anmeldende Person
  * (name + email), editable. The Kleinunternehmer checkbox toggles USt-IdNr
  * requirement.
+ *
+ * Opened from a Warteliste offer link, the offer token rides along so the
+ * held slot is counted for this visitor. A SOLD_OUT answer swaps the form for
+ * the Warteliste signup, carrying over name, email and company.
  */
 
 interface WorkshopFormProps {
   slug: string;
+  /** Plaintext offer token from `?warteliste=` (Warteliste reservation link). */
+  waitlistToken?: string;
 }
 
 type FieldErrors = Record<string, string>;
 
-export function WorkshopForm({ slug }: WorkshopFormProps) {
+export function WorkshopForm({ slug, waitlistToken }: WorkshopFormProps) {
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [soldOut, setSoldOut] = useState(false);
   const [errors, setErrors] = useState<FieldErrors>({});
   const [formError, setFormError] = useState<string | null>(null);
 
@@ -70,6 +79,7 @@ export function WorkshopForm({ slug }: WorkshopFormProps) {
       isSmallBusiness,
       paymentPreference,
       newsletterOptIn,
+      waitlistToken,
     };
 
     const validation = validateWorkshopSignup(payload);
@@ -88,10 +98,11 @@ export function WorkshopForm({ slug }: WorkshopFormProps) {
       const data = await res.json();
       if (data.ok) {
         setSubmitted(true);
+      } else if (data.code === 'SOLD_OUT') {
+        setSoldOut(true);
       } else {
         const codeMessages: Record<string, string> = {
           RATE_LIMITED: 'Zu viele Anmeldungen. Bitte versuche es später erneut.',
-          SOLD_OUT: 'Alle Plätze sind belegt. Du kommst auf die Warteliste für die nächste Runde.',
           DUPLICATE_RESERVATION: 'Du hast bereits eine Reservierung für diese E-Mail-Adresse.',
           NOT_BOOKABLE: 'Die Anmeldung ist noch nicht freigeschaltet.',
           NOT_CONFIGURED: 'Der Versand ist noch nicht aktiviert.',
@@ -122,6 +133,10 @@ export function WorkshopForm({ slug }: WorkshopFormProps) {
     );
   }
 
+  if (soldOut) {
+    return <WorkshopWaitlistForm slug={slug} reason="sold_out" initial={{ firstName, email, company }} />;
+  }
+
   const inputClass = 'w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary-500)]';
   const labelClass = 'block text-sm font-semibold text-[var(--foreground)] mb-1';
   const errorClass = 'text-[var(--primary-400)] text-xs mt-1';
@@ -131,6 +146,10 @@ export function WorkshopForm({ slug }: WorkshopFormProps) {
       <div className="max-w-2xl mx-auto">
         <h2 className="heading-section text-2xl md:text-3xl text-[var(--foreground)] mb-6">Platz reservieren</h2>
 
+        {waitlistToken && (
+          <p className="mb-4 text-[var(--foreground-muted)]">{workshopContent.form.waitlistOfferHint}</p>
+        )}
+
         {formError && (
           <div className="mb-4 rounded-lg border border-[var(--primary-500)] bg-[var(--primary-500)]/10 px-4 py-3 text-[var(--foreground)]">
             {formError}
@@ -234,7 +253,7 @@ export function WorkshopForm({ slug }: WorkshopFormProps) {
               </div>
               {!isSmallBusiness && (
                 <div className="sm:col-span-2">
-                  <label className={labelClass} htmlFor="invoiceUstId">USt-IdNr. (Format DE123456789) *</label>
+                  <label className={labelClass} htmlFor="invoiceUstId">USt-IdNr. bzw. Steuer-ID des Unternehmens (Format z. B. DE123456789, ATU12345678, CHE-123.456.789) *</label>
                   <input id="invoiceUstId" className={inputClass} value={invoiceUstId} onChange={(e) => setInvoiceUstId(e.target.value)} required />
                   {errors.invoiceUstId && <p className={errorClass}>{errors.invoiceUstId}</p>}
                 </div>
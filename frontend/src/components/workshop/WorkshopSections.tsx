@@ -16,6 +16,7 @@ export function formatTermin(workshop: Workshop | null): string {
       hour: '2-digit',
       minute: '2-digit',
       hour12: false,
+      timeZone: 'Europe/Berlin',
     }).format(new Date(workshop.termin)) + ' Uhr'
   );
 }
@@ -0,0 +1,55 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WorkshopWaitlistForm } from './WorkshopWaitlistForm';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as jest.Mock;
+
+describe('WorkshopWaitlistForm', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('explains why there is a Warteliste', () => {
+    const { unmount } = render(<WorkshopWaitlistForm slug="ki-souveraenitaet" reason="no_termin" />);
+    expect(screen.getByText(/der Termin wird noch festgelegt/)).toBeInTheDocument();
+    unmount();
+    render(<WorkshopWaitlistForm slug="ki-souveraenitaet" reason="sold_out" />);
+    expect(screen.getByText(/Alle Plätze sind belegt/)).toBeInTheDocument();
+  });
+
+  it('shows field errors without calling the API', () => {
+    render(<WorkshopWaitlistForm slug="ki-souveraenitaet" reason="no_termin" />);
+    fireEvent.change(screen.getByLabelText(/E-Mail/), { target: { value: 'nope' } });
+    fireEvent.submit(screen.getByRole('button', { name: /Auf die Warteliste/ }));
+    expect(screen.getByText('Vorname ist Pflicht')).toBeInTheDocument();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('posts to the waitlist endpoint and points to the DOI mail', async () => {
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ ok: true }) });
+    render(<WorkshopWaitlistForm slug="ki-souveraenitaet" reason="no_termin" />);
+    fireEvent.change(screen.getByLabelText(/Vorname/), { target: { value: 'Max' } });
+    fireEvent.change(screen.getByLabelText(/E-Mail/), { target: { value: 'max@firma.de' } });
+    fireEvent.click(screen.getByRole('button', { name: /Auf die Warteliste/ }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/Schau in Dein Postfach/)).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/workshop/ki-souveraenitaet/waitlist', expect.anything());
+  });
+
+  it('asks to reserve directly when a slot became free (BOOKABLE)', async () => {
+    mockFetch.mockResolvedValueOnce({ json: async () => ({ ok: false, code: 'BOOKABLE' }) });
+    render(
+      <WorkshopWaitlistForm
+        slug="ki-souveraenitaet"
+        reason="sold_out"
+        initial={{ firstName: 'Max', email: 'max@firma.de' }}
+      />,
+    );
+    fireEvent.click(screen.getByRole('button', { name: /Auf die Warteliste/ }));
+    await waitFor(() => {
+      expect(screen.getByText(/Gerade ist ein Platz frei/)).toBeInTheDocument();
+    });
+  });
+});
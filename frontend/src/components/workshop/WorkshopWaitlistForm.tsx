@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import { validateWaitlistSignup } from '@/lib/workshop/validation';
+import { workshopContent } from './content';
+
+/**
+ * Warteliste signup (CONTEXT.md "Warteliste") — takes the place of the signup
+ * form while the workshop has no Termin or is sold out. Three fields only: the
+ * full form follows with the reservation link. Double-Opt-in, so the success
+ * state points to the inbox.
+ */
+
+interface WorkshopWaitlistFormProps {
+  slug: string;
+  reason: 'no_termin' | 'sold_out';
+  /** Carried over from the signup form after a SOLD_OUT answer. */
+  initial?: { firstName?: string; email?: string; company?: string };
+}
+
+type FieldErrors = Record<string, string>;
+
+export function WorkshopWaitlistForm({ slug, reason, initial }: WorkshopWaitlistFormProps) {
+  const { form } = workshopContent;
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [firstName, setFirstName] = useState(initial?.firstName ?? '');
+  const [email, setEmail] = useState(initial?.email ?? '');
+  const [company, setCompany] = useState(initial?.company ?? '');
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setErrors({});
+    setFormError(null);
+
+    const payload = { firstName, email, company: company || undefined };
+    const validation = validateWaitlistSignup(payload);
+    if (!validation.ok) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/workshop/${slug}/waitlist`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json();
+      if (data.ok) {
+        setSubmitted(true);
+      } else {
+        const codeMessages: Record<string, string> = {
+          RATE_LIMITED: 'Zu viele Anfragen. Bitte versuche es später erneut.',
+          BOOKABLE: 'Gerade ist ein Platz frei — lade die Seite neu und reserviere direkt.',
+          NOT_CONFIGURED: 'Der Versand ist noch nicht aktiviert.',
+          INTERNAL_ERROR: 'Ein Fehler ist aufgetreten. Bitte versuche es erneut.',
+        };
+        setFormError(codeMessages[data.code] ?? 'Ein Fehler ist aufgetreten.');
+      }
+    } catch {
+      setFormError('Netzwerkfehler. Bitte versuche es erneut.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (submitted) {
+    return (
+      <section id="anmeldung" aria-label="Warteliste" className="py-12 md:py-16">
+        <div className="max-w-2xl mx-auto text-center">
+          <h2 className="heading-section text-2xl md:text-3xl text-[var(--foreground)] mb-4">
+            Schau in Dein Postfach
+          </h2>
+          <p className="text-[var(--foreground-muted)] text-lg">
+            Bestätige Deine E-Mail-Adresse über den Link in der Mail — erst dann stehst Du auf der Warteliste.
+          </p>
+        </div>
+      </section>
+    );
+  }
+
+  const inputClass = 'w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-[var(--foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary-500)]';
+  const labelClass = 'block text-sm font-semibold text-[var(--foreground)] mb-1';
+  const errorClass = 'text-[var(--primary-400)] text-xs mt-1';
+
+  return (
+    <section id="anmeldung" aria-label="Warteliste" className="py-12 md:py-16">
+      <div className="max-w-2xl mx-auto">
+        <p className="text-[var(--foreground-muted)] text-lg mb-2">
+          {reason === 'no_termin' ? form.notBookableLabel : form.soldOutLabel}
+        </p>
+        <h2 className="heading-section text-2xl md:text-3xl text-[var(--foreground)] mb-4">Warteliste</h2>
+        <p className="text-[var(--foreground-muted)] mb-6">{form.waitlistIntro}</p>
+
+        {formError && (
+          <div className="mb-4 rounded-lg border border-[var(--primary-500)] bg-[var(--primary-500)]/10 px-4 py-3 text-[var(--foreground)]">
+            {formError}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="waitlistFirstName">Vorname *</label>
+              <input id="waitlistFirstName" className={inputClass} value={firstName} onChange={(e) => setFirstName(e.target.value)} required />
+              {errors.firstName && <p className={errorClass}>{errors.firstName}</p>}
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="waitlistEmail">E-Mail *</label>
+              <input id="waitlistEmail" type="email" className={inputClass} value={email} onChange={(e) => setEmail(e.target.value)} required />
+              {errors.email && <p className={errorClass}>{errors.email}</p>}
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClass} htmlFor="waitlistCompany">Firma</label>
+              <input id="waitlistCompany" className={inputClass} value={company} onChange={(e) => setCompany(e.target.value)} />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="inline-flex items-center justify-center font-medium rounded-lg bg-[var(--primary-500)] text-[var(--accent-ink)] hover:bg-[var(--primary-400)] px-6 py-3 text-lg min-h-[52px] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 ease-out hover:scale-[1.02] active:scale-[0.98]"
+          >
+            {submitting ? 'Wird gesendet…' : form.waitlistCtaLabel}
+          </button>
+        </form>
+      </div>
+    </section>
+  );
+}
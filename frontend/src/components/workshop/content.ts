@@ -120,5 +120,10 @@ In 90 Minuten machst Du daraus eine Rechnung. Mit Deinen Zahlen.`,
   form: {
     ctaLabel: 'Platz reservieren',
     notBookableLabel: 'Anmeldung aktuell nicht möglich — der Termin wird noch festgelegt.',
+    soldOutLabel: 'Alle Plätze sind belegt.',
+    waitlistIntro:
+      'Trag Dich auf die Warteliste ein. Sobald ein Platz frei wird oder der Termin feststeht, bekommst Du der Reihe nach einen Reservierungs-Link per Mail.',
+    waitlistCtaLabel: 'Auf die Warteliste',
+    waitlistOfferHint: 'Dein Platz von der Warteliste ist für Dich geblockt — bis zum Ablauf des Links in Deiner Mail.',
   },
 } as const;
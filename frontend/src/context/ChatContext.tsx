@@ -8,6 +8,7 @@
  * - UI state (open/closed panel)
  * - Actions (send message, clear conversation, retry)
  * - Session storage persistence
+ * - Sharing: a server copy of the conversation, kept in sync once shared
  *
  * @see Requirements 5.1, 5.2, 5.3
  */
@@ -19,6 +20,7 @@ import React, {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
 } from 'react';
 import type {
   ChatContextValue,
@@ -26,11 +28,16 @@ import type {
   ChatMessage,
   ChatError,
   ChatErrorType,
+  ChatSource,
+  ChatToolCall,
+  SavedConversation,
   StoredChatSession,
   SerializedMessage,
+  TranscriptMessage,
 } from '@/types/chat';
-import { CHAT_STORAGE_KEY, WELCOME_MESSAGE } from '@/types/chat';
+import { CHAT_SAVED_CONVERSATION_KEY, CHAT_STORAGE_KEY, WELCOME_MESSAGE } from '@/types/chat';
 import { sendChatMessage, type StreamHandlerCallbacks } from '@/lib/stream-handler';
+import { loadSharedConversation, saveSharedConversation, syncSharedConversation } from '@/lib/chat-share/client';
 
 // =============================================================================
 // Utility Functions
@@ -68,6 +75,9 @@ function serializeMessage(message: ChatMessage): SerializedMessage {
     content: message.content,
     timestamp: message.timestamp.toISOString(),
     status: message.status,
+    ...(message.sources && { sources: message.sources }),
+    ...(message.toolCalls && { toolCalls: message.toolCalls }),
+    ...(message.signature && { signature: message.signature }),
   };
 }
 
@@ -81,6 +91,24 @@ function deserializeMessage(serialized: SerializedMessage): ChatMessage {
     content: serialized.content,
     timestamp: new Date(serialized.timestamp),
     status: serialized.status,
+    ...(serialized.sources && { sources: serialized.sources }),
+    ...(serialized.toolCalls && { toolCalls: serialized.toolCalls }),
+    ...(serialized.signature && { signature: serialized.signature }),
+  };
+}
+
+/**
+ * Turn a message loaded from the server copy into a chat message
+ */
+function fromTranscriptMessage(message: TranscriptMessage): ChatMessage {
+  return {
+    id: generateId(),
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.timestamp),
+    status: 'complete',
+    ...(message.sources && { sources: message.sources }),
+    ...(message.signature && { signature: message.signature }),
   };
 }
 
@@ -125,6 +153,42 @@ function loadFromSessionStorage(): Partial<ChatState> | null {
   }
 }
 
+/**
+ * Save (or with null, forget) the shared conversation handle in local storage.
+ * Local, not session storage: the visitor should be able to come back to it.
+ */
+function saveSavedConversation(saved: SavedConversation | null): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (saved) {
+      localStorage.setItem(CHAT_SAVED_CONVERSATION_KEY, JSON.stringify(saved));
+    } else {
+      localStorage.removeItem(CHAT_SAVED_CONVERSATION_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to store shared conversation:', error);
+  }
+}
+
+/**
+ * Load the shared conversation handle from local storage
+ */
+function loadSavedConversation(): SavedConversation | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(CHAT_SAVED_CONVERSATION_KEY);
+    if (!stored) return null;
+
+    const saved: SavedConversation = JSON.parse(stored);
+    return saved.id && saved.ownerToken && saved.shareUrl ? saved : null;
+  } catch (error) {
+    console.warn('Failed to load shared conversation from storage:', error);
+    return null;
+  }
+}
+
 // =============================================================================
 // Initial State
 // =============================================================================
@@ -138,6 +202,7 @@ const initialChatState: ChatState = {
   streamingMessageId: null,
   error: null,
   lastFailedMessage: null,
+  saved: null,
 };
 
 // =============================================================================
@@ -151,12 +216,15 @@ type ChatAction =
   | { type: 'SEND_MESSAGE'; payload: { id: string; content: string } }
   | { type: 'ADD_ASSISTANT_MESSAGE'; payload: { id: string } }
   | { type: 'UPDATE_STREAMING_MESSAGE'; payload: { id: string; content: string } }
-  | { type: 'COMPLETE_MESSAGE'; payload: { id: string } }
+  | { type: 'SET_MESSAGE_SOURCES'; payload: { id: string; sources: ChatSource[] } }
+  | { type: 'ADD_TOOL_CALL'; payload: { id: string; call: ChatToolCall } }
+  | { type: 'COMPLETE_MESSAGE'; payload: { id: string; signature?: string } }
   | { type: 'SET_ERROR'; payload: { error: ChatError; failedMessage?: string } }
   | { type: 'CLEAR_ERROR' }
   | { type: 'CLEAR_CONVERSATION' }
   | { type: 'RESTORE_SESSION'; payload: Partial<ChatState> }
-  | { type: 'SET_LOADING'; payload: boolean };
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_SAVED'; payload: SavedConversation | null };
 
 // =============================================================================
 // Reducer
@@ -216,11 +284,39 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       };
     }
 
+    case 'SET_MESSAGE_SOURCES': {
+      return {
+        ...state,
+        messages: state.messages.map((msg) =>
+          msg.id === action.payload.id
+            ? { ...msg, sources: action.payload.sources }
+            : msg
+        ),
+      };
+    }
+
+    case 'ADD_TOOL_CALL': {
+      return {
+        ...state,
+        messages: state.messages.map((msg) =>
+          msg.id === action.payload.id
+            ? { ...msg, toolCalls: [...(msg.toolCalls ?? []), action.payload.call] }
+            : msg
+        ),
+      };
+    }
+
     case 'COMPLETE_MESSAGE': {
       return {
         ...state,
         messages: state.messages.map((msg) =>
-          msg.id === action.payload.id ? { ...msg, status: 'complete' } : msg
+          msg.id === action.payload.id
+            ? {
+                ...msg,
+                status: 'complete',
+                ...(action.payload.signature && { signature: action.payload.signature }),
+              }
+            : msg
         ),
         isLoading: false,
         streamingMessageId: null,
@@ -258,6 +354,7 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         lastFailedMessage: null,
         isLoading: false,
         streamingMessageId: null,
+        saved: null,
       };
 
     case 'RESTORE_SESSION':
@@ -274,6 +371,9 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload };
 
+    case 'SET_SAVED':
+      return { ...state, saved: action.payload };
+
     default:
       return state;
   }
@@ -295,6 +395,8 @@ interface ChatProviderProps {
 
 export function ChatProvider({ children }: ChatProviderProps) {
   const [state, dispatch] = useReducer(chatReducer, initialChatState);
+  // Last message the server copy is known to contain
+  const lastSyncedId = useRef<string | null>(null);
 
   // Restore session from storage on mount
   useEffect(() => {
@@ -302,8 +404,52 @@ export function ChatProvider({ children }: ChatProviderProps) {
     if (savedSession) {
       dispatch({ type: 'RESTORE_SESSION', payload: savedSession });
     }
+
+    // A shared conversation: keep its link, and load it back in a new session
+    const saved = loadSavedConversation();
+    if (!saved) return;
+    dispatch({ type: 'SET_SAVED', payload: saved });
+    lastSyncedId.current = savedSession?.messages?.at(-1)?.id ?? null;
+    if (savedSession) return;
+
+    let cancelled = false;
+    loadSharedConversation(saved).then((result) => {
+      if (cancelled) return;
+      if (result.status === 'gone') {
+        dispatch({ type: 'SET_SAVED', payload: null });
+        saveSavedConversation(null);
+      } else if (result.status === 'ok') {
+        const messages = [createWelcomeMessage(), ...result.messages.map(fromTranscriptMessage)];
+        lastSyncedId.current = messages[messages.length - 1].id;
+        dispatch({ type: 'RESTORE_SESSION', payload: { messages } });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  // Keep the server copy of a shared conversation in sync after each answer
+  useEffect(() => {
+    const lastMessage = state.messages[state.messages.length - 1];
+    if (
+      !state.saved ||
+      state.isLoading ||
+      lastMessage?.role !== 'assistant' ||
+      lastMessage.status !== 'complete' ||
+      lastMessage.id === lastSyncedId.current
+    ) {
+      return;
+    }
+    lastSyncedId.current = lastMessage.id;
+    syncSharedConversation(state.saved, state.messages).then((outcome) => {
+      if (outcome === 'gone') {
+        dispatch({ type: 'SET_SAVED', payload: null });
+        saveSavedConversation(null);
+      }
+    });
+  }, [state.messages, state.isLoading, state.saved]);
+
   // Save to session storage when messages change
   useEffect(() => {
     // Only save if we have more than just the welcome message
@@ -365,8 +511,20 @@ export function ChatProvider({ children }: ChatProviderProps) {
           payload: { id: assistantId, content: accumulatedContent },
         });
       },
-      onComplete: () => {
-        dispatch({ type: 'COMPLETE_MESSAGE', payload: { id: assistantId } });
+      onSources: (sources: ChatSource[]) => {
+        dispatch({
+          type: 'SET_MESSAGE_SOURCES',
+          payload: { id: assistantId, sources },
+        });
+      },
+      onToolCall: (call: ChatToolCall) => {
+        dispatch({
+          type: 'ADD_TOOL_CALL',
+          payload: { id: assistantId, call },
+        });
+      },
+      onComplete: (signature?: string) => {
+        dispatch({ type: 'COMPLETE_MESSAGE', payload: { id: assistantId, signature } });
         dispatch({ type: 'COMPLETE_MESSAGE', payload: { id: messageId } });
       },
       onError: (errorMessage: string) => {
@@ -397,8 +555,11 @@ export function ChatProvider({ children }: ChatProviderProps) {
   }, [state.messages]);
 
   // Action: Clear conversation and start fresh
+  // (a shared copy stays reachable by its link until it expires)
   const clearConversation = useCallback(() => {
     dispatch({ type: 'CLEAR_CONVERSATION' });
+    lastSyncedId.current = null;
+    saveSavedConversation(null);
     // Clear session storage as well
     if (typeof window !== 'undefined') {
       try {
@@ -434,6 +595,28 @@ export function ChatProvider({ children }: ChatProviderProps) {
     await sendMessage(state.lastFailedMessage);
   }, [state.lastFailedMessage, state.messages, sendMessage]);
 
+  // Action: Share the conversation (saves it on the server on first use)
+  const shareConversation = useCallback(async (): Promise<string | null> => {
+    const lastId = state.messages[state.messages.length - 1]?.id ?? null;
+
+    if (state.saved) {
+      const outcome = await syncSharedConversation(state.saved, state.messages);
+      if (outcome === 'saved') {
+        lastSyncedId.current = lastId;
+        return state.saved.shareUrl;
+      }
+      if (outcome === 'failed') return null;
+      // The server copy expired: share anew below
+    }
+
+    const saved = await saveSharedConversation(state.messages);
+    dispatch({ type: 'SET_SAVED', payload: saved });
+    saveSavedConversation(saved);
+    if (!saved) return null;
+    lastSyncedId.current = lastId;
+    return saved.shareUrl;
+  }, [state.messages, state.saved]);
+
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo<ChatContextValue>(
     () => ({
@@ -446,6 +629,8 @@ export function ChatProvider({ children }: ChatProviderProps) {
       sendMessage,
       clearConversation,
       retryLastMessage,
+      shareUrl: state.saved?.shareUrl ?? null,
+      shareConversation,
     }),
     [
       state.isOpen,
@@ -457,6 +642,8 @@ export function ChatProvider({ children }: ChatProviderProps) {
       sendMessage,
       clearConversation,
       retryLastMessage,
+      state.saved,
+      shareConversation,
     ]
   );
 
@@ -491,6 +678,8 @@ export {
   deserializeMessage,
   saveToSessionStorage,
   loadFromSessionStorage,
+  saveSavedConversation,
+  loadSavedConversation,
   createWelcomeMessage,
   initialChatState,
   chatReducer,
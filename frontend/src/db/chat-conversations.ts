@@ -0,0 +1,55 @@
+/**
+ * Shared chat conversations — the only place that talks to the
+ * chat_conversations table. Tokens arrive here already hashed.
+ */
+
+import { and, eq, lt } from "drizzle-orm";
+import { getDb } from "@/db/client";
+import { chatConversations, type ChatConversation } from "@/db/schema";
+import type { TranscriptMessage } from "@/types/chat";
+
+export async function insertChatConversation(values: {
+  ownerToken: string;
+  shareToken: string;
+  messages: TranscriptMessage[];
+}): Promise<string> {
+  const rows = await getDb().insert(chatConversations).values(values).returning({ id: chatConversations.id });
+  return rows[0]!.id;
+}
+
+export async function findChatConversation(id: string): Promise<ChatConversation | null> {
+  const rows = await getDb().select().from(chatConversations).where(eq(chatConversations.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+export async function findChatConversationByShareToken(shareToken: string): Promise<ChatConversation | null> {
+  const rows = await getDb()
+    .select()
+    .from(chatConversations)
+    .where(eq(chatConversations.shareToken, shareToken))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** Replace the messages of a conversation. Returns false when id and owner token do not match a row. */
+export async function updateChatConversationMessages(
+  id: string,
+  ownerToken: string,
+  messages: TranscriptMessage[],
+): Promise<boolean> {
+  const rows = await getDb()
+    .update(chatConversations)
+    .set({ messages, updatedAt: new Date() })
+    .where(and(eq(chatConversations.id, id), eq(chatConversations.ownerToken, ownerToken)))
+    .returning({ id: chatConversations.id });
+  return rows.length > 0;
+}
+
+/** Delete conversations last updated before `cutoff`. Returns the count. */
+export async function purgeChatConversationsUpdatedBefore(cutoff: Date): Promise<number> {
+  const rows = await getDb()
+    .delete(chatConversations)
+    .where(lt(chatConversations.updatedAt, cutoff))
+    .returning({ id: chatConversations.id });
+  return rows.length;
+}
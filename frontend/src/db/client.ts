@@ -10,6 +10,7 @@ import { Pool } from "pg";
 import * as schema from "./schema";
 
 let dbInstance: NodePgDatabase<typeof schema> | null = null;
+let pool: Pool | null = null;
 
 export function isDatabaseConfigured(): boolean {
   return Boolean(process.env.DATABASE_URL);
@@ -26,7 +27,15 @@ export function getDb(): NodePgDatabase<typeof schema> {
   if (!dbInstance) {
     const connectionString = process.env.DATABASE_URL;
     if (!connectionString) throw new DatabaseNotConfiguredError();
-    dbInstance = drizzle(new Pool({ connectionString }), { schema });
+    pool = new Pool({ connectionString });
+    dbInstance = drizzle(pool, { schema });
   }
   return dbInstance;
 }
+
+/** Ends the pool so a one-off script (scripts/) can exit; the app never calls it. */
+export async function closeDb(): Promise<void> {
+  await pool?.end();
+  pool = null;
+  dbInstance = null;
+}
@@ -0,0 +1,167 @@
+/**
+ * eraseByEmail against a real Postgres — the case-insensitive match across
+ * every table, the invoice exception and single use can't be shown with
+ * mocks. Needs TEST_DATABASE_URL (see slots.integration.test.ts); skipped
+ * without it.
+ *
+ * @jest-environment node
+ */
+
+import path from "node:path";
+import { eq, inArray } from "drizzle-orm";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+const describeDb = TEST_DATABASE_URL ? describe : describe.skip;
+
+if (TEST_DATABASE_URL) process.env.DATABASE_URL = TEST_DATABASE_URL;
+
+import { getDb } from "@/db/client";
+import {
+  dsgvoAuditLog,
+  scorecardSubmissions,
+  workshopInvoices,
+  workshopSubmissions,
+  workshopWaitlist,
+  workshops,
+  type Workshop,
+} from "@/db/schema";
+import { ERASED, eraseByEmail, findPersonalData } from "./dsgvo";
+
+function workshopSubmission(workshopId: string, email: string, extra: Record<string, unknown> = {}) {
+  return {
+    workshopId,
+    firstName: "Erika",
+    lastName: "Musterfrau",
+    email,
+    company: "Musterfrau AG",
+    invoiceCompany: "Musterfrau AG",
+    invoiceContactName: "Erika Musterfrau",
+    invoiceEmail: email,
+    invoiceStreet: "Hauptstr. 1",
+    invoiceZip: "10115",
+    invoiceCity: "Berlin",
+    paymentPreference: "bank_transfer",
+    ...extra,
+  };
+}
+
+describeDb("eraseByEmail (Postgres)", () => {
+  let workshop: Workshop;
+  const run = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const email = `erika-${run}@firma.de`;
+  const linkId = `link-${run}`;
+
+  beforeAll(async () => {
+    await migrate(getDb(), { migrationsFolder: path.join(__dirname, "migrations") });
+    [workshop] = await getDb()
+      .insert(workshops)
+      .values({
+        slug: `dsgvo-${run}`,
+        title: "DSGVO",
+        termin: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        priceNetEur: 99,
+        capacity: 10,
+        minBookedToRun: 3,
+        adminToken: "hashed",
+      })
+      .returning();
+  });
+
+  afterAll(async () => {
+    const db = getDb();
+    const rows = await db
+      .select({ id: workshopSubmissions.id })
+      .from(workshopSubmissions)
+      .where(eq(workshopSubmissions.workshopId, workshop.id));
+    if (rows.length) {
+      await db.delete(workshopInvoices).where(inArray(workshopInvoices.submissionId, rows.map((r) => r.id)));
+    }
+    await db.delete(workshopSubmissions).where(eq(workshopSubmissions.workshopId, workshop.id));
+    await db.delete(workshopWaitlist).where(eq(workshopWaitlist.workshopId, workshop.id));
+    await db.delete(workshops).where(eq(workshops.id, workshop.id));
+    await db.delete(dsgvoAuditLog).where(eq(dsgvoAuditLog.linkId, linkId));
+    await db.$client.end();
+  });
+
+  it("erases every table once, keeps invoiced submissions anonymized and logs counts only", async () => {
+    const db = getDb();
+    const upper = email.toUpperCase();
+    await db.insert(scorecardSubmissions).values({
+      scorecard: "ki-fuehrungs-check",
+      email: upper,
+      answers: {},
+      result: {} as never,
+      doiToken: `doi-s-${run}`,
+      reportToken: `rep-s-${run}`,
+    });
+    const [reserved] = await db.insert(workshopSubmissions).values(workshopSubmission(workshop.id, email)).returning();
+    const [booked] = await db
+      .insert(workshopSubmissions)
+      .values(workshopSubmission(workshop.id, upper, { status: "booked", bookedAt: new Date() }))
+      .returning();
+    await db.insert(workshopInvoices).values({
+      invoiceNumber: `WS-T-${run}`,
+      submissionId: booked!.id,
+      workshopId: workshop.id,
+      serviceDate: workshop.termin!,
+      paidAt: new Date(),
+      description: "Workshop",
+      recipientCompany: "Musterfrau AG",
+      recipientContactName: "Erika Musterfrau",
+      recipientStreet: "Hauptstr. 1",
+      recipientZip: "10115",
+      recipientCity: "Berlin",
+      recipientCountry: "Deutschland",
+      recipientIsSmallBusiness: false,
+      taxTreatment: "standard",
+      vatRatePercent: 19,
+      netCents: 9900,
+      vatCents: 1881,
+      grossCents: 11781,
+    });
+    const [colleague] = await db
+      .insert(workshopSubmissions)
+      .values(
+        workshopSubmission(workshop.id, `max-${run}@firma.de`, { secondPersonName: "Erika", secondPersonEmail: email }),
+      )
+      .returning();
+    await db.insert(workshopWaitlist).values({
+      workshopId: workshop.id,
+      firstName: "Erika",
+      email,
+      reason: "sold_out",
+      status: "offered",
+      doiToken: `doi-w-${run}`,
+    });
+
+    const before = await findPersonalData(email);
+    expect([before.scorecard, before.workshop, before.secondPerson, before.waitlist, before.invoices].map((r) => r.length)).toEqual([1, 2, 1, 1, 1]);
+
+    const erased = await eraseByEmail(email, linkId);
+    expect(erased!.counts).toEqual({
+      scorecard: 1,
+      workshopDeleted: 1,
+      workshopAnonymized: 1,
+      secondPerson: 1,
+      waitlist: 1,
+    });
+    expect(erased!.freedWorkshopIds).toEqual([workshop.id]);
+
+    const after = await findPersonalData(email);
+    expect(Object.values(after).every((rows) => rows.length === 0)).toBe(true);
+
+    const [gone] = await db.select().from(workshopSubmissions).where(eq(workshopSubmissions.id, reserved!.id));
+    expect(gone).toBeUndefined();
+    const [kept] = await db.select().from(workshopSubmissions).where(eq(workshopSubmissions.id, booked!.id));
+    expect(kept).toMatchObject({ email: ERASED, lastName: ERASED, status: "booked", ipAtSubmit: null });
+    const [other] = await db.select().from(workshopSubmissions).where(eq(workshopSubmissions.id, colleague!.id));
+    expect(other).toMatchObject({ secondPersonName: null, secondPersonEmail: null });
+
+    const audit = await db.select().from(dsgvoAuditLog).where(eq(dsgvoAuditLog.linkId, linkId));
+    expect(audit).toHaveLength(1);
+    expect(JSON.stringify(audit[0])).not.toContain("erika");
+
+    expect(await eraseByEmail(email, linkId)).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * DSGVO self-service DB operations — find and erase everything stored for one
+ * email across the funnel tables, plus the dsgvo_audit_log table.
+ *
+ * Emails are matched case-insensitively. Workshop-Rechnungen are never
+ * deleted (§147 AO, 10 years): a submission with an invoice is anonymized
+ * instead, and the invoice keeps its own recipient snapshot.
+ */
+
+import { eq, inArray, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { getDb } from "@/db/client";
+import {
+  dsgvoAuditLog,
+  scorecardSubmissions,
+  workshopInvoices,
+  workshopSubmissions,
+  workshopWaitlist,
+  type ScorecardSubmission,
+  type WorkshopInvoice,
+  type WorkshopSubmission,
+  type WorkshopWaitlistEntry,
+} from "@/db/schema";
+
+/** Placeholder for NOT NULL text columns of an anonymized submission. */
+export const ERASED = "[gelöscht]";
+
+export interface PersonalData {
+  scorecard: ScorecardSubmission[];
+  /** Workshop submissions where the email is the Anmeldende Person. */
+  workshop: WorkshopSubmission[];
+  /** Workshop submissions naming the email as Zweit-Person. */
+  secondPerson: WorkshopSubmission[];
+  waitlist: WorkshopWaitlistEntry[];
+  /** Invoices of the `workshop` submissions. */
+  invoices: WorkshopInvoice[];
+}
+
+export interface ErasureCounts {
+  scorecard: number;
+  workshopDeleted: number;
+  workshopAnonymized: number;
+  secondPerson: number;
+  waitlist: number;
+}
+
+function emailMatches(column: AnyPgColumn, email: string): SQL {
+  return sql`lower(${column}) = ${email.trim().toLowerCase()}`;
+}
+
+/** Everything stored for `email`, per table. */
+export async function findPersonalData(email: string): Promise<PersonalData> {
+  const db = getDb();
+  const [scorecard, workshop, secondPerson, waitlist] = await Promise.all([
+    db.select().from(scorecardSubmissions).where(emailMatches(scorecardSubmissions.email, email)),
+    db.select().from(workshopSubmissions).where(emailMatches(workshopSubmissions.email, email)),
+    db.select().from(workshopSubmissions).where(emailMatches(workshopSubmissions.secondPersonEmail, email)),
+    db.select().from(workshopWaitlist).where(emailMatches(workshopWaitlist.email, email)),
+  ]);
+  const invoices = workshop.length
+    ? await db
+        .select()
+        .from(workshopInvoices)
+        .where(inArray(workshopInvoices.submissionId, workshop.map((s) => s.id)))
+    : [];
+  return { scorecard, workshop, secondPerson, waitlist, invoices };
+}
+
+/**
+ * Write the audit entry of an Auskunft. Returns false when this link already
+ * ran the export (the unique (linkId, action) index) — nothing is written.
+ */
+export async function insertExportAuditEntry(linkId: string, counts: Record<string, number>): Promise<boolean> {
+  const rows = await getDb()
+    .insert(dsgvoAuditLog)
+    .values({ linkId, action: "export", counts })
+    .onConflictDoNothing()
+    .returning({ id: dsgvoAuditLog.id });
+  return rows.length > 0;
+}
+
+/**
+ * Erase everything stored for `email` in one transaction, claiming the link
+ * first: returns null when the link already ran an erasure. Deletes the
+ * Scorecard and Warteliste rows and the workshop submissions without
+ * invoice; anonymizes the ones with invoice; removes the email as Zweit-Person
+ * from other people's submissions. `freedWorkshopIds` names the workshops
+ * where a held slot or a Warteliste offer was released.
+ */
+export async function eraseByEmail(
+  email: string,
+  linkId: string,
+): Promise<{ auditId: string; counts: ErasureCounts; freedWorkshopIds: string[] } | null> {
+  return getDb().transaction(async (tx) => {
+    const claimed = await tx
+      .insert(dsgvoAuditLog)
+      .values({ linkId, action: "erasure", counts: {} })
+      .onConflictDoNothing()
+      .returning({ id: dsgvoAuditLog.id });
+    if (!claimed[0]) return null;
+
+    const scorecard = await tx
+      .delete(scorecardSubmissions)
+      .where(emailMatches(scorecardSubmissions.email, email))
+      .returning({ id: scorecardSubmissions.id });
+
+    const own = await tx
+      .select({ id: workshopSubmissions.id, workshopId: workshopSubmissions.workshopId, status: workshopSubmissions.status })
+      .from(workshopSubmissions)
+      .where(emailMatches(workshopSubmissions.email, email))
+      .for("update");
+    const invoiced = own.length
+      ? await tx
+          .select({ submissionId: workshopInvoices.submissionId })
+          .from(workshopInvoices)
+          .where(inArray(workshopInvoices.submissionId, own.map((s) => s.id)))
+      : [];
+    const keep = new Set(invoiced.map((i) => i.submissionId));
+    const toDelete = own.filter((s) => !keep.has(s.id));
+    const toAnonymize = own.filter((s) => keep.has(s.id));
+
+    if (toDelete.length) {
+      await tx.delete(workshopSubmissions).where(inArray(workshopSubmissions.id, toDelete.map((s) => s.id)));
+    }
+    if (toAnonymize.length) {
+      await tx
+        .update(workshopSubmissions)
+        .set({
+          firstName: ERASED,
+          lastName: ERASED,
+          email: ERASED,
+          company: ERASED,
+          role: null,
+          secondPersonName: null,
+          secondPersonEmail: null,
+          invoiceCompany: ERASED,
+          invoiceContactName: ERASED,
+          invoiceEmail: ERASED,
+          invoiceStreet: ERASED,
+          invoiceZip: ERASED,
+          invoiceCity: ERASED,
+          invoiceUstId: null,
+          newsletterDoiToken: null,
+          trackingId: null,
+          confirmPaymentToken: null,
+          cancelToken: null,
+          ipAtSubmit: null,
+          userAgent: null,
+          updatedAt: new Date(),
+        })
+        .where(inArray(workshopSubmissions.id, toAnonymize.map((s) => s.id)));
+    }
+
+    const secondPerson = await tx
+      .update(workshopSubmissions)
+      .set({ secondPersonName: null, secondPersonEmail: null, updatedAt: new Date() })
+      .where(emailMatches(workshopSubmissions.secondPersonEmail, email))
+      .returning({ id: workshopSubmissions.id });
+
+    const waitlist = await tx
+      .delete(workshopWaitlist)
+      .where(emailMatches(workshopWaitlist.email, email))
+      .returning({ workshopId: workshopWaitlist.workshopId, status: workshopWaitlist.status });
+
+    const counts: ErasureCounts = {
+      scorecard: scorecard.length,
+      workshopDeleted: toDelete.length,
+      workshopAnonymized: toAnonymize.length,
+      secondPerson: secondPerson.length,
+      waitlist: waitlist.length,
+    };
+    await tx.update(dsgvoAuditLog).set({ counts: { ...counts } }).where(eq(dsgvoAuditLog.id, claimed[0].id));
+
+    const freedWorkshopIds = [
+      ...new Set([
+        ...toDelete.filter((s) => s.status !== "cancelled").map((s) => s.workshopId),
+        ...waitlist.filter((w) => w.status === "offered").map((w) => w.workshopId),
+      ]),
+    ];
+    return { auditId: claimed[0].id, counts, freedWorkshopIds };
+  });
+}
+
+/** Record the outcome of the CleverReach receiver deletion on an erasure entry. */
+export async function setAuditCleverReach(auditId: string, outcome: string): Promise<void> {
+  await getDb().update(dsgvoAuditLog).set({ cleverreach: outcome }).where(eq(dsgvoAuditLog.id, auditId));
+}
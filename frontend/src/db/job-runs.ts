@@ -0,0 +1,75 @@
+/**
+ * Scheduler job runs — the only place that talks to the job_runs table, plus
+ * the Postgres advisory lock that keeps a job from running in two containers
+ * at once.
+ */
+
+import { asc, eq, sql } from "drizzle-orm";
+import { getDb } from "@/db/client";
+import { jobRuns, type JobRun } from "@/db/schema";
+
+/** First key of the two-int advisory lock — keeps job locks apart from any other lock use. */
+const JOB_LOCK_NAMESPACE = 80_811;
+
+/**
+ * Run `fn` while holding the transaction-scoped advisory lock for `name`.
+ * Does not wait: when another process holds the lock, `fn` is not called.
+ * The lock's transaction only carries the lock — `fn` queries through the
+ * pool as usual — and releases it on commit, also when `fn` throws.
+ */
+export async function withJobLock<T>(
+  name: string,
+  fn: () => Promise<T>,
+): Promise<{ acquired: false } | { acquired: true; value: T }> {
+  return getDb().transaction(async (tx) => {
+    const result = await tx.execute<{ locked: boolean }>(
+      sql`select pg_try_advisory_xact_lock(${JOB_LOCK_NAMESPACE}, hashtext(${name})) as locked`,
+    );
+    if (!result.rows[0]?.locked) return { acquired: false as const };
+    return { acquired: true as const, value: await fn() };
+  });
+}
+
+export async function getJobRuns(): Promise<JobRun[]> {
+  return getDb().select().from(jobRuns).orderBy(asc(jobRuns.name));
+}
+
+export async function findJobRun(name: string): Promise<JobRun | null> {
+  const rows = await getDb().select().from(jobRuns).where(eq(jobRuns.name, name)).limit(1);
+  return rows[0] ?? null;
+}
+
+/** Record the start of a run (creates the row on the first run). */
+export async function markJobStarted(name: string, startedAt: Date): Promise<void> {
+  const running = {
+    lastStatus: "running",
+    lastStartedAt: startedAt,
+    lastFinishedAt: null,
+    lastDurationMs: null,
+    lastResult: null,
+    lastError: null,
+  };
+  await getDb()
+    .insert(jobRuns)
+    .values({ name, ...running })
+    .onConflictDoUpdate({ target: jobRuns.name, set: running });
+}
+
+/** Record the outcome of a run and bump the counters. */
+export async function markJobFinished(
+  name: string,
+  outcome: { finishedAt: Date; durationMs: number; result?: Record<string, unknown>; error?: string },
+): Promise<void> {
+  await getDb()
+    .update(jobRuns)
+    .set({
+      lastStatus: outcome.error ? "error" : "ok",
+      lastFinishedAt: outcome.finishedAt,
+      lastDurationMs: outcome.durationMs,
+      lastResult: outcome.result ?? null,
+      lastError: outcome.error ?? null,
+      runCount: sql`${jobRuns.runCount} + 1`,
+      errorCount: outcome.error ? sql`${jobRuns.errorCount} + 1` : jobRuns.errorCount,
+    })
+    .where(eq(jobRuns.name, name));
+}
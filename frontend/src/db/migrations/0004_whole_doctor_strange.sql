@@ -0,0 +1 @@
+ALTER TABLE "workshop_submissions" ADD COLUMN "newsletter_doi_token" text;
\ No newline at end of file
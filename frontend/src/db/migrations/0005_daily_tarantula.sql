@@ -0,0 +1,26 @@
+CREATE TABLE "workshop_waitlist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"first_name" text NOT NULL,
+	"email" text NOT NULL,
+	"company" text,
+	"reason" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"doi_token" text NOT NULL,
+	"confirmed_at" timestamp with time zone,
+	"offer_token" text,
+	"offered_at" timestamp with time zone,
+	"offer_expires_at" timestamp with time zone,
+	"claimed_at" timestamp with time zone,
+	"ip_at_submit" text,
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "workshop_waitlist_doi_token_unique" UNIQUE("doi_token"),
+	CONSTRAINT "workshop_waitlist_offer_token_unique" UNIQUE("offer_token")
+);
+--> statement-breakpoint
+ALTER TABLE "workshop_waitlist" ADD CONSTRAINT "workshop_waitlist_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workshop_waitlist_workshop_id_idx" ON "workshop_waitlist" USING btree ("workshop_id");--> statement-breakpoint
+CREATE INDEX "workshop_waitlist_status_idx" ON "workshop_waitlist" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "workshop_waitlist_email_idx" ON "workshop_waitlist" USING btree ("email");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "workshop_submissions" ADD COLUMN "cancel_reason" text;--> statement-breakpoint
+ALTER TABLE "workshop_submissions" ADD COLUMN "payment_reminder_sent_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "invoice_number_counters" (
+	"year" integer PRIMARY KEY NOT NULL,
+	"last_number" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "workshop_invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_number" text NOT NULL,
+	"submission_id" uuid NOT NULL,
+	"workshop_id" uuid NOT NULL,
+	"issued_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"service_date" timestamp with time zone NOT NULL,
+	"paid_at" timestamp with time zone NOT NULL,
+	"description" text NOT NULL,
+	"recipient_company" text NOT NULL,
+	"recipient_contact_name" text NOT NULL,
+	"recipient_street" text NOT NULL,
+	"recipient_zip" text NOT NULL,
+	"recipient_city" text NOT NULL,
+	"recipient_country" text NOT NULL,
+	"recipient_ust_id" text,
+	"recipient_is_small_business" boolean NOT NULL,
+	"tax_treatment" text NOT NULL,
+	"vat_rate_percent" integer NOT NULL,
+	"net_cents" integer NOT NULL,
+	"vat_cents" integer NOT NULL,
+	"gross_cents" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "workshop_invoices_invoice_number_unique" UNIQUE("invoice_number"),
+	CONSTRAINT "workshop_invoices_submission_id_unique" UNIQUE("submission_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workshop_invoices" ADD CONSTRAINT "workshop_invoices_submission_id_workshop_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."workshop_submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workshop_invoices" ADD CONSTRAINT "workshop_invoices_workshop_id_workshops_id_fk" FOREIGN KEY ("workshop_id") REFERENCES "public"."workshops"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workshop_invoices_workshop_id_idx" ON "workshop_invoices" USING btree ("workshop_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "job_runs" (
+	"name" text PRIMARY KEY NOT NULL,
+	"last_status" text NOT NULL,
+	"last_started_at" timestamp with time zone NOT NULL,
+	"last_finished_at" timestamp with time zone,
+	"last_duration_ms" integer,
+	"last_result" jsonb,
+	"last_error" text,
+	"run_count" integer DEFAULT 0 NOT NULL,
+	"error_count" integer DEFAULT 0 NOT NULL
+);
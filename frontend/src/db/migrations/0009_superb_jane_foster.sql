@@ -0,0 +1,10 @@
+CREATE TABLE "dsgvo_audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"link_id" text NOT NULL,
+	"action" text NOT NULL,
+	"counts" jsonb NOT NULL,
+	"cleverreach" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "dsgvo_audit_log_link_action_idx" ON "dsgvo_audit_log" USING btree ("link_id","action");
\ No newline at end of file
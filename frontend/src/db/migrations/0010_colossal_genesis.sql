@@ -0,0 +1,3 @@
+ALTER TABLE "scorecard_submissions" ADD COLUMN "definition_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+-- Copilot-Rollout-Check v2 (27.07.2026) added the Nutzungs-Block: rows that answered N1 were scored by v2.
+UPDATE "scorecard_submissions" SET "definition_version" = 2 WHERE "scorecard" = 'copilot-rollout-check' AND "answers" ? 'N1';
@@ -0,0 +1,12 @@
+CREATE TABLE "scorecard_step_counts" (
+	"day" date NOT NULL,
+	"scorecard" text NOT NULL,
+	"experiment" text DEFAULT '' NOT NULL,
+	"variant" text DEFAULT '' NOT NULL,
+	"step" text NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scorecard_submissions" ADD COLUMN "experiment" text;--> statement-breakpoint
+ALTER TABLE "scorecard_submissions" ADD COLUMN "variant" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "scorecard_step_counts_key_idx" ON "scorecard_step_counts" USING btree ("day","scorecard","experiment","variant","step");
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "scorecard_step_counts_key_idx";--> statement-breakpoint
+ALTER TABLE "scorecard_step_counts" ADD COLUMN "question" integer DEFAULT -1 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "scorecard_step_counts_key_idx" ON "scorecard_step_counts" USING btree ("day","scorecard","experiment","variant","step","question");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "scorecard_submissions" ADD COLUMN "partner" text;
\ No newline at end of file
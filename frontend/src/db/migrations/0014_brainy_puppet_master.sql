@@ -0,0 +1 @@
+ALTER TABLE "scorecard_submissions" ADD COLUMN "locale" text DEFAULT 'de' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Engpass-Check moves onto the generic engine: copy its rows (answers, DOI state, both tokens) so pending
+-- confirm links and sent report links keep working. The legacy table never stored the dimensions, so
+-- migrated results carry no categoryScores; the Engpass views recompute them from the answers.
+-- No ON CONFLICT: a row that can't be copied fails the migration instead of being skipped. The legacy
+-- table stays until 0017 has checked that every row arrived.
+INSERT INTO "scorecard_submissions" ("id", "scorecard", "email", "answers", "result", "definition_version", "doi_status", "doi_token", "report_token", "created_at", "confirmed_at", "ip_at_submit", "user_agent", "tid", "locale", "cleverreach_synced")
+SELECT "id", "scorecard", "email", "answers",
+	jsonb_build_object('rawSum', round("score" * 17 / 100.0)::integer, 'score', "score", 'outcome', "band", 'nextLever', "typ", 'qualified', "qualified", 'weg', "weg"),
+	1, "doi_status", "doi_token", "report_token", "created_at", "confirmed_at", "ip_at_submit", "user_agent", "tid", 'de', "cleverreach_synced"
+FROM "submissions";
@@ -0,0 +1,11 @@
+CREATE TABLE "chat_conversations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_token" text NOT NULL,
+	"share_token" text NOT NULL,
+	"messages" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "chat_conversations_share_token_unique" UNIQUE("share_token")
+);
+--> statement-breakpoint
+CREATE INDEX "chat_conversations_updated_at_idx" ON "chat_conversations" USING btree ("updated_at");
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- Drop the legacy Engpass table copied in 0015 — only once every one of its rows exists in
+-- "scorecard_submissions" (same id and report token); otherwise the migration fails and the table stays.
+DO $$
+DECLARE missing integer;
+BEGIN
+	SELECT count(*) INTO missing
+	FROM "submissions" s
+	WHERE NOT EXISTS (
+		SELECT 1 FROM "scorecard_submissions" sc WHERE sc."id" = s."id" AND sc."report_token" = s."report_token"
+	);
+	IF missing > 0 THEN
+		RAISE EXCEPTION 'submissions: % row(s) missing from scorecard_submissions, not dropping', missing;
+	END IF;
+END $$;--> statement-breakpoint
+DROP TABLE "submissions" CASCADE;
@@ -1,64 +1,33 @@
 /**
- * Drizzle schema — Engpass-Check submissions.
+ * Drizzle schema — scorecard funnels, workshops, job runs, the DSGVO audit log
+ * and shared chat conversations.
  *
- * One table holds the whole funnel state: the lead's answers, the computed
- * result (denormalized for analytics), the Double-Opt-in status, and the two
- * unguessable tokens (DOI confirmation link + personalized report link).
+ * One scorecard row holds the whole funnel state: the lead's answers, the
+ * computed result (denormalized for analytics), the Double-Opt-in status, and
+ * the two unguessable tokens (DOI confirmation link + personalized report link).
  */
 
-import { boolean, index, integer, jsonb, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  date,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
 import type { ScorecardResult } from "../lib/scorecard/types";
-
-export const submissions = pgTable(
-  "submissions",
-  {
-    id: uuid("id").primaryKey().defaultRandom(),
-    /** Which scorecard produced this row — lets the table serve future scorecards. */
-    scorecard: text("scorecard").notNull().default("engpass-check"),
-    email: text("email").notNull(),
-    /** The 11 selected option-ids, e.g. { K1: "gf", S2: "alle", ... } */
-    answers: jsonb("answers").notNull().$type<Record<string, string>>(),
-
-    // Computed result, denormalized so analytics doesn't have to recompute.
-    score: integer("score").notNull(),
-    band: text("band").notNull(),
-    typ: text("typ").notNull(),
-    weg: text("weg").notNull(),
-    qualified: boolean("qualified").notNull(),
-
-    // Double-Opt-in
-    doiStatus: text("doi_status").notNull().default("pending"), // pending | confirmed | expired
-    doiToken: text("doi_token").notNull().unique(),
-    reportToken: text("report_token").notNull().unique(),
-
-    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
-    confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
-
-    // DOI audit trail (DSGVO-minimal — proof of consent)
-    ipAtSubmit: text("ip_at_submit"),
-    userAgent: text("user_agent"),
-
-    /** trackmysales visitor id captured from ?tid on landing (null if untracked). */
-    tid: text("tid"),
-
-    cleverreachSynced: boolean("cleverreach_synced").notNull().default(false),
-  },
-  (t) => [
-    index("submissions_scorecard_idx").on(t.scorecard),
-    index("submissions_created_at_idx").on(t.createdAt),
-    index("submissions_typ_idx").on(t.typ),
-    index("submissions_weg_idx").on(t.weg),
-  ],
-);
-
-export type Submission = typeof submissions.$inferSelect;
-export type NewSubmission = typeof submissions.$inferInsert;
+import type { TranscriptMessage } from "../types/chat";
 
 /**
  * Generic scorecard funnel state — one row per opt-in. The scorecard-specific
  * result lives in `result jsonb` (no per-scorecard columns), so this one table
- * serves every config-driven scorecard. The Engpass-Check uses its own
- * `submissions` table and is unaffected.
+ * serves every registered scorecard, the Engpass-Check included (its rows
+ * from the former `submissions` table were migrated in 0015; 0017 drops that
+ * table once every row is verified to be here).
  */
 export const scorecardSubmissions = pgTable(
   "scorecard_submissions",
@@ -68,6 +37,8 @@ export const scorecardSubmissions = pgTable(
     email: text("email").notNull(),
     answers: jsonb("answers").notNull().$type<Record<string, string | string[]>>(),
     result: jsonb("result").notNull().$type<ScorecardResult>(),
+    // ScorecardDefinition.version that produced `result` (rows from before versioning = 1).
+    definitionVersion: integer("definition_version").notNull().default(1),
     doiStatus: text("doi_status").notNull().default("pending"), // pending | confirmed | expired
     doiToken: text("doi_token").notNull().unique(),
     reportToken: text("report_token").notNull().unique(),
@@ -76,7 +47,12 @@ export const scorecardSubmissions = pgTable(
     ipAtSubmit: text("ip_at_submit"), // DSGVO-Consent-Nachweis
     userAgent: text("user_agent"),
     tid: text("tid"), // trackmysales attribution (optional)
+    partner: text("partner"), // embedding partner (/embed/<slug>?partner=), null = our own page
+    locale: text("locale").notNull().default("de"), // language the lead used — mails and report follow it
     cleverreachSynced: boolean("cleverreach_synced").notNull().default(false),
+    // A/B experiment the lead was in (lib/scorecard/experiments.ts); null = none running.
+    experiment: text("experiment"),
+    variant: text("variant"),
   },
   (t) => [
     index("scorecard_submissions_scorecard_idx").on(t.scorecard),
@@ -87,6 +63,39 @@ export const scorecardSubmissions = pgTable(
 export type ScorecardSubmission = typeof scorecardSubmissions.$inferSelect;
 export type NewScorecardSubmission = typeof scorecardSubmissions.$inferInsert;
 
+/**
+ * Scorecard funnel steps before the opt-in (intro viewed, quiz started, each
+ * question reached, result shown) — bare daily counters per scorecard,
+ * experiment variant, step and question. No visitor id, IP or cookie is
+ * stored: the funnel in front of the email is only ever counted, never
+ * tracked per person. '' = no experiment running.
+ */
+export const scorecardStepCounts = pgTable(
+  "scorecard_step_counts",
+  {
+    day: date("day", { mode: "string" }).notNull(), // UTC
+    scorecard: text("scorecard").notNull(),
+    experiment: text("experiment").notNull().default(""),
+    variant: text("variant").notNull().default(""),
+    step: text("step").notNull(), // view | start | question | finish
+    /** Index into `definition.questions` for step "question", -1 otherwise (part of the key, so no NULL). */
+    question: integer("question").notNull().default(-1),
+    count: integer("count").notNull().default(0),
+  },
+  (t) => [
+    uniqueIndex("scorecard_step_counts_key_idx").on(
+      t.day,
+      t.scorecard,
+      t.experiment,
+      t.variant,
+      t.step,
+      t.question,
+    ),
+  ],
+);
+
+export type ScorecardStepCount = typeof scorecardStepCounts.$inferSelect;
+
 /**
  * Workshop funnel — paid workshop signups (distinct from the gratis scorecard
  * funnels). Two tables: the workshop entity (termine, capacity, price) and the
@@ -157,6 +166,8 @@ export const workshopSubmissions = pgTable(
 
     // Newsletter
     newsletterOptIn: boolean("newsletter_opt_in").notNull().default(false),
+    /** Newsletter DOI token (SHA-256 hash, ADR-0002); null when no opt-in was given. */
+    newsletterDoiToken: text("newsletter_doi_token"),
     newsletterDoiConfirmedAt: timestamp("newsletter_doi_confirmed_at", { withTimezone: true }),
 
     // Status machine: reserved → booked | cancelled (terminal)
@@ -164,6 +175,10 @@ export const workshopSubmissions = pgTable(
     reservedAt: timestamp("reserved_at", { withTimezone: true }).notNull().defaultNow(),
     bookedAt: timestamp("booked_at", { withTimezone: true }),
     cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    /** Why the reservation was cancelled: admin (magic link) | payment_expired (job). */
+    cancelReason: text("cancel_reason"),
+    /** Zahlungserinnerung sent by the reservations job (at most once). */
+    paymentReminderSentAt: timestamp("payment_reminder_sent_at", { withTimezone: true }),
 
     // TrackMySales
     trackingId: text("tracking_id"),
@@ -191,3 +206,179 @@ export const workshopSubmissions = pgTable(
 
 export type WorkshopSubmission = typeof workshopSubmissions.$inferSelect;
 export type NewWorkshopSubmission = typeof workshopSubmissions.$inferInsert;
+
+/**
+ * Workshop-Warteliste — interest for a sold-out or not-yet-scheduled Termin.
+ *
+ * Status machine:
+ *   pending (DOI open) → waiting (confirmed, in the queue)
+ *   waiting → offered (reservation link sent, valid until offerExpiresAt)
+ *   offered → claimed (reserved via the link) | expired (link lapsed, next in line)
+ * Queue order is createdAt asc among waiting rows.
+ */
+export const workshopWaitlist = pgTable(
+  "workshop_waitlist",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    workshopId: uuid("workshop_id").notNull().references(() => workshops.id),
+
+    firstName: text("first_name").notNull(),
+    email: text("email").notNull(),
+    company: text("company"),
+    /** Why the person could not reserve directly: sold_out | no_termin */
+    reason: text("reason").notNull(),
+
+    status: text("status").notNull().default("pending"), // pending | waiting | offered | claimed | expired
+
+    // Double-Opt-in (SHA-256 hash, ADR-0002)
+    doiToken: text("doi_token").notNull().unique(),
+    confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
+
+    // Reservation offer (SHA-256 hash, ADR-0002)
+    offerToken: text("offer_token").unique(),
+    offeredAt: timestamp("offered_at", { withTimezone: true }),
+    offerExpiresAt: timestamp("offer_expires_at", { withTimezone: true }),
+    claimedAt: timestamp("claimed_at", { withTimezone: true }),
+
+    // DOI audit trail (DSGVO-minimal)
+    ipAtSubmit: text("ip_at_submit"),
+    userAgent: text("user_agent"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("workshop_waitlist_workshop_id_idx").on(t.workshopId),
+    index("workshop_waitlist_status_idx").on(t.status),
+    index("workshop_waitlist_email_idx").on(t.email),
+  ],
+);
+
+export type WorkshopWaitlistEntry = typeof workshopWaitlist.$inferSelect;
+export type NewWorkshopWaitlistEntry = typeof workshopWaitlist.$inferInsert;
+
+/**
+ * Invoice numbers (§14 UStG: fortlaufend, einmalig) — one counter row per
+ * year, bumped atomically inside the transaction that writes the invoice, so
+ * a failed issue rolls its number back and the sequence has no gaps.
+ */
+export const invoiceNumberCounters = pgTable("invoice_number_counters", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull(),
+});
+
+/**
+ * Workshop-Rechnung — one per booked submission, issued on confirm_payment.
+ *
+ * The row is the invoice: recipient, amounts and tax treatment are copied at
+ * issue time and never change, so the PDF rendered from it later (admin
+ * download) is identical to the one attached to the Buchungs-Bestätigung.
+ * Amounts are in cents.
+ */
+export const workshopInvoices = pgTable(
+  "workshop_invoices",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    invoiceNumber: text("invoice_number").notNull().unique(),
+    submissionId: uuid("submission_id")
+      .notNull()
+      .unique()
+      .references(() => workshopSubmissions.id),
+    workshopId: uuid("workshop_id").notNull().references(() => workshops.id),
+    issuedAt: timestamp("issued_at", { withTimezone: true }).notNull().defaultNow(),
+    /** Leistungsdatum — the Termin. */
+    serviceDate: timestamp("service_date", { withTimezone: true }).notNull(),
+    /** Payment confirmation — the invoice is issued as already paid. */
+    paidAt: timestamp("paid_at", { withTimezone: true }).notNull(),
+    description: text("description").notNull(),
+
+    // Rechnungsempfänger (snapshot)
+    recipientCompany: text("recipient_company").notNull(),
+    recipientContactName: text("recipient_contact_name").notNull(),
+    recipientStreet: text("recipient_street").notNull(),
+    recipientZip: text("recipient_zip").notNull(),
+    recipientCity: text("recipient_city").notNull(),
+    recipientCountry: text("recipient_country").notNull(),
+    recipientUstId: text("recipient_ust_id"),
+    recipientIsSmallBusiness: boolean("recipient_is_small_business").notNull(),
+
+    // Amounts
+    taxTreatment: text("tax_treatment").notNull(), // standard | reverse_charge | third_country
+    vatRatePercent: integer("vat_rate_percent").notNull(),
+    netCents: integer("net_cents").notNull(),
+    vatCents: integer("vat_cents").notNull(),
+    grossCents: integer("gross_cents").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("workshop_invoices_workshop_id_idx").on(t.workshopId)],
+);
+
+export type WorkshopInvoice = typeof workshopInvoices.$inferSelect;
+export type NewWorkshopInvoice = typeof workshopInvoices.$inferInsert;
+
+/**
+ * Last run of every in-app scheduler job (lib/jobs) — one row per job name,
+ * overwritten on each run. Also the cross-container "already ran" check: a
+ * job whose lastStartedAt is younger than its interval is skipped.
+ */
+export const jobRuns = pgTable("job_runs", {
+  name: text("name").primaryKey(),
+  lastStatus: text("last_status").notNull(), // running | ok | error
+  lastStartedAt: timestamp("last_started_at", { withTimezone: true }).notNull(),
+  lastFinishedAt: timestamp("last_finished_at", { withTimezone: true }),
+  lastDurationMs: integer("last_duration_ms"),
+  /** What the job reported (counts) — never personal data. */
+  lastResult: jsonb("last_result").$type<Record<string, unknown>>(),
+  lastError: text("last_error"),
+  runCount: integer("run_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+});
+
+export type JobRun = typeof jobRuns.$inferSelect;
+
+/**
+ * DSGVO self-service audit log (lib/dsgvo) — one row per completed Auskunft
+ * (Art. 15) or Löschung (Art. 17). Holds NO personal data: the link is
+ * identified by the hash of its random nonce, the outcome by row counts.
+ * (linkId, action) is unique, which is what makes each link single-use.
+ */
+export const dsgvoAuditLog = pgTable(
+  "dsgvo_audit_log",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** SHA-256 of the link nonce — never the email. */
+    linkId: text("link_id").notNull(),
+    action: text("action").notNull(), // export | erasure
+    /** Rows found (export) or removed/anonymized (erasure), per table. */
+    counts: jsonb("counts").$type<Record<string, number>>().notNull(),
+    /** Erasure only: deleted | not_found | skipped | failed. */
+    cleverreach: text("cleverreach"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [uniqueIndex("dsgvo_audit_log_link_action_idx").on(t.linkId, t.action)],
+);
+
+export type DsgvoAuditEntry = typeof dsgvoAuditLog.$inferSelect;
+
+/**
+ * Chat conversations a visitor chose to share (lib/chat-share). Stored only
+ * after the "share" action, PII-scrubbed, and deleted CHAT_RETENTION_DAYS
+ * after the last update. Both tokens are SHA-256 hashes (as ADR-0002): the
+ * owner token lets the visitor's browser keep the copy in sync, the share
+ * token opens the read-only transcript page.
+ */
+export const chatConversations = pgTable(
+  "chat_conversations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    ownerToken: text("owner_token").notNull(),
+    shareToken: text("share_token").notNull().unique(),
+    messages: jsonb("messages").notNull().$type<TranscriptMessage[]>(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("chat_conversations_updated_at_idx").on(t.updatedAt)],
+);
+
+export type ChatConversation = typeof chatConversations.$inferSelect;
@@ -0,0 +1,44 @@
+/**
+ * Scorecard step counters repository — the only place that talks to the
+ * scorecard_step_counts table.
+ */
+
+import { and, gte, lt, sql } from "drizzle-orm";
+import { getDb } from "./client";
+import { scorecardStepCounts } from "./schema";
+
+export interface StepKey {
+  scorecard: string;
+  /** '' when no experiment is running. */
+  experiment: string;
+  variant: string;
+  step: string;
+  /** Question index for step "question", -1 otherwise. */
+  question: number;
+}
+
+/** +1 on today's (UTC) counter for `key`, creating the row on first use. */
+export async function incrementScorecardStep(key: StepKey, now: Date = new Date()): Promise<void> {
+  await getDb()
+    .insert(scorecardStepCounts)
+    .values({ ...key, day: now.toISOString().slice(0, 10), count: 1 })
+    .onConflictDoUpdate({
+      target: [
+        scorecardStepCounts.day,
+        scorecardStepCounts.scorecard,
+        scorecardStepCounts.experiment,
+        scorecardStepCounts.variant,
+        scorecardStepCounts.step,
+        scorecardStepCounts.question,
+      ],
+      set: { count: sql`${scorecardStepCounts.count} + 1` },
+    });
+}
+
+/** Analytics (/admin/funnels): all counters of the UTC days in [fromDay, toDay). */
+export async function getScorecardStepCountsBetween(fromDay: string, toDay: string) {
+  return getDb()
+    .select()
+    .from(scorecardStepCounts)
+    .where(and(gte(scorecardStepCounts.day, fromDay), lt(scorecardStepCounts.day, toDay)));
+}
@@ -3,7 +3,7 @@
  * scorecard_submissions table.
  */
 
-import { and, eq, lt } from "drizzle-orm";
+import { and, asc, eq, gte, lt } from "drizzle-orm";
 import { getDb } from "./client";
 import {
   scorecardSubmissions,
@@ -67,3 +67,37 @@ export async function purgeScorecardPendingOlderThan(cutoff: Date): Promise<numb
     .returning({ id: scorecardSubmissions.id });
   return rows.length;
 }
+
+/** Analytics (/admin/funnels): the result columns of every submission created in [from, to). */
+export async function getScorecardSubmissionsCreatedBetween(from: Date, to: Date) {
+  return getDb()
+    .select({
+      scorecard: scorecardSubmissions.scorecard,
+      answers: scorecardSubmissions.answers,
+      result: scorecardSubmissions.result,
+      doiStatus: scorecardSubmissions.doiStatus,
+      tid: scorecardSubmissions.tid,
+      partner: scorecardSubmissions.partner,
+      experiment: scorecardSubmissions.experiment,
+      variant: scorecardSubmissions.variant,
+      createdAt: scorecardSubmissions.createdAt,
+    })
+    .from(scorecardSubmissions)
+    .where(and(gte(scorecardSubmissions.createdAt, from), lt(scorecardSubmissions.createdAt, to)))
+    .orderBy(asc(scorecardSubmissions.createdAt));
+}
+
+/** Recompute tool: the stored answers + result of every submission of one scorecard, oldest first. */
+export async function getScorecardSubmissionsForRecompute(scorecard: string) {
+  return getDb()
+    .select({
+      id: scorecardSubmissions.id,
+      definitionVersion: scorecardSubmissions.definitionVersion,
+      answers: scorecardSubmissions.answers,
+      result: scorecardSubmissions.result,
+      createdAt: scorecardSubmissions.createdAt,
+    })
+    .from(scorecardSubmissions)
+    .where(eq(scorecardSubmissions.scorecard, scorecard))
+    .orderBy(asc(scorecardSubmissions.createdAt));
+}
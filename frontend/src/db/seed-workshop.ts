@@ -58,7 +58,8 @@ async function main() {
 
   console.log("✓ Workshop ki-souveraenitaet seeded (termin NULL = not bookable yet)");
   console.log(`  Admin overview URL: /workshop/admin?token=${adminTokenPlaintext}`);
-  console.log("  (Store this token — it is not shown again.)");
+  console.log("  (Store this token — it is not shown again. Set it as WORKSHOP_ADMIN_TOKEN to");
+  console.log("   include the overview link in the Admin-Notification-Mail.)");
 
   await pool.end();
 }
@@ -0,0 +1,74 @@
+/**
+ * Workshop invoice DB operations — the only place that talks to the
+ * workshop_invoices and invoice_number_counters tables.
+ *
+ * Issuing is idempotent per submission: the submission row is locked, an
+ * existing invoice is returned as is, and only otherwise the year's counter is
+ * bumped and the invoice written — all in one transaction, so a repeat or a
+ * parallel call never burns a second number.
+ */
+
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "@/db/client";
+import {
+  invoiceNumberCounters,
+  workshopInvoices,
+  workshopSubmissions,
+  type NewWorkshopInvoice,
+  type WorkshopInvoice,
+} from "@/db/schema";
+
+/** The invoice of a submission, if one was issued. */
+export async function findInvoiceBySubmissionId(submissionId: string): Promise<WorkshopInvoice | null> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(workshopInvoices)
+    .where(eq(workshopInvoices.submissionId, submissionId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** All invoices of a workshop (admin overview). */
+export async function getInvoicesForWorkshop(workshopId: string): Promise<WorkshopInvoice[]> {
+  const db = getDb();
+  return db.select().from(workshopInvoices).where(eq(workshopInvoices.workshopId, workshopId));
+}
+
+/**
+ * Write the invoice of a submission with the next number of `year`, or return
+ * the one that already exists. `build` gets the sequence number (1, 2, …) and
+ * returns the row — the caller owns the number format.
+ */
+export async function insertInvoiceWithNextNumber(
+  submissionId: string,
+  year: number,
+  build: (sequence: number) => NewWorkshopInvoice,
+): Promise<WorkshopInvoice> {
+  return getDb().transaction(async (tx) => {
+    await tx
+      .select({ id: workshopSubmissions.id })
+      .from(workshopSubmissions)
+      .where(eq(workshopSubmissions.id, submissionId))
+      .for("update");
+
+    const existing = await tx
+      .select()
+      .from(workshopInvoices)
+      .where(eq(workshopInvoices.submissionId, submissionId))
+      .limit(1);
+    if (existing[0]) return existing[0];
+
+    const counter = await tx
+      .insert(invoiceNumberCounters)
+      .values({ year, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: invoiceNumberCounters.year,
+        set: { lastNumber: sql`${invoiceNumberCounters.lastNumber} + 1` },
+      })
+      .returning({ lastNumber: invoiceNumberCounters.lastNumber });
+
+    const rows = await tx.insert(workshopInvoices).values(build(counter[0]!.lastNumber)).returning();
+    return rows[0]!;
+  });
+}
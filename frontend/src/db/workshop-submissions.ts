@@ -2,7 +2,7 @@
  * Workshop submission DB operations.
  */
 
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc, isNull } from "drizzle-orm";
 import { getDb } from "@/db/client";
 import {
   workshopSubmissions,
@@ -45,28 +45,101 @@ export async function findByCancelToken(tokenHash: string): Promise<WorkshopSubm
   return rows[0] ?? null;
 }
 
-/** Transition a submission to 'booked' (sets bookedAt, clears action tokens). */
+/** Find a submission by id (re-read after a lost transition race). */
+export async function findWorkshopSubmissionById(id: string): Promise<WorkshopSubmission | null> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(workshopSubmissions)
+    .where(eq(workshopSubmissions.id, id))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Transition a submission to 'booked' (sets bookedAt). Guarded on
+ * status = 'reserved', so the action tokens are single-use via the status flag
+ * (ADR-0002) — they stay in place so a second click can be recognised and
+ * answered with "already done" instead of "invalid link".
+ * Returns null when the row was no longer 'reserved' (lost race / repeat click).
+ */
 export async function markBooked(id: string): Promise<WorkshopSubmission | null> {
   const db = getDb();
   const rows = await db
     .update(workshopSubmissions)
-    .set({ status: "booked", bookedAt: new Date(), confirmPaymentToken: null, cancelToken: null, updatedAt: new Date() })
+    .set({ status: "booked", bookedAt: new Date(), updatedAt: new Date() })
     .where(and(eq(workshopSubmissions.id, id), eq(workshopSubmissions.status, "reserved")))
     .returning();
   return rows[0] ?? null;
 }
 
-/** Transition a submission to 'cancelled' (sets cancelledAt, clears action tokens). */
-export async function markCancelled(id: string): Promise<WorkshopSubmission | null> {
+/** Who cancelled: Daniel via magic link, or the reservations job after the payment deadline. */
+export type CancelReason = "admin" | "payment_expired";
+
+/** Transition a submission to 'cancelled' (sets cancelledAt + reason). Same guard as `markBooked`. */
+export async function markCancelled(
+  id: string,
+  reason: CancelReason = "admin",
+): Promise<WorkshopSubmission | null> {
   const db = getDb();
   const rows = await db
     .update(workshopSubmissions)
-    .set({ status: "cancelled", cancelledAt: new Date(), confirmPaymentToken: null, cancelToken: null, updatedAt: new Date() })
+    .set({ status: "cancelled", cancelledAt: new Date(), cancelReason: reason, updatedAt: new Date() })
     .where(and(eq(workshopSubmissions.id, id), eq(workshopSubmissions.status, "reserved")))
     .returning();
   return rows[0] ?? null;
 }
 
+/**
+ * Record the Zahlungserinnerung. Guarded on status = 'reserved' and no reminder
+ * yet, so parallel job runs send it at most once. Null when already done.
+ */
+export async function markPaymentReminderSent(id: string): Promise<WorkshopSubmission | null> {
+  const db = getDb();
+  const rows = await db
+    .update(workshopSubmissions)
+    .set({ paymentReminderSentAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(workshopSubmissions.id, id),
+        eq(workshopSubmissions.status, "reserved"),
+        isNull(workshopSubmissions.paymentReminderSentAt),
+      ),
+    )
+    .returning();
+  return rows[0] ?? null;
+}
+
+/** Open (unpaid) reservations of a workshop, oldest first. */
+export async function getReservedSubmissions(workshopId: string): Promise<WorkshopSubmission[]> {
+  const db = getDb();
+  return db
+    .select()
+    .from(workshopSubmissions)
+    .where(and(eq(workshopSubmissions.workshopId, workshopId), eq(workshopSubmissions.status, "reserved")))
+    .orderBy(asc(workshopSubmissions.reservedAt));
+}
+
+/** Find a submission by its newsletter DOI token hash. */
+export async function findByNewsletterDoiToken(tokenHash: string): Promise<WorkshopSubmission | null> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(workshopSubmissions)
+    .where(eq(workshopSubmissions.newsletterDoiToken, tokenHash))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** Record the newsletter Double-Opt-in (the token stays, so a repeat click reads "already"). */
+export async function confirmNewsletterDoi(id: string): Promise<void> {
+  const db = getDb();
+  await db
+    .update(workshopSubmissions)
+    .set({ newsletterDoiConfirmedAt: new Date(), updatedAt: new Date() })
+    .where(eq(workshopSubmissions.id, id));
+}
+
 /** Mark lead conversion as reported. */
 export async function markLeadReported(id: string): Promise<void> {
   const db = getDb();
@@ -96,11 +169,12 @@ export async function findWorkshopByAdminToken(tokenHash: string): Promise<Works
   return rows[0] ?? null;
 }
 
-/** Get all submissions for a workshop (for the admin overview). */
+/** Get all submissions for a workshop (for the admin overview), oldest reservation first. */
 export async function getSubmissionsForWorkshop(workshopId: string): Promise<WorkshopSubmission[]> {
   const db = getDb();
   return db
     .select()
     .from(workshopSubmissions)
-    .where(eq(workshopSubmissions.workshopId, workshopId));
+    .where(eq(workshopSubmissions.workshopId, workshopId))
+    .orderBy(asc(workshopSubmissions.reservedAt));
 }
@@ -0,0 +1,165 @@
+/**
+ * Workshop waitlist DB operations — the only place that talks to the
+ * workshop_waitlist table. Every transition is guarded on the expected
+ * current status, so a repeat click or a parallel run resolves to `null`
+ * instead of moving a row twice.
+ */
+
+import { and, asc, count, eq, gt, inArray, lt, lte } from "drizzle-orm";
+import { getDb } from "@/db/client";
+import {
+  workshopWaitlist,
+  type NewWorkshopWaitlistEntry,
+  type WorkshopWaitlistEntry,
+} from "@/db/schema";
+
+/** Statuses that still hold a place in (or at the front of) the queue. */
+export const OPEN_WAITLIST_STATUSES = ["pending", "waiting", "offered"] as const;
+
+/** Insert a new waitlist entry (status defaults to 'pending'). */
+export async function insertWaitlistEntry(
+  data: NewWorkshopWaitlistEntry,
+): Promise<WorkshopWaitlistEntry> {
+  const db = getDb();
+  const rows = await db.insert(workshopWaitlist).values(data).returning();
+  return rows[0]!;
+}
+
+/** Find an entry by its DOI token hash. */
+export async function findWaitlistByDoiToken(tokenHash: string): Promise<WorkshopWaitlistEntry | null> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(workshopWaitlist)
+    .where(eq(workshopWaitlist.doiToken, tokenHash))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** An entry for this email that is still pending, waiting or holding an offer. */
+export async function findOpenWaitlistEntryByEmail(
+  workshopId: string,
+  email: string,
+): Promise<WorkshopWaitlistEntry | null> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(workshopWaitlist)
+    .where(
+      and(
+        eq(workshopWaitlist.workshopId, workshopId),
+        eq(workshopWaitlist.email, email.toLowerCase()),
+        inArray(workshopWaitlist.status, [...OPEN_WAITLIST_STATUSES]),
+      ),
+    )
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** pending → waiting (DOI confirmed). Null when the entry was not pending. */
+export async function confirmWaitlistEntry(id: string): Promise<WorkshopWaitlistEntry | null> {
+  const db = getDb();
+  const rows = await db
+    .update(workshopWaitlist)
+    .set({ status: "waiting", confirmedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(workshopWaitlist.id, id), eq(workshopWaitlist.status, "pending")))
+    .returning();
+  return rows[0] ?? null;
+}
+
+/** offered → expired for every offer of a workshop whose deadline has passed. */
+export async function expireLapsedOffers(workshopId: string, now: Date): Promise<number> {
+  const db = getDb();
+  const rows = await db
+    .update(workshopWaitlist)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      and(
+        eq(workshopWaitlist.workshopId, workshopId),
+        eq(workshopWaitlist.status, "offered"),
+        lte(workshopWaitlist.offerExpiresAt, now),
+      ),
+    )
+    .returning({ id: workshopWaitlist.id });
+  return rows.length;
+}
+
+/** Count offers that are still valid — each one holds a free slot. */
+export async function countOpenOffers(workshopId: string, now: Date): Promise<number> {
+  const db = getDb();
+  const rows = await db
+    .select({ n: count() })
+    .from(workshopWaitlist)
+    .where(
+      and(
+        eq(workshopWaitlist.workshopId, workshopId),
+        eq(workshopWaitlist.status, "offered"),
+        gt(workshopWaitlist.offerExpiresAt, now),
+      ),
+    );
+  return Number(rows[0]?.n ?? 0);
+}
+
+/** The next confirmed entries in queue order (oldest signup first). */
+export async function getNextWaiting(workshopId: string, limit: number): Promise<WorkshopWaitlistEntry[]> {
+  const db = getDb();
+  return db
+    .select()
+    .from(workshopWaitlist)
+    .where(and(eq(workshopWaitlist.workshopId, workshopId), eq(workshopWaitlist.status, "waiting")))
+    .orderBy(asc(workshopWaitlist.createdAt))
+    .limit(limit);
+}
+
+/** waiting → offered with a fresh offer token hash. Null when the entry moved on meanwhile. */
+export async function markOffered(
+  id: string,
+  offerTokenHash: string,
+  expiresAt: Date,
+): Promise<WorkshopWaitlistEntry | null> {
+  const db = getDb();
+  const now = new Date();
+  const rows = await db
+    .update(workshopWaitlist)
+    .set({
+      status: "offered",
+      offerToken: offerTokenHash,
+      offeredAt: now,
+      offerExpiresAt: expiresAt,
+      updatedAt: now,
+    })
+    .where(and(eq(workshopWaitlist.id, id), eq(workshopWaitlist.status, "waiting")))
+    .returning();
+  return rows[0] ?? null;
+}
+
+/** A still-valid offer of this workshop by its token hash. */
+export async function findOpenOfferByToken(
+  workshopId: string,
+  offerTokenHash: string,
+  now: Date,
+): Promise<WorkshopWaitlistEntry | null> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(workshopWaitlist)
+    .where(
+      and(
+        eq(workshopWaitlist.workshopId, workshopId),
+        eq(workshopWaitlist.offerToken, offerTokenHash),
+        eq(workshopWaitlist.status, "offered"),
+        gt(workshopWaitlist.offerExpiresAt, now),
+      ),
+    )
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** Delete never-confirmed entries older than the cutoff (same retention as the funnels). */
+export async function purgeWaitlistPendingOlderThan(cutoff: Date): Promise<number> {
+  const rows = await getDb()
+    .delete(workshopWaitlist)
+    .where(and(eq(workshopWaitlist.status, "pending"), lt(workshopWaitlist.createdAt, cutoff)))
+    .returning({ id: workshopWaitlist.id });
+  return rows.length;
+}
@@ -0,0 +1,10 @@
+/**
+ * Next.js instrumentation hook — runs once when the server process starts.
+ * Starts the in-app scheduler (lib/jobs) in the Node.js runtime only; the
+ * dynamic import keeps the DB and mail code out of the edge bundle.
+ */
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startScheduler } = await import("@/lib/jobs/scheduler");
+  startScheduler();
+}
@@ -0,0 +1,106 @@
+/**
+ * Browser client for the shared-conversation API (/api/chat/conversations);
+ * the server side is conversations.ts.
+ *
+ * Sends only what can be shared: complete questions together with the answer
+ * the server signed for them. No call throws — sharing is an extra, a failure must never
+ * disturb the chat itself.
+ */
+
+import type { ChatMessage, SavedConversation, SerializedMessage, TranscriptMessage } from "@/types/chat";
+
+/**
+ * The messages of a conversation in the shape the API accepts: each question
+ * directly followed by its signed answer. Questions whose answer failed or is
+ * still streaming are left out, the server would reject them as unanswered.
+ */
+function shareableMessages(messages: ChatMessage[]): SerializedMessage[] {
+  const pairs: ChatMessage[] = [];
+  messages.forEach((msg, index) => {
+    const previous = messages[index - 1];
+    if (
+      msg.role === "assistant" &&
+      msg.status === "complete" &&
+      msg.signature &&
+      previous?.role === "user" &&
+      previous.status === "complete"
+    ) {
+      pairs.push(previous, msg);
+    }
+  });
+
+  return pairs.map((msg) => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: msg.timestamp.toISOString(),
+    status: msg.status,
+    ...(msg.sources && { sources: msg.sources }),
+    ...(msg.signature && { signature: msg.signature }),
+  }));
+}
+
+/**
+ * Store the conversation on the server
+ * @returns The handle for later updates and the share link, or null when sharing failed or is off
+ */
+export async function saveSharedConversation(
+  messages: ChatMessage[]
+): Promise<SavedConversation | null> {
+  try {
+    const response = await fetch("/api/chat/conversations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages: shareableMessages(messages) }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return {
+      id: data.id,
+      ownerToken: data.ownerToken,
+      shareUrl: new URL(data.sharePath, window.location.origin).toString(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the server copy with the current messages
+ * @returns "gone" when the server no longer has it (expired, or sharing turned off)
+ */
+export async function syncSharedConversation(
+  saved: SavedConversation,
+  messages: ChatMessage[]
+): Promise<"saved" | "gone" | "failed"> {
+  try {
+    const response = await fetch(`/api/chat/conversations/${saved.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", "X-Conversation-Token": saved.ownerToken },
+      body: JSON.stringify({ messages: shareableMessages(messages) }),
+    });
+    if (response.ok) return "saved";
+    return response.status === 404 ? "gone" : "failed";
+  } catch {
+    return "failed";
+  }
+}
+
+/**
+ * Load the saved conversation back
+ * @returns Its messages; "gone" when the server no longer has it
+ */
+export async function loadSharedConversation(
+  saved: SavedConversation
+): Promise<{ status: "ok"; messages: TranscriptMessage[] } | { status: "gone" | "failed" }> {
+  try {
+    const response = await fetch(`/api/chat/conversations/${saved.id}`, {
+      headers: { "X-Conversation-Token": saved.ownerToken },
+    });
+    if (!response.ok) return { status: response.status === 404 ? "gone" : "failed" };
+    const data = await response.json();
+    return Array.isArray(data.messages) ? { status: "ok", messages: data.messages } : { status: "failed" };
+  } catch {
+    return { status: "failed" };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Shared chat conversations — the "share this conversation" action stores a
+ * validated transcript (transcript.ts) and hands back two secrets: the owner
+ * token, kept in the visitor's browser to load and update the copy, and the
+ * share token behind the read-only /chat/<token> page. Only their SHA-256
+ * hashes are stored. Conversations are deleted CHAT_RETENTION_DAYS after
+ * their last update (scheduler job chat-retention).
+ */
+
+import { createLogger } from "@/lib/logger";
+import { isDatabaseConfigured } from "@/db/client";
+import {
+  findChatConversation,
+  findChatConversationByShareToken,
+  insertChatConversation,
+  purgeChatConversationsUpdatedBefore,
+  updateChatConversationMessages,
+} from "@/db/chat-conversations";
+import { newToken } from "@/lib/scorecard/tokens";
+import { hashToken } from "@/lib/workshop/tokens";
+import type { TranscriptMessage } from "@/types/chat";
+import { isAnswerSigningConfigured } from "./signature";
+
+const log = createLogger("ChatShare");
+
+export const CHAT_RETENTION_DAYS = 30;
+
+export interface SharedTranscript {
+  messages: TranscriptMessage[];
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+/** True when conversations can be shared (database + CHAT_SHARE_SECRET). */
+export function isChatSharingConfigured(): boolean {
+  return isDatabaseConfigured() && isAnswerSigningConfigured();
+}
+
+/** Site path of the read-only transcript page. */
+export function sharePath(shareToken: string): string {
+  return `/chat/${shareToken}`;
+}
+
+function expiresAt(updatedAt: Date): Date {
+  return new Date(updatedAt.getTime() + CHAT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** Store a new shared conversation. */
+export async function createSharedConversation(
+  messages: TranscriptMessage[],
+): Promise<{ id: string; ownerToken: string; shareToken: string }> {
+  const ownerToken = newToken();
+  const shareToken = newToken();
+  const id = await insertChatConversation({
+    ownerToken: hashToken(ownerToken),
+    shareToken: hashToken(shareToken),
+    messages,
+  });
+  log.info("Conversation shared", { messages: messages.length });
+  return { id, ownerToken, shareToken };
+}
+
+/** Replace the messages of the owner's conversation. False when id or token do not match. */
+export async function updateSharedConversation(
+  id: string,
+  ownerToken: string,
+  messages: TranscriptMessage[],
+): Promise<boolean> {
+  return updateChatConversationMessages(id, hashToken(ownerToken), messages);
+}
+
+/** The owner's own conversation, or null when id or token do not match. */
+export async function loadOwnConversation(id: string, ownerToken: string): Promise<TranscriptMessage[] | null> {
+  const row = await findChatConversation(id);
+  if (!row || row.ownerToken !== hashToken(ownerToken)) return null;
+  return row.messages;
+}
+
+/** The transcript behind a share link, or null when unknown or expired. */
+export async function findSharedTranscript(shareToken: string, now: Date = new Date()): Promise<SharedTranscript | null> {
+  const row = await findChatConversationByShareToken(hashToken(shareToken));
+  if (!row) return null;
+  const expires = expiresAt(row.updatedAt);
+  // Between the daily purges an expired row must not be shown any more.
+  if (expires <= now) return null;
+  return { messages: row.messages, updatedAt: row.updatedAt, expiresAt: expires };
+}
+
+/** Delete every conversation not updated for CHAT_RETENTION_DAYS. */
+export async function purgeExpiredConversations(now: Date = new Date()): Promise<{ deleted: number }> {
+  const cutoff = new Date(now.getTime() - CHAT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await purgeChatConversationsUpdatedBefore(cutoff);
+  log.info("Purged shared conversations", { deleted, retentionDays: CHAT_RETENTION_DAYS });
+  return { deleted };
+}
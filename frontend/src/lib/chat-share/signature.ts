@@ -0,0 +1,41 @@
+/**
+ * Signed chat answers — /api/chat signs every answer it streams (HMAC-SHA256
+ * over the question it replied to, the answer and its cited sources,
+ * CHAT_SHARE_SECRET), and a shared conversation is only stored when each
+ * assistant message carries a valid signature for the question before it.
+ * So a share link can never show an "answer" this site did not give, e.g. a
+ * rewritten one with a phishing link, nor a real answer under a question
+ * that was never asked.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { ChatSource } from "@/types/chat";
+
+function secret(): string | undefined {
+  return process.env.CHAT_SHARE_SECRET || undefined;
+}
+
+/** True when answers can be signed (CHAT_SHARE_SECRET set). */
+export function isAnswerSigningConfigured(): boolean {
+  return Boolean(secret());
+}
+
+function sign(question: string, content: string, sources: ChatSource[], key: string): string {
+  const payload = JSON.stringify([question, content, sources.map((s) => [s.type, s.title, s.href])]);
+  return createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+/** Signature of an answer to `question`, or undefined while signing is not configured. */
+export function signAnswer(question: string, content: string, sources: ChatSource[] = []): string | undefined {
+  const key = secret();
+  return key ? sign(question, content, sources, key) : undefined;
+}
+
+/** True when `signature` was issued by signAnswer for exactly this question, content and these sources. */
+export function verifyAnswer(question: string, content: string, sources: ChatSource[], signature: string): boolean {
+  const key = secret();
+  if (!key) return false;
+  const expected = Buffer.from(sign(question, content, sources, key));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
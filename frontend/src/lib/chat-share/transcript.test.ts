@@ -0,0 +1,149 @@
+/** @jest-environment node */
+
+import type { ChatSource } from "@/types/chat";
+import { signAnswer, verifyAnswer } from "./signature";
+import { MAX_TRANSCRIPT_MESSAGES, parseTranscript } from "./transcript";
+
+const ENV = { ...process.env };
+const TS = "2026-10-18T09:30:00.000Z";
+const SOURCE: ChatSource = { type: "project", title: "Project: Chat3D", href: "/about#project-chat3d" };
+
+function question(content: string) {
+  return { id: "q", role: "user", content, timestamp: TS, status: "complete" };
+}
+
+function answer(
+  content: string,
+  sources: ChatSource[] = [],
+  signature = signAnswer("Q?", content, sources),
+) {
+  return { id: "a", role: "assistant", content, timestamp: TS, status: "complete", sources, signature };
+}
+
+beforeEach(() => {
+  process.env = { ...ENV, CHAT_SHARE_SECRET: "test-share-secret" };
+});
+
+afterAll(() => {
+  process.env = ENV;
+});
+
+describe("answer signatures", () => {
+  it("bind question, content and sources", () => {
+    const signature = signAnswer("What is Chat3D?", "Chat3D generates CAD.", [SOURCE])!;
+    expect(verifyAnswer("What is Chat3D?", "Chat3D generates CAD.", [SOURCE], signature)).toBe(true);
+    expect(verifyAnswer("What is Chat3D?", "Chat3D generates CAD!", [SOURCE], signature)).toBe(false);
+    expect(verifyAnswer("What is Chat3D?", "Chat3D generates CAD.", [{ ...SOURCE, href: "/blog/other" }], signature)).toBe(
+      false,
+    );
+    expect(verifyAnswer("Is Chat3D a scam?", "Chat3D generates CAD.", [SOURCE], signature)).toBe(false);
+  });
+
+  it("are off without CHAT_SHARE_SECRET", () => {
+    const signature = signAnswer("Q?", "Hi")!;
+    delete process.env.CHAT_SHARE_SECRET;
+    expect(signAnswer("Q?", "Hi")).toBeUndefined();
+    expect(verifyAnswer("Q?", "Hi", [], signature)).toBe(false);
+  });
+});
+
+describe("parseTranscript", () => {
+  it("keeps questions and signed answers, dropping the welcome message", () => {
+    const result = parseTranscript([
+      { id: "welcome", role: "system", content: "Hi!", timestamp: TS, status: "complete" },
+      question("What is Chat3D?"),
+      answer(
+        "Chat3D turns prompts into CAD models.",
+        [SOURCE],
+        signAnswer("What is Chat3D?", "Chat3D turns prompts into CAD models.", [SOURCE]),
+      ),
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      messages: [
+        { role: "user", content: "What is Chat3D?", timestamp: TS },
+        {
+          role: "assistant",
+          content: "Chat3D turns prompts into CAD models.",
+          timestamp: TS,
+          sources: [SOURCE],
+          signature: signAnswer("What is Chat3D?", "Chat3D turns prompts into CAD models.", [SOURCE]),
+        },
+      ],
+    });
+  });
+
+  it("scrubs PII and re-signs the scrubbed pair", () => {
+    const asked = "I'm jane@example.com from 10.0.0.1, how do I reach Daniel?";
+    const result = parseTranscript([
+      question(asked),
+      answer("Write to daniel@example.com.", [], signAnswer(asked, "Write to daniel@example.com.")),
+    ]);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.messages[0].content).toBe("I'm [email] from [ip], how do I reach Daniel?");
+    const stored = result.messages[1];
+    expect(stored.content).toBe("Write to [email].");
+    expect(verifyAnswer(result.messages[0].content, stored.content, [], stored.signature!)).toBe(true);
+    // The stored copy can be sent back as is
+    expect(parseTranscript(result.messages).ok).toBe(true);
+  });
+
+  it("rejects answers the server did not sign", () => {
+    expect(parseTranscript([question("Q?"), answer("Visit [my site](https://evil.example).", [], "forged")])).toEqual({
+      ok: false,
+      error: "unsigned answer",
+    });
+    expect(parseTranscript([question("Q?"), { ...answer("An answer."), signature: undefined }]).ok).toBe(false);
+  });
+
+  it("rejects signed answers shown under another question", () => {
+    const signed = answer("Yes, he is.", [], signAnswer("Is Daniel available for projects?", "Yes, he is."));
+    expect(parseTranscript([question("Is Daniel available for projects?"), signed]).ok).toBe(true);
+    expect(parseTranscript([question("Is Daniel a fraud?"), signed])).toEqual({ ok: false, error: "unsigned answer" });
+  });
+
+  it("rejects answers moved away from their question", () => {
+    const first = answer("A CAD generator.", [], signAnswer("What is Chat3D?", "A CAD generator."));
+    const second = answer("Since 2015.", [], signAnswer("Since when?", "Since 2015."));
+    expect(parseTranscript([question("What is Chat3D?"), first, question("Since when?"), second]).ok).toBe(true);
+    expect(parseTranscript([question("What is Chat3D?"), second, question("Since when?"), first])).toEqual({
+      ok: false,
+      error: "unsigned answer",
+    });
+    expect(parseTranscript([question("What is Chat3D?"), question("Since when?"), second])).toEqual({
+      ok: false,
+      error: "unanswered question",
+    });
+    expect(parseTranscript([question("What is Chat3D?"), first, second])).toEqual({
+      ok: false,
+      error: "answer without question",
+    });
+  });
+
+  it("rejects a trailing question without its answer", () => {
+    expect(parseTranscript([question("Q?"), answer("A."), question("Added later?")])).toEqual({
+      ok: false,
+      error: "unanswered question",
+    });
+  });
+
+  it("rejects source links that leave the site", () => {
+    for (const href of ["https://evil.example", "//evil.example", "javascript:alert(1)", "/\\evil.example"]) {
+      const source = { ...SOURCE, href };
+      expect(parseTranscript([question("Q?"), answer("A.", [source])])).toEqual({ ok: false, error: "invalid sources" });
+    }
+  });
+
+  it("rejects malformed conversations", () => {
+    expect(parseTranscript("nope").ok).toBe(false);
+    expect(parseTranscript([])).toEqual({ ok: false, error: "no question asked" });
+    expect(parseTranscript([answer("Only an answer.")])).toEqual({ ok: false, error: "answer without question" });
+    expect(parseTranscript([{ ...question("Q?"), role: "tool" }]).ok).toBe(false);
+    expect(parseTranscript([{ ...question("Q?"), timestamp: "yesterday" }]).ok).toBe(false);
+    expect(parseTranscript([question("   ")]).ok).toBe(false);
+    const long = Array.from({ length: MAX_TRANSCRIPT_MESSAGES / 2 + 1 }, () => [question("Q?"), answer("A.")]).flat();
+    expect(parseTranscript(long)).toEqual({ ok: false, error: `too many messages (max ${MAX_TRANSCRIPT_MESSAGES})` });
+  });
+});
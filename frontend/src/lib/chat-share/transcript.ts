@@ -0,0 +1,111 @@
+/**
+ * Validation of a conversation sent for sharing. Untrusted client input: the
+ * conversation must alternate question and answer, every answer must carry a
+ * valid signature for the question right before it (signature.ts), source
+ * links must stay on this site, and all text is PII-scrubbed (removePII from
+ * the guardrails security logger) before it is stored. Scrubbed pairs are
+ * signed again, so the stored copy stays valid input.
+ */
+
+import { MAX_MESSAGE_LENGTH } from "@/lib/api-security";
+import { removePII } from "@/lib/guardrails/security-logger";
+import type { ChatSource, TranscriptMessage } from "@/types/chat";
+import type { ContextSectionType } from "@/types/knowledge";
+import { signAnswer, verifyAnswer } from "./signature";
+
+/** Max messages in one shared conversation. */
+export const MAX_TRANSCRIPT_MESSAGES = 100;
+
+const SOURCE_TYPES: readonly ContextSectionType[] = ["about", "experience", "project", "skill", "blog", "raw"];
+
+export type TranscriptParseResult =
+  | { ok: true; messages: TranscriptMessage[] }
+  | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Site-relative links only — no other origin, no javascript: URLs. */
+function isSiteLink(href: string): boolean {
+  return href.startsWith("/") && !href.startsWith("//") && !href.includes("\\");
+}
+
+function parseSources(value: unknown): ChatSource[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const sources: ChatSource[] = [];
+  for (const item of value) {
+    if (
+      !isRecord(item) ||
+      !SOURCE_TYPES.includes(item.type as ContextSectionType) ||
+      typeof item.title !== "string" ||
+      typeof item.href !== "string" ||
+      !isSiteLink(item.href)
+    ) {
+      return null;
+    }
+    sources.push({ type: item.type as ContextSectionType, title: item.title, href: item.href });
+  }
+  return sources;
+}
+
+function parseTimestamp(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * Turn the `messages` of a share request into storable transcript messages.
+ * System messages (the welcome text) are dropped; anything else malformed,
+ * unsigned or out of order rejects the whole conversation.
+ */
+export function parseTranscript(value: unknown): TranscriptParseResult {
+  if (!Array.isArray(value)) return { ok: false, error: "messages must be an array" };
+
+  const messages: TranscriptMessage[] = [];
+  // The question waiting for its answer, as sent (signatures cover the unscrubbed text)
+  let question: string | null = null;
+  for (const item of value) {
+    if (!isRecord(item)) return { ok: false, error: "invalid message" };
+    if (item.role === "system") continue;
+    if (item.role !== "user" && item.role !== "assistant") return { ok: false, error: "invalid role" };
+    if (typeof item.content !== "string" || !item.content.trim() || item.content.length > MAX_MESSAGE_LENGTH) {
+      return { ok: false, error: "invalid content" };
+    }
+    const timestamp = parseTimestamp(item.timestamp);
+    if (!timestamp) return { ok: false, error: "invalid timestamp" };
+
+    if (item.role === "user") {
+      if (question !== null) return { ok: false, error: "unanswered question" };
+      question = item.content;
+      messages.push({ role: "user", content: removePII(item.content), timestamp });
+      continue;
+    }
+
+    if (question === null) return { ok: false, error: "answer without question" };
+    const sources = parseSources(item.sources);
+    if (!sources) return { ok: false, error: "invalid sources" };
+    if (typeof item.signature !== "string" || !verifyAnswer(question, item.content, sources, item.signature)) {
+      return { ok: false, error: "unsigned answer" };
+    }
+    // Re-signed after scrubbing, so the owner can send the stored copy back.
+    const content = removePII(item.content);
+    messages.push({
+      role: "assistant",
+      content,
+      timestamp,
+      ...(sources.length > 0 && { sources }),
+      signature: signAnswer(removePII(question), content, sources),
+    });
+    question = null;
+  }
+
+  if (messages.length === 0) return { ok: false, error: "no question asked" };
+  if (question !== null) return { ok: false, error: "unanswered question" };
+  if (messages.length > MAX_TRANSCRIPT_MESSAGES) {
+    return { ok: false, error: `too many messages (max ${MAX_TRANSCRIPT_MESSAGES})` };
+  }
+  return { ok: true, messages };
+}
@@ -0,0 +1,76 @@
+/**
+ * The site features the chat model may call as tools, and the system prompt
+ * section telling it when to. Each call is answered with a card under the
+ * answer (run.ts) rather than fed back to the model, so one model call per
+ * question stays enough.
+ */
+
+import type { LLMTool } from "@/lib/llm";
+import { PORTFOLIO_OWNER } from "@/lib/portfolio-owner";
+import { REGISTRATIONS } from "@/scorecards";
+import type { ChatToolName } from "@/types/chat";
+
+/** Tool names, for validating calls. */
+export const CHAT_TOOL_NAMES: readonly ChatToolName[] = ["analyze_fit", "recommend_scorecard", "get_skill", "offer_booking"];
+
+export function isChatToolName(name: string): name is ChatToolName {
+  return (CHAT_TOOL_NAMES as readonly string[]).includes(name);
+}
+
+/** Tool schemas offered with every chat request. */
+export function chatTools(): LLMTool[] {
+  return [
+    {
+      name: "analyze_fit",
+      description:
+        `Run the fit analysis of ${PORTFOLIO_OWNER.firstName}'s experience against the job description ` +
+        "the visitor pasted in their latest message. Only call it when that message contains a job description.",
+      parameters: { type: "object", properties: {}, additionalProperties: false },
+    },
+    {
+      name: "recommend_scorecard",
+      description:
+        "Recommend the self-assessment check that matches the visitor's situation:\n" +
+        REGISTRATIONS.map((r) => `- ${r.definition.slug}: ${r.meta.title}`).join("\n"),
+      parameters: {
+        type: "object",
+        properties: {
+          slug: { type: "string", enum: REGISTRATIONS.map((r) => r.definition.slug) },
+        },
+        required: ["slug"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "get_skill",
+      description:
+        `Show how deep ${PORTFOLIO_OWNER.firstName}'s experience with one specific skill or technology is, ` +
+        "as rated on the transparency dashboard (core strength, working knowledge or explicit gap).",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Skill or technology, e.g. \"Amazon Bedrock\"" },
+        },
+        required: ["name"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "offer_booking",
+      description: `Offer the link to book a 30-minute call with ${PORTFOLIO_OWNER.firstName}.`,
+      parameters: { type: "object", properties: {}, additionalProperties: false },
+    },
+  ];
+}
+
+/** Appended to the chat system prompt. */
+export const CHAT_TOOL_INSTRUCTIONS = `
+
+TOOLS:
+- You can call tools that show a card under your answer: analyze_fit, recommend_scorecard, get_skill, offer_booking
+- analyze_fit: the visitor pasted a job description and wants to know whether ${PORTFOLIO_OWNER.firstName} fits the role
+- recommend_scorecard: the visitor describes a situation one of the self-assessment checks covers (e.g. GDPR-safe use of ChatGPT)
+- get_skill: the visitor asks how experienced ${PORTFOLIO_OWNER.firstName} is with a specific skill or technology
+- offer_booking: the visitor wants to talk to ${PORTFOLIO_OWNER.firstName}, hire him or book a call
+- Call a tool only when it clearly helps
+- Always write a short answer as well. The card shows the tool's result, so don't guess or repeat it`;
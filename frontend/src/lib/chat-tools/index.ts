@@ -0,0 +1,10 @@
+/**
+ * Tool calling for the chat
+ *
+ * This module provides:
+ * - The tool schemas offered to the chat model and the prompt section on when to use them
+ * - Running the calls of an answer into cards (fit analysis, scorecard, skill, booking)
+ */
+
+export * from "./definitions";
+export * from "./run";
@@ -0,0 +1,151 @@
+/**
+ * Chat tools — running the model's calls into cards against the real
+ * scorecard registry and skills content; the fit analysis itself is mocked.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockRunFitAnalysis = jest.fn();
+jest.mock("@/lib/fit-analysis-runner", () => ({
+  runFitAnalysis: (...a: unknown[]) => mockRunFitAnalysis(...a),
+}));
+
+const mockAnalyzeLimiterCheck = jest.fn();
+jest.mock("@/lib/api-security", () => ({
+  analyzeLimiter: { check: (...a: unknown[]) => mockAnalyzeLimiterCheck(...a) },
+}));
+
+import { BOOKING_URL } from "@/components/coaching/content";
+import type { LLMToolCall } from "@/lib/llm";
+import { REGISTRATIONS } from "@/scorecards";
+import type { ChatToolCall, ConversationMessage } from "@/types/chat";
+import { chatTools } from "./definitions";
+import { MAX_TOOL_CALLS, runChatTools } from "./run";
+
+const MESSAGES: ConversationMessage[] = [
+  { role: "user", content: "Hi" },
+  { role: "assistant", content: "Hello!" },
+  { role: "user", content: "Senior Cloud Architect, AWS, 5+ years, GenAI experience required." },
+];
+
+async function run(calls: LLMToolCall[], messages = MESSAGES): Promise<ChatToolCall[]> {
+  const results: ChatToolCall[] = [];
+  for await (const call of runChatTools(calls, { messages, ip: "203.0.113.7" })) results.push(call);
+  return results;
+}
+
+const card = async (name: string, args: Record<string, unknown> = {}) => (await run([{ name, arguments: args }]))[0]?.card;
+
+beforeEach(() => {
+  mockRunFitAnalysis.mockReset();
+  mockAnalyzeLimiterCheck.mockReset().mockReturnValue(true);
+});
+
+describe("chatTools", () => {
+  it("offers every registered scorecard", () => {
+    const scorecard = chatTools().find((t) => t.name === "recommend_scorecard")!;
+    const slugs = REGISTRATIONS.map((r) => r.definition.slug);
+    expect((scorecard.parameters as { properties: { slug: { enum: string[] } } }).properties.slug.enum).toEqual(slugs);
+    for (const slug of slugs) expect(scorecard.description).toContain(slug);
+  });
+});
+
+describe("runChatTools", () => {
+  it("recommends a registered scorecard", async () => {
+    const dsgvo = REGISTRATIONS.find((r) => r.definition.slug === "dsgvo-check")!;
+    expect(await card("recommend_scorecard", { slug: "dsgvo-check" })).toEqual({
+      kind: "scorecard",
+      title: dsgvo.meta.title,
+      description: dsgvo.meta.description,
+      href: "/dsgvo-check",
+    });
+    expect((await card("recommend_scorecard", { slug: "nope" }))?.kind).toBe("notice");
+  });
+
+  it("looks up skills on the transparency dashboard", async () => {
+    expect(await card("get_skill", { name: "amazon bedrock" })).toMatchObject({
+      kind: "skill",
+      name: "Amazon Bedrock",
+      tier: "core_strength",
+      category: "AI & GenAI",
+      yearsOfExperience: 3,
+      evidence: expect.arrayContaining(["AWS Senior AI Solutions Architect"]),
+      href: "/transparency",
+    });
+    expect(await card("get_skill", { name: "RAG" })).toMatchObject({ kind: "skill", name: "RAG & Hybrid RAG" });
+  });
+
+  it("reports explicit gaps and unknown skills", async () => {
+    expect(await card("get_skill", { name: "Game Development" })).toMatchObject({
+      kind: "skill",
+      tier: "explicit_gap",
+      context: expect.stringContaining("Focus instead: Enterprise application development"),
+    });
+    expect(await card("get_skill", { name: "COBOL" })).toEqual({
+      kind: "notice",
+      message: "\"COBOL\" isn't rated on the transparency dashboard.",
+      href: "/transparency",
+      linkLabel: "See all skills",
+    });
+  });
+
+  it("offers the booking link", async () => {
+    expect(await card("offer_booking")).toMatchObject({ kind: "booking", href: BOOKING_URL });
+  });
+
+  it("condenses a fit analysis of the latest message", async () => {
+    mockRunFitAnalysis.mockResolvedValueOnce({
+      success: true,
+      raw: "{}",
+      assessment: {
+        confidenceScore: "partial_match",
+        alignmentAreas: [{ title: "AWS" }, { title: "GenAI" }],
+        gapAreas: [
+          { title: "Kubernetes", severity: "minor" },
+          { title: "People management", severity: "significant" },
+        ],
+        recommendation: { type: "consider", summary: "Worth a conversation.", details: "" },
+      },
+    });
+
+    expect(await card("analyze_fit")).toEqual({
+      kind: "fit_analysis",
+      confidence: "partial_match",
+      summary: "Worth a conversation.",
+      alignments: ["AWS", "GenAI"],
+      gaps: ["People management", "Kubernetes"],
+      href: "/fit-analysis",
+    });
+    expect(mockRunFitAnalysis).toHaveBeenCalledWith(MESSAGES[2].content);
+    expect(mockAnalyzeLimiterCheck).toHaveBeenCalledWith("203.0.113.7");
+  });
+
+  it("falls back to a notice when the fit analysis can't run", async () => {
+    mockAnalyzeLimiterCheck.mockReturnValueOnce(false);
+    expect(await card("analyze_fit")).toMatchObject({ kind: "notice", href: "/fit-analysis" });
+    expect(mockRunFitAnalysis).not.toHaveBeenCalled();
+
+    mockRunFitAnalysis.mockRejectedValueOnce(new Error("timeout"));
+    expect(await card("analyze_fit")).toMatchObject({ kind: "notice", href: "/fit-analysis" });
+
+    mockRunFitAnalysis.mockResolvedValueOnce({ success: false, error: "bad json", raw: "nope" });
+    expect(await card("analyze_fit")).toMatchObject({ kind: "notice" });
+  });
+
+  it("skips unknown and repeated calls and stops after the limit", async () => {
+    const skill = (name: string) => ({ name: "get_skill", arguments: { name } });
+    const results = await run([
+      { name: "delete_everything", arguments: {} },
+      skill("AWS"),
+      skill("AWS"),
+      skill("Azure"),
+      skill("RAG"),
+      skill("Bedrock"),
+    ]);
+    expect(results).toHaveLength(MAX_TOOL_CALLS);
+    expect(results.map((r) => r.tool)).toEqual(["get_skill", "get_skill", "get_skill"]);
+  });
+});
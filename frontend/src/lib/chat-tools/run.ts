@@ -0,0 +1,193 @@
+/**
+ * Runs the tool calls of a chat answer and turns each result into the card
+ * shown under it. A tool that cannot deliver yields a notice card pointing to
+ * the full feature instead of an error: the answer itself already streamed.
+ *
+ * The fit analysis runs on the visitor's latest message, which the chat's
+ * guardrails have already checked, and shares the /api/analyze rate limit.
+ */
+
+import { BOOKING_URL } from "@/components/coaching/content";
+import { analyzeLimiter } from "@/lib/api-security";
+import { runFitAnalysis } from "@/lib/fit-analysis-runner";
+import type { LLMToolCall } from "@/lib/llm";
+import { createLogger } from "@/lib/logger";
+import { PORTFOLIO_OWNER } from "@/lib/portfolio-owner";
+import { getScorecard } from "@/lib/scorecard/registry";
+import { loadSkills } from "@/lib/transparency-dashboard-loader";
+import type { ChatToolCall, ChatToolCard, ChatToolName, ConversationMessage } from "@/types/chat";
+import type { GapSeverity } from "@/types/fit-analysis";
+import { isChatToolName } from "./definitions";
+
+const log = createLogger("ChatTools");
+
+/** Tool calls run per answer; further ones are ignored. */
+export const MAX_TOOL_CALLS = 3;
+
+/** Alignments and gaps listed on the fit analysis card, evidence on the skill card. */
+const CARD_LIST_LENGTH = 3;
+
+const FIT_ANALYSIS_HREF = "/fit-analysis";
+const TRANSPARENCY_HREF = "/transparency";
+
+const SEVERITY_RANK: Record<GapSeverity, number> = { significant: 0, moderate: 1, minor: 2 };
+
+/** Lead-in for an answer that consists of tool calls only. */
+export const TOOL_LEADS: Record<ChatToolName, string> = {
+  analyze_fit: `Here is how the role matches ${PORTFOLIO_OWNER.firstName}'s experience:`,
+  recommend_scorecard: "This check fits your situation:",
+  get_skill: "Here is what the transparency dashboard says:",
+  offer_booking: `You can book a call with ${PORTFOLIO_OWNER.firstName} here:`,
+};
+
+export interface ChatToolContext {
+  /** The conversation the answer belongs to, oldest first. */
+  messages: ConversationMessage[];
+  /** Client IP, for the fit analysis rate limit. */
+  ip: string;
+}
+
+/**
+ * Run the model's tool calls in order; unknown tools and repeated calls are skipped.
+ * @yields Each call with its card as soon as it is done
+ */
+export async function* runChatTools(
+  calls: LLMToolCall[],
+  context: ChatToolContext,
+): AsyncGenerator<ChatToolCall, void, unknown> {
+  const seen = new Set<string>();
+  for (const call of calls) {
+    if (seen.size >= MAX_TOOL_CALLS) return;
+
+    const key = JSON.stringify([call.name, call.arguments]);
+    if (!isChatToolName(call.name)) {
+      log.warn("Unknown tool called", { tool: call.name });
+      continue;
+    }
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    yield { tool: call.name, card: await runTool(call.name, call.arguments, context) };
+  }
+}
+
+async function runTool(tool: ChatToolName, args: Record<string, unknown>, context: ChatToolContext): Promise<ChatToolCard> {
+  try {
+    switch (tool) {
+      case "analyze_fit":
+        return await fitAnalysisCard(context);
+      case "recommend_scorecard":
+        return scorecardCard(String(args.slug ?? ""));
+      case "get_skill":
+        return skillCard(String(args.name ?? ""));
+      case "offer_booking":
+        return bookingCard();
+    }
+  } catch (error) {
+    log.error("Tool failed", error, { tool });
+    return tool === "analyze_fit"
+      ? { kind: "notice", message: "The fit analysis didn't go through this time.", href: FIT_ANALYSIS_HREF, linkLabel: "Open the fit analysis" }
+      : { kind: "notice", message: "That didn't work just now. Please try again." };
+  }
+}
+
+async function fitAnalysisCard({ messages, ip }: ChatToolContext): Promise<ChatToolCard> {
+  const jobDescription = [...messages].reverse().find((m) => m.role === "user")?.content.trim() ?? "";
+  const fullAnalysis = { href: FIT_ANALYSIS_HREF, linkLabel: "Open the fit analysis" };
+  if (!jobDescription) {
+    return { kind: "notice", message: "Paste the job description and I'll run the fit analysis.", ...fullAnalysis };
+  }
+  if (!analyzeLimiter.check(ip)) {
+    return { kind: "notice", message: "That's been a lot of analyses in a row. Please wait a few minutes.", ...fullAnalysis };
+  }
+
+  const result = await runFitAnalysis(jobDescription);
+  if (!result.success || !result.assessment) {
+    log.warn("Fit analysis response unparseable", { error: result.error });
+    return { kind: "notice", message: "The fit analysis didn't go through this time.", ...fullAnalysis };
+  }
+
+  const { assessment } = result;
+  return {
+    kind: "fit_analysis",
+    confidence: assessment.confidenceScore,
+    summary: assessment.recommendation.summary,
+    alignments: assessment.alignmentAreas.slice(0, CARD_LIST_LENGTH).map((a) => a.title),
+    gaps: [...assessment.gapAreas]
+      .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+      .slice(0, CARD_LIST_LENGTH)
+      .map((g) => g.title),
+    href: FIT_ANALYSIS_HREF,
+  };
+}
+
+function scorecardCard(slug: string): ChatToolCard {
+  const registration = getScorecard(slug);
+  if (!registration) {
+    log.warn("Unknown scorecard recommended", { slug });
+    return { kind: "notice", message: "I couldn't find that check." };
+  }
+  return {
+    kind: "scorecard",
+    title: registration.meta.title,
+    description: registration.meta.description,
+    href: `/${registration.definition.slug}`,
+  };
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Exact name first, then a name containing the query or contained in it ("RAG" → "RAG & Hybrid RAG"). */
+function findByName<T extends { name: string }>(items: T[], query: string): T | undefined {
+  const named = items.map((item) => ({ item, name: normalize(item.name) }));
+  return (
+    named.find(({ name }) => name === query) ??
+    named.find(({ name }) => name.includes(query) || (name.length >= 3 && query.includes(name)))
+  )?.item;
+}
+
+function skillCard(requested: string): ChatToolCard {
+  const query = normalize(requested);
+  const allSkills = { href: TRANSPARENCY_HREF, linkLabel: "See all skills" };
+  if (!query) return { kind: "notice", message: "Which skill would you like to know about?", ...allSkills };
+
+  const { skills, gaps } = loadSkills();
+  const skill = findByName(skills, query);
+  if (skill) {
+    return {
+      kind: "skill",
+      name: skill.name,
+      tier: skill.tier,
+      category: skill.category,
+      context: skill.context,
+      ...(skill.yearsOfExperience !== undefined && { yearsOfExperience: skill.yearsOfExperience }),
+      evidence: skill.evidence.slice(0, CARD_LIST_LENGTH).map((e) => e.title),
+      href: TRANSPARENCY_HREF,
+    };
+  }
+
+  const gap = findByName(gaps, query);
+  if (gap) {
+    return {
+      kind: "skill",
+      name: gap.name,
+      tier: "explicit_gap",
+      context: gap.alternativeFocus ? `${gap.explanation} Focus instead: ${gap.alternativeFocus}` : gap.explanation,
+      evidence: [],
+      href: TRANSPARENCY_HREF,
+    };
+  }
+
+  return { kind: "notice", message: `"${requested.trim().slice(0, 80)}" isn't rated on the transparency dashboard.`, ...allSkills };
+}
+
+function bookingCard(): ChatToolCard {
+  return {
+    kind: "booking",
+    title: `Book a call with ${PORTFOLIO_OWNER.firstName}`,
+    description: "30 minutes via Calendly. Pick a slot that suits you.",
+    href: BOOKING_URL,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Shared-secret check for the /api/cron/* jobs and the scheduler status.
+ * Triggered from an external scheduler (or by hand) with CRON_SECRET as bearer
+ * token or `?secret=`; every endpoint stays disabled (401) until the secret is
+ * configured.
+ */
+
+import type { NextRequest } from "next/server";
+
+export function isCronAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false; // disabled until configured
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  const provided = bearer ?? request.nextUrl.searchParams.get("secret") ?? "";
+  return provided === secret;
+}
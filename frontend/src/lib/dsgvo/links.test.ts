@@ -0,0 +1,62 @@
+/**
+ * Signed DSGVO links — round trip, tampering, expiry, missing secret.
+ * @jest-environment node
+ */
+
+import { LINK_TTL_MINUTES, isDsgvoLinkConfigured, signDsgvoLink, verifyDsgvoLink } from "./links";
+
+const NOW = new Date("2026-10-01T10:00:00Z");
+
+beforeEach(() => {
+  process.env.DSGVO_LINK_SECRET = "test-secret";
+});
+
+afterAll(() => {
+  delete process.env.DSGVO_LINK_SECRET;
+});
+
+describe("DSGVO links", () => {
+  it("round-trips the lowercased email and expires after LINK_TTL_MINUTES", () => {
+    const { token, expiresAt } = signDsgvoLink(" Erika@Firma.de ", NOW);
+    expect(expiresAt.getTime() - NOW.getTime()).toBe(LINK_TTL_MINUTES * 60 * 1000);
+
+    const link = verifyDsgvoLink(token, NOW);
+    expect(link).toEqual({ email: "erika@firma.de", linkId: expect.stringMatching(/^[0-9a-f]{64}$/), expiresAt });
+  });
+
+  it("gives every link its own id — the id never contains the email", () => {
+    const a = verifyDsgvoLink(signDsgvoLink("erika@firma.de", NOW).token, NOW)!;
+    const b = verifyDsgvoLink(signDsgvoLink("erika@firma.de", NOW).token, NOW)!;
+    expect(a.linkId).not.toBe(b.linkId);
+    expect(a.linkId).not.toContain("erika");
+  });
+
+  it("rejects an expired link", () => {
+    const { token, expiresAt } = signDsgvoLink("erika@firma.de", NOW);
+    expect(verifyDsgvoLink(token, expiresAt)).toBeNull();
+  });
+
+  it("rejects a forged payload and a foreign secret", () => {
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ e: "max@firma.de", n: "x", x: NOW.getTime() + 60_000 })).toString(
+      "base64url",
+    );
+    expect(verifyDsgvoLink(`${forged}.${signature}`, NOW)).toBeNull();
+
+    process.env.DSGVO_LINK_SECRET = "other-secret";
+    expect(verifyDsgvoLink(token, NOW)).toBeNull();
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(verifyDsgvoLink("", NOW)).toBeNull();
+    expect(verifyDsgvoLink("abc", NOW)).toBeNull();
+    expect(verifyDsgvoLink("a.b.c", NOW)).toBeNull();
+  });
+
+  it("is not configured without DSGVO_LINK_SECRET and refuses to sign", () => {
+    delete process.env.DSGVO_LINK_SECRET;
+    expect(isDsgvoLinkConfigured()).toBe(false);
+    expect(() => signDsgvoLink("erika@firma.de", NOW)).toThrow(/DSGVO_LINK_SECRET/);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Signed DSGVO self-service links — `<payload>.<signature>`, both base64url.
+ *
+ * The payload carries the email, a random nonce and the expiry; the HMAC-SHA256
+ * signature (DSGVO_LINK_SECRET) proves the link was mailed by us, so no link
+ * state is stored before use. Single use is enforced on use: the audit log
+ * keys each action on the SHA-256 of the nonce (db/dsgvo.ts).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { hashToken } from "@/lib/workshop/tokens";
+
+/** How long a mailed link stays valid. */
+export const LINK_TTL_MINUTES = 60;
+
+export interface DsgvoLink {
+  email: string;
+  /** Audit-log key of the link — the nonce hash, never the email. */
+  linkId: string;
+  expiresAt: Date;
+}
+
+interface Payload {
+  e: string;
+  n: string;
+  x: number;
+}
+
+function secret(): string | undefined {
+  return process.env.DSGVO_LINK_SECRET || undefined;
+}
+
+/** True when links can be signed (DSGVO_LINK_SECRET set). */
+export function isDsgvoLinkConfigured(): boolean {
+  return Boolean(secret());
+}
+
+function sign(payload: string, key: string): string {
+  return createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+/** Sign a link token for `email`. Throws without DSGVO_LINK_SECRET. */
+export function signDsgvoLink(email: string, now: Date = new Date()): { token: string; expiresAt: Date } {
+  const key = secret();
+  if (!key) throw new Error("DSGVO_LINK_SECRET is not configured");
+  const expiresAt = new Date(now.getTime() + LINK_TTL_MINUTES * 60 * 1000);
+  const body: Payload = { e: email.trim().toLowerCase(), n: randomBytes(16).toString("base64url"), x: expiresAt.getTime() };
+  const payload = Buffer.from(JSON.stringify(body)).toString("base64url");
+  return { token: `${payload}.${sign(payload, key)}`, expiresAt };
+}
+
+/** The link behind a token, or null when it is malformed, forged or expired. */
+export function verifyDsgvoLink(token: string, now: Date = new Date()): DsgvoLink | null {
+  const key = secret();
+  if (!key) return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length) return null;
+
+  const expected = Buffer.from(sign(payload, key));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  let body: Payload;
+  try {
+    body = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Payload;
+  } catch {
+    return null;
+  }
+  if (typeof body.e !== "string" || typeof body.n !== "string" || typeof body.x !== "number") return null;
+  if (body.x <= now.getTime()) return null;
+  return { email: body.e, linkId: hashToken(body.n), expiresAt: new Date(body.x) };
+}
@@ -0,0 +1,257 @@
+/**
+ * DSGVO self-service — link request, export document, single use, erasure
+ * side effects (CleverReach, freed workshop slots).
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockFind = jest.fn();
+const mockInsertExport = jest.fn();
+const mockErase = jest.fn();
+const mockSetCleverReach = jest.fn();
+jest.mock("@/db/dsgvo", () => ({
+  findPersonalData: (...a: unknown[]) => mockFind(...a),
+  insertExportAuditEntry: (...a: unknown[]) => mockInsertExport(...a),
+  eraseByEmail: (...a: unknown[]) => mockErase(...a),
+  setAuditCleverReach: (...a: unknown[]) => mockSetCleverReach(...a),
+}));
+
+const mockSendLink = jest.fn();
+jest.mock("@/lib/email/send", () => ({ sendDsgvoLink: (...a: unknown[]) => mockSendLink(...a) }));
+
+let cleverReachConfigured = true;
+const mockDeleteReceiver = jest.fn();
+const mockHasReceiver = jest.fn();
+jest.mock("@/lib/scorecard/cleverreach", () => ({
+  isCleverReachConfigured: () => cleverReachConfigured,
+  deleteNewsletterReceiver: (...a: unknown[]) => mockDeleteReceiver(...a),
+  hasNewsletterReceiver: (...a: unknown[]) => mockHasReceiver(...a),
+}));
+
+jest.mock("@/lib/workshop/admin", () => ({ formatDateTime: () => "01.10.2026, 13:00" }));
+
+const mockGetWorkshopById = jest.fn();
+jest.mock("@/lib/workshop/queries", () => ({ getWorkshopById: (...a: unknown[]) => mockGetWorkshopById(...a) }));
+
+const mockReopen = jest.fn();
+jest.mock("@/lib/workshop/slots", () => ({ reopenSoldOut: (...a: unknown[]) => mockReopen(...a) }));
+
+const mockNotifyWaitlist = jest.fn();
+jest.mock("@/lib/workshop/waitlist", () => ({ notifyWaitlistSafely: (...a: unknown[]) => mockNotifyWaitlist(...a) }));
+
+import {
+  buildExport,
+  describeDsgvoLink,
+  erasePersonalData,
+  exportPersonalData,
+  requestDsgvoLink,
+} from "./self-service";
+import { signDsgvoLink, verifyDsgvoLink } from "./links";
+import type { PersonalData } from "@/db/dsgvo";
+import {
+  SAMPLE_WORKSHOP,
+  sampleInvoice,
+  sampleSubmission,
+  sampleWaitlistEntry,
+} from "@/lib/workshop/__fixtures__/sample-submission";
+
+const NOW = new Date("2026-10-01T10:00:00Z");
+const EMPTY: PersonalData = { scorecard: [], workshop: [], secondPerson: [], waitlist: [], invoices: [] };
+
+function someData(): PersonalData {
+  return {
+    ...EMPTY,
+    workshop: [sampleSubmission({ confirmPaymentToken: "hash-confirm", cancelToken: "hash-cancel" })],
+    secondPerson: [sampleSubmission({ id: "sub-other", secondPersonName: "Erika", secondPersonEmail: "erika@firma.de" })],
+    waitlist: [sampleWaitlistEntry({ doiToken: "hash-doi" })],
+    invoices: [sampleInvoice()],
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.DSGVO_LINK_SECRET = "test-secret";
+  cleverReachConfigured = true;
+  mockFind.mockResolvedValue(someData());
+  mockInsertExport.mockResolvedValue(true);
+  mockErase.mockResolvedValue({
+    auditId: "audit-1",
+    counts: { scorecard: 1, workshopDeleted: 1, workshopAnonymized: 0, secondPerson: 0, waitlist: 1 },
+    freedWorkshopIds: [SAMPLE_WORKSHOP.id],
+  });
+  mockDeleteReceiver.mockResolvedValue("deleted");
+  mockHasReceiver.mockResolvedValue(false);
+  mockGetWorkshopById.mockResolvedValue(SAMPLE_WORKSHOP);
+});
+
+afterAll(() => {
+  delete process.env.DSGVO_LINK_SECRET;
+});
+
+describe("requestDsgvoLink", () => {
+  it("mails a signed manage link when data is stored", async () => {
+    const result = await requestDsgvoLink("erika@firma.de", NOW);
+    expect(result).toEqual({ status: "sent" });
+    const mail = mockSendLink.mock.calls[0][0];
+    expect(mail.to).toBe("erika@firma.de");
+    expect(mail.expiresLabel).toBe("01.10.2026, 13:00 Uhr");
+    const token = decodeURIComponent(new URL(mail.manageUrl).searchParams.get("token")!);
+    expect(new URL(mail.manageUrl).pathname).toBe("/meine-daten/verwalten");
+    expect(verifyDsgvoLink(token, NOW)?.email).toBe("erika@firma.de");
+  });
+
+  it("sends nothing when nothing is stored", async () => {
+    mockFind.mockResolvedValue(EMPTY);
+    expect(await requestDsgvoLink("nobody@firma.de", NOW)).toEqual({ status: "no_data" });
+    expect(mockHasReceiver).toHaveBeenCalledWith("nobody@firma.de");
+    expect(mockSendLink).not.toHaveBeenCalled();
+  });
+
+  it("mails the link to a newsletter-only subscriber without DB rows", async () => {
+    mockFind.mockResolvedValue(EMPTY);
+    mockHasReceiver.mockResolvedValue(true);
+    expect(await requestDsgvoLink("leser@firma.de", NOW)).toEqual({ status: "sent" });
+    expect(mockSendLink.mock.calls[0][0].to).toBe("leser@firma.de");
+  });
+
+  it("skips the CleverReach lookup when DB rows exist or CleverReach is off", async () => {
+    await requestDsgvoLink("erika@firma.de", NOW);
+    expect(mockHasReceiver).not.toHaveBeenCalled();
+
+    cleverReachConfigured = false;
+    mockFind.mockResolvedValue(EMPTY);
+    expect(await requestDsgvoLink("leser@firma.de", NOW)).toEqual({ status: "no_data" });
+    expect(mockHasReceiver).not.toHaveBeenCalled();
+  });
+
+  it("treats a failed CleverReach lookup as nothing stored", async () => {
+    mockFind.mockResolvedValue(EMPTY);
+    mockHasReceiver.mockRejectedValue(new Error("HTTP 500"));
+    expect(await requestDsgvoLink("leser@firma.de", NOW)).toEqual({ status: "no_data" });
+  });
+});
+
+describe("describeDsgvoLink", () => {
+  it("returns the address and the counts per table", async () => {
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    const result = await describeDsgvoLink(token, NOW);
+    expect(result).toMatchObject({
+      status: "ok",
+      email: "erika@firma.de",
+      counts: { scorecard: 0, workshop: 1, secondPerson: 1, waitlist: 1, invoices: 1 },
+      newsletter: false,
+    });
+  });
+
+  it("reports a newsletter receiver", async () => {
+    mockFind.mockResolvedValue(EMPTY);
+    mockHasReceiver.mockResolvedValue(true);
+    const { token } = signDsgvoLink("leser@firma.de", NOW);
+    expect(await describeDsgvoLink(token, NOW)).toMatchObject({ status: "ok", newsletter: true });
+  });
+
+  it("rejects an invalid token without touching the DB", async () => {
+    expect(await describeDsgvoLink("nope", NOW)).toEqual({ status: "invalid" });
+    expect(mockFind).not.toHaveBeenCalled();
+  });
+});
+
+describe("buildExport", () => {
+  it("drops link and action tokens and limits Zweit-Person rows to their own fields", () => {
+    const doc = buildExport("erika@firma.de", someData(), NOW);
+    expect(doc.exportedAt).toBe(NOW.toISOString());
+    expect(doc.workshopRegistrations[0]).not.toHaveProperty("confirmPaymentToken");
+    expect(doc.workshopRegistrations[0]).not.toHaveProperty("cancelToken");
+    expect(doc.workshopRegistrations[0]).toHaveProperty("invoiceCompany");
+    expect(doc.workshopWaitlist[0]).not.toHaveProperty("doiToken");
+    expect(doc.workshopSecondPerson[0]).toEqual({
+      submissionId: "sub-other",
+      workshopId: SAMPLE_WORKSHOP.id,
+      secondPersonName: "Erika",
+      secondPersonEmail: "erika@firma.de",
+      status: expect.any(String),
+      reservedAt: expect.any(Date),
+    });
+    expect(doc.workshopInvoices).toHaveLength(1);
+  });
+});
+
+describe("exportPersonalData", () => {
+  it("writes a PII-free audit entry and returns the document", async () => {
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    const outcome = await exportPersonalData(token, NOW);
+    expect(outcome).toMatchObject({ status: "ok", filename: "meine-daten-2026-10-01.json" });
+    const [linkId, counts] = mockInsertExport.mock.calls[0];
+    expect(linkId).toBe(verifyDsgvoLink(token, NOW)!.linkId);
+    expect(JSON.stringify(counts)).not.toContain("erika");
+  });
+
+  it("reports a link that already exported", async () => {
+    mockInsertExport.mockResolvedValue(false);
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    expect(await exportPersonalData(token, NOW)).toEqual({ status: "used" });
+  });
+
+  it("rejects an expired link", async () => {
+    const { token, expiresAt } = signDsgvoLink("erika@firma.de", NOW);
+    expect(await exportPersonalData(token, expiresAt)).toEqual({ status: "invalid" });
+    expect(mockInsertExport).not.toHaveBeenCalled();
+  });
+});
+
+describe("erasePersonalData", () => {
+  it("erases, deletes the CleverReach receiver, records it and releases the freed slots", async () => {
+    const { token } = signDsgvoLink("Erika@Firma.de", NOW);
+    const outcome = await erasePersonalData(token, NOW);
+
+    expect(outcome).toMatchObject({ status: "erased", cleverreach: "deleted" });
+    expect(mockErase).toHaveBeenCalledWith("erika@firma.de", verifyDsgvoLink(token, NOW)!.linkId);
+    expect(mockDeleteReceiver).toHaveBeenCalledWith("erika@firma.de");
+    expect(mockSetCleverReach).toHaveBeenCalledWith("audit-1", "deleted");
+    expect(mockReopen).toHaveBeenCalledWith(SAMPLE_WORKSHOP.id);
+    expect(mockNotifyWaitlist).toHaveBeenCalledWith(SAMPLE_WORKSHOP);
+  });
+
+  it("deletes the CleverReach receiver of a newsletter-only subscriber", async () => {
+    mockErase.mockResolvedValue({
+      auditId: "audit-2",
+      counts: { scorecard: 0, workshopDeleted: 0, workshopAnonymized: 0, secondPerson: 0, waitlist: 0 },
+      freedWorkshopIds: [],
+    });
+    const { token } = signDsgvoLink("leser@firma.de", NOW);
+    expect(await erasePersonalData(token, NOW)).toMatchObject({ status: "erased", cleverreach: "deleted" });
+    expect(mockDeleteReceiver).toHaveBeenCalledWith("leser@firma.de");
+    expect(mockSetCleverReach).toHaveBeenCalledWith("audit-2", "deleted");
+  });
+
+  it("reports a link that already erased — no CleverReach call", async () => {
+    mockErase.mockResolvedValue(null);
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    expect(await erasePersonalData(token, NOW)).toEqual({ status: "used" });
+    expect(mockDeleteReceiver).not.toHaveBeenCalled();
+  });
+
+  it("records a skipped CleverReach deletion when it is not configured", async () => {
+    cleverReachConfigured = false;
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    await erasePersonalData(token, NOW);
+    expect(mockDeleteReceiver).not.toHaveBeenCalled();
+    expect(mockSetCleverReach).toHaveBeenCalledWith("audit-1", "skipped");
+  });
+
+  it("keeps the DB erasure when CleverReach fails and records the failure", async () => {
+    mockDeleteReceiver.mockRejectedValue(new Error("HTTP 500"));
+    const { token } = signDsgvoLink("erika@firma.de", NOW);
+    const outcome = await erasePersonalData(token, NOW);
+    expect(outcome).toMatchObject({ status: "erased", cleverreach: "failed" });
+    expect(mockSetCleverReach).toHaveBeenCalledWith("audit-1", "failed");
+  });
+
+  it("rejects an invalid token without erasing", async () => {
+    expect(await erasePersonalData("nope", NOW)).toEqual({ status: "invalid" });
+    expect(mockErase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * DSGVO self-service — Auskunft (Art. 15) and Löschung (Art. 17) without
+ * manual SQL.
+ *
+ *   1. /meine-daten: the visitor enters an email. If anything is stored for
+ *      it — in our DB or as a CleverReach newsletter receiver — a signed link
+ *      (links.ts) goes to that address; the answer is the same either way, so
+ *      the form reveals nothing.
+ *   2. /meine-daten/verwalten?token=: shows what is stored and offers the
+ *      JSON download and the deletion. Each runs once per link.
+ *   3. Deletion removes the rows of every funnel table (db/dsgvo.ts), the
+ *      CleverReach receiver, and releases held workshop slots.
+ *
+ * Both actions end with a PII-free audit log entry (dsgvo_audit_log).
+ */
+
+import { createLogger } from "@/lib/logger";
+import {
+  eraseByEmail,
+  findPersonalData,
+  insertExportAuditEntry,
+  setAuditCleverReach,
+  type ErasureCounts,
+  type PersonalData,
+} from "@/db/dsgvo";
+import { sendDsgvoLink } from "@/lib/email/send";
+import { baseUrl } from "@/lib/scorecard/tokens";
+import {
+  deleteNewsletterReceiver,
+  hasNewsletterReceiver,
+  isCleverReachConfigured,
+} from "@/lib/scorecard/cleverreach";
+import { formatDateTime } from "@/lib/workshop/admin";
+import { getWorkshopById } from "@/lib/workshop/queries";
+import { reopenSoldOut } from "@/lib/workshop/slots";
+import { notifyWaitlistSafely } from "@/lib/workshop/waitlist";
+import { verifyDsgvoLink, signDsgvoLink } from "./links";
+
+const log = createLogger("DsgvoSelfService");
+
+/** Rows stored per table — what the audit log and the manage page show. */
+export type DataCounts = Record<"scorecard" | "workshop" | "secondPerson" | "waitlist" | "invoices", number>;
+
+export function countPersonalData(data: PersonalData): DataCounts {
+  return {
+    scorecard: data.scorecard.length,
+    workshop: data.workshop.length,
+    secondPerson: data.secondPerson.length,
+    waitlist: data.waitlist.length,
+    invoices: data.invoices.length,
+  };
+}
+
+function hasData(counts: DataCounts): boolean {
+  return Object.values(counts).some((n) => n > 0);
+}
+
+/**
+ * Newsletter receiver in CleverReach? Subscribers can live there without any
+ * row of ours (e.g. after the funnel rows were purged). A failed lookup counts
+ * as "no" — the erasure still deletes the receiver by address.
+ */
+async function isNewsletterReceiver(email: string): Promise<boolean> {
+  if (!isCleverReachConfigured()) return false;
+  try {
+    return await hasNewsletterReceiver(email);
+  } catch (error) {
+    log.error("CleverReach receiver lookup failed (non-fatal)", error);
+    return false;
+  }
+}
+
+/**
+ * Mail the self-service link — only when something is stored for `email`
+ * (DB rows or a newsletter receiver), so the form cannot be used to mail
+ * arbitrary addresses.
+ */
+export async function requestDsgvoLink(
+  email: string,
+  now: Date = new Date(),
+): Promise<{ status: "sent" | "no_data" }> {
+  const counts = countPersonalData(await findPersonalData(email));
+  if (!hasData(counts) && !(await isNewsletterReceiver(email))) return { status: "no_data" };
+
+  const { token, expiresAt } = signDsgvoLink(email, now);
+  await sendDsgvoLink({
+    to: email,
+    manageUrl: `${baseUrl()}/meine-daten/verwalten?token=${encodeURIComponent(token)}`,
+    expiresLabel: `${formatDateTime(expiresAt)} Uhr`,
+  });
+  log.info("DSGVO link sent");
+  return { status: "sent" };
+}
+
+/** Manage page data: the link's address and what is stored for it. */
+export async function describeDsgvoLink(
+  token: string,
+  now: Date = new Date(),
+): Promise<
+  | { status: "invalid" }
+  | { status: "ok"; email: string; expiresAt: Date; counts: DataCounts; newsletter: boolean }
+> {
+  const link = verifyDsgvoLink(token, now);
+  if (!link) return { status: "invalid" };
+  const counts = countPersonalData(await findPersonalData(link.email));
+  const newsletter = await isNewsletterReceiver(link.email);
+  return { status: "ok", email: link.email, expiresAt: link.expiresAt, counts, newsletter };
+}
+
+// Link and action tokens — internal, and useless to the data subject.
+const SECRET_COLUMNS = new Set([
+  "doiToken",
+  "reportToken",
+  "confirmPaymentToken",
+  "cancelToken",
+  "newsletterDoiToken",
+  "offerToken",
+]);
+
+function withoutSecrets<T extends object>(row: T): Partial<T> {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !SECRET_COLUMNS.has(key))) as Partial<T>;
+}
+
+/** The Art. 15 export document. Zweit-Person rows show only the Zweit-Person's own fields. */
+export function buildExport(email: string, data: PersonalData, now: Date = new Date()) {
+  return {
+    exportedAt: now.toISOString(),
+    email,
+    controller: "Daniel Kreuzhofer, Hofmarkstr. 8, 86316 Friedberg, daniel@kreuzhofer.de",
+    scorecards: data.scorecard.map(withoutSecrets),
+    workshopRegistrations: data.workshop.map(withoutSecrets),
+    workshopSecondPerson: data.secondPerson.map((s) => ({
+      submissionId: s.id,
+      workshopId: s.workshopId,
+      secondPersonName: s.secondPersonName,
+      secondPersonEmail: s.secondPersonEmail,
+      status: s.status,
+      reservedAt: s.reservedAt,
+    })),
+    workshopWaitlist: data.waitlist.map(withoutSecrets),
+    workshopInvoices: data.invoices,
+  };
+}
+
+export type ExportOutcome =
+  | { status: "invalid" | "used" }
+  | { status: "ok"; filename: string; document: ReturnType<typeof buildExport> };
+
+/** Run the Art. 15 export of a link (once per link). */
+export async function exportPersonalData(token: string, now: Date = new Date()): Promise<ExportOutcome> {
+  const link = verifyDsgvoLink(token, now);
+  if (!link) return { status: "invalid" };
+
+  const data = await findPersonalData(link.email);
+  const counts = countPersonalData(data);
+  if (!(await insertExportAuditEntry(link.linkId, counts))) return { status: "used" };
+
+  log.info("DSGVO export delivered", counts);
+  return {
+    status: "ok",
+    filename: `meine-daten-${now.toISOString().slice(0, 10)}.json`,
+    document: buildExport(link.email, data, now),
+  };
+}
+
+export type CleverReachOutcome = "deleted" | "not_found" | "skipped" | "failed";
+
+export type ErasureOutcome =
+  | { status: "invalid" | "used" }
+  | { status: "erased"; counts: ErasureCounts; cleverreach: CleverReachOutcome };
+
+async function deleteReceiver(email: string): Promise<CleverReachOutcome> {
+  if (!isCleverReachConfigured()) return "skipped";
+  try {
+    return await deleteNewsletterReceiver(email);
+  } catch (error) {
+    log.error("CleverReach receiver deletion failed — delete it by hand", error);
+    return "failed";
+  }
+}
+
+async function releaseSlots(workshopIds: string[]): Promise<void> {
+  for (const workshopId of workshopIds) {
+    try {
+      await reopenSoldOut(workshopId);
+    } catch (error) {
+      log.error("Reopening the sold-out workshop failed (non-fatal)", error);
+    }
+    const workshop = await getWorkshopById(workshopId);
+    if (workshop) await notifyWaitlistSafely(workshop);
+  }
+}
+
+/** Run the Art. 17 erasure of a link (once per link). */
+export async function erasePersonalData(token: string, now: Date = new Date()): Promise<ErasureOutcome> {
+  const link = verifyDsgvoLink(token, now);
+  if (!link) return { status: "invalid" };
+
+  const erased = await eraseByEmail(link.email, link.linkId);
+  if (!erased) return { status: "used" };
+
+  const cleverreach = await deleteReceiver(link.email);
+  await setAuditCleverReach(erased.auditId, cleverreach);
+  await releaseSlots(erased.freedWorkshopIds);
+
+  log.info("DSGVO erasure completed", { ...erased.counts, cleverreach });
+  return { status: "erased", counts: erased.counts, cleverreach };
+}
@@ -0,0 +1,30 @@
+/**
+ * Zod validation for the /meine-daten request form — server (API route) and
+ * client (form) alike.
+ */
+
+import { z } from "zod";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const dsgvoRequestSchema = z.object({
+  email: z.string().trim().regex(EMAIL_RE, "Ungültige E-Mail-Adresse").max(200),
+});
+
+export type DsgvoRequest = z.infer<typeof dsgvoRequestSchema>;
+
+/** Parse + validate a link request (same result shape as the workshop validators). */
+export function validateDsgvoRequest(input: unknown):
+  | { ok: true; data: DsgvoRequest }
+  | { ok: false; errors: Record<string, string> } {
+  const result = dsgvoRequestSchema.safeParse(input);
+  if (result.success) {
+    return { ok: true, data: result.data };
+  }
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const key = issue.path.join(".") || "_";
+    if (!errors[key]) errors[key] = issue.message;
+  }
+  return { ok: false, errors };
+}
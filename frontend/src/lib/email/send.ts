@@ -1,9 +1,12 @@
 /**
- * Engpass-Check transactional emails.
+ * Workshop and DSGVO self-service transactional emails.
  *
  * One exported function per email type. Each renders its Handlebars template,
  * builds links from the caller-supplied URLs, and sends via the SMTP transporter.
  * Subjects are German constants (no i18n lib in this project).
+ *
+ * SECURITY: all URLs are interpolated unescaped into the HTML — callers must
+ * pass trusted, server-built URLs (never user-supplied values).
  */
 
 import { createLogger } from "@/lib/logger";
@@ -21,47 +24,209 @@ export class EmailNotConfiguredError extends Error {
 }
 
 const SUBJECTS = {
-  doiConfirmation: "Ein Klick noch, dann hast Du Deinen Engpass-Report",
-  reportDelivery: "Dein Engpass-Report ist da — plus Dein Umsetzungs-Toolkit",
+  workshopReservation: "Dein Platz ist reserviert",
+  workshopNewsletterDoi: "Ein Klick noch für den Newsletter",
+  workshopAdminNotification: "Neue Workshop-Reservierung",
+  workshopBooking: "Dein Platz ist gebucht — Termin + Pre-Work",
+  workshopCancellation: "Deine Workshop-Reservierung ist storniert",
+  workshopPaymentReminder: "Erinnerung: Deine Workshop-Zahlung ist noch offen",
+  workshopReservationExpired: "Deine Workshop-Reservierung ist abgelaufen",
+  workshopAdminExpired: "Reservierung automatisch storniert",
+  workshopWaitlistDoi: "Ein Klick noch für die Warteliste",
+  workshopWaitlistOffer: "Ein Workshop-Platz ist frei — für Dich reserviert",
+  dsgvoLink: "Deine gespeicherten Daten: Auskunft und Löschung",
 } as const;
 
-/** Erstgespräch booking link for the Variante-B CTA (qualified leads). */
-const BOOKING_URL = "https://calendly.com/danielkreuzhofer/30min";
+interface MailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType: string;
+}
 
-async function send(to: string, subject: string, html: string): Promise<void> {
+async function send(
+  to: string,
+  subject: string,
+  html: string,
+  extra: { cc?: string; attachments?: MailAttachment[] } = {},
+): Promise<void> {
   if (!isEmailConfigured()) throw new EmailNotConfiguredError();
-  await getTransporter().sendMail({ from: getFrom(), to, subject, html });
+  await getTransporter().sendMail({ from: getFrom(), to, subject, html, ...extra });
   log.info("Email sent", { subject });
 }
 
-/** Double-Opt-in confirmation (DSGVO). Copy verbatim from funnel 03. */
-export async function sendDoiConfirmation(params: { to: string; confirmUrl: string }): Promise<void> {
-  const tpl = await loadTemplate("doi-confirmation");
-  await send(params.to, SUBJECTS.doiConfirmation, tpl({ confirmUrl: params.confirmUrl }));
+// =============================================================================
+// Workshop funnel (glossary: CONTEXT.md "Workshop")
+// =============================================================================
+
+/** Termin facts every workshop mail shows. */
+interface WorkshopBits {
+  workshopTitle: string;
+  /** Pre-formatted German date/time, e.g. "Fr., 23. Okt. 2026, 12:00 Uhr". */
+  terminLabel: string;
+}
+
+/** The Zweit-Person as CC — only in the reservation and booking confirmation. */
+interface SecondPerson {
+  secondPersonName?: string | null;
+  secondPersonEmail?: string | null;
+}
+
+/**
+ * Reservierungs-Bestätigung (Mail 1) to the Anmeldende Person. The Zweit-Person
+ * goes in CC, and the copy says explicitly who registered them.
+ */
+export async function sendWorkshopReservation(
+  params: {
+    to: string;
+    firstName: string;
+    priceNetEur: number;
+    paymentPreferenceLabel: string;
+  } & WorkshopBits &
+    SecondPerson,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-reservation");
+  await send(params.to, SUBJECTS.workshopReservation, tpl(params), {
+    cc: params.secondPersonEmail ?? undefined,
+  });
+}
+
+/** Newsletter Double-Opt-in (Mail 2) — only when the newsletter box was ticked. */
+export async function sendWorkshopNewsletterDoi(params: {
+  to: string;
+  firstName: string;
+  confirmUrl: string;
+}): Promise<void> {
+  const tpl = await loadTemplate("workshop-newsletter-doi");
+  await send(params.to, SUBJECTS.workshopNewsletterDoi, tpl(params));
+}
+
+/**
+ * Admin-Notification-Mail (Mail 3) to Daniel: all signup + invoice data and
+ * the magic links (ADR-0001). `overviewUrl` carries the reusable
+ * Übersichts-Token and is rendered in a section marked "Daniel only".
+ */
+export async function sendWorkshopAdminNotification(
+  params: {
+    to: string;
+    rows: { label: string; value: string }[];
+    freeSlots: number;
+    confirmPaymentUrl: string;
+    cancelUrl: string;
+    overviewUrl?: string;
+  } & WorkshopBits,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-admin-notification");
+  await send(params.to, `${SUBJECTS.workshopAdminNotification}: ${params.workshopTitle}`, tpl(params));
 }
 
 /**
- * Delivery email with the link to the personalized report + toolkit. When
- * `qualified` is true the template renders Variante B — an extra, low-key
- * Erstgespräch CTA ("zweite Meinung, kein Verkaufsgespräch").
+ * Buchungs-Bestätigung (Mail 4): the seat is fixed. Carries the .ics invite for
+ * the Termin, the Rechnung as PDF (when it could be issued) and the
+ * Pre-Work-Link (placeholder copy while the worksheet is not published yet).
+ * Zweit-Person in CC.
  */
-export async function sendReportDelivery(params: {
+export async function sendWorkshopBooking(
+  params: {
+    to: string;
+    firstName: string;
+    locationLabel: string;
+    ics: string;
+    invoice?: { filename: string; pdf: Buffer };
+    preWorkUrl?: string;
+  } & WorkshopBits &
+    SecondPerson,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-booking");
+  const attachments: MailAttachment[] = [
+    { filename: "workshop-termin.ics", content: params.ics, contentType: "text/calendar; charset=utf-8; method=PUBLISH" },
+  ];
+  if (params.invoice) {
+    attachments.push({ filename: params.invoice.filename, content: params.invoice.pdf, contentType: "application/pdf" });
+  }
+  await send(params.to, SUBJECTS.workshopBooking, tpl({ ...params, invoiceFilename: params.invoice?.filename }), {
+    cc: params.secondPersonEmail ?? undefined,
+    attachments,
+  });
+}
+
+/** Storno-Bestätigung to the Anmeldende Person. */
+export async function sendWorkshopCancellation(
+  params: { to: string; firstName: string } & WorkshopBits,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-cancellation");
+  await send(params.to, SUBJECTS.workshopCancellation, tpl(params));
+}
+
+/** Zahlungserinnerung — the reservation is still unpaid; names the auto-cancel deadline. */
+export async function sendWorkshopPaymentReminder(
+  params: {
+    to: string;
+    firstName: string;
+    paymentPreferenceLabel: string;
+    /** Pre-formatted German payment deadline. */
+    deadlineLabel: string;
+  } & WorkshopBits,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-payment-reminder");
+  await send(params.to, SUBJECTS.workshopPaymentReminder, tpl(params));
+}
+
+/** Storno-Mail after the payment deadline passed (auto-cancel by the reservations job). */
+export async function sendWorkshopReservationExpired(
+  params: { to: string; firstName: string } & WorkshopBits,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-reservation-expired");
+  await send(params.to, SUBJECTS.workshopReservationExpired, tpl(params));
+}
+
+/** Admin notice to Daniel that the job auto-cancelled an unpaid reservation. */
+export async function sendWorkshopAdminExpired(
+  params: {
+    to: string;
+    rows: { label: string; value: string }[];
+    freeSlots: number;
+    deadlineLabel: string;
+    overviewUrl?: string;
+  } & WorkshopBits,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-admin-expired");
+  await send(params.to, `${SUBJECTS.workshopAdminExpired}: ${params.workshopTitle}`, tpl(params));
+}
+
+/** Warteliste Double-Opt-in — the entry only joins the queue after this click. */
+export async function sendWorkshopWaitlistDoi(params: {
+  to: string;
+  firstName: string;
+  workshopTitle: string;
+  confirmUrl: string;
+  /** The workshop has no Termin yet (vs. sold out) — adjusts the copy. */
+  noTermin: boolean;
+}): Promise<void> {
+  const tpl = await loadTemplate("workshop-waitlist-doi");
+  await send(params.to, SUBJECTS.workshopWaitlistDoi, tpl(params));
+}
+
+/** Warteliste offer — time-limited reservation link for the next person in line. */
+export async function sendWorkshopWaitlistOffer(
+  params: {
+    to: string;
+    firstName: string;
+    offerUrl: string;
+    /** Pre-formatted German deadline of the offer. */
+    expiresLabel: string;
+  } & WorkshopBits,
+): Promise<void> {
+  const tpl = await loadTemplate("workshop-waitlist-offer");
+  await send(params.to, SUBJECTS.workshopWaitlistOffer, tpl(params));
+}
+
+/** DSGVO self-service link — Auskunft (JSON export) and Löschung of everything stored for the address. */
+export async function sendDsgvoLink(params: {
   to: string;
-  reportUrl: string;
-  typName: string;
-  score: number;
-  qualified: boolean;
+  manageUrl: string;
+  /** Pre-formatted German expiry of the link. */
+  expiresLabel: string;
 }): Promise<void> {
-  const tpl = await loadTemplate("report-delivery");
-  await send(
-    params.to,
-    SUBJECTS.reportDelivery,
-    tpl({
-      reportUrl: params.reportUrl,
-      typName: params.typName,
-      score: params.score,
-      qualified: params.qualified,
-      bookingUrl: BOOKING_URL,
-    }),
-  );
+  const tpl = await loadTemplate("dsgvo-link");
+  await send(params.to, SUBJECTS.dsgvoLink, tpl(params));
 }
@@ -0,0 +1,53 @@
+/**
+ * Fit Analysis Runner
+ *
+ * The analysis pipeline behind POST /api/analyze, shared with the chat's
+ * analyze_fit tool: build the prompt, stream the JSON assessment from the
+ * analyze endpoint's model, parse it into a MatchAssessment. Input checks
+ * (length, guardrails, rate limits) stay with the callers.
+ *
+ * @see Requirements 2.1, 2.6
+ */
+
+import { buildAnalysisPrompt } from '@/lib/fit-analysis-prompt';
+import { parseAnalysisResponse, type ParseResult } from '@/lib/fit-analysis-parser';
+import { streamChatCompletion } from '@/lib/llm-client';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('FitAnalysis');
+
+/**
+ * Timeout for analysis requests in milliseconds (60 seconds)
+ */
+export const ANALYSIS_TIMEOUT_MS = 60000;
+
+const ANALYSIS_INSTRUCTION = 'Please analyze this job description and provide your assessment in the JSON format specified.';
+
+/**
+ * Analyze a job description against the portfolio
+ *
+ * @param jobDescription - Non-empty job description text
+ * @param onContent - Called with the accumulated response after each chunk (progress reporting)
+ * @returns The parse result; `raw` is the model's full response
+ * @throws LLMError on provider failures
+ */
+export async function runFitAnalysis(
+  jobDescription: string,
+  onContent?: (accumulatedContent: string) => void
+): Promise<ParseResult & { raw: string }> {
+  const endPromptTiming = log.time('Prompt building');
+  const prompt = await buildAnalysisPrompt(jobDescription);
+  endPromptTiming();
+
+  let accumulatedContent = '';
+  for await (const chunk of streamChatCompletion(prompt, [{ role: 'user', content: ANALYSIS_INSTRUCTION }], {
+    endpoint: 'analyze',
+    timeout: ANALYSIS_TIMEOUT_MS,
+    responseFormat: 'json_object',
+  })) {
+    accumulatedContent += chunk;
+    onContent?.(accumulatedContent);
+  }
+
+  return { ...parseAnalysisResponse(accumulatedContent, { jobDescription }), raw: accumulatedContent };
+}
@@ -0,0 +1,210 @@
+/**
+ * Funnel analytics — rates, distributions, answer histograms, sources, date range.
+ * @jest-environment node
+ */
+
+import {
+  aggregateExperiment,
+  aggregateFunnel,
+  distribution,
+  dropOffFunnel,
+  parseDateRange,
+  twoProportionPValue,
+  type FunnelMeta,
+  type FunnelRow,
+} from "./analytics";
+
+const META: FunnelMeta = {
+  slug: "test-check",
+  title: "Test-Check",
+  questions: [
+    { id: "Q1", prompt: "Rolle?", options: [{ id: "gf", label: "GF" }, { id: "team", label: "Team" }] },
+    { id: "Q2", prompt: "Tools?", options: [{ id: "a", label: "A" }, { id: "b", label: "B" }] },
+  ],
+  outcomeLabel: (k) => k.toUpperCase(),
+  leverLabel: (k) => `Hebel ${k}`,
+};
+
+function row(overrides: Partial<FunnelRow> = {}): FunnelRow {
+  return {
+    answers: { Q1: "gf", Q2: ["a", "b"] },
+    doiStatus: "confirmed",
+    qualified: true,
+    outcome: "gut",
+    nextLever: "x",
+    tid: null,
+    ...overrides,
+  };
+}
+
+describe("distribution", () => {
+  it("lists known keys in order (also with 0) and unknown keys by count", () => {
+    const entries = distribution(["b", "z", "b", "y", "z", "z"], (k) => k, ["a", "b"]);
+    expect(entries.map((e) => [e.key, e.count])).toEqual([["a", 0], ["b", 2], ["z", 3], ["y", 1]]);
+    expect(entries[1]!.share).toBeCloseTo(2 / 6);
+  });
+
+  it("has 0 shares on an empty total", () => {
+    expect(distribution([], (k) => k, ["a"])).toEqual([{ key: "a", label: "a", count: 0, share: 0 }]);
+  });
+});
+
+describe("aggregateFunnel", () => {
+  const rows = [
+    row(),
+    row({ doiStatus: "pending", qualified: false, outcome: "schwach", nextLever: "y", tid: "v1", answers: { Q1: "team", Q2: ["a"] } }),
+    row({ tid: "v1", answers: { Q1: "chef" } }),
+    row({ doiStatus: "pending", tid: "v2", nextLever: null }),
+  ];
+  const stats = aggregateFunnel(META, rows);
+
+  it("counts submits, DOI rate and qualified share", () => {
+    expect(stats).toMatchObject({ submits: 4, confirmed: 2, confirmationRate: 0.5, qualified: 3, qualifiedShare: 0.75 });
+  });
+
+  it("labels outcomes and next levers", () => {
+    expect(stats.outcomes).toEqual([
+      { key: "gut", label: "GUT", count: 3, share: 0.75 },
+      { key: "schwach", label: "SCHWACH", count: 1, share: 0.25 },
+    ]);
+    expect(stats.nextLevers.map((e) => [e.label, e.count])).toEqual([["Hebel x", 2], ["Hebel y", 1]]);
+  });
+
+  it("builds answer histograms per question, multi-select against the people who answered", () => {
+    const [q1, q2] = stats.questions;
+    expect(q1!.entries.map((e) => [e.label, e.count])).toEqual([["GF", 2], ["Team", 1], ["chef", 1]]);
+    expect(q2!.answered).toBe(3);
+    expect(q2!.entries.map((e) => [e.key, e.count])).toEqual([["a", 3], ["b", 2]]);
+    expect(q2!.entries[0]!.share).toBe(1);
+  });
+
+  it("splits sources by tid and counts distinct tracked visitors", () => {
+    expect(stats.sources).toEqual([
+      { source: "trackmysales", submits: 3, confirmed: 1, qualified: 2 },
+      { source: "direkt", submits: 1, confirmed: 1, qualified: 1 },
+    ]);
+    expect(stats.trackedVisitors).toBe(2);
+  });
+
+  it("counts submits per embedding partner", () => {
+    const embedded = aggregateFunnel(META, [row({ partner: "kanzlei-x" }), row({ partner: "kanzlei-x" }), row()]);
+    expect(embedded.partners).toEqual([{ key: "kanzlei-x", label: "kanzlei-x", count: 2, share: 2 / 3 }]);
+    expect(stats.partners).toEqual([]);
+  });
+
+  it("charts extra dimensions", () => {
+    const withWeg = aggregateFunnel({ ...META, extra: { weg: "Weg" } }, [row({ extra: { weg: "weg-a" } }), row()]);
+    expect(withWeg.extras).toEqual([{ heading: "Weg", entries: [{ key: "weg-a", label: "weg-a", count: 1, share: 0.5 }] }]);
+  });
+
+  it("handles a funnel without submits", () => {
+    expect(aggregateFunnel(META, [])).toMatchObject({ submits: 0, confirmationRate: 0, qualifiedShare: 0, outcomes: [] });
+  });
+});
+
+describe("step counters", () => {
+  const steps = [
+    { experiment: "", variant: "", step: "view", question: -1, count: 20 },
+    { experiment: "", variant: "", step: "start", question: -1, count: 7 },
+    { experiment: "e1", variant: "a", step: "start", question: -1, count: 3 },
+    { experiment: "", variant: "", step: "question", question: 0, count: 10 },
+    { experiment: "", variant: "", step: "question", question: 1, count: 6 },
+    { experiment: "e1", variant: "a", step: "question", question: 1, count: 2 },
+    { experiment: "", variant: "", step: "finish", question: -1, count: 4 },
+  ];
+
+  it("sums intro views, quiz starts and finishes over all variants", () => {
+    expect(aggregateFunnel(META, [], steps)).toMatchObject({ viewed: 20, started: 10, finished: 4 });
+    expect(aggregateFunnel(META, [])).toMatchObject({ viewed: 0, started: 0, finished: 0 });
+  });
+
+  it("builds the drop-off funnel per question down to DOI, shares against the views", () => {
+    const funnel = dropOffFunnel(META, steps, 3, 1);
+    expect(funnel.map((e) => [e.label, e.count])).toEqual([
+      ["Intro angesehen", 20],
+      ["Check gestartet", 10],
+      ["Frage 1 · Q1", 10],
+      ["Frage 2 · Q2", 8],
+      ["Ergebnis gesehen", 4],
+      ["E-Mail eingetragen", 3],
+      ["DOI bestätigt", 1],
+    ]);
+    expect(funnel[3]!.share).toBe(0.4);
+  });
+
+  it("falls back to the starts as base without intro views", () => {
+    const funnel = dropOffFunnel(META, steps.filter((s) => s.step !== "view"), 0, 0);
+    expect(funnel[1]!.share).toBe(1);
+  });
+});
+
+describe("twoProportionPValue", () => {
+  it("matches the textbook z-test", () => {
+    // 50/100 vs. 35/100 → z ≈ 2.14, p ≈ 0.032
+    expect(twoProportionPValue(50, 100, 35, 100)).toBeCloseTo(0.0324, 3);
+    expect(twoProportionPValue(10, 100, 10, 100)).toBeCloseTo(1, 6);
+  });
+
+  it("is null without data and 1 without variance", () => {
+    expect(twoProportionPValue(0, 0, 3, 10)).toBeNull();
+    expect(twoProportionPValue(0, 10, 0, 20)).toBe(1);
+  });
+});
+
+describe("aggregateExperiment", () => {
+  const experiment = { id: "e1", variants: ["control", "kurz"] };
+  const steps = [
+    { experiment: "e1", variant: "control", step: "start", question: -1, count: 100 },
+    { experiment: "e1", variant: "control", step: "finish", question: -1, count: 60 },
+    { experiment: "e1", variant: "kurz", step: "start", question: -1, count: 100 },
+    { experiment: "e1", variant: "kurz", step: "finish", question: -1, count: 60 },
+    { experiment: "", variant: "", step: "start", question: -1, count: 50 },
+  ];
+  const rows = [
+    row({ experiment: "e1", variant: "control" }),
+    ...Array.from({ length: 4 }, () => row({ experiment: "e1", variant: "kurz", doiStatus: "pending" })),
+    row({ experiment: "old", variant: "kurz" }),
+  ];
+  const stats = aggregateExperiment(experiment, rows, steps);
+
+  it("counts start → finish → submit → confirm per variant, rates from start", () => {
+    expect(stats.variants.map((v) => v.steps.map((s) => s.count))).toEqual([
+      [100, 60, 1, 1],
+      [100, 60, 4, 0],
+    ]);
+    expect(stats.variants[1]!.steps.map((s) => s.rate)).toEqual([1, 0.6, 0.04, 0]);
+  });
+
+  it("tests every variant step against the control", () => {
+    expect(stats.variants[0]!.control).toBe(true);
+    expect(stats.variants[0]!.steps.every((s) => s.pValue === null)).toBe(true);
+    const [start, finish, submit] = stats.variants[1]!.steps;
+    expect(start!.pValue).toBeNull();
+    expect(finish!.pValue).toBeCloseTo(1, 6);
+    expect(submit!.pValue).toBeGreaterThan(0.05);
+  });
+
+  it("is attached to the funnel when the meta names an experiment", () => {
+    expect(aggregateFunnel({ ...META, experiment }, rows, steps).experiment).toEqual(stats);
+    expect(aggregateFunnel(META, rows, steps).experiment).toBeUndefined();
+  });
+});
+
+describe("parseDateRange", () => {
+  const NOW = new Date("2026-10-18T15:00:00Z");
+
+  it("defaults to the last 30 days including today", () => {
+    const range = parseDateRange({}, NOW);
+    expect(range).toMatchObject({ fromDay: "2026-09-19", toDay: "2026-10-18" });
+    expect(range.to.toISOString()).toBe("2026-10-19T00:00:00.000Z");
+  });
+
+  it("takes both days inclusive and swaps a reversed range", () => {
+    expect(parseDateRange({ from: "2026-10-01", to: "2026-10-07" }, NOW)).toMatchObject({ fromDay: "2026-10-01", toDay: "2026-10-07" });
+    expect(parseDateRange({ from: "2026-10-07", to: "2026-10-01" }, NOW)).toMatchObject({ fromDay: "2026-10-01", toDay: "2026-10-07" });
+  });
+
+  it("ignores invalid values", () => {
+    expect(parseDateRange({ from: "gestern", to: "2026-13-45" }, NOW)).toMatchObject({ fromDay: "2026-09-19", toDay: "2026-10-18" });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Scorecard funnel analytics — pure aggregation behind /admin/funnels.
+ *
+ * The `scorecard_submissions` rows are mapped onto one FunnelRow shape first
+ * (dashboard.ts), so every scorecard is counted by the same code. The quiz steps
+ * before the opt-in (intro, start, each question, result) come from the
+ * anonymous step counters.
+ */
+
+export interface FunnelRow {
+  answers: Record<string, string | string[]>;
+  doiStatus: string;
+  qualified: boolean;
+  outcome: string;
+  nextLever: string | null;
+  /** trackmysales visitor id (null = untracked arrival). */
+  tid: string | null;
+  /** Embedding partner (null = our own page). */
+  partner?: string | null;
+  /** Funnel-specific extra dimensions, e.g. the Engpass "weg". */
+  extra?: Record<string, string>;
+  /** A/B experiment + variant the lead was shown (null = none running). */
+  experiment?: string | null;
+  variant?: string | null;
+}
+
+/** One scorecard_step_counts row ('' experiment / variant = outside any experiment). */
+export interface StepCount {
+  experiment: string;
+  variant: string;
+  step: string;
+  /** Question index for step "question", -1 otherwise. */
+  question: number;
+  count: number;
+}
+
+export interface QuestionMeta {
+  id: string;
+  prompt: string;
+  options: { id: string; label: string }[];
+}
+
+export interface FunnelMeta {
+  slug: string;
+  title: string;
+  questions: QuestionMeta[];
+  outcomeLabel: (key: string) => string;
+  leverLabel: (key: string) => string;
+  /** Extra dimensions to chart: key in FunnelRow.extra → heading. */
+  extra?: Record<string, string>;
+  /** The running A/B experiment; the first variant is the control. */
+  experiment?: { id: string; variants: string[] };
+}
+
+export interface DistributionEntry {
+  key: string;
+  label: string;
+  count: number;
+  /** count / total, 0..1 (0 when the total is 0). */
+  share: number;
+}
+
+export interface SourceStats {
+  source: "trackmysales" | "direkt";
+  submits: number;
+  confirmed: number;
+  qualified: number;
+}
+
+/** start → finish quiz → submit email → DOI confirm. */
+export const FUNNEL_STEPS = ["start", "finish", "submit", "confirm"] as const;
+
+export type FunnelStep = (typeof FUNNEL_STEPS)[number];
+
+export interface VariantStats {
+  variant: string;
+  control: boolean;
+  steps: {
+    step: FunnelStep;
+    count: number;
+    /** count / started, 0..1 (0 without starts). */
+    rate: number;
+    /** Two-sided p-value of `rate` against the control; null for the control, "start" and without data. */
+    pValue: number | null;
+  }[];
+}
+
+export interface ExperimentStats {
+  id: string;
+  variants: VariantStats[];
+}
+
+export interface FunnelStats {
+  slug: string;
+  title: string;
+  /** Intro views, quiz starts / finishes from the step counters. */
+  viewed: number;
+  started: number;
+  finished: number;
+  /**
+   * Drop-off funnel: intro → start → each question → result → email → DOI,
+   * shares against the intro views (the starts when there are none).
+   */
+  dropOff: DistributionEntry[];
+  submits: number;
+  confirmed: number;
+  /** confirmed / submits, 0..1. */
+  confirmationRate: number;
+  qualified: number;
+  /** qualified / submits, 0..1. */
+  qualifiedShare: number;
+  outcomes: DistributionEntry[];
+  nextLevers: DistributionEntry[];
+  extras: { heading: string; entries: DistributionEntry[] }[];
+  questions: { id: string; prompt: string; answered: number; entries: DistributionEntry[] }[];
+  sources: SourceStats[];
+  /** Submits per embedding partner (only embedded submits). */
+  partners: DistributionEntry[];
+  /** Distinct trackmysales visitor ids. */
+  trackedVisitors: number;
+  experiment?: ExperimentStats;
+}
+
+function ratio(count: number, total: number): number {
+  return total === 0 ? 0 : count / total;
+}
+
+/**
+ * Count keys into a distribution. `order` fixes the order of known keys (and
+ * lists them with 0); unknown keys follow by count.
+ */
+export function distribution(
+  keys: string[],
+  label: (key: string) => string,
+  order: string[] = [],
+  total: number = keys.length,
+): DistributionEntry[] {
+  const counts = new Map<string, number>(order.map((k) => [k, 0]));
+  for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  const known = order.map((key) => [key, counts.get(key)!] as const);
+  const rest = [...counts.entries()].filter(([key]) => !order.includes(key)).sort((a, b) => b[1] - a[1]);
+  return [...known, ...rest].map(([key, count]) => ({ key, label: label(key), count, share: ratio(count, total) }));
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value of a pooled two-proportion z-test (x1 of n1 vs. x2 of n2);
+ * null when a group is empty.
+ */
+export function twoProportionPValue(x1: number, n1: number, x2: number, n2: number): number | null {
+  if (n1 === 0 || n2 === 0) return null;
+  const pooled = (x1 + x2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return 1;
+  const z = (x1 / n1 - x2 / n2) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+function sumSteps(steps: StepCount[], step: string): number {
+  return steps.filter((s) => s.step === step).reduce((sum, s) => sum + s.count, 0);
+}
+
+/** The drop-off funnel over the step counters and the submit / confirm counts. */
+export function dropOffFunnel(
+  meta: FunnelMeta,
+  steps: StepCount[],
+  submits: number,
+  confirmed: number,
+): DistributionEntry[] {
+  const entries = [
+    { key: "view", label: "Intro angesehen", count: sumSteps(steps, "view") },
+    { key: "start", label: "Check gestartet", count: sumSteps(steps, "start") },
+    ...meta.questions.map((q, i) => ({
+      key: `question:${i}`,
+      label: `Frage ${i + 1} · ${q.id}`,
+      count: sumSteps(steps.filter((s) => s.question === i), "question"),
+    })),
+    { key: "finish", label: "Ergebnis gesehen", count: sumSteps(steps, "finish") },
+    { key: "submit", label: "E-Mail eingetragen", count: submits },
+    { key: "confirm", label: "DOI bestätigt", count: confirmed },
+  ];
+  const base = entries[0]!.count || entries[1]!.count;
+  return entries.map((e) => ({ ...e, share: ratio(e.count, base) }));
+}
+
+/** Conversion per funnel step and variant, each variant tested against the control. */
+export function aggregateExperiment(
+  experiment: NonNullable<FunnelMeta["experiment"]>,
+  rows: FunnelRow[],
+  steps: StepCount[],
+): ExperimentStats {
+  const counts = experiment.variants.map((variant) => {
+    const own = rows.filter((r) => r.experiment === experiment.id && r.variant === variant);
+    const pings = steps.filter((s) => s.experiment === experiment.id && s.variant === variant);
+    return {
+      start: sumSteps(pings, "start"),
+      finish: sumSteps(pings, "finish"),
+      submit: own.length,
+      confirm: own.filter((r) => r.doiStatus === "confirmed").length,
+    };
+  });
+  const control = counts[0];
+  // Pings can get lost (blockers), so a later step may outnumber the starts — cap at n.
+  const converted = (c: (typeof counts)[number], step: FunnelStep) => Math.min(c[step], c.start);
+
+  return {
+    id: experiment.id,
+    variants: experiment.variants.map((variant, i) => {
+      const c = counts[i]!;
+      return {
+        variant,
+        control: i === 0,
+        steps: FUNNEL_STEPS.map((step) => ({
+          step,
+          count: c[step],
+          rate: ratio(c[step], c.start),
+          pValue:
+            i === 0 || step === "start" || !control
+              ? null
+              : twoProportionPValue(converted(c, step), c.start, converted(control, step), control.start),
+        })),
+      };
+    }),
+  };
+}
+
+/** Every metric of one funnel over `rows` and its step counters. */
+export function aggregateFunnel(meta: FunnelMeta, rows: FunnelRow[], steps: StepCount[] = []): FunnelStats {
+  const submits = rows.length;
+  const confirmed = rows.filter((r) => r.doiStatus === "confirmed").length;
+  const qualified = rows.filter((r) => r.qualified).length;
+
+  const questions = meta.questions.map((q) => {
+    const picked = rows.flatMap((r) => {
+      const value = r.answers[q.id];
+      return value === undefined ? [] : Array.isArray(value) ? value : [value];
+    });
+    const answered = rows.filter((r) => r.answers[q.id] !== undefined).length;
+    const labels = new Map(q.options.map((o) => [o.id, o.label]));
+    return {
+      id: q.id,
+      prompt: q.prompt,
+      answered,
+      // Shares against the people who answered — multi-select shares can add up to more than 100 %.
+      entries: distribution(picked, (k) => labels.get(k) ?? k, q.options.map((o) => o.id), answered),
+    };
+  });
+
+  const tracked = rows.filter((r) => r.tid);
+  const sources: SourceStats[] = [
+    { source: "trackmysales", rows: tracked },
+    { source: "direkt", rows: rows.filter((r) => !r.tid) },
+  ].map(({ source, rows: group }) => ({
+    source: source as SourceStats["source"],
+    submits: group.length,
+    confirmed: group.filter((r) => r.doiStatus === "confirmed").length,
+    qualified: group.filter((r) => r.qualified).length,
+  }));
+
+  return {
+    slug: meta.slug,
+    title: meta.title,
+    viewed: sumSteps(steps, "view"),
+    started: sumSteps(steps, "start"),
+    finished: sumSteps(steps, "finish"),
+    dropOff: dropOffFunnel(meta, steps, submits, confirmed),
+    submits,
+    confirmed,
+    confirmationRate: ratio(confirmed, submits),
+    qualified,
+    qualifiedShare: ratio(qualified, submits),
+    outcomes: distribution(rows.map((r) => r.outcome), meta.outcomeLabel),
+    nextLevers: distribution(rows.flatMap((r) => (r.nextLever ? [r.nextLever] : [])), meta.leverLabel, [], submits),
+    extras: Object.entries(meta.extra ?? {}).map(([key, heading]) => ({
+      heading,
+      entries: distribution(rows.flatMap((r) => (r.extra?.[key] ? [r.extra[key]] : [])), (k) => k, [], submits),
+    })),
+    questions,
+    sources,
+    partners: distribution(rows.flatMap((r) => (r.partner ? [r.partner] : [])), (k) => k, [], submits),
+    trackedVisitors: new Set(tracked.map((r) => r.tid)).size,
+    ...(meta.experiment ? { experiment: aggregateExperiment(meta.experiment, rows, steps) } : {}),
+  };
+}
+
+export interface DateRange {
+  /** Inclusive start (00:00 UTC of the first day). */
+  from: Date;
+  /** Exclusive end (00:00 UTC after the last day). */
+  to: Date;
+  /** The same range as YYYY-MM-DD, last day inclusive — for the form. */
+  fromDay: string;
+  toDay: string;
+}
+
+export const DEFAULT_RANGE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDay(value: string | undefined): Date | null {
+  if (!value || !DAY_RE.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The selected date range from `?from=&to=` (YYYY-MM-DD, both inclusive).
+ * Missing or invalid values fall back to the last DEFAULT_RANGE_DAYS days up
+ * to today; a reversed range is swapped.
+ */
+export function parseDateRange(params: { from?: string; to?: string }, now: Date = new Date()): DateRange {
+  const today = parseDay(toDay(now))!;
+  let last = parseDay(params.to) ?? today;
+  let first = parseDay(params.from) ?? new Date(last.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  if (first > last) [first, last] = [last, first];
+  return { from: first, to: new Date(last.getTime() + DAY_MS), fromDay: toDay(first), toDay: toDay(last) };
+}
@@ -0,0 +1,127 @@
+/**
+ * Funnel dashboard — token guard and the mapping of the submissions per scorecard.
+ * @jest-environment node
+ */
+
+const mockGeneric = jest.fn();
+jest.mock("@/db/scorecard-submissions", () => ({
+  getScorecardSubmissionsCreatedBetween: (...a: unknown[]) => mockGeneric(...a),
+}));
+
+const mockSteps = jest.fn();
+jest.mock("@/db/scorecard-steps", () => ({
+  getScorecardStepCountsBetween: (...a: unknown[]) => mockSteps(...a),
+}));
+
+let dbConfigured = true;
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
+
+import { isFunnelsAdminToken, loadFunnelDashboard } from "./dashboard";
+import { REGISTRATIONS } from "@/scorecards";
+
+const NOW = new Date("2026-10-18T15:00:00Z");
+const KFC = REGISTRATIONS[0]!.definition;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  dbConfigured = true;
+  process.env.FUNNELS_ADMIN_TOKEN = "s3cret";
+  mockGeneric.mockResolvedValue([
+    {
+      scorecard: "engpass-check",
+      answers: { K1: "gf", S1: "nein" },
+      result: { rawSum: 11, score: 65, outcome: "akut", nextLever: "wissens-monopol", qualified: true, weg: "weg-a" },
+      doiStatus: "confirmed",
+      tid: "v1",
+      partner: null,
+      experiment: null,
+      variant: null,
+      createdAt: NOW,
+    },
+    {
+      scorecard: KFC.slug,
+      answers: {},
+      result: { rawSum: 3, score: 40, outcome: "x-outcome", nextLever: "x-lever", qualified: false },
+      doiStatus: "pending",
+      tid: null,
+      partner: "kanzlei-x",
+      experiment: null,
+      variant: null,
+      createdAt: NOW,
+    },
+  ]);
+  mockSteps.mockResolvedValue([
+    { day: "2026-10-18", scorecard: KFC.slug, experiment: "", variant: "", step: "start", question: -1, count: 5 },
+    { day: "2026-10-18", scorecard: KFC.slug, experiment: "", variant: "", step: "finish", question: -1, count: 2 },
+  ]);
+});
+
+afterAll(() => {
+  delete process.env.FUNNELS_ADMIN_TOKEN;
+});
+
+describe("isFunnelsAdminToken", () => {
+  it("accepts only the configured token", () => {
+    expect(isFunnelsAdminToken("s3cret")).toBe(true);
+    expect(isFunnelsAdminToken("wrong")).toBe(false);
+    expect(isFunnelsAdminToken(undefined)).toBe(false);
+  });
+
+  it("is closed while FUNNELS_ADMIN_TOKEN is unset", () => {
+    delete process.env.FUNNELS_ADMIN_TOKEN;
+    expect(isFunnelsAdminToken("")).toBe(false);
+    expect(isFunnelsAdminToken("s3cret")).toBe(false);
+  });
+});
+
+describe("loadFunnelDashboard", () => {
+  it("returns null for a wrong token without touching the DB", async () => {
+    expect(await loadFunnelDashboard("wrong", {}, NOW)).toBeNull();
+    expect(mockGeneric).not.toHaveBeenCalled();
+  });
+
+  it("queries the submissions and step counters over the selected range", async () => {
+    await loadFunnelDashboard("s3cret", { from: "2026-10-01", to: "2026-10-07" }, NOW);
+    const range = [new Date("2026-10-01T00:00:00Z"), new Date("2026-10-08T00:00:00Z")];
+    expect(mockGeneric).toHaveBeenCalledWith(...range);
+    expect(mockSteps).toHaveBeenCalledWith("2026-10-01", "2026-10-08");
+  });
+
+  it("lists every registered scorecard", async () => {
+    const dashboard = await loadFunnelDashboard("s3cret", {}, NOW);
+    expect(dashboard!.funnels.map((f) => f.slug)).toEqual(REGISTRATIONS.map((r) => r.definition.slug));
+  });
+
+  it("labels the Engpass band / typ and charts its weg from the result", async () => {
+    const engpass = (await loadFunnelDashboard("s3cret", {}, NOW))!.funnels.find((f) => f.slug === "engpass-check")!;
+    expect(engpass).toMatchObject({ title: "Der Engpass-Check", submits: 1, confirmed: 1, qualified: 1, trackedVisitors: 1 });
+    expect(engpass.outcomes[0]).toMatchObject({ key: "akut", label: "Akuter Engpass" });
+    expect(engpass.nextLevers[0]).toMatchObject({ key: "wissens-monopol", label: "Wissens-Monopol" });
+    expect(engpass.extras[0]!.entries[0]).toMatchObject({ key: "weg-a", count: 1 });
+    expect(engpass.questions.find((q) => q.id === "K1")!.entries.find((e) => e.key === "gf")!.count).toBe(1);
+  });
+
+  it("reads outcome, next lever and qualified of generic scorecards from the result", async () => {
+    const kfc = (await loadFunnelDashboard("s3cret", {}, NOW))!.funnels.find((f) => f.slug === KFC.slug)!;
+    expect(kfc).toMatchObject({ submits: 1, confirmed: 0, qualified: 0 });
+    expect(kfc.outcomes[0]).toMatchObject({ key: "x-outcome", count: 1 });
+    expect(kfc.nextLevers[0]).toMatchObject({ key: "x-lever", count: 1 });
+    expect(kfc.partners).toEqual([{ key: "kanzlei-x", label: "kanzlei-x", count: 1, share: 1 }]);
+    expect(kfc.questions).toHaveLength(KFC.questions.length);
+  });
+
+  it("adds the quiz steps of each scorecard from the step counters", async () => {
+    const { funnels } = (await loadFunnelDashboard("s3cret", {}, NOW))!;
+    const kfc = funnels.find((f) => f.slug === KFC.slug)!;
+    expect(kfc).toMatchObject({ started: 5, finished: 2 });
+    expect(kfc.dropOff).toHaveLength(KFC.questions.length + 5);
+    expect(funnels.find((f) => f.slug === "engpass-check")).toMatchObject({ started: 0, finished: 0 });
+  });
+
+  it("shows no funnels without a database", async () => {
+    dbConfigured = false;
+    const dashboard = await loadFunnelDashboard("s3cret", {}, NOW);
+    expect(dashboard).toMatchObject({ databaseConfigured: false, funnels: [] });
+    expect(mockGeneric).not.toHaveBeenCalled();
+  });
+});
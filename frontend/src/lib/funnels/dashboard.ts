@@ -0,0 +1,123 @@
+/**
+ * /admin/funnels — loads the scorecard submissions and step counters for a
+ * date range and aggregates them per scorecard (analytics.ts).
+ *
+ * Guarded by FUNNELS_ADMIN_TOKEN: an unset secret or a wrong token resolves
+ * to `null` and the page answers 404, like the workshop Übersicht.
+ *
+ * Mapping onto FunnelRow:
+ *   Submissions (scorecard_submissions): outcome / nextLever / qualified from `result`,
+ *                                      experiment / variant for the A/B table, embed partner,
+ *                                      the registration's `funnelExtras` (e.g. Engpass weg)
+ *   Step counters (scorecard_step_counts): intro / start / question / result per scorecard,
+ *                                      variant and question index → drop-off chart
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { isDatabaseConfigured } from "@/db/client";
+import { getScorecardSubmissionsCreatedBetween } from "@/db/scorecard-submissions";
+import { getScorecardStepCountsBetween } from "@/db/scorecard-steps";
+import { getScorecard } from "@/lib/scorecard/registry";
+import type { ScorecardResult } from "@/lib/scorecard/types";
+import { REGISTRATIONS } from "@/scorecards";
+import {
+  aggregateFunnel,
+  parseDateRange,
+  type DateRange,
+  type FunnelMeta,
+  type FunnelRow,
+  type FunnelStats,
+} from "./analytics";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/** True when `token` matches FUNNELS_ADMIN_TOKEN (never when it is unset). */
+export function isFunnelsAdminToken(token: string | undefined): boolean {
+  const secret = process.env.FUNNELS_ADMIN_TOKEN;
+  if (!secret || !token) return false;
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/** Meta of a registered scorecard; a bare fallback for rows of an unknown slug. */
+function scorecardMeta(slug: string): FunnelMeta {
+  const registration = getScorecard(slug);
+  if (!registration) {
+    return { slug, title: slug, questions: [], outcomeLabel: (k) => k, leverLabel: (k) => k };
+  }
+  const { content, definition, meta, experiment, funnelExtras } = registration;
+  const levers = new Map((content.tipps ?? []).flatMap((h) => (h.category ? [[h.category, h.title] as const] : [])));
+  return {
+    slug,
+    title: meta.title.split(/ — |: /)[0]!,
+    questions: definition.questions.map((q) => ({ id: q.id, prompt: q.prompt, options: q.options })),
+    outcomeLabel: (key) => content.outcomeLabel[key] ?? key,
+    leverLabel: (key) => content.categoryLabel?.[key] ?? levers.get(key) ?? key,
+    ...(funnelExtras ? { extra: funnelExtras } : {}),
+    ...(experiment ? { experiment: { id: experiment.id, variants: experiment.variants.map((v) => v.id) } } : {}),
+  };
+}
+
+/** The string-valued extra result fields (e.g. the Engpass `weg`) a funnel charts. */
+function resultExtras(result: ScorecardResult, keys: string[]): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(result).filter(
+      (field): field is [string, string] => keys.includes(field[0]) && typeof field[1] === "string",
+    ),
+  );
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) groups.set(key(row), [...(groups.get(key(row)) ?? []), row]);
+  return groups;
+}
+
+export interface FunnelDashboard {
+  range: DateRange;
+  databaseConfigured: boolean;
+  funnels: FunnelStats[];
+}
+
+/**
+ * The dashboard for a token and the `?from=&to=` params, or null (→ 404).
+ * Every registered scorecard is listed, also without submits in the range.
+ */
+export async function loadFunnelDashboard(
+  token: string | undefined,
+  params: { from?: string; to?: string },
+  now: Date = new Date(),
+): Promise<FunnelDashboard | null> {
+  if (!isFunnelsAdminToken(token)) return null;
+  const range = parseDateRange(params, now);
+  if (!isDatabaseConfigured()) return { range, databaseConfigured: false, funnels: [] };
+
+  const [submissions, steps] = await Promise.all([
+    getScorecardSubmissionsCreatedBetween(range.from, range.to),
+    getScorecardStepCountsBetween(range.fromDay, range.to.toISOString().slice(0, 10)),
+  ]);
+
+  const submissionsBySlug = groupBy(submissions, (r) => r.scorecard);
+  const stepsBySlug = groupBy(steps, (r) => r.scorecard);
+  const slugs = [...new Set([...REGISTRATIONS.map((r) => r.definition.slug), ...submissionsBySlug.keys()])];
+
+  const funnels = slugs.map((slug) => {
+    const meta = scorecardMeta(slug);
+    const rows: FunnelRow[] = (submissionsBySlug.get(slug) ?? []).map((r) => ({
+      answers: r.answers,
+      doiStatus: r.doiStatus,
+      qualified: r.result.qualified,
+      outcome: r.result.outcome,
+      nextLever: r.result.nextLever ?? null,
+      tid: r.tid,
+      partner: r.partner,
+      experiment: r.experiment,
+      variant: r.variant,
+      ...(meta.extra ? { extra: resultExtras(r.result, Object.keys(meta.extra)) } : {}),
+    }));
+    return aggregateFunnel(meta, rows, stepsBySlug.get(slug) ?? []);
+  });
+
+  return { range, databaseConfigured: true, funnels };
+}
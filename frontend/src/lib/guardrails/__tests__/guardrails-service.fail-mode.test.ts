@@ -45,6 +45,7 @@ jest.mock('@/lib/portfolio-owner', () => ({
 }));
 
 import { GuardrailsService, CHAT_GUARDRAIL_CONFIG } from '../guardrails-service';
+import { createMockProvider } from '@/lib/llm';
 import type { GuardrailConfig } from '../types';
 
 const SAFETY_CRITICAL: GuardrailConfig = {
@@ -65,7 +66,7 @@ describe('GuardrailsService fail-open/fail-closed (VULN-005)', () => {
     mockJailbreak.mockReset();
     mockModerationCheck.mockReset();
     mockTopicalAlignment.mockReset();
-    service = new GuardrailsService('test-key', 'chat');
+    service = new GuardrailsService(createMockProvider(), 'chat');
   });
 
   describe('safety-critical checks fail CLOSED on provider error', () => {
@@ -93,6 +94,16 @@ describe('GuardrailsService fail-open/fail-closed (VULN-005)', () => {
       expect(result.failedCheck).toBe('content_moderation');
     });
 
+    it('rejects when a check reports executionFailed instead of throwing', async () => {
+      const config: GuardrailConfig = { enabledChecks: ['jailbreak', 'content_moderation'], blockThreshold: 0.8 };
+      const failed = { tripwireTriggered: false, executionFailed: true, originalException: new Error('down'), info: {} };
+      mockJailbreak.mockResolvedValue(failed);
+      mockModerationCheck.mockResolvedValue(failed);
+      const result = await service.validateInput('hello', config, 'req-1');
+      expect(result.passed).toBe(false);
+      expect(result.failedCheck).toBe('jailbreak');
+    });
+
     it('validateOutput: rejects when moderationCheck() throws', async () => {
       mockModerationCheck.mockRejectedValue(new Error('provider down'));
       const result = await service.validateOutput('some output', SAFETY_CRITICAL, 'req-1');
@@ -107,6 +118,12 @@ describe('GuardrailsService fail-open/fail-closed (VULN-005)', () => {
       const result = await service.validateInput('hello', OFF_TOPIC_ONLY, 'req-1');
       expect(result.passed).toBe(true);
     });
+
+    it('allows the request when topicalAlignment() reports executionFailed', async () => {
+      mockTopicalAlignment.mockResolvedValue({ tripwireTriggered: false, executionFailed: true, info: {} });
+      const result = await service.validateInput('hello', OFF_TOPIC_ONLY, 'req-1');
+      expect(result.passed).toBe(true);
+    });
   });
 
   describe('mixed config: safety-critical failure dominates', () => {
@@ -2,12 +2,12 @@
  * GuardrailsService - Main service for validating inputs and outputs against safety policies
  */
 
-import OpenAI from 'openai';
 import {
   jailbreak,
   moderationCheck,
   topicalAlignment,
   Category,
+  type GuardrailResult,
 } from '@openai/guardrails';
 import {
   GuardrailCheckType,
@@ -20,9 +20,22 @@ import { getRejectionMessage } from './messages';
 import { logSecurityEvent } from './security-logger';
 import { createLogger } from '../logger';
 import { PORTFOLIO_OWNER } from '../portfolio-owner';
+import { getLLMProvider, type LLMProvider } from '../llm';
+import { createGuardrailClient, guardrailContext, type GuardrailClient } from './provider-client';
 
 const log = createLogger('GuardrailsService');
 
+/**
+ * The library reports a failed provider call as `executionFailed` instead of
+ * throwing; rethrow so the check's catch applies its fail mode (VULN-005)
+ */
+function rethrowExecutionFailure(result: GuardrailResult): GuardrailResult {
+  if (result.executionFailed) {
+    throw result.originalException ?? new Error('Guardrail check execution failed');
+  }
+  return result;
+}
+
 /**
  * Predefined configuration for Chat API guardrails
  */
@@ -91,20 +104,21 @@ const FAIL_CLOSED_CHECKS: ReadonlySet<GuardrailCheckType> = new Set([
  */
 const DEFAULT_BLOCK_THRESHOLD = 0.8;
 
-/**
- * Model to use for LLM-based guardrail checks
- */
-const GUARDRAIL_MODEL = 'gpt-4o-mini';
-
 /**
  * Main guardrails service class
+ *
+ * Checks run on the given provider (normally the one configured for the
+ * `guardrails` endpoint), so classifier prompts and moderation stay with the
+ * same vendor as the rest of the request.
  */
 export class GuardrailsService {
-  private openai: OpenAI;
+  private guardrailLlm: GuardrailClient;
+  private model: string;
   private endpoint: string;
 
-  constructor(apiKey: string, endpoint: string = 'unknown') {
-    this.openai = new OpenAI({ apiKey });
+  constructor(llm: LLMProvider, endpoint: string = 'unknown') {
+    this.guardrailLlm = createGuardrailClient(llm);
+    this.model = llm.model;
     this.endpoint = endpoint;
   }
 
@@ -269,15 +283,15 @@ export class GuardrailsService {
     try {
       // Use jailbreak check as it covers prompt injection patterns
       // The @openai/guardrails prompt_injection_detection is designed for tool calls
-      const ctx = { guardrailLlm: this.openai };
+      const ctx = guardrailContext(this.guardrailLlm);
       const config = {
-        model: GUARDRAIL_MODEL,
+        model: this.model,
         confidence_threshold: 0.5,
         include_reasoning: false,
         max_turns: 1,
       };
 
-      const result = await jailbreak(ctx, input, config);
+      const result = rethrowExecutionFailure(await jailbreak(ctx, input, config));
 
       return {
         checkType: 'prompt_injection',
@@ -302,15 +316,15 @@ export class GuardrailsService {
    */
   private async runJailbreakCheck(input: string): Promise<GuardrailCheckResult> {
     try {
-      const ctx = { guardrailLlm: this.openai };
+      const ctx = guardrailContext(this.guardrailLlm);
       const config = {
-        model: GUARDRAIL_MODEL,
+        model: this.model,
         confidence_threshold: 0.5,
         include_reasoning: false,
         max_turns: 1,
       };
 
-      const result = await jailbreak(ctx, input, config);
+      const result = rethrowExecutionFailure(await jailbreak(ctx, input, config));
 
       return {
         checkType: 'jailbreak',
@@ -335,7 +349,7 @@ export class GuardrailsService {
    */
   private async runContentModerationCheck(input: string): Promise<GuardrailCheckResult> {
     try {
-      const ctx = { guardrailLlm: this.openai };
+      const ctx = guardrailContext(this.guardrailLlm);
       const config = {
         categories: [
           Category.HATE,
@@ -348,7 +362,7 @@ export class GuardrailsService {
         ],
       };
 
-      const result = await moderationCheck(ctx, input, config);
+      const result = rethrowExecutionFailure(await moderationCheck(ctx, input, config));
 
       return {
         checkType: 'content_moderation',
@@ -376,16 +390,16 @@ export class GuardrailsService {
     topicScope: TopicScope
   ): Promise<GuardrailCheckResult> {
     try {
-      const ctx = { guardrailLlm: this.openai };
+      const ctx = guardrailContext(this.guardrailLlm);
       const config = {
-        model: GUARDRAIL_MODEL,
+        model: this.model,
         confidence_threshold: 0.5,
         system_prompt_details: `Allowed topics: ${topicScope.allowedTopics.join(', ')}. Context: ${topicScope.description}. Be lenient with greetings, follow-up questions, and clarifications.`,
         include_reasoning: false,
         max_turns: 1,
       };
 
-      const result = await topicalAlignment(ctx, input, config);
+      const result = rethrowExecutionFailure(await topicalAlignment(ctx, input, config));
 
       return {
         checkType: 'off_topic',
@@ -423,10 +437,7 @@ export function applyThreshold(
 let guardrailsServiceInstance: GuardrailsService | null = null;
 
 export function getGuardrailsService(endpoint: string): GuardrailsService {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
+  // Throws while the guardrails provider is not configured.
   // Create new instance per endpoint for proper logging
-  return new GuardrailsService(apiKey, endpoint);
+  return new GuardrailsService(getLLMProvider('guardrails'), endpoint);
 }
@@ -0,0 +1,108 @@
+/**
+ * Adapter that lets the @openai/guardrails checks run on any LLM provider
+ *
+ * The checks GuardrailsService runs (jailbreak, topical alignment,
+ * moderation) only call `chat.completions.create` (classifier prompts in JSON
+ * mode) and `moderations.create` on the client they are given. This object
+ * implements exactly that surface on top of an LLMProvider. Other library
+ * checks need more (hallucination detection calls `responses.create`), so
+ * enabling one means extending GuardrailClient first — the service tests run
+ * every enabled check against this adapter.
+ */
+
+import type OpenAI from 'openai';
+import type { GuardrailLLMContext } from '@openai/guardrails';
+import type { ConversationMessage } from '@/types/chat';
+import { completeChat, type LLMProvider, type ModerationResult } from '../llm';
+
+/**
+ * Time allowed per classifier or moderation call
+ */
+const CHECK_TIMEOUT_MS = 15000;
+
+/**
+ * Classifier verdicts are a small JSON object
+ */
+const CHECK_MAX_TOKENS = 512;
+
+/**
+ * The subset of chat completion params the checks send
+ */
+interface CheckCompletionParams {
+  messages: Array<{ role: string; content: string }>;
+  temperature?: number;
+  response_format?: { type?: string };
+}
+
+/**
+ * The part of the OpenAI client the checks call, with the response fields they read
+ */
+export interface GuardrailClient {
+  chat: {
+    completions: {
+      create(params: CheckCompletionParams): Promise<{
+        choices: Array<{ index: number; message: { role: 'assistant'; content: string } }>;
+      }>;
+    };
+  };
+  moderations: {
+    create(params: { input: string }): Promise<{ results: ModerationResult[] }>;
+  };
+}
+
+/**
+ * Build an OpenAI-client-shaped object backed by the provider
+ * @returns The adapter
+ */
+export function createGuardrailClient(llm: LLMProvider): GuardrailClient {
+  return {
+    chat: {
+      completions: {
+        async create(params: CheckCompletionParams) {
+          const systemPrompt = params.messages
+            .filter((msg) => msg.role === 'system')
+            .map((msg) => msg.content)
+            .join('\n\n');
+          const messages = params.messages.filter(
+            (msg): msg is ConversationMessage => msg.role === 'user' || msg.role === 'assistant'
+          );
+
+          const content = await completeChat(llm, {
+            systemPrompt,
+            messages,
+            temperature: params.temperature ?? 0,
+            maxTokens: CHECK_MAX_TOKENS,
+            timeout: CHECK_TIMEOUT_MS,
+            responseFormat: params.response_format?.type === 'json_object' ? 'json_object' : undefined,
+          });
+
+          return { choices: [{ index: 0, message: { role: 'assistant', content } }] };
+        },
+      },
+    },
+    moderations: {
+      async create(params: { input: string }) {
+        try {
+          const result = await llm.moderate(params.input);
+          return { results: [result] };
+        } catch (error) {
+          // moderationCheck retries a 404 on a fresh `new OpenAI()`, which would
+          // send the input past the configured provider. Drop the status so any
+          // provider error stays a failure of this check.
+          throw new Error(error instanceof Error ? error.message : String(error));
+        }
+      },
+    },
+  };
+}
+
+/**
+ * The context the @openai/guardrails checks take, around the adapter
+ *
+ * Library boundary: the context is typed as the full OpenAI client, but the
+ * checks the service runs only call the methods GuardrailClient declares.
+ * This is the one place the adapter is passed off as that client.
+ */
+export function guardrailContext(client: GuardrailClient): GuardrailLLMContext {
+  return { guardrailLlm: client as unknown as OpenAI };
+}
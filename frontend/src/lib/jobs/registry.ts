@@ -0,0 +1,56 @@
+/**
+ * The periodic jobs of the app, run by the in-app scheduler (scheduler.ts).
+ * The /api/cron/* endpoints run the same jobs on an external trigger, through
+ * runJob as well — so lock and interval hold whoever triggers first.
+ *
+ *   retention-purge        daily   unconfirmed opt-ins older than 7 days (DSGVO)
+ *   chat-retention         daily   shared chat conversations idle for 30 days
+ *   workshop-reservations  hourly  Zahlungserinnerung + auto-cancel of unpaid reservations
+ *   workshop-waitlist      hourly  lapsed Warteliste offers move on, free slots get offered
+ *   youtube-refresh        6 h     latest longform videos for the homepage
+ */
+
+import { purgeUnconfirmed } from "@/lib/retention";
+import { purgeExpiredConversations } from "@/lib/chat-share/conversations";
+import { processUnpaidReservations } from "@/lib/workshop/expiry";
+import { processWaitlists } from "@/lib/workshop/waitlist";
+import { refreshLatestVideos } from "@/lib/youtube";
+import type { JobDefinition } from "./runner";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: "retention-purge",
+    intervalMs: 24 * HOUR,
+    run: async (now) => ({ ...(await purgeUnconfirmed(now)) }),
+  },
+  {
+    name: "chat-retention",
+    intervalMs: 24 * HOUR,
+    run: async (now) => ({ ...(await purgeExpiredConversations(now)) }),
+  },
+  {
+    name: "workshop-reservations",
+    intervalMs: HOUR,
+    run: async (now) => ({ ...(await processUnpaidReservations(now)) }),
+  },
+  {
+    name: "workshop-waitlist",
+    intervalMs: HOUR,
+    run: async (now) => ({ offered: await processWaitlists(now) }),
+  },
+  {
+    name: "youtube-refresh",
+    intervalMs: 6 * HOUR,
+    run: async () => ({ videos: await refreshLatestVideos() }),
+  },
+];
+
+/** The registered job `name`; throws for an unknown name. */
+export function getJob(name: string): JobDefinition {
+  const job = JOBS.find((j) => j.name === name);
+  if (!job) throw new Error(`Unknown job ${name}`);
+  return job;
+}
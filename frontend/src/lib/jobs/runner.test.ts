@@ -0,0 +1,112 @@
+/**
+ * Job runner — due check under the advisory lock, status bookkeeping.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+let lockFree = true;
+const mockFindRun = jest.fn();
+const mockGetRuns = jest.fn();
+const mockStarted = jest.fn();
+const mockFinished = jest.fn();
+jest.mock("@/db/job-runs", () => ({
+  withJobLock: async (_name: string, fn: () => Promise<unknown>) =>
+    lockFree ? { acquired: true, value: await fn() } : { acquired: false },
+  findJobRun: (...a: unknown[]) => mockFindRun(...a),
+  getJobRuns: (...a: unknown[]) => mockGetRuns(...a),
+  markJobStarted: (...a: unknown[]) => mockStarted(...a),
+  markJobFinished: (...a: unknown[]) => mockFinished(...a),
+}));
+
+import { getJobStatuses, runJob, type JobDefinition } from "./runner";
+import type { JobRun } from "@/db/schema";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+function lastRun(overrides: Partial<JobRun> = {}): JobRun {
+  return {
+    name: "test-job",
+    lastStatus: "ok",
+    lastStartedAt: new Date(NOW.getTime() - 2 * HOUR),
+    lastFinishedAt: new Date(NOW.getTime() - 2 * HOUR + 500),
+    lastDurationMs: 500,
+    lastResult: { deleted: 1 },
+    lastError: null,
+    runCount: 3,
+    errorCount: 0,
+    ...overrides,
+  };
+}
+
+const run = jest.fn();
+const JOB: JobDefinition = { name: "test-job", intervalMs: HOUR, run: (...a) => run(...a) };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  lockFree = true;
+  mockFindRun.mockResolvedValue(null);
+  run.mockResolvedValue({ deleted: 2 });
+});
+
+describe("runJob", () => {
+  it("runs a job that never ran and records start and result", async () => {
+    expect(await runJob(JOB, NOW)).toEqual({ status: "ran", ok: true, result: { deleted: 2 } });
+    expect(run).toHaveBeenCalledWith(NOW);
+    expect(mockStarted).toHaveBeenCalledWith("test-job", NOW);
+    expect(mockFinished).toHaveBeenCalledWith(
+      "test-job",
+      expect.objectContaining({ result: { deleted: 2 }, durationMs: expect.any(Number) }),
+    );
+  });
+
+  it("runs again once the interval has passed", async () => {
+    mockFindRun.mockResolvedValue(lastRun());
+    expect((await runJob(JOB, NOW)).status).toBe("ran");
+  });
+
+  it("skips a job that ran within its interval (e.g. in another container)", async () => {
+    mockFindRun.mockResolvedValue(lastRun({ lastStartedAt: new Date(NOW.getTime() - 10 * 60 * 1000) }));
+    expect(await runJob(JOB, NOW)).toEqual({ status: "not_due" });
+    expect(run).not.toHaveBeenCalled();
+    expect(mockStarted).not.toHaveBeenCalled();
+  });
+
+  it("counts a tick that comes a few seconds early as due", async () => {
+    mockFindRun.mockResolvedValue(lastRun({ lastStartedAt: new Date(NOW.getTime() - HOUR + 5000) }));
+    expect((await runJob(JOB, NOW)).status).toBe("ran");
+  });
+
+  it("does nothing while another process holds the lock", async () => {
+    lockFree = false;
+    expect(await runJob(JOB, NOW)).toEqual({ status: "locked" });
+    expect(mockFindRun).not.toHaveBeenCalled();
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("records a failing job as error and does not throw", async () => {
+    run.mockRejectedValue(new Error("smtp down"));
+    expect(await runJob(JOB, NOW)).toEqual({ status: "ran", ok: false });
+    expect(mockFinished).toHaveBeenCalledWith("test-job", expect.objectContaining({ error: "smtp down" }));
+  });
+});
+
+describe("getJobStatuses", () => {
+  it("lists every registered job, with its last run and next due time", async () => {
+    mockGetRuns.mockResolvedValue([lastRun()]);
+    const other: JobDefinition = { name: "never-ran", intervalMs: 24 * HOUR, run: jest.fn() };
+    const [ran, never] = await getJobStatuses([JOB, other]);
+    expect(ran).toMatchObject({
+      name: "test-job",
+      intervalMinutes: 60,
+      lastStatus: "ok",
+      lastResult: { deleted: 1 },
+      runCount: 3,
+      nextDueAt: new Date(NOW.getTime() - HOUR),
+    });
+    expect(never).toMatchObject({ name: "never-ran", lastStatus: null, runCount: 0, nextDueAt: null });
+  });
+});
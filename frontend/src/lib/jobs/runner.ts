@@ -0,0 +1,97 @@
+/**
+ * Job runner — runs one named job at most once per interval across all
+ * containers.
+ *
+ * Every run happens under the job's Postgres advisory lock (db/job-runs.ts);
+ * inside it the job_runs row decides whether the job is due. So a second
+ * container that ticks at the same moment either finds the lock taken or,
+ * right after, a fresh lastStartedAt — never a double run. A crashed run
+ * releases the lock with its connection and is retried once the interval
+ * has passed.
+ */
+
+import { createLogger } from "@/lib/logger";
+import { findJobRun, getJobRuns, markJobFinished, markJobStarted, withJobLock } from "@/db/job-runs";
+import type { JobRun } from "@/db/schema";
+
+const log = createLogger("Jobs");
+
+export interface JobDefinition {
+  /** Stable id — lock key and job_runs primary key. */
+  name: string;
+  intervalMs: number;
+  /** Returns counts for the status table — never personal data. */
+  run: (now: Date) => Promise<Record<string, unknown>>;
+}
+
+export type JobRunOutcome =
+  | { status: "ran"; ok: true; result: Record<string, unknown> }
+  | { status: "ran"; ok: false }
+  | { status: "not_due" }
+  | { status: "locked" };
+
+/** A tick that comes slightly early still counts as due (ticks drift). */
+const DUE_SLACK_MS = 60 * 1000;
+
+function isDue(job: JobDefinition, last: JobRun | null, now: Date): boolean {
+  if (!last) return true;
+  return now.getTime() - new Date(last.lastStartedAt).getTime() >= job.intervalMs - DUE_SLACK_MS;
+}
+
+/** Run `job` if it is due and no other process is running it. */
+export async function runJob(job: JobDefinition, now: Date = new Date()): Promise<JobRunOutcome> {
+  const locked = await withJobLock(job.name, async (): Promise<JobRunOutcome> => {
+    if (!isDue(job, await findJobRun(job.name), now)) return { status: "not_due" };
+
+    await markJobStarted(job.name, now);
+    const started = Date.now();
+    try {
+      const result = await job.run(now);
+      await markJobFinished(job.name, { finishedAt: new Date(), durationMs: Date.now() - started, result });
+      log.info("Job finished", { job: job.name, ...result });
+      return { status: "ran", ok: true, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await markJobFinished(job.name, { finishedAt: new Date(), durationMs: Date.now() - started, error: message });
+      log.error(`Job ${job.name} failed`, error);
+      return { status: "ran", ok: false };
+    }
+  });
+  return locked.acquired ? locked.value : { status: "locked" };
+}
+
+export interface JobStatus {
+  name: string;
+  intervalMinutes: number;
+  lastStatus: string | null;
+  lastStartedAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastResult: Record<string, unknown> | null;
+  lastError: string | null;
+  runCount: number;
+  errorCount: number;
+  /** Earliest next run; null = due now (never ran). */
+  nextDueAt: Date | null;
+}
+
+/** The registered jobs with their last run (never-run jobs included). */
+export async function getJobStatuses(jobs: JobDefinition[]): Promise<JobStatus[]> {
+  const runs = new Map((await getJobRuns()).map((r) => [r.name, r]));
+  return jobs.map((job) => {
+    const run = runs.get(job.name);
+    return {
+      name: job.name,
+      intervalMinutes: job.intervalMs / 60_000,
+      lastStatus: run?.lastStatus ?? null,
+      lastStartedAt: run?.lastStartedAt ?? null,
+      lastFinishedAt: run?.lastFinishedAt ?? null,
+      lastDurationMs: run?.lastDurationMs ?? null,
+      lastResult: run?.lastResult ?? null,
+      lastError: run?.lastError ?? null,
+      runCount: run?.runCount ?? 0,
+      errorCount: run?.errorCount ?? 0,
+      nextDueAt: run ? new Date(new Date(run.lastStartedAt).getTime() + job.intervalMs) : null,
+    };
+  });
+}
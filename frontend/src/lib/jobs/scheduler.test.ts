@@ -0,0 +1,75 @@
+/**
+ * In-app scheduler — opt-in start, single timer, sequential ticks.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+let dbConfigured = true;
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
+
+jest.mock("./registry", () => ({ JOBS: [] }));
+
+const mockRunJob = jest.fn();
+jest.mock("./runner", () => ({ runJob: (...a: unknown[]) => mockRunJob(...a) }));
+
+import { TICK_MS, startScheduler, stopScheduler, tick } from "./scheduler";
+import type { JobDefinition } from "./runner";
+
+const job = (name: string): JobDefinition => ({ name, intervalMs: 60_000, run: jest.fn() });
+const ENV = process.env;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers();
+  dbConfigured = true;
+  process.env = { ...ENV, SCHEDULER_ENABLED: "true" };
+  mockRunJob.mockResolvedValue({ status: "ran", ok: true });
+});
+afterEach(() => {
+  stopScheduler();
+  jest.useRealTimers();
+});
+afterAll(() => {
+  process.env = ENV;
+});
+
+describe("startScheduler", () => {
+  it("stays off without SCHEDULER_ENABLED=true", () => {
+    delete process.env.SCHEDULER_ENABLED;
+    expect(startScheduler([job("a")])).toBe(false);
+  });
+
+  it("stays off without a database", () => {
+    dbConfigured = false;
+    expect(startScheduler([job("a")])).toBe(false);
+  });
+
+  it("starts once, ticks shortly after boot and then every TICK_MS", async () => {
+    expect(startScheduler([job("a")])).toBe(true);
+    expect(startScheduler([job("a")])).toBe(false);
+    await jest.advanceTimersByTimeAsync(TICK_MS);
+    expect(mockRunJob).toHaveBeenCalledTimes(2);
+    expect(mockRunJob).toHaveBeenCalledWith(expect.objectContaining({ name: "a" }), expect.any(Date));
+  });
+});
+
+describe("tick", () => {
+  it("hands every job to the runner and survives a failing one", async () => {
+    mockRunJob.mockRejectedValueOnce(new Error("db down"));
+    await tick([job("a"), job("b")]);
+    expect(mockRunJob.mock.calls.map((c) => c[0].name)).toEqual(["a", "b"]);
+  });
+
+  it("skips a tick while the previous one still runs", async () => {
+    let release: () => void = () => {};
+    mockRunJob.mockReturnValueOnce(new Promise<void>((r) => (release = r)));
+    const first = tick([job("slow")]);
+    await tick([job("slow")]);
+    expect(mockRunJob).toHaveBeenCalledTimes(1);
+    release();
+    await first;
+  });
+});
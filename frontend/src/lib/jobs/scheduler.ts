@@ -0,0 +1,65 @@
+/**
+ * In-app scheduler — started once per server process from instrumentation.ts.
+ *
+ * Ticks every TICK_MS and hands every registered job to the runner, which
+ * decides (advisory lock + job_runs) whether it is due. Opt-in with
+ * SCHEDULER_ENABLED=true, so dev servers and tests never send workshop mails
+ * on their own; needs DATABASE_URL for the lock and the status table.
+ */
+
+import { createLogger } from "@/lib/logger";
+import { isDatabaseConfigured } from "@/db/client";
+import { JOBS } from "./registry";
+import { runJob, type JobDefinition } from "./runner";
+
+const log = createLogger("Scheduler");
+
+export const TICK_MS = 60 * 1000;
+/** First tick after start — lets the server finish booting first. */
+const STARTUP_DELAY_MS = 15 * 1000;
+
+// On globalThis: dev-server reloads re-evaluate this module, the timer must stay single.
+const state = globalThis as { schedulerTimer?: ReturnType<typeof setInterval>; schedulerTicking?: boolean };
+
+export function isSchedulerEnabled(): boolean {
+  return process.env.SCHEDULER_ENABLED === "true" && isDatabaseConfigured();
+}
+
+/** Run every due job once, one after the other. Overlapping ticks are skipped. */
+export async function tick(jobs: JobDefinition[] = JOBS, now: Date = new Date()): Promise<void> {
+  if (state.schedulerTicking) return;
+  state.schedulerTicking = true;
+  try {
+    for (const job of jobs) {
+      try {
+        await runJob(job, now);
+      } catch (error) {
+        // Lock/status queries failed (DB down) — the job itself is logged by the runner.
+        log.error(`Scheduler could not run ${job.name}`, error);
+      }
+    }
+  } finally {
+    state.schedulerTicking = false;
+  }
+}
+
+/** Start the ticking (idempotent). Returns false when disabled or already running. */
+export function startScheduler(jobs: JobDefinition[] = JOBS): boolean {
+  if (!isSchedulerEnabled()) {
+    log.info("Scheduler disabled (SCHEDULER_ENABLED / DATABASE_URL not set)");
+    return false;
+  }
+  if (state.schedulerTimer) return false;
+
+  state.schedulerTimer = setInterval(() => void tick(jobs), TICK_MS);
+  state.schedulerTimer.unref?.();
+  setTimeout(() => void tick(jobs), STARTUP_DELAY_MS).unref?.();
+  log.info("Scheduler started", { jobs: jobs.map((j) => j.name), tickMs: TICK_MS });
+  return true;
+}
+
+/** Stop the ticking (tests, graceful shutdown). */
+export function stopScheduler(): void {
+  if (state.schedulerTimer) clearInterval(state.schedulerTimer);
+  state.schedulerTimer = undefined;
+}
@@ -7,7 +7,13 @@
  * **Validates: Requirements 10.1, 10.2, 10.3**
  */
 
-import { loadAllContent, compileKnowledgeContext } from './knowledge-loader';
+import {
+  loadAllContent,
+  compileKnowledgeContext,
+  loadAndCompileKnowledge,
+  loadRelevantKnowledge,
+  loadRelevantContext,
+} from './knowledge-loader';
 import type { KnowledgeContent, CompiledKnowledge } from '@/types/knowledge';
 
 // =============================================================================
@@ -312,6 +318,19 @@ describe('compileKnowledgeContext', () => {
         expect(section.content.length).toBeGreaterThan(0);
       });
     });
+
+    it('should link sections to the public page they are drawn from', () => {
+      const byType = (type: string) => compiledKnowledge.contextSections.filter((s) => s.type === type);
+      const [experience] = knowledgeContent.experiences;
+      const [project] = knowledgeContent.projects;
+
+      expect(byType('about')[0].href).toBe('/about#about');
+      expect(byType('skill')[0].href).toBe('/about#skills');
+      expect(byType('experience').map((s) => s.href)).toContain(`/about#experience-${experience.id}`);
+      expect(byType('project').map((s) => s.href)).toContain(`/about#project-${project.id}`);
+      byType('blog').forEach((section) => expect(section.href).toMatch(/^\/blog\/[\w-]+$/));
+      byType('raw').forEach((section) => expect(section.href).toBeUndefined());
+    });
   });
 
   describe('Token Estimation', () => {
@@ -329,6 +348,45 @@ describe('compileKnowledgeContext', () => {
   });
 });
 
+// =============================================================================
+// Test Suite: loadRelevantKnowledge()
+// =============================================================================
+
+describe('loadRelevantKnowledge', () => {
+  const originalBudget = process.env.CHAT_CONTEXT_TOKEN_BUDGET;
+
+  afterEach(() => {
+    if (originalBudget === undefined) delete process.env.CHAT_CONTEXT_TOKEN_BUDGET;
+    else process.env.CHAT_CONTEXT_TOKEN_BUDGET = originalBudget;
+  });
+
+  it('should send the full context while it fits the budget', async () => {
+    process.env.CHAT_CONTEXT_TOKEN_BUDGET = '1000000';
+    const full = await loadAndCompileKnowledge();
+    const relevant = await loadRelevantKnowledge('What did he build with Chat3D?');
+    expect(relevant.systemPrompt).toBe(full.systemPrompt);
+  });
+
+  it('should select only the relevant sections once the corpus exceeds the budget', async () => {
+    process.env.CHAT_CONTEXT_TOKEN_BUDGET = '1500';
+    const full = await loadAndCompileKnowledge();
+    const relevant = await loadRelevantKnowledge('What did he build with Chat3D?');
+    const titles = relevant.contextSections.map((s) => s.title);
+
+    expect(titles).toContain('About');
+    expect(titles.some((t) => t.startsWith('Project: Chat3D'))).toBe(true);
+    expect(relevant.totalTokenEstimate).toBeLessThan(full.totalTokenEstimate);
+    expect(relevant.systemPrompt).toContain('KNOWLEDGE BOUNDARIES');
+  });
+
+  it('should return the selected system prompt from loadRelevantContext', async () => {
+    process.env.CHAT_CONTEXT_TOKEN_BUDGET = '1500';
+    const prompt = await loadRelevantContext('Has he worked in healthcare?');
+    expect(prompt).toContain('Healthcare');
+    expect(prompt).not.toContain('Chat3D');
+  });
+});
+
 // =============================================================================
 // Test Suite: Edge Cases
 // =============================================================================
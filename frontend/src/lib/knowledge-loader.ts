@@ -3,7 +3,8 @@
  *
  * This module provides utilities for loading and compiling knowledge base content
  * for the AI chatbot. It reads MDX content files and raw knowledge files,
- * then formats them for LLM consumption.
+ * then formats them for LLM consumption. Per question, only the relevant
+ * sections are sent (lib/retrieval) once the corpus outgrows the token budget.
  *
  * @see Requirements 10.1, 10.2, 10.3
  */
@@ -23,6 +24,14 @@ import type {
 } from "@/types/knowledge";
 import { SYSTEM_PROMPT_TEMPLATE } from "@/types/knowledge";
 import { PORTFOLIO_OWNER } from "./portfolio-owner";
+import { createLogger } from "./logger";
+import {
+  buildKnowledgeIndex,
+  embeddingProviderFromEnv,
+  estimateTokens,
+  retrieveContext,
+  type RetrievedContext,
+} from "./retrieval";
 import type {
   ExperienceFrontmatter,
   ProjectFrontmatter,
@@ -31,6 +40,8 @@ import type {
   About,
 } from "@/types/content";
 
+const log = createLogger("KnowledgeLoader");
+
 // Directory paths
 const CONTENT_DIR = path.join(process.cwd(), "content");
 const KNOWLEDGE_DIR = path.join(process.cwd(), "knowledge");
@@ -409,13 +420,6 @@ export async function loadAllContent(): Promise<KnowledgeContent> {
 // Context Compilation
 // =============================================================================
 
-/**
- * Estimate token count for a string (rough approximation: ~4 chars per token)
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 /**
  * Format experience content for LLM context
  */
@@ -512,6 +516,7 @@ export function compileKnowledgeContext(
       title: "About",
       content: formatAboutSection(knowledge.about),
       priority: 10,
+      href: "/about#about",
     });
   }
 
@@ -522,6 +527,7 @@ export function compileKnowledgeContext(
       title: `Experience: ${exp.role} at ${exp.company}`,
       content: formatExperienceSection(exp),
       priority: 9 - index * 0.1, // Slightly decrease priority for older experiences
+      href: `/about#experience-${exp.id}`,
     });
   });
 
@@ -532,6 +538,7 @@ export function compileKnowledgeContext(
       title: `Project: ${proj.title}`,
       content: formatProjectSection(proj),
       priority: 7 - index * 0.1,
+      href: `/about#project-${proj.id}`,
     });
   });
 
@@ -542,6 +549,7 @@ export function compileKnowledgeContext(
       title: "Skills & Expertise",
       content: formatSkillsSection(knowledge.skills),
       priority: 6,
+      href: "/about#skills",
     });
   }
 
@@ -552,6 +560,7 @@ export function compileKnowledgeContext(
       title: `Blog: ${post.title}`,
       content: formatBlogSection(post),
       priority: 5.5 - index * 0.1,
+      href: `/blog/${post.slug}`,
     });
   });
 
@@ -568,7 +577,14 @@ export function compileKnowledgeContext(
   // Sort by priority (highest first)
   contextSections.sort((a, b) => b.priority - a.priority);
 
-  // Build the full context string
+  return compileSections(contextSections);
+}
+
+/**
+ * Build the system prompt (and its token estimate) around the given sections
+ */
+function compileSections(contextSections: ContextSection[]): CompiledKnowledge {
+  // Build the context string
   const contextString = contextSections
     .map((section) => section.content)
     .join("\n\n---\n\n");
@@ -603,16 +619,52 @@ export async function loadAndCompileKnowledge(): Promise<CompiledKnowledge> {
   return compileKnowledgeContext(knowledge);
 }
 
+/**
+ * Context budget per question in estimated tokens (CHAT_CONTEXT_TOKEN_BUDGET).
+ * While the whole knowledge base fits, every question still gets all of it.
+ */
+function contextTokenBudget(): number {
+  return Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET) || 3000;
+}
+
+/**
+ * Load and compile only the knowledge relevant to a question
+ * BM25 selection (plus embeddings when KNOWLEDGE_EMBEDDINGS is set) within
+ * the context token budget. An embedding outage degrades to BM25 alone.
+ * @param query - The user's question (recent user turns for follow-ups)
+ * @returns Compiled knowledge over the selected sections
+ */
+export async function loadRelevantKnowledge(query: string): Promise<CompiledKnowledge> {
+  const compiled = await loadAndCompileKnowledge();
+  const index = buildKnowledgeIndex(compiled.contextSections);
+  const tokenBudget = contextTokenBudget();
+  const embeddings = embeddingProviderFromEnv();
+
+  let retrieved: RetrievedContext;
+  try {
+    retrieved = await retrieveContext(index, query, { tokenBudget, embeddings });
+  } catch (error) {
+    if (!embeddings) throw error;
+    log.error("Embedding retrieval failed — using BM25 only", error);
+    retrieved = await retrieveContext(index, query, { tokenBudget });
+  }
+
+  log.debug("Knowledge context selected", {
+    strategy: retrieved.strategy,
+    sections: retrieved.sections.length,
+    tokens: retrieved.tokens,
+    totalTokens: index.totalTokens,
+  });
+  return compileSections(retrieved.sections);
+}
+
 /**
  * Load context relevant to a specific query
- * For now, this returns all context. Future enhancement could implement
- * semantic search to return only relevant sections.
- * @param query - The user's question (currently unused)
- * @returns Formatted context string
+ * @param query - The user's question
+ * @returns System prompt with the selected context
  */
 export async function loadRelevantContext(query: string): Promise<string> {
-  const compiled = await loadAndCompileKnowledge();
-  return compiled.systemPrompt;
+  return (await loadRelevantKnowledge(query)).systemPrompt;
 }
 
 // =============================================================================
@@ -38,6 +38,14 @@ import type { ConversationMessage } from '@/types/chat';
 // Store original env
 const originalEnv = process.env;
 
+/**
+ * Run a stream to its end, discarding the chunks
+ */
+async function drain(generator: AsyncGenerator<unknown, unknown>): Promise<void> {
+  let next = await generator.next();
+  while (!next.done) next = await generator.next();
+}
+
 describe('LLM Client', () => {
   beforeEach(() => {
     // Reset environment before each test
@@ -87,14 +95,11 @@ describe('LLM Client', () => {
   });
 
   describe('buildConfig', () => {
-    beforeEach(() => {
-      process.env.OPENAI_API_KEY = 'test-key';
-    });
-
     it('should use defaults when no config provided', () => {
       const config = buildConfig();
-      expect(config.apiKey).toBe('test-key');
-      expect(config.model).toBe('gpt-4o-mini');
+      expect(config.endpoint).toBe('chat');
+      expect(config.apiKey).toBeUndefined();
+      expect(config.model).toBeUndefined();
       expect(config.temperature).toBe(0.7);
       expect(config.maxTokens).toBe(4096);
       expect(config.timeout).toBe(30000);
@@ -102,12 +107,14 @@ describe('LLM Client', () => {
 
     it('should override defaults with provided config', () => {
       const config = buildConfig({
+        endpoint: 'analyze',
         apiKey: 'custom-key',
         model: 'gpt-4',
         temperature: 0.5,
         maxTokens: 2048,
         timeout: 60000,
       });
+      expect(config.endpoint).toBe('analyze');
       expect(config.apiKey).toBe('custom-key');
       expect(config.model).toBe('gpt-4');
       expect(config.temperature).toBe(0.5);
@@ -117,17 +124,10 @@ describe('LLM Client', () => {
 
     it('should allow partial config overrides', () => {
       const config = buildConfig({ temperature: 0.9 });
-      expect(config.apiKey).toBe('test-key');
-      expect(config.model).toBe('gpt-4o-mini');
+      expect(config.endpoint).toBe('chat');
       expect(config.temperature).toBe(0.9);
       expect(config.maxTokens).toBe(4096);
     });
-
-    it('should use environment model when not in config', () => {
-      process.env.OPENAI_MODEL = 'gpt-4-turbo';
-      const config = buildConfig();
-      expect(config.model).toBe('gpt-4-turbo');
-    });
   });
 
   describe('LLMError', () => {
@@ -300,11 +300,7 @@ describe('LLM Client', () => {
         },
       });
 
-      const generator = streamChatCompletion(mockSystemPrompt, mockMessages);
-      // Consume the generator
-      for await (const _ of generator) {
-        // Just consume
-      }
+      await drain(streamChatCompletion(mockSystemPrompt, mockMessages));
 
       expect(global.fetch).toHaveBeenCalledWith(
         'https://api.openai.com/v1/chat/completions',
@@ -326,6 +322,32 @@ describe('LLM Client', () => {
         { role: 'user', content: 'Hello' },
       ]);
     });
+
+    it('should use the small model for the suggestions endpoint', async () => {
+      process.env.OPENAI_MODEL = 'gpt-4.1';
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        body: { getReader: () => ({ read: jest.fn().mockResolvedValue({ done: true, value: undefined }) }) },
+      });
+
+      await drain(streamChatCompletion(mockSystemPrompt, mockMessages, { endpoint: 'suggestions' }));
+
+      expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).model).toBe('gpt-4o-mini');
+    });
+
+    it('should route an endpoint to its configured provider', async () => {
+      process.env.LLM_PROVIDER_ANALYZE = 'mock';
+      delete process.env.OPENAI_API_KEY;
+
+      const chunks: string[] = [];
+      for await (const chunk of streamChatCompletion(mockSystemPrompt, mockMessages, { endpoint: 'analyze' })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.join('')).toContain('"Hello"');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
   });
 
   describe('getChatCompletion', () => {
@@ -1,14 +1,19 @@
 /**
  * LLM Client with Streaming Support
  *
- * This module provides an LLM client that integrates with OpenAI's API
- * to generate streaming responses for the AI chatbot.
+ * This module provides the chat completion API used by the chatbot, fit
+ * analysis and suggestions. Requests go to the provider configured for the
+ * calling endpoint (see `@/lib/llm`), OpenAI unless configured otherwise.
  *
  * @see Requirements 3.2, 3.3, 3.5, 4.1, 4.3
  */
 
 import type { ConversationMessage } from '@/types/chat';
 import { createLogger } from '@/lib/logger';
+import { getApiKey, getLLMProvider, getModel, LLMError, type LLMEndpoint, type LLMTool, type LLMToolCall } from '@/lib/llm';
+
+export { LLMError, getApiKey, getModel };
+export type { LLMErrorType } from '@/lib/llm';
 
 const log = createLogger('LLMClient');
 
@@ -20,9 +25,11 @@ const log = createLogger('LLMClient');
  * LLM client configuration
  */
 export interface LLMConfig {
-  /** OpenAI API key */
-  apiKey: string;
-  /** Model to use (default: gpt-4o-mini) */
+  /** Endpoint whose provider and model to use (default: chat) */
+  endpoint?: LLMEndpoint;
+  /** API key override for the endpoint's provider */
+  apiKey?: string;
+  /** Model override (default: the endpoint's configured model) */
   model?: string;
   /** Temperature for response generation (default: 0.7) */
   temperature?: number;
@@ -32,107 +39,44 @@ export interface LLMConfig {
   timeout?: number;
   /** Response format - set to 'json_object' to enforce JSON output */
   responseFormat?: 'json_object';
+  /** Functions the model may call; the calls are the stream's return value */
+  tools?: LLMTool[];
 }
 
+/**
+ * Configuration with defaults applied; credentials and model stay optional
+ * overrides, the provider resolves them for the endpoint
+ */
+export type ResolvedLLMConfig = Required<Pick<LLMConfig, 'endpoint' | 'temperature' | 'maxTokens' | 'timeout'>> &
+  Pick<LLMConfig, 'apiKey' | 'model' | 'responseFormat' | 'tools'>;
+
 /**
  * Default configuration values
  */
-const DEFAULT_CONFIG: Required<Omit<LLMConfig, 'apiKey' | 'responseFormat'>> = {
-  model: 'gpt-4o-mini',
+const DEFAULT_CONFIG: Required<Pick<LLMConfig, 'endpoint' | 'temperature' | 'maxTokens' | 'timeout'>> = {
+  endpoint: 'chat',
   temperature: 0.7,
   maxTokens: 4096,
   timeout: 30000,
 };
 
-// =============================================================================
-// Types
-// =============================================================================
-
-/**
- * OpenAI chat message format
- */
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-/**
- * OpenAI streaming response chunk
- */
-interface OpenAIStreamChunk {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    delta: {
-      role?: string;
-      content?: string;
-    };
-    finish_reason: string | null;
-  }>;
-}
-
-/**
- * Error types for LLM operations
- */
-export type LLMErrorType = 'api_key_missing' | 'rate_limit' | 'timeout' | 'network' | 'server' | 'invalid_response';
-
-/**
- * LLM error with type information
- */
-export class LLMError extends Error {
-  constructor(
-    public readonly type: LLMErrorType,
-    message: string,
-    public readonly retryable: boolean = false
-  ) {
-    super(message);
-    this.name = 'LLMError';
-  }
-}
-
 // =============================================================================
 // Configuration Helpers
 // =============================================================================
 
 /**
- * Get the OpenAI API key from environment variables
- * @throws LLMError if API key is not configured
+ * Build the full configuration from partial config
  */
-export function getApiKey(): string {
-  const apiKey = process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
-    throw new LLMError(
-      'api_key_missing',
-      'OpenAI API key is not configured. Please set the OPENAI_API_KEY environment variable.',
-      false
-    );
-  }
-  
-  return apiKey;
-}
-
-/**
- * Get the model name from environment or use default
- */
-export function getModel(): string {
-  return process.env.OPENAI_MODEL || DEFAULT_CONFIG.model;
-}
-
-/**
- * Build the full configuration from partial config and environment
- */
-export function buildConfig(partialConfig?: Partial<LLMConfig>): Required<Omit<LLMConfig, 'responseFormat'>> & Pick<LLMConfig, 'responseFormat'> {
+export function buildConfig(partialConfig?: Partial<LLMConfig>): ResolvedLLMConfig {
   return {
-    apiKey: partialConfig?.apiKey || getApiKey(),
-    model: partialConfig?.model || getModel(),
+    endpoint: partialConfig?.endpoint ?? DEFAULT_CONFIG.endpoint,
+    apiKey: partialConfig?.apiKey,
+    model: partialConfig?.model,
     temperature: partialConfig?.temperature ?? DEFAULT_CONFIG.temperature,
     maxTokens: partialConfig?.maxTokens ?? DEFAULT_CONFIG.maxTokens,
     timeout: partialConfig?.timeout ?? DEFAULT_CONFIG.timeout,
     responseFormat: partialConfig?.responseFormat,
+    tools: partialConfig?.tools,
   };
 }
 
@@ -141,7 +85,7 @@ export function buildConfig(partialConfig?: Partial<LLMConfig>): Required<Omit<L
 // =============================================================================
 
 /**
- * Stream a chat completion from OpenAI
+ * Stream a chat completion from the endpoint's provider
  *
  * This function yields text chunks as they are received from the API,
  * enabling real-time streaming of responses to the user.
@@ -150,7 +94,8 @@ export function buildConfig(partialConfig?: Partial<LLMConfig>): Required<Omit<L
  * @param messages - The conversation history
  * @param config - Optional configuration overrides
  * @yields Text chunks as they are received
- * @throws LLMError on API failures
+ * @returns Tool calls the model made (empty unless config.tools was given)
+ * @throws LLMError on API failures or incomplete provider configuration
  *
  * @see Requirements 3.2 (streaming), 3.3 (conversation context), 3.5 (peer tone)
  */
@@ -158,204 +103,47 @@ export async function* streamChatCompletion(
   systemPrompt: string,
   messages: ConversationMessage[],
   config?: Partial<LLMConfig>
-): AsyncGenerator<string, void, unknown> {
+): AsyncGenerator<string, LLMToolCall[], unknown> {
   const fullConfig = buildConfig(config);
-  
+  const provider = getLLMProvider(fullConfig.endpoint, { apiKey: fullConfig.apiKey, model: fullConfig.model });
+
   log.debug('Starting chat completion', {
-    model: fullConfig.model,
+    endpoint: fullConfig.endpoint,
+    provider: provider.kind,
+    model: provider.model,
     messageCount: messages.length,
     systemPromptLength: systemPrompt.length,
     timeout: fullConfig.timeout
   });
-  
-  // Build the messages array for OpenAI
-  const openAIMessages: OpenAIMessage[] = [
-    { role: 'system', content: systemPrompt },
-    ...messages.map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    })),
-  ];
-  
-  // Create abort controller for timeout
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), fullConfig.timeout);
-  
-  try {
-    // Determine the correct token parameter based on model
-    // Newer models (gpt-5.x, o1, etc.) use max_completion_tokens
-    // Older models use max_tokens
-    const useMaxCompletionTokens = fullConfig.model.startsWith('gpt-5') || 
-                                    fullConfig.model.startsWith('o1') ||
-                                    fullConfig.model.startsWith('o3');
-    
-    const tokenParam = useMaxCompletionTokens 
-      ? { max_completion_tokens: fullConfig.maxTokens }
-      : { max_tokens: fullConfig.maxTokens };
 
-    const responseFormatParam = fullConfig.responseFormat 
-      ? { response_format: { type: fullConfig.responseFormat } }
-      : {};
+  log.info('Calling LLM provider', { provider: provider.kind, model: provider.model });
+  let chunkCount = 0;
+  let toolCalls: LLMToolCall[] = [];
 
-    log.info('Calling OpenAI API', { model: fullConfig.model });
-    const startTime = Date.now();
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${fullConfig.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: fullConfig.model,
-        messages: openAIMessages,
-        temperature: fullConfig.temperature,
-        ...tokenParam,
-        ...responseFormatParam,
-        stream: true,
-      }),
-      signal: controller.signal,
-    });
-    
-    log.debug('OpenAI API response received', { 
-      status: response.status,
-      latencyMs: Date.now() - startTime 
+  try {
+    const stream = provider.streamChat({
+      systemPrompt,
+      messages,
+      temperature: fullConfig.temperature,
+      maxTokens: fullConfig.maxTokens,
+      timeout: fullConfig.timeout,
+      responseFormat: fullConfig.responseFormat,
+      tools: fullConfig.tools,
     });
-    
-    clearTimeout(timeoutId);
-    
-    // Handle HTTP errors
-    if (!response.ok) {
-      const errorBody = await response.text();
-      log.error('OpenAI API error', new Error(`HTTP ${response.status}`), {
-        status: response.status,
-        errorBody: errorBody.substring(0, 500)
-      });
-      
-      if (response.status === 429) {
-        throw new LLMError(
-          'rate_limit',
-          'Too many requests. Please wait a moment and try again.',
-          true
-        );
-      }
-      
-      if (response.status === 401) {
-        throw new LLMError(
-          'api_key_missing',
-          'Invalid API key. Please check your OpenAI API key configuration.',
-          false
-        );
-      }
-      
-      if (response.status >= 500) {
-        throw new LLMError(
-          'server',
-          'OpenAI service is temporarily unavailable. Please try again.',
-          true
-        );
-      }
-      
-      throw new LLMError(
-        'server',
-        `API request failed: ${response.status} ${response.statusText}`,
-        true
-      );
-    }
-    
-    // Ensure we have a readable stream
-    if (!response.body) {
-      throw new LLMError(
-        'invalid_response',
-        'No response body received from API',
-        true
-      );
-    }
-    
-    // Process the streaming response
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    let chunkCount = 0;
-    
     while (true) {
-      const { done, value } = await reader.read();
-      
-      if (done) {
+      const next = await stream.next();
+      if (next.done) {
+        toolCalls = next.value ?? [];
         break;
       }
-      
-      // Decode the chunk and add to buffer
-      buffer += decoder.decode(value, { stream: true });
-      
-      // Process complete SSE messages from the buffer
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || ''; // Keep incomplete line in buffer
-      
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        
-        // Skip empty lines and comments
-        if (!trimmedLine || trimmedLine.startsWith(':')) {
-          continue;
-        }
-        
-        // Parse SSE data lines
-        if (trimmedLine.startsWith('data: ')) {
-          const data = trimmedLine.slice(6);
-          
-          // Check for stream end
-          if (data === '[DONE]') {
-            log.debug('Stream completed', { chunkCount });
-            return;
-          }
-          
-          try {
-            const chunk: OpenAIStreamChunk = JSON.parse(data);
-            const content = chunk.choices[0]?.delta?.content;
-            
-            if (content) {
-              chunkCount++;
-              yield content;
-            }
-          } catch {
-            // Skip malformed JSON chunks
-            continue;
-          }
-        }
-      }
+      chunkCount++;
+      yield next.value;
     }
-    
-    log.debug('Stream finished', { chunkCount });
   } catch (error) {
-    clearTimeout(timeoutId);
-
-    // Handle abort (timeout)
-    if (error instanceof Error && error.name === 'AbortError') {
-      log.warn('Request aborted due to timeout', { timeout: fullConfig.timeout });
-      throw new LLMError(
-        'timeout',
-        'The response is taking too long. Please try again.',
-        true
-      );
-    }
-    
-    // Re-throw LLM errors
+    // Providers raise LLMErrors; anything else is a bug in one of them
     if (error instanceof LLMError) {
       throw error;
     }
-    
-    // Handle network errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      log.error('Network error', error);
-      throw new LLMError(
-        'network',
-        'Unable to connect to the AI service. Please check your connection.',
-        true
-      );
-    }
-    
-    // Handle other errors
     log.error('Unexpected error in streamChatCompletion', error);
     throw new LLMError(
       'server',
@@ -363,6 +151,9 @@ export async function* streamChatCompletion(
       true
     );
   }
+
+  log.debug('Stream finished', { chunkCount, toolCallCount: toolCalls.length });
+  return toolCalls;
 }
 
 // =============================================================================
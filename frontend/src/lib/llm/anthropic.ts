@@ -0,0 +1,132 @@
+/**
+ * Anthropic Messages API provider (or a gateway exposing the same API)
+ *
+ * The Messages API has no JSON response format and no moderation endpoint:
+ * JSON mode is an instruction appended to the system prompt, moderation runs
+ * as a classifier prompt on the same model.
+ */
+
+import { LLMError } from './errors';
+import { parseJSON, parseToolCalls, postToProvider, readSSEData, type StreamedToolCall } from './http';
+import { classifyModeration } from './moderation';
+import type { LLMProvider } from './types';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const LABEL = 'Anthropic';
+
+const JSON_MODE_INSTRUCTION =
+  '\n\nRespond with only a single JSON object: no prose before or after it, no code fences.';
+
+/**
+ * Messages API stream event (only the fields used here)
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  /** Content block the event belongs to */
+  index?: number;
+  content_block?: {
+    type?: string;
+    name?: string;
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+    /** Tool input JSON, in fragments */
+    partial_json?: string;
+  };
+  error?: {
+    type?: string;
+    message?: string;
+  };
+}
+
+/**
+ * @param options.baseUrl - API root without the version path (default: https://api.anthropic.com)
+ */
+export function createAnthropicProvider(options: { apiKey: string; model: string; baseUrl?: string }): LLMProvider {
+  const url = `${(options.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, '')}/v1/messages`;
+  const headers = {
+    'x-api-key': options.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+
+  const provider: LLMProvider = {
+    kind: 'anthropic',
+    model: options.model,
+    capabilities: {
+      jsonMode: 'emulated',
+      moderation: 'emulated',
+    },
+
+    async *streamChat(request) {
+      const system = request.responseFormat === 'json_object'
+        ? request.systemPrompt + JSON_MODE_INSTRUCTION
+        : request.systemPrompt;
+
+      const response = await postToProvider({
+        url,
+        headers,
+        label: LABEL,
+        timeout: request.timeout,
+        body: {
+          model: options.model,
+          system,
+          messages: request.messages.map((msg) => ({ role: msg.role, content: msg.content })),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  input_schema: tool.parameters,
+                })),
+              }
+            : {}),
+          stream: true,
+        },
+      });
+
+      // Tool calls by content block index
+      const calls: StreamedToolCall[] = [];
+      for await (const data of readSSEData(response, LABEL)) {
+        const event = parseJSON<AnthropicStreamEvent>(data);
+        if (!event) {
+          continue;
+        }
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          yield event.delta.text;
+        } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          calls[event.index ?? calls.length] = { name: event.content_block.name ?? '', arguments: '' };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          const call = calls[event.index ?? -1];
+          if (call) {
+            call.arguments += event.delta.partial_json ?? '';
+          }
+        } else if (event.type === 'message_stop') {
+          break;
+        } else if (event.type === 'error') {
+          // Errors after the stream started (e.g. overloaded) arrive as events
+          const rateLimited = event.error?.type === 'rate_limit_error';
+          throw new LLMError(
+            rateLimited ? 'rate_limit' : 'server',
+            rateLimited
+              ? 'Too many requests. Please wait a moment and try again.'
+              : `${LABEL} service is temporarily unavailable. Please try again.`,
+            true
+          );
+        }
+      }
+
+      return parseToolCalls(calls);
+    },
+
+    moderate(input) {
+      return classifyModeration(provider, input);
+    },
+  };
+
+  return provider;
+}
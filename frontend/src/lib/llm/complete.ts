@@ -0,0 +1,27 @@
+/**
+ * Non-streaming helpers on top of LLMProvider.streamChat
+ */
+
+import type { LLMChatRequest, LLMProvider } from './types';
+
+/**
+ * Collect a streamed chat completion into one string
+ */
+export async function completeChat(
+  provider: Pick<LLMProvider, 'streamChat'>,
+  request: LLMChatRequest
+): Promise<string> {
+  const chunks: string[] = [];
+  for await (const chunk of provider.streamChat(request)) {
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+}
+
+/**
+ * Strip a Markdown code fence some models put around JSON despite being told not to
+ */
+export function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text.trim();
+}
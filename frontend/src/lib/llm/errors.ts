@@ -0,0 +1,47 @@
+/**
+ * Errors raised by LLM providers
+ *
+ * Every provider maps its failures onto the same small set of types so the
+ * API routes can show one user-friendly message per type, whoever served it.
+ */
+
+/**
+ * Error types for LLM operations
+ */
+export type LLMErrorType = 'api_key_missing' | 'rate_limit' | 'timeout' | 'network' | 'server' | 'invalid_response';
+
+/**
+ * LLM error with type information
+ */
+export class LLMError extends Error {
+  constructor(
+    public readonly type: LLMErrorType,
+    message: string,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+/**
+ * Map a non-2xx provider response onto an LLMError
+ * @param status - HTTP status of the provider response
+ * @param statusText - HTTP status text, for the generic case
+ * @param label - Provider name for messages, e.g. "OpenAI"
+ */
+export function httpError(status: number, statusText: string, label: string): LLMError {
+  if (status === 429) {
+    return new LLMError('rate_limit', 'Too many requests. Please wait a moment and try again.', true);
+  }
+
+  if (status === 401 || status === 403) {
+    return new LLMError('api_key_missing', `Invalid API key. Please check your ${label} API key configuration.`, false);
+  }
+
+  if (status >= 500) {
+    return new LLMError('server', `${label} service is temporarily unavailable. Please try again.`, true);
+  }
+
+  return new LLMError('server', `API request failed: ${status} ${statusText}`, true);
+}
@@ -0,0 +1,170 @@
+/**
+ * HTTP plumbing shared by the API-backed providers: one POST with a timeout
+ * until the response starts, status → LLMError mapping, SSE parsing and
+ * assembling streamed tool calls.
+ */
+
+import { createLogger } from '@/lib/logger';
+import { LLMError, httpError } from './errors';
+import type { LLMToolCall } from './types';
+
+const log = createLogger('LLMProvider');
+
+/**
+ * A POST to a provider API
+ */
+export interface ProviderRequest {
+  url: string;
+  /** Auth and version headers; Content-Type is added */
+  headers: Record<string, string>;
+  body: unknown;
+  /** Time allowed until the response starts, in milliseconds */
+  timeout: number;
+  /** Provider name for messages and logs, e.g. "OpenAI" */
+  label: string;
+}
+
+/**
+ * Map anything thrown while talking to a provider onto an LLMError
+ */
+export function toLLMError(error: unknown, label: string): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  // Handle abort (timeout)
+  if (error instanceof Error && error.name === 'AbortError') {
+    log.warn('Request aborted due to timeout', { provider: label });
+    return new LLMError('timeout', 'The response is taking too long. Please try again.', true);
+  }
+
+  // Handle network errors
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    log.error('Network error', error, { provider: label });
+    return new LLMError('network', 'Unable to connect to the AI service. Please check your connection.', true);
+  }
+
+  log.error('Unexpected error calling LLM provider', error, { provider: label });
+  return new LLMError('server', 'An unexpected error occurred. Please try again.', true);
+}
+
+/**
+ * POST JSON to a provider and return the successful response
+ * @throws LLMError on timeout, network failure or a non-2xx status
+ */
+export async function postToProvider(request: ProviderRequest): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), request.timeout);
+  const startTime = Date.now();
+
+  let response: Response;
+  try {
+    response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...request.headers,
+      },
+      body: JSON.stringify(request.body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    throw toLLMError(error, request.label);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  log.debug('Provider response received', {
+    provider: request.label,
+    status: response.status,
+    latencyMs: Date.now() - startTime,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    log.error(`${request.label} API error`, new Error(`HTTP ${response.status}`), {
+      status: response.status,
+      errorBody: errorBody.substring(0, 500),
+    });
+    throw httpError(response.status, response.statusText, request.label);
+  }
+
+  return response;
+}
+
+/**
+ * Read the `data:` payloads of a server-sent event stream
+ * Comment and `event:` lines are skipped; an OpenAI-style `[DONE]` ends the stream.
+ * @yields The raw payload of each data line
+ * @throws LLMError when there is no body or the connection fails mid-stream
+ */
+export async function* readSSEData(response: Response, label: string): AsyncGenerator<string, void, unknown> {
+  if (!response.body) {
+    throw new LLMError('invalid_response', 'No response body received from API', true);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Process complete lines, keep an incomplete one in the buffer
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (!trimmedLine.startsWith('data:')) {
+          continue;
+        }
+
+        const data = trimmedLine.slice(5).trimStart();
+        if (data === '[DONE]') {
+          return;
+        }
+        yield data;
+      }
+    }
+  } catch (error) {
+    throw toLLMError(error, label);
+  }
+}
+
+/**
+ * Parse a JSON payload, or undefined for malformed ones (skipped by callers)
+ */
+export function parseJSON<T>(data: string): T | undefined {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A tool call as it streams in: arguments JSON accumulated from fragments
+ */
+export interface StreamedToolCall {
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Finish streamed tool calls; ones without a name or with malformed arguments are dropped
+ */
+export function parseToolCalls(calls: StreamedToolCall[]): LLMToolCall[] {
+  return calls.flatMap((call) => {
+    const args = parseJSON<unknown>(call.arguments || '{}');
+    return call.name && args && typeof args === 'object' && !Array.isArray(args)
+      ? [{ name: call.name, arguments: args as Record<string, unknown> }]
+      : [];
+  });
+}
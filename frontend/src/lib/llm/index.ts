@@ -0,0 +1,18 @@
+/**
+ * Pluggable LLM provider layer
+ *
+ * This module provides:
+ * - A provider interface with streaming chat, JSON mode and moderation
+ * - OpenAI, Azure OpenAI, Anthropic and OpenAI-compatible providers
+ * - A mock provider for tests and offline development
+ * - Per-endpoint provider and model selection from the environment
+ */
+
+export * from './types';
+export * from './errors';
+export * from './complete';
+export * from './moderation';
+export * from './openai';
+export * from './anthropic';
+export * from './mock';
+export * from './registry';
@@ -0,0 +1,60 @@
+/**
+ * Mock provider for tests and offline development (LLM_PROVIDER=mock)
+ *
+ * Streams a canned answer word by word without any network access. The
+ * default JSON answer is a benign classifier verdict, so guardrail checks
+ * pass offline.
+ */
+
+import { MODERATION_CATEGORIES } from './moderation';
+import type { LLMChatRequest, LLMProvider, LLMToolCall } from './types';
+
+export interface MockProviderOptions {
+  /** Model name reported by the provider (default: mock) */
+  model?: string;
+  /** Answer for a request (default: echoes the latest user message) */
+  reply?: (request: LLMChatRequest) => string;
+  /** Moderation categories to flag for an input (default: none) */
+  flag?: (input: string) => string[];
+  /** Tool calls to make after the answer, for requests offering tools (default: none) */
+  toolCalls?: (request: LLMChatRequest) => LLMToolCall[];
+}
+
+function defaultReply(request: LLMChatRequest): string {
+  if (request.responseFormat === 'json_object') {
+    return JSON.stringify({ flagged: false, confidence: 0 });
+  }
+  const question = [...request.messages].reverse().find((msg) => msg.role === 'user')?.content ?? '';
+  return `This is a mock answer (LLM_PROVIDER=mock) to: "${question}"`;
+}
+
+export function createMockProvider(options: MockProviderOptions = {}): LLMProvider {
+  const reply = options.reply ?? defaultReply;
+
+  return {
+    kind: 'mock',
+    model: options.model ?? 'mock',
+    capabilities: {
+      jsonMode: 'native',
+      moderation: 'native',
+    },
+
+    async *streamChat(request) {
+      // Word-sized chunks, whitespace kept, so streaming UIs behave as usual
+      for (const piece of reply(request).split(/(?<=\s)/)) {
+        if (piece) {
+          yield piece;
+        }
+      }
+      return request.tools?.length ? options.toolCalls?.(request) ?? [] : [];
+    },
+
+    async moderate(input) {
+      const flagged = options.flag?.(input) ?? [];
+      return {
+        flagged: flagged.length > 0,
+        categories: Object.fromEntries(MODERATION_CATEGORIES.map((category) => [category, flagged.includes(category)])),
+      };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Content moderation for providers without a moderation endpoint
+ *
+ * OpenAI has a dedicated moderation API; Azure, Anthropic and local servers
+ * don't. There the same categories are checked by asking the provider's own
+ * model to classify the text, so the fail-closed content check keeps working
+ * without sending user input to a second vendor.
+ */
+
+import { completeChat, stripCodeFence } from './complete';
+import { LLMError } from './errors';
+import { parseJSON } from './http';
+import type { LLMProvider, ModerationResult } from './types';
+
+/**
+ * Moderation categories, named as in the OpenAI moderation API
+ */
+export const MODERATION_CATEGORIES = [
+  'hate',
+  'hate/threatening',
+  'harassment',
+  'harassment/threatening',
+  'self-harm',
+  'sexual',
+  'sexual/minors',
+  'violence',
+  'violence/graphic',
+] as const;
+
+const CLASSIFIER_TIMEOUT_MS = 15000;
+
+const CLASSIFIER_PROMPT = `You are a content moderation classifier. Decide which of these categories the user's text clearly falls into: ${MODERATION_CATEGORIES.join(', ')}.
+
+Only flag actual violations. Neutral or professional questions that merely mention a topic are not violations.
+
+Respond with only a JSON object, no code fences: {"flagged": true|false, "categories": ["<category>", ...]}`;
+
+/**
+ * Moderate text with a classifier prompt on the provider's chat model
+ * @throws LLMError when the model gives no usable verdict
+ */
+export async function classifyModeration(
+  provider: Pick<LLMProvider, 'streamChat'>,
+  input: string
+): Promise<ModerationResult> {
+  const answer = await completeChat(provider, {
+    systemPrompt: CLASSIFIER_PROMPT,
+    messages: [{ role: 'user', content: input }],
+    temperature: 0,
+    maxTokens: 200,
+    timeout: CLASSIFIER_TIMEOUT_MS,
+    responseFormat: 'json_object',
+  });
+
+  const verdict = parseJSON<{ flagged?: unknown; categories?: unknown }>(stripCodeFence(answer));
+  if (!verdict || typeof verdict.flagged !== 'boolean') {
+    throw new LLMError('invalid_response', 'Moderation classifier returned no verdict', true);
+  }
+
+  const named = Array.isArray(verdict.categories) ? verdict.categories : [];
+  const categories = Object.fromEntries(
+    MODERATION_CATEGORIES.map((category) => [category, verdict.flagged === true && named.includes(category)])
+  );
+  return { flagged: verdict.flagged, categories };
+}
@@ -0,0 +1,192 @@
+/**
+ * Providers speaking the OpenAI chat completions wire format: the OpenAI API
+ * itself, Azure OpenAI deployments and OpenAI-compatible servers. They differ
+ * only in URL, auth header and whether a moderation endpoint exists.
+ */
+
+import { LLMError } from './errors';
+import { parseJSON, parseToolCalls, postToProvider, readSSEData, type StreamedToolCall } from './http';
+import { classifyModeration } from './moderation';
+import type { LLMProvider, ModerationResult } from './types';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const MODERATION_MODEL = 'omni-moderation-latest';
+const MODERATION_TIMEOUT_MS = 15000;
+
+/**
+ * OpenAI streaming response chunk
+ */
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      /** Function calls arrive in pieces: name first, then the arguments JSON */
+      tool_calls?: Array<{
+        index: number;
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+  }>;
+}
+
+/**
+ * OpenAI moderation response
+ */
+interface OpenAIModerationResponse {
+  results?: Array<{
+    flagged: boolean;
+    categories: Record<string, boolean>;
+  }>;
+}
+
+interface ChatCompletionsOptions {
+  kind: 'openai' | 'azure' | 'compatible';
+  /** Provider name for messages and logs */
+  label: string;
+  model: string;
+  /** Full URL of the chat completions endpoint */
+  chatUrl: string;
+  /** Auth headers */
+  headers: Record<string, string>;
+  /** Moderation endpoint, where the API has one */
+  moderationUrl?: string;
+}
+
+/**
+ * Newer models (gpt-5.x, o1, o3) take max_completion_tokens, older ones max_tokens
+ */
+function tokenParam(model: string, maxTokens: number): Record<string, number> {
+  const useMaxCompletionTokens = model.startsWith('gpt-5') || model.startsWith('o1') || model.startsWith('o3');
+  return useMaxCompletionTokens ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens };
+}
+
+function chatCompletionsProvider(options: ChatCompletionsOptions): LLMProvider {
+  const { label, model, chatUrl, headers, moderationUrl } = options;
+
+  const provider: LLMProvider = {
+    kind: options.kind,
+    model,
+    capabilities: {
+      jsonMode: 'native',
+      moderation: moderationUrl ? 'native' : 'emulated',
+    },
+
+    async *streamChat(request) {
+      const response = await postToProvider({
+        url: chatUrl,
+        headers,
+        label,
+        timeout: request.timeout,
+        body: {
+          model,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            ...request.messages.map((msg) => ({ role: msg.role, content: msg.content })),
+          ],
+          temperature: request.temperature,
+          ...tokenParam(model, request.maxTokens),
+          ...(request.responseFormat ? { response_format: { type: request.responseFormat } } : {}),
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({
+                  type: 'function',
+                  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+              }
+            : {}),
+          stream: true,
+        },
+      });
+
+      const calls: StreamedToolCall[] = [];
+      for await (const data of readSSEData(response, label)) {
+        // Malformed chunks are skipped
+        const delta = parseJSON<OpenAIStreamChunk>(data)?.choices?.[0]?.delta;
+        if (delta?.content) {
+          yield delta.content;
+        }
+        for (const part of delta?.tool_calls ?? []) {
+          const call = (calls[part.index] ??= { name: '', arguments: '' });
+          call.name += part.function?.name ?? '';
+          call.arguments += part.function?.arguments ?? '';
+        }
+      }
+
+      return parseToolCalls(calls);
+    },
+
+    async moderate(input): Promise<ModerationResult> {
+      if (!moderationUrl) {
+        return classifyModeration(provider, input);
+      }
+
+      const response = await postToProvider({
+        url: moderationUrl,
+        headers,
+        label,
+        timeout: MODERATION_TIMEOUT_MS,
+        body: { model: MODERATION_MODEL, input },
+      });
+      const result = ((await response.json()) as OpenAIModerationResponse).results?.[0];
+      if (!result) {
+        throw new LLMError('invalid_response', 'No moderation result received from API', true);
+      }
+      return { flagged: result.flagged, categories: result.categories };
+    },
+  };
+
+  return provider;
+}
+
+/**
+ * OpenAI API (chat completions plus the moderation endpoint)
+ */
+export function createOpenAIProvider(options: { apiKey: string; model: string }): LLMProvider {
+  return chatCompletionsProvider({
+    kind: 'openai',
+    label: 'OpenAI',
+    model: options.model,
+    chatUrl: `${OPENAI_BASE_URL}/chat/completions`,
+    headers: { Authorization: `Bearer ${options.apiKey}` },
+    moderationUrl: `${OPENAI_BASE_URL}/moderations`,
+  });
+}
+
+/**
+ * Azure OpenAI deployment, e.g. in an EU region; the deployment name is the model
+ */
+export function createAzureOpenAIProvider(options: {
+  endpoint: string;
+  apiKey: string;
+  deployment: string;
+  apiVersion: string;
+}): LLMProvider {
+  const base = options.endpoint.replace(/\/+$/, '');
+  return chatCompletionsProvider({
+    kind: 'azure',
+    label: 'Azure OpenAI',
+    model: options.deployment,
+    chatUrl:
+      `${base}/openai/deployments/${encodeURIComponent(options.deployment)}/chat/completions` +
+      `?api-version=${encodeURIComponent(options.apiVersion)}`,
+    headers: { 'api-key': options.apiKey },
+  });
+}
+
+/**
+ * Any OpenAI-compatible server (Ollama, vLLM, LM Studio, a Bedrock OpenAI endpoint)
+ * @param options.baseUrl - API root including the version path, e.g. http://localhost:11434/v1
+ * @param options.apiKey - Sent as a bearer token when set; local servers usually need none
+ */
+export function createCompatibleProvider(options: { baseUrl: string; model: string; apiKey?: string }): LLMProvider {
+  return chatCompletionsProvider({
+    kind: 'compatible',
+    label: 'OpenAI-compatible',
+    model: options.model,
+    chatUrl: `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+  });
+}
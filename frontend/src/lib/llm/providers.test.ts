@@ -0,0 +1,267 @@
+/** @jest-environment node */
+
+jest.mock('@/lib/logger', () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+import { createAnthropicProvider } from './anthropic';
+import { completeChat } from './complete';
+import { LLMError } from './errors';
+import { createMockProvider } from './mock';
+import { classifyModeration } from './moderation';
+import { createAzureOpenAIProvider, createCompatibleProvider, createOpenAIProvider } from './openai';
+import type { LLMChatRequest, LLMProvider, LLMTool } from './types';
+
+const REQUEST: LLMChatRequest = {
+  systemPrompt: 'System prompt',
+  messages: [{ role: 'user', content: 'Hello' }],
+  temperature: 0.2,
+  maxTokens: 100,
+  timeout: 5000,
+};
+
+const realFetch = global.fetch;
+let fetchMock: jest.Mock;
+
+function sse(...events: unknown[]): Response {
+  return new Response(events.map((e) => `data: ${typeof e === 'string' ? e : JSON.stringify(e)}\n\n`).join(''));
+}
+
+const openAIChunk = (content: string) => ({ choices: [{ delta: { content } }] });
+
+const TOOL: LLMTool = {
+  name: 'get_skill',
+  description: 'Look up a skill',
+  parameters: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+};
+
+/** Text and tool calls of a streamed completion */
+async function drain(provider: LLMProvider, request: LLMChatRequest) {
+  const stream = provider.streamChat(request);
+  let text = '';
+  let next = await stream.next();
+  for (; !next.done; next = await stream.next()) text += next.value;
+  return { text, calls: next.value };
+}
+
+beforeEach(() => {
+  fetchMock = jest.fn();
+  global.fetch = fetchMock as never;
+});
+
+afterAll(() => {
+  global.fetch = realFetch;
+});
+
+describe('OpenAI wire format providers', () => {
+  it('streams chat completions from the OpenAI API with native JSON mode', async () => {
+    fetchMock.mockResolvedValue(sse(openAIChunk('Hel'), 'not json', openAIChunk('lo'), '[DONE]'));
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', model: 'gpt-4o-mini' });
+
+    expect(await completeChat(provider, { ...REQUEST, responseFormat: 'json_object' })).toBe('Hello');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: 'System prompt' },
+        { role: 'user', content: 'Hello' },
+      ],
+      temperature: 0.2,
+      max_tokens: 100,
+      response_format: { type: 'json_object' },
+      stream: true,
+    });
+  });
+
+  it('sends max_completion_tokens to reasoning-era models', async () => {
+    fetchMock.mockResolvedValue(sse('[DONE]'));
+    await completeChat(createOpenAIProvider({ apiKey: 'sk-test', model: 'gpt-5-mini' }), REQUEST);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).max_completion_tokens).toBe(100);
+  });
+
+  it('uses the OpenAI moderation endpoint', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ results: [{ flagged: true, categories: { hate: true, violence: false } }] }))
+    );
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', model: 'gpt-4o-mini' });
+
+    expect(provider.capabilities.moderation).toBe('native');
+    expect(await provider.moderate('text')).toEqual({ flagged: true, categories: { hate: true, violence: false } });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.openai.com/v1/moderations');
+  });
+
+  it('addresses an Azure deployment with its api-key header', async () => {
+    fetchMock.mockResolvedValue(sse(openAIChunk('Hi'), '[DONE]'));
+    const provider = createAzureOpenAIProvider({
+      endpoint: 'https://example-swc.openai.azure.com/',
+      apiKey: 'azure-key',
+      deployment: 'gpt-4o-eu',
+      apiVersion: '2024-10-21',
+    });
+
+    expect(await completeChat(provider, REQUEST)).toBe('Hi');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://example-swc.openai.azure.com/openai/deployments/gpt-4o-eu/chat/completions?api-version=2024-10-21'
+    );
+    expect(init.headers['api-key']).toBe('azure-key');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(provider.capabilities.moderation).toBe('emulated');
+  });
+
+  it('talks to a local compatible server without credentials', async () => {
+    fetchMock.mockResolvedValue(sse(openAIChunk('Hi'), '[DONE]'));
+    const provider = createCompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1' });
+
+    await completeChat(provider, REQUEST);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('offers tools and assembles streamed tool calls', async () => {
+    const toolDelta = (index: number, fn: { name?: string; arguments?: string }) => ({
+      choices: [{ delta: { tool_calls: [{ index, function: fn }] } }],
+    });
+    fetchMock.mockResolvedValue(
+      sse(
+        openAIChunk('Let me check.'),
+        toolDelta(0, { name: 'get_skill', arguments: '' }),
+        toolDelta(0, { arguments: '{"name":' }),
+        toolDelta(0, { arguments: '"Bedrock"}' }),
+        toolDelta(1, { name: 'offer_booking', arguments: '{"broken' }),
+        '[DONE]'
+      )
+    );
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', model: 'gpt-4o-mini' });
+
+    expect(await drain(provider, { ...REQUEST, tools: [TOOL] })).toEqual({
+      text: 'Let me check.',
+      calls: [{ name: 'get_skill', arguments: { name: 'Bedrock' } }],
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).tools).toEqual([
+      { type: 'function', function: { name: 'get_skill', description: 'Look up a skill', parameters: TOOL.parameters } },
+    ]);
+  });
+
+  it('maps HTTP failures onto LLMErrors', async () => {
+    fetchMock.mockResolvedValue(new Response('slow down', { status: 429 }));
+    const error = await completeChat(createOpenAIProvider({ apiKey: 'sk', model: 'm' }), REQUEST).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.type).toBe('rate_limit');
+  });
+});
+
+describe('createAnthropicProvider', () => {
+  const textDelta = (text: string) => ({ type: 'content_block_delta', delta: { type: 'text_delta', text } });
+
+  it('streams text deltas from the Messages API', async () => {
+    fetchMock.mockResolvedValue(
+      sse({ type: 'message_start' }, textDelta('Hel'), textDelta('lo'), { type: 'message_stop' })
+    );
+    const provider = createAnthropicProvider({ apiKey: 'ant-key', model: 'claude-haiku-4-5' });
+
+    expect(await completeChat(provider, REQUEST)).toBe('Hello');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('ant-key');
+    expect(init.headers['anthropic-version']).toBe('2023-06-01');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'claude-haiku-4-5',
+      system: 'System prompt',
+      messages: [{ role: 'user', content: 'Hello' }],
+      max_tokens: 100,
+      temperature: 0.2,
+      stream: true,
+    });
+  });
+
+  it('asks for JSON in the system prompt and honours a custom base URL', async () => {
+    fetchMock.mockResolvedValue(sse({ type: 'message_stop' }));
+    const provider = createAnthropicProvider({ apiKey: 'k', model: 'm', baseUrl: 'https://gateway.example.eu/' });
+
+    await completeChat(provider, { ...REQUEST, responseFormat: 'json_object' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://gateway.example.eu/v1/messages');
+    expect(JSON.parse(init.body).system).toMatch(/^System prompt\n\nRespond with only a single JSON object/);
+    expect(provider.capabilities.jsonMode).toBe('emulated');
+  });
+
+  it('offers tools and assembles tool_use blocks', async () => {
+    fetchMock.mockResolvedValue(
+      sse(
+        textDelta('One moment.'),
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', name: 'get_skill', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"name": "Ba' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'sh"}' } },
+        { type: 'message_stop' }
+      )
+    );
+    const provider = createAnthropicProvider({ apiKey: 'k', model: 'm' });
+
+    expect(await drain(provider, { ...REQUEST, tools: [TOOL] })).toEqual({
+      text: 'One moment.',
+      calls: [{ name: 'get_skill', arguments: { name: 'Bash' } }],
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).tools).toEqual([
+      { name: 'get_skill', description: 'Look up a skill', input_schema: TOOL.parameters },
+    ]);
+  });
+
+  it('turns an error event mid-stream into an LLMError', async () => {
+    fetchMock.mockResolvedValue(sse(textDelta('Hel'), { type: 'error', error: { type: 'overloaded_error' } }));
+    const error = await completeChat(createAnthropicProvider({ apiKey: 'k', model: 'm' }), REQUEST).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.type).toBe('server');
+  });
+});
+
+describe('classifyModeration', () => {
+  it('turns the classifier verdict into moderation categories', async () => {
+    const provider = createMockProvider({
+      reply: () => '```json\n{"flagged": true, "categories": ["harassment", "not-a-category"]}\n```',
+    });
+    const result = await classifyModeration(provider, 'text');
+    expect(result.flagged).toBe(true);
+    expect(result.categories.harassment).toBe(true);
+    expect(result.categories.hate).toBe(false);
+    expect(result.categories).not.toHaveProperty('not-a-category');
+  });
+
+  it('rejects answers without a verdict', async () => {
+    const provider = createMockProvider({ reply: () => 'I cannot help with that.' });
+    await expect(classifyModeration(provider, 'text')).rejects.toThrow('no verdict');
+  });
+});
+
+describe('createMockProvider', () => {
+  it('streams an echo by default and a benign verdict in JSON mode', async () => {
+    const provider = createMockProvider();
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamChat(REQUEST)) chunks.push(chunk);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toContain('"Hello"');
+    expect(JSON.parse(await completeChat(provider, { ...REQUEST, responseFormat: 'json_object' }))).toEqual({
+      flagged: false,
+      confidence: 0,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('makes its tool calls only when tools are offered', async () => {
+    const provider = createMockProvider({ toolCalls: () => [{ name: 'offer_booking', arguments: {} }] });
+    expect((await drain(provider, { ...REQUEST, tools: [TOOL] })).calls).toEqual([{ name: 'offer_booking', arguments: {} }]);
+    expect((await drain(provider, REQUEST)).calls).toEqual([]);
+  });
+
+  it('flags the categories it is told to', async () => {
+    const provider = createMockProvider({ flag: (input) => (input.includes('threat') ? ['violence'] : []) });
+    expect((await provider.moderate('a threat')).categories.violence).toBe(true);
+    expect((await provider.moderate('hello')).flagged).toBe(false);
+  });
+});
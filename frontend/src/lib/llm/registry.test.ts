@@ -0,0 +1,90 @@
+/** @jest-environment node */
+
+import { LLMError } from './errors';
+import { findLLMProvider, getLLMProvider, getLLMProviderKind } from './registry';
+
+const ENV = { ...process.env };
+
+beforeEach(() => {
+  process.env = { ...ENV };
+  for (const key of Object.keys(process.env)) {
+    if (/^(LLM_|OPENAI_|AZURE_OPENAI_|ANTHROPIC_)/.test(key)) delete process.env[key];
+  }
+});
+
+afterAll(() => {
+  process.env = ENV;
+});
+
+describe('getLLMProviderKind', () => {
+  it('defaults to OpenAI and lets each endpoint override the global choice', () => {
+    expect(getLLMProviderKind('chat')).toBe('openai');
+
+    process.env.LLM_PROVIDER = 'Anthropic';
+    process.env.LLM_PROVIDER_GUARDRAILS = 'mock';
+    expect(getLLMProviderKind('chat')).toBe('anthropic');
+    expect(getLLMProviderKind('guardrails')).toBe('mock');
+  });
+
+  it('refuses unknown provider names instead of silently falling back', () => {
+    process.env.LLM_PROVIDER = 'openia';
+    expect(() => getLLMProviderKind('chat')).toThrow('Unknown LLM provider "openia"');
+    expect(() => findLLMProvider('guardrails')).toThrow('Unknown LLM provider');
+  });
+});
+
+describe('getLLMProvider', () => {
+  it('gives chat the configured model and suggestions/guardrails the small one', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_MODEL = 'gpt-4.1';
+    expect(getLLMProvider('chat').model).toBe('gpt-4.1');
+    expect(getLLMProvider('suggestions').model).toBe('gpt-4o-mini');
+
+    process.env.LLM_MODEL_GUARDRAILS = 'gpt-4.1-nano';
+    expect(getLLMProvider('guardrails').model).toBe('gpt-4.1-nano');
+    expect(getLLMProvider('chat', { model: 'o3-mini' }).model).toBe('o3-mini');
+  });
+
+  it('builds an Azure provider from its deployment settings', () => {
+    process.env.LLM_PROVIDER = 'azure';
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example-swc.openai.azure.com';
+    process.env.AZURE_OPENAI_API_KEY = 'azure-key';
+    process.env.AZURE_OPENAI_DEPLOYMENT = 'gpt-4o-eu';
+
+    const provider = getLLMProvider('analyze');
+    expect(provider.kind).toBe('azure');
+    expect(provider.model).toBe('gpt-4o-eu');
+  });
+
+  it('uses the Anthropic main and small models', () => {
+    process.env.LLM_PROVIDER = 'anthropic';
+    process.env.ANTHROPIC_API_KEY = 'ant-key';
+    expect(getLLMProvider('chat').model).toBe('claude-sonnet-4-5');
+    expect(getLLMProvider('guardrails').model).toBe('claude-haiku-4-5');
+  });
+
+  it('reports incomplete settings as api_key_missing', () => {
+    process.env.LLM_PROVIDER = 'compatible';
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+    const error = (() => {
+      try {
+        getLLMProvider('chat');
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(LLMError);
+    expect((error as LLMError).type).toBe('api_key_missing');
+    expect((error as LLMError).message).toContain('OPENAI_COMPATIBLE_MODEL');
+  });
+});
+
+describe('findLLMProvider', () => {
+  it('is undefined while the endpoint is not configured', () => {
+    expect(findLLMProvider('guardrails')).toBeUndefined();
+
+    process.env.OPENAI_API_KEY = 'sk-test';
+    expect(findLLMProvider('guardrails')?.kind).toBe('openai');
+  });
+});
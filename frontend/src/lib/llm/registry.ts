@@ -0,0 +1,143 @@
+/**
+ * Chooses the provider and model for each endpoint from the environment
+ *
+ *   LLM_PROVIDER             openai | azure | anthropic | compatible | mock (default: openai)
+ *   LLM_PROVIDER_<ENDPOINT>  per-endpoint override (CHAT, ANALYZE, SUGGESTIONS, GUARDRAILS)
+ *   LLM_MODEL_<ENDPOINT>     per-endpoint model (Azure: deployment) override
+ *
+ * Chat and analyze default to the provider's main model, suggestions and
+ * guardrails to its small one. Providers are cheap to build and read the
+ * environment on every call, so nothing is cached.
+ */
+
+import { createAnthropicProvider } from './anthropic';
+import { LLMError } from './errors';
+import { createMockProvider } from './mock';
+import { createAzureOpenAIProvider, createCompatibleProvider, createOpenAIProvider } from './openai';
+import type { LLMEndpoint, LLMProvider, LLMProviderKind } from './types';
+
+const PROVIDER_KINDS: readonly LLMProviderKind[] = ['openai', 'azure', 'anthropic', 'compatible', 'mock'];
+
+const SMALL_MODEL_ENDPOINTS: ReadonlySet<LLMEndpoint> = new Set(['suggestions', 'guardrails']);
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+const DEFAULT_ANTHROPIC_SMALL_MODEL = 'claude-haiku-4-5';
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/**
+ * Per-call overrides of the configured credentials and model
+ */
+export interface LLMProviderOverrides {
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Get the OpenAI API key from environment variables
+ * @throws LLMError if API key is not configured
+ */
+export function getApiKey(): string {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (!apiKey) {
+    throw new LLMError(
+      'api_key_missing',
+      'OpenAI API key is not configured. Please set the OPENAI_API_KEY environment variable.',
+      false
+    );
+  }
+
+  return apiKey;
+}
+
+/**
+ * Get the OpenAI model name from environment or use default
+ */
+export function getModel(): string {
+  return process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+}
+
+/**
+ * Read a required setting
+ * @throws LLMError if it is not configured
+ */
+function requireEnv(name: string, what: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new LLMError('api_key_missing', `${what} is not configured. Please set the ${name} environment variable.`, false);
+  }
+  return value;
+}
+
+/**
+ * Provider kind configured for an endpoint
+ * @throws Error for an unknown provider name, so a typo never silently disables a feature
+ */
+export function getLLMProviderKind(endpoint: LLMEndpoint): LLMProviderKind {
+  const configured = process.env[`LLM_PROVIDER_${endpoint.toUpperCase()}`] || process.env.LLM_PROVIDER || 'openai';
+  const kind = configured.trim().toLowerCase() as LLMProviderKind;
+
+  if (!PROVIDER_KINDS.includes(kind)) {
+    throw new Error(`Unknown LLM provider "${configured}". Expected one of: ${PROVIDER_KINDS.join(', ')}.`);
+  }
+  return kind;
+}
+
+/**
+ * Build the provider configured for an endpoint
+ * @throws LLMError ('api_key_missing') when the provider's settings are incomplete
+ */
+export function getLLMProvider(endpoint: LLMEndpoint, overrides: LLMProviderOverrides = {}): LLMProvider {
+  const kind = getLLMProviderKind(endpoint);
+  const small = SMALL_MODEL_ENDPOINTS.has(endpoint);
+  const model = overrides.model || process.env[`LLM_MODEL_${endpoint.toUpperCase()}`];
+
+  switch (kind) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: overrides.apiKey || getApiKey(),
+        model: model || (small ? DEFAULT_OPENAI_MODEL : getModel()),
+      });
+
+    case 'azure':
+      return createAzureOpenAIProvider({
+        endpoint: requireEnv('AZURE_OPENAI_ENDPOINT', 'Azure OpenAI endpoint'),
+        apiKey: overrides.apiKey || requireEnv('AZURE_OPENAI_API_KEY', 'Azure OpenAI API key'),
+        deployment: model || requireEnv('AZURE_OPENAI_DEPLOYMENT', 'Azure OpenAI deployment'),
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+      });
+
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: overrides.apiKey || requireEnv('ANTHROPIC_API_KEY', 'Anthropic API key'),
+        model: model || (small ? DEFAULT_ANTHROPIC_SMALL_MODEL : process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL),
+        baseUrl: process.env.ANTHROPIC_BASE_URL,
+      });
+
+    case 'compatible':
+      return createCompatibleProvider({
+        baseUrl: requireEnv('OPENAI_COMPATIBLE_BASE_URL', 'OpenAI-compatible base URL'),
+        apiKey: overrides.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY,
+        model: model || requireEnv('OPENAI_COMPATIBLE_MODEL', 'OpenAI-compatible model'),
+      });
+
+    case 'mock':
+      return createMockProvider({ model });
+  }
+}
+
+/**
+ * The provider configured for an endpoint, or undefined while its settings are
+ * incomplete (used where the feature is optional, e.g. guardrails in local dev)
+ */
+export function findLLMProvider(endpoint: LLMEndpoint): LLMProvider | undefined {
+  try {
+    return getLLMProvider(endpoint);
+  } catch (error) {
+    if (error instanceof LLMError && error.type === 'api_key_missing') {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Types for the pluggable LLM provider layer
+ */
+
+import type { ConversationMessage } from '@/types/chat';
+
+/**
+ * Server features that call a model; each can run on its own provider and model
+ */
+export type LLMEndpoint = 'chat' | 'analyze' | 'suggestions' | 'guardrails';
+
+/**
+ * Provider implementations selectable via LLM_PROVIDER / LLM_PROVIDER_<ENDPOINT>
+ * - openai: OpenAI API
+ * - azure: Azure OpenAI deployment (e.g. an EU region)
+ * - anthropic: Anthropic Messages API or a compatible gateway
+ * - compatible: any OpenAI-compatible server (Ollama, vLLM, LM Studio, Bedrock's OpenAI endpoint)
+ * - mock: canned answers for tests and offline development
+ */
+export type LLMProviderKind = 'openai' | 'azure' | 'anthropic' | 'compatible' | 'mock';
+
+/**
+ * A single chat completion request, already resolved to concrete settings
+ */
+export interface LLMChatRequest {
+  /** System prompt (knowledge context, instructions) */
+  systemPrompt: string;
+  /** Conversation history, oldest first */
+  messages: ConversationMessage[];
+  /** Sampling temperature */
+  temperature: number;
+  /** Maximum tokens in the response */
+  maxTokens: number;
+  /** Time allowed until the response starts streaming, in milliseconds */
+  timeout: number;
+  /** Set to 'json_object' to get a single JSON object as the whole answer */
+  responseFormat?: 'json_object';
+  /** Functions the model may call alongside its text answer */
+  tools?: LLMTool[];
+}
+
+/**
+ * A function offered to the model
+ */
+export interface LLMTool {
+  /** Function name, e.g. "recommend_scorecard" */
+  name: string;
+  /** When to call it, for the model */
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A function call the model made, arguments already parsed
+ */
+export interface LLMToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Result of a moderation check
+ */
+export interface ModerationResult {
+  /** Whether any category was flagged */
+  flagged: boolean;
+  /** Category (OpenAI moderation naming, e.g. "hate/threatening") → flagged */
+  categories: Record<string, boolean>;
+}
+
+/**
+ * How a provider delivers a capability: by the API itself, or emulated on top
+ * of plain chat completion (an instruction in the prompt, a classifier prompt)
+ */
+export type CapabilitySupport = 'native' | 'emulated';
+
+/**
+ * A configured model behind one provider API
+ */
+export interface LLMProvider {
+  /** Which implementation this is */
+  kind: LLMProviderKind;
+  /** Model (or deployment) the requests go to */
+  model: string;
+  /** How JSON mode and moderation are implemented */
+  capabilities: {
+    jsonMode: CapabilitySupport;
+    moderation: CapabilitySupport;
+  };
+  /**
+   * Stream a chat completion
+   * @yields Text chunks as they are received
+   * @returns The tool calls the model made, once the stream ended (only with request.tools)
+   * @throws LLMError on provider failures
+   */
+  streamChat(request: LLMChatRequest): AsyncGenerator<string, LLMToolCall[] | void, unknown>;
+  /**
+   * Check text against the content policy categories
+   * @throws LLMError on provider failures
+   */
+  moderate(input: string): Promise<ModerationResult>;
+}
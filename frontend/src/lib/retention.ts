@@ -0,0 +1,36 @@
+/**
+ * DSGVO retention — unconfirmed opt-ins (no Double-Opt-in = no consent) are
+ * deleted after RETENTION_DAYS, across every funnel table. Run by the
+ * scheduler's retention-purge job and by GET /api/cron/purge.
+ */
+
+import { createLogger } from "@/lib/logger";
+import { purgeScorecardPendingOlderThan } from "@/db/scorecard-submissions";
+import { purgeWaitlistPendingOlderThan } from "@/db/workshop-waitlist";
+
+const log = createLogger("Retention");
+
+export const RETENTION_DAYS = 7;
+
+export interface PurgeResult {
+  scorecard: number;
+  waitlist: number;
+  deleted: number;
+}
+
+/** Delete every unconfirmed row older than RETENTION_DAYS. */
+export async function purgeUnconfirmed(now: Date = new Date()): Promise<PurgeResult> {
+  const cutoff = new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const [scorecard, waitlist] = await Promise.all([
+    purgeScorecardPendingOlderThan(cutoff),
+    purgeWaitlistPendingOlderThan(cutoff),
+  ]);
+  const deleted = scorecard + waitlist;
+  log.info("Purged unconfirmed submissions", {
+    scorecard,
+    waitlist,
+    deleted,
+    retentionDays: RETENTION_DAYS,
+  });
+  return { scorecard, waitlist, deleted };
+}
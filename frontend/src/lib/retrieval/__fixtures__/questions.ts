@@ -0,0 +1,39 @@
+/**
+ * Visitor questions over the committed portfolio content (content/ + the
+ * knowledge-examples fallback), each with the section titles a good answer
+ * needs. Add a case whenever a real chat answer missed something.
+ */
+
+import type { RetrievalCase } from "../eval";
+
+export const RETRIEVAL_CASES: RetrievalCase[] = [
+  { question: "What did he build with Chat3D?", expect: ["Project: Chat3D"] },
+  { question: "Can an LLM generate CAD models from a chat?", expect: ["Project: Chat3D"] },
+  {
+    question: "Has he run distributed ML training on GPU clusters?",
+    expect: ["Project: Distributed ML Training"],
+  },
+  { question: "How was this portfolio website built?", expect: ["Project: AI-Powered Portfolio Website"] },
+  { question: "What is his YouTube channel about?", expect: ["Project: The Crosslink Channel"] },
+  { question: "Did he work with healthcare and life sciences customers?", expect: ["(Healthcare)"] },
+  { question: "Which media & entertainment customers did he support?", expect: ["(Media & Entertainment)"] },
+  { question: "What was his role at UniCredit?", expect: ["at UniCredit"] },
+  { question: "Has he ever led a team?", expect: ["Team Lead Solutions Architecture"] },
+  { question: "Has he founded companies?", expect: ["Founder at Crosslink Media 3D", "Netoption"] },
+  {
+    question: "Does he know .NET and Microsoft workload migrations?",
+    expect: ["Specialist Solutions Architect, Microsoft"],
+  },
+  { question: "What did he do as a technical evangelist for Azure?", expect: ["Technical Evangelist"] },
+  { question: "Does he write TypeScript and Python?", expect: ["Skills & Expertise"] },
+  { question: "Has he worked with Infrastructure as Code and serverless?", expect: ["Skills & Expertise"] },
+  { question: "What are his GenAI skills?", expect: ["Skills & Expertise"] },
+  {
+    question: "What does he think about frontier models versus open weights?",
+    expect: ["Blog: I Taught LLMs"],
+  },
+  { question: "Why did the cloud migration choose EKS over ECS?", expect: ["Additional Knowledge"] },
+  { question: "Welche Erfahrung hat er im Gesundheitswesen und Healthcare?", expect: ["(Healthcare)"] },
+  { question: "Was hat er bei MyDays entwickelt?", expect: ["MyDays"] },
+  { question: "Hallo!", expect: ["About"] },
+];
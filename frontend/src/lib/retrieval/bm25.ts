@@ -0,0 +1,45 @@
+/**
+ * Okapi BM25 over pre-tokenized documents. The corpus is a few hundred chunks
+ * at most, so a plain in-memory inverted index is all it needs.
+ */
+
+export interface Bm25Index {
+  /** One score per document, in corpus order (0 = no query term matched). */
+  score(queryTerms: string[]): number[];
+}
+
+export function createBm25Index(documents: string[][], opts: { k1?: number; b?: number } = {}): Bm25Index {
+  const k1 = opts.k1 ?? 1.2;
+  const b = opts.b ?? 0.75;
+  const n = documents.length;
+  const lengths = documents.map((d) => d.length);
+  const avgLength = n > 0 ? lengths.reduce((sum, l) => sum + l, 0) / n : 0;
+
+  // term → [docIndex, termFrequency][]
+  const postings = new Map<string, [number, number][]>();
+  documents.forEach((terms, doc) => {
+    const tf = new Map<string, number>();
+    for (const term of terms) tf.set(term, (tf.get(term) ?? 0) + 1);
+    for (const [term, freq] of tf) {
+      const list = postings.get(term) ?? [];
+      list.push([doc, freq]);
+      postings.set(term, list);
+    }
+  });
+
+  return {
+    score(queryTerms) {
+      const scores = new Array<number>(n).fill(0);
+      for (const term of new Set(queryTerms)) {
+        const list = postings.get(term);
+        if (!list) continue;
+        const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+        for (const [doc, freq] of list) {
+          const norm = 1 - b + (b * lengths[doc]) / (avgLength || 1);
+          scores[doc] += (idf * freq * (k1 + 1)) / (freq + k1 * norm);
+        }
+      }
+      return scores;
+    },
+  };
+}
@@ -0,0 +1,68 @@
+/** @jest-environment node */
+import { chunkSection, chunkSections, estimateTokens } from "./chunk";
+import { createBm25Index } from "./bm25";
+import { stem, tokenize } from "./tokenize";
+
+const long = (word: string, n: number) => Array.from({ length: n }, () => word).join(" ");
+
+describe("chunkSection", () => {
+  it("keeps a section that fits as one chunk", () => {
+    const chunks = chunkSection({ type: "about", title: "About", content: "  short  ", priority: 10 }, 3, 100);
+    expect(chunks).toEqual([{ sectionIndex: 3, position: 0, text: "short", tokens: 2 }]);
+  });
+
+  it("splits long sections at headings and packs neighbours up to the limit", () => {
+    const content = [`## A\n${long("alpha", 30)}`, `## B\n${long("beta", 5)}`, `## C\n${long("gamma", 30)}`].join("\n");
+    const chunks = chunkSection({ type: "skill", title: "Skills", content, priority: 6 }, 0, 60);
+    expect(chunks.map((c) => c.text.slice(0, 4))).toEqual(["## A", "## C"]);
+    expect(chunks[0].text).toContain("## B");
+    expect(chunks.map((c) => c.position)).toEqual([0, 1]);
+    chunks.forEach((c) => expect(c.tokens).toBe(estimateTokens(c.text)));
+  });
+
+  it("breaks an oversized block at paragraphs, then lines", () => {
+    const content = `${long("one", 40)}\n\n${long("two", 40)}\n${long("three", 40)}`;
+    const chunks = chunkSection({ type: "raw", title: "Raw", content, priority: 5 }, 0, 60);
+    expect(chunks).toHaveLength(3);
+    expect(chunks.every((c) => c.tokens <= 60)).toBe(true);
+  });
+
+  it("numbers chunks per section across the corpus", () => {
+    const chunks = chunkSections(
+      [
+        { type: "about", title: "About", content: "a", priority: 10 },
+        { type: "raw", title: "Raw", content: `## X\n${long("x", 100)}\n## Y\n${long("y", 100)}`, priority: 5 },
+      ],
+      60,
+    );
+    expect(chunks.map((c) => [c.sectionIndex, c.position])).toEqual([
+      [0, 0],
+      [1, 0],
+      [1, 1],
+    ]);
+  });
+});
+
+describe("tokenize", () => {
+  it("drops English and German stopwords and folds inflections", () => {
+    expect(tokenize("What did he build at the Migrations?")).toEqual(["build", "migration"]);
+    expect(tokenize("Welche Erfahrung hat er mit Projekten?")).toEqual(["erfahrung", "projekt"]);
+  });
+
+  it("leaves short terms like acronyms alone", () => {
+    expect(stem("aws")).toBe("aws");
+    expect(stem("eks")).toBe("eks");
+    expect(tokenize("AWS & EKS")).toEqual(["aws", "eks"]);
+  });
+});
+
+describe("createBm25Index", () => {
+  it("ranks the document with the rarer, more frequent term higher", () => {
+    const index = createBm25Index([["cloud", "aws"], ["cloud", "cad", "cad"], ["cloud"]]);
+    const [a, b, c] = index.score(["cad", "cloud"]);
+    expect(b).toBeGreaterThan(a);
+    expect(a).toBeGreaterThan(0);
+    expect(c).toBeGreaterThan(0);
+    expect(index.score(["unknown"])).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Splits compiled ContextSections into retrieval chunks. Small sections stay
+ * whole; long ones (the skills block, raw knowledge files) split at markdown
+ * headings, then paragraphs, so one matching skill category does not drag the
+ * whole section into the prompt.
+ */
+
+import type { ContextSection } from "@/types/knowledge";
+
+export interface KnowledgeChunk {
+  /** Index of the source section in the compiled (priority-sorted) list */
+  sectionIndex: number;
+  /** Position within its section — chunks re-join in this order */
+  position: number;
+  text: string;
+  tokens: number;
+}
+
+/** Rough token estimate (~4 chars per token), the same heuristic as the compiled prompt. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Break at headings first; a block that is still too long breaks at blank lines, then lines. */
+function blocks(content: string, maxTokens: number): string[] {
+  const byHeading = content.split(/\n(?=#{1,3} )/);
+  return byHeading.flatMap((block) => {
+    if (estimateTokens(block) <= maxTokens) return [block];
+    const paragraphs = block.split(/\n\s*\n/);
+    return paragraphs.flatMap((p) => (estimateTokens(p) <= maxTokens ? [p] : p.split("\n")));
+  });
+}
+
+/** Greedily packs consecutive blocks into chunks of at most `maxTokens` (an oversized line stays whole). */
+export function chunkSection(
+  section: ContextSection,
+  sectionIndex: number,
+  maxTokens: number,
+): KnowledgeChunk[] {
+  const content = section.content.trim();
+  if (estimateTokens(content) <= maxTokens) {
+    return [{ sectionIndex, position: 0, text: content, tokens: estimateTokens(content) }];
+  }
+
+  const texts: string[] = [];
+  let current = "";
+  for (const block of blocks(content, maxTokens)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    const joined = current ? `${current}\n\n${trimmed}` : trimmed;
+    if (current && estimateTokens(joined) > maxTokens) {
+      texts.push(current);
+      current = trimmed;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) texts.push(current);
+
+  return texts.map((text, position) => ({ sectionIndex, position, text, tokens: estimateTokens(text) }));
+}
+
+export function chunkSections(sections: ContextSection[], maxTokens: number): KnowledgeChunk[] {
+  return sections.flatMap((section, i) => chunkSection(section, i, maxTokens));
+}
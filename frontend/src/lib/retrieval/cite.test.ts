@@ -0,0 +1,74 @@
+/** @jest-environment node */
+import type { ContextSection } from "@/types/knowledge";
+import { citeSources } from "./cite";
+
+const SECTIONS: ContextSection[] = [
+  {
+    type: "about",
+    title: "About",
+    content: "## About Daniel\nSolutions architect and AI coach in Munich.",
+    priority: 10,
+    href: "/about#about",
+  },
+  {
+    type: "experience",
+    title: "Experience: Architect at Hospital Corp",
+    content: "## Architect\nMoved the hospital's clinical systems to AWS with EKS and Terraform.",
+    priority: 9,
+    href: "/about#experience-hospital",
+  },
+  {
+    type: "project",
+    title: "Project: Chat3D",
+    content: "## Chat3D\nTurns chat prompts into parametric CAD models using LLMs and OpenSCAD.",
+    priority: 7,
+    href: "/about#project-chat3d",
+  },
+  {
+    type: "blog",
+    title: "Blog: CAD from Prompts",
+    content: "## CAD from Prompts\nWhat building Chat3D taught about parametric CAD and LLM output.",
+    priority: 5.5,
+    href: "/blog/cad-from-prompts",
+  },
+  {
+    type: "raw",
+    title: "Additional Knowledge 1",
+    content: "Chat3D parametric CAD OpenSCAD LLMs prompts models.",
+    priority: 5,
+  },
+];
+
+describe("citeSources", () => {
+  it("cites every section the answer draws on", () => {
+    const sources = citeSources(
+      SECTIONS,
+      "Chat3D turns chat prompts into parametric CAD models with OpenSCAD. Building it taught him a lot " +
+        "about LLM output.",
+    );
+    expect(sources.map((s) => s.href).sort()).toEqual(["/about#project-chat3d", "/blog/cad-from-prompts"]);
+    expect(sources).toContainEqual({ type: "project", title: "Project: Chat3D", href: "/about#project-chat3d" });
+  });
+
+  it("skips sections without a public page", () => {
+    const sources = citeSources(SECTIONS, "Chat3D parametric CAD OpenSCAD LLMs prompts models.");
+    expect(sources.every((s) => s.type !== "raw")).toBe(true);
+  });
+
+  it("leaves weaker matches out", () => {
+    const sources = citeSources(SECTIONS, "At Hospital Corp he moved clinical systems to AWS using EKS and Terraform.");
+    expect(sources.map((s) => s.href)).toEqual(["/about#experience-hospital"]);
+  });
+
+  it("cites nothing for answers that share only a name with the knowledge", () => {
+    expect(citeSources(SECTIONS, "Hi! Ask me anything about Daniel.")).toEqual([]);
+    expect(citeSources(SECTIONS, "")).toEqual([]);
+  });
+
+  it("respects the source limit and de-duplicates links", () => {
+    const twice = [...SECTIONS, { ...SECTIONS[2], title: "Project: Chat3D (details)" }];
+    const answer = "Chat3D turns chat prompts into parametric CAD models with OpenSCAD and LLMs.";
+    expect(citeSources(twice, answer).filter((s) => s.href === "/about#project-chat3d")).toHaveLength(1);
+    expect(citeSources(SECTIONS, answer, { maxSources: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Picks the knowledge sections a finished chat answer actually drew on, so
+ * they can be cited under it. Everything in the prompt was *available*; the
+ * answer's own wording says what was *used*. Sections are BM25-scored against
+ * the answer and kept when they share enough terms with it and score close to
+ * the best match — a one-project answer cites that project, not every
+ * experience that happened to be retrieved alongside it.
+ */
+
+import type { ChatSource } from "@/types/chat";
+import type { ContextSection } from "@/types/knowledge";
+import { createBm25Index } from "./bm25";
+import { tokenize } from "./tokenize";
+
+export interface CiteOptions {
+  /** Upper bound for the number of cited sections. */
+  maxSources?: number;
+  /** Share of the best section's score a section needs to be cited too. */
+  relativeScore?: number;
+  /** Distinct answer terms a section must contain, so a shared name alone doesn't count. */
+  minSharedTerms?: number;
+}
+
+const DEFAULT_MAX_SOURCES = 3;
+const DEFAULT_RELATIVE_SCORE = 0.5;
+const DEFAULT_MIN_SHARED_TERMS = 3;
+
+export function citeSources(sections: ContextSection[], answer: string, opts: CiteOptions = {}): ChatSource[] {
+  const linked = sections.filter((s): s is ContextSection & { href: string } => Boolean(s.href));
+  const answerTerms = tokenize(answer);
+  if (linked.length === 0 || answerTerms.length === 0) return [];
+
+  const documents = linked.map((s) => tokenize(`${s.title}\n${s.content}`));
+  const scores = createBm25Index(documents).score(answerTerms);
+  const answerTermSet = new Set(answerTerms);
+  const minShared = opts.minSharedTerms ?? DEFAULT_MIN_SHARED_TERMS;
+
+  const candidates = linked
+    .map((section, i) => ({
+      section,
+      score: scores[i],
+      shared: new Set(documents[i].filter((t) => answerTermSet.has(t))).size,
+    }))
+    .filter((c) => c.score > 0 && c.shared >= minShared)
+    .sort((a, b) => b.score - a.score);
+  if (candidates.length === 0) return [];
+
+  const threshold = candidates[0].score * (opts.relativeScore ?? DEFAULT_RELATIVE_SCORE);
+  const seen = new Set<string>();
+  const sources: ChatSource[] = [];
+  for (const { section, score } of candidates) {
+    if (score < threshold || sources.length >= (opts.maxSources ?? DEFAULT_MAX_SOURCES)) break;
+    if (seen.has(section.href)) continue;
+    seen.add(section.href);
+    sources.push({ type: section.type, title: section.title, href: section.href });
+  }
+  return sources;
+}
@@ -0,0 +1,97 @@
+/** @jest-environment node */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+import {
+  cachedEmbeddings,
+  cosineSimilarity,
+  createOpenAIEmbeddingProvider,
+  embeddingProviderFromEnv,
+  type EmbeddingProvider,
+} from "./embeddings";
+
+const ENV = { ...process.env };
+const realFetch = global.fetch;
+
+afterEach(() => {
+  process.env = { ...ENV };
+  global.fetch = realFetch;
+});
+
+describe("cosineSimilarity", () => {
+  it("is 1 for parallel, 0 for orthogonal and for zero vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("createOpenAIEmbeddingProvider", () => {
+  it("posts the texts and returns vectors in input order", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+        }),
+      ),
+    );
+    global.fetch = fetchMock as never;
+    const provider = createOpenAIEmbeddingProvider("sk-test");
+    expect(provider.id).toBe("openai:text-embedding-3-small");
+    expect(await provider.embed(["a", "b"])).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.openai.com/v1/embeddings");
+    expect(init.headers.Authorization).toBe("Bearer sk-test");
+    expect(JSON.parse(init.body)).toEqual({ model: "text-embedding-3-small", input: ["a", "b"] });
+  });
+
+  it("throws on a non-2xx answer", async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response("nope", { status: 429 })) as never;
+    await expect(createOpenAIEmbeddingProvider("sk-test").embed(["a"])).rejects.toThrow("429");
+  });
+});
+
+describe("cachedEmbeddings", () => {
+  it("only sends texts it has not embedded before (per provider id)", async () => {
+    const embed = jest.fn(async (texts: string[]) => texts.map((t) => [t.length]));
+    const provider: EmbeddingProvider = { id: "cache-test", embed };
+    const cached = cachedEmbeddings(provider);
+
+    expect(await cached.embed(["one", "three"])).toEqual([[3], [5]]);
+    expect(await cached.embed(["three", "four", "four"])).toEqual([[5], [4], [4]]);
+    expect(embed.mock.calls).toEqual([[["one", "three"]], [["four"]]]);
+
+    await cachedEmbeddings({ id: "other-model", embed }).embed(["one"]);
+    expect(embed).toHaveBeenLastCalledWith(["one"]);
+  });
+});
+
+describe("embeddingProviderFromEnv", () => {
+  it("is off unless KNOWLEDGE_EMBEDDINGS names a usable provider", () => {
+    delete process.env.KNOWLEDGE_EMBEDDINGS;
+    expect(embeddingProviderFromEnv()).toBeUndefined();
+
+    process.env.KNOWLEDGE_EMBEDDINGS = "openai";
+    delete process.env.OPENAI_API_KEY;
+    expect(embeddingProviderFromEnv()).toBeUndefined();
+
+    process.env.KNOWLEDGE_EMBEDDINGS = "unknown";
+    process.env.OPENAI_API_KEY = "sk-test";
+    expect(embeddingProviderFromEnv()).toBeUndefined();
+  });
+
+  it("builds the OpenAI provider with the configured model", () => {
+    process.env.KNOWLEDGE_EMBEDDINGS = "openai";
+    process.env.OPENAI_API_KEY = "sk-test";
+    process.env.KNOWLEDGE_EMBEDDING_MODEL = "text-embedding-3-large";
+    expect(embeddingProviderFromEnv()?.id).toBe("openai:text-embedding-3-large");
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Optional dense retrieval. BM25 alone carries the knowledge index; an
+ * embedding provider adds paraphrase matching ("worked with hospitals" →
+ * Healthcare) and is fused with it by rank. Providers are pluggable — OpenAI
+ * ships here, enabled with KNOWLEDGE_EMBEDDINGS=openai.
+ */
+
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("KnowledgeEmbeddings");
+
+export interface EmbeddingProvider {
+  /** Provider + model id; part of the cache key so switching models never mixes vectors. */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const OPENAI_EMBEDDINGS_URL = "https://api.openai.com/v1/embeddings";
+const EMBED_TIMEOUT_MS = 10_000;
+
+export function createOpenAIEmbeddingProvider(
+  apiKey: string,
+  model = "text-embedding-3-small",
+): EmbeddingProvider {
+  return {
+    id: `openai:${model}`,
+    async embed(texts) {
+      const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ model, input: texts }),
+        signal: AbortSignal.timeout(EMBED_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`Embeddings request failed with ${response.status}`);
+      const body = (await response.json()) as { data: { index: number; embedding: number[] }[] };
+      return [...body.data].sort((x, y) => x.index - y.index).map((d) => d.embedding);
+    },
+  };
+}
+
+// Chunk vectors are stable between requests (the corpus changes on deploy), so
+// only new texts hit the provider. Bounded so long-running processes stay flat.
+const CACHE_LIMIT = 2000;
+const cache = new Map<string, number[]>();
+
+/** Wraps a provider with the process-wide vector cache. */
+export function cachedEmbeddings(provider: EmbeddingProvider): EmbeddingProvider {
+  return {
+    id: provider.id,
+    async embed(texts) {
+      const key = (text: string) => `${provider.id}\n${text}`;
+      const missing = [...new Set(texts.filter((t) => !cache.has(key(t))))];
+      const fresh = new Map<string, number[]>();
+      if (missing.length > 0) {
+        const vectors = await provider.embed(missing);
+        missing.forEach((text, i) => {
+          fresh.set(text, vectors[i]);
+          if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+          cache.set(key(text), vectors[i]);
+        });
+      }
+      return texts.map((t) => fresh.get(t) ?? cache.get(key(t))!);
+    },
+  };
+}
+
+/** The configured provider, or undefined when retrieval runs on BM25 alone. */
+export function embeddingProviderFromEnv(): EmbeddingProvider | undefined {
+  const kind = process.env.KNOWLEDGE_EMBEDDINGS;
+  if (!kind) return undefined;
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (kind === "openai" && apiKey) {
+    const model = process.env.KNOWLEDGE_EMBEDDING_MODEL || undefined;
+    return cachedEmbeddings(createOpenAIEmbeddingProvider(apiKey, model));
+  }
+  log.warn("KNOWLEDGE_EMBEDDINGS is set but not usable — falling back to BM25", { kind });
+  return undefined;
+}
@@ -0,0 +1,37 @@
+/**
+ * Retrieval quality on the committed portfolio content. Full context answers
+ * every fixture question, so selection must keep every expected section while
+ * sending a fraction of the tokens. A failure here means a chat answer would
+ * now miss knowledge it used to have — fix the retriever or the case, don't
+ * lower the bar.
+ * @jest-environment node
+ */
+
+import { compileKnowledgeContext, loadAllContent } from "@/lib/knowledge-loader";
+import { buildKnowledgeIndex, type KnowledgeIndex } from "./retrieve";
+import { evaluateRetrieval, formatRetrievalReport } from "./eval";
+import { RETRIEVAL_CASES } from "./__fixtures__/questions";
+
+let index: KnowledgeIndex;
+
+beforeAll(async () => {
+  index = buildKnowledgeIndex(compileKnowledgeContext(await loadAllContent()).contextSections);
+});
+
+describe("retrieval vs full context on the fixture question set", () => {
+  it.each([1500, 3000])("keeps every expected section at a %i-token budget", async (tokenBudget) => {
+    // Below the corpus size, so selection actually happens.
+    expect(index.totalTokens).toBeGreaterThan(tokenBudget);
+    const report = await evaluateRetrieval(index, RETRIEVAL_CASES, { tokenBudget });
+    expect(report.cases.filter((c) => c.missing.length > 0)).toEqual([]);
+    expect(report.recall).toBe(1);
+    expect(report.meanTokens).toBeLessThan(report.fullTokens / 2);
+  });
+
+  it("formats a readable report", async () => {
+    const report = await evaluateRetrieval(index, RETRIEVAL_CASES.slice(0, 2), { tokenBudget: 1500 });
+    const text = formatRetrievalReport(report);
+    expect(text).toContain("✓");
+    expect(text).toMatch(/recall 100\.0% · mean \d+ tok \(\d+% of full context, \d+ tok\)/);
+  });
+});
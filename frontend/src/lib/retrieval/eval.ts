@@ -0,0 +1,63 @@
+/**
+ * Offline quality check for knowledge retrieval. Full context trivially
+ * "retrieves" every section, so the bar is: each question's expected sections
+ * must survive selection, at a fraction of the full prompt's tokens.
+ * Used by the test suite and `npm run knowledge:eval`.
+ */
+
+import { retrieveContext, type KnowledgeIndex, type RetrievalOptions } from "./retrieve";
+
+export interface RetrievalCase {
+  question: string;
+  /** Substrings of section titles that must be selected (each one matches at least one section). */
+  expect: string[];
+}
+
+export interface RetrievalReport {
+  /** Share of expected sections that were selected, over all cases (1 = as good as full context). */
+  recall: number;
+  meanTokens: number;
+  fullTokens: number;
+  cases: { question: string; tokens: number; strategy: string; missing: string[] }[];
+}
+
+export async function evaluateRetrieval(
+  index: KnowledgeIndex,
+  cases: RetrievalCase[],
+  opts: RetrievalOptions,
+): Promise<RetrievalReport> {
+  let expected = 0;
+  let found = 0;
+  const results: RetrievalReport["cases"] = [];
+
+  for (const c of cases) {
+    const retrieved = await retrieveContext(index, c.question, opts);
+    const titles = retrieved.sections.map((s) => s.title);
+    const missing = c.expect.filter((want) => !titles.some((t) => t.includes(want)));
+    expected += c.expect.length;
+    found += c.expect.length - missing.length;
+    results.push({ question: c.question, tokens: retrieved.tokens, strategy: retrieved.strategy, missing });
+  }
+
+  return {
+    recall: expected ? found / expected : 1,
+    meanTokens: results.length ? results.reduce((sum, r) => sum + r.tokens, 0) / results.length : 0,
+    fullTokens: index.totalTokens,
+    cases: results,
+  };
+}
+
+export function formatRetrievalReport(report: RetrievalReport): string {
+  const lines = report.cases.map((c) => {
+    const mark = c.missing.length ? "✗" : "✓";
+    const line = `${mark} ${String(c.tokens).padStart(5)} tok  ${c.strategy.padEnd(8)} ${c.question}`;
+    return c.missing.length ? `${line}\n      missing: ${c.missing.join(", ")}` : line;
+  });
+  const share = report.fullTokens ? Math.round((report.meanTokens / report.fullTokens) * 100) : 0;
+  lines.push(
+    "",
+    `recall ${(report.recall * 100).toFixed(1)}% · mean ${Math.round(report.meanTokens)} tok ` +
+      `(${share}% of full context, ${report.fullTokens} tok)`,
+  );
+  return lines.join("\n");
+}
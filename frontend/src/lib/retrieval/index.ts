@@ -0,0 +1,16 @@
+/**
+ * Knowledge retrieval for the chat
+ *
+ * This module provides:
+ * - Chunking of compiled ContextSections
+ * - A BM25 index with optional, pluggable embedding similarity
+ * - Top-k section selection within a token budget
+ * - Citing the sections a finished answer drew on
+ * - An offline evaluation against a fixture question set
+ */
+
+export * from "./chunk";
+export * from "./embeddings";
+export * from "./retrieve";
+export * from "./eval";
+export * from "./cite";
@@ -0,0 +1,99 @@
+/** @jest-environment node */
+import type { ContextSection } from "@/types/knowledge";
+import { buildKnowledgeIndex, retrieveContext } from "./retrieve";
+import type { EmbeddingProvider } from "./embeddings";
+
+function section(
+  type: ContextSection["type"],
+  title: string,
+  content: string,
+  priority: number,
+): ContextSection {
+  return { type, title, content, priority };
+}
+
+// ~70–100 tokens per section, 463 in total
+const filler = (word: string) => Array.from({ length: 40 }, () => word).join(" ");
+
+const SECTIONS: ContextSection[] = [
+  section("about", "About", "## About Daniel\nSolutions architect and AI coach.", 10),
+  section("experience", "Experience: Architect at Hospital Corp", `## Architect\nHealthcare. ${filler("cloud")}`, 9),
+  section("experience", "Experience: Developer at Bank AG", `## Developer\nTrading. ${filler("finance")}`, 8.9),
+  section("project", "Project: Chat3D", `## Chat3D\nChat to CAD with LLMs. ${filler("geometry")}`, 7),
+  section(
+    "skill",
+    "Skills & Expertise",
+    `## Cloud\n- AWS (expert)\n${filler("serverless")}\n\n## Languages\n- TypeScript (expert)\n${filler("typing")}`,
+    6,
+  ),
+];
+
+describe("retrieveContext", () => {
+  it("sends everything while the corpus fits the budget", async () => {
+    const index = buildKnowledgeIndex(SECTIONS);
+    const result = await retrieveContext(index, "Chat3D", { tokenBudget: 10_000 });
+    expect(result.strategy).toBe("full");
+    expect(result.sections).toBe(SECTIONS);
+  });
+
+  it("selects the matching sections within the budget, About always included, in priority order", async () => {
+    const index = buildKnowledgeIndex(SECTIONS);
+    const result = await retrieveContext(index, "What did he build with Chat3D and CAD?", {
+      tokenBudget: 150,
+    });
+    expect(result.strategy).toBe("bm25");
+    expect(result.sections.map((s) => s.title)).toEqual(["About", "Project: Chat3D"]);
+    expect(result.tokens).toBeLessThanOrEqual(150);
+  });
+
+  it("keeps section order by priority even when a lower one ranks first", async () => {
+    const index = buildKnowledgeIndex(SECTIONS);
+    const result = await retrieveContext(index, "Chat3D CAD healthcare", { tokenBudget: 300 });
+    expect(result.sections.map((s) => s.title)).toEqual([
+      "About",
+      "Experience: Architect at Hospital Corp",
+      "Project: Chat3D",
+    ]);
+  });
+
+  it("takes only the matching chunk of a long section and restores its heading", async () => {
+    const index = buildKnowledgeIndex(SECTIONS, { chunkTokens: 100 });
+    const result = await retrieveContext(index, "TypeScript", { tokenBudget: 200 });
+    const skills = result.sections.find((s) => s.type === "skill")!;
+    expect(skills.content).toMatch(/^## Skills & Expertise\n\n## Languages/);
+    expect(skills.content).not.toContain("serverless");
+  });
+
+  it("falls back to priority order when nothing matches", async () => {
+    const index = buildKnowledgeIndex(SECTIONS);
+    const result = await retrieveContext(index, "Hallo!", { tokenBudget: 120 });
+    expect(result.strategy).toBe("priority");
+    expect(result.sections.map((s) => s.title)).toEqual(["About", "Experience: Architect at Hospital Corp"]);
+  });
+
+  it("caps the number of contributing sections", async () => {
+    const index = buildKnowledgeIndex(SECTIONS);
+    const result = await retrieveContext(index, "healthcare trading Chat3D TypeScript", {
+      tokenBudget: 400,
+      maxSections: 2,
+    });
+    expect(result.sections).toHaveLength(2);
+    expect(result.sections[0].title).toBe("About");
+  });
+
+  it("fuses embedding similarity so a paraphrase finds its section", async () => {
+    // Toy vectors: the query and the hospital section share a dimension BM25 cannot see.
+    const provider: EmbeddingProvider = {
+      id: "test",
+      embed: async (texts) => texts.map((t) => (/hospital|clinic/i.test(t) ? [1, 0] : [0, 1])),
+    };
+    const index = buildKnowledgeIndex(SECTIONS);
+    const lexical = await retrieveContext(index, "clinics?", { tokenBudget: 120 });
+    expect(lexical.strategy).toBe("priority");
+
+    const hybrid = await retrieveContext(index, "clinics?", { tokenBudget: 120, embeddings: provider });
+    expect(hybrid.strategy).toBe("hybrid");
+    expect(hybrid.sections.map((s) => s.title)).toContain("Experience: Architect at Hospital Corp");
+    expect(hybrid.tokens).toBeLessThanOrEqual(120);
+  });
+});
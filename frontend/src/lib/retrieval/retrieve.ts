@@ -0,0 +1,150 @@
+/**
+ * Selects the knowledge a chat question needs instead of sending everything.
+ *
+ * Sections are chunked and BM25-indexed once per compile; per question the
+ * best-matching chunks fill a token budget (optionally fused with embedding
+ * similarity), then re-join into their sections in the original priority
+ * order so the prompt reads like the full context, only shorter. The About
+ * section is always kept — it anchors who the assistant talks about.
+ */
+
+import type { ContextSection, ContextSectionType } from "@/types/knowledge";
+import { createBm25Index, type Bm25Index } from "./bm25";
+import { chunkSections, estimateTokens, type KnowledgeChunk } from "./chunk";
+import { cosineSimilarity, type EmbeddingProvider } from "./embeddings";
+import { tokenize } from "./tokenize";
+
+export interface KnowledgeIndex {
+  sections: ContextSection[];
+  chunks: KnowledgeChunk[];
+  bm25: Bm25Index;
+  totalTokens: number;
+}
+
+export interface RetrievalOptions {
+  /** Upper bound for the selected context, in estimated tokens. */
+  tokenBudget: number;
+  /** Upper bound for the number of sections that contribute chunks. */
+  maxSections?: number;
+  /** Adds dense similarity to BM25 (reciprocal rank fusion). */
+  embeddings?: EmbeddingProvider;
+}
+
+export interface RetrievedContext {
+  sections: ContextSection[];
+  tokens: number;
+  /**
+   * full — everything fit the budget; bm25 / hybrid — ranked selection;
+   * priority — nothing matched the question, sections taken by priority.
+   */
+  strategy: "full" | "bm25" | "hybrid" | "priority";
+}
+
+const PINNED: ReadonlySet<ContextSectionType> = new Set(["about"]);
+const DEFAULT_CHUNK_TOKENS = 300;
+const DEFAULT_MAX_SECTIONS = 8;
+// Standard RRF damping; keeps one ranker's #1 from drowning the other's list.
+const RRF_K = 60;
+
+/** What a chunk is indexed (and embedded) as: its section title carries the strongest terms. */
+function indexText(sections: ContextSection[], chunk: KnowledgeChunk): string {
+  return `${sections[chunk.sectionIndex].title}\n${chunk.text}`;
+}
+
+export function buildKnowledgeIndex(
+  sections: ContextSection[],
+  opts: { chunkTokens?: number } = {},
+): KnowledgeIndex {
+  const chunks = chunkSections(sections, opts.chunkTokens ?? DEFAULT_CHUNK_TOKENS);
+  const terms = chunks.map((c) => tokenize(indexText(sections, c)));
+  return {
+    sections,
+    chunks,
+    bm25: createBm25Index(terms),
+    totalTokens: sections.reduce((sum, s) => sum + estimateTokens(s.content), 0),
+  };
+}
+
+/** Chunk indices best-first; empty when nothing relates to the question. */
+async function rank(index: KnowledgeIndex, query: string, embeddings?: EmbeddingProvider): Promise<number[]> {
+  const bm25 = index.bm25.score(tokenize(query));
+  const fused = new Map<number, number>();
+  const addRanking = (ordered: number[]) =>
+    ordered.forEach((chunk, r) => fused.set(chunk, (fused.get(chunk) ?? 0) + 1 / (RRF_K + r + 1)));
+
+  const lexical = bm25
+    .map((score, i) => ({ i, score }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((x) => x.i);
+  if (!embeddings) return lexical;
+  addRanking(lexical);
+
+  const [queryVector, ...chunkVectors] = await embeddings.embed([
+    query,
+    ...index.chunks.map((c) => indexText(index.sections, c)),
+  ]);
+  addRanking(
+    chunkVectors
+      .map((v, i) => ({ i, score: cosineSimilarity(queryVector, v) }))
+      .sort((a, b) => b.score - a.score)
+      .map((x) => x.i),
+  );
+  return [...fused.entries()].sort((a, b) => b[1] - a[1]).map(([chunk]) => chunk);
+}
+
+/** Re-joins selected chunks into their sections, in the compiled priority order. */
+function assemble(index: KnowledgeIndex, selected: Set<number>): ContextSection[] {
+  const bySection = new Map<number, KnowledgeChunk[]>();
+  index.chunks.forEach((chunk, i) => {
+    if (!selected.has(i)) return;
+    bySection.set(chunk.sectionIndex, [...(bySection.get(chunk.sectionIndex) ?? []), chunk]);
+  });
+  return [...bySection.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([sectionIndex, chunks]) => {
+      const section = index.sections[sectionIndex];
+      const parts = chunks.map((c) => c.text);
+      // A later chunk alone lacks the section's own heading — restore it.
+      if (chunks[0].position > 0) parts.unshift(`## ${section.title}`);
+      return { ...section, content: parts.join("\n\n") };
+    });
+}
+
+export async function retrieveContext(
+  index: KnowledgeIndex,
+  query: string,
+  opts: RetrievalOptions,
+): Promise<RetrievedContext> {
+  if (index.totalTokens <= opts.tokenBudget) {
+    return { sections: index.sections, tokens: index.totalTokens, strategy: "full" };
+  }
+
+  const maxSections = opts.maxSections ?? DEFAULT_MAX_SECTIONS;
+  const selected = new Set<number>();
+  const sectionsUsed = new Set<number>();
+  let tokens = 0;
+  const take = (chunk: number): void => {
+    const { sectionIndex, tokens: size } = index.chunks[chunk];
+    if (selected.has(chunk) || tokens + size > opts.tokenBudget) return;
+    if (!sectionsUsed.has(sectionIndex) && sectionsUsed.size >= maxSections) return;
+    selected.add(chunk);
+    sectionsUsed.add(sectionIndex);
+    tokens += size;
+  };
+
+  index.chunks.forEach((chunk, i) => {
+    if (PINNED.has(index.sections[chunk.sectionIndex].type)) take(i);
+  });
+
+  const ranked = await rank(index, query, opts.embeddings);
+  // Nothing matched (greetings, "tell me more"): fall back to the highest-priority context.
+  const order = ranked.length > 0 ? ranked : index.chunks.map((_, i) => i);
+  for (const chunk of order) take(chunk);
+
+  return {
+    sections: assemble(index, selected),
+    tokens,
+    strategy: ranked.length === 0 ? "priority" : opts.embeddings ? "hybrid" : "bm25",
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Term extraction for the knowledge index. Visitors ask in English and German,
+ * so both stopword lists apply; the stemmer only folds the inflections that
+ * matter for matching (plurals, -ing/-ed, German -en/-er/-e) and leaves short
+ * words alone so acronyms like "AWS" or "EKS" stay intact.
+ */
+
+const STOPWORDS = new Set(
+  [
+    // English
+    "a", "about", "all", "also", "am", "an", "and", "any", "are", "as", "at", "be", "been", "but", "by",
+    "can", "could", "did", "do", "does", "for", "from", "had", "has", "have", "he", "her", "him", "his",
+    "how", "i", "if", "in", "into", "is", "it", "its", "me", "more", "my", "of", "on", "or", "our",
+    "she", "so", "some", "tell", "than", "that", "the", "their", "them", "then", "there", "these",
+    "they", "this", "to", "was", "we", "were", "what", "when", "where", "which", "who", "why", "will",
+    "with", "would", "you", "your",
+    // German
+    "aber", "als", "am", "an", "auch", "auf", "aus", "bei", "bin", "bis", "da", "das", "dass", "dem",
+    "den", "der", "des", "die", "du", "ein", "eine", "einem", "einen", "einer", "er", "es", "für",
+    "hat", "hatte", "ich", "ihm", "ihn", "im", "in", "ist", "mit", "nach", "nicht", "noch", "oder",
+    "sein", "seine", "seinen", "seiner", "sich", "sie", "sind", "so", "über", "um", "und", "uns",
+    "von", "vor", "war", "was", "welche", "welchen", "welcher", "wer", "wie", "wir", "wo", "zu", "zum",
+    "zur",
+  ],
+);
+
+const SUFFIXES = ["ings", "ing", "ies", "ed", "es", "en", "er", "s", "e"];
+
+/** Conservative suffix stripping; keeps at least four characters of stem. */
+export function stem(term: string): string {
+  for (const suffix of SUFFIXES) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= 4) {
+      return suffix === "ies" ? `${term.slice(0, -3)}y` : term.slice(0, -suffix.length);
+    }
+  }
+  return term;
+}
+
+/** Lower-cased, stopword-free, stemmed terms of `text`, in order (duplicates kept). */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term))
+    .map(stem);
+}
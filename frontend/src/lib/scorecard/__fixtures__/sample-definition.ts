@@ -3,6 +3,7 @@ import type { ScorecardDefinition } from "../types";
 /** A small KFC-shaped (KI-Führungs-Check) definition: 2 context + 2 score questions, maxPoints 6. */
 export const SAMPLE_DEFINITION: ScorecardDefinition = {
   slug: "sample",
+  version: 1,
   questions: [
     {
       id: "K1",
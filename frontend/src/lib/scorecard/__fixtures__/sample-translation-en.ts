@@ -0,0 +1,54 @@
+import type { ScorecardTranslation } from "../locale";
+import { SAMPLE_REGISTRATION } from "./sample-registration";
+
+const outcome = (name: string) => ({
+  diagnose: `{score}/100 — ${name}. Sample diagnosis.`,
+  schritte: ["Step one.", "Step two.", "Step three."],
+  antiPattern: "Avoid X.",
+});
+
+/** A complete English translation of SAMPLE_REGISTRATION (attach it via `translations: { en }`). */
+export const SAMPLE_TRANSLATION_EN: ScorecardTranslation = {
+  meta: { title: "Sample Check", description: "A sample scorecard." },
+  doiSubject: "Confirm your sign-up",
+  deliverySubject: "Your result is ready",
+  questions: {
+    K1: { prompt: "Role?", options: { gf: "CEO", team: "Team" } },
+    K2: { prompt: "Size?", options: { mid: "50–250", small: "under 50" } },
+    S1: { prompt: "Own use?", options: { daily: "Daily", weekly: "Weekly", rare: "Rarely", never: "Never" } },
+    S2: { prompt: "Visibility?", options: { active: "Active", some: "Some", no: "No" } },
+  },
+  content: {
+    ...SAMPLE_REGISTRATION.content,
+    intro: {
+      heading: "The Sample Check",
+      lead: "2 questions, instant result.",
+      startLabel: "Start the check",
+      meta: "2 questions · instant · no sign-up",
+    },
+    resultHeading: "Your result",
+    outcomeLabel: { einkaeufer: "Buyer", verwalter: "Administrator", mitmacher: "Participant", vorbild: "Role model" },
+    byOutcome: {
+      einkaeufer: outcome("Buyer"),
+      verwalter: outcome("Administrator"),
+      mitmacher: outcome("Participant"),
+      vorbild: outcome("Role model"),
+    },
+    personalisierung: { questionId: "K1", byAnswer: { gf: "As a CEO, this matters especially …" } },
+    freeTool: { label: "Your tool", body: "The one question: sample." },
+    sources: [{ id: "s1", text: "Sample source (2025)", url: "https://example.com" }],
+    optin: {
+      heading: "Your result is in. Now the tool.",
+      body: "Enter your email and I'll send you the toolkit.",
+      button: "Get the toolkit",
+      consent: "By clicking I agree … (sample consent).",
+      datenschutzHref: "/datenschutz",
+      successHeading: "Almost done — check your inbox",
+      successBody: "One click on the link and the toolkit is yours.",
+      errorBody: "Something went wrong — please try again.",
+      emailLabel: "Email address",
+      emailPlaceholder: "your.name@company.com",
+    },
+    video: { intro: "The whole model is in the video:", title: "Sample video", label: "Video", url: "" },
+  },
+};
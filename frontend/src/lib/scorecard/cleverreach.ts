@@ -9,13 +9,11 @@
  * Endpoints (REST API v3):
  *   POST /oauth/token.php                      → OAuth client_credentials token
  *   POST /v3/groups.json/{groupId}/receivers   → create receiver (+ PUT to update)
+ *   GET /v3/groups.json/{groupId}/receivers/{email}    → DSGVO lookup (lib/dsgvo)
+ *   DELETE /v3/groups.json/{groupId}/receivers/{email} → DSGVO erasure (lib/dsgvo)
  *
  * Configured via env vars; see `.env.example`. When unconfigured the confirm
  * step skips the push (best-effort) — the lead still gets their report.
- *
- * NOTE: deliberate copy of `lib/engpass-check/cleverreach.ts`, generalized with a
- * `source` param, to keep the Engpass funnel untouched. Consolidating both onto
- * one shared client is acknowledged debt (see the M2 plan/design spec).
  */
 
 import { createLogger } from "@/lib/logger";
@@ -115,8 +113,8 @@ function crFetch(
   config: CleverReachConfig,
   path: string,
   token: string,
-  method: "POST" | "PUT",
-  body: unknown,
+  method: "GET" | "POST" | "PUT" | "DELETE",
+  body?: unknown,
 ): Promise<Response> {
   return fetch(`${config.baseUrl}${path}`, {
     method,
@@ -124,7 +122,7 @@ function crFetch(
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify(body),
+    body: body === undefined ? undefined : JSON.stringify(body),
   });
 }
 
@@ -179,3 +177,50 @@ export async function addConfirmedNewsletterLead(params: {
     tags: params.tags,
   });
 }
+
+/**
+ * Whether `email` is a receiver of the newsletter group — for the DSGVO
+ * self-service, where a newsletter-only subscriber has no row in our DB.
+ */
+export async function hasNewsletterReceiver(email: string): Promise<boolean> {
+  if (!isCleverReachConfigured()) {
+    throw new CleverReachNotConfiguredError();
+  }
+  const config = readConfig();
+  const token = await getToken(config);
+  const response = await crFetch(
+    config,
+    `/v3/groups.json/${config.groupId}/receivers/${encodeURIComponent(email)}`,
+    token,
+    "GET",
+  );
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    throw new CleverReachError(`receiver lookup failed (HTTP ${response.status})`);
+  }
+  return true;
+}
+
+/**
+ * Delete a receiver from the newsletter group (DSGVO Art. 17). A receiver that
+ * does not exist (HTTP 404) is not an error — there was nothing to delete.
+ */
+export async function deleteNewsletterReceiver(email: string): Promise<"deleted" | "not_found"> {
+  if (!isCleverReachConfigured()) {
+    throw new CleverReachNotConfiguredError();
+  }
+  const config = readConfig();
+  const token = await getToken(config);
+  const response = await crFetch(
+    config,
+    `/v3/groups.json/${config.groupId}/receivers/${encodeURIComponent(email)}`,
+    token,
+    "DELETE",
+  );
+  if (response.status === 404) return "not_found";
+  if (!response.ok) {
+    throw new CleverReachError(`receiver delete failed (HTTP ${response.status})`);
+  }
+  log.info("Receiver deleted from CleverReach newsletter group");
+  return "deleted";
+}
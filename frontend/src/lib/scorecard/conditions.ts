@@ -0,0 +1,94 @@
+/**
+ * Conditions over answers, category sums and the score — shared by the `rules`
+ * outcome preset and question `showIf`. Pure; structural misconfiguration is
+ * caught statically by `conditionErrors` when the registry is built.
+ */
+
+import type { Answers, CompareOp, Question, RuleCondition } from "./types";
+
+export interface ConditionContext {
+  answers?: Answers;
+  score?: number;
+  categoryScores?: Record<string, number>;
+}
+
+function compare(left: number, op: CompareOp, right: number): boolean {
+  switch (op) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "==":
+      return left === right;
+  }
+}
+
+/**
+ * Whether `cond` holds. An answer condition matches if any selected option is
+ * listed; a category without a score (all its questions hidden) never matches.
+ * Throws when the context lacks the answers / score the condition tests.
+ */
+export function conditionHolds(cond: RuleCondition, ctx: ConditionContext): boolean {
+  if ("all" in cond) return cond.all.every((c) => conditionHolds(c, ctx));
+  if ("any" in cond) return cond.any.some((c) => conditionHolds(c, ctx));
+  if ("not" in cond) return !conditionHolds(cond.not, ctx);
+  if ("answer" in cond) {
+    if (!ctx.answers) throw new Error("answer condition needs answers");
+    const value = ctx.answers[cond.answer];
+    const picked = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return picked.some((id) => cond.in.includes(id));
+  }
+  if ("category" in cond) {
+    if (!ctx.categoryScores) throw new Error("category condition needs category scores");
+    const sum = ctx.categoryScores[cond.category];
+    return sum !== undefined && compare(sum, cond.op, cond.value);
+  }
+  if (ctx.score === undefined) throw new Error("score condition needs the score");
+  return compare(ctx.score, cond.score, cond.value);
+}
+
+/** Question ids an answer condition (at any depth) tests. */
+export function referencedQuestions(cond: RuleCondition): string[] {
+  if ("all" in cond) return cond.all.flatMap(referencedQuestions);
+  if ("any" in cond) return cond.any.flatMap(referencedQuestions);
+  if ("not" in cond) return referencedQuestions(cond.not);
+  return "answer" in cond ? [cond.answer] : [];
+}
+
+const OPS: CompareOp[] = ["<", "<=", ">", ">=", "=="];
+
+/**
+ * Static problems of `cond` against the questions it may reference, each
+ * prefixed with its path `at`. Empty when the condition is well-formed.
+ */
+export function conditionErrors(cond: RuleCondition, questions: Question[], at: string): string[] {
+  if ("all" in cond || "any" in cond) {
+    const list = "all" in cond ? cond.all : cond.any;
+    if (list.length === 0) return [`${at}: empty ${"all" in cond ? "all" : "any"}`];
+    return list.flatMap((c, i) => conditionErrors(c, questions, `${at}.${i}`));
+  }
+  if ("not" in cond) return conditionErrors(cond.not, questions, `${at}.not`);
+  if ("answer" in cond) {
+    const q = questions.find((x) => x.id === cond.answer);
+    if (!q) return [`${at}: unknown question ${cond.answer}`];
+    if (cond.in.length === 0) return [`${at}: empty option list for ${cond.answer}`];
+    return cond.in
+      .filter((id) => !q.options.some((o) => o.id === id))
+      .map((id) => `${at}: unknown option ${cond.answer}=${id}`);
+  }
+  const errors: string[] = [];
+  if ("category" in cond) {
+    if (!questions.some((q) => q.kind === "score" && q.category === cond.category)) {
+      errors.push(`${at}: unknown category ${cond.category}`);
+    }
+    if (!OPS.includes(cond.op)) errors.push(`${at}: unknown operator ${cond.op}`);
+  } else if (!OPS.includes(cond.score)) {
+    errors.push(`${at}: unknown operator ${cond.score}`);
+  }
+  if (!Number.isFinite(cond.value)) errors.push(`${at}: value must be a number`);
+  return errors;
+}
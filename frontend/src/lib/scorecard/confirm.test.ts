@@ -1,5 +1,6 @@
 /**
- * Scorecard DOI confirm — idempotent confirm + best-effort delivery/CleverReach.
+ * Scorecard DOI confirm — idempotent confirm + best-effort follow-up
+ * (delivery/CleverReach/trackmysales) after the response.
  * @jest-environment node
  */
 
@@ -17,7 +18,10 @@ const sampleReg = {
   branding: { brandAuthor: "Daniel Kreuzhofer", accent: "#e89244", accentInk: "#1a1206" },
 };
 const mockGetScorecard = jest.fn((..._a: unknown[]) => sampleReg);
-jest.mock("./registry", () => ({ getScorecard: (...a: unknown[]) => mockGetScorecard(...a) }));
+jest.mock("./registry", () => ({
+  getScorecard: (...a: unknown[]) => mockGetScorecard(...a),
+  registrationAt: (reg: unknown) => reg,
+}));
 
 const mockFind = jest.fn();
 const mockConfirm = jest.fn();
@@ -45,7 +49,15 @@ jest.mock("./trackmysales", () => ({
   isTrackmysalesConfigured: () => trackmysalesConfigured,
 }));
 
-import { confirmScorecardByToken } from "./confirm";
+const mockRenderPdf = jest.fn();
+let pdfConfigured = false;
+jest.mock("./pdf", () => ({
+  renderScorecardReportPdf: (...a: unknown[]) => mockRenderPdf(...a),
+  isPdfConfigured: () => pdfConfigured,
+  reportPdfFilename: (slug: string) => `${slug}-report.pdf`,
+}));
+
+import { confirmScorecardByToken, deliverConfirmedScorecard } from "./confirm";
 
 function row(overrides: Record<string, unknown> = {}) {
   return {
@@ -60,6 +72,13 @@ function row(overrides: Record<string, unknown> = {}) {
   };
 }
 
+/** Confirm + the follow-up the route runs after the response. */
+async function confirmAndDeliver(token: string) {
+  const res = await confirmScorecardByToken(token);
+  if (res.status === "confirmed") await deliverConfirmedScorecard(res.submission);
+  return res;
+}
+
 beforeEach(() => {
   mockFind.mockReset();
   mockConfirm.mockReset().mockResolvedValue(undefined);
@@ -68,8 +87,10 @@ beforeEach(() => {
   mockAddNewsletter.mockReset().mockResolvedValue(undefined);
   mockReportConversion.mockReset().mockResolvedValue({ attributed: true });
   mockGetScorecard.mockReset().mockReturnValue(sampleReg);
+  mockRenderPdf.mockReset().mockResolvedValue(Buffer.from("%PDF-1.4"));
   cleverreachConfigured = true;
   trackmysalesConfigured = true;
+  pdfConfigured = false;
 });
 
 describe("confirmScorecardByToken", () => {
@@ -81,7 +102,7 @@ describe("confirmScorecardByToken", () => {
 
   it("confirms: marks confirmed, sends delivery, pushes newsletter with qualified tag", async () => {
     mockFind.mockResolvedValueOnce(row());
-    const res = await confirmScorecardByToken("doi_abc");
+    const res = await confirmAndDeliver("doi_abc");
     expect(res.status).toBe("confirmed");
     if (res.status === "confirmed") expect(res.reportUrl).toContain("/sample/report?token=rep_abc");
     expect(mockConfirm).toHaveBeenCalledWith("row-1");
@@ -94,9 +115,23 @@ describe("confirmScorecardByToken", () => {
     expect(mockMarkSynced).toHaveBeenCalledWith("row-1");
   });
 
+  it("confirm itself only flips the status — mail, PDF and pushes wait for the follow-up", async () => {
+    pdfConfigured = true;
+    mockFind.mockResolvedValueOnce(row({ tid: "tid_xyz" }));
+    const res = await confirmScorecardByToken("doi_abc");
+    expect(res).toEqual(
+      expect.objectContaining({ status: "confirmed", submission: expect.objectContaining({ id: "row-1" }) }),
+    );
+    expect(mockConfirm).toHaveBeenCalledWith("row-1");
+    expect(mockRenderPdf).not.toHaveBeenCalled();
+    expect(mockSendDelivery).not.toHaveBeenCalled();
+    expect(mockAddNewsletter).not.toHaveBeenCalled();
+    expect(mockReportConversion).not.toHaveBeenCalled();
+  });
+
   it("non-qualified: only the base tag", async () => {
     mockFind.mockResolvedValueOnce(row({ result: { score: 0, outcome: "einkaeufer", qualified: false } }));
-    await confirmScorecardByToken("doi_abc");
+    await confirmAndDeliver("doi_abc");
     expect(mockAddNewsletter).toHaveBeenCalledWith({
       email: "lead@firma.de",
       tags: ["sample"],
@@ -106,49 +141,99 @@ describe("confirmScorecardByToken", () => {
 
   it("idempotent: already-confirmed just returns the link, no side effects", async () => {
     mockFind.mockResolvedValueOnce(row({ doiStatus: "confirmed" }));
-    const res = await confirmScorecardByToken("doi_abc");
-    expect(res.status).toBe("already");
+    const res = await confirmAndDeliver("doi_abc");
+    expect(res).toEqual({ status: "already", reportUrl: expect.stringContaining("/sample/report?token=rep_abc") });
     expect(mockConfirm).not.toHaveBeenCalled();
     expect(mockSendDelivery).not.toHaveBeenCalled();
     expect(mockAddNewsletter).not.toHaveBeenCalled();
   });
 
-  it("still confirms when delivery email fails (non-fatal)", async () => {
-    mockFind.mockResolvedValueOnce(row());
+  it("follow-up never throws when the delivery email fails (non-fatal)", async () => {
     mockSendDelivery.mockRejectedValueOnce(new Error("smtp down"));
-    expect((await confirmScorecardByToken("doi_abc")).status).toBe("confirmed");
+    await expect(deliverConfirmedScorecard(row() as never)).resolves.toBeUndefined();
+    expect(mockAddNewsletter).toHaveBeenCalled();
+  });
+
+  it("attaches the rendered report PDF when Chromium is configured", async () => {
+    pdfConfigured = true;
+    mockFind.mockResolvedValueOnce(row());
+    await confirmAndDeliver("doi_abc");
+    expect(mockRenderPdf).toHaveBeenCalledWith("sample", "rep_abc");
+    expect(mockSendDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({ report: { filename: "sample-report.pdf", pdf: Buffer.from("%PDF-1.4") } }),
+    );
+  });
+
+  it("sends the link-only mail when PDFs are off or the render fails", async () => {
+    mockFind.mockResolvedValueOnce(row());
+    await confirmAndDeliver("doi_abc");
+    expect(mockRenderPdf).not.toHaveBeenCalled();
+    expect(mockSendDelivery).toHaveBeenLastCalledWith(expect.objectContaining({ report: undefined }));
+
+    pdfConfigured = true;
+    mockRenderPdf.mockRejectedValueOnce(new Error("chromium crashed"));
+    mockFind.mockResolvedValueOnce(row());
+    expect((await confirmAndDeliver("doi_abc")).status).toBe("confirmed");
+    expect(mockSendDelivery).toHaveBeenLastCalledWith(expect.objectContaining({ report: undefined }));
   });
 
   it("skips newsletter push when CleverReach is not configured", async () => {
     cleverreachConfigured = false;
     mockFind.mockResolvedValueOnce(row());
-    await confirmScorecardByToken("doi_abc");
+    await confirmAndDeliver("doi_abc");
     expect(mockAddNewsletter).not.toHaveBeenCalled();
   });
 
   it("reports a trackmysales lead conversion on confirm when the lead carries a tid (code = slug)", async () => {
     mockFind.mockResolvedValueOnce(row({ tid: "tid_xyz" }));
-    await confirmScorecardByToken("doi_abc");
+    await confirmAndDeliver("doi_abc");
     expect(mockReportConversion).toHaveBeenCalledWith("tid_xyz", "sample");
   });
 
   it("skips trackmysales when the lead has no tid", async () => {
     mockFind.mockResolvedValueOnce(row());
-    await confirmScorecardByToken("doi_abc");
+    await confirmAndDeliver("doi_abc");
     expect(mockReportConversion).not.toHaveBeenCalled();
   });
 
   it("skips trackmysales when it is not configured", async () => {
     trackmysalesConfigured = false;
     mockFind.mockResolvedValueOnce(row({ tid: "tid_xyz" }));
-    await confirmScorecardByToken("doi_abc");
+    await confirmAndDeliver("doi_abc");
     expect(mockReportConversion).not.toHaveBeenCalled();
   });
 
   it("still confirms when the trackmysales report fails (non-fatal)", async () => {
     mockFind.mockResolvedValueOnce(row({ tid: "tid_xyz" }));
     mockReportConversion.mockRejectedValueOnce(new Error("tms down"));
-    expect((await confirmScorecardByToken("doi_abc")).status).toBe("confirmed");
+    expect((await confirmAndDeliver("doi_abc")).status).toBe("confirmed");
+  });
+
+  it("sends the delivery mail in the locale stored with the submission", async () => {
+    const en = {
+      meta: { title: "Sample Check", description: "" },
+      doiSubject: "Confirm your sign-up",
+      deliverySubject: "Your result is ready",
+      content: { intro: { eyebrow: "Sample EN" }, outcomeLabel: { verwalter: "Administrator" } },
+      questions: {},
+    };
+    mockGetScorecard.mockReturnValue({ ...sampleReg, translations: { en } } as never);
+    mockFind.mockResolvedValueOnce(row({ locale: "en" }));
+    await confirmAndDeliver("doi_abc");
+    expect(mockSendDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        locale: "en",
+        subject: "Your result is ready",
+        scorecardName: "Sample EN",
+        outcomeLabel: "Administrator",
+      }),
+    );
+
+    mockFind.mockResolvedValueOnce(row({ locale: "de" }));
+    await confirmAndDeliver("doi_abc");
+    expect(mockSendDelivery).toHaveBeenLastCalledWith(
+      expect.objectContaining({ locale: "de", subject: "Dein Ergebnis ist da" }),
+    );
   });
 
   it("appends registration.cleverreachTags to the CleverReach push", async () => {
@@ -158,7 +243,7 @@ describe("confirmScorecardByToken", () => {
     };
     mockGetScorecard.mockReturnValueOnce(regWithTags);
     mockFind.mockResolvedValueOnce(row());
-    await confirmScorecardByToken("doi_abc");
+    await confirmAndDeliver("doi_abc");
     const call = (mockAddNewsletter as jest.Mock).mock.calls.at(-1)![0];
     expect(call.tags).toEqual(expect.arrayContaining(["tool:chatgpt", "ampel:gelb"]));
     expect(call.tags).toContain("sample");
@@ -1,13 +1,18 @@
 /**
- * Generic scorecard Double-Opt-in confirm — idempotent. Delivery email +
- * CleverReach push are best-effort (a provider hiccup never hides the report).
- * CleverReach gets tags only; all lead data stays in our DB.
+ * Generic scorecard Double-Opt-in confirm — idempotent. Confirming only flips
+ * the status, so the lead gets their report right away; the follow-up work
+ * (`deliverConfirmedScorecard`: delivery email with the report PDF attached
+ * when Chromium is available, CleverReach push, trackmysales conversion) runs
+ * after the response and is best-effort (a provider hiccup never hides the
+ * report). CleverReach gets tags only; all lead data stays in our DB.
  */
 
 import { createLogger } from "@/lib/logger";
-import { getScorecard } from "./registry";
+import { getScorecard, registrationAt } from "./registry";
+import { localizedRegistration, resolveLocale } from "./locale";
 import { baseUrl } from "./tokens";
 import { sendScorecardDelivery } from "./email";
+import { isPdfConfigured, renderScorecardReportPdf, reportPdfFilename } from "./pdf";
 import { addConfirmedNewsletterLead, isCleverReachConfigured } from "./cleverreach";
 import { isTrackmysalesConfigured, reportLeadConversion } from "./trackmysales";
 import {
@@ -15,29 +20,59 @@ import {
   findScorecardByDoiToken,
   markScorecardCleverreachSynced,
 } from "@/db/scorecard-submissions";
+import type { ScorecardSubmission } from "@/db/schema";
 
 const log = createLogger("ScorecardConfirm");
 
 export type ConfirmResult =
-  | { status: "confirmed"; reportUrl: string }
+  | { status: "confirmed"; reportUrl: string; submission: ScorecardSubmission }
   | { status: "already"; reportUrl: string }
   | { status: "notfound" };
 
+function reportUrlFor(submission: ScorecardSubmission): string {
+  return `${baseUrl()}/${submission.scorecard}/report?token=${submission.reportToken}`;
+}
+
+/**
+ * Flips the submission to confirmed. On "confirmed" the caller runs
+ * `deliverConfirmedScorecard(result.submission)` once the response is out.
+ */
 export async function confirmScorecardByToken(doiToken: string): Promise<ConfirmResult> {
   const submission = await findScorecardByDoiToken(doiToken);
   if (!submission) return { status: "notfound" };
 
-  const reportUrl = `${baseUrl()}/${submission.scorecard}/report?token=${submission.reportToken}`;
+  const reportUrl = reportUrlFor(submission);
   if (submission.doiStatus === "confirmed") return { status: "already", reportUrl };
 
   await confirmScorecardSubmission(submission.id);
+  return { status: "confirmed", reportUrl, submission };
+}
 
+/**
+ * Follow-up of a fresh confirm: PDF render + delivery email, CleverReach push,
+ * trackmysales conversion. Each step is best-effort; never throws.
+ */
+export async function deliverConfirmedScorecard(submission: ScorecardSubmission): Promise<void> {
+  const reportUrl = reportUrlFor(submission);
   const qualified = submission.result.qualified;
-  const reg = getScorecard(submission.scorecard);
+  const current = getScorecard(submission.scorecard);
+  // The definition the lead answered, in the language they used.
+  const locale = current ? resolveLocale(current, submission.locale) : undefined;
+  const reg = current && localizedRegistration(registrationAt(current, submission.definitionVersion), locale!);
   const source = reg?.cleverreachSource ?? submission.scorecard;
   const deliverySubject = reg?.deliverySubject ?? "Dein Ergebnis ist da";
   const outcome = submission.result.outcome;
 
+  let report: { filename: string; pdf: Buffer } | undefined;
+  if (isPdfConfigured()) {
+    try {
+      const pdf = await renderScorecardReportPdf(submission.scorecard, submission.reportToken);
+      report = { filename: reportPdfFilename(submission.scorecard), pdf };
+    } catch (error) {
+      log.error("Scorecard report PDF failed — delivering the link only", error);
+    }
+  }
+
   try {
     await sendScorecardDelivery({
       to: submission.email,
@@ -50,6 +85,8 @@ export async function confirmScorecardByToken(doiToken: string): Promise<Confirm
       accent: reg?.branding.accent ?? "#e89244",
       accentInk: reg?.branding.accentInk ?? "#1a1206",
       bookingUrl: reg?.bookingUrl,
+      locale,
+      report,
     });
   } catch (error) {
     log.error("Scorecard delivery email failed (non-fatal)", error);
@@ -79,6 +116,4 @@ export async function confirmScorecardByToken(doiToken: string): Promise<Confirm
       log.error("Scorecard trackmysales conversion failed (non-fatal)", error);
     }
   }
-
-  return { status: "confirmed", reportUrl };
 }
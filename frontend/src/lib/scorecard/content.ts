@@ -58,6 +58,8 @@ export interface ScorecardContent {
   resultHeading: string;
   /** Outcome key → display name (e.g. "vorbild" → "Vorbild"). */
   outcomeLabel: Record<string, string>;
+  /** Category key → display name, where the categories are not tips levers (e.g. Engpass-Typ). */
+  categoryLabel?: Record<string, string>;
   /** Optional score-intro paragraph per outcome (`{score}` interpolated). */
   scoreParagraph?: Record<string, string>;
   byOutcome: Record<string, OutcomeContent>;
@@ -79,4 +79,54 @@ describe("scorecard branded emails", () => {
     });
     expect(sendMail.mock.calls[0][0].html).not.toMatch(/\bvon 100\b/);
   });
+
+  it("English leads get the English templates", async () => {
+    await sendScorecardDoi({
+      to: "lead@company.com",
+      subject: "Confirm",
+      confirmUrl: "https://x.test/confirm?token=abc",
+      scorecardName: "AI Leadership Check",
+      locale: "en",
+      ...brand,
+    });
+    await sendScorecardDelivery({
+      to: "lead@company.com",
+      subject: "Report",
+      reportUrl: "https://x.test/r?token=xyz",
+      scorecardName: "AI Leadership Check",
+      outcomeLabel: "Buyer",
+      qualified: true,
+      bookingUrl: "https://cal.test/30min",
+      locale: "en",
+      ...brand,
+    });
+    const [doi, delivery] = sendMail.mock.calls.map((c) => c[0].html as string);
+    expect(doi).toContain("Yes, send me my report");
+    expect(doi).toContain("https://x.test/confirm?token=abc");
+    expect(delivery).toContain("Book 30 minutes");
+    expect(delivery).not.toContain("30 Minuten buchen");
+  });
+
+  it("delivery mail attaches the report PDF and says so; none without", async () => {
+    const base = {
+      to: "lead@firma.de",
+      subject: "Report",
+      reportUrl: "https://x.test/r?token=xyz",
+      scorecardName: "KI-Führungs-Check",
+      outcomeLabel: "Einkäufer",
+      qualified: false,
+      ...brand,
+    };
+    await sendScorecardDelivery({ ...base, report: { filename: "ki-check-report.pdf", pdf: Buffer.from("%PDF-") } });
+    const withPdf = sendMail.mock.calls[0][0];
+    expect(withPdf.attachments).toEqual([
+      { filename: "ki-check-report.pdf", content: Buffer.from("%PDF-"), contentType: "application/pdf" },
+    ]);
+    expect(withPdf.html).toContain("als PDF im Anhang");
+
+    await sendScorecardDelivery(base);
+    const linkOnly = sendMail.mock.calls[1][0];
+    expect(linkOnly.attachments).toBeUndefined();
+    expect(linkOnly.html).not.toContain("als PDF im Anhang");
+  });
 });
@@ -1,9 +1,10 @@
 /**
  * Generic scorecard transactional emails — branded HTML via Handlebars templates
  * (`email-templates/scorecard-doi.hbs`, `scorecard-delivery.hbs`), the same
- * pattern as the Engpass funnel. Subjects + brand tokens + scorecard name come
- * from the caller (registration). Throws EmailNotConfiguredError when SMTP is
- * absent so routes can map it to a 503, exactly like the Engpass funnel.
+ * pattern as `lib/email/send.ts`. Subjects + brand tokens + scorecard name come
+ * from the caller (registration). Non-German leads get the `<name>.<locale>.hbs`
+ * translation of each template. Throws EmailNotConfiguredError when SMTP is
+ * absent so routes can map it to a 503, like every other transactional email.
  *
  * SECURITY: `confirmUrl`/`reportUrl`/`bookingUrl` are interpolated into the HTML
  * — callers must pass trusted, server-built URLs (never user-supplied values).
@@ -13,6 +14,7 @@ import { createLogger } from "@/lib/logger";
 import { getFrom, getTransporter, isEmailConfigured } from "@/lib/email/transporter";
 import { EmailNotConfiguredError } from "@/lib/email/send";
 import { loadTemplate } from "@/lib/email/templates";
+import { DEFAULT_LOCALE, type Locale } from "./locale";
 
 const log = createLogger("ScorecardEmail");
 
@@ -23,16 +25,25 @@ interface BrandBits {
   accentInk: string;
 }
 
-async function send(to: string, subject: string, html: string): Promise<void> {
+function templateName(name: string, locale: Locale = DEFAULT_LOCALE): string {
+  return locale === DEFAULT_LOCALE ? name : `${name}.${locale}`;
+}
+
+async function send(
+  to: string,
+  subject: string,
+  html: string,
+  attachments?: { filename: string; content: Buffer; contentType: string }[],
+): Promise<void> {
   if (!isEmailConfigured()) throw new EmailNotConfiguredError();
-  await getTransporter().sendMail({ from: getFrom(), to, subject, html });
+  await getTransporter().sendMail({ from: getFrom(), to, subject, html, ...(attachments && { attachments }) });
   log.info("Scorecard email sent", { subject });
 }
 
 export async function sendScorecardDoi(
-  params: { to: string; subject: string; confirmUrl: string; scorecardName: string } & BrandBits,
+  params: { to: string; subject: string; confirmUrl: string; scorecardName: string; locale?: Locale } & BrandBits,
 ): Promise<void> {
-  const tpl = await loadTemplate("scorecard-doi");
+  const tpl = await loadTemplate(templateName("scorecard-doi", params.locale));
   const html = tpl({
     confirmUrl: params.confirmUrl,
     scorecardName: params.scorecardName,
@@ -52,18 +63,25 @@ export async function sendScorecardDelivery(
     outcomeLabel: string;
     qualified: boolean;
     bookingUrl?: string;
+    locale?: Locale;
+    /** Server-rendered report PDF (lib/scorecard/pdf); the link alone when absent. */
+    report?: { filename: string; pdf: Buffer };
   } & BrandBits,
 ): Promise<void> {
-  const tpl = await loadTemplate("scorecard-delivery");
+  const tpl = await loadTemplate(templateName("scorecard-delivery", params.locale));
   const html = tpl({
     reportUrl: params.reportUrl,
     scorecardName: params.scorecardName,
     outcomeLabel: params.outcomeLabel,
     qualified: params.qualified,
     bookingUrl: params.bookingUrl,
+    hasPdf: Boolean(params.report),
     brandAuthor: params.brandAuthor,
     accent: params.accent,
     accentInk: params.accentInk,
   });
-  await send(params.to, params.subject, html);
+  const attachments = params.report && [
+    { filename: params.report.filename, content: params.report.pdf, contentType: "application/pdf" },
+  ];
+  await send(params.to, params.subject, html, attachments);
 }
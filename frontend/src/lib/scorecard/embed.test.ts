@@ -0,0 +1,42 @@
+import { embedFrameAncestors, isEmbedPath, isPartnerId, postToHost } from "./embed";
+
+describe("embed", () => {
+  afterEach(() => {
+    delete process.env.SCORECARD_EMBED_ANCESTORS;
+  });
+
+  it("recognizes the embed routes only", () => {
+    expect(isEmbedPath("/embed/dsgvo-check")).toBe(true);
+    expect(isEmbedPath("/dsgvo-check")).toBe(false);
+    expect(isEmbedPath("/embedded")).toBe(false);
+    expect(isEmbedPath(null)).toBe(false);
+  });
+
+  it("accepts partner ids in the tid alphabet", () => {
+    expect(isPartnerId("kanzlei_x-1")).toBe(true);
+    expect(isPartnerId("")).toBe(false);
+    expect(isPartnerId("a b")).toBe(false);
+    expect(isPartnerId("x".repeat(65))).toBe(false);
+    expect(isPartnerId(42)).toBe(false);
+  });
+
+  it("allows only this site unless SCORECARD_EMBED_ANCESTORS lists partners", () => {
+    expect(embedFrameAncestors()).toBe("'self'");
+    process.env.SCORECARD_EMBED_ANCESTORS = " https://partner.de https://*.blog.de:8443 ";
+    expect(embedFrameAncestors()).toBe("https://partner.de https://*.blog.de:8443");
+  });
+
+  it("ignores ancestors broader than one partner origin", () => {
+    process.env.SCORECARD_EMBED_ANCESTORS = "https: * http://partner.de https://* 'unsafe-inline' https://ok.de;x";
+    expect(embedFrameAncestors()).toBe("'self'");
+    process.env.SCORECARD_EMBED_ANCESTORS = "https: https://partner.de";
+    expect(embedFrameAncestors()).toBe("https://partner.de");
+  });
+
+  it("posts nothing when the page is not framed", () => {
+    const spy = jest.spyOn(window, "postMessage");
+    postToHost("sample", { type: "start" });
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Embed mode — a scorecard inside a partner's page via `/embed/<slug>` in an
+ * iframe (set up by `public/embed/scorecard.js`).
+ *
+ * The framed app talks to the host page only through postMessage: its height
+ * (so the loader can size the iframe) and the funnel milestones. Messages carry
+ * no answers and no email — hosts are third parties.
+ */
+
+export const EMBED_PATH_PREFIX = "/embed/";
+
+/** Tags every message, so hosts can tell ours apart from other frames. */
+export const EMBED_MESSAGE_SOURCE = "dk-scorecard";
+
+export type EmbedEvent =
+  | { type: "resize"; height: number }
+  | { type: "start" }
+  | { type: "complete"; outcome: string }
+  | { type: "submitted" };
+
+export type EmbedMessage = EmbedEvent & { source: typeof EMBED_MESSAGE_SOURCE; slug: string };
+
+/** Partner ids (`?partner=`) follow the tid alphabet; anything else is dropped. */
+const PARTNER_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isPartnerId(value: unknown): value is string {
+  return typeof value === "string" && PARTNER_RE.test(value);
+}
+
+export function isEmbedPath(pathname: string | null): boolean {
+  return pathname?.startsWith(EMBED_PATH_PREFIX) ?? false;
+}
+
+/** One partner origin: `https://host[:port]` or `https://*.host` — no bare schemes or `*`. */
+const ANCESTOR_RE = /^https:\/\/(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+(:\d{1,5})?$/i;
+
+/**
+ * `frame-ancestors` for the embed routes: the partner origins listed in
+ * SCORECARD_EMBED_ANCESTORS (space-separated, e.g. `https://partner.de
+ * https://*.blog.de`). Broader sources are ignored; with no partner listed only
+ * this site may frame the embeds.
+ */
+export function embedFrameAncestors(): string {
+  const partners = (process.env.SCORECARD_EMBED_ANCESTORS ?? "")
+    .split(/\s+/)
+    .filter((source) => ANCESTOR_RE.test(source));
+  return partners.length > 0 ? partners.join(" ") : "'self'";
+}
+
+/** Client side: tell the host page about `event` (no-op outside an iframe). */
+export function postToHost(slug: string, event: EmbedEvent): void {
+  if (typeof window === "undefined" || window.parent === window) return;
+  const message: EmbedMessage = { ...event, source: EMBED_MESSAGE_SOURCE, slug };
+  // The host origin is unknown (any partner) and the payload is not sensitive.
+  window.parent.postMessage(message, "*");
+}
@@ -0,0 +1,52 @@
+import {
+  applyVariant,
+  experimentCookieName,
+  findVariant,
+  pickVariant,
+  variantCookie,
+  variantFromCookie,
+  type ScorecardExperiment,
+} from "./experiments";
+import { SAMPLE_REGISTRATION } from "./__fixtures__/sample-registration";
+
+const experiment: ScorecardExperiment = {
+  id: "optin-copy",
+  variants: [
+    { id: "control" },
+    { id: "kurz", weight: 3, content: { intro: { heading: "Kurz" }, resultHeading: "Ergebnis" } },
+  ],
+};
+
+describe("experiments", () => {
+  it("picks variants by weight", () => {
+    expect(pickVariant(experiment, () => 0).id).toBe("control");
+    expect(pickVariant(experiment, () => 0.24).id).toBe("control");
+    expect(pickVariant(experiment, () => 0.25).id).toBe("kurz");
+    expect(pickVariant(experiment, () => 0.999).id).toBe("kurz");
+  });
+
+  it("round-trips the sticky cookie, only for the same experiment", () => {
+    const cookie = variantCookie("sample", experiment, experiment.variants[1]!);
+    expect(cookie).toMatch(/^sc_exp_sample=optin-copy\.kurz; Max-Age=\d+; Path=\/; SameSite=Lax$/);
+    expect(experimentCookieName("sample")).toBe("sc_exp_sample");
+    expect(variantFromCookie(experiment, "optin-copy.kurz")?.id).toBe("kurz");
+    expect(variantFromCookie(experiment, "old-test.kurz")).toBeUndefined();
+    expect(variantFromCookie(experiment, undefined)).toBeUndefined();
+  });
+
+  it("overrides content per block and leaves the rest", () => {
+    const { content } = SAMPLE_REGISTRATION;
+    const shown = applyVariant(content, experiment.variants[1]);
+    expect(shown.intro).toEqual({ ...content.intro, heading: "Kurz" });
+    expect(shown.resultHeading).toBe("Ergebnis");
+    expect(shown.optin).toEqual(content.optin);
+    expect(applyVariant(content, experiment.variants[0])).toBe(content);
+  });
+
+  it("accepts only variant ids of the running experiment", () => {
+    expect(findVariant(experiment, "kurz")?.id).toBe("kurz");
+    expect(findVariant(experiment, "alt")).toBeUndefined();
+    expect(findVariant(experiment, 1)).toBeUndefined();
+    expect(findVariant(undefined, "kurz")).toBeUndefined();
+  });
+});
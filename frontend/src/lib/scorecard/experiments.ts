@@ -0,0 +1,91 @@
+/**
+ * A/B experiments on scorecard copy — a registration may run ONE experiment
+ * whose variants override parts of its content (intro, opt-in, result heading).
+ *
+ * Assignment is sticky per browser: the page picks a variant once (weighted
+ * random) and the client stores it in a first-party cookie, so the same
+ * visitor keeps seeing the same copy. The cookie is not technically necessary
+ * (§25 TDDDG), so the app only sets it after the visitor agreed in the intro;
+ * without it each page view draws again. The variant travels with the submit
+ * and the step pings, so /admin/funnels can compare conversion per variant.
+ */
+
+import type { ScorecardContent } from "./content";
+
+/** The parts of ScorecardContent a variant may override (shallow per block). */
+export interface ContentOverride {
+  intro?: Partial<ScorecardContent["intro"]>;
+  optin?: Partial<ScorecardContent["optin"]>;
+  resultHeading?: string;
+}
+
+export interface ExperimentVariant {
+  /** Stable id — stored on submissions. The first variant is the control. */
+  id: string;
+  /** Relative share of traffic (default 1). */
+  weight?: number;
+  content?: ContentOverride;
+}
+
+export interface ScorecardExperiment {
+  /** Stable id; a new id re-assigns every visitor. */
+  id: string;
+  variants: ExperimentVariant[];
+}
+
+/** 90 days — long enough for a lead to come back, short enough to expire with the test. */
+export const EXPERIMENT_COOKIE_MAX_AGE = 90 * 24 * 60 * 60;
+
+export function experimentCookieName(slug: string): string {
+  return `sc_exp_${slug}`;
+}
+
+function cookieValue(experiment: ScorecardExperiment, variant: ExperimentVariant): string {
+  return `${experiment.id}.${variant.id}`;
+}
+
+/** The variant a stored cookie value points to — only while it is the same experiment. */
+export function variantFromCookie(
+  experiment: ScorecardExperiment,
+  value: string | undefined,
+): ExperimentVariant | undefined {
+  return experiment.variants.find((v) => cookieValue(experiment, v) === value);
+}
+
+/** Weighted random pick; `random` in [0, 1) is injectable for tests. */
+export function pickVariant(experiment: ScorecardExperiment, random: () => number = Math.random): ExperimentVariant {
+  const total = experiment.variants.reduce((sum, v) => sum + (v.weight ?? 1), 0);
+  let roll = random() * total;
+  for (const variant of experiment.variants) {
+    roll -= variant.weight ?? 1;
+    if (roll < 0) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1]!;
+}
+
+/** The `document.cookie` assignment that makes a variant sticky. */
+export function variantCookie(slug: string, experiment: ScorecardExperiment, variant: ExperimentVariant): string {
+  const value = cookieValue(experiment, variant);
+  return `${experimentCookieName(slug)}=${value}; Max-Age=${EXPERIMENT_COOKIE_MAX_AGE}; Path=/; SameSite=Lax`;
+}
+
+/** `content` with the variant's overrides applied. */
+export function applyVariant(content: ScorecardContent, variant: ExperimentVariant | undefined): ScorecardContent {
+  const o = variant?.content;
+  if (!o) return content;
+  return {
+    ...content,
+    intro: { ...content.intro, ...o.intro },
+    optin: { ...content.optin, ...o.optin },
+    resultHeading: o.resultHeading ?? content.resultHeading,
+  };
+}
+
+/** A client-sent variant id, if it belongs to the scorecard's running experiment. */
+export function findVariant(
+  experiment: ScorecardExperiment | undefined,
+  variantId: unknown,
+): ExperimentVariant | undefined {
+  if (!experiment || typeof variantId !== "string") return undefined;
+  return experiment.variants.find((v) => v.id === variantId);
+}
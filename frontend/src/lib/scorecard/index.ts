@@ -1,6 +1,7 @@
 export * from "./types";
 export { computeRawSum, normalizeScore, computeCategoryScores } from "./scoring";
-export { resolveOutcome, type OutcomeContext } from "./outcome";
+export { resolveOutcome, validateOutcomeConfig, type OutcomeContext } from "./outcome";
 export { isQualified } from "./qualification";
+export { visibleQuestions, expectedQuestions, visibleAnswers, shownDefinition } from "./visibility";
 export { computeNextLever } from "./next-lever";
 export { buildResult } from "./result";
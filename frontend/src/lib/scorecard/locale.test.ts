@@ -0,0 +1,77 @@
+import {
+  isLocale,
+  localizedRegistration,
+  resolveLocale,
+  supportedLocales,
+  validateTranslations,
+} from "./locale";
+import { SAMPLE_REGISTRATION } from "./__fixtures__/sample-registration";
+import { SAMPLE_TRANSLATION_EN } from "./__fixtures__/sample-translation-en";
+
+const reg = { ...SAMPLE_REGISTRATION, translations: { en: SAMPLE_TRANSLATION_EN } };
+
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+}
+
+describe("scorecard locales", () => {
+  it("lists German plus the translated locales", () => {
+    expect(supportedLocales(SAMPLE_REGISTRATION)).toEqual(["de"]);
+    expect(supportedLocales(reg)).toEqual(["de", "en"]);
+    expect(isLocale("en")).toBe(true);
+    expect(isLocale("fr")).toBe(false);
+  });
+
+  it("resolves unsupported or missing locales to German", () => {
+    expect(resolveLocale(reg, "en")).toBe("en");
+    expect(resolveLocale(SAMPLE_REGISTRATION, "en")).toBe("de");
+    expect(resolveLocale(reg, "fr")).toBe("de");
+    expect(resolveLocale(reg, undefined)).toBe("de");
+  });
+
+  it("swaps prompts, labels, content and subjects but keeps ids and scoring", () => {
+    const en = localizedRegistration(reg, "en");
+    expect(en.definition.questions[2]).toEqual({
+      ...reg.definition.questions[2],
+      prompt: "Own use?",
+      options: reg.definition.questions[2]!.options.map((o) => ({
+        ...o,
+        label: SAMPLE_TRANSLATION_EN.questions.S1!.options[o.id],
+      })),
+    });
+    expect(en.definition.outcome).toBe(reg.definition.outcome);
+    expect(en.content.outcomeLabel.vorbild).toBe("Role model");
+    expect(en.doiSubject).toBe("Confirm your sign-up");
+    expect(en.meta.title).toBe("Sample Check");
+    expect(en.branding).toBe(reg.branding);
+  });
+
+  it("returns the registration itself for German and untranslated locales", () => {
+    expect(localizedRegistration(reg, "de")).toBe(reg);
+    expect(localizedRegistration(SAMPLE_REGISTRATION, "en")).toBe(SAMPLE_REGISTRATION);
+  });
+
+  it("drops the experiment, which runs on the German copy", () => {
+    const experiment = { id: "x", variants: [{ id: "a" }, { id: "b" }] };
+    expect(localizedRegistration({ ...reg, experiment }, "en").experiment).toBeUndefined();
+  });
+
+  it("accepts a complete translation", () => {
+    expect(() => validateTranslations(reg)).not.toThrow();
+  });
+
+  it("names every missing question, option and content block", () => {
+    const questions = without(SAMPLE_TRANSLATION_EN.questions, "S2");
+    const byOutcome = without(SAMPLE_TRANSLATION_EN.content.byOutcome, "vorbild");
+    const partial = {
+      ...SAMPLE_TRANSLATION_EN,
+      questions: { ...questions, K1: { prompt: "Role?", options: { gf: "CEO" } }, X9: { prompt: "?", options: {} } },
+      content: { ...SAMPLE_TRANSLATION_EN.content, byOutcome, freeTool: undefined, sources: [] },
+    };
+    expect(() => validateTranslations({ ...reg, translations: { en: partial } })).toThrow(
+      "Missing translations for sample: en: questions.K1.team, en: questions.S2, en: questions.S2.active, " +
+        "en: questions.S2.some, en: questions.S2.no, en: questions.X9: unknown question, " +
+        "en: byOutcome.vorbild, en: freeTool, en: sources.s1",
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Scorecard locales — a registration is authored in German (DEFAULT_LOCALE)
+ * and may carry complete translations. The app, the DOI / delivery mails and
+ * the report all work on `localizedRegistration(reg, locale)`, so nothing
+ * downstream needs to know about languages; the lead's locale is stored on the
+ * submission.
+ *
+ * A translation must be complete: every question, option, outcome and content
+ * block of the German original. `validateTranslations` enforces that at
+ * registry build, so a half-translated scorecard fails at startup.
+ */
+
+import type { ScorecardRegistration } from "./registry";
+import type { ScorecardContent } from "./content";
+
+export const LOCALES = ["de", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "de";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/** Everything language-bound of a registration, in one other language. */
+export interface ScorecardTranslation {
+  meta: { title: string; description: string };
+  doiSubject: string;
+  deliverySubject: string;
+  content: ScorecardContent;
+  /** Question id → translated prompt and option labels (option id → label). */
+  questions: Record<string, { prompt: string; options: Record<string, string> }>;
+}
+
+/** The locales a registration can be shown in, German first. */
+export function supportedLocales(reg: ScorecardRegistration): Locale[] {
+  return LOCALES.filter((l) => l === DEFAULT_LOCALE || reg.translations?.[l]);
+}
+
+/** A client- or DB-supplied locale if the registration supports it, else German. */
+export function resolveLocale(reg: ScorecardRegistration, value: unknown): Locale {
+  return isLocale(value) && supportedLocales(reg).includes(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * The registration in `locale`: translated prompts, labels, content, meta and
+ * subjects; scoring is untouched (same ids). German or a missing translation
+ * yields `reg` itself. Experiments run on the German copy only.
+ */
+export function localizedRegistration(reg: ScorecardRegistration, locale: Locale): ScorecardRegistration {
+  const t = locale === DEFAULT_LOCALE ? undefined : reg.translations?.[locale];
+  if (!t) return reg;
+  const questions = reg.definition.questions.map((q) => {
+    const qt = t.questions[q.id];
+    if (!qt) return q;
+    return { ...q, prompt: qt.prompt, options: q.options.map((o) => ({ ...o, label: qt.options[o.id] ?? o.label })) };
+  });
+  return {
+    ...reg,
+    definition: { ...reg.definition, questions },
+    meta: t.meta,
+    doiSubject: t.doiSubject,
+    deliverySubject: t.deliverySubject,
+    content: t.content,
+    experiment: undefined,
+  };
+}
+
+/** Keys of `base` that `translated` lacks or leaves empty. */
+function missing(base: object | undefined, translated: object | undefined, at: string): string[] {
+  const have = (translated ?? {}) as Record<string, unknown>;
+  return Object.keys(base ?? {}).flatMap((k) => (have[k] ? [] : [`${at}.${k}`]));
+}
+
+/** Everything the German original has that `t` lacks (or no longer matches). */
+function translationProblems(reg: ScorecardRegistration, t: ScorecardTranslation): string[] {
+  const problems: string[] = [];
+  for (const q of reg.definition.questions) {
+    const qt = t.questions[q.id];
+    if (!qt?.prompt) problems.push(`questions.${q.id}`);
+    for (const o of q.options) if (!qt?.options[o.id]) problems.push(`questions.${q.id}.${o.id}`);
+  }
+  const ids = new Set(reg.definition.questions.map((q) => q.id));
+  for (const id of Object.keys(t.questions)) if (!ids.has(id)) problems.push(`questions.${id}: unknown question`);
+
+  const base = reg.content;
+  const c = t.content;
+  problems.push(
+    ...missing(base.outcomeLabel, c.outcomeLabel, "outcomeLabel"),
+    ...missing(base.byOutcome, c.byOutcome, "byOutcome"),
+    ...missing(base.scoreParagraph, c.scoreParagraph, "scoreParagraph"),
+    ...missing(base.personalisierung?.byAnswer, c.personalisierung?.byAnswer, "personalisierung.byAnswer"),
+  );
+  if (base.freeTool && !c.freeTool) problems.push("freeTool");
+  if (base.video && !c.video) problems.push("video");
+  if (base.optin.datenschutzHinweis && !c.optin.datenschutzHinweis) problems.push("optin.datenschutzHinweis");
+  const sourceIds = new Set(c.sources.map((s) => s.id));
+  for (const s of base.sources) if (!sourceIds.has(s.id)) problems.push(`sources.${s.id}`);
+  const categories = (content: ScorecardContent) => (content.tipps ?? []).map((h) => h.category ?? "-").join(",");
+  if (categories(base) !== categories(c)) problems.push("tipps: levers differ from the original");
+  return problems;
+}
+
+/** Throws when a translation misses anything of the German original. */
+export function validateTranslations(reg: ScorecardRegistration): void {
+  const problems = LOCALES.flatMap((locale) => {
+    const t = locale === DEFAULT_LOCALE ? undefined : reg.translations?.[locale];
+    return t ? translationProblems(reg, t).map((p) => `${locale}: ${p}`) : [];
+  });
+  if (problems.length > 0) {
+    throw new Error(`Missing translations for ${reg.definition.slug}: ${problems.join(", ")}`);
+  }
+}
@@ -1,5 +1,6 @@
-import { resolveOutcome } from "./outcome";
-import type { OutcomeConfig } from "./types";
+import { resolveOutcome, validateOutcomeConfig } from "./outcome";
+import { SAMPLE_DEFINITION } from "./__fixtures__/sample-definition";
+import type { OutcomeConfig, ScorecardDefinition } from "./types";
 
 const BANDS: OutcomeConfig = {
   type: "bands",
@@ -67,3 +68,120 @@ describe("resolveOutcome — argmax", () => {
     expect(() => resolveOutcome(bad, { score: 0, categoryScores: { nutzung: 3 } })).toThrow(/outcome/i);
   });
 });
+
+describe("resolveOutcome — rules", () => {
+  const RULES: OutcomeConfig = {
+    type: "rules",
+    rules: [
+      { when: [{ answer: "K1", in: ["team"] }, { category: "nutzung", op: "<", value: 2 }], outcome: "starter" },
+      { when: [{ any: [{ score: ">=", value: 80 }, { category: "sichtbarkeit", op: "==", value: 3 }] }], outcome: "vorbild" },
+      { when: [{ not: { answer: "TOOLS", in: ["chatgpt", "copilot"] } }], outcome: "ohne-tools" },
+    ],
+    default: "mitmacher",
+  };
+  const ctx = (answers: Record<string, string | string[]>, categoryScores = { nutzung: 1, sichtbarkeit: 0 }, score = 20) => ({
+    score,
+    categoryScores,
+    answers: { TOOLS: ["chatgpt"], ...answers },
+  });
+
+  it("matches when every condition of a rule holds (AND)", () => {
+    expect(resolveOutcome(RULES, ctx({ K1: "team" }))).toBe("starter");
+  });
+
+  it("skips a rule when one of its conditions fails", () => {
+    expect(resolveOutcome(RULES, ctx({ K1: "team" }, { nutzung: 2, sichtbarkeit: 0 }))).toBe("mitmacher");
+  });
+
+  it("first match wins", () => {
+    expect(resolveOutcome(RULES, ctx({ K1: "team" }, { nutzung: 0, sichtbarkeit: 3 }, 90))).toBe("starter");
+  });
+
+  it("any / not combinators", () => {
+    expect(resolveOutcome(RULES, ctx({ K1: "gf" }, { nutzung: 3, sichtbarkeit: 3 }))).toBe("vorbild");
+    expect(resolveOutcome(RULES, ctx({ K1: "gf" }, undefined, 85))).toBe("vorbild");
+    expect(resolveOutcome(RULES, ctx({ K1: "gf", TOOLS: ["keine"] }))).toBe("ohne-tools");
+  });
+
+  it("answer conditions match any selected option of a multi-select; unanswered never matches", () => {
+    expect(resolveOutcome(RULES, ctx({ K1: "gf", TOOLS: ["keine", "copilot"] }))).toBe("mitmacher");
+    expect(resolveOutcome(RULES, ctx({}))).toBe("mitmacher");
+  });
+
+  it("falls back to the default when no rule matches", () => {
+    expect(resolveOutcome(RULES, ctx({ K1: "gf" }))).toBe("mitmacher");
+  });
+
+  it("throws when an answer rule is evaluated without answers", () => {
+    expect(() => resolveOutcome(RULES, { score: 0, categoryScores: { nutzung: 0, sichtbarkeit: 0 } })).toThrow(
+      /answers/i,
+    );
+  });
+
+  it("a category without a score (all its questions hidden) never matches", () => {
+    expect(resolveOutcome(RULES, { score: 0, categoryScores: {}, answers: { K1: "team", TOOLS: ["chatgpt"] } })).toBe(
+      "mitmacher",
+    );
+  });
+});
+
+describe("validateOutcomeConfig", () => {
+  const withOutcome = (outcome: OutcomeConfig): ScorecardDefinition => ({ ...SAMPLE_DEFINITION, outcome });
+
+  it("accepts bands/argmax and a well-formed rules preset", () => {
+    expect(() => validateOutcomeConfig(SAMPLE_DEFINITION)).not.toThrow();
+    expect(() =>
+      validateOutcomeConfig(
+        withOutcome({
+          type: "rules",
+          rules: [
+            { when: [{ answer: "K1", in: ["team"] }, { category: "nutzung", op: "<", value: 2 }], outcome: "a" },
+            { when: [{ not: { any: [{ score: ">", value: 50 }] } }], outcome: "b" },
+          ],
+          default: "c",
+        }),
+      ),
+    ).not.toThrow();
+  });
+
+  it("lists every unknown question, option and category", () => {
+    const def = withOutcome({
+      type: "rules",
+      rules: [
+        {
+          when: [
+            { answer: "NOPE", in: ["x"] },
+            { all: [{ answer: "K1", in: ["gf", "ceo"] }] },
+            { category: "budget", op: ">=", value: 1 },
+          ],
+          outcome: "a",
+        },
+      ],
+      default: "b",
+    });
+    expect(() => validateOutcomeConfig(def)).toThrow(
+      "Invalid rules outcome for sample: rules.0.when.0: unknown question NOPE; " +
+        "rules.0.when.1.0: unknown option K1=ceo; rules.0.when.2: unknown category budget",
+    );
+  });
+
+  it("rejects empty rules, conditions, combinators and a missing default", () => {
+    expect(() => validateOutcomeConfig(withOutcome({ type: "rules", rules: [], default: "" }))).toThrow(
+      /no rules; no default outcome/,
+    );
+    expect(() =>
+      validateOutcomeConfig(
+        withOutcome({ type: "rules", rules: [{ when: [], outcome: "a" }, { when: [{ any: [] }], outcome: "" }], default: "b" }),
+      ),
+    ).toThrow(/rules\.0: no conditions; rules\.1: no outcome; rules\.1\.when\.0: empty any/);
+  });
+
+  it("rejects an unknown operator and a non-numeric value", () => {
+    const def = withOutcome({
+      type: "rules",
+      rules: [{ when: [{ score: "=>" as never, value: Number.NaN }], outcome: "a" }],
+      default: "b",
+    });
+    expect(() => validateOutcomeConfig(def)).toThrow(/unknown operator =>; .*value must be a number/);
+  });
+});
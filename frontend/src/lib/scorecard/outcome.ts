@@ -1,13 +1,17 @@
 /**
- * Generic outcome resolution — pluggable presets (bands | argmax).
- * Fail-fast on misconfiguration (CLAUDE.md §3): a missing band/mapping throws.
+ * Generic outcome resolution — pluggable presets (bands | argmax | rules).
+ * Fail-fast on misconfiguration (CLAUDE.md §3): a missing band/mapping throws,
+ * and `validateOutcomeConfig` rejects broken rules when the registry is built.
  */
 
-import type { OutcomeConfig } from "./types";
+import type { Answers, OutcomeConfig, ScorecardDefinition } from "./types";
+import { conditionErrors, conditionHolds } from "./conditions";
 
 export interface OutcomeContext {
   score: number;
   categoryScores: Record<string, number>;
+  /** Required by `rules` presets that test answers. */
+  answers?: Answers;
 }
 
 export function resolveOutcome(config: OutcomeConfig, ctx: OutcomeContext): string {
@@ -17,6 +21,11 @@ export function resolveOutcome(config: OutcomeConfig, ctx: OutcomeContext): stri
     return band.key;
   }
 
+  if (config.type === "rules") {
+    const rule = config.rules.find((r) => r.when.every((c) => conditionHolds(c, ctx)));
+    return rule ? rule.outcome : config.default;
+  }
+
   // argmax
   const entries = Object.entries(ctx.categoryScores);
   if (entries.length === 0) throw new Error("argmax outcome needs category scores");
@@ -33,3 +42,24 @@ export function resolveOutcome(config: OutcomeConfig, ctx: OutcomeContext): stri
   if (!key) throw new Error(`No outcome mapped for category ${winner[0]}`);
   return key;
 }
+
+/**
+ * Static check of a `rules` preset against its definition: every referenced
+ * question, option and category exists, no rule or combinator is empty and a
+ * default is set. Throws listing all problems; bands/argmax pass unchecked.
+ */
+export function validateOutcomeConfig(def: ScorecardDefinition): void {
+  const { outcome } = def;
+  if (outcome.type !== "rules") return;
+  const errors: string[] = [];
+  if (outcome.rules.length === 0) errors.push("no rules");
+  if (!outcome.default) errors.push("no default outcome");
+  outcome.rules.forEach((rule, i) => {
+    if (!rule.outcome) errors.push(`rules.${i}: no outcome`);
+    if (rule.when.length === 0) errors.push(`rules.${i}: no conditions`);
+    rule.when.forEach((c, j) => errors.push(...conditionErrors(c, def.questions, `rules.${i}.when.${j}`)));
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid rules outcome for ${def.slug}: ${errors.join("; ")}`);
+  }
+}
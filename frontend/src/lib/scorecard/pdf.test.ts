@@ -0,0 +1,98 @@
+/**
+ * Report PDF rendering — Chromium is mocked; what matters is which page it
+ * loads, how it prints, that it always closes and that renders never overlap.
+ * @jest-environment node
+ */
+
+const mockGoto = jest.fn();
+const mockPdf = jest.fn();
+const mockClose = jest.fn();
+const mockLaunch = jest.fn();
+jest.mock("puppeteer-core", () => ({
+  __esModule: true,
+  default: { launch: (...a: unknown[]) => mockLaunch(...a) },
+}));
+
+import { PdfNotConfiguredError, renderScorecardReportPdf, renderBaseUrl, reportPdfFilename } from "./pdf";
+
+const ENV = { ...process.env };
+
+function ok() {
+  return { ok: () => true, status: () => 200 };
+}
+
+beforeEach(() => {
+  process.env = { ...ENV, CHROMIUM_PATH: "/usr/bin/chromium-browser", PORT: "8087" };
+  delete process.env.PDF_RENDER_BASE_URL;
+  mockGoto.mockReset().mockResolvedValue(ok());
+  mockPdf.mockReset().mockResolvedValue(new Uint8Array([0x25, 0x50, 0x44, 0x46]));
+  mockClose.mockReset().mockResolvedValue(undefined);
+  mockLaunch.mockReset().mockImplementation(async () => ({
+    newPage: async () => ({ goto: mockGoto, pdf: mockPdf }),
+    close: mockClose,
+  }));
+});
+
+afterAll(() => {
+  process.env = ENV;
+});
+
+describe("renderScorecardReportPdf", () => {
+  it("rejects without touching Chromium when CHROMIUM_PATH is unset", async () => {
+    delete process.env.CHROMIUM_PATH;
+    await expect(renderScorecardReportPdf("ki-check", "rep_abc")).rejects.toBeInstanceOf(PdfNotConfiguredError);
+    expect(mockLaunch).not.toHaveBeenCalled();
+  });
+
+  it("prints the gated report page over loopback as A4 with backgrounds", async () => {
+    const pdf = await renderScorecardReportPdf("ki-check", "rep/abc");
+    expect(mockLaunch).toHaveBeenCalledWith(expect.objectContaining({ executablePath: "/usr/bin/chromium-browser" }));
+    expect(mockGoto).toHaveBeenCalledWith(
+      "http://127.0.0.1:8087/ki-check/report?token=rep%2Fabc",
+      expect.objectContaining({ waitUntil: "networkidle0" }),
+    );
+    expect(mockPdf).toHaveBeenCalledWith(expect.objectContaining({ format: "A4", printBackground: true }));
+    expect(pdf.toString()).toBe("%PDF");
+    expect(mockClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws on a non-2xx report page and still closes the browser", async () => {
+    mockGoto.mockResolvedValueOnce({ ok: () => false, status: () => 404 });
+    await expect(renderScorecardReportPdf("ki-check", "stale")).rejects.toThrow("Report page answered 404");
+    expect(mockPdf).not.toHaveBeenCalled();
+    expect(mockClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs one Chromium at a time, even after a failed render", async () => {
+    let running = 0;
+    let peak = 0;
+    mockGoto.mockImplementation(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((r) => setTimeout(r, 5));
+      running--;
+      return ok();
+    });
+    mockPdf.mockRejectedValueOnce(new Error("crash"));
+    const results = await Promise.allSettled([
+      renderScorecardReportPdf("a", "t1"),
+      renderScorecardReportPdf("b", "t2"),
+      renderScorecardReportPdf("c", "t3"),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "fulfilled", "fulfilled"]);
+    expect(peak).toBe(1);
+    expect(mockClose).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("helpers", () => {
+  it("PDF_RENDER_BASE_URL overrides the loopback default (trailing slash trimmed)", () => {
+    expect(renderBaseUrl()).toBe("http://127.0.0.1:8087");
+    process.env.PDF_RENDER_BASE_URL = "http://frontend:3000/";
+    expect(renderBaseUrl()).toBe("http://frontend:3000");
+  });
+
+  it("names the download after the scorecard", () => {
+    expect(reportPdfFilename("dsgvo-check")).toBe("dsgvo-check-report.pdf");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Server-side PDF of a gated scorecard report.
+ *
+ * Headless Chromium opens the report page itself and prints it with the print
+ * stylesheet — so the generic ScorecardReportDoc and every custom ReportDoc come
+ * out exactly like "Als PDF speichern" in the browser, without a second layout
+ * to keep in sync. Chromium ships in the Docker image (CHROMIUM_PATH); without
+ * it the PDF route answers 503 and delivery mails go out without attachment.
+ */
+
+import puppeteer from "puppeteer-core";
+
+export class PdfNotConfiguredError extends Error {
+  constructor() {
+    super("CHROMIUM_PATH is not configured");
+    this.name = "PdfNotConfiguredError";
+  }
+}
+
+const RENDER_TIMEOUT_MS = 20_000;
+
+export function isPdfConfigured(): boolean {
+  return Boolean(process.env.CHROMIUM_PATH);
+}
+
+/** Where Chromium reaches this app — loopback by default, so renders never leave the container. */
+export function renderBaseUrl(): string {
+  return (process.env.PDF_RENDER_BASE_URL ?? `http://127.0.0.1:${process.env.PORT ?? 8087}`).replace(/\/$/, "");
+}
+
+export function reportPdfFilename(slug: string): string {
+  return `${slug}-report.pdf`;
+}
+
+// One Chromium at a time: a render costs a few hundred MB, and the small VPS
+// must not fall over when several leads confirm at once.
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Renders `/<slug>/report?token=` to an A4 PDF. The report page does all the
+ * gating (token, slug, definition version, locale); a non-2xx answer throws.
+ */
+export function renderScorecardReportPdf(slug: string, reportToken: string): Promise<Buffer> {
+  if (!isPdfConfigured()) return Promise.reject(new PdfNotConfiguredError());
+  const url = `${renderBaseUrl()}/${encodeURIComponent(slug)}/report?token=${encodeURIComponent(reportToken)}`;
+
+  return serialized(async () => {
+    const browser = await puppeteer.launch({
+      executablePath: process.env.CHROMIUM_PATH,
+      headless: true,
+      // The container runs as non-root without user namespaces; Chromium's own
+      // sandbox cannot start there. It only ever loads our own report page.
+      args: ["--no-sandbox", "--disable-dev-shm-usage", "--font-render-hinting=none"],
+    });
+    try {
+      const page = await browser.newPage();
+      const response = await page.goto(url, { waitUntil: "networkidle0", timeout: RENDER_TIMEOUT_MS });
+      if (!response?.ok()) {
+        throw new Error(`Report page answered ${response?.status() ?? "nothing"}`);
+      }
+      const pdf = await page.pdf({
+        format: "A4",
+        printBackground: true,
+        // Browser print dialogs add margins; page.pdf() defaults to none.
+        margin: { top: "14mm", right: "14mm", bottom: "14mm", left: "14mm" },
+        timeout: RENDER_TIMEOUT_MS,
+      });
+      return Buffer.from(pdf);
+    } finally {
+      await browser.close();
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import { diffResults, formatRecompute, recompute, type StoredSubmission } from "./recompute";
+import { SAMPLE_REGISTRATION } from "./__fixtures__/sample-registration";
+import { buildResult } from "./result";
+
+const reg = SAMPLE_REGISTRATION;
+const answers = { K1: "gf", K2: "mid", S1: "daily", S2: "no" };
+const current = buildResult(reg.definition, answers);
+
+function row(id: string, patch: Partial<StoredSubmission> = {}): StoredSubmission {
+  return { id, definitionVersion: 1, answers, result: current, createdAt: new Date("2026-07-01T10:00:00Z"), ...patch };
+}
+
+describe("diffResults", () => {
+  it("is empty for equal results", () => {
+    expect(diffResults(current, { ...current, categoryScores: { ...current.categoryScores } })).toEqual([]);
+  });
+
+  it("lists every changed field", () => {
+    expect(diffResults(current, { ...current, score: 80, outcome: "vorbild", nextLever: undefined })).toEqual([
+      { field: "outcome", before: "verwalter", after: "vorbild" },
+      { field: "score", before: 50, after: 80 },
+      { field: "nextLever", before: "sichtbarkeit", after: undefined },
+    ]);
+  });
+});
+
+describe("recompute", () => {
+  // Stored under an older definition: S1 used to be worth less (rawSum 2 → 33 → verwalter).
+  const old = row("old", {
+    definitionVersion: 0,
+    result: { ...current, rawSum: 2, score: 33, categoryScores: { nutzung: 2, sichtbarkeit: 0 } },
+  });
+
+  it("re-scores every row under the current version and keeps only the changed ones", () => {
+    const summary = recompute(reg, [row("same"), old]);
+    expect(summary).toMatchObject({ slug: "sample", toVersion: 1, total: 2 });
+    expect(summary.changed).toEqual([
+      {
+        id: "old",
+        createdAt: old.createdAt,
+        fromVersion: 0,
+        changes: [
+          { field: "score", before: 33, after: 50 },
+          { field: "rawSum", before: 2, after: 3 },
+          { field: "categoryScores", before: { nutzung: 2, sichtbarkeit: 0 }, after: { nutzung: 3, sichtbarkeit: 0 } },
+        ],
+      },
+    ]);
+  });
+
+  it("can restrict the run to one stored version", () => {
+    expect(recompute(reg, [row("same"), old], 1)).toMatchObject({ total: 1, changed: [] });
+  });
+
+  it("formats a readable report", () => {
+    expect(formatRecompute(recompute(reg, [row("same"), old]))).toBe(
+      [
+        "sample: 2 submissions re-scored under v1, 1 would change",
+        "",
+        "old (v0, 2026-07-01)",
+        "    score: 33 → 50",
+        "    rawSum: 2 → 3",
+        "    categoryScores: nutzung=2, sichtbarkeit=0 → nutzung=3, sichtbarkeit=0",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Recompute — re-scores stored submissions under the current definition and
+ * reports what would change. Read-only: stored results keep the version they
+ * were scored against (`definition_version`); this only shows the diff.
+ * Driven by `npm run scorecards:recompute -- <slug>`.
+ */
+
+import type { Answers, ScorecardResult } from "./types";
+import type { ScorecardRegistration } from "./registry";
+import { resolveResult } from "./result";
+
+export interface StoredSubmission {
+  id: string;
+  definitionVersion: number;
+  answers: Answers;
+  result: ScorecardResult;
+  createdAt: Date;
+}
+
+export interface ResultChange {
+  field: keyof ScorecardResult;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RecomputeEntry {
+  id: string;
+  createdAt: Date;
+  fromVersion: number;
+  changes: ResultChange[];
+}
+
+export interface RecomputeSummary {
+  slug: string;
+  toVersion: number;
+  total: number;
+  /** Submissions whose result would change — unchanged ones are only counted. */
+  changed: RecomputeEntry[];
+}
+
+const FIELDS: (keyof ScorecardResult)[] = ["outcome", "score", "rawSum", "nextLever", "qualified", "categoryScores"];
+
+/** Field-by-field differences between a stored and a recomputed result. */
+export function diffResults(before: ScorecardResult, after: ScorecardResult): ResultChange[] {
+  return FIELDS.flatMap((field) =>
+    JSON.stringify(before[field]) === JSON.stringify(after[field])
+      ? []
+      : [{ field, before: before[field], after: after[field] }],
+  );
+}
+
+/** Re-score `rows` with the current registration (optionally only rows of one stored version). */
+export function recompute(
+  reg: ScorecardRegistration,
+  rows: StoredSubmission[],
+  onlyVersion?: number,
+): RecomputeSummary {
+  const selected = onlyVersion === undefined ? rows : rows.filter((r) => r.definitionVersion === onlyVersion);
+  const changed = selected.flatMap((row) => {
+    const changes = diffResults(row.result, resolveResult(reg, row.answers));
+    return changes.length === 0
+      ? []
+      : [{ id: row.id, createdAt: row.createdAt, fromVersion: row.definitionVersion, changes }];
+  });
+  return { slug: reg.definition.slug, toVersion: reg.definition.version, total: selected.length, changed };
+}
+
+function show(value: unknown): string {
+  if (value === undefined) return "—";
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .map(([k, v]) => `${k}=${v}`)
+      .join(", ");
+  }
+  return String(value);
+}
+
+/** Human-readable diff report. */
+export function formatRecompute(summary: RecomputeSummary): string {
+  const lines = [
+    `${summary.slug}: ${summary.total} submissions re-scored under v${summary.toVersion}, ` +
+      `${summary.changed.length} would change`,
+  ];
+  for (const entry of summary.changed) {
+    lines.push("", `${entry.id} (v${entry.fromVersion}, ${entry.createdAt.toISOString().slice(0, 10)})`);
+    for (const c of entry.changes) lines.push(`    ${c.field}: ${show(c.before)} → ${show(c.after)}`);
+  }
+  return lines.join("\n");
+}
@@ -1,5 +1,6 @@
-import { buildRegistry, getScorecard } from "./registry";
+import { buildRegistry, getScorecard, registrationAt } from "./registry";
 import { SAMPLE_REGISTRATION } from "./__fixtures__/sample-registration";
+import { SAMPLE_TRANSLATION_EN } from "./__fixtures__/sample-translation-en";
 
 const reg = SAMPLE_REGISTRATION;
 
@@ -13,6 +14,32 @@ describe("buildRegistry", () => {
     const get = buildRegistry([reg]);
     expect(get("nope")).toBeUndefined();
   });
+
+  it("throws at build time on a misconfigured rules outcome", () => {
+    const broken = {
+      ...reg,
+      definition: {
+        ...reg.definition,
+        outcome: { type: "rules" as const, rules: [{ when: [{ answer: "K9", in: ["x"] }], outcome: "a" }], default: "b" },
+      },
+    };
+    expect(() => buildRegistry([broken])).toThrow(/unknown question K9/);
+  });
+
+  it("throws at build time on a showIf that references a later question", () => {
+    const [k1, ...rest] = reg.definition.questions;
+    const broken = {
+      ...reg,
+      definition: { ...reg.definition, questions: [{ ...k1!, showIf: [{ answer: "S2", in: ["no"] }] }, ...rest] },
+    };
+    expect(() => buildRegistry([broken])).toThrow(/K1\.showIf\.0: unknown question S2/);
+  });
+
+  it("throws at build time on an incomplete translation", () => {
+    const questions = Object.fromEntries(Object.entries(SAMPLE_TRANSLATION_EN.questions).filter(([id]) => id !== "K2"));
+    const broken = { ...reg, translations: { en: { ...SAMPLE_TRANSLATION_EN, questions } } };
+    expect(() => buildRegistry([broken])).toThrow(/Missing translations for sample: en: questions\.K2/);
+  });
 });
 
 test("dsgvo-check is registered with resolve + custom views + tags", () => {
@@ -23,3 +50,29 @@ test("dsgvo-check is registered with resolve + custom views + tags", () => {
   expect(reg!.ReportDoc).toBeDefined();
   expect(typeof reg!.cleverreachTags).toBe("function");
 });
+
+describe("registrationAt", () => {
+  const v1 = { ...reg.definition, version: 0 };
+  const versioned = {
+    ...reg,
+    previousVersions: [{ definition: v1, content: { ...reg.content, resultHeading: "Alt" } }],
+  };
+
+  it("returns the current registration for the current or an unknown version", () => {
+    expect(registrationAt(versioned, 1)).toBe(versioned);
+    expect(registrationAt(versioned, 7)).toBe(versioned);
+  });
+
+  it("swaps in the definition and content of a previous version", () => {
+    const old = registrationAt(versioned, 0);
+    expect(old.definition).toBe(v1);
+    expect(old.content.resultHeading).toBe("Alt");
+    expect(old.branding).toBe(reg.branding);
+  });
+
+  it("keeps the current content when a previous version has none of its own", () => {
+    const old = registrationAt({ ...reg, previousVersions: [{ definition: v1 }] }, 0);
+    expect(old.definition).toBe(v1);
+    expect(old.content).toBe(reg.content);
+  });
+});
@@ -9,12 +9,18 @@ import { REGISTRATIONS } from "@/scorecards";
 import type { Answers, ScorecardDefinition, ScorecardResult } from "./types";
 import type { ScorecardContent } from "./content";
 import type { BrandTokens } from "./branding";
+import type { ScorecardExperiment } from "./experiments";
+import { validateTranslations, type Locale, type ScorecardTranslation } from "./locale";
+import { validateOutcomeConfig } from "./outcome";
+import { validateVisibility } from "./visibility";
 
 /** Props a custom result view receives (free result screen). */
 export interface ScorecardResultViewProps {
   registration: ScorecardRegistration;
   answers: Answers;
   result: ScorecardResult;
+  /** Language of the page; custom views pick their own copy by it. */
+  locale?: Locale;
 }
 
 /** Props a custom gated report-doc receives. Must be SERIALIZABLE — the report
@@ -22,11 +28,24 @@ export interface ScorecardResultViewProps {
 export interface ScorecardReportDocProps {
   result: ScorecardResult;
   answers: Answers;
+  /** The lead's language (stored on the submission). */
+  locale?: Locale;
+}
+
+/**
+ * An earlier definition a stored submission may have been scored against.
+ * `content` is only needed when the content changed too; omitted = the current.
+ */
+export interface ScorecardVersion {
+  definition: ScorecardDefinition;
+  content?: ScorecardContent;
 }
 
 export interface ScorecardRegistration {
   definition: ScorecardDefinition;
-  /** Transactional email subjects (German). */
+  /** Superseded versions — keeps historical submissions rendering as they were scored. */
+  previousVersions?: ScorecardVersion[];
+  /** Transactional email subjects (German; translations carry their own). */
   doiSubject: string;
   deliverySubject: string;
   /** CleverReach `source` + base tag; defaults to the slug. */
@@ -40,24 +59,55 @@ export interface ScorecardRegistration {
   /** Renderer content + theme (M3). */
   content: ScorecardContent;
   branding: BrandTokens;
-  /** Custom result computation; overrides the generic engine when present. */
-  resolve?: (answers: Answers) => ScorecardResult;
+  /**
+   * Custom result computation; overrides the generic engine when present.
+   * Gets the lead's locale for results that carry copy (the DSGVO tool matrix).
+   */
+  resolve?: (answers: Answers, locale: Locale) => ScorecardResult;
   /** Custom free-result view; replaces the generic report-card slot when present. */
   ResultView?: ComponentType<ScorecardResultViewProps>;
   /** Custom gated report document; replaces ScorecardReportDoc when present. */
   ReportDoc?: ComponentType<ScorecardReportDocProps>;
   /** Extra CleverReach tags derived from the stored result + answers. */
   cleverreachTags?: (result: ScorecardResult, answers: Answers) => string[];
+  /** Extra string fields of the result charted in /admin/funnels (result key → heading). */
+  funnelExtras?: Record<string, string>;
+  /** Running A/B experiment on the content (experiments.ts); results in /admin/funnels. */
+  experiment?: ScorecardExperiment;
+  /** Complete translations of the German original (locale.ts), served at /<locale>/<slug>. */
+  translations?: Partial<Record<Locale, ScorecardTranslation>>;
 }
 
-/** Pure: build a slug→registration lookup. Exported for testing. */
+/**
+ * Pure: build a slug→registration lookup. Exported for testing. Throws on a
+ * misconfigured `rules` outcome or `showIf` and on incomplete translations,
+ * so a broken definition fails at startup.
+ */
 export function buildRegistry(
   regs: ScorecardRegistration[],
 ): (slug: string) => ScorecardRegistration | undefined {
+  for (const r of regs) {
+    for (const def of [r.definition, ...(r.previousVersions ?? []).map((v) => v.definition)]) {
+      validateOutcomeConfig(def);
+      validateVisibility(def);
+    }
+    validateTranslations(r);
+  }
   const bySlug = new Map(regs.map((r) => [r.definition.slug, r]));
   return (slug) => bySlug.get(slug);
 }
 
+/**
+ * The registration as it was at definition `version`: that version's
+ * definition and content, everything else current. The current version (or
+ * an unknown one, e.g. a row from before versioning) yields `reg` itself.
+ */
+export function registrationAt(reg: ScorecardRegistration, version: number): ScorecardRegistration {
+  const previous = reg.previousVersions?.find((v) => v.definition.version === version);
+  if (!previous) return reg;
+  return { ...reg, definition: previous.definition, content: previous.content ?? reg.content };
+}
+
 const lookup = buildRegistry(REGISTRATIONS);
 
 export function getScorecard(slug: string): ScorecardRegistration | undefined {
@@ -39,6 +39,33 @@ describe("buildResult", () => {
     expect(r.nextLever).toBeUndefined();
     expect(r.categoryScores).toBeUndefined();
   });
+
+  it("resolves a rules outcome against the answers and category scores", () => {
+    const rules = {
+      ...SAMPLE_DEFINITION,
+      outcome: {
+        type: "rules" as const,
+        rules: [{ when: [{ answer: "K1", in: ["team"] }, { category: "sichtbarkeit", op: "<" as const, value: 2 }], outcome: "solo" }],
+        default: "passt",
+      },
+    };
+    expect(buildResult(rules, { K1: "team", S1: "daily", S2: "no" }).outcome).toBe("solo");
+    expect(buildResult(rules, { K1: "gf", S1: "daily", S2: "no" }).outcome).toBe("passt");
+  });
+
+  it("ignores hidden questions and normalizes against the questions shown", () => {
+    const branching = {
+      ...SAMPLE_DEFINITION,
+      questions: SAMPLE_DEFINITION.questions.map((q) =>
+        q.id === "S2" ? { ...q, showIf: [{ answer: "K1", in: ["gf"] }] } : q,
+      ),
+    };
+    const r = buildResult(branching, { K1: "team", K2: "mid", S1: "daily", S2: "active" });
+    expect(r.rawSum).toBe(3); // S2 hidden → its "active" (3) does not count
+    expect(r.score).toBe(100); // 3 of the 3 points still attainable
+    expect(r.categoryScores).toEqual({ nutzung: 3 }); // no "sichtbarkeit" lever from a hidden question
+    expect(r.nextLever).toBe("nutzung");
+  });
 });
 
 describe("buildResult invariants (property-based)", () => {
@@ -5,22 +5,37 @@
 
 import type { Answers, ScorecardDefinition, ScorecardResult } from "./types";
 import type { ScorecardRegistration } from "./registry";
+import { DEFAULT_LOCALE, type Locale } from "./locale";
 import { computeCategoryScores, computeRawSum, normalizeScore } from "./scoring";
 import { resolveOutcome } from "./outcome";
 import { computeNextLever } from "./next-lever";
 import { isQualified } from "./qualification";
+import { shownDefinition, visibleAnswers } from "./visibility";
 
-/** Use the scorecard's custom resolver if it has one; otherwise the generic engine. */
-export function resolveResult(reg: ScorecardRegistration, answers: Answers): ScorecardResult {
-  return reg.resolve ? reg.resolve(answers) : buildResult(reg.definition, answers);
+/**
+ * Use the scorecard's custom resolver if it has one; otherwise the generic
+ * engine. Either way, answers to hidden questions (`showIf`) never count.
+ * `locale` only matters to resolvers whose result carries copy.
+ */
+export function resolveResult(
+  reg: ScorecardRegistration,
+  answers: Answers,
+  locale: Locale = DEFAULT_LOCALE,
+): ScorecardResult {
+  return reg.resolve
+    ? reg.resolve(visibleAnswers(reg.definition, answers), locale)
+    : buildResult(reg.definition, answers);
 }
 
-export function buildResult(def: ScorecardDefinition, answers: Answers): ScorecardResult {
+/** Score only the questions that were shown, normalized against their max points. */
+export function buildResult(definition: ScorecardDefinition, allAnswers: Answers): ScorecardResult {
+  const def = shownDefinition(definition, allAnswers);
+  const answers = visibleAnswers(definition, allAnswers);
   const rawSum = computeRawSum(def, answers);
   const score = normalizeScore(rawSum, def.scoring.maxPoints);
   const categoryScores = computeCategoryScores(def, answers);
   const hasCategories = Object.keys(categoryScores).length > 0;
-  const outcome = resolveOutcome(def.outcome, { score, categoryScores });
+  const outcome = resolveOutcome(def.outcome, { score, categoryScores, answers });
   const nextLever =
     def.nextLever && hasCategories ? computeNextLever(def.nextLever, categoryScores) : undefined;
 
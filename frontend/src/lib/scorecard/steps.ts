@@ -0,0 +1,39 @@
+/**
+ * Funnel step pings — the quiz steps that happen before any data leaves the
+ * browser: intro viewed → quiz started → each question reached → result
+ * shown. Submit and DOI confirm are counted from scorecard_submissions; these
+ * are anonymous daily counters (scorecard_step_counts) per scorecard, A/B
+ * variant and question index. Cookieless: the ping carries no visitor id and
+ * no answer, only which step was reached.
+ */
+
+export const SCORECARD_STEPS = ["view", "start", "question", "finish"] as const;
+
+export type ScorecardStep = (typeof SCORECARD_STEPS)[number];
+
+export function isScorecardStep(value: unknown): value is ScorecardStep {
+  return SCORECARD_STEPS.includes(value as ScorecardStep);
+}
+
+/**
+ * Client side: POST the step once per browser session (a reload, "Zurück" or
+ * "Neu starten" must not inflate the counters). `question` is the index into
+ * `definition.questions` for step "question". Fire-and-forget — a lost ping
+ * never blocks the quiz.
+ */
+export function pingStep(slug: string, step: ScorecardStep, opts: { question?: number; variant?: string } = {}): void {
+  const { question, variant } = opts;
+  const key = `scorecard:${slug}:step:${step}${question === undefined ? "" : `:${question}`}`;
+  try {
+    if (sessionStorage.getItem(key)) return;
+    sessionStorage.setItem(key, "1");
+  } catch {
+    /* storage unavailable — still count */
+  }
+  fetch(`/api/scorecard/${slug}/step`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ step, ...(question === undefined ? {} : { question }), ...(variant ? { variant } : {}) }),
+    keepalive: true,
+  }).catch(() => undefined);
+}
@@ -1,8 +1,7 @@
 /**
  * Generic scorecard → trackmysales conversion client. Reports a confirmed lead
  * so trackmysales attributes it (final-touch) to the originating click/video.
- * A deliberate generalization of the Engpass `trackmysales.ts`: base URL +
- * secret are shared env (one trackmysales account), but the ConversionLink
+ * Base URL + secret are shared env (one trackmysales account), but the ConversionLink
  * `code` is PER scorecard (passed in — defaults to the slug), so each lead
  * magnet tracks its own conversions. Server-to-server; the caller treats
  * failures as non-fatal.
@@ -46,3 +45,30 @@ export async function reportLeadConversion(tid: string, code: string): Promise<{
   log.info("trackmysales lead conversion reported", { code, attributed: data?.attributed ?? false });
   return { attributed: Boolean(data?.attributed) };
 }
+
+/**
+ * Report a sale (e.g. a paid workshop booking) with its `amount` in EUR. Same
+ * server-to-server contract as the lead webhook, but `code` must point at a
+ * ConversionLink of type `sale`. Throws on misconfig or HTTP error.
+ */
+export async function reportRevenueConversion(
+  tid: string,
+  code: string,
+  amount: number,
+): Promise<{ attributed: boolean }> {
+  const c = readConfig();
+  if (!c.baseUrl || !c.secret) {
+    throw new Error("trackmysales is not configured");
+  }
+  const response = await fetch(`${c.baseUrl}/api/webhook/conversion/sale`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Conversion-Secret": c.secret },
+    body: JSON.stringify({ code, trackingId: tid, revenue: amount }),
+  });
+  if (!response.ok) {
+    throw new Error(`trackmysales sale webhook failed (HTTP ${response.status})`);
+  }
+  const data = (await response.json().catch(() => null)) as { attributed?: boolean } | null;
+  log.info("trackmysales revenue conversion reported", { code, amount, attributed: data?.attributed ?? false });
+  return { attributed: Boolean(data?.attributed) };
+}
@@ -27,6 +27,12 @@ export interface Question {
   /** Context question → the CRM attribute key, e.g. "kfc_rolle" (used in M2). */
   attributeKey?: string;
   options: AnswerOption[];
+  /**
+   * Only ask this question when every condition holds (AND) on the answers to
+   * EARLIER questions. Hidden questions are skipped by the quiz and ignored by
+   * the engine (visibility.ts).
+   */
+  showIf?: AnswerCondition[];
 }
 
 export type Answers = Record<string, string | string[]>; // questionId → optionId | optionIds
@@ -37,6 +43,33 @@ export interface Band {
   max: number; // inclusive
 }
 
+export type CompareOp = "<" | "<=" | ">" | ">=" | "==";
+
+/** One condition of an outcome rule. */
+export type RuleCondition =
+  /** Any selected option of the question (context, score or multi) is in `in`. */
+  | { answer: string; in: string[] }
+  /** A category sum (raw points, not normalized) compared to `value`. */
+  | { category: string; op: CompareOp; value: number }
+  /** The normalized 0..100 score compared to `value`. */
+  | { score: CompareOp; value: number }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+/** The answer-only subset of RuleCondition — what a question's `showIf` may test. */
+export type AnswerCondition =
+  | { answer: string; in: string[] }
+  | { all: AnswerCondition[] }
+  | { any: AnswerCondition[] }
+  | { not: AnswerCondition };
+
+export interface OutcomeRule {
+  /** Every condition must hold (AND); use `{ any: [...] }` for OR. */
+  when: RuleCondition[];
+  outcome: string;
+}
+
 export type OutcomeConfig =
   | { type: "bands"; bands: Band[] }
   | {
@@ -45,8 +78,14 @@ export type OutcomeConfig =
       pick: "max" | "min";
       /** category key → outcome key */
       outcomes: Record<string, string>;
+    }
+  | {
+      type: "rules";
+      /** Ordered — the first rule whose conditions all hold wins. */
+      rules: OutcomeRule[];
+      /** Outcome when no rule matches. */
+      default: string;
     };
-// Future (same seam, not in v1): | { type: "rules"; rules: ... }
 
 export interface NextLeverConfig {
   over: "category";
@@ -60,6 +99,12 @@ export interface QualificationConfig {
 
 export interface ScorecardDefinition {
   slug: string;
+  /**
+   * Stored with every submission. Bump it whenever questions, scoring, outcome
+   * or outcome content change, and move the old definition (and content, if it
+   * changed) into the registration's `previousVersions`.
+   */
+  version: number;
   questions: Question[];
   scoring: {
     /** Max attainable raw points across score questions (for normalization). */
@@ -78,7 +123,7 @@ export interface ScorecardResult {
   rawSum: number;
   /** Normalized 0..100 (always an integer — score is rounded). */
   score: number;
-  /** Outcome key (a band key or an argmax outcome). */
+  /** Outcome key (a band key, an argmax outcome or a rule outcome). */
   outcome: string;
   /** Per-category sums (omitted when the scorecard has no categories). */
   categoryScores?: Record<string, number>;
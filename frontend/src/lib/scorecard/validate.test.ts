@@ -0,0 +1,163 @@
+import { attainableMaxPoints, formatReport, validateRegistration, validateRegistrations } from "./validate";
+import { SAMPLE_REGISTRATION } from "./__fixtures__/sample-registration";
+import { SAMPLE_TRANSLATION_EN } from "./__fixtures__/sample-translation-en";
+import type { ScorecardRegistration } from "./registry";
+import type { ScorecardDefinition } from "./types";
+
+const reg = SAMPLE_REGISTRATION;
+const withDefinition = (patch: Partial<ScorecardDefinition>): ScorecardRegistration => ({
+  ...reg,
+  definition: { ...reg.definition, ...patch },
+});
+
+describe("validateRegistration", () => {
+  it("accepts the consistent sample registration", () => {
+    expect(validateRegistration(reg)).toEqual([]);
+  });
+
+  it("reports band gaps, overlaps and an uncovered top", () => {
+    const bad = withDefinition({
+      outcome: {
+        type: "bands",
+        bands: [
+          { key: "einkaeufer", min: 5, max: 30 },
+          { key: "verwalter", min: 26, max: 50 },
+          { key: "mitmacher", min: 55, max: 75 },
+          { key: "vorbild", min: 76, max: 99 },
+        ],
+      },
+    });
+    expect(validateRegistration(bad)).toEqual([
+      "bands: gap 0..4",
+      "bands: einkaeufer and verwalter overlap at 26..30",
+      "bands: gap 51..54",
+      "bands: gap 100..100",
+    ]);
+  });
+
+  it("reports a maxPoints that differs from the attainable maximum", () => {
+    expect(attainableMaxPoints(reg.definition)).toBe(6);
+    expect(validateRegistration(withDefinition({ scoring: { maxPoints: 5, direction: "higher-better" } }))).toEqual([
+      "scoring.maxPoints is 5, attainable maximum is 6",
+    ]);
+  });
+
+  it("skips the maxPoints check when a resolve hook replaces the engine", () => {
+    const custom = { ...withDefinition({ scoring: { maxPoints: 0, direction: "higher-better" } }), resolve: jest.fn() };
+    expect(validateRegistration(custom)).toEqual([]);
+  });
+
+  it("reports outcomes without label or content", () => {
+    const without = <T,>(record: Record<string, T>, key: string) =>
+      Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+    const outcomeLabel = without(reg.content.outcomeLabel, "vorbild");
+    const byOutcome = without(reg.content.byOutcome, "einkaeufer");
+    const bad = { ...reg, content: { ...reg.content, outcomeLabel, byOutcome } };
+    expect(validateRegistration(bad)).toEqual([
+      "outcome einkaeufer: no byOutcome content",
+      "outcome vorbild: no outcomeLabel",
+    ]);
+  });
+
+  it("does not require byOutcome when both result view and report doc are custom", () => {
+    const custom = { ...reg, content: { ...reg.content, byOutcome: {} }, ResultView: () => null, ReportDoc: () => null };
+    expect(validateRegistration(custom)).toEqual([]);
+  });
+
+  it("reports duplicate question and option ids", () => {
+    const [k1, k2, ...rest] = reg.definition.questions;
+    const bad = withDefinition({
+      questions: [k1!, { ...k2!, id: "K1", options: [...k2!.options, k2!.options[0]!] }, ...rest],
+      qualification: { requireQualifies: ["K1"] },
+    });
+    expect(validateRegistration(bad)).toEqual(["duplicate question id K1", "K1: duplicate option id mid"]);
+  });
+
+  it("reports unknown qualification and personalisierung references", () => {
+    const bad = {
+      ...withDefinition({ qualification: { requireQualifies: ["K1", "K7"] } }),
+      content: { ...reg.content, personalisierung: { questionId: "K9", byAnswer: {} } },
+    };
+    expect(validateRegistration(bad)).toEqual([
+      "qualification.requireQualifies: unknown question K7",
+      "personalisierung.questionId: unknown question K9",
+    ]);
+    const badAnswer = { ...reg, content: { ...reg.content, personalisierung: { questionId: "K1", byAnswer: { ceo: "x" } } } };
+    expect(validateRegistration(badAnswer)).toEqual(["personalisierung.byAnswer: unknown option K1=ceo"]);
+  });
+
+  it("reports argmax categories without an outcome and broken rules", () => {
+    const argmax = withDefinition({ outcome: { type: "argmax", over: "category", pick: "max", outcomes: { nutzung: "vorbild" } } });
+    expect(validateRegistration(argmax)).toEqual(["argmax: no outcome for category sichtbarkeit"]);
+    const rules = withDefinition({
+      outcome: { type: "rules", rules: [{ when: [{ answer: "K9", in: ["x"] }], outcome: "vorbild" }], default: "verwalter" },
+    });
+    expect(validateRegistration(rules)).toEqual([
+      "Invalid rules outcome for sample: rules.0.when.0: unknown question K9",
+    ]);
+  });
+
+  it("reports experiments without a real comparison", () => {
+    const single = { ...reg, experiment: { id: "e1", variants: [{ id: "a" }] } };
+    expect(validateRegistration(single)).toEqual(["experiment e1: needs at least 2 variants"]);
+    const broken = { ...reg, experiment: { id: "e1", variants: [{ id: "a" }, { id: "a", weight: 0 }] } };
+    expect(validateRegistration(broken)).toEqual([
+      "experiment e1: duplicate variant id a",
+      "experiment variant a: weight must be > 0",
+    ]);
+  });
+
+  it("reports missing translations and checks the translated registration too", () => {
+    expect(validateRegistration({ ...reg, translations: { en: SAMPLE_TRANSLATION_EN } })).toEqual([]);
+    const outcomeLabel = { ...SAMPLE_TRANSLATION_EN.content.outcomeLabel, vorbild: "" };
+    const partial = { ...SAMPLE_TRANSLATION_EN, content: { ...SAMPLE_TRANSLATION_EN.content, outcomeLabel } };
+    expect(validateRegistration({ ...reg, translations: { en: partial } })).toEqual([
+      "Missing translations for sample: en: outcomeLabel.vorbild",
+      "en: outcome vorbild: no outcomeLabel",
+    ]);
+  });
+});
+
+describe("validateRegistration — previous versions", () => {
+  it("checks previous definitions like the current one", () => {
+    const v0 = { ...reg.definition, version: 0, scoring: { maxPoints: 9, direction: "higher-better" as const } };
+    expect(validateRegistration({ ...reg, previousVersions: [{ definition: v0 }] })).toEqual([
+      "v0: scoring.maxPoints is 9, attainable maximum is 6",
+      "v0: version 0: not a positive integer",
+    ]);
+  });
+
+  it("rejects previous versions that are not older, duplicated or of another slug", () => {
+    const v1 = { ...reg.definition, slug: "other" };
+    expect(validateRegistration({ ...reg, previousVersions: [{ definition: v1 }, { definition: v1 }] })).toEqual([
+      "previousVersions: duplicate version 1",
+      "previousVersions: v1 has slug other",
+      "previousVersions: v1 is not older than the current v1",
+      "previousVersions: v1 has slug other",
+      "previousVersions: v1 is not older than the current v1",
+    ]);
+  });
+});
+
+describe("validateRegistrations / formatReport", () => {
+  it("flags duplicate slugs and prints one block per scorecard", () => {
+    const bad = withDefinition({ scoring: { maxPoints: 7, direction: "higher-better" } });
+    const reports = validateRegistrations([reg, bad]);
+    expect(reports.map((r) => r.problems[0])).toEqual(["duplicate slug", "duplicate slug"]);
+    expect(formatReport(reports)).toBe(
+      [
+        "✗ sample (1)",
+        "    - duplicate slug",
+        "✗ sample (2)",
+        "    - duplicate slug",
+        "    - scoring.maxPoints is 7, attainable maximum is 6",
+        "",
+        "2 of 2 scorecards invalid",
+      ].join("\n"),
+    );
+  });
+
+  it("summarizes a clean run", () => {
+    expect(formatReport(validateRegistrations([reg]))).toBe("✓ sample\n\nAll scorecards valid (1)");
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Static validator over scorecard registrations — catches the definition and
+ * content mistakes that would otherwise surface only at runtime ("No band
+ * matches score", a missing `byOutcome` block, scores above 100).
+ *
+ * Pure: returns readable problems instead of throwing. Run over REGISTRATIONS
+ * by `src/scorecards/registrations.test.ts` and the `scorecards:check` CLI.
+ */
+
+import { registrationAt, type ScorecardRegistration } from "./registry";
+import type { Band, ScorecardDefinition } from "./types";
+import { DEFAULT_LOCALE, localizedRegistration, supportedLocales, validateTranslations } from "./locale";
+import { validateOutcomeConfig } from "./outcome";
+import { validateVisibility } from "./visibility";
+
+export interface RegistrationReport {
+  slug: string;
+  problems: string[];
+}
+
+function duplicates(ids: string[]): string[] {
+  return [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+}
+
+/** Bands must cover the integer scores 0..100 exactly once. */
+function bandProblems(bands: Band[]): string[] {
+  if (bands.length === 0) return ["outcome: no bands"];
+  const problems: string[] = [];
+  for (const b of bands) {
+    if (b.min > b.max) problems.push(`band ${b.key}: min ${b.min} > max ${b.max}`);
+  }
+  const sorted = [...bands].sort((a, b) => a.min - b.min);
+  if (sorted[0]!.min > 0) problems.push(`bands: gap 0..${sorted[0]!.min - 1}`);
+  sorted.slice(1).forEach((b, i) => {
+    const prev = sorted[i]!;
+    if (b.min > prev.max + 1) problems.push(`bands: gap ${prev.max + 1}..${b.min - 1}`);
+    if (b.min <= prev.max) {
+      problems.push(`bands: ${prev.key} and ${b.key} overlap at ${b.min}..${Math.min(prev.max, b.max)}`);
+    }
+  });
+  const top = Math.max(...bands.map((b) => b.max));
+  if (top < 100) problems.push(`bands: gap ${top + 1}..100`);
+  return problems;
+}
+
+/** Every outcome key the generic engine can produce for this definition. */
+export function outcomeKeys(def: ScorecardDefinition): string[] {
+  const { outcome } = def;
+  if (outcome.type === "bands") return outcome.bands.map((b) => b.key);
+  if (outcome.type === "argmax") return [...new Set(Object.values(outcome.outcomes))];
+  return [...new Set([...outcome.rules.map((r) => r.outcome), outcome.default])];
+}
+
+/** Sum of the best option of every score question — what `maxPoints` must be. */
+export function attainableMaxPoints(def: ScorecardDefinition): number {
+  return def.questions
+    .filter((q) => q.kind === "score")
+    .reduce((sum, q) => sum + Math.max(0, ...q.options.map((o) => o.points ?? 0)), 0);
+}
+
+function thrown(check: () => void): string[] {
+  try {
+    check();
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+}
+
+/** All problems of one registration; empty when it is consistent. */
+export function validateRegistration(reg: ScorecardRegistration): string[] {
+  const { definition: def, content } = reg;
+  const questionIds = def.questions.map((q) => q.id);
+  const problems: string[] = [];
+
+  for (const id of duplicates(questionIds)) problems.push(`duplicate question id ${id}`);
+  for (const q of def.questions) {
+    for (const id of duplicates(q.options.map((o) => o.id))) problems.push(`${q.id}: duplicate option id ${id}`);
+  }
+
+  if (def.outcome.type === "bands") problems.push(...bandProblems(def.outcome.bands));
+  if (def.outcome.type === "argmax") {
+    const categories = new Set(
+      def.questions.flatMap((q) => (q.kind === "score" && q.category ? [q.category] : [])),
+    );
+    for (const c of categories) {
+      if (!def.outcome.outcomes[c]) problems.push(`argmax: no outcome for category ${c}`);
+    }
+  }
+  problems.push(...thrown(() => validateOutcomeConfig(def)), ...thrown(() => validateVisibility(def)));
+
+  // A `resolve` hook computes the result itself — the engine's scoring is unused.
+  if (!reg.resolve) {
+    const attainable = attainableMaxPoints(def);
+    if (def.scoring.maxPoints !== attainable) {
+      problems.push(`scoring.maxPoints is ${def.scoring.maxPoints}, attainable maximum is ${attainable}`);
+    }
+  }
+
+  // byOutcome feeds the generic result view and report doc — not needed when both are custom.
+  const needsOutcomeContent = !(reg.ResultView && reg.ReportDoc);
+  for (const key of outcomeKeys(def)) {
+    if (!content.outcomeLabel[key]) problems.push(`outcome ${key}: no outcomeLabel`);
+    if (needsOutcomeContent && !content.byOutcome[key]) problems.push(`outcome ${key}: no byOutcome content`);
+  }
+
+  for (const id of def.qualification.requireQualifies) {
+    if (!questionIds.includes(id)) problems.push(`qualification.requireQualifies: unknown question ${id}`);
+  }
+
+  const perso = content.personalisierung;
+  if (perso) {
+    const q = def.questions.find((x) => x.id === perso.questionId);
+    if (!q) {
+      problems.push(`personalisierung.questionId: unknown question ${perso.questionId}`);
+    } else {
+      for (const answer of Object.keys(perso.byAnswer)) {
+        if (!q.options.some((o) => o.id === answer)) {
+          problems.push(`personalisierung.byAnswer: unknown option ${q.id}=${answer}`);
+        }
+      }
+    }
+  }
+
+  const experiment = reg.experiment;
+  if (experiment) {
+    if (experiment.variants.length < 2) problems.push(`experiment ${experiment.id}: needs at least 2 variants`);
+    for (const id of duplicates(experiment.variants.map((v) => v.id))) {
+      problems.push(`experiment ${experiment.id}: duplicate variant id ${id}`);
+    }
+    for (const v of experiment.variants) {
+      if (v.weight !== undefined && !(v.weight > 0)) problems.push(`experiment variant ${v.id}: weight must be > 0`);
+    }
+  }
+
+  problems.push(...thrown(() => validateTranslations(reg)));
+  for (const locale of supportedLocales(reg).filter((l) => l !== DEFAULT_LOCALE)) {
+    const localized = { ...localizedRegistration(reg, locale), translations: undefined, previousVersions: undefined };
+    problems.push(...validateRegistration(localized).map((p) => `${locale}: ${p}`));
+  }
+
+  if (!Number.isInteger(def.version) || def.version < 1) {
+    problems.push(`version ${def.version}: not a positive integer`);
+  }
+  const previous = (reg.previousVersions ?? []).map((v) => v.definition);
+  for (const v of duplicates(previous.map((d) => String(d.version)))) {
+    problems.push(`previousVersions: duplicate version ${v}`);
+  }
+  for (const old of previous) {
+    if (old.slug !== def.slug) problems.push(`previousVersions: v${old.version} has slug ${old.slug}`);
+    if (old.version >= def.version) {
+      problems.push(`previousVersions: v${old.version} is not older than the current v${def.version}`);
+    }
+    const asRegistered = { ...registrationAt(reg, old.version), previousVersions: undefined };
+    problems.push(...validateRegistration(asRegistered).map((p) => `v${old.version}: ${p}`));
+  }
+
+  return problems;
+}
+
+/** One report per registration (plus duplicate slugs), in registration order. */
+export function validateRegistrations(regs: ScorecardRegistration[]): RegistrationReport[] {
+  const slugs = regs.map((r) => r.definition.slug);
+  return regs.map((reg) => ({
+    slug: reg.definition.slug,
+    problems: [
+      ...(slugs.filter((s) => s === reg.definition.slug).length > 1 ? ["duplicate slug"] : []),
+      ...validateRegistration(reg),
+    ],
+  }));
+}
+
+/** Human-readable report, one block per scorecard. */
+export function formatReport(reports: RegistrationReport[]): string {
+  const lines = reports.flatMap((r) =>
+    r.problems.length === 0
+      ? [`✓ ${r.slug}`]
+      : [`✗ ${r.slug} (${r.problems.length})`, ...r.problems.map((p) => `    - ${p}`)],
+  );
+  const failed = reports.filter((r) => r.problems.length > 0).length;
+  lines.push(
+    "",
+    failed === 0 ? `All scorecards valid (${reports.length})` : `${failed} of ${reports.length} scorecards invalid`,
+  );
+  return lines.join("\n");
+}
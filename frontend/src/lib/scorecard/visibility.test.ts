@@ -0,0 +1,111 @@
+import {
+  expectedQuestions,
+  shownDefinition,
+  validateVisibility,
+  visibleAnswers,
+  visibleQuestions,
+} from "./visibility";
+import { SAMPLE_DEFINITION } from "./__fixtures__/sample-definition";
+import type { ScorecardDefinition } from "./types";
+
+/** SAMPLE with S2 only for GFs, and a follow-up S3 only when S2 was "active". */
+const BRANCHING: ScorecardDefinition = {
+  ...SAMPLE_DEFINITION,
+  questions: [
+    ...SAMPLE_DEFINITION.questions.slice(0, 3),
+    { ...SAMPLE_DEFINITION.questions[3]!, showIf: [{ answer: "K1", in: ["gf"] }] },
+    {
+      id: "S3",
+      kind: "score",
+      prompt: "Vorleben?",
+      category: "sichtbarkeit",
+      showIf: [{ answer: "S2", in: ["active"] }],
+      options: [
+        { id: "yes", label: "Ja", points: 2 },
+        { id: "no", label: "Nein", points: 0 },
+      ],
+    },
+  ],
+  scoring: { maxPoints: 8, direction: "higher-better" },
+};
+
+const ids = (def: ScorecardDefinition, answers: Record<string, string>) =>
+  visibleQuestions(def.questions, answers).map((q) => q.id);
+
+describe("visibleQuestions", () => {
+  it("shows every question when none has showIf", () => {
+    expect(ids(SAMPLE_DEFINITION, {})).toEqual(["K1", "K2", "S1", "S2"]);
+  });
+
+  it("hides a question whose showIf does not hold", () => {
+    expect(ids(BRANCHING, { K1: "team" })).toEqual(["K1", "K2", "S1"]);
+    expect(ids(BRANCHING, { K1: "gf" })).toEqual(["K1", "K2", "S1", "S2"]);
+    expect(ids(BRANCHING, { K1: "gf", S2: "active" })).toEqual(["K1", "K2", "S1", "S2", "S3"]);
+  });
+
+  it("cascades: a stale answer to a hidden question does not reveal its follow-ups", () => {
+    expect(ids(BRANCHING, { K1: "team", S2: "active" })).toEqual(["K1", "K2", "S1"]);
+  });
+});
+
+describe("expectedQuestions", () => {
+  const expected = (answers: Record<string, string>) =>
+    expectedQuestions(BRANCHING.questions, answers).map((q) => q.id);
+
+  it("counts questions whose condition waits on an unanswered question", () => {
+    expect(expected({})).toEqual(["K1", "K2", "S1", "S2", "S3"]);
+    expect(expected({ K1: "gf" })).toEqual(["K1", "K2", "S1", "S2", "S3"]);
+  });
+
+  it("drops them once the answers decide they stay hidden", () => {
+    expect(expected({ K1: "team" })).toEqual(["K1", "K2", "S1"]);
+    expect(expected({ K1: "gf", S2: "no" })).toEqual(["K1", "K2", "S1", "S2"]);
+  });
+});
+
+describe("visibleAnswers", () => {
+  it("drops answers to hidden and unknown questions", () => {
+    expect(visibleAnswers(BRANCHING, { K1: "team", S1: "daily", S2: "active", S3: "yes", X: "y" })).toEqual({
+      K1: "team",
+      S1: "daily",
+    });
+  });
+});
+
+describe("shownDefinition", () => {
+  it("returns the definition unchanged when everything is shown", () => {
+    expect(shownDefinition(SAMPLE_DEFINITION, {})).toBe(SAMPLE_DEFINITION);
+  });
+
+  it("removes hidden questions and their max points", () => {
+    const def = shownDefinition(BRANCHING, { K1: "team" });
+    expect(def.questions.map((q) => q.id)).toEqual(["K1", "K2", "S1"]);
+    expect(def.scoring.maxPoints).toBe(3); // 8 − S2 (3) − S3 (2)
+  });
+});
+
+describe("validateVisibility", () => {
+  it("accepts showIf on earlier questions", () => {
+    expect(() => validateVisibility(BRANCHING)).not.toThrow();
+  });
+
+  it("rejects references to later or unknown questions and options", () => {
+    const def: ScorecardDefinition = {
+      ...SAMPLE_DEFINITION,
+      questions: [
+        { ...SAMPLE_DEFINITION.questions[0]!, showIf: [{ answer: "S1", in: ["daily"] }] },
+        { ...SAMPLE_DEFINITION.questions[1]!, showIf: [{ not: { answer: "K1", in: ["ceo"] } }] },
+        ...SAMPLE_DEFINITION.questions.slice(2),
+      ],
+    };
+    expect(() => validateVisibility(def)).toThrow(
+      "Invalid showIf for sample (only earlier questions can be referenced): " +
+        "K1.showIf.0: unknown question S1; K2.showIf.0.not: unknown option K1=ceo",
+    );
+  });
+
+  it("rejects an empty showIf", () => {
+    const def = { ...SAMPLE_DEFINITION, questions: [{ ...SAMPLE_DEFINITION.questions[0]!, showIf: [] }] };
+    expect(() => validateVisibility(def)).toThrow(/K1\.showIf: no conditions/);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Conditional questions — which questions a lead actually sees (`showIf`).
+ *
+ * A question's `showIf` may only test answers to earlier questions, so one
+ * pass in definition order decides everything: a hidden question's answer is
+ * dropped before later conditions see it (hiding cascades).
+ */
+
+import type { Answers, Question, ScorecardDefinition } from "./types";
+import { conditionErrors, conditionHolds, referencedQuestions } from "./conditions";
+
+/** The questions shown for `answers`, in definition order. */
+export function visibleQuestions(questions: Question[], answers: Answers): Question[] {
+  const seen: Answers = {};
+  const shown: Question[] = [];
+  for (const q of questions) {
+    if (q.showIf && !q.showIf.every((c) => conditionHolds(c, { answers: seen }))) continue;
+    shown.push(q);
+    if (answers[q.id] !== undefined) seen[q.id] = answers[q.id]!;
+  }
+  return shown;
+}
+
+/**
+ * The quiz's progress total: the shown questions plus those whose `showIf`
+ * still waits on an unanswered question (they may yet be asked).
+ */
+export function expectedQuestions(questions: Question[], answers: Answers): Question[] {
+  const seen: Answers = {};
+  const open = new Set<string>();
+  const expected: Question[] = [];
+  for (const q of questions) {
+    const waiting = q.showIf?.some((c) => referencedQuestions(c).some((id) => open.has(id)));
+    if (!waiting && q.showIf && !q.showIf.every((c) => conditionHolds(c, { answers: seen }))) continue;
+    expected.push(q);
+    if (!waiting && answers[q.id] !== undefined) seen[q.id] = answers[q.id]!;
+    else open.add(q.id);
+  }
+  return expected;
+}
+
+/** `answers` without the answers to hidden (or unknown) questions. */
+export function visibleAnswers(def: ScorecardDefinition, answers: Answers): Answers {
+  return Object.fromEntries(
+    visibleQuestions(def.questions, answers).flatMap((q) =>
+      answers[q.id] === undefined ? [] : [[q.id, answers[q.id]!] as const],
+    ),
+  );
+}
+
+/** Highest `points` a question can contribute (0 for non-score questions). */
+function maxPointsOf(q: Question): number {
+  if (q.kind !== "score") return 0;
+  return Math.max(0, ...q.options.map((o) => o.points ?? 0));
+}
+
+/**
+ * The definition as the lead saw it: hidden questions removed and
+ * `scoring.maxPoints` reduced by what they could have contributed, so the
+ * normalized score stays on 0..100 of the questions actually asked.
+ */
+export function shownDefinition(def: ScorecardDefinition, answers: Answers): ScorecardDefinition {
+  const shown = visibleQuestions(def.questions, answers);
+  if (shown.length === def.questions.length) return def;
+  const hiddenPoints = def.questions
+    .filter((q) => !shown.includes(q))
+    .reduce((sum, q) => sum + maxPointsOf(q), 0);
+  return {
+    ...def,
+    questions: shown,
+    scoring: { ...def.scoring, maxPoints: def.scoring.maxPoints - hiddenPoints },
+  };
+}
+
+/**
+ * Static check of every `showIf`: it references only earlier questions and
+ * their real options, and no list is empty. Throws listing all problems.
+ */
+export function validateVisibility(def: ScorecardDefinition): void {
+  const errors = def.questions.flatMap((q, i) => {
+    if (!q.showIf) return [];
+    if (q.showIf.length === 0) return [`${q.id}.showIf: no conditions`];
+    const earlier = def.questions.slice(0, i);
+    return q.showIf.flatMap((c, j) => conditionErrors(c, earlier, `${q.id}.showIf.${j}`));
+  });
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid showIf for ${def.slug} (only earlier questions can be referenced): ${errors.join("; ")}`,
+    );
+  }
+}
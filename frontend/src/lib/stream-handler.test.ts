@@ -146,5 +146,69 @@ describe('stream-handler', () => {
       expect(receivedChunks).toEqual(['Split']);
       expect(completed).toBe(true);
     });
+
+    it('passes cited sources on without ending the stream', async () => {
+      const source = { type: 'blog', title: 'Blog: Shipping RAG', href: '/blog/shipping-rag' };
+      const chunks = [
+        'data: {"type":"chunk","content":"Answer"}\n\n',
+        `data: ${JSON.stringify({ type: 'sources', sources: [source] })}\n\n`,
+        'data: {"type":"done"}\n\n',
+      ];
+
+      const response = createMockResponse(chunks);
+      const onSources = jest.fn();
+      const onComplete = jest.fn();
+
+      await processStream(response, { onChunk: () => {}, onSources, onComplete, onError: () => {} });
+
+      expect(onSources).toHaveBeenCalledWith([source]);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores sources when no handler is registered', async () => {
+      const chunks = [
+        'data: {"type":"sources","sources":[{"type":"skill","title":"Skills","href":"/about#skills"}]}\n\n',
+        'data: {"type":"done"}\n\n',
+      ];
+
+      const response = createMockResponse(chunks);
+      let completed = false;
+
+      await processStream(response, {
+        onChunk: () => {},
+        onComplete: () => { completed = true; },
+        onError: () => {},
+      });
+
+      expect(completed).toBe(true);
+    });
+
+    it('passes the answer signature to onComplete', async () => {
+      const response = createMockResponse([
+        'data: {"type":"chunk","content":"Hi"}\n\n',
+        'data: {"type":"done","signature":"sig-123"}\n\n',
+      ]);
+      const onComplete = jest.fn();
+
+      await processStream(response, { onChunk: () => {}, onComplete, onError: () => {} });
+
+      expect(onComplete).toHaveBeenCalledWith('sig-123');
+    });
+
+    it('passes tool results to onToolCall', async () => {
+      const call = { tool: 'offer_booking', card: { kind: 'booking', title: 'Book', description: '30 min', href: 'https://calendly.com/x' } };
+      const response = createMockResponse([
+        'data: {"type":"chunk","content":"Sure."}\n\n',
+        `data: ${JSON.stringify({ type: 'tool_call', ...call })}\n\n`,
+        'data: {"type":"done"}\n\n',
+      ]);
+      const onToolCall = jest.fn();
+      const onComplete = jest.fn();
+
+      await processStream(response, { onChunk: () => {}, onToolCall, onComplete, onError: () => {} });
+
+      expect(onToolCall).toHaveBeenCalledWith(call);
+      expect(onComplete).toHaveBeenCalled();
+    });
   });
 });
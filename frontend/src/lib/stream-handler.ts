@@ -7,11 +7,16 @@
  * @see Requirements 3.2, 3.4
  */
 
-import type { ChatSSEEvent } from '@/types/chat';
+import type { ChatSource, ChatSSEEvent, ChatToolCall } from '@/types/chat';
 
 export interface StreamHandlerCallbacks {
   onChunk: (content: string) => void;
-  onComplete: () => void;
+  /** Sections the answer drew on; sent once, after the last chunk */
+  onSources?: (sources: ChatSource[]) => void;
+  /** A tool the model called, with the card to show under the answer */
+  onToolCall?: (call: ChatToolCall) => void;
+  /** Stream finished; `signature` is set when the server signed the answer */
+  onComplete: (signature?: string) => void;
   onError: (error: string) => void;
 }
 
@@ -133,8 +138,20 @@ function handleEvent(
       }
       return false;
 
+    case 'sources':
+      if (Array.isArray(event.sources) && event.sources.length > 0) {
+        callbacks.onSources?.(event.sources);
+      }
+      return false;
+
+    case 'tool_call':
+      if (event.card) {
+        callbacks.onToolCall?.({ tool: event.tool, card: event.card });
+      }
+      return false;
+
     case 'done':
-      callbacks.onComplete();
+      callbacks.onComplete(event.signature);
       return true;
 
     case 'error':
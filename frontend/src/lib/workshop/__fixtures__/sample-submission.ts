@@ -0,0 +1,118 @@
+/**
+ * Workshop test fixtures — one fully populated workshop, submission,
+ * Warteliste row and invoice, so tests only override the fields they care about.
+ */
+import type { Workshop, WorkshopInvoice, WorkshopSubmission, WorkshopWaitlistEntry } from "@/db/schema";
+
+export const SAMPLE_WORKSHOP: Workshop = {
+  id: "ws-1",
+  slug: "ki-souveraenitaet",
+  title: "KI-Souveränität im Mittelstand",
+  termin: new Date("2026-10-23T10:00:00Z"),
+  durationMin: 90,
+  priceNetEur: 99,
+  capacity: 5,
+  minBookedToRun: 3,
+  status: "scheduled",
+  format: "live_online",
+  locationLabel: "live online",
+  recordingHint: true,
+  adminToken: "hashed",
+  createdAt: new Date("2026-08-01T00:00:00Z"),
+  updatedAt: new Date("2026-08-01T00:00:00Z"),
+};
+
+export function sampleSubmission(overrides: Partial<WorkshopSubmission> = {}): WorkshopSubmission {
+  return {
+    id: "sub-1",
+    workshopId: "ws-1",
+    firstName: "Max",
+    lastName: "Mustermann",
+    email: "max@firma.de",
+    company: "Mustermann GmbH",
+    role: "GF",
+    secondPersonName: null,
+    secondPersonEmail: null,
+    invoiceCompany: "Mustermann GmbH",
+    invoiceContactName: "Max Mustermann",
+    invoiceEmail: "max@firma.de",
+    invoiceStreet: "Hauptstr. 1",
+    invoiceZip: "10115",
+    invoiceCity: "Berlin",
+    invoiceCountry: "Deutschland",
+    invoiceUstId: "DE123456789",
+    isSmallBusiness: false,
+    paymentPreference: "bank_transfer",
+    newsletterOptIn: false,
+    newsletterDoiToken: null,
+    newsletterDoiConfirmedAt: null,
+    status: "reserved",
+    reservedAt: new Date("2026-09-01T08:30:00Z"),
+    bookedAt: null,
+    cancelledAt: null,
+    cancelReason: null,
+    paymentReminderSentAt: null,
+    trackingId: null,
+    leadReportedAt: null,
+    revenueReportedAt: null,
+    confirmPaymentToken: null,
+    cancelToken: null,
+    ipAtSubmit: null,
+    userAgent: null,
+    createdAt: new Date("2026-09-01T08:30:00Z"),
+    updatedAt: new Date("2026-09-01T08:30:00Z"),
+    ...overrides,
+  };
+}
+
+export function sampleWaitlistEntry(overrides: Partial<WorkshopWaitlistEntry> = {}): WorkshopWaitlistEntry {
+  return {
+    id: "wl-1",
+    workshopId: "ws-1",
+    firstName: "Erika",
+    email: "erika@firma.de",
+    company: "Musterfrau AG",
+    reason: "sold_out",
+    status: "waiting",
+    doiToken: "hashed-doi",
+    confirmedAt: new Date("2026-09-02T08:00:00Z"),
+    offerToken: null,
+    offeredAt: null,
+    offerExpiresAt: null,
+    claimedAt: null,
+    ipAtSubmit: "10.0.0.2",
+    userAgent: "jest",
+    createdAt: new Date("2026-09-02T07:55:00Z"),
+    updatedAt: new Date("2026-09-02T08:00:00Z"),
+    ...overrides,
+  };
+}
+
+/** The invoice of `sampleSubmission` once booked — domestic, 19 % USt. */
+export function sampleInvoice(overrides: Partial<WorkshopInvoice> = {}): WorkshopInvoice {
+  return {
+    id: "inv-1",
+    invoiceNumber: "WS-2026-0001",
+    submissionId: "sub-1",
+    workshopId: "ws-1",
+    issuedAt: new Date("2026-09-05T09:00:00Z"),
+    serviceDate: new Date("2026-10-23T10:00:00Z"),
+    paidAt: new Date("2026-09-05T09:00:00Z"),
+    description: "Workshop „KI-Souveränität im Mittelstand“ (live online), 1 Platz",
+    recipientCompany: "Mustermann GmbH",
+    recipientContactName: "Max Mustermann",
+    recipientStreet: "Hauptstr. 1",
+    recipientZip: "10115",
+    recipientCity: "Berlin",
+    recipientCountry: "Deutschland",
+    recipientUstId: "DE123456789",
+    recipientIsSmallBusiness: false,
+    taxTreatment: "standard",
+    vatRatePercent: 19,
+    netCents: 9900,
+    vatCents: 1881,
+    grossCents: 11781,
+    createdAt: new Date("2026-09-05T09:00:00Z"),
+    ...overrides,
+  };
+}
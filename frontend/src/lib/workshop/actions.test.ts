@@ -0,0 +1,177 @@
+/**
+ * Workshop admin actions — token lookup, single-use transitions, revenue conversion.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockFindConfirm = jest.fn();
+const mockFindCancel = jest.fn();
+const mockFindById = jest.fn();
+const mockMarkBooked = jest.fn();
+const mockMarkCancelled = jest.fn();
+const mockMarkRevenue = jest.fn();
+jest.mock("@/db/workshop-submissions", () => ({
+  findByConfirmPaymentToken: (...a: unknown[]) => mockFindConfirm(...a),
+  findByCancelToken: (...a: unknown[]) => mockFindCancel(...a),
+  findWorkshopSubmissionById: (...a: unknown[]) => mockFindById(...a),
+  markBooked: (...a: unknown[]) => mockMarkBooked(...a),
+  markCancelled: (...a: unknown[]) => mockMarkCancelled(...a),
+  markRevenueReported: (...a: unknown[]) => mockMarkRevenue(...a),
+}));
+
+const mockGetWorkshopById = jest.fn();
+jest.mock("./queries", () => ({ getWorkshopById: (...a: unknown[]) => mockGetWorkshopById(...a) }));
+
+const mockReportRevenue = jest.fn();
+let tmsConfigured = true;
+jest.mock("@/lib/scorecard/trackmysales", () => ({
+  reportRevenueConversion: (...a: unknown[]) => mockReportRevenue(...a),
+  isTrackmysalesConfigured: () => tmsConfigured,
+}));
+
+const mockSendBooking = jest.fn();
+const mockSendCancellation = jest.fn();
+jest.mock("./notifications", () => ({
+  sendBookingMail: (...a: unknown[]) => mockSendBooking(...a),
+  sendCancellationMail: (...a: unknown[]) => mockSendCancellation(...a),
+}));
+
+const mockReopen = jest.fn();
+jest.mock("./slots", () => ({ reopenSoldOut: (...a: unknown[]) => mockReopen(...a) }));
+
+const mockIssueInvoice = jest.fn();
+jest.mock("./invoice", () => ({ issueInvoiceSafely: (...a: unknown[]) => mockIssueInvoice(...a) }));
+
+const mockNotifyWaitlist = jest.fn();
+jest.mock("./waitlist", () => ({ notifyWaitlistSafely: (...a: unknown[]) => mockNotifyWaitlist(...a) }));
+
+import { runWorkshopAction } from "./actions";
+import { hashToken } from "./tokens";
+
+const WORKSHOP = { id: "ws-1", slug: "ki-souveraenitaet", priceNetEur: 99 };
+
+function row(overrides: Record<string, unknown> = {}) {
+  return { id: "sub-1", workshopId: "ws-1", status: "reserved", trackingId: "tid-1", ...overrides };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  tmsConfigured = true;
+  mockFindConfirm.mockResolvedValue(null);
+  mockFindCancel.mockResolvedValue(null);
+  mockGetWorkshopById.mockResolvedValue(WORKSHOP);
+  mockReportRevenue.mockResolvedValue({ attributed: true });
+  mockIssueInvoice.mockResolvedValue({ invoiceNumber: "WS-2026-0001" });
+});
+
+describe("runWorkshopAction", () => {
+  it("looks up the hashed token, never the plaintext", async () => {
+    await runWorkshopAction("plain");
+    expect(mockFindConfirm).toHaveBeenCalledWith(hashToken("plain"));
+    expect(mockFindCancel).toHaveBeenCalledWith(hashToken("plain"));
+  });
+
+  it("notfound for an unknown token", async () => {
+    expect(await runWorkshopAction("nope")).toEqual({ status: "notfound" });
+    expect(mockMarkBooked).not.toHaveBeenCalled();
+    expect(mockMarkCancelled).not.toHaveBeenCalled();
+  });
+
+  it("books a reserved submission and fires the revenue conversion", async () => {
+    mockFindConfirm.mockResolvedValue(row());
+    mockMarkBooked.mockResolvedValue(row({ status: "booked" }));
+    const result = await runWorkshopAction("confirm");
+    expect(result.status).toBe("booked");
+    expect(mockMarkBooked).toHaveBeenCalledWith("sub-1");
+    expect(mockReportRevenue).toHaveBeenCalledWith("tid-1", "ki-souveraenitaet-booking", 99);
+    expect(mockMarkRevenue).toHaveBeenCalledWith("sub-1");
+    expect(mockSendBooking).toHaveBeenCalledWith(
+      WORKSHOP,
+      expect.objectContaining({ status: "booked" }),
+      { invoiceNumber: "WS-2026-0001" },
+    );
+  });
+
+  it("issues the invoice for the booked row and still mails without one when that fails", async () => {
+    mockFindConfirm.mockResolvedValue(row());
+    mockMarkBooked.mockResolvedValue(row({ status: "booked" }));
+    mockIssueInvoice.mockResolvedValue(null);
+    expect((await runWorkshopAction("confirm")).status).toBe("booked");
+    expect(mockIssueInvoice).toHaveBeenCalledWith(WORKSHOP, expect.objectContaining({ status: "booked" }));
+    expect(mockSendBooking).toHaveBeenCalledWith(WORKSHOP, expect.anything(), null);
+  });
+
+  it("books without a revenue conversion when the submission has no tracking id", async () => {
+    mockFindConfirm.mockResolvedValue(row({ trackingId: null }));
+    mockMarkBooked.mockResolvedValue(row({ status: "booked", trackingId: null }));
+    expect((await runWorkshopAction("confirm")).status).toBe("booked");
+    expect(mockReportRevenue).not.toHaveBeenCalled();
+  });
+
+  it("still books when the revenue conversion fails (non-fatal)", async () => {
+    mockFindConfirm.mockResolvedValue(row());
+    mockMarkBooked.mockResolvedValue(row({ status: "booked" }));
+    mockReportRevenue.mockRejectedValue(new Error("TMS down"));
+    expect((await runWorkshopAction("confirm")).status).toBe("booked");
+    expect(mockMarkRevenue).not.toHaveBeenCalled();
+  });
+
+  it("cancels a reserved submission via the cancel token", async () => {
+    mockFindCancel.mockResolvedValue(row());
+    mockMarkCancelled.mockResolvedValue(row({ status: "cancelled" }));
+    const result = await runWorkshopAction("cancel");
+    expect(result.status).toBe("cancelled");
+    expect(mockMarkCancelled).toHaveBeenCalledWith("sub-1", "admin");
+    expect(mockReportRevenue).not.toHaveBeenCalled();
+    expect(mockSendCancellation).toHaveBeenCalledWith(WORKSHOP, expect.objectContaining({ status: "cancelled" }));
+    expect(mockSendBooking).not.toHaveBeenCalled();
+    expect(mockReopen).toHaveBeenCalledWith("ws-1");
+  });
+
+  it("offers the freed slot to the Warteliste after a cancellation, not after a booking", async () => {
+    mockFindCancel.mockResolvedValue(row());
+    mockMarkCancelled.mockResolvedValue(row({ status: "cancelled" }));
+    await runWorkshopAction("cancel");
+    expect(mockNotifyWaitlist).toHaveBeenCalledWith(WORKSHOP);
+
+    mockNotifyWaitlist.mockClear();
+    mockFindCancel.mockResolvedValue(null);
+    mockFindConfirm.mockResolvedValue(row());
+    mockMarkBooked.mockResolvedValue(row({ status: "booked" }));
+    await runWorkshopAction("confirm");
+    expect(mockNotifyWaitlist).not.toHaveBeenCalled();
+  });
+
+  it("is idempotent on a repeat click — reports the current status, no transition", async () => {
+    mockFindConfirm.mockResolvedValue(row({ status: "booked" }));
+    expect(await runWorkshopAction("confirm")).toEqual({
+      status: "already",
+      action: "confirm_payment",
+      current: "booked",
+    });
+    expect(mockMarkBooked).not.toHaveBeenCalled();
+    expect(mockReportRevenue).not.toHaveBeenCalled();
+    expect(mockSendBooking).not.toHaveBeenCalled();
+  });
+
+  it("does not cancel an already booked submission", async () => {
+    mockFindCancel.mockResolvedValue(row({ status: "booked" }));
+    expect(await runWorkshopAction("cancel")).toEqual({ status: "already", action: "cancel", current: "booked" });
+    expect(mockMarkCancelled).not.toHaveBeenCalled();
+  });
+
+  it("resolves a lost double-click race to already without side effects", async () => {
+    mockFindConfirm.mockResolvedValue(row());
+    mockMarkBooked.mockResolvedValue(null);
+    mockFindById.mockResolvedValue(row({ status: "booked" }));
+    expect(await runWorkshopAction("confirm")).toEqual({
+      status: "already",
+      action: "confirm_payment",
+      current: "booked",
+    });
+    expect(mockReportRevenue).not.toHaveBeenCalled();
+  });
+});
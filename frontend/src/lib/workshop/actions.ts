@@ -0,0 +1,120 @@
+/**
+ * Workshop admin actions (ADR-0001) — consumes the single-use action tokens
+ * from the Admin-Notification-Mail.
+ *
+ * The URL token is hashed and looked up against both token columns (ADR-0002);
+ * the column it matches decides the action. Transitions are guarded on
+ * status = 'reserved', so a token works exactly once: a repeat click (or a
+ * parallel double click that loses the race) resolves to "already" with the
+ * current status instead of firing the side effects twice.
+ *
+ *   confirm_payment: reserved → booked, then the Revenue-Konversion, the
+ *                    Rechnung and the Buchungs-Bestätigung with the invoice
+ *                    attached (all best-effort)
+ *   cancel:          reserved → cancelled — the slot is free again, because
+ *                    slots.ts only counts reserved/booked rows, and a sold-out
+ *                    workshop reopens — then the Storno-Bestätigung and the
+ *                    next Warteliste offer (all best-effort)
+ */
+
+import { createLogger } from "@/lib/logger";
+import {
+  findByCancelToken,
+  findByConfirmPaymentToken,
+  findWorkshopSubmissionById,
+  markBooked,
+  markCancelled,
+  markRevenueReported,
+} from "@/db/workshop-submissions";
+import type { Workshop, WorkshopSubmission } from "@/db/schema";
+import { isTrackmysalesConfigured, reportRevenueConversion } from "@/lib/scorecard/trackmysales";
+import { issueInvoiceSafely } from "./invoice";
+import { getWorkshopById } from "./queries";
+import { reopenSoldOut } from "./slots";
+import { sendBookingMail, sendCancellationMail } from "./notifications";
+import { notifyWaitlistSafely } from "./waitlist";
+import { hashToken } from "./tokens";
+
+const log = createLogger("WorkshopAction");
+
+export type WorkshopAction = "confirm_payment" | "cancel";
+
+export type WorkshopActionResult =
+  | { status: "booked"; submission: WorkshopSubmission; workshop: Workshop | null }
+  | { status: "cancelled"; submission: WorkshopSubmission; workshop: Workshop | null }
+  | { status: "already"; action: WorkshopAction; current: string }
+  | { status: "notfound" };
+
+/** TrackMySales ConversionLink code (type `sale`) for a workshop's bookings. */
+export function revenueConversionCode(workshopSlug: string): string {
+  return `${workshopSlug}-booking`;
+}
+
+async function findByActionToken(
+  tokenHash: string,
+): Promise<{ action: WorkshopAction; submission: WorkshopSubmission } | null> {
+  const confirm = await findByConfirmPaymentToken(tokenHash);
+  if (confirm) return { action: "confirm_payment", submission: confirm };
+  const cancel = await findByCancelToken(tokenHash);
+  if (cancel) return { action: "cancel", submission: cancel };
+  return null;
+}
+
+/** Resolve the status after a lost transition race (the row moved on meanwhile). */
+async function alreadyResult(action: WorkshopAction, id: string): Promise<WorkshopActionResult> {
+  const current = await findWorkshopSubmissionById(id);
+  return { status: "already", action, current: current?.status ?? "unknown" };
+}
+
+async function reportRevenue(submission: WorkshopSubmission, workshop: Workshop | null): Promise<void> {
+  if (!submission.trackingId || !workshop || !isTrackmysalesConfigured()) return;
+  try {
+    await reportRevenueConversion(
+      submission.trackingId,
+      revenueConversionCode(workshop.slug),
+      workshop.priceNetEur,
+    );
+    await markRevenueReported(submission.id);
+  } catch (error) {
+    log.warn("TrackMySales revenue conversion failed (non-fatal)", { error: String(error) });
+  }
+}
+
+/** Run the admin action behind a plaintext action token from a mail link. */
+export async function runWorkshopAction(token: string): Promise<WorkshopActionResult> {
+  const found = await findByActionToken(hashToken(token));
+  if (!found) return { status: "notfound" };
+
+  const { action, submission } = found;
+  if (submission.status !== "reserved") {
+    return { status: "already", action, current: submission.status };
+  }
+
+  if (action === "confirm_payment") {
+    const booked = await markBooked(submission.id);
+    if (!booked) return alreadyResult(action, submission.id);
+    const workshop = await getWorkshopById(booked.workshopId);
+    log.info("Workshop submission booked", { submissionId: booked.id, reason: "payment_confirmed" });
+    await reportRevenue(booked, workshop);
+    if (workshop) {
+      const invoice = await issueInvoiceSafely(workshop, booked);
+      await sendBookingMail(workshop, booked, invoice);
+    }
+    return { status: "booked", submission: booked, workshop };
+  }
+
+  const cancelled = await markCancelled(submission.id, "admin");
+  if (!cancelled) return alreadyResult(action, submission.id);
+  try {
+    await reopenSoldOut(cancelled.workshopId);
+  } catch (error) {
+    log.error("Reopening the sold-out workshop failed (non-fatal)", error);
+  }
+  const workshop = await getWorkshopById(cancelled.workshopId);
+  log.info("Workshop submission cancelled", { submissionId: cancelled.id, reason: "admin" });
+  if (workshop) {
+    await sendCancellationMail(workshop, cancelled);
+    await notifyWaitlistSafely(workshop);
+  }
+  return { status: "cancelled", submission: cancelled, workshop };
+}
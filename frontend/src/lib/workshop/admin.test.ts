@@ -0,0 +1,114 @@
+/**
+ * Workshop admin overview — token lookup + CSV export.
+ * @jest-environment node
+ */
+
+let dbConfigured = true;
+jest.mock("@/db/client", () => ({ isDatabaseConfigured: () => dbConfigured }));
+
+const mockFindByAdminToken = jest.fn();
+const mockGetSubmissions = jest.fn();
+jest.mock("@/db/workshop-submissions", () => ({
+  findWorkshopByAdminToken: (...a: unknown[]) => mockFindByAdminToken(...a),
+  getSubmissionsForWorkshop: (...a: unknown[]) => mockGetSubmissions(...a),
+}));
+
+const mockFindInvoice = jest.fn();
+const mockGetInvoices = jest.fn();
+jest.mock("@/db/workshop-invoices", () => ({
+  findInvoiceBySubmissionId: (...a: unknown[]) => mockFindInvoice(...a),
+  getInvoicesForWorkshop: (...a: unknown[]) => mockGetInvoices(...a),
+}));
+
+const mockFreeSlots = jest.fn();
+jest.mock("./slots", () => ({ getFreeSlots: (...a: unknown[]) => mockFreeSlots(...a) }));
+
+import { loadWorkshopInvoice, loadWorkshopOverview, toOverviewCsv, OVERVIEW_COLUMNS } from "./admin";
+import { hashToken } from "./tokens";
+import { sampleInvoice, sampleSubmission as submission } from "./__fixtures__/sample-submission";
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  dbConfigured = true;
+  mockFindByAdminToken.mockResolvedValue({ id: "ws-1", capacity: 5 });
+  mockGetSubmissions.mockResolvedValue([submission()]);
+  mockGetInvoices.mockResolvedValue([sampleInvoice()]);
+  mockFindInvoice.mockResolvedValue(sampleInvoice());
+  mockFreeSlots.mockResolvedValue(4);
+});
+
+describe("loadWorkshopOverview", () => {
+  it("looks the workshop up by the hashed token", async () => {
+    const overview = await loadWorkshopOverview("plain");
+    expect(mockFindByAdminToken).toHaveBeenCalledWith(hashToken("plain"));
+    expect(overview?.freeSlots).toBe(4);
+    expect(overview?.submissions).toHaveLength(1);
+    expect(overview?.invoices).toHaveLength(1);
+    expect(mockGetInvoices).toHaveBeenCalledWith("ws-1");
+  });
+
+  it("is null for a missing token without touching the DB", async () => {
+    expect(await loadWorkshopOverview(undefined)).toBeNull();
+    expect(mockFindByAdminToken).not.toHaveBeenCalled();
+  });
+
+  it("is null for an unknown token", async () => {
+    mockFindByAdminToken.mockResolvedValue(null);
+    expect(await loadWorkshopOverview("wrong")).toBeNull();
+    expect(mockGetSubmissions).not.toHaveBeenCalled();
+  });
+
+  it("is null when the database is not configured", async () => {
+    dbConfigured = false;
+    expect(await loadWorkshopOverview("plain")).toBeNull();
+  });
+});
+
+describe("loadWorkshopInvoice", () => {
+  it("returns the invoice of a submission of the token's workshop", async () => {
+    expect(await loadWorkshopInvoice("plain", "sub-1")).toMatchObject({ invoiceNumber: "WS-2026-0001" });
+    expect(mockFindInvoice).toHaveBeenCalledWith("sub-1");
+  });
+
+  it("is null for an invoice of another workshop", async () => {
+    mockFindInvoice.mockResolvedValue(sampleInvoice({ workshopId: "ws-2" }));
+    expect(await loadWorkshopInvoice("plain", "sub-1")).toBeNull();
+  });
+
+  it("is null for an unknown token or a missing submission id", async () => {
+    mockFindByAdminToken.mockResolvedValue(null);
+    expect(await loadWorkshopInvoice("wrong", "sub-1")).toBeNull();
+    expect(await loadWorkshopInvoice("plain", undefined)).toBeNull();
+    expect(mockFindInvoice).not.toHaveBeenCalled();
+  });
+});
+
+describe("toOverviewCsv", () => {
+  it("starts with a BOM and a header row of all overview columns", () => {
+    const csv = toOverviewCsv([]);
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(csv.slice(1).split("\r\n")[0]).toBe(OVERVIEW_COLUMNS.map((c) => c.label).join(";"));
+  });
+
+  it("writes one row per submission with German labels and Berlin time", () => {
+    const rows = toOverviewCsv([submission({ status: "booked", bookedAt: new Date("2026-09-02T10:00:00Z") })])
+      .slice(1)
+      .trim()
+      .split("\r\n");
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toContain("gebucht;Mustermann GmbH;Max;Mustermann;max@firma.de");
+    expect(rows[1]).toContain("Überweisung");
+    expect(rows[1]).toContain("01.09.2026, 10:30");
+    expect(rows[1]).toContain("02.09.2026, 12:00");
+  });
+
+  it("quotes cells containing separators or quotes", () => {
+    const csv = toOverviewCsv([submission({ company: 'Müller; Söhne "KG"' })]);
+    expect(csv).toContain('"Müller; Söhne ""KG"""');
+  });
+
+  it("neutralises spreadsheet formulas in lead-supplied fields", () => {
+    const csv = toOverviewCsv([submission({ company: "=HYPERLINK(\"x\")" })]);
+    expect(csv).toContain("\"'=HYPERLINK(\"\"x\"\")\"");
+  });
+});
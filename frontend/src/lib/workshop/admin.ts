@@ -0,0 +1,135 @@
+/**
+ * Workshop admin overview (ADR-0001) — everything behind the Übersichts-Token.
+ *
+ * One column definition drives both the server-rendered table on
+ * /workshop/admin and the CSV export, so the two can never drift apart. The
+ * table additionally links each issued Rechnung as PDF download.
+ * A bad or unknown token resolves to `null` exactly like a missing workshop:
+ * callers answer with a plain 404 and reveal nothing about what exists.
+ */
+
+import { isDatabaseConfigured } from "@/db/client";
+import { findInvoiceBySubmissionId, getInvoicesForWorkshop } from "@/db/workshop-invoices";
+import { findWorkshopByAdminToken, getSubmissionsForWorkshop } from "@/db/workshop-submissions";
+import type { Workshop, WorkshopInvoice, WorkshopSubmission } from "@/db/schema";
+import { getFreeSlots } from "./slots";
+import { hashToken } from "./tokens";
+
+export interface WorkshopOverview {
+  workshop: Workshop;
+  submissions: WorkshopSubmission[];
+  invoices: WorkshopInvoice[];
+  freeSlots: number;
+}
+
+/** Load the overview for a plaintext Übersichts-Token, or null (→ 404). */
+export async function loadWorkshopOverview(token: string | undefined): Promise<WorkshopOverview | null> {
+  if (!token || !isDatabaseConfigured()) return null;
+  const workshop = await findWorkshopByAdminToken(hashToken(token));
+  if (!workshop) return null;
+  const [submissions, invoices, freeSlots] = await Promise.all([
+    getSubmissionsForWorkshop(workshop.id),
+    getInvoicesForWorkshop(workshop.id),
+    getFreeSlots(workshop),
+  ]);
+  return { workshop, submissions, invoices, freeSlots };
+}
+
+/** The invoice of one submission behind the Übersichts-Token, or null (→ 404). */
+export async function loadWorkshopInvoice(
+  token: string | undefined,
+  submissionId: string | undefined,
+): Promise<WorkshopInvoice | null> {
+  if (!token || !submissionId || !isDatabaseConfigured()) return null;
+  const workshop = await findWorkshopByAdminToken(hashToken(token));
+  if (!workshop) return null;
+  const invoice = await findInvoiceBySubmissionId(submissionId);
+  // A token only unlocks the invoices of its own workshop.
+  return invoice && invoice.workshopId === workshop.id ? invoice : null;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  reserved: "reserviert",
+  booked: "gebucht",
+  cancelled: "storniert",
+};
+
+/** Storno-Grund in German (CancelReason in db/workshop-submissions.ts). */
+const CANCEL_REASON_LABELS: Record<string, string> = {
+  admin: "manuell",
+  payment_expired: "Zahlungsfrist abgelaufen",
+};
+
+/** Zahlungspräferenz in German (overview, CSV and the reservation mail). */
+export const PAYMENT_LABELS: Record<string, string> = {
+  bank_transfer: "Überweisung",
+  payment_link: "Zahlung-Link",
+};
+
+/** German date + time in Berlin local time; empty for null. */
+export function formatDateTime(value: Date | string | null): string {
+  if (!value) return "";
+  return new Intl.DateTimeFormat("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone: "Europe/Berlin",
+  }).format(new Date(value));
+}
+
+export interface OverviewColumn {
+  label: string;
+  value: (s: WorkshopSubmission) => string;
+}
+
+/** Columns of the overview table and the CSV export, in display order. */
+export const OVERVIEW_COLUMNS: OverviewColumn[] = [
+  { label: "Status", value: (s) => STATUS_LABELS[s.status] ?? s.status },
+  { label: "Firma", value: (s) => s.company },
+  { label: "Vorname", value: (s) => s.firstName },
+  { label: "Nachname", value: (s) => s.lastName },
+  { label: "E-Mail", value: (s) => s.email },
+  { label: "Rolle", value: (s) => s.role ?? "" },
+  { label: "Zweit-Person", value: (s) => s.secondPersonName ?? "" },
+  { label: "Zweit-Person E-Mail", value: (s) => s.secondPersonEmail ?? "" },
+  { label: "Rechnung Firma", value: (s) => s.invoiceCompany },
+  { label: "Rechnungs-Kontakt", value: (s) => s.invoiceContactName },
+  { label: "Rechnung E-Mail", value: (s) => s.invoiceEmail },
+  { label: "Straße", value: (s) => s.invoiceStreet },
+  { label: "PLZ", value: (s) => s.invoiceZip },
+  { label: "Ort", value: (s) => s.invoiceCity },
+  { label: "Land", value: (s) => s.invoiceCountry },
+  { label: "USt-IdNr.", value: (s) => s.invoiceUstId ?? "" },
+  { label: "Kleinunternehmer", value: (s) => (s.isSmallBusiness ? "ja" : "nein") },
+  { label: "Zahlungspräferenz", value: (s) => PAYMENT_LABELS[s.paymentPreference] ?? s.paymentPreference },
+  { label: "Newsletter", value: (s) => (s.newsletterOptIn ? "ja" : "nein") },
+  { label: "Reserviert", value: (s) => formatDateTime(s.reservedAt) },
+  { label: "Zahlungserinnerung", value: (s) => formatDateTime(s.paymentReminderSentAt) },
+  { label: "Gebucht", value: (s) => formatDateTime(s.bookedAt) },
+  { label: "Storniert", value: (s) => formatDateTime(s.cancelledAt) },
+  { label: "Storno-Grund", value: (s) => (s.cancelReason ? (CANCEL_REASON_LABELS[s.cancelReason] ?? s.cancelReason) : "") },
+];
+
+/**
+ * One CSV cell. Quotes when needed, and neutralises spreadsheet formulas —
+ * every field here is lead-supplied, so `=HYPERLINK(...)` must stay text.
+ */
+function csvCell(raw: string): string {
+  const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV export of the overview rows. Semicolon-separated with a UTF-8 BOM so a
+ * German Excel opens it with umlauts intact and without an import dialog.
+ */
+export function toOverviewCsv(submissions: WorkshopSubmission[]): string {
+  const lines = [
+    OVERVIEW_COLUMNS.map((c) => csvCell(c.label)).join(";"),
+    ...submissions.map((s) => OVERVIEW_COLUMNS.map((c) => csvCell(c.value(s))).join(";")),
+  ];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
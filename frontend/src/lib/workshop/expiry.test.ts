@@ -0,0 +1,154 @@
+/**
+ * Unpaid reservations — deadline math, reminder once, auto-cancel with reason.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockGetReserved = jest.fn();
+const mockMarkCancelled = jest.fn();
+const mockMarkReminded = jest.fn();
+jest.mock("@/db/workshop-submissions", () => ({
+  getReservedSubmissions: (...a: unknown[]) => mockGetReserved(...a),
+  markCancelled: (...a: unknown[]) => mockMarkCancelled(...a),
+  markPaymentReminderSent: (...a: unknown[]) => mockMarkReminded(...a),
+}));
+
+const mockWorkshops = jest.fn();
+jest.mock("./queries", () => ({ getUpcomingWorkshops: (...a: unknown[]) => mockWorkshops(...a) }));
+
+const mockReopen = jest.fn();
+jest.mock("./slots", () => ({
+  getFreeSlots: async () => 1,
+  reopenSoldOut: (...a: unknown[]) => mockReopen(...a),
+}));
+
+const mockNotifyWaitlist = jest.fn();
+jest.mock("./waitlist", () => ({ notifyWaitlistSafely: (...a: unknown[]) => mockNotifyWaitlist(...a) }));
+
+const mockSendReminder = jest.fn();
+const mockSendExpiry = jest.fn();
+jest.mock("./notifications", () => ({
+  sendPaymentReminderMail: (...a: unknown[]) => mockSendReminder(...a),
+  sendExpiryMails: (...a: unknown[]) => mockSendExpiry(...a),
+}));
+
+import { DEFAULT_PAYMENT_POLICY, paymentDeadline, paymentPolicy, processUnpaidReservations, reminderDue } from "./expiry";
+import { SAMPLE_WORKSHOP, sampleSubmission } from "./__fixtures__/sample-submission";
+
+// SAMPLE_WORKSHOP.termin = 2026-10-23T10:00Z; default policy: reminder after 3 days, deadline 7 days before
+const TERMIN = SAMPLE_WORKSHOP.termin!;
+const day = (iso: string) => new Date(iso);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.WORKSHOP_PAYMENT_REMINDER_DAYS;
+  delete process.env.WORKSHOP_PAYMENT_DEADLINE_DAYS;
+  mockWorkshops.mockResolvedValue([SAMPLE_WORKSHOP]);
+  mockGetReserved.mockResolvedValue([]);
+  mockMarkCancelled.mockImplementation(async (id, cancelReason) =>
+    sampleSubmission({ id, status: "cancelled", cancelReason }),
+  );
+  mockMarkReminded.mockImplementation(async (id) => sampleSubmission({ id, paymentReminderSentAt: new Date() }));
+});
+
+describe("paymentPolicy", () => {
+  it("reads the days from env and falls back on junk", () => {
+    expect(paymentPolicy()).toEqual(DEFAULT_PAYMENT_POLICY);
+    process.env.WORKSHOP_PAYMENT_REMINDER_DAYS = "2";
+    process.env.WORKSHOP_PAYMENT_DEADLINE_DAYS = "zehn";
+    expect(paymentPolicy()).toEqual({ reminderDays: 2, deadlineDays: 7 });
+  });
+});
+
+describe("paymentDeadline / reminderDue", () => {
+  it("is deadlineDays before the Termin for an early reservation", () => {
+    const reservedAt = day("2026-09-01T10:00:00Z");
+    const deadline = paymentDeadline(TERMIN, reservedAt, DEFAULT_PAYMENT_POLICY);
+    expect(deadline).toEqual(day("2026-10-16T10:00:00Z"));
+    expect(reminderDue(reservedAt, deadline, DEFAULT_PAYMENT_POLICY)).toEqual(day("2026-09-04T10:00:00Z"));
+  });
+
+  it("gives a late reservation its reminder plus a day to pay", () => {
+    const reservedAt = day("2026-10-15T10:00:00Z");
+    const deadline = paymentDeadline(TERMIN, reservedAt, DEFAULT_PAYMENT_POLICY);
+    expect(deadline).toEqual(day("2026-10-19T10:00:00Z"));
+    expect(reminderDue(reservedAt, deadline, DEFAULT_PAYMENT_POLICY)).toEqual(day("2026-10-18T10:00:00Z"));
+  });
+
+  it("never runs past the Termin", () => {
+    const reservedAt = day("2026-10-22T10:00:00Z");
+    expect(paymentDeadline(TERMIN, reservedAt, DEFAULT_PAYMENT_POLICY)).toEqual(TERMIN);
+  });
+
+  it("never schedules the reminder before the reservation", () => {
+    const reservedAt = day("2026-10-23T02:00:00Z"); // hours before the Termin
+    const deadline = paymentDeadline(TERMIN, reservedAt, DEFAULT_PAYMENT_POLICY);
+    expect(reminderDue(reservedAt, deadline, DEFAULT_PAYMENT_POLICY)).toEqual(reservedAt);
+  });
+});
+
+describe("processUnpaidReservations", () => {
+  const early = sampleSubmission({ reservedAt: day("2026-09-01T10:00:00Z") });
+
+  it("does nothing before the reminder is due", async () => {
+    mockGetReserved.mockResolvedValue([early]);
+    expect(await processUnpaidReservations(day("2026-09-03T10:00:00Z"))).toEqual({ reminded: 0, expired: 0 });
+    expect(mockMarkReminded).not.toHaveBeenCalled();
+  });
+
+  it("sends the reminder once it is due, with the deadline", async () => {
+    mockGetReserved.mockResolvedValue([early]);
+    expect(await processUnpaidReservations(day("2026-09-05T10:00:00Z"))).toEqual({ reminded: 1, expired: 0 });
+    expect(mockMarkReminded).toHaveBeenCalledWith("sub-1");
+    expect(mockSendReminder).toHaveBeenCalledWith(SAMPLE_WORKSHOP, expect.anything(), day("2026-10-16T10:00:00Z"));
+  });
+
+  it("does not remind twice", async () => {
+    mockGetReserved.mockResolvedValue([{ ...early, paymentReminderSentAt: day("2026-09-04T10:00:00Z") }]);
+    await processUnpaidReservations(day("2026-09-10T10:00:00Z"));
+    expect(mockMarkReminded).not.toHaveBeenCalled();
+  });
+
+  it("skips the mail when a parallel run recorded the reminder first", async () => {
+    mockGetReserved.mockResolvedValue([early]);
+    mockMarkReminded.mockResolvedValue(null);
+    expect((await processUnpaidReservations(day("2026-09-05T10:00:00Z"))).reminded).toBe(0);
+    expect(mockSendReminder).not.toHaveBeenCalled();
+  });
+
+  it("cancels at the deadline with reason payment_expired, mails, reopens and offers the slot", async () => {
+    mockGetReserved.mockResolvedValue([early]);
+    expect(await processUnpaidReservations(day("2026-10-16T10:00:00Z"))).toEqual({ reminded: 0, expired: 1 });
+    expect(mockMarkCancelled).toHaveBeenCalledWith("sub-1", "payment_expired");
+    expect(mockSendExpiry).toHaveBeenCalledWith(
+      expect.objectContaining({ workshop: SAMPLE_WORKSHOP, deadline: day("2026-10-16T10:00:00Z"), freeSlots: 1 }),
+    );
+    expect(mockReopen).toHaveBeenCalledWith("ws-1");
+    expect(mockNotifyWaitlist).toHaveBeenCalledWith(SAMPLE_WORKSHOP);
+  });
+
+  it("leaves a reservation alone that was paid in the meantime", async () => {
+    mockGetReserved.mockResolvedValue([early]);
+    mockMarkCancelled.mockResolvedValue(null);
+    expect((await processUnpaidReservations(day("2026-10-17T10:00:00Z"))).expired).toBe(0);
+    expect(mockSendExpiry).not.toHaveBeenCalled();
+    expect(mockNotifyWaitlist).not.toHaveBeenCalled();
+  });
+
+  it("only walks workshops whose Termin is still ahead", async () => {
+    const now = day("2026-09-05T10:00:00Z");
+    await processUnpaidReservations(now);
+    expect(mockWorkshops).toHaveBeenCalledWith(now);
+  });
+
+  it("leaves reservations of a workshop alone once its Termin has passed", async () => {
+    mockGetReserved.mockResolvedValue([early]);
+    expect(await processUnpaidReservations(day("2026-10-24T10:00:00Z"))).toEqual({ reminded: 0, expired: 0 });
+    expect(mockMarkCancelled).not.toHaveBeenCalled();
+    expect(mockSendExpiry).not.toHaveBeenCalled();
+    expect(mockNotifyWaitlist).not.toHaveBeenCalled();
+  });
+});
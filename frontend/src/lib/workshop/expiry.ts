@@ -0,0 +1,149 @@
+/**
+ * Unpaid workshop reservations — the reservations job (/api/cron/reservations).
+ *
+ * A Reservierung blocks a Slot until Daniel confirms the payment. So that an
+ * unpaid one can't block it forever, the job walks all open reservations:
+ *
+ *   reminder: WORKSHOP_PAYMENT_REMINDER_DAYS after the reservation, once —
+ *             Zahlungserinnerung naming the deadline
+ *   expiry:   at the payment deadline (WORKSHOP_PAYMENT_DEADLINE_DAYS before
+ *             the Termin) reserved → cancelled with reason payment_expired,
+ *             Ablauf-Storno to the lead, notice to Daniel, slot freed (the
+ *             workshop reopens and the Warteliste gets its offer)
+ *
+ * Only workshops whose Termin is still ahead are walked: once it has passed,
+ * leftover reservations are Daniel's to settle by hand — no Storno mails, no
+ * Warteliste offers for a date that is over.
+ *
+ * Every transition is guarded on the current status (a payment confirmed in
+ * between wins) and logged with its reason.
+ */
+
+import { createLogger } from "@/lib/logger";
+import {
+  getReservedSubmissions,
+  markCancelled,
+  markPaymentReminderSent,
+} from "@/db/workshop-submissions";
+import type { Workshop } from "@/db/schema";
+import { sendExpiryMails, sendPaymentReminderMail } from "./notifications";
+import { getUpcomingWorkshops } from "./queries";
+import { getFreeSlots, reopenSoldOut } from "./slots";
+import { notifyWaitlistSafely } from "./waitlist";
+
+const log = createLogger("WorkshopExpiry");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PaymentPolicy {
+  /** Days after the reservation until the Zahlungserinnerung. */
+  reminderDays: number;
+  /** Days before the Termin when unpaid reservations are cancelled. */
+  deadlineDays: number;
+}
+
+export const DEFAULT_PAYMENT_POLICY: PaymentPolicy = { reminderDays: 3, deadlineDays: 7 };
+
+function envDays(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/** Policy from env (WORKSHOP_PAYMENT_REMINDER_DAYS / _DEADLINE_DAYS), defaults 3 / 7. */
+export function paymentPolicy(): PaymentPolicy {
+  return {
+    reminderDays: envDays("WORKSHOP_PAYMENT_REMINDER_DAYS", DEFAULT_PAYMENT_POLICY.reminderDays),
+    deadlineDays: envDays("WORKSHOP_PAYMENT_DEADLINE_DAYS", DEFAULT_PAYMENT_POLICY.deadlineDays),
+  };
+}
+
+/**
+ * Payment deadline of one reservation: `deadlineDays` before the Termin — but
+ * a late reservation still gets its reminder plus one day to pay, capped at
+ * the Termin itself.
+ */
+export function paymentDeadline(termin: Date, reservedAt: Date, policy: PaymentPolicy): Date {
+  const base = termin.getTime() - policy.deadlineDays * DAY_MS;
+  const floor = reservedAt.getTime() + (policy.reminderDays + 1) * DAY_MS;
+  return new Date(Math.min(Math.max(base, floor), termin.getTime()));
+}
+
+/**
+ * When the Zahlungserinnerung is due: `reminderDays` in, at the latest a day
+ * before the deadline — but never before the reservation itself.
+ */
+export function reminderDue(reservedAt: Date, deadline: Date, policy: PaymentPolicy): Date {
+  const due = reservedAt.getTime() + policy.reminderDays * DAY_MS;
+  return new Date(Math.max(Math.min(due, deadline.getTime() - DAY_MS), reservedAt.getTime()));
+}
+
+export interface UnpaidReservationsResult {
+  reminded: number;
+  expired: number;
+}
+
+async function processWorkshop(
+  workshop: Workshop,
+  now: Date,
+  policy: PaymentPolicy,
+): Promise<UnpaidReservationsResult> {
+  const result: UnpaidReservationsResult = { reminded: 0, expired: 0 };
+  if (!workshop.termin) return result;
+  const termin = new Date(workshop.termin);
+  if (termin <= now) return result; // Termin is over — nothing left to remind or expire
+
+  for (const submission of await getReservedSubmissions(workshop.id)) {
+    const deadline = paymentDeadline(termin, new Date(submission.reservedAt), policy);
+
+    if (now >= deadline) {
+      const cancelled = await markCancelled(submission.id, "payment_expired");
+      if (!cancelled) continue; // paid or cancelled in the meantime
+      result.expired += 1;
+      log.info("Workshop submission cancelled", {
+        submissionId: cancelled.id,
+        workshopId: workshop.id,
+        reason: "payment_expired",
+        deadline: deadline.toISOString(),
+      });
+      await sendExpiryMails({ workshop, submission: cancelled, deadline, freeSlots: await getFreeSlots(workshop) });
+      continue;
+    }
+
+    if (!submission.paymentReminderSentAt && now >= reminderDue(new Date(submission.reservedAt), deadline, policy)) {
+      const reminded = await markPaymentReminderSent(submission.id);
+      if (!reminded) continue;
+      result.reminded += 1;
+      log.info("Workshop payment reminder sent", {
+        submissionId: reminded.id,
+        workshopId: workshop.id,
+        reason: "payment_open",
+        deadline: deadline.toISOString(),
+      });
+      await sendPaymentReminderMail(workshop, reminded, deadline);
+    }
+  }
+
+  if (result.expired > 0) {
+    try {
+      await reopenSoldOut(workshop.id);
+    } catch (error) {
+      log.error("Reopening the sold-out workshop failed (non-fatal)", error);
+    }
+    await notifyWaitlistSafely(workshop);
+  }
+  return result;
+}
+
+/** Remind and expire the open reservations of every workshop whose Termin is still ahead. */
+export async function processUnpaidReservations(
+  now: Date = new Date(),
+  policy: PaymentPolicy = paymentPolicy(),
+): Promise<UnpaidReservationsResult> {
+  const total: UnpaidReservationsResult = { reminded: 0, expired: 0 };
+  for (const workshop of await getUpcomingWorkshops(now)) {
+    const { reminded, expired } = await processWorkshop(workshop, now, policy);
+    total.reminded += reminded;
+    total.expired += expired;
+  }
+  return total;
+}
@@ -0,0 +1,42 @@
+import { buildTerminIcs } from './ics';
+
+const EVENT = {
+  uid: 'sub-1@danielkreuzhofer.de',
+  title: 'Workshop: KI-Souveränität im Mittelstand',
+  start: new Date('2026-10-23T10:00:00Z'),
+  durationMin: 90,
+  location: 'live online',
+  description: 'Zeile eins\nZeile zwei; mit, Sonderzeichen',
+  url: 'https://danielkreuzhofer.de/workshop/ki-souveraenitaet',
+};
+
+describe('buildTerminIcs', () => {
+  const ics = buildTerminIcs(EVENT, new Date('2026-09-02T10:00:00Z'));
+  const lines = ics.split('\r\n');
+
+  it('is one VEVENT inside a PUBLISH calendar with CRLF line endings', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('derives DTEND from the workshop duration (UTC)', () => {
+    expect(lines).toContain('DTSTART:20261023T100000Z');
+    expect(lines).toContain('DTEND:20261023T113000Z');
+    expect(lines).toContain('DTSTAMP:20260902T100000Z');
+  });
+
+  it('escapes TEXT values', () => {
+    expect(ics).toContain('DESCRIPTION:Zeile eins\\nZeile zwei\\; mit\\, Sonderzeichen');
+  });
+
+  it('folds lines longer than 75 characters', () => {
+    const long = buildTerminIcs({ ...EVENT, description: 'x'.repeat(200) });
+    for (const line of long.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(75);
+    }
+    expect(long).toContain('\r\n x');
+  });
+});
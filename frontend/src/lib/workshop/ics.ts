@@ -0,0 +1,59 @@
+/**
+ * iCalendar (.ics) invite for a Workshop-Termin — attached to the booking
+ * confirmation (Mail 4). Hand-rolled RFC 5545: one VEVENT, METHOD:PUBLISH
+ * (a calendar entry to import, not an organizer invitation that expects
+ * RSVPs). No dependency needed for this little text.
+ */
+
+export interface TerminEvent {
+  /** Stable per booking, so a re-sent mail updates instead of duplicating the entry. */
+  uid: string;
+  title: string;
+  start: Date;
+  durationMin: number;
+  location: string;
+  description: string;
+  url?: string;
+}
+
+/** UTC timestamp in the iCalendar basic format, e.g. 20261023T100000Z. */
+function icsDate(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 characters (RFC 5545 §3.1). */
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join("\r\n ");
+}
+
+export function buildTerminIcs(event: TerminEvent, now: Date = new Date()): string {
+  const end = new Date(event.start.getTime() + event.durationMin * 60 * 1000);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//danielkreuzhofer.de//Workshop//DE",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${icsDate(now)}`,
+    `DTSTART:${icsDate(event.start)}`,
+    `DTEND:${icsDate(end)}`,
+    `SUMMARY:${icsText(event.title)}`,
+    `LOCATION:${icsText(event.location)}`,
+    `DESCRIPTION:${icsText(event.description)}`,
+    ...(event.url ? [`URL:${event.url}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(fold).join("\r\n")}\r\n`;
+}
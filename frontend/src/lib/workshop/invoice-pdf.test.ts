@@ -0,0 +1,76 @@
+/**
+ * Workshop-Rechnung PDF — Pflichtangaben and the tax notes.
+ * @jest-environment node
+ */
+
+import { formatCents, invoiceFilename, invoiceNotes, renderInvoicePdf } from "./invoice-pdf";
+import { sampleInvoice } from "./__fixtures__/sample-submission";
+
+describe("formatCents", () => {
+  it("formats German style with EUR", () => {
+    expect(formatCents(11781)).toBe("117,81 EUR");
+    expect(formatCents(123456)).toBe("1.234,56 EUR");
+  });
+});
+
+describe("invoiceNotes", () => {
+  it("only confirms the payment for a standard invoice", () => {
+    expect(invoiceNotes(sampleInvoice())).toEqual(["Der Rechnungsbetrag wurde am 05.09.2026 dankend erhalten."]);
+  });
+
+  it("adds the reverse-charge note with the recipient's USt-IdNr.", () => {
+    const notes = invoiceNotes(
+      sampleInvoice({ taxTreatment: "reverse_charge", vatRatePercent: 0, recipientUstId: "ATU12345678" }),
+    );
+    expect(notes[0]).toContain("Steuerschuldnerschaft des Leistungsempfängers");
+    expect(notes[0]).toContain("ATU12345678");
+  });
+
+  it("adds the not-taxable note for a third-country recipient, without the §13b note", () => {
+    const notes = invoiceNotes(
+      sampleInvoice({ taxTreatment: "third_country", vatRatePercent: 0, recipientUstId: "CHE-123.456.789" }),
+    );
+    expect(notes[0]).toContain("Nicht im Inland steuerbare Leistung");
+    expect(notes[0]).toContain("§ 3a Abs. 2 UStG");
+    expect(notes[0]).toContain("CHE-123.456.789");
+    expect(notes.join(" ")).not.toContain("Reverse-Charge");
+  });
+
+  it("adds the §19 note for a Kleinunternehmer recipient", () => {
+    const notes = invoiceNotes(sampleInvoice({ recipientIsSmallBusiness: true, recipientUstId: null }));
+    expect(notes[0]).toContain("Kleinunternehmer im Sinne von § 19 UStG");
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("renders a PDF with number, issuer USt-IdNr. and amounts", () => {
+    const pdf = renderInvoicePdf(sampleInvoice());
+    const raw = pdf.toString("latin1");
+    expect(raw.startsWith("%PDF-")).toBe(true);
+    expect(raw).toContain("Rechnung WS-2026-0001");
+    expect(raw).toContain("USt-IdNr.: DE326351484");
+    expect(raw).toContain("Leistungsdatum: 23.10.2026");
+    expect(raw).toContain("USt. 19 %");
+    expect(raw).toContain("117,81 EUR");
+  });
+
+  it("names the reverse charge in the totals", () => {
+    const raw = renderInvoicePdf(
+      sampleInvoice({ taxTreatment: "reverse_charge", vatRatePercent: 0, vatCents: 0, grossCents: 9900 }),
+    ).toString("latin1");
+    expect(raw).toContain("USt. 0 % \\(Reverse-Charge\\)"); // parentheses are escaped in PDF strings
+  });
+
+  it("names the third-country treatment in the totals", () => {
+    const raw = renderInvoicePdf(
+      sampleInvoice({ taxTreatment: "third_country", vatRatePercent: 0, vatCents: 0, grossCents: 9900 }),
+    ).toString("latin1");
+    expect(raw).toContain("USt. 0 % \\(nicht steuerbar\\)");
+  });
+});
+
+describe("invoiceFilename", () => {
+  it("carries the invoice number", () => {
+    expect(invoiceFilename({ invoiceNumber: "WS-2026-0001" })).toBe("Rechnung-WS-2026-0001.pdf");
+  });
+});
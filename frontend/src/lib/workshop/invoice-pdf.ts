@@ -0,0 +1,163 @@
+/**
+ * Workshop-Rechnung as PDF (A4, jsPDF) — rendered from the stored invoice row
+ * on demand, for the booking mail attachment and the admin download alike.
+ *
+ * Carries the §14 Abs. 4 UStG Pflichtangaben: issuer + USt-IdNr., recipient,
+ * invoice number and date, Leistungsdatum, description, net / rate / tax /
+ * gross, plus the reverse-charge, third-country or §19 note where it applies.
+ */
+
+import { jsPDF } from "jspdf";
+import type { WorkshopInvoice } from "@/db/schema";
+import { INVOICE_ISSUER } from "./invoice";
+
+const MARGIN = 20;
+const PAGE_WIDTH = 210;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const LINE = 5;
+
+/** German date in Berlin local time. */
+function formatDate(value: Date | string): string {
+  return new Intl.DateTimeFormat("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    timeZone: "Europe/Berlin",
+  }).format(new Date(value));
+}
+
+/** 11781 → "117,81 EUR" (plain EUR: the standard PDF fonts have no reliable €). */
+export function formatCents(cents: number): string {
+  const euros = (cents / 100).toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${euros} EUR`;
+}
+
+export function invoiceFilename(invoice: Pick<WorkshopInvoice, "invoiceNumber">): string {
+  return `Rechnung-${invoice.invoiceNumber}.pdf`;
+}
+
+/** The legal notes under the totals, in print order. */
+export function invoiceNotes(invoice: WorkshopInvoice): string[] {
+  const notes: string[] = [];
+  if (invoice.taxTreatment === "reverse_charge") {
+    notes.push(
+      "Steuerschuldnerschaft des Leistungsempfängers (Reverse-Charge-Verfahren, § 13b UStG / Art. 196 MwStSystRL). " +
+        `USt-IdNr. des Leistungsempfängers: ${invoice.recipientUstId ?? ""}`,
+    );
+  }
+  if (invoice.taxTreatment === "third_country") {
+    notes.push(
+      "Nicht im Inland steuerbare Leistung (Leistungsort beim Leistungsempfänger im Drittland, § 3a Abs. 2 UStG). " +
+        `Unternehmer-Identifikationsnummer des Leistungsempfängers: ${invoice.recipientUstId ?? ""}`,
+    );
+  }
+  if (invoice.recipientIsSmallBusiness) {
+    notes.push(
+      "Der Leistungsempfänger hat angegeben, Kleinunternehmer im Sinne von § 19 UStG zu sein (keine USt-IdNr.). " +
+        "Die Umsatzsteuer ist regulär ausgewiesen.",
+    );
+  }
+  notes.push(`Der Rechnungsbetrag wurde am ${formatDate(invoice.paidAt)} dankend erhalten.`);
+  return notes;
+}
+
+/** Render the invoice as PDF bytes. */
+export function renderInvoicePdf(invoice: WorkshopInvoice): Buffer {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  let y = MARGIN;
+
+  const text = (value: string, x: number, opts: { bold?: boolean; size?: number; align?: "right" | "center" } = {}) => {
+    doc.setFont("helvetica", opts.bold ? "bold" : "normal");
+    doc.setFontSize(opts.size ?? 10);
+    doc.text(value, x, y, opts.align ? { align: opts.align } : undefined);
+  };
+
+  // Absenderzeile + Empfänger
+  text(`${INVOICE_ISSUER.name} · ${INVOICE_ISSUER.street} · ${INVOICE_ISSUER.zipCity}`, MARGIN, { size: 8 });
+  y += 10;
+  for (const line of [
+    invoice.recipientCompany,
+    invoice.recipientContactName,
+    invoice.recipientStreet,
+    `${invoice.recipientZip} ${invoice.recipientCity}`,
+    invoice.recipientCountry,
+  ]) {
+    text(line, MARGIN);
+    y += LINE;
+  }
+
+  // Rechnungskopf rechts
+  y = MARGIN + 10;
+  for (const [label, value] of [
+    ["Rechnungsnummer", invoice.invoiceNumber],
+    ["Rechnungsdatum", formatDate(invoice.issuedAt)],
+    ["Leistungsdatum", formatDate(invoice.serviceDate)],
+    ["USt-IdNr.", INVOICE_ISSUER.ustId],
+  ] as const) {
+    text(`${label}: ${value}`, RIGHT, { align: "right" });
+    y += LINE;
+  }
+
+  y = MARGIN + 50;
+  text(`Rechnung ${invoice.invoiceNumber}`, MARGIN, { bold: true, size: 16 });
+  y += 12;
+
+  // Position
+  text("Pos.", MARGIN, { bold: true });
+  text("Leistung", MARGIN + 12, { bold: true });
+  text("Betrag (netto)", RIGHT, { bold: true, align: "right" });
+  y += 2;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(MARGIN, y, RIGHT, y);
+  y += LINE;
+  text("1", MARGIN);
+  doc.setFont("helvetica", "normal");
+  const descriptionLines: string[] = doc.splitTextToSize(invoice.description, 120);
+  text(formatCents(invoice.netCents), RIGHT, { align: "right" });
+  for (const line of descriptionLines) {
+    text(line, MARGIN + 12);
+    y += LINE;
+  }
+  y += 2;
+  doc.line(MARGIN, y, RIGHT, y);
+  y += LINE + 1;
+
+  // Summen
+  const vatLabel =
+    invoice.taxTreatment === "reverse_charge"
+      ? "USt. 0 % (Reverse-Charge)"
+      : invoice.taxTreatment === "third_country"
+        ? "USt. 0 % (nicht steuerbar)"
+        : `USt. ${invoice.vatRatePercent} %`;
+  for (const [label, cents, bold] of [
+    ["Summe netto", invoice.netCents, false],
+    [vatLabel, invoice.vatCents, false],
+    ["Rechnungsbetrag", invoice.grossCents, true],
+  ] as const) {
+    text(label, RIGHT - 50, { bold });
+    text(formatCents(cents), RIGHT, { bold, align: "right" });
+    y += LINE + 1;
+  }
+
+  // Hinweise
+  y += 6;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  for (const note of invoiceNotes(invoice)) {
+    for (const line of doc.splitTextToSize(note, RIGHT - MARGIN) as string[]) {
+      doc.text(line, MARGIN, y);
+      y += 4.5;
+    }
+    y += 2;
+  }
+
+  // Fußzeile
+  y = 280;
+  text(
+    `${INVOICE_ISSUER.name} · ${INVOICE_ISSUER.street} · ${INVOICE_ISSUER.zipCity} · ${INVOICE_ISSUER.email} · USt-IdNr. ${INVOICE_ISSUER.ustId}`,
+    PAGE_WIDTH / 2,
+    { size: 8, align: "center" },
+  );
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
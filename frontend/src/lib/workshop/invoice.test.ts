@@ -0,0 +1,190 @@
+/**
+ * Workshop-Rechnung — tax treatment, amounts, numbering and idempotent issue.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockInsert = jest.fn();
+jest.mock("@/db/workshop-invoices", () => ({
+  insertInvoiceWithNextNumber: (...a: unknown[]) => mockInsert(...a),
+}));
+
+import {
+  formatInvoiceNumber,
+  invoiceAmounts,
+  issueInvoice,
+  issueInvoiceSafely,
+  taxTreatment,
+} from "./invoice";
+import { validateWorkshopSignup } from "./validation";
+import { SAMPLE_WORKSHOP, sampleSubmission } from "./__fixtures__/sample-submission";
+
+const BOOKED = sampleSubmission({ status: "booked", bookedAt: new Date("2026-09-05T09:00:00Z") });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  // Run the builder with sequence 7, like the DB would after six invoices.
+  mockInsert.mockImplementation(async (_id, _year, build) => build(7));
+});
+
+describe("taxTreatment", () => {
+  it("is standard for a domestic company with USt-IdNr.", () => {
+    expect(taxTreatment(sampleSubmission())).toBe("standard");
+  });
+
+  it("is reverse charge for a company in another EU country with USt-IdNr.", () => {
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "Österreich", invoiceUstId: "ATU12345678" }))).toBe(
+      "reverse_charge",
+    );
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: " France ", invoiceUstId: "FR12345678901" }))).toBe(
+      "reverse_charge",
+    );
+  });
+
+  it("recognizes an EU recipient by the USt-IdNr. prefix when the country name is unknown", () => {
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "Oostenrijk", invoiceUstId: "atu12345678" }))).toBe(
+      "reverse_charge",
+    );
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "Hellas", invoiceUstId: "EL123456789" }))).toBe(
+      "reverse_charge",
+    );
+  });
+
+  it("is not taxable in Germany for a company outside the EU with a business ID", () => {
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "Schweiz", invoiceUstId: "CHE-123.456.789" }))).toBe(
+      "third_country",
+    );
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "United Kingdom", invoiceUstId: "GB123456789" }))).toBe(
+      "third_country",
+    );
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "USA", invoiceUstId: "12-3456789" }))).toBe(
+      "third_country",
+    );
+  });
+
+  it("is standard for a foreign recipient without an ID number", () => {
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "Schweiz", invoiceUstId: null }))).toBe("standard");
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: "Österreich", invoiceUstId: null }))).toBe("standard");
+  });
+
+  it("is standard for a Kleinunternehmer, domestic or abroad", () => {
+    expect(taxTreatment(sampleSubmission({ isSmallBusiness: true, invoiceUstId: null }))).toBe("standard");
+    expect(
+      taxTreatment(sampleSubmission({ isSmallBusiness: true, invoiceCountry: "Österreich", invoiceUstId: "ATU1" })),
+    ).toBe("standard");
+    expect(
+      taxTreatment(sampleSubmission({ isSmallBusiness: true, invoiceCountry: "Schweiz", invoiceUstId: "CHE-1" })),
+    ).toBe("standard");
+  });
+
+  it("treats Germany spelled differently as domestic", () => {
+    expect(taxTreatment(sampleSubmission({ invoiceCountry: " Germany " }))).toBe("standard");
+  });
+
+  it("follows the Rechnungsempfänger data as the signup form accepts it", () => {
+    const treatmentOf = (invoiceCountry: string, invoiceUstId: string) => {
+      const result = validateWorkshopSignup({
+        firstName: "Max",
+        lastName: "Mustermann",
+        email: "max@firma.example",
+        company: "Firma",
+        invoiceCompany: "Firma",
+        invoiceContactName: "Max Mustermann",
+        invoiceEmail: "max@firma.example",
+        invoiceStreet: "Hauptstr. 1",
+        invoiceZip: "1010",
+        invoiceCity: "Wien",
+        invoiceCountry,
+        isSmallBusiness: false,
+        invoiceUstId,
+        paymentPreference: "bank_transfer",
+      });
+      if (!result.ok) throw new Error(JSON.stringify(result.errors));
+      // Stored the way the submit route stores it.
+      return taxTreatment(
+        sampleSubmission({
+          invoiceCountry: result.data.invoiceCountry,
+          invoiceUstId: result.data.invoiceUstId ?? null,
+          isSmallBusiness: result.data.isSmallBusiness,
+        }),
+      );
+    };
+
+    expect(treatmentOf("Deutschland", "DE 123 456 789")).toBe("standard");
+    expect(treatmentOf("Österreich", "ATU12345678")).toBe("reverse_charge");
+    expect(treatmentOf("Niederlande", "NL123456789B01")).toBe("reverse_charge");
+    expect(treatmentOf("Schweiz", "CHE-123.456.789")).toBe("third_country");
+    expect(treatmentOf("USA", "12-3456789")).toBe("third_country");
+  });
+});
+
+describe("invoiceAmounts", () => {
+  it("adds 19 % USt on the net price", () => {
+    expect(invoiceAmounts(99, "standard")).toEqual({ vatRatePercent: 19, netCents: 9900, vatCents: 1881, grossCents: 11781 });
+  });
+
+  it("charges no USt under reverse charge", () => {
+    expect(invoiceAmounts(99, "reverse_charge")).toEqual({ vatRatePercent: 0, netCents: 9900, vatCents: 0, grossCents: 9900 });
+  });
+
+  it("charges no USt for a third-country recipient", () => {
+    expect(invoiceAmounts(99, "third_country")).toEqual({ vatRatePercent: 0, netCents: 9900, vatCents: 0, grossCents: 9900 });
+  });
+});
+
+describe("formatInvoiceNumber", () => {
+  it("pads the sequence per year", () => {
+    expect(formatInvoiceNumber(2026, 7)).toBe("WS-2026-0007");
+    expect(formatInvoiceNumber(2027, 12345)).toBe("WS-2027-12345");
+  });
+});
+
+describe("issueInvoice", () => {
+  it("snapshots recipient, amounts and dates under the next number", async () => {
+    const invoice = await issueInvoice(SAMPLE_WORKSHOP, BOOKED);
+    expect(mockInsert).toHaveBeenCalledWith("sub-1", expect.any(Number), expect.any(Function));
+    expect(invoice).toMatchObject({
+      invoiceNumber: expect.stringMatching(/^WS-\d{4}-0007$/),
+      submissionId: "sub-1",
+      workshopId: "ws-1",
+      serviceDate: SAMPLE_WORKSHOP.termin,
+      paidAt: BOOKED.bookedAt,
+      recipientCompany: "Mustermann GmbH",
+      recipientUstId: "DE123456789",
+      recipientIsSmallBusiness: false,
+      taxTreatment: "standard",
+      grossCents: 11781,
+    });
+    expect(invoice.description).toContain("KI-Souveränität im Mittelstand");
+  });
+
+  it("issues a third-country invoice without USt", async () => {
+    const swiss = { ...BOOKED, invoiceCountry: "Schweiz", invoiceUstId: "CHE-123.456.789" };
+    expect(await issueInvoice(SAMPLE_WORKSHOP, swiss)).toMatchObject({
+      recipientCountry: "Schweiz",
+      taxTreatment: "third_country",
+      vatRatePercent: 0,
+      vatCents: 0,
+      grossCents: 9900,
+    });
+  });
+
+  it("refuses a submission that is not booked", async () => {
+    await expect(issueInvoice(SAMPLE_WORKSHOP, sampleSubmission())).rejects.toThrow("not booked");
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it("refuses a workshop without Termin (no Leistungsdatum)", async () => {
+    await expect(issueInvoice({ ...SAMPLE_WORKSHOP, termin: null }, BOOKED)).rejects.toThrow("no termin");
+  });
+});
+
+describe("issueInvoiceSafely", () => {
+  it("returns null instead of throwing", async () => {
+    mockInsert.mockRejectedValue(new Error("db down"));
+    expect(await issueInvoiceSafely(SAMPLE_WORKSHOP, BOOKED)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Workshop-Rechnung — issued when a submission becomes booked (CONTEXT.md
+ * "Rechnung").
+ *
+ * Tax treatment follows the Rechnungsempfänger data from the form:
+ *
+ *   standard:       19 % USt on the net price (domestic, and every recipient
+ *                   without a foreign USt-IdNr.)
+ *   reverse_charge: recipient in another EU country with USt-IdNr., not
+ *                   Kleinunternehmer — 0 % and the §13b note, the recipient
+ *                   owes the tax
+ *   third_country:  recipient outside the EU with a business ID, not
+ *                   Kleinunternehmer — 0 %, "nicht im Inland steuerbar"
+ *                   (Leistungsort beim Empfänger, §3a Abs. 2 UStG)
+ *
+ * The treatment follows the USt-IdNr. (tax-id.ts): its prefix and format say
+ * domestic, EU or third country. The signup schema only accepts an ID that
+ * fits `invoiceCountry`, so the free-text country is not consulted here; an
+ * ID of no known format gets the regular USt.
+ *
+ * A Kleinunternehmer recipient (§19 UStG) still pays the regular USt; the
+ * invoice says so, because it carries no USt-IdNr. of the recipient.
+ *
+ * Numbers are WS-<year>-<0001…>, gap-free per year (db/workshop-invoices.ts).
+ */
+
+import { createLogger } from "@/lib/logger";
+import { insertInvoiceWithNextNumber } from "@/db/workshop-invoices";
+import type { Workshop, WorkshopInvoice, WorkshopSubmission } from "@/db/schema";
+import { normalizeTaxId, taxIdRegion } from "./tax-id";
+
+const log = createLogger("WorkshopInvoice");
+
+/** Rechnungssteller — same data as the Impressum. */
+export const INVOICE_ISSUER = {
+  name: "Daniel Kreuzhofer",
+  street: "Hofmarkstr. 8",
+  zipCity: "86316 Friedberg",
+  country: "Deutschland",
+  email: "daniel@kreuzhofer.de",
+  ustId: "DE326351484",
+} as const;
+
+export const VAT_RATE_PERCENT = 19;
+
+export type TaxTreatment = "standard" | "reverse_charge" | "third_country";
+
+/** Tax treatment from the Rechnungsempfänger data (see header). */
+export function taxTreatment(
+  submission: Pick<WorkshopSubmission, "invoiceUstId" | "isSmallBusiness">,
+): TaxTreatment {
+  if (submission.isSmallBusiness || !submission.invoiceUstId) return "standard";
+  const region = taxIdRegion(normalizeTaxId(submission.invoiceUstId));
+  if (region === "eu") return "reverse_charge";
+  if (region === "third_country") return "third_country";
+  return "standard";
+}
+
+export interface InvoiceAmounts {
+  vatRatePercent: number;
+  netCents: number;
+  vatCents: number;
+  grossCents: number;
+}
+
+/** Net → VAT → gross in cents; VAT rounded half-up to the cent. */
+export function invoiceAmounts(netEur: number, treatment: TaxTreatment): InvoiceAmounts {
+  const netCents = netEur * 100;
+  const vatRatePercent = treatment === "standard" ? VAT_RATE_PERCENT : 0;
+  const vatCents = Math.round((netCents * vatRatePercent) / 100);
+  return { vatRatePercent, netCents, vatCents, grossCents: netCents + vatCents };
+}
+
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `WS-${year}-${String(sequence).padStart(4, "0")}`;
+}
+
+/** Calendar year in Berlin — an invoice issued on New Year's Eve night belongs to the old year. */
+function berlinYear(date: Date): number {
+  return Number(new Intl.DateTimeFormat("de-DE", { year: "numeric", timeZone: "Europe/Berlin" }).format(date));
+}
+
+/**
+ * Issue the invoice of a booked submission (or return the one it already
+ * has). Throws when the submission is not booked or the workshop has no Termin.
+ */
+export async function issueInvoice(workshop: Workshop, submission: WorkshopSubmission): Promise<WorkshopInvoice> {
+  if (submission.status !== "booked" || !submission.bookedAt) {
+    throw new Error(`Submission ${submission.id} is not booked`);
+  }
+  if (!workshop.termin) throw new Error(`Workshop ${workshop.id} has no termin`);
+
+  const now = new Date();
+  const year = berlinYear(now);
+  const treatment = taxTreatment(submission);
+  const amounts = invoiceAmounts(workshop.priceNetEur, treatment);
+
+  const invoice = await insertInvoiceWithNextNumber(submission.id, year, (sequence) => ({
+    invoiceNumber: formatInvoiceNumber(year, sequence),
+    submissionId: submission.id,
+    workshopId: workshop.id,
+    issuedAt: now,
+    serviceDate: new Date(workshop.termin!),
+    paidAt: new Date(submission.bookedAt!),
+    description: `Workshop „${workshop.title}“ (${workshop.locationLabel}), 1 Platz`,
+    recipientCompany: submission.invoiceCompany,
+    recipientContactName: submission.invoiceContactName,
+    recipientStreet: submission.invoiceStreet,
+    recipientZip: submission.invoiceZip,
+    recipientCity: submission.invoiceCity,
+    recipientCountry: submission.invoiceCountry,
+    recipientUstId: submission.invoiceUstId,
+    recipientIsSmallBusiness: submission.isSmallBusiness,
+    taxTreatment: treatment,
+    ...amounts,
+  }));
+  log.info("Workshop invoice issued", { submissionId: submission.id, invoiceNumber: invoice.invoiceNumber });
+  return invoice;
+}
+
+/** `issueInvoice` for the booking path — the booking stands even if the invoice fails. */
+export async function issueInvoiceSafely(
+  workshop: Workshop,
+  submission: WorkshopSubmission,
+): Promise<WorkshopInvoice | null> {
+  try {
+    return await issueInvoice(workshop, submission);
+  } catch (error) {
+    log.error("Workshop invoice failed (non-fatal)", error);
+    return null;
+  }
+}
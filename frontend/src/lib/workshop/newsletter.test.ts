@@ -0,0 +1,68 @@
+/**
+ * Workshop newsletter DOI — hashed token lookup, idempotent confirm, CleverReach push.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockFind = jest.fn();
+const mockConfirm = jest.fn();
+jest.mock("@/db/workshop-submissions", () => ({
+  findByNewsletterDoiToken: (...a: unknown[]) => mockFind(...a),
+  confirmNewsletterDoi: (...a: unknown[]) => mockConfirm(...a),
+}));
+
+jest.mock("./queries", () => ({
+  getWorkshopById: async () => ({ slug: "ki-souveraenitaet" }),
+}));
+
+const mockAddNewsletter = jest.fn();
+let cleverreachConfigured = true;
+jest.mock("@/lib/scorecard/cleverreach", () => ({
+  addConfirmedNewsletterLead: (...a: unknown[]) => mockAddNewsletter(...a),
+  isCleverReachConfigured: () => cleverreachConfigured,
+}));
+
+import { confirmWorkshopNewsletter } from "./newsletter";
+import { hashToken } from "./tokens";
+import { sampleSubmission } from "./__fixtures__/sample-submission";
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  cleverreachConfigured = true;
+  mockAddNewsletter.mockResolvedValue(undefined);
+});
+
+describe("confirmWorkshopNewsletter", () => {
+  it("notfound for an unknown token", async () => {
+    mockFind.mockResolvedValue(null);
+    expect(await confirmWorkshopNewsletter("nope")).toEqual({ status: "notfound" });
+    expect(mockFind).toHaveBeenCalledWith(hashToken("nope"));
+  });
+
+  it("confirms and pushes the lead to CleverReach with workshop tags", async () => {
+    mockFind.mockResolvedValue(sampleSubmission({ newsletterOptIn: true }));
+    expect(await confirmWorkshopNewsletter("doi")).toEqual({ status: "confirmed" });
+    expect(mockConfirm).toHaveBeenCalledWith("sub-1");
+    expect(mockAddNewsletter).toHaveBeenCalledWith({
+      email: "max@firma.de",
+      tags: ["workshop", "ki-souveraenitaet"],
+      source: "workshop-ki-souveraenitaet",
+    });
+  });
+
+  it("is idempotent on a repeat click", async () => {
+    mockFind.mockResolvedValue(sampleSubmission({ newsletterDoiConfirmedAt: new Date() }));
+    expect(await confirmWorkshopNewsletter("doi")).toEqual({ status: "already" });
+    expect(mockConfirm).not.toHaveBeenCalled();
+    expect(mockAddNewsletter).not.toHaveBeenCalled();
+  });
+
+  it("still confirms when the CleverReach push fails", async () => {
+    mockFind.mockResolvedValue(sampleSubmission());
+    mockAddNewsletter.mockRejectedValue(new Error("CR down"));
+    expect(await confirmWorkshopNewsletter("doi")).toEqual({ status: "confirmed" });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Workshop newsletter Double-Opt-in — idempotent confirm. Same hybrid model as
+ * the scorecards: our own DOI, then the confirmed lead goes to CleverReach as
+ * an active receiver (tags only, best-effort). Token hashed per ADR-0002.
+ */
+
+import { createLogger } from "@/lib/logger";
+import { confirmNewsletterDoi, findByNewsletterDoiToken } from "@/db/workshop-submissions";
+import { addConfirmedNewsletterLead, isCleverReachConfigured } from "@/lib/scorecard/cleverreach";
+import { getWorkshopById } from "./queries";
+import { hashToken } from "./tokens";
+
+const log = createLogger("WorkshopNewsletter");
+
+export type NewsletterConfirmResult = { status: "confirmed" } | { status: "already" } | { status: "notfound" };
+
+export async function confirmWorkshopNewsletter(token: string): Promise<NewsletterConfirmResult> {
+  const submission = await findByNewsletterDoiToken(hashToken(token));
+  if (!submission) return { status: "notfound" };
+  if (submission.newsletterDoiConfirmedAt) return { status: "already" };
+
+  await confirmNewsletterDoi(submission.id);
+
+  if (isCleverReachConfigured()) {
+    try {
+      const workshop = await getWorkshopById(submission.workshopId);
+      const slug = workshop?.slug ?? "workshop";
+      await addConfirmedNewsletterLead({
+        email: submission.email,
+        tags: ["workshop", slug],
+        source: `workshop-${slug}`,
+      });
+    } catch (error) {
+      log.error("Workshop newsletter CleverReach push failed (non-fatal)", error);
+    }
+  }
+
+  return { status: "confirmed" };
+}
@@ -0,0 +1,203 @@
+/**
+ * Workshop funnel mails — rendered through the real Handlebars templates.
+ * @jest-environment node
+ */
+
+const sendMail = jest.fn().mockResolvedValue(undefined);
+jest.mock("@/lib/email/transporter", () => ({
+  isEmailConfigured: () => true,
+  getTransporter: () => ({ sendMail }),
+  getFrom: () => "daniel@kreuzhofer.de",
+}));
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+import {
+  sendBookingMail,
+  sendCancellationMail,
+  sendExpiryMails,
+  sendPaymentReminderMail,
+  sendReservationMails,
+  overviewUrl,
+} from "./notifications";
+import { hashToken } from "./tokens";
+import { SAMPLE_WORKSHOP, sampleInvoice, sampleSubmission } from "./__fixtures__/sample-submission";
+
+const ENV = process.env;
+const TOKENS = { confirmPaymentToken: "conf_tok", cancelToken: "cancel_tok", newsletterDoiToken: null };
+
+beforeEach(() => {
+  sendMail.mockClear();
+  process.env = { ...ENV, BASE_URL: "https://x.test" };
+  delete process.env.WORKSHOP_ADMIN_EMAIL;
+  delete process.env.WORKSHOP_ADMIN_TOKEN;
+  delete process.env.WORKSHOP_PREWORK_URL;
+});
+afterAll(() => {
+  process.env = ENV;
+});
+
+function mailTo(to: string) {
+  return sendMail.mock.calls.map((c) => c[0]).find((m) => m.to === to);
+}
+
+describe("sendReservationMails", () => {
+  it("sends the reservation confirmation and the admin notification (no DOI without opt-in)", async () => {
+    await sendReservationMails({ workshop: SAMPLE_WORKSHOP, submission: sampleSubmission(), tokens: TOKENS, freeSlots: 4 });
+    expect(sendMail).toHaveBeenCalledTimes(2);
+    const reservation = mailTo("max@firma.de");
+    expect(reservation.subject).toBe("Dein Platz ist reserviert");
+    expect(reservation.html).toContain("KI-Souveränität im Mittelstand");
+    expect(reservation.html).toContain("99 € netto");
+    expect(reservation.html).toContain("Überweisung");
+    expect(reservation.cc).toBeUndefined();
+  });
+
+  it("puts the Zweit-Person in CC and says who registered them", async () => {
+    await sendReservationMails({
+      workshop: SAMPLE_WORKSHOP,
+      submission: sampleSubmission({ secondPersonName: "Anna Beispiel", secondPersonEmail: "anna@firma.de" }),
+      tokens: TOKENS,
+      freeSlots: 4,
+    });
+    const reservation = mailTo("max@firma.de");
+    expect(reservation.cc).toBe("anna@firma.de");
+    expect(reservation.html).toContain("Du hast Anna Beispiel als zweite Person");
+  });
+
+  it("sends the newsletter DOI with the plaintext token when opted in", async () => {
+    await sendReservationMails({
+      workshop: SAMPLE_WORKSHOP,
+      submission: sampleSubmission({ newsletterOptIn: true }),
+      tokens: { ...TOKENS, newsletterDoiToken: "doi_tok" },
+      freeSlots: 4,
+    });
+    const doi = sendMail.mock.calls.map((c) => c[0]).find((m) => m.subject.includes("Newsletter"));
+    expect(doi.to).toBe("max@firma.de");
+    expect(doi.html).toContain("https://x.test/workshop/newsletter-bestaetigen?token=doi_tok");
+  });
+
+  it("sends Daniel all signup data plus the confirm + cancel magic links", async () => {
+    process.env.WORKSHOP_ADMIN_EMAIL = "admin@kreuzhofer.de";
+    await sendReservationMails({ workshop: SAMPLE_WORKSHOP, submission: sampleSubmission(), tokens: TOKENS, freeSlots: 4 });
+    const admin = mailTo("admin@kreuzhofer.de");
+    expect(admin.subject).toBe("Neue Workshop-Reservierung: KI-Souveränität im Mittelstand");
+    expect(admin.html).toContain("https://x.test/api/workshop/action?token=conf_tok");
+    expect(admin.html).toContain("https://x.test/api/workshop/action?token=cancel_tok");
+    expect(admin.html).toContain("DE123456789");
+    expect(admin.html).toContain("Hauptstr. 1");
+    expect(admin.html).toContain("noch 4 Slot(s) frei");
+    expect(admin.html).not.toContain("Daniel only");
+  });
+
+  it("adds the Übersichts-Link (Daniel only) when the env token matches the stored hash", async () => {
+    process.env.WORKSHOP_ADMIN_TOKEN = "admin_plain";
+    const workshop = { ...SAMPLE_WORKSHOP, adminToken: hashToken("admin_plain") };
+    await sendReservationMails({ workshop, submission: sampleSubmission(), tokens: TOKENS, freeSlots: 4 });
+    const admin = mailTo("daniel@kreuzhofer.de");
+    expect(admin.html).toContain("Daniel only");
+    expect(admin.html).toContain("https://x.test/workshop/admin?token=admin_plain");
+  });
+
+  it("never throws when a mail fails (the reservation is already stored)", async () => {
+    sendMail.mockRejectedValueOnce(new Error("SMTP down"));
+    await expect(
+      sendReservationMails({ workshop: SAMPLE_WORKSHOP, submission: sampleSubmission(), tokens: TOKENS, freeSlots: 4 }),
+    ).resolves.toBeUndefined();
+    expect(sendMail).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("overviewUrl", () => {
+  it("is undefined for a stale env token", () => {
+    process.env.WORKSHOP_ADMIN_TOKEN = "old";
+    expect(overviewUrl({ ...SAMPLE_WORKSHOP, adminToken: hashToken("new") })).toBeUndefined();
+  });
+});
+
+describe("sendBookingMail", () => {
+  it("attaches the .ics invite and CCs the Zweit-Person", async () => {
+    await sendBookingMail(
+      SAMPLE_WORKSHOP,
+      sampleSubmission({ status: "booked", secondPersonName: "Anna Beispiel", secondPersonEmail: "anna@firma.de" }),
+    );
+    const mail = sendMail.mock.calls[0][0];
+    expect(mail.to).toBe("max@firma.de");
+    expect(mail.cc).toBe("anna@firma.de");
+    expect(mail.attachments[0].filename).toBe("workshop-termin.ics");
+    expect(mail.attachments[0].content).toContain("DTSTART:20261023T100000Z");
+    expect(mail.html).toContain("Anna Beispiel");
+  });
+
+  it("attaches the invoice PDF when one was issued", async () => {
+    await sendBookingMail(SAMPLE_WORKSHOP, sampleSubmission({ status: "booked" }), sampleInvoice());
+    const mail = sendMail.mock.calls[0][0];
+    expect(mail.attachments).toHaveLength(2);
+    expect(mail.attachments[1]).toMatchObject({ filename: "Rechnung-WS-2026-0001.pdf", contentType: "application/pdf" });
+    expect(mail.attachments[1].content.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(mail.html).toContain("Die Rechnung liegt als PDF bei (Rechnung-WS-2026-0001.pdf)");
+  });
+
+  it("sends without an invoice attachment when none could be issued", async () => {
+    await sendBookingMail(SAMPLE_WORKSHOP, sampleSubmission({ status: "booked" }), null);
+    const mail = sendMail.mock.calls[0][0];
+    expect(mail.attachments).toHaveLength(1);
+    expect(mail.html).not.toContain("Die Rechnung liegt als PDF bei");
+  });
+
+  it("links the Pre-Work when configured, placeholder copy otherwise", async () => {
+    await sendBookingMail(SAMPLE_WORKSHOP, sampleSubmission());
+    expect(sendMail.mock.calls[0][0].html).toContain("spätestens zwei Wochen vor dem Termin");
+
+    process.env.WORKSHOP_PREWORK_URL = "https://x.test/downloads/pre-work.pdf";
+    await sendBookingMail(SAMPLE_WORKSHOP, sampleSubmission());
+    expect(sendMail.mock.calls[1][0].html).toContain("https://x.test/downloads/pre-work.pdf");
+  });
+
+  it("skips the mail when the workshop has no termin", async () => {
+    await sendBookingMail({ ...SAMPLE_WORKSHOP, termin: null }, sampleSubmission());
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendCancellationMail", () => {
+  it("informs the Anmeldende Person without CC", async () => {
+    await sendCancellationMail(
+      SAMPLE_WORKSHOP,
+      sampleSubmission({ status: "cancelled", secondPersonEmail: "anna@firma.de", secondPersonName: "Anna" }),
+    );
+    const mail = sendMail.mock.calls[0][0];
+    expect(mail.subject).toBe("Deine Workshop-Reservierung ist storniert");
+    expect(mail.cc).toBeUndefined();
+    expect(mail.html).toContain("Der Platz ist wieder frei");
+  });
+});
+
+describe("unpaid reservation mails", () => {
+  const deadline = new Date("2026-10-16T10:00:00Z");
+
+  it("reminds the lead of the open payment and names the deadline", async () => {
+    await sendPaymentReminderMail(SAMPLE_WORKSHOP, sampleSubmission(), deadline);
+    const reminder = mailTo("max@firma.de");
+    expect(reminder.subject).toBe("Erinnerung: Deine Workshop-Zahlung ist noch offen");
+    expect(reminder.html).toContain("16.10.2026, 12:00 Uhr");
+    expect(reminder.html).toContain("Überweisung");
+  });
+
+  it("tells the lead and Daniel about the auto-cancel", async () => {
+    await sendExpiryMails({
+      workshop: SAMPLE_WORKSHOP,
+      submission: sampleSubmission({ status: "cancelled", cancelReason: "payment_expired" }),
+      deadline,
+      freeSlots: 1,
+    });
+    expect(sendMail).toHaveBeenCalledTimes(2);
+    expect(mailTo("max@firma.de").subject).toBe("Deine Workshop-Reservierung ist abgelaufen");
+    const admin = mailTo("daniel@kreuzhofer.de");
+    expect(admin.subject).toBe("Reservierung automatisch storniert: KI-Souveränität im Mittelstand");
+    expect(admin.html).toContain("jetzt 1 Slot(s) frei");
+    expect(admin.html).toContain("Zahlungsfrist abgelaufen");
+    expect(admin.html).not.toContain("/api/workshop/action");
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Workshop funnel mails — who gets which mail when (CONTEXT.md "Workshop").
+ *
+ *   submit:          Reservierungs-Bestätigung (+ Zweit-Person CC), Newsletter-DOI
+ *                    (only with opt-in), Admin-Notification-Mail with magic links
+ *   confirm_payment: Buchungs-Bestätigung with .ics, Rechnung (PDF) and
+ *                    Pre-Work-Link (+ CC)
+ *   cancel:          Storno-Bestätigung
+ *   reservations job: Zahlungserinnerung; after the payment deadline the
+ *                    Ablauf-Storno to the lead plus a notice to Daniel
+ *
+ * Every mail is best-effort: the reservation/transition is already committed,
+ * so a provider hiccup is logged, never surfaced to the lead. The submit route
+ * checks `isEmailConfigured()` up front instead.
+ */
+
+import { createLogger } from "@/lib/logger";
+import { getFrom } from "@/lib/email/transporter";
+import {
+  sendWorkshopAdminExpired,
+  sendWorkshopAdminNotification,
+  sendWorkshopBooking,
+  sendWorkshopCancellation,
+  sendWorkshopNewsletterDoi,
+  sendWorkshopPaymentReminder,
+  sendWorkshopReservation,
+  sendWorkshopReservationExpired,
+} from "@/lib/email/send";
+import { formatTermin } from "@/components/workshop/WorkshopSections";
+import type { Workshop, WorkshopInvoice, WorkshopSubmission } from "@/db/schema";
+import { baseUrl } from "@/lib/scorecard/tokens";
+import { OVERVIEW_COLUMNS, PAYMENT_LABELS, formatDateTime } from "./admin";
+import { buildTerminIcs } from "./ics";
+import { invoiceFilename, renderInvoicePdf } from "./invoice-pdf";
+import { hashToken } from "./tokens";
+
+const log = createLogger("WorkshopMail");
+
+/** Where the Admin-Notification-Mail goes (default: the SMTP sender, i.e. Daniel). */
+function adminEmail(): string {
+  return process.env.WORKSHOP_ADMIN_EMAIL ?? getFrom();
+}
+
+/**
+ * Übersichts-Link for the admin mail. Only the hash of the Übersichts-Token is
+ * stored, so the plaintext comes from env (printed once by the seed script).
+ * A stale env value must not produce a dead link → the hash has to match.
+ */
+export function overviewUrl(workshop: Workshop): string | undefined {
+  const token = process.env.WORKSHOP_ADMIN_TOKEN;
+  if (!token || hashToken(token) !== workshop.adminToken) return undefined;
+  return `${baseUrl()}/workshop/admin?token=${token}`;
+}
+
+/** Plaintext tokens of a fresh reservation — they exist only here and in the mail links. */
+export interface ReservationTokens {
+  confirmPaymentToken: string;
+  cancelToken: string;
+  newsletterDoiToken: string | null;
+}
+
+async function bestEffort(mail: string, fn: () => Promise<void>): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    log.error(`Workshop ${mail} mail failed (non-fatal)`, error);
+  }
+}
+
+export async function sendReservationMails(params: {
+  workshop: Workshop;
+  submission: WorkshopSubmission;
+  tokens: ReservationTokens;
+  freeSlots: number;
+}): Promise<void> {
+  const { workshop, submission, tokens } = params;
+  const terminLabel = formatTermin(workshop);
+
+  await bestEffort("reservation", () =>
+    sendWorkshopReservation({
+      to: submission.email,
+      firstName: submission.firstName,
+      workshopTitle: workshop.title,
+      terminLabel,
+      priceNetEur: workshop.priceNetEur,
+      paymentPreferenceLabel: PAYMENT_LABELS[submission.paymentPreference] ?? submission.paymentPreference,
+      secondPersonName: submission.secondPersonName,
+      secondPersonEmail: submission.secondPersonEmail,
+    }),
+  );
+
+  const newsletterDoiToken = tokens.newsletterDoiToken;
+  if (newsletterDoiToken) {
+    await bestEffort("newsletter DOI", () =>
+      sendWorkshopNewsletterDoi({
+        to: submission.email,
+        firstName: submission.firstName,
+        confirmUrl: `${baseUrl()}/workshop/newsletter-bestaetigen?token=${newsletterDoiToken}`,
+      }),
+    );
+  }
+
+  await bestEffort("admin notification", () =>
+    sendWorkshopAdminNotification({
+      to: adminEmail(),
+      workshopTitle: workshop.title,
+      terminLabel,
+      freeSlots: params.freeSlots,
+      rows: OVERVIEW_COLUMNS.map((c) => ({ label: c.label, value: c.value(submission) })).filter((r) => r.value),
+      confirmPaymentUrl: `${baseUrl()}/api/workshop/action?token=${tokens.confirmPaymentToken}`,
+      cancelUrl: `${baseUrl()}/api/workshop/action?token=${tokens.cancelToken}`,
+      overviewUrl: overviewUrl(workshop),
+    }),
+  );
+}
+
+export async function sendBookingMail(
+  workshop: Workshop,
+  submission: WorkshopSubmission,
+  invoice: WorkshopInvoice | null = null,
+): Promise<void> {
+  if (!workshop.termin) {
+    log.warn("Booked a workshop without termin — no booking mail", { submissionId: submission.id });
+    return;
+  }
+  const ics = buildTerminIcs({
+    uid: `${submission.id}@danielkreuzhofer.de`,
+    title: `Workshop: ${workshop.title}`,
+    start: new Date(workshop.termin),
+    durationMin: workshop.durationMin,
+    location: workshop.locationLabel,
+    description: "Der Einwahl-Link kommt vor dem Termin per Mail.",
+    url: `${baseUrl()}/workshop/${workshop.slug}`,
+  });
+  await bestEffort("booking", () =>
+    sendWorkshopBooking({
+      to: submission.email,
+      firstName: submission.firstName,
+      workshopTitle: workshop.title,
+      terminLabel: formatTermin(workshop),
+      locationLabel: workshop.locationLabel,
+      ics,
+      invoice: invoice ? { filename: invoiceFilename(invoice), pdf: renderInvoicePdf(invoice) } : undefined,
+      preWorkUrl: process.env.WORKSHOP_PREWORK_URL || undefined,
+      secondPersonName: submission.secondPersonName,
+      secondPersonEmail: submission.secondPersonEmail,
+    }),
+  );
+}
+
+export async function sendCancellationMail(workshop: Workshop, submission: WorkshopSubmission): Promise<void> {
+  await bestEffort("cancellation", () =>
+    sendWorkshopCancellation({
+      to: submission.email,
+      firstName: submission.firstName,
+      workshopTitle: workshop.title,
+      terminLabel: formatTermin(workshop),
+    }),
+  );
+}
+
+export async function sendPaymentReminderMail(
+  workshop: Workshop,
+  submission: WorkshopSubmission,
+  deadline: Date,
+): Promise<void> {
+  await bestEffort("payment reminder", () =>
+    sendWorkshopPaymentReminder({
+      to: submission.email,
+      firstName: submission.firstName,
+      workshopTitle: workshop.title,
+      terminLabel: formatTermin(workshop),
+      paymentPreferenceLabel: PAYMENT_LABELS[submission.paymentPreference] ?? submission.paymentPreference,
+      deadlineLabel: `${formatDateTime(deadline)} Uhr`,
+    }),
+  );
+}
+
+/** Auto-cancel after the payment deadline: Ablauf-Storno to the lead, notice to Daniel. */
+export async function sendExpiryMails(params: {
+  workshop: Workshop;
+  submission: WorkshopSubmission;
+  deadline: Date;
+  freeSlots: number;
+}): Promise<void> {
+  const { workshop, submission } = params;
+  const terminLabel = formatTermin(workshop);
+
+  await bestEffort("reservation expired", () =>
+    sendWorkshopReservationExpired({
+      to: submission.email,
+      firstName: submission.firstName,
+      workshopTitle: workshop.title,
+      terminLabel,
+    }),
+  );
+
+  await bestEffort("admin expired", () =>
+    sendWorkshopAdminExpired({
+      to: adminEmail(),
+      workshopTitle: workshop.title,
+      terminLabel,
+      freeSlots: params.freeSlots,
+      deadlineLabel: `${formatDateTime(params.deadline)} Uhr`,
+      rows: OVERVIEW_COLUMNS.map((c) => ({ label: c.label, value: c.value(submission) })).filter((r) => r.value),
+      overviewUrl: overviewUrl(workshop),
+    }),
+  );
+}
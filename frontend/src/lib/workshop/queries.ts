@@ -5,7 +5,7 @@
  * so the route handler can call `notFound()` cleanly.
  */
 
-import { eq } from "drizzle-orm";
+import { and, eq, gt, inArray, isNotNull } from "drizzle-orm";
 import { getDb } from "@/db/client";
 import { workshops, type Workshop } from "@/db/schema";
 
@@ -16,3 +16,31 @@ export async function getWorkshopBySlug(slug: string): Promise<Workshop | null>
   const rows = await db.select().from(workshops).where(eq(workshops.slug, slug)).limit(1);
   return rows[0] ?? null;
 }
+
+/** Fetch a workshop by its id (the FK on a submission). Null if not found. */
+export async function getWorkshopById(id: string): Promise<Workshop | null> {
+  if (!process.env.DATABASE_URL) return null;
+  const db = getDb();
+  const rows = await db.select().from(workshops).where(eq(workshops.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Workshops with a Termin still ahead that can take signups (scheduled or
+ * sold out) — the candidates for Warteliste offers and the workshops whose
+ * open reservations the reservations job settles. Empty without a DB.
+ */
+export async function getUpcomingWorkshops(now: Date = new Date()): Promise<Workshop[]> {
+  if (!process.env.DATABASE_URL) return [];
+  const db = getDb();
+  return db
+    .select()
+    .from(workshops)
+    .where(
+      and(
+        isNotNull(workshops.termin),
+        gt(workshops.termin, now),
+        inArray(workshops.status, ["scheduled", "sold_out"]),
+      ),
+    );
+}
@@ -1,13 +1,26 @@
 /**
- * Workshop slot logic — free-slot calculation and single-open-reservation check.
+ * Workshop slot logic — free-slot calculation, single-open-reservation check
+ * and the atomic reservation itself.
  *
  * freeSlots = capacity - count(submissions where status in (reserved, booked))
  * A cancelled submission does NOT block a slot.
+ *
+ * `reserveSlot` serialises all reservations of one workshop on its row lock
+ * (SELECT … FOR UPDATE), so the capacity check and the insert can't interleave
+ * — two parallel submits for the last slot yield one reservation and one
+ * sold_out, never an overbooking.
  */
 
-import { and, count, eq, inArray } from "drizzle-orm";
+import { and, count, eq, gt, inArray, ne } from "drizzle-orm";
 import { getDb } from "@/db/client";
-import { workshopSubmissions, type Workshop } from "@/db/schema";
+import {
+  workshopSubmissions,
+  workshopWaitlist,
+  workshops,
+  type NewWorkshopSubmission,
+  type Workshop,
+  type WorkshopSubmission,
+} from "@/db/schema";
 
 /** Active statuses — a submission in these states blocks a slot. */
 export const ACTIVE_STATUSES = ["reserved", "booked"] as const;
@@ -56,3 +69,97 @@ export async function countOpenReservationsByEmail(
 export function calculateFreeSlots(capacity: number, activeCount: number): number {
   return Math.max(0, capacity - activeCount);
 }
+
+export type ReserveSlotResult =
+  | { status: "reserved"; submission: WorkshopSubmission; freeSlots: number }
+  | { status: "sold_out" }
+  | { status: "duplicate" };
+
+/**
+ * Check capacity and insert a 'reserved' submission in one transaction, under
+ * a row lock on the workshop. Inside the lock it also
+ *   - counts slots held by open Warteliste offers as taken, except the offer
+ *     the visitor came with (`waitlistOfferId`), which is claimed here,
+ *   - enforces the single open reservation per email,
+ *   - flips workshops.status to 'sold_out' when this took the last slot.
+ * `freeSlots` in the result is the capacity left after this reservation.
+ */
+export async function reserveSlot(params: {
+  workshopId: string;
+  data: NewWorkshopSubmission;
+  waitlistOfferId?: string | null;
+  now?: Date;
+}): Promise<ReserveSlotResult> {
+  const { workshopId, data } = params;
+  const now = params.now ?? new Date();
+
+  return getDb().transaction(async (tx) => {
+    const [workshop] = await tx.select().from(workshops).where(eq(workshops.id, workshopId)).for("update");
+    if (!workshop) throw new Error(`Workshop ${workshopId} not found`);
+
+    const [active] = await tx
+      .select({ n: count() })
+      .from(workshopSubmissions)
+      .where(
+        and(
+          eq(workshopSubmissions.workshopId, workshopId),
+          inArray(workshopSubmissions.status, [...ACTIVE_STATUSES]),
+        ),
+      );
+    const [held] = await tx
+      .select({ n: count() })
+      .from(workshopWaitlist)
+      .where(
+        and(
+          eq(workshopWaitlist.workshopId, workshopId),
+          eq(workshopWaitlist.status, "offered"),
+          gt(workshopWaitlist.offerExpiresAt, now),
+          params.waitlistOfferId ? ne(workshopWaitlist.id, params.waitlistOfferId) : undefined,
+        ),
+      );
+
+    const freeSlots = calculateFreeSlots(workshop.capacity, Number(active?.n ?? 0));
+    if (freeSlots - Number(held?.n ?? 0) <= 0) return { status: "sold_out" };
+
+    const [open] = await tx
+      .select({ n: count() })
+      .from(workshopSubmissions)
+      .where(
+        and(
+          eq(workshopSubmissions.workshopId, workshopId),
+          eq(workshopSubmissions.email, data.email.toLowerCase()),
+          eq(workshopSubmissions.status, "reserved"),
+        ),
+      );
+    if (Number(open?.n ?? 0) > 0) return { status: "duplicate" };
+
+    const [submission] = await tx
+      .insert(workshopSubmissions)
+      .values({ ...data, workshopId, status: "reserved" })
+      .returning();
+
+    if (params.waitlistOfferId) {
+      await tx
+        .update(workshopWaitlist)
+        .set({ status: "claimed", claimedAt: now, updatedAt: now })
+        .where(and(eq(workshopWaitlist.id, params.waitlistOfferId), eq(workshopWaitlist.status, "offered")));
+    }
+
+    if (freeSlots - 1 <= 0 && workshop.status === "scheduled") {
+      await tx.update(workshops).set({ status: "sold_out", updatedAt: now }).where(eq(workshops.id, workshopId));
+    }
+
+    return { status: "reserved", submission: submission!, freeSlots: freeSlots - 1 };
+  });
+}
+
+/**
+ * A cancellation freed a slot: a 'sold_out' workshop is 'scheduled' again.
+ * Guarded on the current status, so it never touches cancelled/completed.
+ */
+export async function reopenSoldOut(workshopId: string): Promise<void> {
+  await getDb()
+    .update(workshops)
+    .set({ status: "scheduled", updatedAt: new Date() })
+    .where(and(eq(workshops.id, workshopId), eq(workshops.status, "sold_out")));
+}
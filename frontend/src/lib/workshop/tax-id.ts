@@ -0,0 +1,129 @@
+/**
+ * Rechnungsempfänger tax IDs — which formats the signup form accepts and where
+ * an ID places the recipient. Shared by the form schema (validation.ts) and
+ * the invoice (invoice.ts), so an ID that passes the form always maps to the
+ * treatment the invoice applies. Client-safe: no server imports.
+ *
+ *   domestic:      DE + 9 digits
+ *   eu:            USt-IdNr. of another member state, by its prefix and format
+ *                  (Greece EL; XI only covers goods, so Nordirland counts as UK)
+ *   third_country: any other business tax ID (CHE-…, GB…, an EIN) — only for
+ *                  an invoice country outside the EU
+ *
+ * IDs are compared without spaces, dots, dashes and slashes, upper-case.
+ */
+
+/** USt-IdNr. format per member state, after the two-letter prefix. */
+const VAT_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^\d[A-Z0-9+*]\d{5}[A-W][A-I]?$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+/** Tax IDs outside the EU: letters and digits, nothing we could check further. */
+const OTHER_TAX_ID_RE = /^[A-Z0-9]{5,20}$/;
+
+const DOMESTIC_COUNTRIES = new Set(["deutschland", "germany", "de", "brd"]);
+
+/** Country names (German, English) and ISO codes of the other member states → USt-IdNr. prefix. */
+const EU_COUNTRY_PREFIXES = new Map<string, string>(
+  (
+    [
+      ["AT", ["österreich", "oesterreich", "austria", "at"]],
+      ["BE", ["belgien", "belgium", "be"]],
+      ["BG", ["bulgarien", "bulgaria", "bg"]],
+      ["CY", ["zypern", "cyprus", "cy"]],
+      ["CZ", ["tschechien", "czechia", "czech republic", "cz"]],
+      ["DK", ["dänemark", "daenemark", "denmark", "dk"]],
+      ["EE", ["estland", "estonia", "ee"]],
+      ["EL", ["griechenland", "greece", "gr", "el"]],
+      ["ES", ["spanien", "spain", "es"]],
+      ["FI", ["finnland", "finland", "fi"]],
+      ["FR", ["frankreich", "france", "fr"]],
+      ["HR", ["kroatien", "croatia", "hr"]],
+      ["HU", ["ungarn", "hungary", "hu"]],
+      ["IE", ["irland", "ireland", "ie"]],
+      ["IT", ["italien", "italy", "it"]],
+      ["LT", ["litauen", "lithuania", "lt"]],
+      ["LU", ["luxemburg", "luxembourg", "lu"]],
+      ["LV", ["lettland", "latvia", "lv"]],
+      ["MT", ["malta", "mt"]],
+      ["NL", ["niederlande", "netherlands", "holland", "nl"]],
+      ["PL", ["polen", "poland", "pl"]],
+      ["PT", ["portugal", "pt"]],
+      ["RO", ["rumänien", "rumaenien", "romania", "ro"]],
+      ["SE", ["schweden", "sweden", "se"]],
+      ["SI", ["slowenien", "slovenia", "si"]],
+      ["SK", ["slowakei", "slovakia", "sk"]],
+    ] as const
+  ).flatMap(([prefix, names]) => names.map((name) => [name, prefix] as const)),
+);
+
+export type TaxIdRegion = "domestic" | "eu" | "third_country";
+
+export function normalizeTaxId(value: string): string {
+  return value.replace(/[\s./-]/g, "").toUpperCase();
+}
+
+export function isDomestic(country: string): boolean {
+  return DOMESTIC_COUNTRIES.has(country.trim().toLowerCase());
+}
+
+/** USt-IdNr. prefix of a member state named by `country`, or undefined (Germany, non-EU, unknown name). */
+function euPrefixOf(country: string): string | undefined {
+  return EU_COUNTRY_PREFIXES.get(country.trim().toLowerCase());
+}
+
+/** Where a (normalized) tax ID places its holder, or null when it is no valid ID. */
+export function taxIdRegion(taxId: string): TaxIdRegion | null {
+  const prefix = taxId.slice(0, 2);
+  const format = VAT_ID_FORMATS[prefix];
+  if (format) {
+    if (!format.test(taxId.slice(2))) return null;
+    return prefix === "DE" ? "domestic" : "eu";
+  }
+  return OTHER_TAX_ID_RE.test(taxId) ? "third_country" : null;
+}
+
+/**
+ * Why a (normalized) tax ID does not fit the invoice country, or null when it
+ * does. A recognized member state must match the ID prefix; an unrecognized
+ * country name is trusted to be the one the ID says.
+ */
+export function taxIdCountryMismatch(taxId: string, country: string): string | null {
+  const region = taxIdRegion(taxId);
+  if (!region) return "Unbekanntes Format der USt-IdNr.";
+  if (isDomestic(country)) {
+    return region === "domestic" ? null : "In Deutschland wird eine USt-IdNr. im Format DE123456789 benötigt";
+  }
+  if (region === "domestic") return "Eine deutsche USt-IdNr. passt nur zu einer Rechnungsadresse in Deutschland";
+  const euPrefix = euPrefixOf(country);
+  if (region === "eu") {
+    return euPrefix && euPrefix !== taxId.slice(0, 2) ? "USt-IdNr. passt nicht zum Land der Rechnungsadresse" : null;
+  }
+  return euPrefix ? "Für eine Rechnungsadresse in der EU wird die USt-IdNr. des Landes benötigt" : null;
+}
@@ -113,4 +113,52 @@ describe('validateWorkshopSignup', () => {
       expect(Object.keys(result.errors).length).toBeGreaterThanOrEqual(2);
     }
   });
+
+  it('accepts the USt-IdNr. of another member state and stores it normalized', () => {
+    const result = validateWorkshopSignup(
+      basePayload({ invoiceCountry: 'Österreich', invoiceUstId: 'atu 1234 5678' }),
+    );
+    expect(result).toMatchObject({ ok: true, data: { invoiceUstId: 'ATU12345678' } });
+  });
+
+  it('accepts a business ID outside the EU with a non-EU country', () => {
+    const result = validateWorkshopSignup(
+      basePayload({ invoiceCountry: 'Schweiz', invoiceUstId: 'CHE-123.456.789' }),
+    );
+    expect(result).toMatchObject({ ok: true, data: { invoiceUstId: 'CHE123456789' } });
+  });
+
+  it('rejects a German USt-IdNr. with a foreign invoice country', () => {
+    const result = validateWorkshopSignup(basePayload({ invoiceCountry: 'Schweiz' }));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.invoiceUstId).toMatch(/deutsche USt-IdNr/);
+  });
+
+  it('rejects a foreign ID with a German invoice country', () => {
+    const result = validateWorkshopSignup(basePayload({ invoiceUstId: 'ATU12345678' }));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.invoiceUstId).toMatch(/DE123456789/);
+  });
+
+  it('rejects a USt-IdNr. of a different member state than the invoice country', () => {
+    const result = validateWorkshopSignup(
+      basePayload({ invoiceCountry: 'Frankreich', invoiceUstId: 'ATU12345678' }),
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects a non-EU ID for an invoice address in the EU', () => {
+    const result = validateWorkshopSignup(
+      basePayload({ invoiceCountry: 'Österreich', invoiceUstId: 'CHE-123.456.789' }),
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects an EU prefix with the wrong format', () => {
+    const result = validateWorkshopSignup(
+      basePayload({ invoiceCountry: 'Österreich', invoiceUstId: 'AT12345678' }),
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.invoiceUstId).toMatch(/Format/);
+  });
 });
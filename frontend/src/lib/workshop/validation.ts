@@ -4,11 +4,14 @@
  * One schema, used both server-side (API route) and client-side (form).
  * The discriminated union on `isSmallBusiness` determines whether
  * `invoiceUstId` is required (B2B) or omitted (Kleinunternehmer §19).
+ * A B2B ID is normalized, checked against its country format and against
+ * `invoiceCountry` (tax-id.ts), so the invoice derives its tax treatment
+ * from an ID that fits the address.
  */
 
 import { z } from "zod";
+import { normalizeTaxId, taxIdCountryMismatch, taxIdRegion } from "./tax-id";
 
-const UST_ID_RE = /^DE\d{9}$/;
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 const paymentPreferenceSchema = z.enum(["bank_transfer", "payment_link"]);
@@ -43,6 +46,9 @@ const baseFields = {
 
   // Tracking
   tid: z.string().max(255).optional(),
+
+  // Warteliste — plaintext offer token from the reservation link, if any
+  waitlistToken: z.string().max(100).optional(),
 };
 
 /** When Zweit-Person email is given, the name must also be given (and vice versa). */
@@ -70,11 +76,19 @@ export const workshopSignupSchema = z.discriminatedUnion("isSmallBusiness", [
   z.object({
     ...baseFields,
     isSmallBusiness: z.literal(false),
-    invoiceUstId: z.string().regex(UST_ID_RE, "USt-IdNr. muss das Format DE123456789 haben"),
+    invoiceUstId: z
+      .string()
+      .max(50)
+      .transform(normalizeTaxId)
+      .refine((id) => taxIdRegion(id) !== null, "USt-IdNr. hat kein gültiges Format (z. B. DE123456789)"),
   }),
 ]).refine(withSecondPersonRefinement, {
   message: "Zweit-Person: Name und E-Mail müssen beide angegeben werden (oder beide nicht).",
   path: ["secondPersonEmail"],
+}).superRefine((data, ctx) => {
+  if (data.isSmallBusiness || taxIdRegion(data.invoiceUstId) === null) return;
+  const mismatch = taxIdCountryMismatch(data.invoiceUstId, data.invoiceCountry);
+  if (mismatch) ctx.addIssue({ code: z.ZodIssueCode.custom, message: mismatch, path: ["invoiceUstId"] });
 });
 
 export type WorkshopSignup = z.infer<typeof workshopSignupSchema>;
@@ -94,3 +108,28 @@ export function validateWorkshopSignup(input: unknown):
   }
   return { ok: false, errors };
 }
+
+/** Warteliste signup — deliberately short: the full form follows with the offer link. */
+export const workshopWaitlistSchema = z.object({
+  firstName: z.string().min(1, "Vorname ist Pflicht").max(100),
+  email: z.string().regex(EMAIL_RE, "Ungültige E-Mail-Adresse").max(200),
+  company: z.string().max(200).optional(),
+});
+
+export type WorkshopWaitlistSignup = z.infer<typeof workshopWaitlistSchema>;
+
+/** Parse + validate a Warteliste signup (same result shape as `validateWorkshopSignup`). */
+export function validateWaitlistSignup(input: unknown):
+  | { ok: true; data: WorkshopWaitlistSignup }
+  | { ok: false; errors: Record<string, string> } {
+  const result = workshopWaitlistSchema.safeParse(input);
+  if (result.success) {
+    return { ok: true, data: result.data };
+  }
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const key = issue.path.join(".") || "_";
+    if (!errors[key]) errors[key] = issue.message;
+  }
+  return { ok: false, errors };
+}
@@ -0,0 +1,198 @@
+/**
+ * Workshop-Warteliste — signup guard, DOI, queue order and held offer slots.
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const mockInsert = jest.fn();
+const mockFindByDoi = jest.fn();
+const mockFindOpenByEmail = jest.fn();
+const mockConfirm = jest.fn();
+const mockExpire = jest.fn();
+const mockCountOffers = jest.fn();
+const mockNextWaiting = jest.fn();
+const mockMarkOffered = jest.fn();
+const mockFindOffer = jest.fn();
+jest.mock("@/db/workshop-waitlist", () => ({
+  insertWaitlistEntry: (...a: unknown[]) => mockInsert(...a),
+  findWaitlistByDoiToken: (...a: unknown[]) => mockFindByDoi(...a),
+  findOpenWaitlistEntryByEmail: (...a: unknown[]) => mockFindOpenByEmail(...a),
+  confirmWaitlistEntry: (...a: unknown[]) => mockConfirm(...a),
+  expireLapsedOffers: (...a: unknown[]) => mockExpire(...a),
+  countOpenOffers: (...a: unknown[]) => mockCountOffers(...a),
+  getNextWaiting: (...a: unknown[]) => mockNextWaiting(...a),
+  markOffered: (...a: unknown[]) => mockMarkOffered(...a),
+  findOpenOfferByToken: (...a: unknown[]) => mockFindOffer(...a),
+}));
+
+const mockFreeSlots = jest.fn();
+jest.mock("./slots", () => ({ getFreeSlots: (...a: unknown[]) => mockFreeSlots(...a) }));
+
+const mockGetWorkshopById = jest.fn();
+const mockUpcoming = jest.fn();
+jest.mock("./queries", () => ({
+  getWorkshopById: (...a: unknown[]) => mockGetWorkshopById(...a),
+  getUpcomingWorkshops: (...a: unknown[]) => mockUpcoming(...a),
+}));
+
+const mockSendDoi = jest.fn();
+const mockSendOffer = jest.fn();
+jest.mock("@/lib/email/send", () => ({
+  sendWorkshopWaitlistDoi: (...a: unknown[]) => mockSendDoi(...a),
+  sendWorkshopWaitlistOffer: (...a: unknown[]) => mockSendOffer(...a),
+}));
+
+import {
+  WAITLIST_OFFER_HOURS,
+  availableSlots,
+  confirmWaitlist,
+  joinWaitlist,
+  notifyWaitlist,
+  processWaitlists,
+} from "./waitlist";
+import { hashToken } from "./tokens";
+import { SAMPLE_WORKSHOP, sampleWaitlistEntry } from "./__fixtures__/sample-submission";
+
+const NOW = new Date("2026-10-01T10:00:00Z");
+const SIGNUP = { firstName: "Erika", email: "Erika@Firma.de", company: "Musterfrau AG" };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.BASE_URL = "https://example.test";
+  mockFreeSlots.mockResolvedValue(0);
+  mockCountOffers.mockResolvedValue(0);
+  mockExpire.mockResolvedValue(0);
+  mockNextWaiting.mockResolvedValue([]);
+  mockFindOpenByEmail.mockResolvedValue(null);
+  mockInsert.mockImplementation(async (row) => sampleWaitlistEntry({ ...row, status: "pending" }));
+  mockMarkOffered.mockImplementation(async (id, offerToken, offerExpiresAt) =>
+    sampleWaitlistEntry({ id, status: "offered", offerToken, offerExpiresAt }),
+  );
+  mockGetWorkshopById.mockResolvedValue(SAMPLE_WORKSHOP);
+});
+
+describe("availableSlots", () => {
+  it("subtracts slots held by open offers and never goes negative", async () => {
+    mockFreeSlots.mockResolvedValue(2);
+    mockCountOffers.mockResolvedValue(1);
+    expect(await availableSlots(SAMPLE_WORKSHOP, NOW)).toBe(1);
+    mockCountOffers.mockResolvedValue(3);
+    expect(await availableSlots(SAMPLE_WORKSHOP, NOW)).toBe(0);
+  });
+});
+
+describe("joinWaitlist", () => {
+  const params = { workshop: SAMPLE_WORKSHOP, data: SIGNUP, ip: "10.0.0.2", userAgent: "jest" };
+
+  it("refuses while a slot can be reserved directly", async () => {
+    mockFreeSlots.mockResolvedValue(1);
+    expect(await joinWaitlist(params)).toEqual({ status: "bookable" });
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it("adds a pending entry with a hashed DOI token and mails the plaintext link", async () => {
+    const result = await joinWaitlist(params);
+    expect(result.status).toBe("added");
+    const row = mockInsert.mock.calls[0][0];
+    expect(row).toMatchObject({ email: "erika@firma.de", reason: "sold_out", ipAtSubmit: "10.0.0.2" });
+    const { confirmUrl, noTermin } = mockSendDoi.mock.calls[0][0];
+    const plain = new URL(confirmUrl).searchParams.get("token")!;
+    expect(confirmUrl).toMatch(/^https:\/\/example\.test\/workshop\/warteliste-bestaetigen\?token=/);
+    expect(row.doiToken).toBe(hashToken(plain));
+    expect(noTermin).toBe(false);
+  });
+
+  it("records no_termin for a workshop without Termin", async () => {
+    await joinWaitlist({ ...params, workshop: { ...SAMPLE_WORKSHOP, termin: null } });
+    expect(mockInsert.mock.calls[0][0].reason).toBe("no_termin");
+    expect(mockSendDoi.mock.calls[0][0].noTermin).toBe(true);
+    expect(mockFreeSlots).not.toHaveBeenCalled();
+  });
+
+  it("leaves an existing open entry alone (duplicate)", async () => {
+    mockFindOpenByEmail.mockResolvedValue(sampleWaitlistEntry());
+    expect(await joinWaitlist(params)).toEqual({ status: "duplicate" });
+    expect(mockInsert).not.toHaveBeenCalled();
+    expect(mockSendDoi).not.toHaveBeenCalled();
+  });
+});
+
+describe("confirmWaitlist", () => {
+  it("notfound for an unknown token", async () => {
+    mockFindByDoi.mockResolvedValue(null);
+    expect(await confirmWaitlist("nope")).toEqual({ status: "notfound" });
+    expect(mockFindByDoi).toHaveBeenCalledWith(hashToken("nope"));
+  });
+
+  it("confirms a pending entry and works the queue right away", async () => {
+    mockFindByDoi.mockResolvedValue(sampleWaitlistEntry({ status: "pending" }));
+    mockConfirm.mockResolvedValue(sampleWaitlistEntry());
+    const result = await confirmWaitlist("doi");
+    expect(result.status).toBe("confirmed");
+    expect(mockConfirm).toHaveBeenCalledWith("wl-1");
+    expect(mockExpire).toHaveBeenCalled();
+  });
+
+  it("is idempotent on a repeat click", async () => {
+    mockFindByDoi.mockResolvedValue(sampleWaitlistEntry({ status: "offered" }));
+    expect(await confirmWaitlist("doi")).toEqual({ status: "already", current: "offered" });
+    expect(mockConfirm).not.toHaveBeenCalled();
+  });
+});
+
+describe("notifyWaitlist", () => {
+  it("does nothing without a Termin", async () => {
+    expect(await notifyWaitlist({ ...SAMPLE_WORKSHOP, termin: null }, NOW)).toBe(0);
+    expect(mockNextWaiting).not.toHaveBeenCalled();
+  });
+
+  it("does nothing once the Termin has passed", async () => {
+    mockFreeSlots.mockResolvedValue(3);
+    expect(await notifyWaitlist(SAMPLE_WORKSHOP, new Date("2026-10-24T00:00:00Z"))).toBe(0);
+  });
+
+  it("expires lapsed offers, then offers every free, unheld slot in queue order", async () => {
+    mockFreeSlots.mockResolvedValue(3);
+    mockCountOffers.mockResolvedValue(1);
+    mockNextWaiting.mockResolvedValue([sampleWaitlistEntry({ id: "wl-1" }), sampleWaitlistEntry({ id: "wl-2" })]);
+
+    expect(await notifyWaitlist(SAMPLE_WORKSHOP, NOW)).toBe(2);
+    expect(mockExpire).toHaveBeenCalledWith("ws-1", NOW);
+    expect(mockNextWaiting).toHaveBeenCalledWith("ws-1", 2);
+    expect(mockMarkOffered.mock.calls.map((c) => c[0])).toEqual(["wl-1", "wl-2"]);
+
+    const [, tokenHash, expiresAt] = mockMarkOffered.mock.calls[0];
+    expect(expiresAt).toEqual(new Date(NOW.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000));
+    const { offerUrl } = mockSendOffer.mock.calls[0][0];
+    expect(offerUrl).toMatch(/^https:\/\/example\.test\/workshop\/ki-souveraenitaet\?warteliste=.+#anmeldung$/);
+    expect(hashToken(new URL(offerUrl).searchParams.get("warteliste")!)).toBe(tokenHash);
+  });
+
+  it("caps the offer deadline at the Termin", async () => {
+    mockFreeSlots.mockResolvedValue(1);
+    mockNextWaiting.mockResolvedValue([sampleWaitlistEntry()]);
+    await notifyWaitlist(SAMPLE_WORKSHOP, new Date("2026-10-22T18:00:00Z"));
+    expect(mockMarkOffered.mock.calls[0][2]).toEqual(SAMPLE_WORKSHOP.termin);
+  });
+
+  it("skips entries a parallel run already offered, and survives a failing mail", async () => {
+    mockFreeSlots.mockResolvedValue(2);
+    mockNextWaiting.mockResolvedValue([sampleWaitlistEntry({ id: "wl-1" }), sampleWaitlistEntry({ id: "wl-2" })]);
+    mockMarkOffered.mockResolvedValueOnce(null);
+    mockSendOffer.mockRejectedValue(new Error("smtp down"));
+    expect(await notifyWaitlist(SAMPLE_WORKSHOP, NOW)).toBe(1);
+  });
+});
+
+describe("processWaitlists", () => {
+  it("works the queue of every upcoming workshop", async () => {
+    mockUpcoming.mockResolvedValue([SAMPLE_WORKSHOP, { ...SAMPLE_WORKSHOP, id: "ws-2" }]);
+    mockFreeSlots.mockResolvedValue(1);
+    mockNextWaiting.mockResolvedValue([sampleWaitlistEntry()]);
+    expect(await processWaitlists(NOW)).toBe(2);
+    expect(mockExpire.mock.calls.map((c) => c[0])).toEqual(["ws-1", "ws-2"]);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Workshop-Warteliste (CONTEXT.md "Warteliste").
+ *
+ * Open whenever a direct reservation is not possible: the workshop has no
+ * Termin yet, or every slot is taken. Entries need a Double-Opt-in before they
+ * join the queue. Whenever a slot is free — after a cancellation, or once a
+ * Termin is set — the queue is worked in signup order: each next person gets a
+ * reservation link that holds one slot for WAITLIST_OFFER_HOURS. A lapsed
+ * offer expires and the slot moves on to the next person.
+ *
+ * Held slots count against the free slots for everybody except the holder of
+ * the offer token, so a walk-in visitor cannot grab the slot out of an offer.
+ */
+
+import { createLogger } from "@/lib/logger";
+import {
+  confirmWaitlistEntry,
+  countOpenOffers,
+  expireLapsedOffers,
+  findOpenOfferByToken,
+  findOpenWaitlistEntryByEmail,
+  findWaitlistByDoiToken,
+  getNextWaiting,
+  insertWaitlistEntry,
+  markOffered,
+} from "@/db/workshop-waitlist";
+import type { Workshop, WorkshopWaitlistEntry } from "@/db/schema";
+import { sendWorkshopWaitlistDoi, sendWorkshopWaitlistOffer } from "@/lib/email/send";
+import { formatTermin } from "@/components/workshop/WorkshopSections";
+import { baseUrl } from "@/lib/scorecard/tokens";
+import { formatDateTime } from "./admin";
+import { getFreeSlots } from "./slots";
+import { getUpcomingWorkshops, getWorkshopById } from "./queries";
+import { hashToken, newWorkshopToken } from "./tokens";
+import type { WorkshopWaitlistSignup } from "./validation";
+
+const log = createLogger("WorkshopWaitlist");
+
+/** How long a reservation offer holds its slot (capped at the Termin itself). */
+export const WAITLIST_OFFER_HOURS = 48;
+
+/** Offers still open right now — each one holds a slot. */
+export async function countHeldOffers(workshop: Workshop, now: Date = new Date()): Promise<number> {
+  return countOpenOffers(workshop.id, now);
+}
+
+/** Slots a regular visitor can reserve: free slots minus those held by open offers. */
+export async function availableSlots(workshop: Workshop, now: Date = new Date()): Promise<number> {
+  const [free, held] = await Promise.all([getFreeSlots(workshop), countHeldOffers(workshop, now)]);
+  return Math.max(0, free - held);
+}
+
+/** Direct reservation impossible → the Warteliste takes signups (and why). */
+export async function waitlistReason(workshop: Workshop): Promise<"no_termin" | "sold_out" | null> {
+  if (!workshop.termin) return "no_termin";
+  if (workshop.status === "sold_out") return "sold_out";
+  return (await availableSlots(workshop)) > 0 ? null : "sold_out";
+}
+
+export type WaitlistSignupResult =
+  | { status: "added"; entry: WorkshopWaitlistEntry }
+  | { status: "duplicate" }
+  | { status: "bookable" };
+
+/**
+ * Put someone on the Warteliste (status 'pending') and send the DOI mail.
+ * An existing open entry for the same email is left alone — callers answer
+ * "duplicate" exactly like "added", so the endpoint reveals nobody's signup.
+ */
+export async function joinWaitlist(params: {
+  workshop: Workshop;
+  data: WorkshopWaitlistSignup;
+  ip: string;
+  userAgent: string;
+}): Promise<WaitlistSignupResult> {
+  const { workshop, data } = params;
+  const reason = await waitlistReason(workshop);
+  if (!reason) return { status: "bookable" };
+
+  const email = data.email.toLowerCase();
+  if (await findOpenWaitlistEntryByEmail(workshop.id, email)) return { status: "duplicate" };
+
+  const doiTokenPlain = newWorkshopToken();
+  const entry = await insertWaitlistEntry({
+    workshopId: workshop.id,
+    firstName: data.firstName,
+    email,
+    company: data.company || null,
+    reason,
+    doiToken: hashToken(doiTokenPlain),
+    ipAtSubmit: params.ip,
+    userAgent: params.userAgent,
+  });
+
+  await sendWorkshopWaitlistDoi({
+    to: entry.email,
+    firstName: entry.firstName,
+    workshopTitle: workshop.title,
+    confirmUrl: `${baseUrl()}/workshop/warteliste-bestaetigen?token=${doiTokenPlain}`,
+    noTermin: reason === "no_termin",
+  });
+  return { status: "added", entry };
+}
+
+export type WaitlistConfirmResult =
+  | { status: "confirmed"; workshop: Workshop | null }
+  | { status: "already"; current: string }
+  | { status: "notfound" };
+
+/**
+ * Warteliste Double-Opt-in. Idempotent (the token stays after use). A fresh
+ * confirmation immediately works the queue, in case a slot is free already.
+ */
+export async function confirmWaitlist(token: string): Promise<WaitlistConfirmResult> {
+  const entry = await findWaitlistByDoiToken(hashToken(token));
+  if (!entry) return { status: "notfound" };
+  if (entry.status !== "pending") return { status: "already", current: entry.status };
+
+  const confirmed = await confirmWaitlistEntry(entry.id);
+  if (!confirmed) return { status: "already", current: "waiting" };
+  log.info("Waitlist entry confirmed", { entryId: confirmed.id });
+
+  const workshop = await getWorkshopById(confirmed.workshopId);
+  if (workshop) await notifyWaitlistSafely(workshop);
+  return { status: "confirmed", workshop };
+}
+
+/** Offer deadline: WAITLIST_OFFER_HOURS from now, but never past the Termin. */
+function offerDeadline(workshop: Workshop, now: Date): Date {
+  const deadline = new Date(now.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000);
+  const termin = workshop.termin ? new Date(workshop.termin) : null;
+  return termin && termin < deadline ? termin : deadline;
+}
+
+/**
+ * Work the queue of one workshop: expire lapsed offers, then send an offer to
+ * the next waiting person for every slot that is free and not held yet.
+ * Returns the number of offers sent. Safe to call any time — without a Termin
+ * ahead or without a free slot it does nothing.
+ */
+export async function notifyWaitlist(workshop: Workshop, now: Date = new Date()): Promise<number> {
+  if (!workshop.termin || new Date(workshop.termin) <= now || workshop.status === "cancelled") return 0;
+
+  const expired = await expireLapsedOffers(workshop.id, now);
+  if (expired > 0) log.info("Waitlist offers expired", { workshopId: workshop.id, expired });
+
+  const open = await availableSlots(workshop, now);
+  if (open <= 0) return 0;
+
+  let offered = 0;
+  for (const entry of await getNextWaiting(workshop.id, open)) {
+    const offerTokenPlain = newWorkshopToken();
+    const expiresAt = offerDeadline(workshop, now);
+    const row = await markOffered(entry.id, hashToken(offerTokenPlain), expiresAt);
+    if (!row) continue; // picked up by a parallel run
+    offered += 1;
+    log.info("Waitlist offer sent", { workshopId: workshop.id, entryId: row.id });
+    try {
+      await sendWorkshopWaitlistOffer({
+        to: row.email,
+        firstName: row.firstName,
+        workshopTitle: workshop.title,
+        terminLabel: formatTermin(workshop),
+        offerUrl: `${baseUrl()}/workshop/${workshop.slug}?warteliste=${offerTokenPlain}#anmeldung`,
+        expiresLabel: `${formatDateTime(expiresAt)} Uhr`,
+      });
+    } catch (error) {
+      // The slot stays held until the deadline and then moves on.
+      log.error("Workshop waitlist offer mail failed (non-fatal)", error);
+    }
+  }
+  return offered;
+}
+
+/** `notifyWaitlist` for side paths (cancel, DOI confirm) that must not fail on it. */
+export async function notifyWaitlistSafely(workshop: Workshop): Promise<void> {
+  try {
+    await notifyWaitlist(workshop);
+  } catch (error) {
+    log.error("Waitlist notification failed (non-fatal)", error);
+  }
+}
+
+/**
+ * Work the queues of all upcoming workshops — picks up a Termin that was set
+ * on a workshop without one, and passes lapsed offers on. Run by the
+ * /api/cron/waitlist job.
+ */
+export async function processWaitlists(now: Date = new Date()): Promise<number> {
+  let offered = 0;
+  for (const workshop of await getUpcomingWorkshops(now)) {
+    offered += await notifyWaitlist(workshop, now);
+  }
+  return offered;
+}
+
+/** The still-valid offer behind a plaintext offer token, or null. */
+export async function findWaitlistOffer(
+  workshop: Workshop,
+  token: string,
+  now: Date = new Date(),
+): Promise<WorkshopWaitlistEntry | null> {
+  return findOpenOfferByToken(workshop.id, hashToken(token), now);
+}
@@ -1,4 +1,4 @@
-import { getLatestVideos } from './youtube';
+import { getLatestVideos, refreshLatestVideos } from './youtube';
 import { FEATURED_VIDEOS } from '@/components/home/content';
 
 describe('getLatestVideos', () => {
@@ -161,4 +161,53 @@ describe('getLatestVideos', () => {
       expect(videos).toEqual(FEATURED_VIDEOS.slice(0, 3));
     });
   });
+
+  describe('with a list refreshed by the scheduler job', () => {
+    const store = globalThis as { youtubeRefreshed?: unknown };
+
+    beforeEach(() => {
+      process.env.YOUTUBE_API_KEY = 'test-api-key';
+    });
+    afterEach(() => {
+      delete store.youtubeRefreshed;
+      jest.useRealTimers();
+    });
+
+    it('serves the refreshed list without another API call', async () => {
+      mockApiCalls(
+        [
+          { id: { videoId: 'long1' }, snippet: { title: 'Longform Eins' } },
+          { id: { videoId: 'short1' }, snippet: { title: 'Short Eins' } },
+          { id: { videoId: 'long2' }, snippet: { title: 'Longform Zwei' } },
+        ],
+        { long1: 600, short1: 30, long2: 400 },
+      );
+      expect(await refreshLatestVideos()).toBe(2);
+
+      (global.fetch as jest.Mock).mockClear();
+      expect(await getLatestVideos(1)).toEqual([{ id: 'long1', title: 'Longform Eins' }]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the refreshed list instead of the seeded one once it is stale', async () => {
+      mockApiCalls([{ id: { videoId: 'long1' }, snippet: { title: 'Longform Eins' } }], { long1: 600 });
+      await refreshLatestVideos();
+
+      jest.useFakeTimers({ now: Date.now() + 7 * 60 * 60 * 1000 });
+      global.fetch = jest.fn(async () => ({ ok: false, status: 403 })) as unknown as typeof fetch;
+      expect(await getLatestVideos(3)).toEqual([{ id: 'long1', title: 'Longform Eins' }]);
+      expect(global.fetch).toHaveBeenCalled();
+    });
+
+    it('fails the refresh (and keeps nothing) when the API gives no longforms', async () => {
+      global.fetch = jest.fn(async () => ({ ok: false, status: 403 })) as unknown as typeof fetch;
+      await expect(refreshLatestVideos()).rejects.toThrow('no longform videos');
+      expect(store.youtubeRefreshed).toBeUndefined();
+    });
+
+    it('skips the refresh without an API key', async () => {
+      delete process.env.YOUTUBE_API_KEY;
+      expect(await refreshLatestVideos()).toBeNull();
+    });
+  });
 });
@@ -1,6 +1,7 @@
 // src/lib/youtube.ts
 // Fetches the channel's latest longform videos from the YouTube Data API v3.
 // Requires YOUTUBE_API_KEY. Falls back to FEATURED_VIDEOS on any failure.
+// The scheduler's youtube-refresh job keeps a fresh copy in memory (refreshLatestVideos).
 import { FEATURED_VIDEOS, type FeaturedVideo } from '@/components/home/content';
 import { createLogger } from '@/lib/logger';
 
@@ -11,41 +12,81 @@ const SEARCH_URL = `https://www.googleapis.com/youtube/v3/search?part=snippet&ty
 const VIDEOS_URL = 'https://www.googleapis.com/youtube/v3/videos?part=contentDetails';
 const MIN_LONGFORM_SECONDS = 240;
 
+const REFRESH_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Last list fetched by the scheduler's `youtube-refresh` job (per server
+ * process). While younger than REFRESH_MAX_AGE_MS the homepage serves it
+ * without an API call; older, it still beats the seeded fallback. Kept on
+ * globalThis: instrumentation and the app routes are separate bundles with
+ * their own module instances.
+ */
+const store = globalThis as { youtubeRefreshed?: { videos: FeaturedVideo[]; fetchedAt: number } };
+
 /**
  * Latest longform videos (>= 4 min) from the channel, revalidated every 6h (ISR).
  * Uses the YouTube Data API v3: search.list for recent uploads, then videos.list
  * for durations (search.list's videoDuration=long filter is unreliable).
- * Falls back to the seeded {@link FEATURED_VIDEOS} on any failure —
- * the homepage must never render an empty videos section.
+ * Falls back to the last refreshed list, then to the seeded
+ * {@link FEATURED_VIDEOS} on any failure — the homepage must never render an
+ * empty videos section.
  */
 export async function getLatestVideos(limit = 3): Promise<FeaturedVideo[]> {
+  const refreshed = store.youtubeRefreshed;
+  if (refreshed && Date.now() - refreshed.fetchedAt < REFRESH_MAX_AGE_MS) {
+    return refreshed.videos.slice(0, limit);
+  }
+
   const apiKey = process.env.YOUTUBE_API_KEY;
   if (!apiKey) {
     log.warn('No YOUTUBE_API_KEY set — falling back to seeded videos');
-    return FEATURED_VIDEOS.slice(0, limit);
+    return fallback(limit);
   }
 
+  const longforms = await fetchLongforms(apiKey, { next: { revalidate: 21600 } });
+  return longforms ? longforms.slice(0, limit) : fallback(limit);
+}
+
+/**
+ * Scheduler job: fetch the list bypassing the fetch cache and keep it for
+ * {@link getLatestVideos}. Returns the number of longform videos, or null when
+ * skipped (no API key). Throws when the API gave nothing usable, so the job
+ * run is recorded as failed.
+ */
+export async function refreshLatestVideos(): Promise<number | null> {
+  const apiKey = process.env.YOUTUBE_API_KEY;
+  if (!apiKey) return null;
+  const longforms = await fetchLongforms(apiKey, { cache: 'no-store' });
+  if (!longforms) throw new Error('YouTube refresh returned no longform videos');
+  store.youtubeRefreshed = { videos: longforms, fetchedAt: Date.now() };
+  return longforms.length;
+}
+
+function fallback(limit: number): FeaturedVideo[] {
+  return (store.youtubeRefreshed?.videos ?? FEATURED_VIDEOS).slice(0, limit);
+}
+
+/** All longform videos of the latest uploads, in search order; null on any failure (logged). */
+async function fetchLongforms(apiKey: string, init: RequestInit): Promise<FeaturedVideo[] | null> {
   try {
-    const searchRes = await fetch(`${SEARCH_URL}&key=${apiKey}`, {
-      next: { revalidate: 21600 },
-    });
+    const searchRes = await fetch(`${SEARCH_URL}&key=${apiKey}`, init);
     if (!searchRes.ok) {
       log.warn(`YouTube search.list failed: ${searchRes.status} — falling back to seeded videos`);
-      return FEATURED_VIDEOS.slice(0, limit);
+      return null;
     }
     const searchData = await searchRes.json();
     const items: Array<{ id: { videoId: string }; snippet: { title: string } }> =
       searchData.items ?? [];
     if (items.length === 0) {
       log.warn('YouTube search.list returned no items — falling back to seeded videos');
-      return FEATURED_VIDEOS.slice(0, limit);
+      return null;
     }
 
     const ids = items.map((i) => i.id.videoId);
     const videosRes = await fetch(`${VIDEOS_URL}&id=${ids.join(',')}&key=${apiKey}`);
     if (!videosRes.ok) {
       log.warn(`YouTube videos.list failed: ${videosRes.status} — falling back to seeded videos`);
-      return FEATURED_VIDEOS.slice(0, limit);
+      return null;
     }
     const videosData = await videosRes.json();
     const durations: Record<string, number> = {};
@@ -55,18 +96,17 @@ export async function getLatestVideos(limit = 3): Promise<FeaturedVideo[]> {
 
     const longforms = items
       .filter((i) => (durations[i.id.videoId] ?? 0) >= MIN_LONGFORM_SECONDS)
-      .map((i) => ({ id: i.id.videoId, title: i.snippet.title }))
-      .slice(0, limit);
+      .map((i) => ({ id: i.id.videoId, title: i.snippet.title }));
 
     if (longforms.length === 0) {
       log.warn('No longform videos (>= 4 min) found — falling back to seeded videos');
-      return FEATURED_VIDEOS.slice(0, limit);
+      return null;
     }
 
     return longforms;
   } catch (err) {
     log.warn(`YouTube API fetch failed: ${err instanceof Error ? err.message : 'unknown'} — falling back to seeded videos`);
-    return FEATURED_VIDEOS.slice(0, limit);
+    return null;
   }
 }
 
@@ -132,6 +132,35 @@ describe('security middleware (VULN-003)', () => {
     });
   });
 
+  describe('scorecard embeds', () => {
+    beforeEach(() => {
+      setNodeEnv('production');
+    });
+
+    afterEach(() => {
+      delete process.env.SCORECARD_EMBED_ANCESTORS;
+    });
+
+    it('lets /embed/ pages be framed only by this site by default, without X-Frame-Options', async () => {
+      const res = await middleware(createRequest('/embed/dsgvo-check?partner=p1'));
+      expect(res.headers.get('Content-Security-Policy')).toContain("frame-ancestors 'self';");
+      expect(res.headers.get('X-Frame-Options')).toBeNull();
+    });
+
+    it('allows embed framing by the partners in SCORECARD_EMBED_ANCESTORS', async () => {
+      process.env.SCORECARD_EMBED_ANCESTORS = 'https://partner.de';
+      const res = await middleware(createRequest('/embed/dsgvo-check'));
+      expect(res.headers.get('Content-Security-Policy')).toContain('frame-ancestors https://partner.de;');
+    });
+
+    it('keeps the non-embed scorecard route unframeable', async () => {
+      process.env.SCORECARD_EMBED_ANCESTORS = 'https://partner.de';
+      const res = await middleware(createRequest('/dsgvo-check'));
+      expect(res.headers.get('Content-Security-Policy')).toContain("frame-ancestors 'none'");
+      expect(res.headers.get('X-Frame-Options')).toBe('DENY');
+    });
+  });
+
   describe('development mode', () => {
     beforeEach(() => {
       setNodeEnv('development');
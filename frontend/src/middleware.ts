@@ -8,10 +8,14 @@
  * when the header is present.
  *
  * Headers are applied to every route. CSP only affects rendered HTML pages
- * (API routes returning JSON/SSE are unaffected).
+ * (API routes returning JSON/SSE are unaffected). The only framing exception
+ * are the scorecard embeds under /embed/ (lib/scorecard/embed): they may be
+ * framed by the configured partner origins; every other route stays
+ * `frame-ancestors 'none'` + `X-Frame-Options: DENY`.
  */
 
 import { NextResponse, type NextRequest } from 'next/server';
+import { embedFrameAncestors, isEmbedPath } from '@/lib/scorecard/embed';
 
 function generateNonce(): string {
   const bytes = new Uint8Array(16);
@@ -30,6 +34,7 @@ const SECURITY_HEADERS: Record<string, string> = {
 export function middleware(request: NextRequest) {
   const nonce = generateNonce();
   const isDev = process.env.NODE_ENV !== 'production';
+  const isEmbed = isEmbedPath(new URL(request.url).pathname);
 
   // In dev, Next.js HMR uses eval(); in prod, strict nonce-based script-src.
   const scriptSrc = isDev
@@ -43,7 +48,7 @@ export function middleware(request: NextRequest) {
     "img-src 'self' data: https:",
     "font-src 'self' data:",
     "connect-src 'self'",
-    "frame-ancestors 'none'",
+    isEmbed ? `frame-ancestors ${embedFrameAncestors()}` : "frame-ancestors 'none'",
     "base-uri 'self'",
     "form-action 'self'",
     "object-src 'none'",
@@ -65,6 +70,8 @@ export function middleware(request: NextRequest) {
   // Apply CSP + static security headers to the response.
   response.headers.set('Content-Security-Policy', csp);
   for (const [key, value] of Object.entries(SECURITY_HEADERS)) {
+    // X-Frame-Options has no allowlist — embeds rely on CSP frame-ancestors alone.
+    if (isEmbed && key === 'X-Frame-Options') continue;
     response.headers.set(key, value);
   }
 
@@ -1,4 +1,4 @@
-import { getScorecard } from "@/lib/scorecard/registry";
+import { getScorecard, registrationAt } from "@/lib/scorecard/registry";
 import { buildResult } from "@/lib/scorecard/result";
 import { resolveOutcome } from "@/lib/scorecard/outcome";
 import { buildScorecardReport } from "@/lib/scorecard/report-model";
@@ -306,6 +306,17 @@ describe("v1-Kompatibilität (Deploy-Übergang)", () => {
   });
 });
 
+describe("Versionierung", () => {
+  it("is v2 and keeps v1 (ohne Nutzungs-Block, max 12) for stored submissions", () => {
+    expect(reg.definition.version).toBe(2);
+    const v1 = registrationAt(reg, 1);
+    expect(v1.definition.version).toBe(1);
+    expect(v1.definition.scoring.maxPoints).toBe(12);
+    expect(v1.definition.questions.map((q) => q.id)).toEqual(["K1", "K2", "K3", "S1", "S2", "S3", "S4", "K4"]);
+    expect(v1.content).toBe(reg.content);
+  });
+});
+
 describe("content (Spec-Texte + Copy-Regeln)", () => {
   it("every band has a content block and a label", () => {
     const bands = reg.definition.outcome.type === "bands" ? reg.definition.outcome.bands : [];
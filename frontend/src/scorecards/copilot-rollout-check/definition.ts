@@ -10,6 +10,7 @@ import type { ScorecardDefinition } from "@/lib/scorecard/types";
 
 export const definition: ScorecardDefinition = {
   slug: "copilot-rollout-check",
+  version: 2,
   scoring: { maxPoints: 24, direction: "higher-better" },
   outcome: {
     type: "bands",
@@ -200,3 +201,14 @@ export const definition: ScorecardDefinition = {
     },
   ],
 };
+
+/**
+ * v1 (Video #09, until 27.07.2026): the same questions without the
+ * Nutzungs-Block N1–N4, max 12. Kept for stored v1 submissions (recompute).
+ */
+export const definitionV1: ScorecardDefinition = {
+  ...definition,
+  version: 1,
+  scoring: { ...definition.scoring, maxPoints: 12 },
+  questions: definition.questions.filter((q) => !/^N\d$/.test(q.id)),
+};
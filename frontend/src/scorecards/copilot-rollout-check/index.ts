@@ -1,6 +1,6 @@
 import type { ScorecardRegistration } from "@/lib/scorecard/registry";
 import type { Answers, ScorecardResult } from "@/lib/scorecard/types";
-import { definition } from "./definition";
+import { definition, definitionV1 } from "./definition";
 import { content, DIMENSIONEN } from "./content";
 import { branding } from "./branding";
 import { RolloutResultView } from "./RolloutResultView";
@@ -48,6 +48,8 @@ function tags(result: ScorecardResult, answers: Answers): string[] {
 
 export const copilotRolloutCheck: ScorecardRegistration = {
   definition,
+  // v1 content is the current one: band keys are frozen, the renamed labels apply to old leads too.
+  previousVersions: [{ definition: definitionV1 }],
   content,
   branding,
   ResultView: RolloutResultView,
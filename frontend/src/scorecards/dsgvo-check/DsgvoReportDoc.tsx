@@ -1,22 +1,25 @@
+import { DEFAULT_LOCALE } from "@/lib/scorecard/locale";
 import type { ScorecardReportDocProps } from "@/lib/scorecard/registry";
 import type { DsgvoResult } from "./types";
-import { dsgvoCopy } from "./content";
+import { DSGVO_COPY } from "./content";
 import "./dsgvo-report.css";
 
-export function DsgvoReportDoc({ result }: ScorecardReportDocProps) {
+export function DsgvoReportDoc({ result, locale = DEFAULT_LOCALE }: ScorecardReportDocProps) {
   const r = result as DsgvoResult;
+  const dsgvoCopy = DSGVO_COPY[locale];
+  const { labels } = dsgvoCopy;
   return (
     <article className="dsgr">
-      <div className="dsgr-badge">Stand der Recherche: {r.rechtsstand}</div>
+      <div className="dsgr-badge">{labels.rechtsstand} {r.rechtsstand}</div>
 
       <header className={`dsgr-ampel dsgr-ampel-${r.ampel}`}>
-        <p className="dsgr-eyebrow">Dein DSGVO-Status</p>
+        <p className="dsgr-eyebrow">{labels.reportEyebrow}</p>
         <h1 className="dsgr-headline">{dsgvoCopy.ampelHeadline[r.ampel]}</h1>
       </header>
 
       {r.toolMatrix.length > 0 && (
         <section className="dsgr-section">
-          <h2 className="dsgr-h2">Deine Tools im Detail</h2>
+          <h2 className="dsgr-h2">{labels.toolsDetail}</h2>
           {r.toolMatrix.map((v) => (
             <div key={v.toolId} className="dsgr-tool">
               <p className="dsgr-tool-head">
@@ -24,11 +27,11 @@ export function DsgvoReportDoc({ result }: ScorecardReportDocProps) {
                 <strong>{v.label}</strong>
               </p>
               <p className="dsgr-tool-reason">{v.reason}</p>
-              {v.upgradePath && <p className="dsgr-tool-upgrade">So wird&apos;s konform: {v.upgradePath}</p>}
+              {v.upgradePath && <p className="dsgr-tool-upgrade">{labels.upgrade} {v.upgradePath}</p>}
               {v.caveat && <p className="dsgr-tool-caveat">⚠️ {v.caveat}</p>}
               {v.dpaUrl && (
                 <p className="dsgr-tool-link">
-                  <a href={v.dpaUrl} target="_blank" rel="noopener noreferrer">→ AVV / DPA dieses Anbieters öffnen</a>
+                  <a href={v.dpaUrl} target="_blank" rel="noopener noreferrer">{labels.dpaLink}</a>
                 </p>
               )}
             </div>
@@ -37,12 +40,12 @@ export function DsgvoReportDoc({ result }: ScorecardReportDocProps) {
       )}
 
       <section className="dsgr-section">
-        <h2 className="dsgr-h2">EU-AI-Act-Einordnung: {dsgvoCopy.riskLabel[r.riskClass]}</h2>
+        <h2 className="dsgr-h2">{labels.aiAct}: {dsgvoCopy.riskLabel[r.riskClass]}</h2>
         <ul className="dsgr-list">{r.riskObligations.map((o, i) => <li key={i}>{o}</li>)}</ul>
       </section>
 
       <section className="dsgr-section">
-        <h2 className="dsgr-h2">Dein Maßnahmenplan</h2>
+        <h2 className="dsgr-h2">{labels.actionPlan}</h2>
         <ol className="dsgr-plan">
           {r.actionPlan.map((a) => <li key={a.priority}><strong>{a.title}</strong> — {a.detail}</li>)}
         </ol>
@@ -67,7 +70,7 @@ export function DsgvoReportDoc({ result }: ScorecardReportDocProps) {
             ))}
             {tpl.quellen && tpl.quellen.length > 0 && (
               <div className="dsgr-template-quellen">
-                <h4 className="dsgr-template-h4">Offizielle Vorlagen & Quellen</h4>
+                <h4 className="dsgr-template-h4">{labels.templateSources}</h4>
                 <ul className="dsgr-list">
                   {tpl.quellen.map((q) => (
                     <li key={q.url}>
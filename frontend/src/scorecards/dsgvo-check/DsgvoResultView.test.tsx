@@ -16,3 +16,11 @@ test("shows the ampel headline, a tool row, and the disclaimer", () => {
   expect(screen.getByText(/ChatGPT/)).toBeInTheDocument();
   expect(screen.getByText(/keine Rechtsberatung/i)).toBeInTheDocument();
 });
+
+test("renders in English with locale en", () => {
+  const answers = { Q_TOOLS: ["chatgpt"], Q_TIER: "free", Q_DATA: "personenbezogen", Q_USECASE: ["hr"], Q_SHADOW: "nein", Q_COMPLIANCE: ["nichts"], C1: "gf" };
+  render(<DsgvoResultView registration={reg} answers={answers} result={recommend(answers, "en")} locale="en" />);
+  expect(screen.getByText(/Urgent action needed/)).toBeInTheDocument();
+  expect(screen.getByText(/Your tools, checked/)).toBeInTheDocument();
+  expect(screen.getByText(/not legal advice/i)).toBeInTheDocument();
+});
@@ -0,0 +1,236 @@
+/**
+ * DSGVO-Check — English content (translations.en) and the English counterpart
+ * of `dsgvoCopy`. Legal terms follow the English versions of the GDPR and the
+ * EU AI Act (DPA for AVV, DPIA for DSFA); the linked templates stay German.
+ */
+
+import type { ScorecardContent } from "@/lib/scorecard/content";
+import type { DsgvoCopy, DsgvoTemplate } from "./content";
+
+export const contentEn: ScorecardContent = {
+  intro: {
+    eyebrow: "GDPR Check",
+    heading: "Can you use your AI tools in a GDPR-compliant way?",
+    lead: "8 questions, 3 minutes: you get a clear traffic light for every tool — and a concrete plan for what you need to do.",
+    startLabel: "Start the check",
+    meta: "Free · research as of June 2026 · not legal advice",
+  },
+  resultHeading: "Your GDPR status",
+  outcomeLabel: { rot: "Traffic light: red", gelb: "Traffic light: amber", gruen: "Traffic light: green" },
+  byOutcome: {},
+  sources: [],
+  optin: {
+    heading: "Get the complete action plan",
+    body: "With direct DPA links, step-by-step upgrades and templates (AI usage policy, DPA checklist, AI literacy plan) as a report you can open any time.",
+    button: "Request the report",
+    consent: "By signing up I agree to receive information and tips about AI by email. You can unsubscribe at any time.",
+    datenschutzHref: "/datenschutz",
+    datenschutzHinweis: "Your answers stay in your browser until you sign up. Processing via Hostinger (Frankfurt) and IONOS (Germany); newsletter via CleverReach (Germany).",
+    successHeading: "Almost done — please confirm your email",
+    successBody: "We've sent you a confirmation link. One click and your report is ready.",
+    errorBody: "That didn't work. Please check the email address and try again.",
+    emailLabel: "Your email address",
+    emailPlaceholder: "name@company.com",
+  },
+  video: {
+    intro: "More on this in the video (German):",
+    title: "Are ChatGPT, Claude & co GDPR-compliant?",
+    label: "Video #01",
+    url: "https://www.youtube.com/@DanielKreuzhofer",
+  },
+};
+
+export const dsgvoCopyEn: DsgvoCopy = {
+  labels: {
+    status: "Your status",
+    tools: "Your tools, checked",
+    aiAct: "EU AI Act classification",
+    nextSteps: "Your most important next steps",
+    teaser: "The complete plan with DPA links, upgrade steps and templates is in your report ↓",
+    shadowCallout:
+      "⚠️ You don't have a full picture of which AI your employees use — in practice, that's the most common GDPR risk.",
+    rechtsstand: "Research as of:",
+    reportEyebrow: "Your GDPR status",
+    toolsDetail: "Your tools in detail",
+    upgrade: "How to make it compliant:",
+    dpaLink: "→ Open this provider's DPA",
+    actionPlan: "Your action plan",
+    templateSources: "Official templates & sources (German)",
+  },
+  ampelLabel: { rot: "Red", gelb: "Amber", gruen: "Green" },
+  ampelHeadline: {
+    rot: "Urgent action needed",
+    gelb: "On the way — but with gaps",
+    gruen: "Well set up",
+  },
+  verdictLabel: { gruen: "Compliant use possible", gelb: "With conditions", rot: "Not like this in a company" },
+  riskLabel: { minimal: "Minimal risk", begrenzt: "Limited risk", hoch: "High risk" },
+  disclaimer:
+    "This check is not legal advice. It gives a well-founded first assessment based on publicly available sources (research as of June 2026).",
+  updateNote:
+    "The legal situation keeps changing. We update this check regularly and announce major changes in our newsletter.",
+  rewardHeading: "Your templates",
+  rewardNote:
+    "Adaptable templates — replace the placeholders in [square brackets]. These templates are not legal advice; have them reviewed before you use them in production.",
+  templates: [
+    {
+      icon: "📄",
+      title: "Template: AI usage policy",
+      intro:
+        "Internal policy for the use of AI tools at [company]. Effective from [date], review at least once a year.",
+      sections: [
+        {
+          heading: "1. Purpose & scope",
+          items: [
+            "This policy governs the use of AI tools by all employees, trainees and external service providers of [company].",
+            "Goal: productive, legally compliant and responsible use of AI in line with the GDPR and the EU AI Act.",
+          ],
+        },
+        {
+          heading: "2. Approved tools",
+          items: [
+            "Only tools approved by [IT/data protection] may be used. Currently approved: [e.g. ChatGPT Enterprise, Claude via AWS Bedrock].",
+            "Using private AI accounts for work tasks is not permitted.",
+            "New tools are reviewed and approved by [person responsible] before use.",
+          ],
+        },
+        {
+          heading: "3. What data may be entered",
+          items: [
+            "Allowed: general, non-personal information, publicly available content, anonymised data.",
+            "Not allowed without explicit approval: personal data (customers, employees), trade secrets, credentials, special categories (Art. 9 GDPR, e.g. health data).",
+            "When in doubt: enter nothing and ask [data protection].",
+          ],
+        },
+        {
+          heading: "4. Responsibility & oversight",
+          items: [
+            "AI output is a suggestion, not a decision. Everyone checks results for accuracy before using them — the human stays responsible.",
+            "Where customers interact with AI, this must be made transparent (Art. 50 EU AI Act).",
+            "Responsible for this policy: [name/role], reachable at [email].",
+          ],
+        },
+        {
+          heading: "5. Training & violations",
+          items: [
+            "Everyone who uses AI completes the AI literacy training (Art. 4 EU AI Act, mandatory since 02/2025).",
+            "Violations must be reported to [manager/data protection] and may have consequences under employment law.",
+          ],
+        },
+      ],
+      quellen: [
+        {
+          label: "IHK Schwaben – model AI policy (Word, free, German)",
+          url: "https://www.ihk.de/blueprint/servlet/resource/blob/6644920/f6ce0e19333d88d09fe6368d8c9068b4/muster-ki-richtlinie-data.docx",
+        },
+        {
+          label: "GDD e.V. – model AI policy (PDF, May 2025, German)",
+          url: "https://www.gdd.de/wp-content/uploads/2025/06/GDD-Musterrichtlinie-KI.pdf",
+        },
+      ],
+    },
+    {
+      icon: "✅",
+      title: "DPA checklist (data processing, Art. 28 GDPR)",
+      intro:
+        "Check for every AI provider whether the data processing agreement (DPA) covers these points.",
+      sections: [
+        {
+          heading: "Mandatory content under Art. 28(3)",
+          items: [
+            "Subject matter, duration, nature and purpose of the processing are stated.",
+            "Categories of data subjects and types of data are described.",
+            "Processing happens only on documented instructions from [company].",
+            "The confidentiality obligation of the people involved is covered.",
+            "Technical and organisational measures (TOMs, Art. 32) are agreed.",
+            "Subprocessors: approval/notification and passing on of obligations are covered.",
+            "Support with data subject rights (access, erasure, rectification) is guaranteed.",
+            "Support with data breach notifications and data protection impact assessments.",
+            "Deletion or return of the data after the contract ends is covered.",
+            "[Company]'s rights to evidence and audits are agreed.",
+          ],
+        },
+        {
+          heading: "Additionally for US/non-EU providers",
+          items: [
+            "Standard contractual clauses (SCCs) agreed as a fallback — not the DPF alone.",
+            "A transfer impact assessment (TIA) is documented.",
+            "EU region / data residency enabled where available.",
+          ],
+        },
+        {
+          heading: "In practice",
+          items: [
+            "The DPA is actually signed (not just “available”) and documented.",
+            "A list of all AI providers with their DPA status is maintained.",
+          ],
+        },
+      ],
+      quellen: [
+        {
+          label: "GDD e.V. – model DPA under Art. 28 with explanations (PDF + Word, German)",
+          url: "https://www.gdd.de/wp-content/uploads/2023/06/GDD-Praxishilfe-DS-GVO-Mustervertrag-zur-Auftragsverarbeitung-gemaess-Art.-28-DS-GVO-Vers.-2.1.pdf",
+        },
+        {
+          label: "Bitkom – practical guide & model contract annex for data processing (German)",
+          url: "https://www.bitkom.org/Bitkom/Publikationen/Praxisleitfaeden-zur-Auftragsverarbeitung",
+        },
+      ],
+    },
+    {
+      icon: "🎓",
+      title: "AI literacy training plan (Art. 4 EU AI Act)",
+      intro:
+        "A compact plan to meet the training obligation in a way you can prove. Adjust the scope to role and data risk.",
+      sections: [
+        {
+          heading: "Audiences",
+          items: [
+            "All employees who use AI → core module (~60–90 min, mandatory).",
+            "Managers/decision-makers → add-on module on responsibility & governance.",
+            "Roles handling personal/high-risk data → data protection deep dive.",
+          ],
+        },
+        {
+          heading: "Core module (everyone)",
+          items: [
+            "What AI can and can't do — strengths, hallucinations, limits.",
+            "Approved tools and allowed data (with reference to the AI usage policy).",
+            "Recognising and protecting personal and confidential data.",
+            "Checking results critically — the human stays responsible.",
+            "GDPR and EU AI Act basics (legal basis, transparency obligation).",
+          ],
+        },
+        {
+          heading: "Deep dive (depending on role)",
+          items: [
+            "Data protection in AI use, DPIA, data processing agreements.",
+            "High-risk applications (e.g. HR/applicant scoring) and their obligations.",
+          ],
+        },
+        {
+          heading: "Evidence & refreshers",
+          items: [
+            "Document participation (date, participants, content) — as evidence under Art. 4.",
+            "A short confirmation of understanding at the end (quiz/signature).",
+            "Refresh at least once a year and whenever the law changes significantly.",
+          ],
+        },
+      ],
+      quellen: [
+        {
+          label: "BIHK – AI Act webinar series incl. Art. 4 (free slides, German)",
+          url: "https://www.bihk.de/aiact-webinare.html",
+        },
+        {
+          label: "Bitkom – implementation guide to the AI Regulation (PDF, free, German)",
+          url: "https://www.bitkom.org/sites/main/files/2024-10/241028-bitkom-umsetzungsleitfaden-ki.pdf",
+        },
+        {
+          label: "DIHK-Bildungs-GmbH – AI training / Art. 4 courses (paid, German)",
+          url: "https://www.dihk-bildungs-gmbh.de/weiterbildung/themenfeld-kuenstliche-intelligenz-",
+        },
+      ],
+    },
+  ] as DsgvoTemplate[],
+};
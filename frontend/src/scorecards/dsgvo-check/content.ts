@@ -2,9 +2,12 @@
  * DSGVO-Check — renderer content. Quiz shell uses intro/optin/video/resultHeading/
  * outcomeLabel. The report is fully custom (DsgvoResultView / DsgvoReportDoc) and
  * uses nothing from byOutcome; dsgvoCopy below carries all DSGVO-specific copy.
+ * The English counterparts live in `content.en.ts`.
  */
 
 import type { ScorecardContent } from "@/lib/scorecard/content";
+import type { Locale } from "@/lib/scorecard/locale";
+import { dsgvoCopyEn } from "./content.en";
 
 export const content: ScorecardContent = {
   intro: {
@@ -57,6 +60,22 @@ export interface DsgvoTemplate {
 
 /** DSGVO-specific copy used only by DsgvoResultView / DsgvoReportDoc. */
 export const dsgvoCopy = {
+  labels: {
+    status: "Dein Status",
+    tools: "Deine Tools im Check",
+    aiAct: "EU-AI-Act-Einordnung",
+    nextSteps: "Deine wichtigsten nächsten Schritte",
+    teaser: "Den vollständigen Plan mit AVV-Links, Upgrade-Schritten und Vorlagen bekommst Du im Report ↓",
+    shadowCallout:
+      "⚠️ Du hast keinen vollen Überblick, welche KI Deine Mitarbeitenden nutzen — das ist in der Praxis das häufigste DSGVO-Risiko.",
+    rechtsstand: "Stand der Recherche:",
+    reportEyebrow: "Dein DSGVO-Status",
+    toolsDetail: "Deine Tools im Detail",
+    upgrade: "So wird's konform:",
+    dpaLink: "→ AVV / DPA dieses Anbieters öffnen",
+    actionPlan: "Dein Maßnahmenplan",
+    templateSources: "Offizielle Vorlagen & Quellen",
+  },
   ampelLabel: { rot: "Rot", gelb: "Gelb", gruen: "Grün" } as Record<string, string>,
   ampelHeadline: {
     rot: "Akuter Handlungsbedarf",
@@ -234,3 +253,8 @@ export const dsgvoCopy = {
     },
   ] as DsgvoTemplate[],
 };
+
+export type DsgvoCopy = typeof dsgvoCopy;
+
+/** dsgvoCopy per locale — the views pick by the page's / lead's language. */
+export const DSGVO_COPY: Record<Locale, DsgvoCopy> = { de: dsgvoCopy, en: dsgvoCopyEn };
@@ -2,6 +2,7 @@ import type { ScorecardDefinition } from "@/lib/scorecard/types";
 
 export const definition: ScorecardDefinition = {
   slug: "dsgvo-check",
+  version: 1,
   // Engine scoring/outcome are unused (recommend() overrides via the resolve hook);
   // a trivial valid outcome satisfies the type.
   scoring: { maxPoints: 0, direction: "higher-better" },
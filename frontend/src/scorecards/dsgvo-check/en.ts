@@ -0,0 +1,51 @@
+/**
+ * DSGVO-Check — English translation (`translations.en`, served at /en/dsgvo-check).
+ * Same question and option ids as definition.ts; only the wording differs.
+ */
+
+import type { ScorecardTranslation } from "@/lib/scorecard/locale";
+import { contentEn } from "./content.en";
+
+export const en: ScorecardTranslation = {
+  meta: {
+    title: "GDPR Check — can you use your AI tools in a compliant way?",
+    description: "8 questions, 3 minutes: a clear traffic light for every tool and a concrete action plan for using AI in line with the GDPR. Research as of June 2026.",
+  },
+  doiSubject: "One more click and your GDPR report is on its way",
+  deliverySubject: "Your GDPR report is here",
+  content: contentEn,
+  questions: {
+    C1: { prompt: "What best describes your role?", options: {
+      gf: "Managing director / owner", it: "Head of IT", datenschutz: "Data protection / legal",
+      bereichsleitung: "Head of department", team: "Team member without management responsibility", berater: "Consultant / other",
+    } },
+    C2: { prompt: "How many employees does your company have?", options: {
+      u10: "fewer than 10", "10-49": "10–49", "50-250": "50–250", "250-1000": "250–1,000", ue1000: "more than 1,000",
+    } },
+    Q_TOOLS: { prompt: "Which AI tools do you use or plan to use?", options: {
+      chatgpt: "ChatGPT", copilot: "Microsoft Copilot", claude: "Claude", gemini: "Google Gemini",
+      mistral: "Mistral / Le Chat", alephalpha: "Aleph Alpha / PhariaAI", local: "Local models (Ollama or similar)",
+      deepseek: "DeepSeek", andere: "Other", keine: "None yet",
+    } },
+    Q_TIER: { prompt: "How do you mostly use these tools?", options: {
+      free: "Free / private account", business: "Paid business/enterprise plans",
+      cloud: "Through a cloud (Azure / AWS Bedrock / Google)", gemischt: "Mixed / don't know",
+    } },
+    Q_DATA: { prompt: "What data do you enter into the AI?", options: {
+      keine: "No personal data", intern: "Internal data, but no personal data",
+      personenbezogen: "Personal data of customers/employees", besondere: "Special categories (health etc., Art. 9)",
+    } },
+    Q_USECASE: { prompt: "What do you use AI for?", options: {
+      produktivitaet: "Productivity (texts, emails, research)", analyse: "Document/data analysis",
+      bot: "Customer service chatbot", hr: "HR / applicant selection / scoring", entscheidungen: "Automated decisions about people",
+    } },
+    Q_SHADOW: { prompt: "Do you know which AI tools your employees actually use?", options: {
+      ja: "Yes, clear policy + overview", teilweise: "Partly",
+      nein: "No, some probably use AI privately", "keine-ahnung": "No idea",
+    } },
+    Q_COMPLIANCE: { prompt: "What have you already put in place?", options: {
+      avv: "DPA with the providers", literacy: "AI literacy training", richtlinie: "AI usage policy",
+      euregion: "EU region / training opt-out", dsfa: "DPIA where needed", nichts: "None of these",
+    } },
+  },
+};
@@ -0,0 +1,88 @@
+import { TOOLS } from "./facts";
+import type { Tier, ToolFact } from "./types";
+
+/** The English wording of one ToolFact; verdicts, URLs and flags stay in facts.ts. */
+export interface ToolText {
+  label?: string;
+  country?: string;
+  tiers?: Partial<Record<Exclude<Tier, "gemischt">, { reason: string; upgradePath?: string }>>;
+  override?: string;
+  caveat?: string;
+}
+
+/** Keep in step with facts.ts — facts.test fails on any tool text left untranslated. */
+export const TOOL_TEXT_EN: Record<string, ToolText> = {
+  chatgpt: {
+    country: "USA",
+    tiers: {
+      free: { reason: "No full DPA, no EU inference, processing in the US.", upgradePath: "Switch to Team/Enterprise/API with an EU region." },
+      business: { reason: "Enterprise/API with EU data residency + EU inference (since Jan 2026); actively configure the DPA." },
+      cloud: { reason: "Azure OpenAI “Data Zone Standard (EUR)”; Microsoft DPA applies automatically." },
+    },
+  },
+  claude: {
+    country: "USA",
+    tiers: {
+      free: { reason: "Consumer Free/Pro/Max (claude.ai): training default switched to opt-in on 08 Oct 2025; no full DPA; unsuitable for business use with personal data.", upgradePath: "Switch to the API directly / Team / Enterprise or a cloud deployment." },
+      business: { reason: "API directly / Team / Enterprise: US default without dedicated EU hosting; DPA automatically part of the Commercial Terms (since 01 Jan 2026) + SCCs module 2/3; 7-day retention; DPIA + TIA required.", upgradePath: "Via AWS Bedrock (Frankfurt) or Google Vertex AI (EU) it turns green." },
+      cloud: { reason: "AWS Bedrock eu-central-1 (Frankfurt) or Google Vertex AI EU region: full EU data residency, no training on customer data, AWS/Google DPA applies automatically." },
+    },
+  },
+  gemini: {
+    country: "USA",
+    tiers: {
+      free: { reason: "Consumer version (gemini.google.com) without a business DPA; not suitable for company data.", upgradePath: "Use Google Workspace Business/Enterprise or Vertex AI EU." },
+      business: { reason: "Google Workspace Business/Enterprise: EU region, Workspace DPA included automatically, no training on Workspace data." },
+      cloud: { reason: "Vertex AI EU region (europe-west3/4): EU multi-region, Google Cloud DPA applies automatically, no training by default; ISO 27001/27701 certified." },
+    },
+  },
+  copilot: {
+    country: "USA",
+    tiers: {
+      free: { reason: "Consumer version without a business DPA.", upgradePath: "License M365 Copilot (Business)." },
+      business: { reason: "“Flex Routing” (default since 17 Apr 2026) can move inference to the US/Canada/Australia; Anthropic subprocessor outside the EU Data Boundary.", upgradePath: "Disable Flex Routing in the M365 admin center." },
+    },
+  },
+  mistral: {
+    country: "France",
+    tiers: {
+      business: { reason: "Le Chat Pro/Team: EU-native (Paris), no training for commercial users by default, DPA available at mistral.ai/terms." },
+      cloud: { reason: "Mistral API directly: EU-native, no US routing, no training by default." },
+    },
+    caveat: "When buying through US marketplaces (Azure/GCP), check for US routing; Le Chat Free has opt-out training.",
+  },
+  alephalpha: {
+    country: "Germany",
+    tiers: {
+      business: { reason: "Enterprise / on-premise / STACKIT-as-a-service: fully EU (Germany), individual DPA, no third-country transfers; BSI certifications; ideal for regulated industries." },
+    },
+    caveat: "Acquisition by Cohere announced on 24 Apr 2026 (subject to approval) — reassess the GDPR assessment after the merger.",
+  },
+  deepseek: {
+    country: "China",
+    override: "Data stored in China, no adequacy decision; banned by the Garante since 30 Jan 2025; EU investigations in Germany, France, the Netherlands, Belgium and Ireland.",
+  },
+  local: {
+    label: "Local models (Ollama / vLLM / llama.cpp)",
+    override: "Self-hosted on your own EU infrastructure; no data processing agreement needed; GDPR duties (ROPA, TOMs, DPIA if needed) stay with the company.",
+  },
+};
+
+function translate(fact: ToolFact, text: ToolText = {}): ToolFact {
+  const tiers = Object.fromEntries(
+    Object.entries(fact.tiers).map(([tier, t]) => [tier, { ...t, ...text.tiers?.[tier as keyof typeof fact.tiers] }]),
+  );
+  return {
+    ...fact,
+    label: text.label ?? fact.label,
+    country: text.country ?? fact.country,
+    tiers,
+    override: fact.override && { ...fact.override, reason: text.override ?? fact.override.reason },
+    caveat: fact.caveat && (text.caveat ?? fact.caveat),
+  };
+}
+
+/** TOOLS with English wording. */
+export const TOOLS_EN: Record<string, ToolFact> = Object.fromEntries(
+  Object.entries(TOOLS).map(([id, fact]) => [id, translate(fact, TOOL_TEXT_EN[id])]),
+);
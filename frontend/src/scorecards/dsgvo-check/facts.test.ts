@@ -1,4 +1,5 @@
 import { TOOLS, DPF_STATUS, RECHTSSTAND, AI_ACT_TIMELINE } from "./facts";
+import { TOOL_TEXT_EN, TOOLS_EN } from "./facts.en";
 
 test("every tool has a label, source url+asOf, and either tiers or an override", () => {
   for (const [id, t] of Object.entries(TOOLS)) {
@@ -32,3 +33,25 @@ test("Rechtsstand + DPF + timeline are set", () => {
   expect(typeof DPF_STATUS.stable).toBe("boolean");
   expect(AI_ACT_TIMELINE.length).toBeGreaterThan(3);
 });
+
+test("every German tool text has an English counterpart", () => {
+  for (const [id, t] of Object.entries(TOOLS)) {
+    const en = TOOL_TEXT_EN[id];
+    for (const [tier, f] of Object.entries(t.tiers)) {
+      const text = en?.tiers?.[tier as keyof typeof t.tiers];
+      expect([`${id}.${tier}`, !!text?.reason]).toEqual([`${id}.${tier}`, true]);
+      if (f.upgradePath) expect([`${id}.${tier}.upgradePath`, !!text?.upgradePath]).toEqual([`${id}.${tier}.upgradePath`, true]);
+    }
+    if (t.override) expect([`${id}.override`, !!en?.override]).toEqual([`${id}.override`, true]);
+    if (t.caveat) expect([`${id}.caveat`, !!en?.caveat]).toEqual([`${id}.caveat`, true]);
+  }
+});
+
+test("TOOLS_EN keeps verdicts and sources from facts.ts", () => {
+  for (const [id, t] of Object.entries(TOOLS)) {
+    expect(TOOLS_EN[id].source).toEqual(t.source);
+    for (const [tier, f] of Object.entries(t.tiers)) {
+      expect(TOOLS_EN[id].tiers[tier as keyof typeof t.tiers]?.verdict).toBe(f.verdict);
+    }
+  }
+});
@@ -2,6 +2,7 @@ import type { ScorecardRegistration } from "@/lib/scorecard/registry";
 import type { Answers, ScorecardResult } from "@/lib/scorecard/types";
 import { definition } from "./definition";
 import { content } from "./content";
+import { en } from "./en";
 import { branding } from "./branding";
 import { recommend } from "./recommend";
 import { DsgvoResultView } from "./DsgvoResultView";
@@ -37,4 +38,5 @@ export const dsgvoCheck: ScorecardRegistration = {
   // which has no ConversionLink and would silently drop attribution.
   trackmysalesCode: "dsgvo-checkliste",
   bookingUrl: "https://calendly.com/danielkreuzhofer/30min",
+  translations: { en },
 };
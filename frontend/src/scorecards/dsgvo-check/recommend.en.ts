@@ -0,0 +1,30 @@
+import { TOOLS_EN } from "./facts.en";
+import type { RecommendCopy } from "./recommend";
+
+/** English counterpart of recommend.ts's COPY_DE. */
+export const recommendCopyEn: RecommendCopy = {
+  tools: TOOLS_EN,
+  unknownTool: "There's no verified assessment for this tool — check it individually (DPA, EU region, training opt-out).",
+  unknownTier: "There's no assessment for the chosen way of using it — check it individually.",
+  genericUpgrade: "Switch to a compliant plan/EU region.",
+  obligations: {
+    hoch: [
+      "Set up a risk management system and technical documentation.",
+      "Ensure human oversight (a human decides, not the AI alone).",
+      "Log system use for ≥ 6 months.",
+      "High-risk obligations apply from 02 Dec 2027 (Annex III, postponed via the Digital Omnibus) — prepare now.",
+    ],
+    begrenzt: ["Transparency obligation (Art. 50): users must be able to tell they're talking to an AI — from 02 Aug 2026."],
+    minimal: ["No specific AI Act obligations — the GDPR still applies (DPA, legal basis, EU region)."],
+  },
+  compliance: {
+    literacy: { title: "Run AI literacy training", detail: "Mandatory since 02/2025 (Art. 4 EU AI Act) for everyone who uses AI — SMEs included." },
+    avv: { title: "Sign a DPA with every provider", detail: "Art. 28 GDPR: no lawful processing without a data processing agreement." },
+    richtlinie: { title: "Write an AI usage policy", detail: "Which tools are allowed, what data may go in, who is responsible." },
+    euregion: { title: "Enable EU region + training opt-out", detail: "EU data processing where you can choose it; switch off training contractually and technically." },
+    dsfa: { title: "Run a DPIA where needed", detail: "Data protection impact assessment (Art. 35) for AI that processes personal data." },
+  },
+  toolAction: "{tool}: make it compliant",
+  usTransfer: { title: "SCCs + transfer impact assessment for US providers", detail: "The DPF is unstable — agree standard contractual clauses and document a TIA." },
+  shadowAi: { title: "Contain shadow AI", detail: "Find out which tools employees really use; offer approved alternatives (private accounts often have training opt-in)." },
+};
@@ -80,3 +80,13 @@ test("invariant: every tool verdict references a known tool or the neutral fallb
     },
   ), { numRuns: 3 });
 });
+test("recommend() in English: same verdicts, English copy", () => {
+  const answers = { Q_TOOLS: ["chatgpt"], Q_TIER: "free", Q_DATA: "personenbezogen", Q_USECASE: ["hr"], Q_SHADOW: "nein", Q_COMPLIANCE: ["nichts"], C1: "gf" };
+  const de = recommend(answers);
+  const en = recommend(answers, "en");
+  expect(en.ampel).toBe(de.ampel);
+  expect(en.toolMatrix.map((t) => t.verdict)).toEqual(de.toolMatrix.map((t) => t.verdict));
+  expect(en.toolMatrix[0].reason).toMatch(/No full DPA/);
+  expect(en.riskObligations.join(" ")).toMatch(/human oversight/);
+  expect(en.actionPlan.some((p) => /AI literacy/.test(p.title))).toBe(true);
+});
@@ -1,9 +1,65 @@
 import type { Answers } from "@/lib/scorecard/types";
 import { isQualified } from "@/lib/scorecard/qualification";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/scorecard/locale";
 import { TOOLS, DPF_STATUS, RECHTSSTAND } from "./facts";
+import { recommendCopyEn } from "./recommend.en";
 import { definition } from "./definition";
 import type { ActionItem, Ampel, DsgvoResult, RiskClass, TierFact, ToolFact, ToolVerdict, Tier, Verdict } from "./types";
 
+/** Compliance items (Q_COMPLIANCE) that turn into actions when unchecked. Order = priority. */
+const COMPLIANCE_ORDER = ["literacy", "avv", "richtlinie", "euregion", "dsfa"] as const;
+
+type ComplianceId = (typeof COMPLIANCE_ORDER)[number];
+
+/**
+ * Everything recommend() writes into the stored result, in one language: the
+ * tool facts' wording plus the obligations and actions. The result is
+ * resolved in the lead's locale, so the report reads as it was scored.
+ */
+export interface RecommendCopy {
+  tools: Record<string, ToolFact>;
+  unknownTool: string;
+  unknownTier: string;
+  /** Upgrade hint in "gemischt" mode when the tier has none of its own. */
+  genericUpgrade: string;
+  obligations: Record<RiskClass, string[]>;
+  /** Action shown when the compliance item was NOT checked. */
+  compliance: Record<ComplianceId, { title: string; detail: string }>;
+  /** `{tool}` is replaced with the tool's label. */
+  toolAction: string;
+  usTransfer: { title: string; detail: string };
+  shadowAi: { title: string; detail: string };
+}
+
+const COPY_DE: RecommendCopy = {
+  tools: TOOLS,
+  unknownTool: "Für dieses Tool liegt keine geprüfte Einordnung vor — individuell prüfen (AVV, EU-Region, Training-Opt-out).",
+  unknownTier: "Für die gewählte Nutzungsform liegt keine Einordnung vor — individuell prüfen.",
+  genericUpgrade: "Auf eine konforme Stufe/EU-Region wechseln.",
+  obligations: {
+    hoch: [
+      "Risikomanagement-System und technische Dokumentation aufbauen.",
+      "Human Oversight sicherstellen (Mensch entscheidet, nicht die KI allein).",
+      "Logging der Systemnutzung ≥ 6 Monate.",
+      "Hochrisiko-Pflichten greifen ab 02.12.2027 (Annex III, via Digital Omnibus verschoben) — Vorbereitung jetzt.",
+    ],
+    begrenzt: ["Transparenzpflicht (Art. 50): Nutzer müssen erkennen, dass sie mit KI sprechen — ab 02.08.2026."],
+    minimal: ["Keine spezifischen AI-Act-Pflichten — die DSGVO gilt trotzdem (AVV, Rechtsgrundlage, EU-Region)."],
+  },
+  compliance: {
+    literacy: { title: "AI-Literacy-Schulung durchführen", detail: "Pflicht seit 02/2025 (Art. 4 EU AI Act) für alle, die KI nutzen — auch KMU." },
+    avv: { title: "AVV/DPA mit jedem Anbieter abschließen", detail: "Art. 28 DSGVO: ohne Auftragsverarbeitungsvertrag keine zulässige Verarbeitung." },
+    richtlinie: { title: "KI-Nutzungsrichtlinie erstellen", detail: "Welche Tools erlaubt sind, welche Daten rein dürfen, wer verantwortlich ist." },
+    euregion: { title: "EU-Region + Training-Opt-out aktivieren", detail: "Wo wählbar EU-Datenverarbeitung; Training vertraglich und technisch ausschalten." },
+    dsfa: { title: "DSFA durchführen, wo nötig", detail: "Datenschutz-Folgenabschätzung (Art. 35) für KI mit personenbezogenen Daten." },
+  },
+  toolAction: "{tool}: konform machen",
+  usTransfer: { title: "SCCs + Transfer Impact Assessment für US-Anbieter", detail: "Das DPF ist instabil — Standardvertragsklauseln vereinbaren und ein TIA dokumentieren." },
+  shadowAi: { title: "Schatten-KI eindämmen", detail: "Erfassen, welche Tools Mitarbeitende real nutzen; freigegebene Alternativen anbieten (private Accounts haben oft Training-Opt-in)." },
+};
+
+const COPY: Record<Locale, RecommendCopy> = { de: COPY_DE, en: recommendCopyEn };
+
 const ORDER: Verdict[] = ["gruen", "gelb", "rot"];
 const worse = (a: Verdict, b: Verdict): Verdict => (ORDER.indexOf(a) >= ORDER.indexOf(b) ? a : b);
 
@@ -19,26 +75,23 @@ function pickTier(fact: ToolFact, tier: Tier): TierFact | undefined {
   return known.reduce((acc, t) => (ORDER.indexOf(t.verdict) > ORDER.indexOf(acc.verdict) ? t : acc));
 }
 
-export function buildToolMatrix(answers: Answers): ToolVerdict[] {
+export function buildToolMatrix(answers: Answers, locale: Locale = DEFAULT_LOCALE): ToolVerdict[] {
+  const copy = COPY[locale];
   const tier = (typeof answers.Q_TIER === "string" ? answers.Q_TIER : "gemischt") as Tier;
   const data = typeof answers.Q_DATA === "string" ? answers.Q_DATA : "keine";
   const sensitive = data === "personenbezogen" || data === "besondere";
 
   return asArray(answers.Q_TOOLS).filter((id) => id !== "keine").map((toolId) => {
-    const fact = TOOLS[toolId];
+    const fact = copy.tools[toolId];
     if (!fact) {
-      return {
-        toolId, label: toolId,
-        verdict: "gelb" as Verdict,
-        reason: "Für dieses Tool liegt keine geprüfte Einordnung vor — individuell prüfen (AVV, EU-Region, Training-Opt-out).",
-      };
+      return { toolId, label: toolId, verdict: "gelb" as Verdict, reason: copy.unknownTool };
     }
     if (fact.override) {
       return { toolId, label: fact.label, verdict: fact.override.verdict, reason: fact.override.reason, caveat: fact.caveat };
     }
     const t = pickTier(fact, tier);
     if (!t) {
-      return { toolId, label: fact.label, verdict: "gelb", reason: "Für die gewählte Nutzungsform liegt keine Einordnung vor — individuell prüfen.", caveat: fact.caveat };
+      return { toolId, label: fact.label, verdict: "gelb", reason: copy.unknownTier, caveat: fact.caveat };
     }
     let verdict = t.verdict;
     if (sensitive && tier === "free") verdict = worse(verdict, "rot");
@@ -51,7 +104,7 @@ export function buildToolMatrix(answers: Answers): ToolVerdict[] {
       verdict === "gruen"
         ? undefined
         : tier === "gemischt"
-          ? (t.upgradePath ?? "Auf eine konforme Stufe/EU-Region wechseln.")
+          ? (t.upgradePath ?? copy.genericUpgrade)
           : t.upgradePath;
     return { toolId, label: fact.label, verdict, reason: t.reason, upgradePath, dpaUrl: t.dpaUrl, caveat: fact.caveat };
   });
@@ -60,61 +113,41 @@ export function buildToolMatrix(answers: Answers): ToolVerdict[] {
 const HIGH_RISK = new Set(["hr", "entscheidungen"]);
 const LIMITED = new Set(["bot"]);
 
-export function classifyRisk(answers: Answers): { riskClass: RiskClass; obligations: string[] } {
+export function classifyRisk(
+  answers: Answers,
+  locale: Locale = DEFAULT_LOCALE,
+): { riskClass: RiskClass; obligations: string[] } {
   const uses = asArray(answers.Q_USECASE);
-  if (uses.some((u) => HIGH_RISK.has(u))) {
-    return {
-      riskClass: "hoch",
-      obligations: [
-        "Risikomanagement-System und technische Dokumentation aufbauen.",
-        "Human Oversight sicherstellen (Mensch entscheidet, nicht die KI allein).",
-        "Logging der Systemnutzung ≥ 6 Monate.",
-        "Hochrisiko-Pflichten greifen ab 02.12.2027 (Annex III, via Digital Omnibus verschoben) — Vorbereitung jetzt.",
-      ],
-    };
-  }
-  if (uses.some((u) => LIMITED.has(u))) {
-    return {
-      riskClass: "begrenzt",
-      obligations: ["Transparenzpflicht (Art. 50): Nutzer müssen erkennen, dass sie mit KI sprechen — ab 02.08.2026."],
-    };
-  }
-  return {
-    riskClass: "minimal",
-    obligations: ["Keine spezifischen AI-Act-Pflichten — die DSGVO gilt trotzdem (AVV, Rechtsgrundlage, EU-Region)."],
-  };
+  const riskClass: RiskClass = uses.some((u) => HIGH_RISK.has(u))
+    ? "hoch"
+    : uses.some((u) => LIMITED.has(u))
+      ? "begrenzt"
+      : "minimal";
+  return { riskClass, obligations: [...COPY[locale].obligations[riskClass]] };
 }
 
-/** Compliance item id → action shown when the user did NOT check it. Order = priority. */
-const COMPLIANCE_ACTIONS: { id: string; title: string; detail: string }[] = [
-  { id: "literacy", title: "AI-Literacy-Schulung durchführen", detail: "Pflicht seit 02/2025 (Art. 4 EU AI Act) für alle, die KI nutzen — auch KMU." },
-  { id: "avv", title: "AVV/DPA mit jedem Anbieter abschließen", detail: "Art. 28 DSGVO: ohne Auftragsverarbeitungsvertrag keine zulässige Verarbeitung." },
-  { id: "richtlinie", title: "KI-Nutzungsrichtlinie erstellen", detail: "Welche Tools erlaubt sind, welche Daten rein dürfen, wer verantwortlich ist." },
-  { id: "euregion", title: "EU-Region + Training-Opt-out aktivieren", detail: "Wo wählbar EU-Datenverarbeitung; Training vertraglich und technisch ausschalten." },
-  { id: "dsfa", title: "DSFA durchführen, wo nötig", detail: "Datenschutz-Folgenabschätzung (Art. 35) für KI mit personenbezogenen Daten." },
-];
-
-export function buildActionPlan(answers: Answers): ActionItem[] {
+export function buildActionPlan(answers: Answers, locale: Locale = DEFAULT_LOCALE): ActionItem[] {
+  const copy = COPY[locale];
   const done = new Set(asArray(answers.Q_COMPLIANCE));
-  const matrix = buildToolMatrix(answers);
+  const matrix = buildToolMatrix(answers, locale);
   const items: ActionItem[] = [];
   let p = 0;
-  for (const a of COMPLIANCE_ACTIONS) {
-    if (!done.has(a.id)) items.push({ priority: p++, title: a.title, detail: a.detail });
+  for (const id of COMPLIANCE_ORDER) {
+    if (!done.has(id)) items.push({ priority: p++, ...copy.compliance[id] });
   }
   for (const v of matrix) {
     if (v.verdict !== "gruen" && v.upgradePath) {
-      items.push({ priority: p++, title: `${v.label}: konform machen`, detail: v.upgradePath });
+      items.push({ priority: p++, title: copy.toolAction.replace("{tool}", v.label), detail: v.upgradePath });
     }
   }
   const hasUs = matrix.some((v) => v.verdict !== "rot" && TOOLS[v.toolId]?.usDirect === true);
   if (!DPF_STATUS.stable && hasUs) {
-    items.push({ priority: p++, title: "SCCs + Transfer Impact Assessment für US-Anbieter", detail: "Das DPF ist instabil — Standardvertragsklauseln vereinbaren und ein TIA dokumentieren." });
+    items.push({ priority: p++, ...copy.usTransfer });
   }
   // Anything other than a clear "ja" → remediation (matches recommend()'s shadowAiFlag).
   const shadow = typeof answers.Q_SHADOW === "string" ? answers.Q_SHADOW : "";
   if (shadow !== "ja") {
-    items.push({ priority: p++, title: "Schatten-KI eindämmen", detail: "Erfassen, welche Tools Mitarbeitende real nutzen; freigegebene Alternativen anbieten (private Accounts haben oft Training-Opt-in)." });
+    items.push({ priority: p++, ...copy.shadowAi });
   }
   return items;
 }
@@ -136,10 +169,10 @@ function readiness(answers: Answers): { score: number; ampel: Ampel } {
   return { score, ampel };
 }
 
-export function recommend(answers: Answers): DsgvoResult {
-  const toolMatrix = buildToolMatrix(answers);
-  const { riskClass, obligations } = classifyRisk(answers);
-  const actionPlan = buildActionPlan(answers);
+export function recommend(answers: Answers, locale: Locale = DEFAULT_LOCALE): DsgvoResult {
+  const toolMatrix = buildToolMatrix(answers, locale);
+  const { riskClass, obligations } = classifyRisk(answers, locale);
+  const actionPlan = buildActionPlan(answers, locale);
   const { score, ampel } = readiness(answers);
   const shadow = typeof answers.Q_SHADOW === "string" ? answers.Q_SHADOW : "";
   return {
@@ -0,0 +1,54 @@
+/**
+ * EngpassReportDoc — the token-gated page. This is where the implementation
+ * toolkit lives (the reason a lead gives their email). Counterpart to the
+ * EngpassResultView boundary test, which asserts the toolkit is NOT on the free screen.
+ */
+
+import { render, screen } from "@testing-library/react";
+import { EngpassReportDoc } from "./EngpassReportDoc";
+import { resolveEngpass } from "./resolve";
+import type { Answers } from "./types";
+
+const answers: Answers = {
+  K1: "gf",
+  K2: "50-250",
+  K3: "ja-budget",
+  S1: "2w-plus",
+  S2: "alle", // Übergabe-Stau → Weg A
+  S3: "kaum",
+  S4: "alles",
+  S5: "teilweise",
+  S6: "poc",
+  K4: "infrastruktur",
+  K5: "quartal",
+};
+
+describe("EngpassReportDoc (gated toolkit page)", () => {
+  it("renders the report PLUS the full implementation toolkit", () => {
+    render(<EngpassReportDoc answers={answers} result={resolveEngpass(answers)} />);
+
+    // Report part (also visible for free on the result screen)
+    expect(screen.getByText("Quellen & Belege")).toBeInTheDocument();
+
+    // Toolkit part — gated, the actual reason for the opt-in
+    expect(screen.getByRole("heading", { name: /Engpass-Raster/ })).toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: /Entscheidungsbaum/ })).toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: /geprüfte Cases/ })).toBeInTheDocument();
+    expect(screen.getByText(/Bremsen lösen/)).toBeInTheDocument(); // 90-day skeleton
+    expect(screen.getByText(/Lüdenscheid/)).toBeInTheDocument(); // a verified case detail
+
+    // #8 — vendor-reference transparency, dezent aber sichtbar
+    expect(screen.getByText(/Anbieter bzw\. der Agentur veröffentlichten Referenz/)).toBeInTheDocument(); // cases note
+    expect(screen.getByText(/Anbieter veröffentlichte Referenzen/)).toBeInTheDocument(); // sources note (this result cites Schulte/RSP)
+  });
+
+  it("renders report and toolkit in English for an English lead", () => {
+    render(<EngpassReportDoc answers={answers} result={resolveEngpass(answers)} locale="en" />);
+    expect(screen.getByRole("heading", { name: "Your bottleneck type: Handover jam" })).toBeInTheDocument();
+    expect(screen.getByText("Sources & evidence")).toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: /bottleneck grid/ })).toBeInTheDocument();
+    expect(screen.getByText("← Your tendency")).toBeInTheDocument();
+    expect(screen.getByText(/Release the brakes/)).toBeInTheDocument();
+    expect(screen.queryByText(/Quellen & Belege/)).not.toBeInTheDocument();
+  });
+});
@@ -1,14 +1,11 @@
-import { REPORT_LABELS } from "@/lib/engpass-check/report-content";
-import {
-  BUSINESS_CASE,
-  CASES,
-  ENGPASS_RASTER,
-  PLAN_90,
-  TOOLKIT_LABELS,
-  WEGE_BAUM,
-  highlightedWeg,
-} from "@/lib/engpass-check/toolkit-content";
-import type { ReportModel } from "@/lib/engpass-check/report";
+import type { ScorecardReportDocProps } from "@/lib/scorecard/registry";
+import { DEFAULT_LOCALE } from "@/lib/scorecard/locale";
+import { ENGPASS_COPY } from "./i18n";
+import { highlightedWeg } from "./toolkit-content";
+import { buildReportModel } from "./report";
+import { computeResult } from "./scoring";
+import type { Answers } from "./types";
+import "./engpass-report.css";
 
 function Paras({ text }: { text: string }) {
   return (
@@ -30,7 +27,11 @@ const PFAD_OF: Record<ReturnType<typeof highlightedWeg>, "A" | "B" | "C"> = {
 };
 
 /** Full printable document: report points 1–8 + the implementation toolkit. */
-export function ReportDocument({ model }: { model: ReportModel }) {
+export function EngpassReportDoc({ answers, locale = DEFAULT_LOCALE }: ScorecardReportDocProps) {
+  const { copy, report, toolkit } = ENGPASS_COPY[locale];
+  const { REPORT_LABELS } = report;
+  const { BUSINESS_CASE, CASES, ENGPASS_RASTER, PLAN_90, TOOLKIT_LABELS, WEGE_BAUM } = toolkit;
+  const model = buildReportModel(answers as Answers, computeResult(answers as Answers), locale);
   const [, ...scoreBody] = model.scoreParagraph.split("\n\n");
   // Ohne dominante Engstelle keine Weg-Tendenz hervorheben → „Stufe 0" (erst beobachten).
   const mineWeg = model.noDominantTyp ? "Stufe 0" : highlightedWeg(model.weg);
@@ -42,7 +43,7 @@ export function ReportDocument({ model }: { model: ReportModel }) {
   return (
     <div className="er-container">
       {/* 1 — Score */}
-      <p className="er-eyebrow">Dein Ergebnis</p>
+      <p className="er-eyebrow">{copy.RESULT.heading}</p>
       <div className={`er-score er-band-${model.band}`}>
         <span className="er-score-value">{model.score}</span>
         <span className="er-score-max">/ 100</span>
@@ -127,7 +128,7 @@ export function ReportDocument({ model }: { model: ReportModel }) {
             <li key={s.id} className="er-source">
               {s.text} —{" "}
               <a href={s.url} target="_blank" rel="noopener noreferrer">
-                Beleg ansehen ↗
+                {REPORT_LABELS.belegLink}
               </a>
             </li>
           ))}
@@ -164,10 +165,12 @@ export function ReportDocument({ model }: { model: ReportModel }) {
           const isMine = node.pfad === mineWeg;
           return (
             <div key={node.key} className={`er-weg-node${isMine ? " is-mine" : ""}`}>
-              <span className="er-weg-pfad">{node.pfad}</span>
-              {isMine && <span className="er-weg-tag">← Deine Tendenz</span>}
+              <span className="er-weg-pfad">{TOOLKIT_LABELS.pfade[node.pfad]}</span>
+              {isMine && <span className="er-weg-tag">{TOOLKIT_LABELS.tendenz}</span>}
               <p className="er-weg-title">{node.title}</p>
-              <p className="er-weg-wenn">Wenn: {node.wenn}</p>
+              <p className="er-weg-wenn">
+                {TOOLKIT_LABELS.wenn} {node.wenn}
+              </p>
               <p className="er-text">{node.text}</p>
             </div>
           );
@@ -182,23 +185,25 @@ export function ReportDocument({ model }: { model: ReportModel }) {
         {orderedCases.map((c) => (
           <div key={c.company} className="er-case">
             <div className="er-case-head">
-              <span className="er-case-pfad">Pfad {c.pfad}</span>
+              <span className="er-case-pfad">
+                {TOOLKIT_LABELS.casePfad} {c.pfad}
+              </span>
               <span className="er-case-company">{c.company}</span>
             </div>
             <p className="er-case-context">{c.context}</p>
             <dl>
-              <dt>Engpass</dt>
+              <dt>{TOOLKIT_LABELS.engpass}</dt>
               <dd>{c.engpass}</dd>
-              <dt>Lösung</dt>
+              <dt>{TOOLKIT_LABELS.loesung}</dt>
               <dd>{c.loesung}</dd>
-              <dt>Ergebnis</dt>
+              <dt>{TOOLKIT_LABELS.ergebnis}</dt>
               <dd className="er-case-outcome">{c.outcome}</dd>
             </dl>
             {c.quote && <p className="er-case-quote">{c.quote}</p>}
             <p className="er-case-source">
-              Quelle: {c.quelleName} —{" "}
+              {TOOLKIT_LABELS.quelle} {c.quelleName} —{" "}
               <a href={c.url} target="_blank" rel="noopener noreferrer">
-                ansehen ↗
+                {TOOLKIT_LABELS.ansehen}
               </a>
             </p>
           </div>
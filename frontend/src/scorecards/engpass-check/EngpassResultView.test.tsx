@@ -0,0 +1,77 @@
+/**
+ * EngpassResultView — the free result screen: report points 1–8, verbatim.
+ * The toolkit must NOT render here; it lives in the gated EngpassReportDoc.
+ */
+
+import { render, screen } from "@testing-library/react";
+import { EngpassResultView } from "./EngpassResultView";
+import { resolveEngpass } from "./resolve";
+import { engpassCheck } from ".";
+import type { Answers } from "./types";
+
+function renderFor(answers: Answers) {
+  render(<EngpassResultView registration={engpassCheck} answers={answers} result={resolveEngpass(answers)} />);
+}
+
+describe("EngpassResultView", () => {
+  it("renders the full report for the worst case (score, typ, steps, weg, GF-Satz, sources)", () => {
+    // Worst-case diagnosis → score 100 / akut; S5 worst → Weg Stufe 0;
+    // four dimensions tie → tie-break picks Mess-Blindflug; S6 = PoC.
+    renderFor({
+      K1: "gf",
+      K2: "50-250",
+      K3: "ja-budget",
+      S1: "2w-plus",
+      S2: "alle",
+      S3: "fast-alles",
+      S4: "nichts",
+      S5: "nein",
+      S6: "poc",
+      K4: "baut-regelmaessig",
+      K5: "quartal",
+    });
+
+    expect(screen.getByText("100", { exact: true })).toBeInTheDocument();
+    expect(screen.getByText("Akuter Engpass")).toBeInTheDocument();
+    expect(screen.getByText(/27 Prozent der Vertriebszeit/)).toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: /Mess-Blindflug/ })).toBeInTheDocument();
+    expect(screen.getByText(/Leg drei Zahlen fest, die Deinen Vertrieb beschreiben/)).toBeInTheDocument();
+    expect(screen.getByText(/noch keiner — und das ist die richtige Antwort/)).toBeInTheDocument();
+    expect(screen.getByText(/sobald die Baseline steht/)).toBeInTheDocument();
+
+    // Sources: only Salesforce 2024 (Kontext) + Gartner (Mess-Blindflug / PoC)
+    expect(screen.getByText(/Gartner \(2024\)/)).toBeInTheDocument();
+    expect(screen.getAllByRole("link", { name: /Beleg ansehen/ })).toHaveLength(2);
+  });
+
+  it("renders only the sources that actually appear (Übergabe-Stau → Schulte + RSP, no Gartner)", () => {
+    renderFor({
+      K1: "vertriebsleiter",
+      K2: "50-250",
+      K3: "ja-budget",
+      S1: "1-3d",
+      S2: "alle",
+      S3: "kaum",
+      S4: "alles",
+      S5: "teilweise",
+      S6: "produktiv",
+      K4: "infrastruktur",
+      K5: "quartal",
+    });
+
+    expect(screen.getByRole("heading", { name: /Übergabe-Stau/ })).toBeInTheDocument();
+    expect(screen.getByText(/Schulte Elektrotechnik, 70 % schnellere Angebote/)).toBeInTheDocument();
+    expect(screen.getByText(/RSP Spezialsaugtechnik, 2 Stunden → 10 Minuten/)).toBeInTheDocument();
+    expect(screen.queryByText(/Gartner \(2024\)/)).not.toBeInTheDocument();
+    expect(screen.getByText(/Anbieter veröffentlichte Referenzen/)).toBeInTheDocument();
+  });
+
+  it("opt-in boundary: the toolkit content is not on the free screen", () => {
+    renderFor({ K1: "gf", K2: "50-250", K3: "ja-budget", S2: "alle", K5: "quartal" });
+
+    expect(screen.getByText("Quellen & Belege")).toBeInTheDocument();
+    expect(screen.queryByText(/Station 1/)).not.toBeInTheDocument(); // raster worksheet fields
+    expect(screen.queryByText(/Bremsen lösen/)).not.toBeInTheDocument(); // 90-day phases
+    expect(screen.queryByText(/Lüdenscheid/)).not.toBeInTheDocument(); // a verified case detail
+  });
+});
@@ -1,5 +1,12 @@
-import { REPORT_LABELS } from "@/lib/engpass-check/report-content";
-import type { ReportModel } from "@/lib/engpass-check/report";
+"use client";
+import { useMemo } from "react";
+import type { ScorecardResultViewProps } from "@/lib/scorecard/registry";
+import { DEFAULT_LOCALE } from "@/lib/scorecard/locale";
+import { ENGPASS_COPY } from "./i18n";
+import { buildReportModel } from "./report";
+import { computeResult } from "./scoring";
+import type { Answers } from "./types";
+import "./engpass.css";
 
 /** Split a `\n\n`-separated block into <p> elements. */
 function Paragraphs({ text, className }: { text: string; className?: string }) {
@@ -20,7 +27,12 @@ function Paragraphs({ text, className }: { text: string; className?: string }) {
  * Ergebnis werden nur die zutreffenden Bausteine ins Modell gewählt.
  * Punkte 9 (Opt-in) und 10 (Video) rendert der umschließende Result-Screen.
  */
-export function Report({ model }: { model: ReportModel }) {
+export function EngpassResultView({ answers, locale = DEFAULT_LOCALE }: ScorecardResultViewProps) {
+  const { REPORT_LABELS } = ENGPASS_COPY[locale].report;
+  const model = useMemo(() => {
+    const a = answers as Answers;
+    return buildReportModel(a, computeResult(a), locale);
+  }, [answers, locale]);
   // Punkt 1: Score-Block — der „{score} von 100 — Band."-Aufmacher steht schon
   // groß als Zahl + Chip, daher rendern wir nur den Prosa-Rumpf des Absatzes.
   const [, ...scoreBody] = model.scoreParagraph.split("\n\n");
@@ -117,7 +129,7 @@ export function Report({ model }: { model: ReportModel }) {
             <li key={source.id} className="ec-source">
               <span className="ec-source-text">{source.text}</span>{" "}
               <a className="ec-source-link" href={source.url} target="_blank" rel="noopener noreferrer">
-                Beleg ansehen ↗
+                {REPORT_LABELS.belegLink}
               </a>
             </li>
           ))}
@@ -0,0 +1,22 @@
+/**
+ * Engpass-Check — brand tokens. The Video-Brand-Kit §4 palette the original
+ * Engpass page hard-coded (--ec-*): near-black base, surface layers, orange
+ * primary + cyan secondary accent.
+ */
+import type { BrandTokens } from "@/lib/scorecard/branding";
+
+export const branding: BrandTokens = {
+  bg: "#0a0a0a",
+  surface: "#161616",
+  surface2: "#1e1e1e",
+  pill: "#2a2a2a",
+  border: "#3a3a3a",
+  ink: "#ffffff",
+  inkMuted: "#b4b4b4",
+  inkSubtle: "#8a8a8a",
+  accent: "#e89244",
+  accentInk: "#1a1206",
+  accent2: "#4dbed4",
+  brandName: "KI-Coaching mit Kante",
+  brandAuthor: "Daniel Kreuzhofer",
+};
@@ -0,0 +1,38 @@
+/**
+ * Engpass-Check — renderer content. The quiz shell uses intro/optin/video/
+ * resultHeading/outcomeLabel; the report is fully custom (EngpassResultView /
+ * EngpassReportDoc) and renders the verbatim building blocks of
+ * `report-content.ts` and `toolkit-content.ts`, so byOutcome stays empty.
+ * `contentFor` builds it from either locale's copy (`i18n.ts`).
+ */
+
+import type { ScorecardContent } from "@/lib/scorecard/content";
+import { ENGPASS_COPY, type EngpassCopy } from "./i18n";
+
+export function contentFor({ copy, report }: EngpassCopy): ScorecardContent {
+  const { BAND_COPY, DATENSCHUTZ_HINWEIS, INTRO, OPTIN, RESULT, TYP_COPY } = copy;
+  return {
+    intro: INTRO,
+    resultHeading: RESULT.heading,
+    outcomeLabel: Object.fromEntries(Object.entries(BAND_COPY).map(([band, c]) => [band, c.name])),
+    categoryLabel: Object.fromEntries(Object.entries(TYP_COPY).map(([typ, c]) => [typ, c.name])),
+    byOutcome: {},
+    sources: [],
+    optin: {
+      heading: OPTIN.heading,
+      body: report.OPTIN_TEXT,
+      button: OPTIN.submitLabel,
+      consent: OPTIN.consent,
+      datenschutzHref: OPTIN.datenschutzHref,
+      datenschutzHinweis: DATENSCHUTZ_HINWEIS,
+      successHeading: OPTIN.successHeading,
+      successBody: OPTIN.successBody,
+      errorBody: OPTIN.errorBody,
+      emailLabel: OPTIN.emailLabel,
+      emailPlaceholder: OPTIN.emailPlaceholder,
+    },
+    video: { intro: report.VIDEO_INTRO, title: report.VIDEO_TITLE, label: report.VIDEO_LABEL, url: report.VIDEO_URL },
+  };
+}
+
+export const content: ScorecardContent = contentFor(ENGPASS_COPY.de);
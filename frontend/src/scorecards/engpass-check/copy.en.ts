@@ -0,0 +1,96 @@
+/**
+ * Engpass-Check — English counterpart of `copy.ts` (same exports, same shape).
+ * "Engpass" is rendered as "bottleneck" throughout.
+ */
+
+import type * as de from "./copy";
+
+export const INTRO: typeof de.INTRO = {
+  eyebrow: "Bottleneck Check",
+  heading: "The Bottleneck Check",
+  lead:
+    "11 questions, 3 minutes. Afterwards you know where your sales process really gets stuck, " +
+    "which bottleneck type dominates in your company — and which of the three solution paths fits " +
+    "your situation. You see your result right away, no sign-up needed.",
+  startLabel: "Start the check",
+  meta: "11 questions · 3 minutes · instant result, no sign-up",
+};
+
+export const BAND_COPY: typeof de.BAND_COPY = {
+  feintuning: {
+    name: "Fine-tuning",
+    range: "0–30",
+    description: "The process works; optimisation at individual points.",
+  },
+  spuerbar: {
+    name: "Noticeable bottleneck",
+    range: "31–60",
+    description: "There's a clear lever; a diagnosis pays off right away.",
+  },
+  akut: {
+    name: "Acute bottleneck",
+    range: "61–100",
+    description:
+      "A lot of throughput is lying idle here — and every AI investment at the wrong step fizzles out.",
+  },
+};
+
+export const TYP_COPY: typeof de.TYP_COPY = {
+  "mess-blindflug": {
+    name: "Flying blind",
+    diagnose:
+      "You can't see your bottleneck — you're missing the numbers. Before you build or buy " +
+      "anything: set up a baseline. Otherwise you can never prove success.",
+  },
+  "wissens-monopol": {
+    name: "Knowledge monopoly",
+    diagnose:
+      "Your process depends on people, not systems. What only Mr Müller knows, no software can " +
+      "take over — describe it first, then automate.",
+  },
+  "uebergabe-stau": {
+    name: "Handover jam",
+    diagnose:
+      "Your bottleneck sits between departments. Every approval loop costs days — this is exactly " +
+      "where Schulte (70% faster) and RSP (2h → 10 min) started.",
+  },
+  "schnittstellen-luecke": {
+    name: "Interface gap",
+    diagnose:
+      "Your systems don't talk to each other — people are the interface. Copy-paste is the most " +
+      "expensive process step nobody has on their radar.",
+  },
+};
+
+export const RESULT: typeof de.RESULT = {
+  heading: "Your result",
+  scoreLabel: "Bottleneck score",
+  typLabel: "Your bottleneck type",
+};
+
+export const OPTIN: typeof de.OPTIN = {
+  heading: "Your result is in. Now get the tool to act on it.",
+  emailLabel: "Email address",
+  emailPlaceholder: "your.name@company.com",
+  submitLabel: "Request the toolkit",
+  consent:
+    "By clicking “Request the toolkit” I agree that my email address and my check answers are " +
+    "stored and processed so that I receive my implementation toolkit, and that Daniel " +
+    "Kreuzhofer regularly sends me tips and offers about AI by email. Processing runs through " +
+    "service providers in the EU (hosting, email delivery, newsletter) under data processing " +
+    "agreements; my data is not sold. I confirm via double opt-in and can unsubscribe at any time.",
+  datenschutzLabel: "More in the privacy policy",
+  datenschutzHref: "/datenschutz",
+  successHeading: "Almost done — check your inbox",
+  successBody:
+    "I've just sent you an email. One click on the confirmation link and your implementation " +
+    "toolkit is yours. (If nothing arrives, take a quick look in your spam folder.)",
+  errorBody:
+    "Something went wrong just now. Your result is still shown above — please try again in a moment.",
+};
+
+export const DATENSCHUTZ_HINWEIS =
+  "Your answers stay in your browser until you click “Request the toolkit”. Only then are your " +
+  "email and answers stored (hosting: Hostinger, Frankfurt) and the confirmation link sent by " +
+  "email (IONOS); after confirmation the newsletter runs via CleverReach. All processors are in " +
+  "the EU, with data processing agreements. No tracking, no cookies beyond the technically necessary.";
@@ -3,11 +3,13 @@
  *
  * Verbatim from `06-quiz-spec.md` and `01-signup-page.md`. Kept in one place so
  * the wording can be reviewed (Daniels Review-Punkte) without touching logic.
+ * The English counterpart is `copy.en.ts` (same exports, see `i18n.ts`).
  */
 
 import type { Band, Dimension } from "./types";
 
 export const INTRO = {
+  eyebrow: "Engpass-Check",
   heading: "Der Engpass-Check",
   lead:
     "11 Fragen, 3 Minuten. Danach weißt Du, wo Dein Vertriebsprozess wirklich hängt, " +
@@ -15,7 +17,7 @@ export const INTRO = {
     "Situation passt. Dein Ergebnis siehst Du sofort, ohne Anmeldung.",
   startLabel: "Check starten",
   meta: "11 Fragen · 3 Minuten · Ergebnis sofort, ohne Anmeldung",
-} as const;
+};
 
 export const BAND_COPY: Record<Band, { name: string; range: string; description: string }> = {
   feintuning: {
@@ -67,7 +69,7 @@ export const RESULT = {
   heading: "Dein Ergebnis",
   scoreLabel: "Engpass-Score",
   typLabel: "Dein Engpass-Typ",
-} as const;
+};
 
 export const OPTIN = {
   // Opt-in sells the Toolkit, not a PDF copy of the (already free) report (Spec §F).
@@ -92,7 +94,7 @@ export const OPTIN = {
   errorBody:
     "Da ist gerade etwas schiefgelaufen. Dein Ergebnis siehst Du oben weiterhin — bitte versuch " +
     "es in einem Moment noch einmal.",
-} as const;
+};
 
 export const DATENSCHUTZ_HINWEIS =
   "Deine Antworten bleiben bis zum Klick auf „Toolkit anfordern“ nur in Deinem Browser. Erst dann " +
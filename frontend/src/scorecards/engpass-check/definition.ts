@@ -0,0 +1,35 @@
+/**
+ * Engpass-Check — engine definition, derived from the domain questions in
+ * `questions.ts` (dimension → category, CleverReach attribute → attributeKey).
+ * The generic engine alone would score and band it identically; typ and weg need
+ * the S1 bonus and K4 signals it cannot express, so the registration resolves
+ * through `scoring.ts` instead (see `resolve.ts`).
+ */
+
+import type { ScorecardDefinition } from "@/lib/scorecard/types";
+import { QUESTIONS } from "./questions";
+
+export const definition: ScorecardDefinition = {
+  slug: "engpass-check",
+  version: 1,
+  // S1 caps at 2 (Kalibrierung 2026-06-13), so the max sum of S1–S6 is 17. Higher = worse.
+  scoring: { maxPoints: 17, direction: "higher-worse" },
+  outcome: {
+    type: "bands",
+    bands: [
+      { key: "feintuning", min: 0, max: 30 },
+      { key: "spuerbar", min: 31, max: 60 },
+      { key: "akut", min: 61, max: 100 },
+    ],
+  },
+  qualification: { requireQualifies: ["K1", "K2", "K3", "K5"] },
+  attributePrefix: "ec_",
+  questions: QUESTIONS.map((q) => ({
+    id: q.id,
+    kind: q.kind,
+    prompt: q.prompt,
+    ...(q.dimension ? { category: q.dimension } : {}),
+    ...(q.attribute ? { attributeKey: q.attribute } : {}),
+    options: q.options.map(({ id, label, points, qualifies }) => ({ id, label, points, qualifies })),
+  })),
+};
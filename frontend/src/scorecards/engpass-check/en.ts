@@ -0,0 +1,65 @@
+/**
+ * Engpass-Check — English translation (`translations.en`, served at /en/engpass-check).
+ * Same question and option ids as questions.ts; only the wording differs.
+ */
+
+import type { ScorecardTranslation } from "@/lib/scorecard/locale";
+import { contentFor } from "./content";
+import { ENGPASS_COPY } from "./i18n";
+
+export const en: ScorecardTranslation = {
+  meta: {
+    title: "The Bottleneck Check — where is your sales process really stuck?",
+    description:
+      "11 questions, 3 minutes: find out where your sales process really gets stuck, which " +
+      "bottleneck type dominates — and which solution path fits. Instant result, no sign-up.",
+  },
+  doiSubject: "One more click and your bottleneck report is yours",
+  deliverySubject: "Your bottleneck report is here — plus your implementation toolkit",
+  content: contentFor(ENGPASS_COPY.en),
+  questions: {
+    K1: { prompt: "What best describes your role?", options: {
+      vertriebsleiter: "Head of Sales", gf: "Managing director / owner",
+      bereichsleitung: "Head of department — marketing, service or operations", "it-leitung": "Head of IT",
+      team: "Team member without management responsibility", sonstiges: "Other",
+    } },
+    K2: { prompt: "How many employees does your company have?", options: {
+      u50: "fewer than 50", "50-250": "50–250", "250-1000": "250–1,000", "1000-2000": "1,000–2,000", ue2000: "more than 2,000",
+    } },
+    K3: { prompt: 'Is there an AI mandate from the top — "We have to do something with AI"?', options: {
+      "ja-budget": "Yes, with a budget", "ja-ohne-budget": "Yes, but without a budget",
+      "treibe-selbst": "No — I'm driving it myself", brach: "No, the topic is lying idle",
+    } },
+    S1: { prompt: "How long does a standard quote take in your company — from inquiry to dispatch?", options: {
+      "lt-1d": "Less than a day", "1-3d": "1–3 days", woche: "About a week",
+      "2w-plus": "Two weeks or longer", unbekannt: "Honestly, I don't know",
+    } },
+    S2: {
+      prompt:
+        "How often is a quote held up because another department has to check or approve it first — engineering, technical, price approval?",
+      options: { selten: "Rarely", gelegentlich: "Occasionally", meiste: "For most of them", alle: "For practically all of them" },
+    },
+    S3: { prompt: "How much between your systems is done by hand — copy-paste, Excel exports, retyping?", options: {
+      kaum: "Hardly anything", einzelne: "Individual steps", viele: "Many steps", "fast-alles": "Almost everything",
+    } },
+    S4: {
+      prompt:
+        "If your most experienced salesperson dropped out tomorrow: how much of their knowledge is written down anywhere?",
+      options: { alles: "Practically everything", meiste: "Most of it", wenig: "Little", nichts: "Nothing — the knowledge is in people's heads" },
+    },
+    S5: { prompt: "Do you measure lead time, win rate or revenue per funnel stage today?", options: {
+      "alle-drei": "All three, regularly", teilweise: "Partly", kaum: "Hardly", nein: "No — or I don't know",
+    } },
+    S6: { prompt: "Have you ever started an AI or automation project?", options: {
+      produktiv: "Yes — it runs in production, with a measurable effect", "noch-nicht": "No, not yet",
+      eingestellt: "Yes — it was abandoned", poc: "Yes — it got stuck in the proof of concept",
+    } },
+    K4: { prompt: "What does your IT do?", options: {
+      "baut-regelmaessig": "Regularly builds its own software", "baut-gelegentlich": "Occasionally builds something",
+      infrastruktur: "Pure infrastructure — servers, network, licences", "keine-it": "We don't have our own IT",
+    } },
+    K5: { prompt: "By when should your AI topic show visible results?", options: {
+      quartal: "This quarter", halbjahr: "This half-year", jahr: "This year", "kein-druck": "No specific time pressure",
+    } },
+  },
+};
@@ -0,0 +1,66 @@
+import fc from "fast-check";
+import { getScorecard } from "@/lib/scorecard/registry";
+import { buildResult, resolveResult } from "@/lib/scorecard/result";
+import { QUESTIONS } from "./questions";
+import { computeResult } from "./scoring";
+import type { Answers } from "./types";
+
+const reg = getScorecard("engpass-check")!;
+
+/** Arbitrary complete answer set: one option per question. */
+const arbAnswers: fc.Arbitrary<Answers> = fc.record(
+  Object.fromEntries(QUESTIONS.map((q) => [q.id, fc.constantFrom(...q.options.map((o) => o.id))])),
+) as fc.Arbitrary<Answers>;
+
+describe("Engpass-Check registration", () => {
+  it("is registered at /engpass-check with the custom resolve, ResultView and ReportDoc", () => {
+    expect(reg.definition.slug).toBe("engpass-check");
+    expect(reg.resolve).toBeDefined();
+    expect(reg.ResultView).toBeDefined();
+    expect(reg.ReportDoc).toBeDefined();
+  });
+
+  it("every band has a label", () => {
+    const bands = reg.definition.outcome.type === "bands" ? reg.definition.outcome.bands : [];
+    expect(bands.map((b) => b.key)).toEqual(["feintuning", "spuerbar", "akut"]);
+    for (const b of bands) expect(reg.content.outcomeLabel[b.key]).toBeDefined();
+  });
+
+  it("the definition mirrors the domain questions (ids, options, points, qualification)", () => {
+    expect(reg.definition.questions.map((q) => q.id)).toEqual(QUESTIONS.map((q) => q.id));
+    const s2 = reg.definition.questions.find((q) => q.id === "S2")!;
+    expect(s2.category).toBe("uebergabe-stau");
+    expect(s2.options.map((o) => o.points)).toEqual([0, 1, 2, 3]);
+    expect(reg.definition.questions.find((q) => q.id === "K1")!.attributeKey).toBe("ec_rolle");
+  });
+
+  it("resolve maps the domain result: outcome = band, nextLever = typ, plus weg", () => {
+    fc.assert(
+      fc.property(arbAnswers, (answers) => {
+        const domain = computeResult(answers);
+        const result = resolveResult(reg, answers);
+        expect(result).toEqual({
+          rawSum: domain.scoreSum,
+          score: domain.score,
+          outcome: domain.band,
+          categoryScores: domain.dimensions,
+          nextLever: domain.typ,
+          qualified: domain.qualified,
+          weg: domain.weg,
+        });
+      }),
+    );
+  });
+
+  it("the generic engine agrees with resolve on score, band and qualification", () => {
+    fc.assert(
+      fc.property(arbAnswers, (answers) => {
+        const generic = buildResult(reg.definition, answers);
+        const resolved = resolveResult(reg, answers);
+        expect(generic.score).toBe(resolved.score);
+        expect(generic.outcome).toBe(resolved.outcome);
+        expect(generic.qualified).toBe(resolved.qualified);
+      }),
+    );
+  });
+});
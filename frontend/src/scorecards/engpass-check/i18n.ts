@@ -0,0 +1,25 @@
+/**
+ * Engpass-Check — the copy modules per locale. Each `*.en.ts` file mirrors the
+ * exports of its German original, so views and the report model pick a whole
+ * set by the lead's locale instead of importing the German constants directly.
+ */
+
+import type { Locale } from "@/lib/scorecard/locale";
+import * as copyDe from "./copy";
+import * as copyEn from "./copy.en";
+import * as reportDe from "./report-content";
+import * as reportEn from "./report-content.en";
+import * as toolkitDe from "./toolkit-content";
+import * as toolkitEn from "./toolkit-content.en";
+
+export interface EngpassCopy {
+  copy: typeof copyDe;
+  report: typeof reportDe;
+  /** Toolkit texts only — `highlightedWeg` is locale-independent logic. */
+  toolkit: Omit<typeof toolkitDe, "highlightedWeg">;
+}
+
+export const ENGPASS_COPY: Record<Locale, EngpassCopy> = {
+  de: { copy: copyDe, report: reportDe, toolkit: toolkitDe },
+  en: { copy: copyEn, report: reportEn, toolkit: toolkitEn },
+};
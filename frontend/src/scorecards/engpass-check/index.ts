@@ -0,0 +1,29 @@
+import type { ScorecardRegistration } from "@/lib/scorecard/registry";
+import { definition } from "./definition";
+import { content } from "./content";
+import { en } from "./en";
+import { branding } from "./branding";
+import { resolveEngpass } from "./resolve";
+import { EngpassResultView } from "./EngpassResultView";
+import { EngpassReportDoc } from "./EngpassReportDoc";
+
+export const engpassCheck: ScorecardRegistration = {
+  definition,
+  content,
+  branding,
+  resolve: resolveEngpass,
+  ResultView: EngpassResultView,
+  ReportDoc: EngpassReportDoc,
+  meta: {
+    title: "Der Engpass-Check — wo hängt Dein Vertriebsprozess wirklich?",
+    description:
+      "11 Fragen, 3 Minuten: Finde heraus, wo Dein Vertriebsprozess wirklich hängt, " +
+      "welcher Engpass-Typ bei euch dominiert — und welcher Lösungsweg passt. Ergebnis sofort, ohne Anmeldung.",
+  },
+  doiSubject: "Ein Klick noch, dann hast Du Deinen Engpass-Report",
+  deliverySubject: "Dein Engpass-Report ist da — plus Dein Umsetzungs-Toolkit",
+  cleverreachSource: "engpass-check",
+  funnelExtras: { weg: "Weg-Tendenz" },
+  bookingUrl: "https://calendly.com/danielkreuzhofer/30min",
+  translations: { en },
+};
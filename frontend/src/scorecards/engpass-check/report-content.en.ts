@@ -0,0 +1,372 @@
+/**
+ * Engpass-Check — English counterpart of `report-content.ts` (same exports,
+ * same building blocks A–G). Translated from Daniel's German wording; figures
+ * and sources are unchanged, the linked evidence stays German where it is.
+ */
+
+import type * as de from "./report-content";
+
+// A) Score-band paragraphs — {score} is replaced at runtime.
+
+export const SCORE_BAND_PARAGRAPH: typeof de.SCORE_BAND_PARAGRAPH = {
+  feintuning:
+    `{score} out of 100 — fine-tuning.\n\n` +
+    `At its core, your sales process works. You don't have an acute bottleneck eating up your ` +
+    `throughput — rather individual points where there's still something to gain. The good news: ` +
+    `you belong to the minority that doesn't have to clean up first before thinking about AI. The ` +
+    `honest news: this is exactly where the temptation is greatest to look for AI as a solution ` +
+    `where there is no real problem. Save the budget for the one point that really sticks — and ` +
+    `check twice whether it's worth it.`,
+  spuerbar:
+    `{score} out of 100 — noticeable bottleneck.\n\n` +
+    `Things get stuck at one clearly identifiable point in your company. It's not constant fire ` +
+    `yet, but the lever is there — and it's big enough that a proper diagnosis pays off right ` +
+    `away. Important: your score tells you THAT something is stuck. Where exactly, your ` +
+    `bottleneck type below tells you. Together they're your map: name the bottleneck first, then ` +
+    `choose the tool — not the other way round.`,
+  akut:
+    `{score} out of 100 — acute bottleneck.\n\n` +
+    `A lot of throughput is lying idle here. Your sales backs up at one point that costs time, ` +
+    `quotes and, in the end, orders day after day. That's uncomfortable — but it's also the best ` +
+    `starting point for a visible success: whoever solves an acute bottleneck sees the effect in ` +
+    `the numbers right away. One warning: in exactly this situation the risk is greatest of ` +
+    `burning the money at the wrong step. An AI investment somewhere in the process won't move ` +
+    `your numbers — only the one at your bottleneck will. Which one that is comes next.`,
+};
+
+/** Context line (all bands, right below the score paragraph). */
+export const KONTEXT_ZEILE =
+  `For context, wherever your bottleneck sits: in Germany only 27 percent of sales time goes into ` +
+  `working directly with customers — almost unchanged since 2022 (Salesforce State of Sales, ` +
+  `2024). The process eats the other three quarters. Your bottleneck is where it eats the most.`;
+
+// B) Type building blocks (full diagnosis, steps, anti-pattern).
+
+export const TYP_DIAGNOSE: typeof de.TYP_DIAGNOSE = {
+  "mess-blindflug":
+    `You're steering your sales without reading the instruments. Lead time, win rate, revenue per ` +
+    `funnel stage — the numbers you could pin success on are barely collected today, if at all. ` +
+    `That's not a reproach. In most mid-sized companies it just grew that way: business was ` +
+    `running, so nobody measured.\n\n` +
+    `The problem isn't gut feeling as such — you have experience, and it carries far. The problem ` +
+    `is that without numbers you make every AI investment blind. You can't say beforehand where ` +
+    `things stick the most. And you can't prove afterwards that anything improved. That's exactly ` +
+    `what kills most pilots: Gartner expects at least 30 percent of all generative AI projects to ` +
+    `be abandoned after the proof of concept — the main reason isn't the technology, but that ` +
+    `nobody could demonstrate the value.\n\n` +
+    `For you this means: before you even think about building, buying or automating, you need a ` +
+    `baseline. A few weeks of numbers, properly collected. It sounds like a detour. It's the ` +
+    `shortcut — because anything you start without a baseline, you can never defend as a success.`,
+  "wissens-monopol":
+    `In your company, crucial process steps depend on individual people. What exactly has to ` +
+    `happen for an inquiry to become a good quote — your most experienced person knows. But it's ` +
+    `not written down anywhere. No manual, no rules, no documentation. It's in their head.\n\n` +
+    `That works as long as they're around. It becomes a risk the moment they're off sick, quit or ` +
+    `retire — then the knowledge leaves with them. And you're not alone: in a Statista survey of ` +
+    `German mid-sized companies (2018), 38 percent said knowledge would be lost immediately or ` +
+    `only found with great effort if the wrong person dropped out. Only 27 percent had documented ` +
+    `it so that a colleague could carry on right away. So in two out of three companies, exactly ` +
+    `what's slowing you down is stuck.\n\n` +
+    `It's the real brake on any automation: a machine can only take over what can be described. ` +
+    `What exists only in one head, no software can reproduce — however good the AI is.\n\n` +
+    `That's the uncomfortable truth behind "everything is too individual here": often it isn't too ` +
+    `individual at all. It's just not written down. If a person can create the quote following ` +
+    `certain rules, then those rules exist — they've just never moved from head to paper. And ` +
+    `that's exactly where your biggest opportunity lies: the step from head knowledge to a ` +
+    `described process is the one that takes you furthest. With or without AI.`,
+  "uebergabe-stau":
+    `Your sales process isn't stuck in sales — it's stuck between departments. A quote waits for ` +
+    `engineering, who have to check whether it's technically feasible. Or for price approval. Or ` +
+    `for a follow-up question that goes back and forth by email. Each of these handovers costs days ` +
+    `in which nothing happens — the quote just sits there.\n\n` +
+    `The tricky thing about a handover jam: your sales team can be as fast as it likes, it doesn't ` +
+    `help. If the quote sits with engineering for three days, three days are gone — no matter how ` +
+    `quick the salesperson was. That's exactly what the theory of constraints says: the speed of ` +
+    `the whole process is decided at the bottleneck alone. Everything before it just piles up in ` +
+    `front of it, everything after it waits.\n\n` +
+    `And that's the good news: the handover jam is the bottleneck type with the strongest ` +
+    `documented successes in German mid-sized companies. Schulte Elektrotechnik had exactly your ` +
+    `problem — every quote configuration needed a query to engineering. With a rule-based ` +
+    `configurator that does the technical check automatically, their quotes became 70 percent ` +
+    `faster, and engineering was out of the loop. RSP Spezialsaugtechnik brought its standard ` +
+    `quote down from two hours to ten minutes. Both without AI — a pure rule pipeline at exactly ` +
+    `the handover that was stuck.`,
+  "schnittstellen-luecke":
+    `Your systems don't talk to each other — and people fill the gap. Data is copied by hand from ` +
+    `one system into another, funnelled through Excel, retyped. Each of these steps costs time, and ` +
+    `each one is a source of errors: transposed digits, an outdated version, a forgotten field.\n\n` +
+    `This is the bottleneck type nobody has on their radar, because it feels so normal. "We've ` +
+    `always done it this way." But copy-paste between systems is one of the most expensive process ` +
+    `steps there is — not because a single occurrence costs much, but because it repeats ` +
+    `thousands of times and nobody ever looks at it. You're not alone: according to Salesforce, ` +
+    `sales teams juggle eight separate tools on average, and 42 percent of sellers feel ` +
+    `overwhelmed by the flood of tools. The data problem at the very top of the list — ahead of ` +
+    `duplicate or incomplete data — is manual errors. And 46 percent say poor data quality costs ` +
+    `them revenue directly (Salesforce State of Sales, 2025). That's the bill for the manual ` +
+    `interface: wrong data, wrong decisions, lost deals.\n\n` +
+    `Often there's a licensing decision behind it: one system has no open interface because the ` +
+    `vendor didn't plan for one — or charges extra for it. Then people work through the user ` +
+    `interface because it can't be done by machine. That's solvable, but it's a question of its ` +
+    `own: sometimes the cheapest automation is simply unlocking the missing interface or putting a ` +
+    `connecting tool in front of it.`,
+};
+
+export const TYP_SCHRITTE: typeof de.TYP_SCHRITTE = {
+  "mess-blindflug": [
+    `Define three numbers that describe your sales. For most companies this is enough: lead time ` +
+      `of a quote (inquiry to dispatch), win rate (quotes to orders), and revenue per funnel ` +
+      `stage. No more — three are enough to start.`,
+    `Collect them for four weeks, even if it's by hand at first. One employee, one Excel sheet, ` +
+      `five minutes every Friday. You don't need software for this — you need the habit.`,
+    `Set yourself a goal BEFOREHAND: "If we use AI at point X, we want to move number Y by Z ` +
+      `percent." Only once you can fill in that sentence is the next step worth it.`,
+  ],
+  "wissens-monopol": [
+    `Sit down for an hour with the person most things depend on. Have them think through ONE ` +
+      `typical quote case out loud — step by step, every decision, every rule. Take notes. That's ` +
+      `your first process draft.`,
+    `Do the paragraph test: can you describe the core of this process in one paragraph? If yes, ` +
+      `you've already done half the automation. If not, you know exactly where head knowledge is ` +
+      `still missing.`,
+    `Before you think about tools: have the two or three most important processes described so ` +
+      `that a new employee could read and apply them. What a newcomer can do from the docs, a ` +
+      `machine can do later too.`,
+  ],
+  "uebergabe-stau": [
+    `Draw your quoting process once — from inquiry to dispatch, every step, every department. ` +
+      `Mark the points where a quote passes from one pair of hands to the next. That's where your ` +
+      `jam is.`,
+    `Measure at the worst handover: how many days does a quote sit there on average? That one ` +
+      `number is your before value — and your strongest argument for a project.`,
+    `Ask at the bottleneck: what does the department actually check here? If it's a rule ("does ` +
+      `this fit together technically?", "is the price approved?"), it can be described — and ` +
+      `therefore automated. That's exactly what Schulte and RSP did.`,
+  ],
+  "schnittstellen-luecke": [
+    `Make a list: where do people in your company copy data from one system into another? Write ` +
+      `down every point, including the small ones. You'll be surprised how many there are.`,
+    `Estimate roughly for each point: how often a day, how many minutes? Multiply that up to a ` +
+      `week. That sum is the time you currently burn as a human interface.`,
+    `Check the most expensive point: does the system have an interface you just don't use? The ` +
+      `solution is often closer than you think — an unlocked export, a connector tool. That's ` +
+      `classic automation, not an AI project.`,
+  ],
+};
+
+export const TYP_ANTIPATTERN: typeof de.TYP_ANTIPATTERN = {
+  "mess-blindflug":
+    `Avoid one thing now: letting a tool vendor sell you a dashboard before you know which three ` +
+    `numbers you actually need. A dashboard that measures the wrong things is expensive flying ` +
+    `blind with better graphics.`,
+  "wissens-monopol":
+    `Avoid the reflex of immediately throwing an AI agent at the problem "that will teach itself". ` +
+    `It won't. If the process isn't described, you're building a black box on top of a black box — ` +
+    `and in the end you understand even less than before. Describe first, then automate.`,
+  "uebergabe-stau":
+    `Avoid trying to make sales itself faster while the handover is stuck. More speed before the ` +
+    `bottleneck only makes the jam longer. Fix the handover first — then speed before it pays off.`,
+  "schnittstellen-luecke":
+    `Avoid trying to make the copy-paste work "intelligent" with AI while a simple interface would ` +
+    `solve the problem at the root. An AI that retypes data between systems is the most expensive ` +
+    `solution to a problem that is often two IF statements.`,
+};
+
+// B2) "No dominant bottleneck" building blocks.
+
+export const NO_TYP_SCORE_SPUERBAR =
+  `{score} out of 100.\n\n` +
+  `Your score is noticeably raised — but it doesn't come from a single bottleneck eating up your ` +
+  `throughput. In your company it adds up from several small points, without one clearly ` +
+  `dominating. What that means for your next step is right below.`;
+
+export const NO_TYP_DIAGNOSE =
+  `None of the four bottlenecks — handover, knowledge, interfaces, measurement — clearly stands out ` +
+  `in your company. Your result comes from scattered individual points, not from a single point ` +
+  `that slows down the whole process.\n\n` +
+  `That's good news to begin with: there's no acute fire where throughput slips away day after ` +
+  `day. At the same time it's the situation in which the temptation is greatest to buy AI as a ` +
+  `solution where there's no clear problem yet. Don't put your budget into a tool meant to fix a ` +
+  `bottleneck you don't have yet.\n\n` +
+  `So your next step isn't "build, buy or automate" but "keep watching": let a few simple numbers ` +
+  `run alongside so you see it immediately if a bottleneck does emerge — and then target exactly ` +
+  `that point instead of over-optimising as a precaution.`;
+
+export const NO_TYP_SCHRITTE: typeof de.NO_TYP_SCHRITTE = [
+  `Define three simple numbers to watch your sales by: lead time of a quote (inquiry to ` +
+    `dispatch), win rate (quotes to orders) and revenue per funnel stage. You don't need more.`,
+  `Let them run alongside for a few weeks — by hand is enough. They're your early warning system: ` +
+    `as soon as a number tips, you see where a bottleneck is forming, before it hurts.`,
+  `Resist the reflex to get "something with AI already" now. Wait until a number shows you a ` +
+    `clear bottleneck — then the next step pays off, and you can prove its success too.`,
+];
+
+export const NO_TYP_GF_SATZ =
+  `"We currently have no single bottleneck slowing us down — so we're not investing in an AI tool ` +
+  `as a precaution. We watch our numbers and act in a targeted way as soon as a bottleneck shows."`;
+
+export const NO_TYP_ANTIPATTERN =
+  `Avoid buying AI or a new tool just because everyone is talking about it. Without a real ` +
+  `bottleneck that's burned budget for a problem you don't have (yet) — and it blocks your view ` +
+  `of the point that will really get stuck one day.`;
+
+export const NO_TYP_WEG =
+  `No clear path yet — and that's the honest answer here. As long as no single bottleneck ` +
+  `dominates, there's nothing to tailor building, buying or automating to. Committing now — "we'll ` +
+  `do something with AI" — would be a solution looking for a problem. Keep watching your numbers; ` +
+  `as soon as one of them shows a real bottleneck, the right path almost suggests itself — and ` +
+  `then you can justify it too.`;
+
+// C) Personalisation rules ("What this means for you").
+
+export const PERSONALISIERUNG: typeof de.PERSONALISIERUNG = {
+  poc:
+    `And you've already felt it: your last AI project got stuck in the proof of concept. That's no ` +
+    `coincidence and no failure — it's exactly the pattern behind the Gartner figure. The pilot ` +
+    `worked technically, but it didn't sit at your bottleneck, or you couldn't measure the value. ` +
+    `This time you reverse the order.`,
+  eingestellt:
+    `And you've already experienced it: your last AI or automation project was abandoned. In most ` +
+    `cases that's not down to the technology, but to the value never being properly demonstrated ` +
+    `— and what nobody can prove gets cut at the next budget review. You can avoid that this time: ` +
+    `first the bottleneck and the measurement, then the project.`,
+  zweiWochen:
+    `Two weeks or more from inquiry to quote — in a competitive market, that's where orders slip ` +
+    `away before the customer has even talked to you. This is where speed pays off most directly.`,
+  itInfrastruktur:
+    `One thing up front, because it affects your options: your IT looks after infrastructure, not ` +
+    `software development. That's perfectly fine — but it means "we'll build it in-house" isn't a ` +
+    `realistic option for you. Your path leads rather through buying or through a partner who ` +
+    `builds for you. Good to know before someone suggests "we'll do it ourselves".`,
+  groesseRand:
+    `A note for context: this check is tailored to mid-sized companies with 50 to 2,000 employees. ` +
+    `Your company is outside that range — the concrete figures may not match one to one, but the ` +
+    `principle holds: find the bottleneck first, then choose the tool.`,
+};
+
+// D) Path tendency full texts.
+
+export const WEG_VOLLTEXT: typeof de.WEG_VOLLTEXT = {
+  "stufe-0":
+    `Your likely path: none yet — and that's the right answer. Before you build, buy or automate, ` +
+    `you're missing the measurement. Without a before value you can't prove success, and a project ` +
+    `whose success you can't prove gets cut at the next budget review. Baseline first, then the ` +
+    `path. That's not a delay, it's the insurance for everything that follows.`,
+  beschreiben:
+    `Your path tendency: describe first — then automate. In your company too much process ` +
+    `knowledge sits in heads instead of on paper, and that's the real brake: a machine can only ` +
+    `take over what can be described. Before you think about a tool or a rule pipeline, get the ` +
+    `two or three most important workflows on paper so that a new employee could read and apply ` +
+    `them.\n\n` +
+    `The good news: that's not a detour but the step with the biggest lever — and it usually ` +
+    `turns out that "everything is too individual here" isn't true at all; it's just not written ` +
+    `down. Once the process is described, path A — automating, often without any AI — is within ` +
+    `reach for you. But the order decides: describe first, then automate.`,
+  "weg-a":
+    `Your path tendency: automate — and most likely without any AI. That surprises many people. ` +
+    `But if your bottleneck is a rule-based handover or a missing interface, the solution is a ` +
+    `rule pipeline, not a language model. Schulte (70 percent faster quotes) and RSP (from two ` +
+    `hours to ten minutes) did exactly that — classic automation at the right point. No LLM, no ` +
+    `hallucinations, no data protection debate. Check this path first, before you think about ` +
+    `anything more complicated.`,
+  "weg-b":
+    `Your path tendency: buy. Your bottleneck sounds like a problem you're not the only ones to ` +
+    `have — clean contact data, document dispatch, standard reports. Thousands of companies have ` +
+    `problems like these, and what thousands of companies have, someone solved long ago, probably ` +
+    `better than you would build it yourself. Look around the market before you build anything. ` +
+    `The price: less flexibility. A bought solution is what it is — you adapt your processes, not ` +
+    `the other way round.`,
+  "weg-c":
+    `Your path tendency: build — but only if three things come together. First: the process is ` +
+    `your competitive advantage, something you can't buy like this and don't want to hand over. ` +
+    `Second: you have the know-how — your own people or a partner you trust. Third: the goal is ` +
+    `clear. If one of the three conditions is missing, building is the riskiest path. If all three ` +
+    `hold, it's the one with the highest lever — a solution built for exactly your processes that ` +
+    `no competitor can buy.`,
+};
+
+// E) The sentence for your leadership — type-dependent.
+
+export const GF_SATZ: typeof de.GF_SATZ = {
+  "mess-blindflug":
+    `"We'll start as soon as the baseline is in place — otherwise we can never prove success." ` +
+    `That's not a stalling tactic. It's the condition for being able to show in the end that it ` +
+    `was worth it.`,
+  "wissens-monopol":
+    `"Before we buy a tool, we write the process down. What we can't describe in one paragraph, no ` +
+    `software can take over either."`,
+  "uebergabe-stau":
+    `"Our bottleneck isn't in sales but at the handover to [engineering/approval]. That's where we ` +
+    `start — and we measure lead time before and after so the success is documented."`,
+  "schnittstellen-luecke":
+    `"We lose time because our systems don't talk to each other. Before we talk about AI, we check ` +
+    `the cheapest solution: closing the missing interface."`,
+};
+
+// E2) Sources — same ids and URLs as the German report.
+
+export const SOURCES: typeof de.SOURCES = {
+  salesforce2024: {
+    id: "salesforce2024",
+    text: `Sales time (27%): Salesforce, "State of Sales Report" (6th edition, 2024)`,
+    url: "https://www.salesforce.com/de/company/news-press/press-releases/2024/07/310724/",
+  },
+  kyocera2018: {
+    id: "kyocera2018",
+    text: `Knowledge loss figures (38% / 27%): Statista for Kyocera, "Wissensmanagement in deutschen Unternehmen" (2018, German)`,
+    url: "https://kyocera.blog/wissensverlust-wenn-unternehmenwissen-mit-dem-mitarbeiter-geht/",
+  },
+  salesforce2025: {
+    id: "salesforce2025",
+    text: `Tool overload & data quality (8 tools, 42%, 46%): Salesforce, "State of Sales" (7th edition, 2025)`,
+    url: "https://www.salesforce.com/sales/state-of-sales/",
+  },
+  encowaySchulte: {
+    id: "encowaySchulte",
+    text: `Schulte Elektrotechnik, 70% faster quotes: encoway reference (German)`,
+    url: "https://www.encoway.de/referenzen/schulte-evoline/",
+  },
+  camosRsp: {
+    id: "camosRsp",
+    text: `RSP Spezialsaugtechnik, 2 hours → 10 minutes: immittelstand.de / camos (2026, German)`,
+    url: "https://www.immittelstand.de/2026/06/09/angebote-in-minuten-statt-stunden-rsp-digitalisiert-den-vertrieb-komplexer-saugbagger-mit-camos-cpq/",
+  },
+  gartner2024: {
+    id: "gartner2024",
+    text: `Generative AI projects abandoned after proof of concept (forecast, 30%): Gartner (2024)`,
+    url: "https://www.gartner.com/en/newsroom/press-releases/2024-07-29-gartner-predicts-30-percent-of-generative-ai-projects-will-be-abandoned-after-proof-of-concept-by-end-of-2025",
+  },
+};
+
+// F) Opt-in block · G) Video reference
+
+export const OPTIN_TEXT =
+  `You now know your bottleneck and your path. The implementation toolkit is what you start with ` +
+  `tomorrow: the fill-in bottleneck grid to walk through your process in 20 minutes and set your ` +
+  `three baseline numbers. The decision tree for your path. Six verified cases from mid-sized ` +
+  `companies — to show when your leadership asks "who has done this before?". And the 90-day ` +
+  `framework. Enter your email and I'll send you the toolkit.`;
+
+export const VIDEO_INTRO =
+  `The whole mental model — why software is no longer your bottleneck in 2026 and how to answer ` +
+  `the build-or-buy question in the right order — is in the video (German):`;
+export const VIDEO_TITLE = "Software is no longer your bottleneck";
+export const VIDEO_LABEL = "Video #05";
+export const VIDEO_URL = "https://youtu.be/C9jW0jqhRtY";
+
+// Section labels
+
+export const REPORT_LABELS: typeof de.REPORT_LABELS = {
+  typPrefix: "Your bottleneck type:",
+  noTyp: "No dominant bottleneck type",
+  einordnung: "For context",
+  bedeutung: "What this means for you",
+  schritte: "Your three next steps",
+  weg: "Your likely path",
+  gf: "The sentence for your leadership",
+  antiPattern: "What to avoid now",
+  quellen: "Sources & evidence",
+  quellenHinweis:
+    "Company examples (e.g. Schulte, RSP) are references published by the respective vendor — " +
+    "not independently verified; the industry figures come from studies.",
+  belegLink: "View evidence ↗",
+};
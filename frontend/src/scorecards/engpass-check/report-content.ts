@@ -9,6 +9,7 @@
  *
  * Zwei Stellen sind im Spec NUR als Tonangabe (kein Volltext) hinterlegt und
  * hier konservativ ausformuliert — markiert mit ADAPTIERT. Beide ohne Zahl.
+ * Englische Fassung: `report-content.en.ts` (gleiche Exporte, siehe `i18n.ts`).
  */
 
 import type { Band, Dimension } from "./types";
@@ -286,7 +287,7 @@ export const PERSONALISIERUNG = {
     `Mitarbeitenden zugeschnitten. Euer Unternehmen liegt außerhalb dieser Spanne — die konkreten ` +
     `Zahlen treffen vielleicht nicht eins zu eins, aber das Prinzip trägt: erst die Engstelle ` +
     `finden, dann das Werkzeug wählen.`,
-} as const;
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
 // D) Weg-Tendenz-Volltexte (Punkt 5)
@@ -402,7 +403,7 @@ export const SOURCES = {
     text: `Generative-KI-Projekte nach Proof of Concept eingestellt (Prognose, 30 %): Gartner (2024)`,
     url: "https://www.gartner.com/en/newsroom/press-releases/2024-07-29-gartner-predicts-30-percent-of-generative-ai-projects-will-be-abandoned-after-proof-of-concept-by-end-of-2025",
   },
-} as const satisfies Record<string, ReportSource>;
+} satisfies Record<string, ReportSource>;
 
 export type SourceId = keyof typeof SOURCES;
 
@@ -421,7 +422,7 @@ export const OPTIN_TEXT =
 export const VIDEO_INTRO =
   `Das ganze Denkmodell — warum Software 2026 nicht mehr Dein Engpass ist und wie Du die ` +
   `Bauen-oder-Kaufen-Frage in der richtigen Reihenfolge beantwortest — steckt im Video:`;
-export const VIDEO_TITLE = "Software ist nicht mehr Dein Engpass";
+export const VIDEO_TITLE: string = "Software ist nicht mehr Dein Engpass";
 export const VIDEO_LABEL = "Video #05";
 /** Video #05 „Software ist nicht mehr Dein Engpass" (YouTube). Leer ⇒ nicht-klickbar. */
 export const VIDEO_URL = "https://youtu.be/C9jW0jqhRtY";
@@ -446,4 +447,5 @@ export const REPORT_LABELS = {
   quellenHinweis:
     "Firmen-Beispiele (z. B. Schulte, RSP) sind vom jeweiligen Anbieter veröffentlichte Referenzen — " +
     "keine unabhängige Prüfung; die Branchenzahlen stammen aus Studien.",
-} as const;
+  belegLink: "Beleg ansehen ↗",
+};
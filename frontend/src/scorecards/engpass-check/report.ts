@@ -5,29 +5,12 @@
  * für ein konkretes Ergebnis NUR die zutreffenden Typ-/Weg-/Personalisierungs-
  * und Quellen-Bausteine. Keine Zahl ohne hinterlegte Quelle: der Quellen-Block
  * rendert genau die Belege, deren Inhalt im Ergebnis tatsächlich vorkommt.
+ * Die Bausteine kommen aus dem Satz der jeweiligen Sprache (`i18n.ts`).
  */
 
-import { BAND_COPY, TYP_COPY } from "./copy";
-import {
-  GF_SATZ,
-  KONTEXT_ZEILE,
-  NO_TYP_ANTIPATTERN,
-  NO_TYP_DIAGNOSE,
-  NO_TYP_GF_SATZ,
-  NO_TYP_SCHRITTE,
-  NO_TYP_SCORE_SPUERBAR,
-  NO_TYP_WEG,
-  PERSONALISIERUNG,
-  SCORE_BAND_PARAGRAPH,
-  SOURCES,
-  TYP_ANTIPATTERN,
-  TYP_DIAGNOSE,
-  TYP_SCHRITTE,
-  WEG_VOLLTEXT,
-  type ReportSource,
-  type SourceId,
-  type WegVariant,
-} from "./report-content";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/scorecard/locale";
+import { ENGPASS_COPY, type EngpassCopy } from "./i18n";
+import type { ReportSource, SourceId, WegVariant } from "./report-content";
 import type { Answers, Band, Dimension, EngpassResult, Weg } from "./types";
 
 /** Spec „1–2-Absatz-Block" → höchstens zwei Personalisierungs-Absätze. */
@@ -41,6 +24,8 @@ const MAX_PERSONALISIERUNG = 2;
  */
 const NO_DOMINANT_TYP_MAX = 1;
 
+type Personalisierung = EngpassCopy["report"]["PERSONALISIERUNG"];
+
 /** Weg-Outcome → Volltext-Variante. „beschreiben" hat einen eigenen Text (Wissens-
  *  Monopol-Vorstufe zu Weg A) — NICHT mehr der Weg-A-/Schulte-Text. */
 function wegToVariant(weg: Weg): WegVariant {
@@ -91,15 +76,15 @@ export interface ReportModel {
  * (PoC/eingestellt + Zwei-Wochen), gekappt bei 2. Die relativierenden Disclaimer
  * (Größe/IT) sind bewusst NICHT hier, sondern in `buildEinordnung` (#4).
  */
-function buildBedeutung(answers: Answers, typ: Dimension): string[] {
+function buildBedeutung(answers: Answers, typ: Dimension, text: Personalisierung): string[] {
   const out: string[] = [];
 
   // S6 (PoC / eingestellt) sind sich gegenseitig ausschließend.
-  if (answers.S6 === "poc") out.push(PERSONALISIERUNG.poc);
-  else if (answers.S6 === "eingestellt") out.push(PERSONALISIERUNG.eingestellt);
+  if (answers.S6 === "poc") out.push(text.poc);
+  else if (answers.S6 === "eingestellt") out.push(text.eingestellt);
 
   if (answers.S1 === "2w-plus" && (typ === "uebergabe-stau" || typ === "schnittstellen-luecke")) {
-    out.push(PERSONALISIERUNG.zweiWochen);
+    out.push(text.zweiWochen);
   }
 
   return out.slice(0, MAX_PERSONALISIERUNG);
@@ -111,11 +96,11 @@ function buildBedeutung(answers: Answers, typ: Dimension): string[] {
  * gezeigt, wenn er zutrifft (kein Cap), damit diese Hinweise nicht durch den
  * 2er-Cap der Personalisierung weggeschnitten werden (#4). Beide Texte markerfrei.
  */
-function buildEinordnung(answers: Answers): string[] {
+function buildEinordnung(answers: Answers, text: Personalisierung): string[] {
   const out: string[] = [];
-  if (answers.K2 === "ue2000" || answers.K2 === "u50") out.push(PERSONALISIERUNG.groesseRand);
+  if (answers.K2 === "ue2000" || answers.K2 === "u50") out.push(text.groesseRand);
   if (answers.K4 === "infrastruktur" || answers.K4 === "keine-it") {
-    out.push(PERSONALISIERUNG.itInfrastruktur);
+    out.push(text.itInfrastruktur);
   }
   return out;
 }
@@ -131,6 +116,7 @@ function selectSources(
   typ: Dimension,
   variant: WegVariant,
   noDominantTyp: boolean,
+  sources: Record<SourceId, ReportSource>,
 ): ReportSource[] {
   const needed = new Set<SourceId>();
   needed.add("salesforce2024"); // Kontext-Zeile zeigt die 27 % in jedem Band
@@ -161,10 +147,16 @@ function selectSources(
     "encowaySchulte",
     "camosRsp",
   ];
-  return order.filter((id) => needed.has(id)).map((id) => SOURCES[id]);
+  return order.filter((id) => needed.has(id)).map((id) => sources[id]);
 }
 
-export function buildReportModel(answers: Answers, result: EngpassResult): ReportModel {
+/** Das Modell in der Sprache des Leads (`locale`); Auswahl-Logik ist sprachunabhängig. */
+export function buildReportModel(
+  answers: Answers,
+  result: EngpassResult,
+  locale: Locale = DEFAULT_LOCALE,
+): ReportModel {
+  const { copy, report } = ENGPASS_COPY[locale];
   const variant = wegToVariant(result.weg);
   const noDominantTyp = Math.max(...Object.values(result.dimensions)) <= NO_DOMINANT_TYP_MAX;
 
@@ -173,28 +165,28 @@ export function buildReportModel(answers: Answers, result: EngpassResult): Repor
   // („keine akute Engstelle") passt schon und bleibt.
   const scoreSource =
     noDominantTyp && result.band === "spuerbar"
-      ? NO_TYP_SCORE_SPUERBAR
-      : SCORE_BAND_PARAGRAPH[result.band];
+      ? report.NO_TYP_SCORE_SPUERBAR
+      : report.SCORE_BAND_PARAGRAPH[result.band];
 
-  const sources = selectSources(answers, result.typ, variant, noDominantTyp);
+  const sources = selectSources(answers, result.typ, variant, noDominantTyp, report.SOURCES);
 
   return {
     score: result.score,
     band: result.band,
-    bandName: BAND_COPY[result.band].name,
+    bandName: copy.BAND_COPY[result.band].name,
     typ: result.typ,
-    typName: TYP_COPY[result.typ].name,
+    typName: copy.TYP_COPY[result.typ].name,
     noDominantTyp,
     weg: result.weg,
     scoreParagraph: scoreSource.replace(/\{score\}/g, String(result.score)),
-    kontextZeile: KONTEXT_ZEILE,
-    typDiagnose: noDominantTyp ? NO_TYP_DIAGNOSE : TYP_DIAGNOSE[result.typ],
-    einordnung: buildEinordnung(answers),
-    bedeutung: buildBedeutung(answers, result.typ),
-    schritte: noDominantTyp ? NO_TYP_SCHRITTE : TYP_SCHRITTE[result.typ],
-    wegVolltext: noDominantTyp ? NO_TYP_WEG : WEG_VOLLTEXT[variant],
-    gfSatz: noDominantTyp ? NO_TYP_GF_SATZ : GF_SATZ[result.typ],
-    antiPattern: noDominantTyp ? NO_TYP_ANTIPATTERN : TYP_ANTIPATTERN[result.typ],
+    kontextZeile: report.KONTEXT_ZEILE,
+    typDiagnose: noDominantTyp ? report.NO_TYP_DIAGNOSE : report.TYP_DIAGNOSE[result.typ],
+    einordnung: buildEinordnung(answers, report.PERSONALISIERUNG),
+    bedeutung: buildBedeutung(answers, result.typ, report.PERSONALISIERUNG),
+    schritte: noDominantTyp ? report.NO_TYP_SCHRITTE : report.TYP_SCHRITTE[result.typ],
+    wegVolltext: noDominantTyp ? report.NO_TYP_WEG : report.WEG_VOLLTEXT[variant],
+    gfSatz: noDominantTyp ? report.NO_TYP_GF_SATZ : report.GF_SATZ[result.typ],
+    antiPattern: noDominantTyp ? report.NO_TYP_ANTIPATTERN : report.TYP_ANTIPATTERN[result.typ],
     sources,
     hasVendorCaseSource: sources.some(
       (s) => s.id === "encowaySchulte" || s.id === "camosRsp",
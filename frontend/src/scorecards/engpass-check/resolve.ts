@@ -0,0 +1,21 @@
+/**
+ * Engpass-Check — `resolve` hook: runs the domain scoring (`scoring.ts`) and
+ * maps its EngpassResult onto the generic ScorecardResult shape.
+ */
+
+import type { Answers as ScorecardAnswers } from "@/lib/scorecard/types";
+import { computeResult } from "./scoring";
+import type { Answers, EngpassScorecardResult } from "./types";
+
+export function resolveEngpass(answers: ScorecardAnswers): EngpassScorecardResult {
+  const r = computeResult(answers as Answers);
+  return {
+    rawSum: r.scoreSum,
+    score: r.score,
+    outcome: r.band,
+    categoryScores: r.dimensions,
+    nextLever: r.typ,
+    qualified: r.qualified,
+    weg: r.weg,
+  };
+}
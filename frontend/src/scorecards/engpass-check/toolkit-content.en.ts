@@ -0,0 +1,262 @@
+/**
+ * Engpass-Check — English counterpart of `toolkit-content.ts`. Node keys and
+ * `pfad` ids stay as in the German file (they drive the highlighting); only the
+ * wording differs. Case quotes are translated, their sources stay German.
+ */
+
+import type * as de from "./toolkit-content";
+
+export const ENGPASS_RASTER: typeof de.ENGPASS_RASTER = {
+  intro:
+    "With this grid you walk through your process step by step, find the bottleneck and set the " +
+    "three numbers you'll measure success by later. Print it or fill it in digitally — 20 " +
+    "minutes, done properly once.",
+  steps: [
+    {
+      title: "1. Your quoting process — step by step",
+      intro:
+        "Write down the stations a quote passes through from inquiry to dispatch. After each " +
+        "station, mark whether someone waits, checks or transfers data by hand there.",
+      fields: [
+        "Station 1 (e.g. record the inquiry): __________  · waits/checks/manual work? ____",
+        "Station 2: __________  · waits/checks/manual work? ____",
+        "Station 3: __________  · waits/checks/manual work? ____",
+        "Station 4: __________  · waits/checks/manual work? ____",
+        "Station 5 (e.g. send the quote): __________  · waits/checks/manual work? ____",
+      ],
+    },
+    {
+      title: "2. Your bottleneck",
+      intro:
+        "At which station do things back up the most? And what kind of jam is it — a handover " +
+        "between departments, knowledge in one head, a missing interface, or is the measurement " +
+        "itself missing?",
+      fields: [
+        "The bottleneck sits at: ______________________________________",
+        "Type of bottleneck (handover / knowledge / interface / measurement): ____________",
+      ],
+    },
+    {
+      title: "3. Your three baseline numbers",
+      intro:
+        "You collect these three numbers for four weeks starting this week — by hand is enough. " +
+        "They're your before value and your proof.",
+      fields: [
+        "Lead time of a quote (inquiry → dispatch): __________",
+        "Win rate (quotes to orders): __________",
+        "Revenue per funnel stage: __________",
+      ],
+    },
+    {
+      title: "4. Your goal sentence",
+      intro: "You need to be able to fill in this sentence before the next step is worth it:",
+      fields: [
+        "“If we work on point ______________, we want to move ____________ by ______ % — " +
+          "measurable by ____________.”",
+      ],
+    },
+  ],
+};
+
+export const WEGE_BAUM: typeof de.WEGE_BAUM = {
+  intro:
+    "Problem and measurability first, then the solution path — and there are three paths, not " +
+    "two. Go through the tree from top to bottom: the first condition that applies to you is " +
+    "your path.",
+  nodes: [
+    {
+      key: "stufe-0",
+      pfad: "Stufe 0",
+      title: "Measure first",
+      wenn: "You can't measure success today.",
+      text:
+        "Before you build, buy or automate, you need a baseline. Without a before value you can't " +
+        "prove success — and a project whose success you can't prove gets cut at the next budget " +
+        "review. Collect four weeks of numbers, then move on. Waiting is a decision here, not a " +
+        "postponement.",
+    },
+    {
+      key: "weg-a",
+      pfad: "Weg A",
+      title: "Automate — without AI",
+      wenn: "Your bottleneck is a rule-based handover or a missing interface.",
+      text:
+        "A rule pipeline, a workflow engine, a configurator — if-then. Very often that's the " +
+        "solution, not an AI project. Schulte (70% faster quotes) and RSP (from two hours to ten " +
+        "minutes) did exactly that. No LLM, no hallucinations, no data protection debate. Check " +
+        "this path first.",
+    },
+    {
+      key: "weg-b",
+      pfad: "Weg B",
+      title: "Buy — an off-the-shelf solution",
+      wenn: "Your bottleneck is a standard problem that thousands of companies have.",
+      text:
+        "Clean contact data, meeting transcription, sending documents for signature — every other " +
+        "company has problems like these, and what thousands of companies have, someone solved " +
+        "long ago, probably better than you would build it yourself. Look around the market before " +
+        "you build anything. The price: less flexibility — a bought solution is what it is, you " +
+        "adapt your processes.",
+    },
+    {
+      key: "weg-c-denkbar",
+      pfad: "Weg C",
+      title: "Build — only under three conditions",
+      wenn: "The workflow is your competitive advantage — AND you have know-how/partners — AND a clear goal.",
+      text:
+        "The path with the highest risk and, under these three conditions, the highest lever. If " +
+        "one of the three is missing, don't. If you build: don't look for the jack of all trades " +
+        "— you won't hire the one AI expert who can do everything. It'll be a combination of " +
+        "external consulting, your own people and possibly a partner. And don't hand too much to " +
+        "outsiders: a small internal team has to develop alongside, otherwise the knowledge " +
+        "disappears when the partner swaps its people.",
+    },
+  ],
+  itCheck:
+    "Pre-check for path C — ask your IT the honest question: “Do you build software, or are you " +
+    "an infrastructure team?” In many mid-sized companies IT looks after servers, networks and " +
+    "licences. That's perfectly fine — but then “we'll do it in-house” isn't an option, and you " +
+    "want to know that before you plan.",
+};
+
+export const CASES: typeof de.CASES = [
+  {
+    pfad: "A",
+    company: "Schulte Elektrotechnik",
+    context: "Electrical engineering, Lüdenscheid (configurable EVOline power strip systems)",
+    engpass:
+      "Every quote configuration needed queries to engineering — engineering became the internal bottleneck resource.",
+    loesung:
+      "encoway CPQ sales configurator (standard software, no AI/LLM): guides through the variants, checks technical plausibility automatically, creates the quote directly from SAP product data.",
+    outcome: "Quote creation 70% faster; queries to engineering are no longer needed.",
+    quote:
+      "“On average, the time needed to create a quote was reduced by 70 percent.” — Manfred Aulmann, Head of Engineering",
+    quelleName: "encoway reference (German)",
+    url: "https://www.encoway.de/referenzen/schulte-evoline/",
+  },
+  {
+    pfad: "A",
+    company: "Brückner Maschinenbau",
+    context: "Machinery and plant engineering, Siegsdorf (~2,000 employees)",
+    engpass:
+      "Up to 85 documents and 16 different tools per quote; product knowledge concentrated in individuals.",
+    loesung: "camos CPQ + itmX crm replace the 16 programs — configuration, costing and quote rule-based in one system.",
+    outcome:
+      "Standard quote ~45 minutes faster, several hours for complex quotes; product knowledge secured centrally.",
+    quote:
+      "“Creating standard quotes was shortened by an average of 45 minutes per quote.” — Markus Wendlinger, process expert",
+    quelleName: "camos.de (German)",
+    url: "https://www.camos.de/de/info-center/cpq-und-crm-brueckner-maschinenbau-setzt-auf-das-erfolgsduo",
+  },
+  {
+    pfad: "B",
+    company: "simpleshow",
+    context: "E-learning / SaaS, Berlin (~260 employees)",
+    engpass: "Poor data quality in the DACH region; manual CSV export/import into Salesforce.",
+    loesung: "Switch to Cognism (B2B sales intelligence) with direct Salesforce integration.",
+    outcome: "€2.9m DACH pipeline, 425 new meetings, threefold ROI (as of 2022).",
+    quote:
+      "“Our pipeline for the DACH market reached a value of EUR 2.9 million in 2022 … a threefold return on our investment.” — Filipa Enes, Sales Administrator",
+    quelleName: "cognism.com (German)",
+    url: "https://www.cognism.com/de/blog/simpleshow-case-study",
+  },
+  {
+    pfad: "B",
+    company: "Roto Dachsystemtechnologie (Roto DST)",
+    context: "Construction supplier / roof systems, Bad Mergentheim",
+    engpass: "Passing leads to roofing partners ran manually through inside sales; no end-to-end funnel.",
+    loesung: "Fully automated lead referral portal on HubSpot (Sales/Service/Marketing Hub) with partner TRIALTA.",
+    outcome: "+50% revenue generated from end-customer leads in year 2; manual assignment eliminated.",
+    quote:
+      "“Today we can measure and optimise the entire process from the ad to the installed window.” — Roto DST",
+    quelleName: "hubspot.de / TRIALTA (German)",
+    url: "https://www.hubspot.de/case-studies/roto-dst",
+  },
+  {
+    pfad: "C",
+    company: "RSP Spezialsaugtechnik",
+    context: "Special machinery (suction excavators), Saalfeld",
+    engpass:
+      "More than 200 configuration options, no automatic buildability check — every quote went to engineering several times.",
+    loesung: "camos CPQ with RSP's own product logic modelled (all dependencies, rules, country-specific regulations), integrated with ERP/PLM.",
+    outcome: "Standard quote from 2 hours to ~10 minutes (factor 12), ~1,000 quotes/year, all technically checked.",
+    quote:
+      "“What used to take hours, we now do in minutes.” — Robert Hohl, Project Manager Sales",
+    quelleName: "immittelstand.de / camos (German)",
+    url: "https://www.immittelstand.de/2026/06/09/angebote-in-minuten-statt-stunden-rsp-digitalisiert-den-vertrieb-komplexer-saugbagger-mit-camos-cpq/",
+  },
+  {
+    pfad: "C",
+    company: "IT service provider (DACH, anonymised)",
+    context: "IT services / managed services (~45 employees)",
+    engpass: "60% of sales time spent on manual lead qualification; response time to inquiries 24–48 hours.",
+    loesung: "Custom sales AI pipeline with partner VerdaGen.ai (lead qualification, quote preparation, follow-up sequences; n8n + CRM). Project duration 7 weeks.",
+    outcome: "Response time from 31 hours to 4 minutes; +28% qualified leads; 40% less routine time.",
+    quote: undefined,
+    quelleName: "verdagen.ai (anonymised case)",
+    url: "https://verdagen.ai/case-studies",
+  },
+];
+
+export const PLAN_90: typeof de.PLAN_90 = {
+  intro:
+    "Once your path is set, implementation follows. This is the framework the successful 5% use " +
+    "to deliver a proven pilot in 90 days — no big-bang rollout, prove first, then scale.",
+  phasen: [
+    {
+      titel: "Release the brakes",
+      wochen: "Weeks 1–3",
+      text:
+        "Finalise the business case and get the green light: how have others solved the problem, " +
+        "what's technically possible, build vs. buy. Go to management with numbers and a clear plan.",
+    },
+    {
+      titel: "Run the pilot",
+      wochen: "Weeks 4–8",
+      text:
+        "Small and focused with 3–5 power users. Tool shortlist, buy-vs-build decision, setup, " +
+        "onboarding — and measure continuously from day 1: is it getting better, do people really use it?",
+    },
+    {
+      titel: "Prove the impact",
+      wochen: "Weeks 9–12",
+      text:
+        "Success metrics before/after. At the end you have measurable numbers, an internal success " +
+        "story and a basis for deciding: roll out team-wide — or take the learnings into the next use case.",
+    },
+  ],
+  bruecke:
+    "The whole system step by step — including the patterns where the 95% fail — is in the 90-day " +
+    "framework video (V03, German). If you want to go through it with your specific case, that's " +
+    "exactly the topic for a first call.",
+};
+
+export const BUSINESS_CASE: typeof de.BUSINESS_CASE = {
+  text:
+    "For the pitch to your leadership: the fill-in AI business case one-pager — from a concrete " +
+    "problem to solid numbers in 15 minutes (German).",
+  href: "/downloads/business-case-one-pager",
+  label: "Open the business case one-pager",
+};
+
+export const TOOLKIT_LABELS: typeof de.TOOLKIT_LABELS = {
+  badge: "Your implementation toolkit",
+  raster: "The bottleneck grid (to fill in)",
+  baum: "The decision tree: your three paths",
+  cases: "6 verified cases from mid-sized companies",
+  casesHinweis:
+    "Real, documented cases — the success figures quoted come from the reference published by the " +
+    "vendor or agency (source linked for each case below).",
+  plan: "The next 90 days (short overview)",
+  businessCase: "Business case for your leadership",
+  print: "Save as PDF",
+  pfade: { "Stufe 0": "Stage 0", "Weg A": "Path A", "Weg B": "Path B", "Weg C": "Path C" },
+  tendenz: "← Your tendency",
+  wenn: "If:",
+  casePfad: "Path",
+  engpass: "Bottleneck",
+  loesung: "Solution",
+  ergebnis: "Result",
+  quelle: "Source:",
+  ansehen: "view ↗",
+};
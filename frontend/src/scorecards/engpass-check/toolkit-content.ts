@@ -6,6 +6,7 @@
  * verified DACH case research (with sources); the 90-day skeleton is a compact
  * 3-phase orientation pointing to V03 (the full Smart-AI-Wins system stays in the
  * paid offer). Review-grounded — Daniel can edit any wording here.
+ * The English counterpart is `toolkit-content.en.ts` (see `i18n.ts`).
  */
 
 import type { Weg } from "./types";
@@ -292,7 +293,7 @@ export const BUSINESS_CASE = {
     "konkreten Problem zu belastbaren Zahlen in 15 Minuten.",
   href: "/downloads/business-case-one-pager",
   label: "Zum Business-Case One-Pager",
-} as const;
+};
 
 export const TOOLKIT_LABELS = {
   badge: "Dein Umsetzungs-Toolkit",
@@ -306,4 +307,14 @@ export const TOOLKIT_LABELS = {
   plan: "Die nächsten 90 Tage (Kurz-Überblick)",
   businessCase: "Business-Case für Deine GF",
   print: "Als PDF speichern",
-} as const;
+  /** Display name per decision-tree node (`WegNode.pfad` stays the stable key). */
+  pfade: { "Stufe 0": "Stufe 0", "Weg A": "Weg A", "Weg B": "Weg B", "Weg C": "Weg C" },
+  tendenz: "← Deine Tendenz",
+  wenn: "Wenn:",
+  casePfad: "Pfad",
+  engpass: "Engpass",
+  loesung: "Lösung",
+  ergebnis: "Ergebnis",
+  quelle: "Quelle:",
+  ansehen: "ansehen ↗",
+};
@@ -8,6 +8,8 @@
  * check is itself a Weg-A example.
  */
 
+import type { ScorecardResult } from "@/lib/scorecard/types";
+
 /** Context questions (Block 1 + Block 3): qualification data, no score points. */
 export type ContextQuestionId = "K1" | "K2" | "K3" | "K4" | "K5";
 
@@ -80,3 +82,14 @@ export interface EngpassResult {
   /** Setting-Stufe qualification (invisible to the lead). */
   qualified: boolean;
 }
+
+/**
+ * What the registration's `resolve` stores in `scorecard_submissions.result`:
+ * outcome = band, categoryScores = dimensions, nextLever = typ, plus the weg.
+ * Rows migrated from the legacy `submissions` table carry no categoryScores.
+ */
+export interface EngpassScorecardResult extends ScorecardResult {
+  outcome: Band;
+  nextLever: Dimension;
+  weg: Weg;
+}
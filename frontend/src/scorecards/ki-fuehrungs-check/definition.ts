@@ -8,6 +8,7 @@ import type { ScorecardDefinition } from "@/lib/scorecard/types";
 
 export const definition: ScorecardDefinition = {
   slug: "ki-fuehrungs-check",
+  version: 1,
   scoring: { maxPoints: 12, direction: "higher-better" },
   outcome: {
     type: "bands",
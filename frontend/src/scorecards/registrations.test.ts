@@ -0,0 +1,9 @@
+import { REGISTRATIONS } from "./index";
+import { formatReport, validateRegistrations } from "@/lib/scorecard/validate";
+
+test("every registered scorecard passes the static validator", () => {
+  const reports = validateRegistrations(REGISTRATIONS);
+  const failed = reports.filter((r) => r.problems.length > 0);
+  // The formatted report names every problem when this fails.
+  expect(failed.length === 0 ? "" : formatReport(failed)).toBe("");
+});
@@ -7,6 +7,10 @@
  * @see Requirements 2.1, 3.1, 5.1
  */
 
+import type { ContextSectionType } from './knowledge';
+import type { ConfidenceLevel } from './fit-analysis';
+import type { SkillTier } from './transparency-dashboard';
+
 // =============================================================================
 // Message Types
 // =============================================================================
@@ -35,6 +39,114 @@ export interface ChatMessage {
   timestamp: Date;
   /** Current status of the message */
   status: MessageStatus;
+  /** Knowledge sections the answer drew on (assistant messages only) */
+  sources?: ChatSource[];
+  /** Site features the answer called, shown as cards under it (assistant messages only) */
+  toolCalls?: ChatToolCall[];
+  /** Server signature over the question, content and sources; marks the answer as shareable */
+  signature?: string;
+}
+
+/**
+ * A knowledge section cited under an answer, linking to its public page
+ */
+export interface ChatSource {
+  /** Kind of content the section came from */
+  type: ContextSectionType;
+  /** Section title, e.g. "Experience: Architect at Example Corp" */
+  title: string;
+  /** Site-relative link, e.g. /about#experience-<id> or /blog/<slug> */
+  href: string;
+}
+
+// =============================================================================
+// Tool Types
+// =============================================================================
+
+/**
+ * Site features the chat model can call as tools
+ * - analyze_fit: fit analysis of a job description the visitor pasted
+ * - recommend_scorecard: the matching self-assessment check
+ * - get_skill: a skill from the transparency dashboard
+ * - offer_booking: the Calendly link for a call
+ */
+export type ChatToolName = 'analyze_fit' | 'recommend_scorecard' | 'get_skill' | 'offer_booking';
+
+/**
+ * Condensed fit analysis (the full assessment lives on /fit-analysis)
+ */
+export interface FitAnalysisCard {
+  kind: 'fit_analysis';
+  confidence: ConfidenceLevel;
+  /** One-sentence recommendation */
+  summary: string;
+  /** Titles of the strongest alignments */
+  alignments: string[];
+  /** Titles of the most significant gaps */
+  gaps: string[];
+  href: string;
+}
+
+/**
+ * A scorecard (self-assessment check) to take next
+ */
+export interface ScorecardCard {
+  kind: 'scorecard';
+  title: string;
+  description: string;
+  /** Site-relative link to the check, e.g. /dsgvo-check */
+  href: string;
+}
+
+/**
+ * A skill (or explicit gap) as shown on the transparency dashboard
+ */
+export interface SkillCard {
+  kind: 'skill';
+  name: string;
+  tier: SkillTier;
+  /** Category name; not set for explicit gaps */
+  category?: string;
+  /** Experience summary, or for gaps why the area was not pursued */
+  context: string;
+  yearsOfExperience?: number;
+  /** Titles of the supporting projects, experiences and certifications */
+  evidence: string[];
+  href: string;
+}
+
+/**
+ * Booking link for a call
+ */
+export interface BookingCard {
+  kind: 'booking';
+  title: string;
+  description: string;
+  /** External booking page */
+  href: string;
+}
+
+/**
+ * A tool that could not deliver (nothing found, rate limited, failed), with a way on
+ */
+export interface ToolNoticeCard {
+  kind: 'notice';
+  message: string;
+  href?: string;
+  linkLabel?: string;
+}
+
+/**
+ * Rich card rendered under an answer for a tool result
+ */
+export type ChatToolCard = FitAnalysisCard | ScorecardCard | SkillCard | BookingCard | ToolNoticeCard;
+
+/**
+ * A tool the model called and its result
+ */
+export interface ChatToolCall {
+  tool: ChatToolName;
+  card: ChatToolCard;
 }
 
 // =============================================================================
@@ -89,6 +201,10 @@ export interface ChatState {
   error: ChatError | null;
   /** The last message that failed to send, for retry */
   lastFailedMessage: string | null;
+
+  // Sharing State
+  /** Server copy of the conversation, once shared; kept in sync afterwards */
+  saved: SavedConversation | null;
 }
 
 // =============================================================================
@@ -117,6 +233,10 @@ export interface ChatContextValue {
   clearConversation: () => void;
   /** Retry the last failed message */
   retryLastMessage: () => Promise<void>;
+  /** Read-only link to the saved conversation, once it has been shared */
+  shareUrl: string | null;
+  /** Save the conversation on the server and resolve to its share link (null when unavailable) */
+  shareConversation: () => Promise<string | null>;
 }
 
 // =============================================================================
@@ -143,7 +263,9 @@ export interface ChatAPIRequest {
  */
 export type ChatSSEEvent =
   | { type: 'chunk'; content: string }
-  | { type: 'done' }
+  | { type: 'sources'; sources: ChatSource[] }
+  | ({ type: 'tool_call' } & ChatToolCall)
+  | { type: 'done'; signature?: string }
   | { type: 'error'; message: string };
 
 // =============================================================================
@@ -215,6 +337,9 @@ export interface SerializedMessage {
   content: string;
   timestamp: string; // ISO timestamp
   status: MessageStatus;
+  sources?: ChatSource[];
+  toolCalls?: ChatToolCall[];
+  signature?: string;
 }
 
 /**
@@ -231,6 +356,40 @@ export interface StoredChatSession {
  */
 export const CHAT_STORAGE_KEY = 'portfolio-chat-session';
 
+// =============================================================================
+// Shared Conversation Types
+// =============================================================================
+
+/**
+ * A message as stored on the server for a shared conversation
+ */
+export interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string; // ISO timestamp
+  sources?: ChatSource[];
+  /** Answer signature over the stored (scrubbed) question and answer, for later updates */
+  signature?: string;
+}
+
+/**
+ * Handle on a conversation saved on the server, kept in localStorage so the
+ * visitor can come back to it
+ */
+export interface SavedConversation {
+  /** Server id of the conversation */
+  id: string;
+  /** Secret that authorizes loading and updating it */
+  ownerToken: string;
+  /** Absolute read-only link */
+  shareUrl: string;
+}
+
+/**
+ * Storage key for the saved conversation handle (localStorage)
+ */
+export const CHAT_SAVED_CONVERSATION_KEY = 'portfolio-chat-saved';
+
 // =============================================================================
 // Constants
 // =============================================================================
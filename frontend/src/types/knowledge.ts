@@ -138,6 +138,8 @@ export interface ContextSection {
   content: string;
   /** Priority for context window management (higher = more important) */
   priority: number;
+  /** Public page the section is drawn from, cited as a chat source (raw knowledge has none) */
+  href?: string;
 }
 
 /**